@@ -196,7 +196,11 @@ export function buildNav(
         { to: "/admin/permissions", label: t("nav.permissions", "Permissions"), icon: IconKey },
         { to: "/admin/roles", label: t("nav.roles", "Roles"), icon: IconUsers },
         { to: "/admin/story-context", label: t("nav.story_context", "Story Context"), icon: IconBook },
+        { to: "/admin/story-templates", label: t("nav.story_templates", "Story Templates"), icon: IconBook },
         { to: "/admin/publish-approvals", label: t("nav.approvals", "Approvals"), icon: IconCheckCircle },
+        { to: "/admin/automations", label: t("nav.automations", "Automations"), icon: IconZap },
+        { to: "/admin/webhooks", label: t("nav.webhooks", "Webhooks"), icon: IconActivity },
+        { to: "/admin/calibration", label: t("nav.calibration", "Calibration"), icon: IconCheckCircle },
         { to: "/admin/setup", label: t("nav.setup", "Setup"), icon: IconTool },
         { to: "/admin/settings/integrations", label: t("nav.integrations", "Integrations"), icon: IconRefresh },
       );
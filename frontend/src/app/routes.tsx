@@ -9,13 +9,17 @@ const AccountsIndexPage = lazy(() => import("../pages/AccountsIndexPage").then(m
 const AccountJourneyPage = lazy(() => import("../pages/AccountJourneyPage").then(m => ({ default: m.AccountJourneyPage })));
 const AccountSettingsPage = lazy(() => import("../pages/AccountSettingsPage").then(m => ({ default: m.AccountSettingsPage })));
 const AdminAccountAccessPage = lazy(() => import("../pages/AdminAccountAccessPage").then(m => ({ default: m.AdminAccountAccessPage })));
+const AdminAutomationsPage = lazy(() => import("../pages/AdminAutomationsPage").then(m => ({ default: m.AdminAutomationsPage })));
+const AdminCalibrationPage = lazy(() => import("../pages/AdminCalibrationPage").then(m => ({ default: m.AdminCalibrationPage })));
 const AdminBillingReadinessPage = lazy(() => import("../pages/AdminBillingReadinessPage").then(m => ({ default: m.AdminBillingReadinessPage })));
 const AdminPermissionsPage = lazy(() => import("../pages/AdminPermissionsPage").then(m => ({ default: m.AdminPermissionsPage })));
 const AdminPublishApprovalsPage = lazy(() => import("../pages/AdminPublishApprovalsPage").then(m => ({ default: m.AdminPublishApprovalsPage })));
 const AdminRolesPage = lazy(() => import("../pages/AdminRolesPage").then(m => ({ default: m.AdminRolesPage })));
 const AdminSetupWizardPage = lazy(() => import("../pages/AdminSetupWizardPage").then(m => ({ default: m.AdminSetupWizardPage })));
 const IntegrationsSettingsPage = lazy(() => import("../pages/IntegrationsSettingsPage").then(m => ({ default: m.IntegrationsSettingsPage })));
+const AdminWebhooksPage = lazy(() => import("../pages/AdminWebhooksPage").then(m => ({ default: m.AdminWebhooksPage })));
 const AdminStoryContextPage = lazy(() => import("../pages/AdminStoryContextPage").then(m => ({ default: m.AdminStoryContextPage })));
+const AdminStoryTemplatesPage = lazy(() => import("../pages/AdminStoryTemplatesPage").then(m => ({ default: m.AdminStoryTemplatesPage })));
 const AuthCallbackPage = lazy(() => import("../pages/AuthCallbackPage").then(m => ({ default: m.AuthCallbackPage })));
 const AuthPage = lazy(() => import("../pages/AuthPage").then(m => ({ default: m.AuthPage })));
 const ChatbotConnectorPage = lazy(() => import("../pages/ChatbotConnectorPage").then(m => ({ default: m.ChatbotConnectorPage })));
@@ -28,6 +32,7 @@ const PlatformOwnerDashboardPage = lazy(() => import("../pages/PlatformOwnerDash
 const ProfileCenterPage = lazy(() => import("../pages/ProfileCenterPage").then(m => ({ default: m.ProfileCenterPage })));
 const StatusPage = lazy(() => import("../pages/StatusPage").then(m => ({ default: m.StatusPage })));
 const StoryLibraryPage = lazy(() => import("../pages/StoryLibraryPage").then(m => ({ default: m.StoryLibraryPage })));
+const StoryRevisionsPage = lazy(() => import("../pages/StoryRevisionsPage").then(m => ({ default: m.StoryRevisionsPage })));
 const TaxonomyBrowserPage = lazy(() => import("../pages/TaxonomyBrowserPage").then(m => ({ default: m.TaxonomyBrowserPage })));
 const MyQueuePage = lazy(() => import("../pages/MyQueuePage").then(m => ({ default: m.MyQueuePage })));
 const NotFoundPage = lazy(() => import("../pages/NotFoundPage").then(m => ({ default: m.NotFoundPage })));
@@ -43,6 +48,7 @@ export function AuthenticatedRoutes({ user }: AuthenticatedRoutesProps) {
       <Route path="/" element={<HomePage />} />
       <Route path="/accounts" element={<AccountsIndexPage />} />
       <Route path="/stories" element={<StoryLibraryPage userRole={user.role} />} />
+      <Route path="/stories/:storyId/revisions" element={<StoryRevisionsPage />} />
       <Route path="/taxonomy" element={<TaxonomyBrowserPage />} />
       <Route path="/content-queue" element={<ContentQueuePage />} />
       <Route path="/my-queue" element={<MyQueuePage />} />
@@ -81,6 +87,14 @@ export function AuthenticatedRoutes({ user }: AuthenticatedRoutesProps) {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/admin/story-templates"
+        element={
+          <ProtectedRoute requiredRole={["OWNER", "ADMIN"]} user={user}>
+            <AdminStoryTemplatesPage />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/admin/publish-approvals"
         element={
@@ -89,6 +103,30 @@ export function AuthenticatedRoutes({ user }: AuthenticatedRoutesProps) {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/admin/automations"
+        element={
+          <ProtectedRoute requiredRole={["OWNER", "ADMIN"]} user={user}>
+            <AdminAutomationsPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/admin/webhooks"
+        element={
+          <ProtectedRoute requiredRole={["OWNER", "ADMIN"]} user={user}>
+            <AdminWebhooksPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/admin/calibration"
+        element={
+          <ProtectedRoute requiredRole={["OWNER", "ADMIN"]} user={user}>
+            <AdminCalibrationPage />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/admin/setup"
         element={
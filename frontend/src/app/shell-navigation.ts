@@ -31,6 +31,7 @@ const BREADCRUMB_LABEL_MAP: Record<string, string> = {
   workspaces: "Workspaces",
   writebacks: "Writebacks",
   automations: "Automations",
+  webhooks: "Webhooks",
   status: "Status",
   platform: "Platform",
   "account-settings": "Account Settings",
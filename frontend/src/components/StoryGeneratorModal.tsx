@@ -241,6 +241,8 @@ export function StoryGeneratorModal({
               allTemplates={form.allTemplates}
               activeTemplateId={form.activeTemplateId}
               savingTemplate={form.savingTemplate}
+              contentTemplates={form.contentTemplates}
+              contentTemplateId={form.contentTemplateId}
               isAdvanced={form.isAdvanced}
               selectedStages={form.selectedStages}
               selectedTopics={form.selectedTopics}
@@ -250,6 +252,7 @@ export function StoryGeneratorModal({
               storyLength={form.storyLength}
               storyOutline={form.storyOutline}
               storyType={form.storyType}
+              storyLanguage={form.storyLanguage}
               storyTypeMode={form.storyTypeMode}
               storyTypeSearch={form.storyTypeSearch}
               filteredStoryTypeOptions={form.filteredStoryTypeOptions}
@@ -263,6 +266,7 @@ export function StoryGeneratorModal({
               runGeneration={form.runGeneration}
               handleApplyDealStagePreset={form.handleApplyDealStagePreset}
               handleApplyTemplate={form.handleApplyTemplate}
+              handleContentTemplateChange={form.handleContentTemplateChange}
               handleSaveCurrentTemplate={() => void form.handleSaveCurrentTemplate()}
               handleDismissOnboarding={form.handleDismissOnboarding}
               handleVisibilityModeChange={form.handleVisibilityModeChange}
@@ -275,6 +279,7 @@ export function StoryGeneratorModal({
               setStoryLength={form.setStoryLength}
               setStoryOutline={form.setStoryOutline}
               setStoryType={form.setStoryType}
+              setStoryLanguage={form.setStoryLanguage}
               setStoryTypeMode={form.setStoryTypeMode}
               setStoryTypeSearch={form.setStoryTypeSearch}
               setSelectedTopics={form.setSelectedTopics}
@@ -0,0 +1,144 @@
+/**
+ * StoryClaimHighlights -- marks story sentences that claim verification
+ * could not tie back to their source transcript.
+ *
+ * Claims come back from the build endpoint as plain sentences (inline
+ * markdown stripped). Table rows are one claim with cells joined by " | ".
+ */
+
+import { isValidElement, type ReactNode } from "react";
+import type { Components } from "react-markdown";
+import type { StoryClaimVerification } from "../../lib/api";
+
+const TABLE_CELL_SEPARATOR = " | ";
+
+function normalizeText(text: string): string {
+  return text.replace(/[*_`]/g, "").replace(/\s+/g, " ").trim();
+}
+
+function textOf(node: ReactNode): string {
+  if (typeof node === "string" || typeof node === "number") return String(node);
+  if (Array.isArray(node)) return node.map(textOf).join("");
+  if (isValidElement<{ children?: ReactNode }>(node)) return textOf(node.props.children);
+  return "";
+}
+
+/**
+ * Unsupported claim sentences that are still in the story. Sentences the
+ * user already edited away drop out, so the count tracks what is left to fix.
+ */
+export function findUnsupportedClaims(
+  verification: StoryClaimVerification | null | undefined,
+  markdown: string,
+): string[] {
+  if (!verification) return [];
+  const story = normalizeText(markdown);
+  return verification.claims
+    .filter((claim) => claim.status === "UNSUPPORTED")
+    .map((claim) => normalizeText(claim.text))
+    .filter((text) =>
+      text
+        .split(TABLE_CELL_SEPARATOR)
+        .every((part) => story.includes(normalizeText(part))),
+    );
+}
+
+function MarkedClaim(props: { children: ReactNode }) {
+  return (
+    <mark
+      className="story-claim-mark"
+      title="Not supported by the source transcript"
+    >
+      {props.children}
+    </mark>
+  );
+}
+
+function markSentences(
+  children: ReactNode,
+  sentences: string[],
+): { nodes: ReactNode[]; marked: number } {
+  const nodes: ReactNode[] = [];
+  let marked = 0;
+  const list = Array.isArray(children) ? children : [children];
+
+  list.forEach((child, childIndex) => {
+    if (typeof child !== "string") {
+      nodes.push(child);
+      return;
+    }
+    let rest = child.replace(/\s+/g, " ");
+    let part = 0;
+    while (rest.length > 0) {
+      let hit: { index: number; sentence: string } | null = null;
+      for (const sentence of sentences) {
+        const index = rest.indexOf(sentence);
+        if (index >= 0 && (!hit || index < hit.index)) {
+          hit = { index, sentence };
+        }
+      }
+      if (!hit) {
+        nodes.push(rest);
+        break;
+      }
+      if (hit.index > 0) nodes.push(rest.slice(0, hit.index));
+      nodes.push(
+        <MarkedClaim key={`claim-${childIndex}-${part}`}>{hit.sentence}</MarkedClaim>,
+      );
+      marked += 1;
+      part += 1;
+      rest = rest.slice(hit.index + hit.sentence.length);
+    }
+  });
+
+  return { nodes, marked };
+}
+
+/**
+ * Highlights sentences inside a paragraph or list item. When a sentence
+ * spans inline formatting (bold, links) it cannot be cut out of a single
+ * text node, so the whole block is marked instead.
+ */
+function highlightBlock(children: ReactNode, sentences: string[]): ReactNode {
+  const blockText = normalizeText(textOf(children));
+  const present = sentences.filter((sentence) => blockText.includes(sentence));
+  if (present.length === 0) return children;
+
+  const { nodes, marked } = markSentences(children, present);
+  return marked < present.length ? <MarkedClaim>{children}</MarkedClaim> : nodes;
+}
+
+/**
+ * Loose list items wrap their text in paragraphs, which highlight
+ * themselves; items with a nested list would otherwise mark the whole
+ * nested list along with them.
+ */
+function hasBlockChild(children: ReactNode): boolean {
+  const list = Array.isArray(children) ? children : [children];
+  return list.some(
+    (child) =>
+      isValidElement<{ node?: { tagName?: string } }>(child) &&
+      ["p", "ul", "ol"].includes(child.props.node?.tagName ?? ""),
+  );
+}
+
+function highlightCell(children: ReactNode, sentences: string[]): ReactNode {
+  const cell = normalizeText(textOf(children));
+  if (!/\d/.test(cell)) return children;
+  const flagged = sentences.some((sentence) =>
+    sentence.split(TABLE_CELL_SEPARATOR).includes(cell),
+  );
+  return flagged ? <MarkedClaim>{children}</MarkedClaim> : children;
+}
+
+/** react-markdown overrides that mark the given unsupported sentences. */
+export function buildClaimHighlightComponents(sentences: string[]): Components | undefined {
+  if (sentences.length === 0) return undefined;
+  return {
+    p: ({ children }) => <p>{highlightBlock(children, sentences)}</p>,
+    li: ({ children }) => (
+      <li>{hasBlockChild(children) ? children : highlightBlock(children, sentences)}</li>
+    ),
+    td: ({ children, style }) => <td style={style}>{highlightCell(children, sentences)}</td>,
+  };
+}
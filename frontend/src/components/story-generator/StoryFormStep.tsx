@@ -4,14 +4,17 @@ import { FormatSelector } from "../FormatSelector";
 import {
   type FunnelStage,
   type TaxonomyTopic,
+  type TopicKey,
   type StoryFormat,
   type StoryLength,
   type StoryOutline,
+  type StoryLanguage,
   type StoryTypeInput,
   FUNNEL_STAGE_LABELS,
   TOPIC_LABELS,
   STORY_LENGTH_LABELS,
   STORY_OUTLINE_LABELS,
+  STORY_LANGUAGE_LABELS,
 } from "../../types/taxonomy";
 import {
   createSharedAsset,
@@ -21,6 +24,7 @@ import {
   trackSellerAdoptionEvent,
   type SharedAsset,
   type StoryContextSettings,
+  type StoryTemplate,
 } from "../../lib/api";
 import { useQuoteSelection } from "./useQuoteSelection";
 import { useToast } from "../Toast";
@@ -37,7 +41,7 @@ export interface StoryTemplateValues {
   storyType: StoryTypeInput;
   storyFormat: StoryFormat | "";
   selectedStages?: FunnelStage[];
-  selectedTopics?: TaxonomyTopic[];
+  selectedTopics?: TopicKey[];
 }
 
 export interface StoryTemplateOption {
@@ -75,6 +79,10 @@ export const STORY_OUTLINE_OPTIONS = Object.entries(
   STORY_OUTLINE_LABELS
 ) as [StoryOutline, string][];
 
+export const STORY_LANGUAGE_OPTIONS = Object.entries(
+  STORY_LANGUAGE_LABELS
+) as [StoryLanguage, string][];
+
 export const BUILT_IN_STORY_TEMPLATES: StoryTemplateOption[] = [
   {
     id: "roi_snapshot",
@@ -198,20 +206,24 @@ export interface StoryFormStepProps {
   allTemplates: StoryTemplateOption[];
   activeTemplateId: string | null;
   savingTemplate: boolean;
+  /** Org-defined content templates; selecting one replaces the outline. */
+  contentTemplates: StoryTemplate[];
+  contentTemplateId: string;
 
   // Advanced form state
   isAdvanced: boolean;
   selectedStages: FunnelStage[];
-  selectedTopics: TaxonomyTopic[];
+  selectedTopics: TopicKey[];
   topicOptions: Array<{ value: string; label: string; group: string }>;
   customTitle: string;
   selectedFormat: StoryFormat | "";
   storyLength: StoryLength;
   storyOutline: StoryOutline;
   storyType: StoryTypeInput;
+  storyLanguage: StoryLanguage;
   storyTypeMode: StoryTypeMode;
   storyTypeSearch: string;
-  filteredStoryTypeOptions: [TaxonomyTopic, string][];
+  filteredStoryTypeOptions: [TopicKey, string][];
   aiModelOptions: Array<{
     provider: "openai" | "anthropic" | "google";
     model: string;
@@ -229,6 +241,7 @@ export interface StoryFormStepProps {
   runGeneration: () => void;
   handleApplyDealStagePreset: (presetId: string) => void;
   handleApplyTemplate: (templateId: string) => void;
+  handleContentTemplateChange: (templateId: string) => void;
   handleSaveCurrentTemplate: () => void;
   handleDismissOnboarding: () => void;
   handleVisibilityModeChange: (mode: StoryVisibilityMode) => void;
@@ -243,9 +256,10 @@ export interface StoryFormStepProps {
   setStoryLength: Dispatch<SetStateAction<StoryLength>>;
   setStoryOutline: Dispatch<SetStateAction<StoryOutline>>;
   setStoryType: Dispatch<SetStateAction<StoryTypeInput>>;
+  setStoryLanguage: Dispatch<SetStateAction<StoryLanguage>>;
   setStoryTypeMode: Dispatch<SetStateAction<StoryTypeMode>>;
   setStoryTypeSearch: Dispatch<SetStateAction<string>>;
-  setSelectedTopics: Dispatch<SetStateAction<TaxonomyTopic[]>>;
+  setSelectedTopics: Dispatch<SetStateAction<TopicKey[]>>;
   setSelectedAIModelKey: Dispatch<SetStateAction<string>>;
 
   // Template delete
@@ -281,6 +295,8 @@ export function StoryFormStep(props: StoryFormStepProps) {
     allTemplates,
     activeTemplateId,
     savingTemplate,
+    contentTemplates,
+    contentTemplateId,
     isAdvanced,
     selectedStages,
     selectedTopics,
@@ -290,6 +306,7 @@ export function StoryFormStep(props: StoryFormStepProps) {
     storyLength,
     storyOutline,
     storyType,
+    storyLanguage,
     storyTypeMode,
     storyTypeSearch,
     filteredStoryTypeOptions,
@@ -303,6 +320,7 @@ export function StoryFormStep(props: StoryFormStepProps) {
     runGeneration,
     handleApplyDealStagePreset,
     handleApplyTemplate,
+    handleContentTemplateChange,
     handleSaveCurrentTemplate,
     handleDismissOnboarding,
     handleVisibilityModeChange,
@@ -315,6 +333,7 @@ export function StoryFormStep(props: StoryFormStepProps) {
     setStoryLength,
     setStoryOutline,
     setStoryType,
+    setStoryLanguage,
     setStoryTypeMode,
     setStoryTypeSearch,
     setSelectedTopics,
@@ -323,6 +342,9 @@ export function StoryFormStep(props: StoryFormStepProps) {
     trackSellerEvent,
   } = props;
 
+  const selectedContentTemplate =
+    contentTemplates.find((template) => template.id === contentTemplateId) ?? null;
+
   return (
     <div className="story-form">
       <section className="story-form__quick">
@@ -579,7 +601,7 @@ export function StoryFormStep(props: StoryFormStepProps) {
               label="Topics"
               options={topicOptions}
               selected={selectedTopics}
-              onChange={(v) => setSelectedTopics(v as TaxonomyTopic[])}
+              onChange={(v) => setSelectedTopics(v as TopicKey[])}
               placeholder="All topics (no filter)"
               grouped
             />
@@ -624,15 +646,45 @@ export function StoryFormStep(props: StoryFormStepProps) {
               </select>
             </div>
 
+            {contentTemplates.length > 0 && (
+              <div className="form-field">
+                <label className="form-field__label" htmlFor="story-content-template">
+                  Content Template
+                </label>
+                <select
+                  id="story-content-template"
+                  className="form-field__input"
+                  value={contentTemplateId}
+                  onChange={(e) => handleContentTemplateChange(e.target.value)}
+                >
+                  <option value="">None (use a built-in outline)</option>
+                  {contentTemplates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+                {selectedContentTemplate && (
+                  <span className="form-field__hint">
+                    Sections: {selectedContentTemplate.definition.sections.map((section) => section.heading).join(" · ")}
+                    {selectedContentTemplate.definition.audience
+                      ? ` — for ${selectedContentTemplate.definition.audience}`
+                      : ""}
+                  </span>
+                )}
+              </div>
+            )}
+
             <div className="form-field">
               <label className="form-field__label" htmlFor="story-outline">
                 Story Outline
-                {isOutlineDefault && <span className="form-default-badge">Default</span>}
+                {isOutlineDefault && !contentTemplateId && <span className="form-default-badge">Default</span>}
               </label>
               <select
                 id="story-outline"
                 className="form-field__input"
                 value={storyOutline}
+                disabled={Boolean(contentTemplateId)}
                 onChange={(e) =>
                   setStoryOutline(e.target.value as StoryOutline)
                 }
@@ -644,6 +696,26 @@ export function StoryFormStep(props: StoryFormStepProps) {
                 ))}
               </select>
             </div>
+
+            <div className="form-field">
+              <label className="form-field__label" htmlFor="story-language">
+                Story Language
+              </label>
+              <select
+                id="story-language"
+                className="form-field__input"
+                value={storyLanguage}
+                onChange={(e) =>
+                  setStoryLanguage(e.target.value as StoryLanguage)
+                }
+              >
+                {STORY_LANGUAGE_OPTIONS.map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
           </section>
 
           <section className="story-form__group">
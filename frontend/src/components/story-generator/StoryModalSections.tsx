@@ -3,6 +3,7 @@ import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import type { Dispatch, SetStateAction } from "react";
 import type { BuildStoryResponse, StoryQuote } from "../../lib/api";
+import { buildClaimHighlightComponents } from "./StoryClaimHighlights";
 
 function formatTimestamp(ms: number): string {
   const totalSeconds = Math.max(0, Math.floor(ms / 1000));
@@ -167,6 +168,8 @@ export function StoryPreviewSection(props: {
   setEditMode: Dispatch<SetStateAction<boolean>>;
   setPreviewMarkdown: Dispatch<SetStateAction<string>>;
   storyStats: { wordCount: number; readingMinutes: number } | null;
+  /** Unsupported claim sentences still present in the story, highlighted in preview. */
+  unsupportedClaims: string[];
 }) {
   const {
     activeMarkdown,
@@ -188,6 +191,7 @@ export function StoryPreviewSection(props: {
     setEditMode,
     setPreviewMarkdown,
     storyStats,
+    unsupportedClaims,
   } = props;
 
   return (
@@ -344,7 +348,12 @@ export function StoryPreviewSection(props: {
             </div>
           ) : (
             <article className="markdown-body">
-              <ReactMarkdown remarkPlugins={[remarkGfm]}>{activeMarkdown}</ReactMarkdown>
+              <ReactMarkdown
+                remarkPlugins={[remarkGfm]}
+                components={buildClaimHighlightComponents(unsupportedClaims)}
+              >
+                {activeMarkdown}
+              </ReactMarkdown>
             </article>
           )}
         </div>
@@ -355,6 +364,9 @@ export function StoryPreviewSection(props: {
             {result.quotes.map((quote, index) => (
               <div key={index} className="quote-card">
                 <blockquote className="quote-card__text">"{quote.quote_text}"</blockquote>
+                {quote.translation && (
+                  <p className="quote-card__translation">{quote.translation}</p>
+                )}
                 {quote.speaker && <p className="quote-card__speaker">- {quote.speaker}</p>}
                 {quote.metric_value && (
                   <div className="quote-card__metric">
@@ -371,6 +383,11 @@ export function StoryPreviewSection(props: {
                     Confidence {Math.round(quote.confidence_score * 100)}%
                   </div>
                 )}
+                {quote.verification_status === "UNSUPPORTED" && (
+                  <div className="quote-card__confidence quote-card__confidence--unverified">
+                    Wording not found in the source transcript
+                  </div>
+                )}
                 {(() => {
                   const transcriptPath = buildTranscriptSourcePath(quote);
                   const sourceTimestampMs = typeof quote.source_timestamp_ms === "number"
@@ -11,13 +11,14 @@
 
 import { useCallback, useMemo } from "react";
 import { StoryPreviewSection } from "./StoryModalSections";
+import { findUnsupportedClaims } from "./StoryClaimHighlights";
 import { useStoryPublishFlow } from "./StoryPublishStep";
 import type { Dispatch, SetStateAction } from "react";
 import type { BuildStoryResponse } from "../../lib/api";
 import type { StoryVisibilityMode } from "./StoryFormStep";
 import type {
   FunnelStage,
-  TaxonomyTopic,
+  TopicKey,
   StoryFormat,
   StoryLength,
   StoryOutline,
@@ -59,7 +60,7 @@ export interface StoryPreviewStepProps {
       storyType: StoryTypeInput;
       selectedFormat: StoryFormat | "";
       selectedStages: FunnelStage[];
-      selectedTopics: TaxonomyTopic[];
+      selectedTopics: TopicKey[];
     }>,
   ) => void;
   visibilityMode: StoryVisibilityMode;
@@ -110,6 +111,22 @@ export function StoryPreviewStep(props: StoryPreviewStepProps) {
     return { wordCount, readingMinutes };
   }, [activeMarkdown]);
 
+  const unsupportedClaims = useMemo(
+    () => findUnsupportedClaims(result.claim_verification, activeMarkdown),
+    [activeMarkdown, result.claim_verification],
+  );
+
+  // Banned claims the user has not yet edited out of the preview.
+  const bannedClaims = useMemo(
+    () =>
+      (result.lint?.findings ?? []).filter(
+        (finding) =>
+          finding.rule === "banned_claim" &&
+          activeMarkdown.toLowerCase().includes(finding.match.toLowerCase()),
+      ),
+    [activeMarkdown, result.lint],
+  );
+
   const safeToShare = useMemo(() => {
     const quoteConfidences = result.quotes
       .map((quote) => quote.confidence_score)
@@ -123,6 +140,26 @@ export function StoryPreviewStep(props: StoryPreviewStepProps) {
           quoteConfidences.length
         : 0;
     const confidenceOk = avgConfidence >= 0.72;
+    if (bannedClaims.length > 0) {
+      return {
+        status: "warning" as const,
+        label: "Review Needed",
+        reason: `Contains banned ${bannedClaims.length === 1 ? "claim" : "claims"}: ${bannedClaims
+          .map((finding) => `"${finding.match}"`)
+          .join(", ")}.`,
+        avgConfidence,
+      };
+    }
+    if (unsupportedClaims.length > 0) {
+      return {
+        status: "warning" as const,
+        label: "Review Needed",
+        reason: `${unsupportedClaims.length} highlighted ${
+          unsupportedClaims.length === 1 ? "claim is" : "claims are"
+        } not supported by the source transcripts.`,
+        avgConfidence,
+      };
+    }
     if (
       confidenceOk &&
       (visibilityMode === "ANONYMOUS" || namedPermissionConfirmed)
@@ -149,7 +186,7 @@ export function StoryPreviewStep(props: StoryPreviewStepProps) {
       reason: `Average quote confidence is ${Math.round(avgConfidence * 100)}%.`,
       avgConfidence,
     };
-  }, [namedPermissionConfirmed, result, visibilityMode]);
+  }, [bannedClaims, namedPermissionConfirmed, result, unsupportedClaims, visibilityMode]);
 
   // ── Publish flow ─────────────────────────────────────────────────────────
 
@@ -242,6 +279,7 @@ export function StoryPreviewStep(props: StoryPreviewStepProps) {
       setEditMode={setEditMode}
       setPreviewMarkdown={setPreviewMarkdown}
       storyStats={storyStats}
+      unsupportedClaims={unsupportedClaims}
     />
   );
 }
@@ -1,22 +1,33 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { getStoryLibraryTaxonomy, type CustomTopicSummary } from "../../lib/api";
 import {
   FUNNEL_STAGE_LABELS,
   STAGE_TOPICS,
   TOPIC_LABELS,
   type FunnelStage,
-  type TaxonomyTopic,
+  type TopicKey,
 } from "../../types/taxonomy";
 
-function buildTopicOptions(selectedStages: FunnelStage[]) {
+function topicsForStage(stage: FunnelStage, customTopics: CustomTopicSummary[]): TopicKey[] {
+  return [
+    ...STAGE_TOPICS[stage],
+    ...customTopics.filter((topic) => topic.funnel_stage === stage).map((topic) => topic.key),
+  ];
+}
+
+function buildTopicOptions(selectedStages: FunnelStage[], customTopics: CustomTopicSummary[]) {
   const stages =
     selectedStages.length > 0
       ? selectedStages
       : (Object.keys(STAGE_TOPICS) as FunnelStage[]);
+  const customLabels = new Map<string, string>(
+    customTopics.map((topic) => [topic.key, topic.label])
+  );
 
   return stages.flatMap((stage) =>
-    STAGE_TOPICS[stage].map((topic) => ({
+    topicsForStage(stage, customTopics).map((topic) => ({
       value: topic,
-      label: TOPIC_LABELS[topic],
+      label: customLabels.get(topic) ?? TOPIC_LABELS[topic as keyof typeof TOPIC_LABELS] ?? topic,
       group: FUNNEL_STAGE_LABELS[stage],
     }))
   );
@@ -24,18 +35,32 @@ function buildTopicOptions(selectedStages: FunnelStage[]) {
 
 export function useQuoteSelection(initial?: {
   selectedStages?: FunnelStage[];
-  selectedTopics?: TaxonomyTopic[];
+  selectedTopics?: TopicKey[];
 }) {
   const [selectedStages, setSelectedStages] = useState<FunnelStage[]>(
     initial?.selectedStages ?? []
   );
-  const [selectedTopics, setSelectedTopics] = useState<TaxonomyTopic[]>(
+  const [selectedTopics, setSelectedTopics] = useState<TopicKey[]>(
     initial?.selectedTopics ?? []
   );
+  const [customTopics, setCustomTopics] = useState<CustomTopicSummary[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Custom topics are optional here; the built-in taxonomy still works without them.
+    void getStoryLibraryTaxonomy()
+      .then((res) => {
+        if (!cancelled) setCustomTopics(res.custom_topics ?? []);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   const topicOptions = useMemo(
-    () => buildTopicOptions(selectedStages),
-    [selectedStages]
+    () => buildTopicOptions(selectedStages, customTopics),
+    [selectedStages, customTopics]
   );
 
   const handleStagesChange = (stages: string[]) => {
@@ -43,7 +68,7 @@ export function useQuoteSelection(initial?: {
     setSelectedStages(nextStages);
 
     if (nextStages.length > 0) {
-      const validTopics = new Set(nextStages.flatMap((stage) => STAGE_TOPICS[stage]));
+      const validTopics = new Set(nextStages.flatMap((stage) => topicsForStage(stage, customTopics)));
       setSelectedTopics((prev) => prev.filter((topic) => validTopics.has(topic)));
     }
   };
@@ -52,6 +77,7 @@ export function useQuoteSelection(initial?: {
     selectedStages,
     selectedTopics,
     topicOptions,
+    customTopics,
     setSelectedStages,
     setSelectedTopics,
     handleStagesChange,
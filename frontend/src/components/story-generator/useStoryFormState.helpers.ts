@@ -5,26 +5,29 @@ import {
 } from "./StoryFormStep";
 import {
   type FunnelStage,
-  type TaxonomyTopic,
+  type TopicKey,
   type StoryFormat,
   type StoryLength,
   type StoryOutline,
+  type StoryLanguage,
   type StoryTypeInput,
   FUNNEL_STAGE_LABELS,
   TOPIC_LABELS,
   STORY_LENGTH_LABELS,
   STORY_OUTLINE_LABELS,
+  isCustomTopicKey,
 } from "../../types/taxonomy";
 import type { BuildStoryRequest, SharedAsset } from "../../lib/api";
 
 export interface PersistedStorySettings {
   selectedStages: FunnelStage[];
-  selectedTopics: TaxonomyTopic[];
+  selectedTopics: TopicKey[];
   customTitle: string;
   selectedFormat: StoryFormat | "";
   storyLength: StoryLength;
   storyOutline: StoryOutline;
   storyType: StoryTypeInput;
+  storyLanguage?: StoryLanguage;
   isAdvanced: boolean;
 }
 
@@ -39,7 +42,7 @@ export interface StoryGenerationOverrides {
   storyType?: StoryTypeInput;
   selectedFormat?: StoryFormat | "";
   selectedStages?: FunnelStage[];
-  selectedTopics?: TaxonomyTopic[];
+  selectedTopics?: TopicKey[];
 }
 
 interface BuildStoryRequestInput {
@@ -51,10 +54,13 @@ interface BuildStoryRequestInput {
   selectedAIModel: AIModelOption | null;
   storyLength: StoryLength;
   storyOutline: StoryOutline;
+  /** Org content template ID; replaces the outline when set. */
+  contentTemplateId: string;
   storyType: StoryTypeInput;
+  storyLanguage: StoryLanguage;
   selectedFormat: StoryFormat | "";
   selectedStages: FunnelStage[];
-  selectedTopics: TaxonomyTopic[];
+  selectedTopics: TopicKey[];
 }
 
 export const PERSIST_KEY = "story_generator_preferences_v1";
@@ -100,6 +106,7 @@ export function parseSavedTemplate(asset: SharedAsset): StoryTemplateOption | nu
     typeof rawType !== "string" ||
     !(
       rawType === "FULL_ACCOUNT_JOURNEY" ||
+      isCustomTopicKey(rawType) ||
       STORY_TYPE_TOPIC_OPTIONS.some(([topic]) => topic === rawType)
     )
   ) {
@@ -113,7 +120,8 @@ export function parseSavedTemplate(asset: SharedAsset): StoryTemplateOption | nu
     : undefined;
   const selectedTopics = Array.isArray(rawValues.selected_topics)
     ? rawValues.selected_topics.filter(
-        (topic): topic is TaxonomyTopic => typeof topic === "string" && topic in TOPIC_LABELS
+        (topic): topic is TopicKey =>
+          typeof topic === "string" && (topic in TOPIC_LABELS || isCustomTopicKey(topic))
       )
     : undefined;
 
@@ -183,8 +191,10 @@ export function buildStoryGenerationRequest(input: BuildStoryRequestInput): Buil
     title: input.customTitle.trim() || `${input.accountName} ${input.stageLabel} ${audienceLabel} Story`,
     format: input.selectedFormat || undefined,
     story_length: input.storyLength,
-    story_outline: input.storyOutline,
+    story_outline: input.contentTemplateId ? undefined : input.storyOutline,
+    template_id: input.contentTemplateId || undefined,
     story_type: input.storyType,
+    target_language: input.storyLanguage,
     ai_provider: input.selectedAIModel?.provider,
     ai_model: input.selectedAIModel?.model,
   };
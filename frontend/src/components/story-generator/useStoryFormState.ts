@@ -4,9 +4,10 @@
  * Owns:
  *   - persisted settings (load/save from localStorage)
  *   - quote-selection hook delegation
- *   - story format, length, outline, type controls
+ *   - story format, length, outline, type, language controls
  *   - visibility / audience / deal-stage-preset controls
  *   - template management (load, save, delete, apply)
+ *   - org content template selection
  *   - org defaults loading
  *   - generation trigger (builds the request and calls runStoryGeneration)
  *   - derived "org default" indicators
@@ -30,7 +31,9 @@ import {
   type StoryFormat,
   type StoryLength,
   type StoryOutline,
+  type StoryLanguage,
   type StoryTypeInput,
+  type TopicKey,
 } from "../../types/taxonomy";
 import {
   createSharedAsset,
@@ -38,7 +41,9 @@ import {
   getAvailableAIProviders,
   getSharedAssets,
   getStoryContextSettings,
+  getStoryTemplates,
   type StoryContextSettings,
+  type StoryTemplate,
   type BuildStoryRequest,
 } from "../../lib/api";
 import { useToast } from "../Toast";
@@ -110,6 +115,7 @@ export function useStoryFormState(options: UseStoryFormStateOptions) {
     selectedStages,
     selectedTopics,
     topicOptions,
+    customTopics,
     setSelectedTopics,
     handleStagesChange,
   } = useQuoteSelection({
@@ -134,6 +140,9 @@ export function useStoryFormState(options: UseStoryFormStateOptions) {
   const [storyType, setStoryType] = useState<StoryTypeInput>(
     persistedRef.current?.storyType ?? "FULL_ACCOUNT_JOURNEY",
   );
+  const [storyLanguage, setStoryLanguage] = useState<StoryLanguage>(
+    persistedRef.current?.storyLanguage ?? "en",
+  );
   const [isAdvanced, setIsAdvanced] = useState<boolean>(
     persistedRef.current?.isAdvanced ?? false,
   );
@@ -166,17 +175,21 @@ export function useStoryFormState(options: UseStoryFormStateOptions) {
     [],
   );
   const [savingTemplate, setSavingTemplate] = useState(false);
+  const [contentTemplates, setContentTemplates] = useState<StoryTemplate[]>([]);
+  const [contentTemplateId, setContentTemplateId] = useState("");
   const { showToast } = useToast();
 
   // ── Derived values ──────────────────────────────────────────────────────
 
   const filteredStoryTypeOptions = useMemo(() => {
+    const options: [TopicKey, string][] = [
+      ...STORY_TYPE_TOPIC_OPTIONS,
+      ...customTopics.map((topic): [TopicKey, string] => [topic.key, topic.label]),
+    ];
     const needle = storyTypeSearch.trim().toLowerCase();
-    if (!needle) return STORY_TYPE_TOPIC_OPTIONS;
-    return STORY_TYPE_TOPIC_OPTIONS.filter(([, label]) =>
-      label.toLowerCase().includes(needle),
-    );
-  }, [storyTypeSearch]);
+    if (!needle) return options;
+    return options.filter(([, label]) => label.toLowerCase().includes(needle));
+  }, [storyTypeSearch, customTopics]);
 
   const allTemplates = useMemo(
     () => [...BUILT_IN_STORY_TEMPLATES, ...savedTemplates],
@@ -217,6 +230,7 @@ export function useStoryFormState(options: UseStoryFormStateOptions) {
       storyLength,
       storyOutline,
       storyType,
+      storyLanguage,
       isAdvanced,
     });
   }, [
@@ -227,6 +241,7 @@ export function useStoryFormState(options: UseStoryFormStateOptions) {
     storyLength,
     storyOutline,
     storyType,
+    storyLanguage,
     isAdvanced,
   ]);
 
@@ -250,6 +265,14 @@ export function useStoryFormState(options: UseStoryFormStateOptions) {
     void loadSavedTemplates();
   }, [loadSavedTemplates]);
 
+  useEffect(() => {
+    getStoryTemplates()
+      .then((response) => setContentTemplates(response.templates))
+      .catch(() => {
+        // Content templates are optional; the built-in outlines still work.
+      });
+  }, []);
+
   // ── Org defaults loading ────────────────────────────────────────────────
 
   useEffect(() => {
@@ -463,7 +486,9 @@ export function useStoryFormState(options: UseStoryFormStateOptions) {
           selectedAIModel,
           storyLength: effectiveStoryLength,
           storyOutline: effectiveStoryOutline,
+          contentTemplateId,
           storyType: effectiveStoryType,
+          storyLanguage,
           selectedFormat: effectiveStoryFormat,
           selectedStages: effectiveStages,
           selectedTopics: effectiveTopics,
@@ -474,6 +499,7 @@ export function useStoryFormState(options: UseStoryFormStateOptions) {
       accountId,
       accountName,
       audienceMode,
+      contentTemplateId,
       customTitle,
       flowOpenedAt,
       handleStagesChange,
@@ -488,6 +514,7 @@ export function useStoryFormState(options: UseStoryFormStateOptions) {
       setSelectedTopics,
       stageLabel,
       storyLength,
+      storyLanguage,
       storyOutline,
       storyType,
       trackSellerEvent,
@@ -512,6 +539,18 @@ export function useStoryFormState(options: UseStoryFormStateOptions) {
     [trackSellerEvent],
   );
 
+  // A content template brings its own target length, which can still be overridden.
+  const handleContentTemplateChange = useCallback(
+    (templateId: string) => {
+      setContentTemplateId(templateId);
+      const template = contentTemplates.find((item) => item.id === templateId);
+      if (template) {
+        setStoryLength(template.definition.story_length);
+      }
+    },
+    [contentTemplates],
+  );
+
   const handleApplyTemplate = useCallback(
     (templateId: string) => {
       const template = allTemplates.find((item) => item.id === templateId);
@@ -639,6 +678,8 @@ export function useStoryFormState(options: UseStoryFormStateOptions) {
     setStoryOutline,
     storyType,
     setStoryType,
+    storyLanguage,
+    setStoryLanguage,
     isAdvanced,
     setIsAdvanced,
     storyTypeMode,
@@ -659,6 +700,8 @@ export function useStoryFormState(options: UseStoryFormStateOptions) {
     allTemplates,
     activeTemplateId,
     savingTemplate,
+    contentTemplates,
+    contentTemplateId,
 
     // Derived values
     filteredStoryTypeOptions,
@@ -683,6 +726,7 @@ export function useStoryFormState(options: UseStoryFormStateOptions) {
     // Handlers
     handleVisibilityModeChange,
     handleApplyTemplate,
+    handleContentTemplateChange,
     handleSaveCurrentTemplate,
     handleApplyDealStagePreset,
     handleDeleteSavedTemplate,
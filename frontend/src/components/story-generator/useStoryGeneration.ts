@@ -13,8 +13,9 @@ const PROGRESS_TO_PERCENT: Record<string, number> = {
   MERGING_TRANSCRIPTS: 20,
   GATHERING_SEGMENTS: 38,
   GENERATING_NARRATIVE: 68,
-  EXTRACTING_QUOTES: 84,
-  SAVING_STORY: 94,
+  EXTRACTING_QUOTES: 80,
+  VERIFYING_CLAIMS: 88,
+  SAVING_STORY: 95,
   DONE: 100,
 };
 
@@ -24,6 +25,7 @@ const PROGRESS_COPY: Record<string, string> = {
   GATHERING_SEGMENTS: "Gathering tagged evidence from transcript segments.",
   GENERATING_NARRATIVE: "Generating draft narrative from transcript evidence.",
   EXTRACTING_QUOTES: "Extracting quantified high-value quotes.",
+  VERIFYING_CLAIMS: "Checking story claims against their source transcripts.",
   SAVING_STORY: "Saving your story and quote lineage.",
   DONE: "Finalizing story output.",
 };
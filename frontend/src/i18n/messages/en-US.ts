@@ -20,6 +20,7 @@ export const enUS: Record<string, string> = {
   "nav.permissions": "Permissions",
   "nav.roles": "Roles",
   "nav.story_context": "Story Context",
+  "nav.story_templates": "Story Templates",
   "nav.audit_logs": "Audit Logs",
   "nav.operations": "Operations",
   "nav.security": "Security",
@@ -31,6 +32,7 @@ export const enUS: Record<string, string> = {
   "nav.workspaces": "Workspaces",
   "nav.writebacks": "Writebacks",
   "nav.automations": "Automations",
+  "nav.webhooks": "Webhooks",
   "nav.profile": "Profile",
   "nav.account_settings": "Account Settings",
   "nav.group.administration": "Administration",
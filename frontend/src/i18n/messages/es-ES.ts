@@ -20,6 +20,7 @@ export const esES: Record<string, string> = {
   "nav.permissions": "Permisos",
   "nav.roles": "Roles",
   "nav.story_context": "Contexto de historia",
+  "nav.story_templates": "Plantillas de historia",
   "nav.audit_logs": "Registros de auditoria",
   "nav.operations": "Operaciones",
   "nav.security": "Seguridad",
@@ -31,6 +32,7 @@ export const esES: Record<string, string> = {
   "nav.workspaces": "Espacios de trabajo",
   "nav.writebacks": "Writebacks",
   "nav.automations": "Automatizaciones",
+  "nav.webhooks": "Webhooks",
   "nav.profile": "Perfil",
   "nav.account_settings": "Configuracion de cuenta",
   "nav.group.administration": "Administracion",
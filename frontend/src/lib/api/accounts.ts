@@ -2,11 +2,14 @@ import type {
   AccountSearchResult,
   AccountsListResponse,
   ChatAccount,
+  ChatConversationDetail,
+  ChatConversationSummary,
+  ChatMessageFeedback,
   ChatSource,
   JourneyAccount,
   JourneyTimelineNode,
 } from "./types";
-import { request } from "./http";
+import { BASE_URL, buildRequestHeaders, request } from "./http";
 
 export async function getAccountsList(params?: {
   search?: string;
@@ -55,6 +58,147 @@ export async function sendChatMessage(body: {
   });
 }
 
+export interface ChatAnswer {
+  answer: string;
+  sources: ChatSource[];
+  conversation_id?: string;
+  message_id?: string;
+}
+
+export async function streamChatMessage(
+  body: {
+    query: string;
+    account_id: string | null;
+    history: Array<{ role: string; content: string }>;
+    top_k?: number;
+    conversation_id?: string;
+  },
+  handlers: {
+    onToken?: (token: string) => void;
+  },
+  options?: {
+    signal?: AbortSignal;
+  }
+): Promise<ChatAnswer> {
+  const response = await fetch(`${BASE_URL}/rag/chat/stream`, {
+    method: "POST",
+    headers: buildRequestHeaders(),
+    body: JSON.stringify(body),
+    signal: options?.signal,
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(errorBody.message ?? errorBody.error ?? `Request failed: ${response.status}`);
+  }
+
+  if (!response.body) {
+    throw new Error("Streaming not supported by this browser.");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let finalPayload: ChatAnswer | null = null;
+
+  const flushBlock = (block: string) => {
+    let event = "message";
+    let data = "";
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        data += line.slice(5).trim();
+      }
+    }
+
+    if (!data) return;
+    const parsed = JSON.parse(data) as Record<string, unknown>;
+
+    if (event === "token" && typeof parsed.token === "string") {
+      handlers.onToken?.(parsed.token);
+      return;
+    }
+
+    if (event === "complete") {
+      finalPayload = parsed as unknown as ChatAnswer;
+      return;
+    }
+
+    if (event === "error") {
+      throw new Error(
+        typeof parsed.message === "string" ? parsed.message : "Streaming request failed"
+      );
+    }
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() ?? "";
+    for (const block of blocks) {
+      if (block.trim().length === 0) continue;
+      flushBlock(block);
+    }
+  }
+
+  if (buffer.trim().length > 0) {
+    flushBlock(buffer);
+  }
+
+  if (!finalPayload) {
+    throw new Error("Chat stream ended without a final answer.");
+  }
+
+  return finalPayload;
+}
+
+export async function getChatConversations(params?: {
+  account_id?: string;
+  limit?: number;
+}): Promise<{ conversations: ChatConversationSummary[] }> {
+  const qs = new URLSearchParams();
+  if (params?.account_id) qs.set("account_id", params.account_id);
+  if (params?.limit != null) qs.set("limit", String(params.limit));
+  const query = qs.toString();
+  return request<{ conversations: ChatConversationSummary[] }>(
+    `/rag/conversations${query ? `?${query}` : ""}`
+  );
+}
+
+export async function createChatConversation(body: {
+  account_id: string | null;
+  title?: string;
+}): Promise<{ id: string; title: string | null; account_id: string | null; created_at: string }> {
+  return request("/rag/conversations", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+export async function getChatConversation(conversationId: string): Promise<ChatConversationDetail> {
+  return request<ChatConversationDetail>(`/rag/conversations/${conversationId}`);
+}
+
+export async function deleteChatConversation(conversationId: string): Promise<{ deleted: boolean }> {
+  return request<{ deleted: boolean }>(`/rag/conversations/${conversationId}`, {
+    method: "DELETE",
+  });
+}
+
+export async function submitChatFeedback(
+  conversationId: string,
+  messageId: string,
+  body: Partial<ChatMessageFeedback>
+): Promise<ChatMessageFeedback & { id: string; updated_at: string }> {
+  return request(`/rag/conversations/${conversationId}/messages/${messageId}/feedback`, {
+    method: "PUT",
+    body: JSON.stringify(body),
+  });
+}
+
 export async function getAccountJourney(accountId: string): Promise<{
   account: JourneyAccount;
   timeline: JourneyTimelineNode[];
@@ -7,8 +7,11 @@ import type {
   AuditLogsPage,
   AuditResourceDrilldown,
   AutomationRule,
+  AutomationRuleRun,
   AutomationScheduledReport,
   BillingReadiness,
+  CalibrationHistory,
+  CalibrationReportEntry,
   BillingReconciliation,
   CrmReport,
   CustomerSuccessHealth,
@@ -20,6 +23,8 @@ import type {
   IncidentRow,
   IpAllowlistEntry,
   OpsDiagnostics,
+  OutboundWebhookDelivery,
+  OutboundWebhookEventCatalogEntry,
   OutboundWebhookEventType,
   OutboundWebhookSubscription,
   PermissionUser,
@@ -482,11 +487,7 @@ export async function rollbackWriteback(requestId: string): Promise<{ status: st
 
 // ─── Automations ────────────────────────────────────────────────────────────
 
-export async function getAutomationRules(): Promise<{ rules: AutomationRule[] }> {
-  return request<{ rules: AutomationRule[] }>("/dashboard/automations");
-}
-
-export async function createAutomationRule(body: {
+export interface AutomationRuleInput {
   name: string;
   description?: string;
   enabled: boolean;
@@ -499,13 +500,43 @@ export async function createAutomationRule(body: {
   delivery_type: "SLACK" | "EMAIL" | "WEBHOOK";
   delivery_target: string;
   payload_template?: Record<string, unknown>;
-}): Promise<{ id: string }> {
+}
+
+export async function getAutomationRules(): Promise<{
+  rules: AutomationRule[];
+  supported_metrics: string[];
+  supported_operators: string[];
+  supported_events: string[];
+}> {
+  return request<{
+    rules: AutomationRule[];
+    supported_metrics: string[];
+    supported_operators: string[];
+    supported_events: string[];
+  }>("/dashboard/automations");
+}
+
+export async function createAutomationRule(body: AutomationRuleInput): Promise<{ id: string }> {
   return request<{ id: string }>("/dashboard/automations", {
     method: "POST",
     body: JSON.stringify(body),
   });
 }
 
+export async function updateAutomationRule(
+  ruleId: string,
+  body: Partial<AutomationRuleInput>
+): Promise<{ rule: AutomationRule }> {
+  return request<{ rule: AutomationRule }>(`/dashboard/automations/${ruleId}`, {
+    method: "PATCH",
+    body: JSON.stringify(body),
+  });
+}
+
+export async function getAutomationRuleRuns(ruleId: string): Promise<{ runs: AutomationRuleRun[] }> {
+  return request<{ runs: AutomationRuleRun[] }>(`/dashboard/automations/${ruleId}/runs`);
+}
+
 export async function runAutomationRule(
   ruleId: string
 ): Promise<{ status: string; error?: string | null; report_asset_id?: string | null }> {
@@ -701,6 +732,14 @@ export async function getOutboundWebhookSubscriptions(): Promise<{
   }>("/dashboard/security/outbound-webhooks");
 }
 
+export async function getOutboundWebhookEventCatalog(): Promise<{
+  events: OutboundWebhookEventCatalogEntry[];
+}> {
+  return request<{ events: OutboundWebhookEventCatalogEntry[] }>(
+    "/dashboard/security/outbound-webhooks/events"
+  );
+}
+
 export async function createOutboundWebhookSubscription(body: {
   url: string;
   event_types: OutboundWebhookEventType[];
@@ -735,6 +774,43 @@ export async function testOutboundWebhookSubscription(
   );
 }
 
+export async function updateOutboundWebhookSubscription(
+  subscriptionId: string,
+  body: { url?: string; event_types?: OutboundWebhookEventType[]; enabled?: boolean }
+): Promise<{ subscription: OutboundWebhookSubscription }> {
+  return request<{ subscription: OutboundWebhookSubscription }>(
+    `/dashboard/security/outbound-webhooks/${subscriptionId}`,
+    {
+      method: "PATCH",
+      body: JSON.stringify(body),
+    }
+  );
+}
+
+export async function getOutboundWebhookDeliveries(
+  subscriptionId: string,
+  params?: { status?: "SUCCEEDED" | "FAILED"; limit?: number }
+): Promise<{ deliveries: OutboundWebhookDelivery[] }> {
+  const qs = new URLSearchParams();
+  if (params?.status) qs.set("status", params.status);
+  if (params?.limit) qs.set("limit", String(params.limit));
+  const suffix = qs.toString() ? `?${qs.toString()}` : "";
+  return request<{ deliveries: OutboundWebhookDelivery[] }>(
+    `/dashboard/security/outbound-webhooks/${subscriptionId}/deliveries${suffix}`
+  );
+}
+
+export async function redeliverOutboundWebhookDelivery(
+  deliveryId: string
+): Promise<{ queued: boolean; status: string | null; error: string | null }> {
+  return request<{ queued: boolean; status: string | null; error: string | null }>(
+    `/dashboard/security/outbound-webhooks/deliveries/${deliveryId}/redeliver`,
+    {
+      method: "POST",
+    }
+  );
+}
+
 // ─── Role Profiles ──────────────────────────────────────────────────────────
 
 export async function getRoleProfiles(): Promise<{
@@ -860,3 +936,14 @@ export async function replaceTeamApprovalAdminScopes(
     body: JSON.stringify({ team_keys: teamKeys }),
   });
 }
+
+export async function getCalibrationHistory(limit?: number): Promise<CalibrationHistory> {
+  const qs = limit ? `?limit=${limit}` : "";
+  return request<CalibrationHistory>(`/dashboard/calibration/reports${qs}`);
+}
+
+export async function refitCalibration(): Promise<{ report: CalibrationReportEntry }> {
+  return request<{ report: CalibrationReportEntry }>("/dashboard/calibration/refit", {
+    method: "POST",
+  });
+}
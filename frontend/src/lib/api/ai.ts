@@ -1,4 +1,4 @@
-import type { StoryContextSettings } from "./types";
+import type { EmbedSettings, StoryContextSettings, UpdateEmbedSettingsRequest } from "./types";
 import { request } from "./http";
 
 export async function getStoryContextSettings(): Promise<StoryContextSettings> {
@@ -14,6 +14,19 @@ export async function updateStoryContextSettings(
   });
 }
 
+export async function getEmbedSettings(): Promise<EmbedSettings> {
+  return request<EmbedSettings>("/dashboard/embed-settings");
+}
+
+export async function updateEmbedSettings(
+  body: UpdateEmbedSettingsRequest
+): Promise<EmbedSettings> {
+  return request<EmbedSettings>("/dashboard/embed-settings", {
+    method: "PATCH",
+    body: JSON.stringify(body),
+  });
+}
+
 export interface AIProviderCatalog {
   org_providers: Array<{
     provider: string;
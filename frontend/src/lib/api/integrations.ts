@@ -44,7 +44,7 @@ export async function getIntegrationBackfills(params?: {
 }
 
 export async function triggerIntegrationBackfill(body: {
-  provider: "GRAIN" | "GONG" | "SALESFORCE" | "MERGE_DEV";
+  provider: "GRAIN" | "GONG" | "ZOOM" | "TEAMS" | "FIREFLIES" | "SALESFORCE" | "HUBSPOT" | "MERGE_DEV";
   start_date?: string;
   end_date?: string;
   cursor?: string;
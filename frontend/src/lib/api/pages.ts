@@ -3,10 +3,14 @@ import type {
   ArtifactVersion,
   CreateLandingPageRequest,
   CreateLandingPageResponse,
+  CreatePageShareLinkRequest,
   DashboardCreator,
   DashboardPageSummary,
   DashboardStats,
   EditorPageData,
+  LandingPageLintResult,
+  PageAnalyticsReport,
+  PageShareLink,
   PublishPiiScanResult,
   PublishApprovalRequestRow,
   MyApprovalRequestRow,
@@ -16,6 +20,7 @@ import type {
   MyQueueBuckets,
   MyQueueCounts,
   TranscriptData,
+  UpdatePageShareLinkRequest,
 } from "./types";
 import { BASE_URL, buildRequestHeaders, fetchApi, request } from "./http";
 
@@ -104,6 +109,41 @@ export async function getPublishPiiScan(pageId: string): Promise<PublishPiiScanR
   });
 }
 
+export async function lintPageDraft(
+  pageId: string,
+  draft: { editable_body?: string } = {},
+): Promise<LandingPageLintResult> {
+  return request<LandingPageLintResult>(`/pages/${pageId}/lint`, {
+    method: "POST",
+    body: JSON.stringify(draft),
+  });
+}
+
+export async function getPageShareLinks(pageId: string): Promise<{ share_links: PageShareLink[] }> {
+  return request<{ share_links: PageShareLink[] }>(`/pages/${pageId}/share-links`);
+}
+
+export async function createPageShareLink(
+  pageId: string,
+  body: CreatePageShareLinkRequest,
+): Promise<{ share_link: PageShareLink }> {
+  return request<{ share_link: PageShareLink }>(`/pages/${pageId}/share-links`, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+export async function updatePageShareLink(
+  pageId: string,
+  linkId: string,
+  body: UpdatePageShareLinkRequest,
+): Promise<{ share_link: PageShareLink }> {
+  return request<{ share_link: PageShareLink }>(`/pages/${pageId}/share-links/${linkId}`, {
+    method: "PATCH",
+    body: JSON.stringify(body),
+  });
+}
+
 export async function publishPage(pageId: string, options: {
   visibility: string;
   password?: string;
@@ -244,6 +284,14 @@ export async function getDashboardPagesData(params?: {
   }>(`/dashboard/pages/data${query ? `?${query}` : ""}`);
 }
 
+export async function getPageAnalytics(
+  pageId: string,
+  params?: { days?: number }
+): Promise<PageAnalyticsReport> {
+  const qs = params?.days ? `?days=${params.days}` : "";
+  return request<PageAnalyticsReport>(`/dashboard/pages/${pageId}/analytics${qs}`);
+}
+
 export async function getContentQueue(params?: {
   asset_type?: "story" | "landing_page" | "all";
   stage?: "DRAFT" | "IN_REVIEW" | "APPROVED" | "PUBLISHED";
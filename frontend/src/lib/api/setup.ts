@@ -157,6 +157,36 @@ export async function completeSetupRecordingProvider(body: {
   });
 }
 
+export type SetupDirectRecordingProviderBody =
+  | {
+      provider: "ZOOM";
+      credentials: { accountId: string; clientId: string; clientSecret: string };
+      webhook_secret?: string;
+    }
+  | {
+      provider: "TEAMS";
+      credentials: { tenantId: string; clientId: string; clientSecret: string };
+      webhook_secret?: string;
+      organizer_user_ids?: string[];
+    }
+  | {
+      provider: "FIREFLIES";
+      credentials: { apiKey: string };
+      webhook_secret?: string;
+    };
+
+export async function completeSetupDirectRecordingProvider(
+  body: SetupDirectRecordingProviderBody
+): Promise<{ completed: boolean; provider: string; webhook_path: string; status: SetupStatus }> {
+  return request<{ completed: boolean; provider: string; webhook_path: string; status: SetupStatus }>(
+    "/setup/step/recording-provider/direct",
+    {
+      method: "POST",
+      body: JSON.stringify(body),
+    }
+  );
+}
+
 export async function completeSetupCrmConnection(body: {
   crm_provider: "SALESFORCE" | "HUBSPOT";
   merge_linked_account_id: string;
@@ -1,10 +1,25 @@
 import type {
+  ApplyStoryRevisionRequest,
+  ApplyStoryRevisionResponse,
+  BuildComparativeStoryRequest,
+  BuildComparativeStoryResponse,
   BuildStoryRequest,
   BuildStoryResponse,
+  LandingPageMergePreview,
+  MergeConflictResolution,
+  PreviewStoryTemplateRequest,
+  PreviewStoryTemplateResponse,
+  SaveStoryTemplateRequest,
   StoryComment,
   StoryLibraryItem,
   StoryLibraryTaxonomyCounts,
+  StoryRevisionReview,
+  StoryRevisionSummary,
   StorySummary,
+  StoryTemplate,
+  StoryTemplateVersionSummary,
+  SubmitTagReviewRequest,
+  TagReviewQueueItem,
 } from "./types";
 import { BASE_URL, buildRequestHeaders, request } from "./http";
 
@@ -21,6 +36,15 @@ export async function buildStory(
   });
 }
 
+export async function buildComparativeStory(
+  req: BuildComparativeStoryRequest
+): Promise<BuildComparativeStoryResponse> {
+  return request<BuildComparativeStoryResponse>("/stories/build/comparative", {
+    method: "POST",
+    body: JSON.stringify(req),
+  });
+}
+
 export async function buildStoryStream(
   req: BuildStoryRequest,
   handlers: {
@@ -176,6 +200,26 @@ export async function getStoryLibraryTaxonomy(): Promise<StoryLibraryTaxonomyCou
   return request<StoryLibraryTaxonomyCounts>("/stories/library/taxonomy");
 }
 
+export async function getTagReviewQueue(limit?: number): Promise<{ items: TagReviewQueueItem[] }> {
+  const qs = limit ? `?limit=${limit}` : "";
+  return request<{ items: TagReviewQueueItem[] }>(`/tag-reviews/queue${qs}`);
+}
+
+export async function submitTagReview(body: SubmitTagReviewRequest): Promise<{
+  review: { id: string; chunk_tag_id: string; decision: SubmitTagReviewRequest["decision"] };
+}> {
+  return request("/tag-reviews", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+export async function dismissTagReviewItem(itemId: string): Promise<{ dismissed: boolean }> {
+  return request<{ dismissed: boolean }>(`/tag-reviews/queue/${itemId}/dismiss`, {
+    method: "POST",
+  });
+}
+
 export async function deleteStory(storyId: string): Promise<{ deleted: boolean }> {
   return request<{ deleted: boolean }>(`/stories/${storyId}`, {
     method: "DELETE",
@@ -228,3 +272,109 @@ export async function createStoryComment(
     body: JSON.stringify(body),
   });
 }
+
+export async function getStoryRevisions(
+  storyId: string
+): Promise<{ revisions: StoryRevisionSummary[] }> {
+  return request<{ revisions: StoryRevisionSummary[] }>(
+    `/stories/${encodeURIComponent(storyId)}/revisions`
+  );
+}
+
+export async function getStoryRevisionReview(
+  storyId: string,
+  revisionId: string
+): Promise<StoryRevisionReview> {
+  return request<StoryRevisionReview>(
+    `/stories/${encodeURIComponent(storyId)}/revisions/${encodeURIComponent(revisionId)}`
+  );
+}
+
+export async function applyStoryRevision(
+  storyId: string,
+  revisionId: string,
+  body: ApplyStoryRevisionRequest
+): Promise<ApplyStoryRevisionResponse> {
+  return request<ApplyStoryRevisionResponse>(
+    `/stories/${encodeURIComponent(storyId)}/revisions/${encodeURIComponent(revisionId)}/apply`,
+    { method: "POST", body: JSON.stringify(body) }
+  );
+}
+
+export async function rejectStoryRevision(
+  storyId: string,
+  revisionId: string
+): Promise<{ status: string }> {
+  return request<{ status: string }>(
+    `/stories/${encodeURIComponent(storyId)}/revisions/${encodeURIComponent(revisionId)}/reject`,
+    { method: "POST" }
+  );
+}
+
+export async function getStoryPageMerges(
+  storyId: string
+): Promise<{ pages: LandingPageMergePreview[] }> {
+  return request<{ pages: LandingPageMergePreview[] }>(
+    `/stories/${encodeURIComponent(storyId)}/page-merges`
+  );
+}
+
+export async function applyStoryPageMerge(
+  storyId: string,
+  pageId: string,
+  body: { expected_updated_at: string; resolutions: MergeConflictResolution[] }
+): Promise<{ updated_at: string; conflicts_resolved: number }> {
+  return request<{ updated_at: string; conflicts_resolved: number }>(
+    `/stories/${encodeURIComponent(storyId)}/page-merges/${encodeURIComponent(pageId)}`,
+    { method: "POST", body: JSON.stringify(body) }
+  );
+}
+
+export async function getStoryTemplates(params?: {
+  include_archived?: boolean;
+}): Promise<{ templates: StoryTemplate[]; max_templates: number }> {
+  const qs = params?.include_archived ? "?include_archived=true" : "";
+  return request<{ templates: StoryTemplate[]; max_templates: number }>(`/stories/templates${qs}`);
+}
+
+export async function getStoryTemplate(
+  templateId: string
+): Promise<{ template: StoryTemplate; versions: StoryTemplateVersionSummary[] }> {
+  return request<{ template: StoryTemplate; versions: StoryTemplateVersionSummary[] }>(
+    `/stories/templates/${encodeURIComponent(templateId)}`
+  );
+}
+
+export async function createStoryTemplate(
+  body: SaveStoryTemplateRequest
+): Promise<{ template: StoryTemplate }> {
+  return request<{ template: StoryTemplate }>("/stories/templates", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+export async function updateStoryTemplate(
+  templateId: string,
+  body: Partial<SaveStoryTemplateRequest>
+): Promise<{ template: StoryTemplate }> {
+  return request<{ template: StoryTemplate }>(
+    `/stories/templates/${encodeURIComponent(templateId)}`,
+    { method: "PATCH", body: JSON.stringify(body) }
+  );
+}
+
+export async function archiveStoryTemplate(templateId: string): Promise<{ archived: boolean }> {
+  return request<{ archived: boolean }>(`/stories/templates/${encodeURIComponent(templateId)}`, {
+    method: "DELETE",
+  });
+}
+
+export async function previewStoryTemplate(
+  body: PreviewStoryTemplateRequest
+): Promise<PreviewStoryTemplateResponse> {
+  return request<PreviewStoryTemplateResponse>("/stories/templates/preview", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
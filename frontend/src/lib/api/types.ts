@@ -18,3 +18,6 @@ export * from "./types/chatbot-connector";
 export * from "./types/analytics-dashboard";
 export * from "./types/account-journey";
 export * from "./types/platform-owner";
+export * from "./types/tag-review";
+export * from "./types/story-revisions";
+export * from "./types/story-templates";
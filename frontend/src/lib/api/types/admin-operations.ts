@@ -10,6 +10,7 @@ export interface StoryContextSettings {
   banned_claims: string[];
   writing_style_guide: string;
   approved_terminology: string[];
+  competitors?: string[];
   published_branding?: {
     brand_name: string;
     logo_url: string;
@@ -23,6 +24,20 @@ export interface StoryContextSettings {
   default_story_type: StoryTypeInput;
 }
 
+export interface EmbedSettings {
+  allowed_origins: string[];
+  embed_key: string | null;
+  widget_url: string;
+  oembed_url: string;
+  page_embed_url_template: string;
+  quote_embed_url: string | null;
+}
+
+export interface UpdateEmbedSettingsRequest {
+  allowed_origins?: string[];
+  rotate_key?: boolean;
+}
+
 export interface AuditLogEntry {
   id: string;
   created_at: string;
@@ -167,6 +167,18 @@ export interface AutomationRule {
   updated_at: string;
 }
 
+export interface AutomationRuleRun {
+  id: string;
+  trigger: "THRESHOLD" | "SCHEDULE" | "EVENT" | "MANUAL";
+  status: "SUCCESS" | "FAILED";
+  metric_value: number | null;
+  event_type: string | null;
+  rendered_payload: Record<string, unknown> | null;
+  error: string | null;
+  duration_ms: number | null;
+  created_at: string;
+}
+
 export interface AutomationScheduledReport {
   id: string;
   title: string;
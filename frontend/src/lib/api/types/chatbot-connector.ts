@@ -12,4 +12,48 @@ export interface ChatSource {
   speaker: string;
   text: string;
   relevance_score: number;
+  scores?: ChatSourceScores | null;
+}
+
+export interface ChatSourceScores {
+  vector: number | null;
+  keyword: number | null;
+  fused: number;
+  rerank: number | null;
+}
+
+export type ChatFeedbackRating = "UP" | "DOWN";
+
+export interface ChatMessageFeedback {
+  rating: ChatFeedbackRating | null;
+  wrong_citations: number[];
+  notes: string | null;
+}
+
+export interface ChatConversationSummary {
+  id: string;
+  title: string | null;
+  account: { id: string; name: string } | null;
+  message_count: number;
+  last_message_at: string;
+  created_at: string;
+}
+
+export interface ChatConversationMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  sources: ChatSource[];
+  tokens_used: number | null;
+  created_at: string;
+  feedback: ChatMessageFeedback | null;
+}
+
+export interface ChatConversationDetail {
+  id: string;
+  title: string | null;
+  account: { id: string; name: string } | null;
+  last_message_at: string;
+  created_at: string;
+  messages: ChatConversationMessage[];
 }
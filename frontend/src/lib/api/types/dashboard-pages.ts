@@ -1,8 +1,21 @@
+/** Rolled-up landing page engagement; unique visitors are summed per day. */
+export interface PageEngagementSummary {
+  views: number;
+  uniqueVisitors: number;
+  engagedViews: number;
+  ctaClicks: number;
+  avgTimeOnPageSeconds: number;
+  avgScrollDepth: number;
+}
+
 export interface DashboardStats {
   totalPages: number;
   publishedPages: number;
   draftPages: number;
   totalViews: number;
+  analyticsEnabled?: boolean;
+  engagementWindowDays?: number;
+  engagement?: PageEngagementSummary;
 }
 
 export interface DashboardPageSummary {
@@ -13,6 +26,7 @@ export interface DashboardPageSummary {
   lifecycleStage: "DRAFT" | "IN_REVIEW" | "APPROVED" | "PUBLISHED";
   visibility: string;
   viewCount: number;
+  engagement?: PageEngagementSummary | null;
   accountName: string;
   createdByName: string;
   createdByEmail: string;
@@ -59,3 +73,23 @@ export interface MyQueueCounts {
   approved: number;
   published_recent: number;
 }
+
+export interface PageAnalyticsDay extends Omit<PageEngagementSummary, "avgTimeOnPageSeconds"> {
+  day: string;
+  totalTimeOnPageSeconds: number;
+  referrers: Record<string, number>;
+  utmCampaigns: Record<string, number>;
+  ctaBreakdown: Record<string, number>;
+}
+
+export interface PageAnalyticsReport {
+  pageId: string;
+  title: string;
+  totalViews: number;
+  windowDays: number;
+  summary: PageEngagementSummary;
+  days: PageAnalyticsDay[];
+  referrers: Record<string, number>;
+  utmCampaigns: Record<string, number>;
+  ctaBreakdown: Record<string, number>;
+}
@@ -1,3 +1,5 @@
+import type { StoryLintCounts, StoryLintFinding } from "./story-core";
+
 export interface EditorPageData {
   pageId: string;
   title: string;
@@ -31,6 +33,16 @@ export interface PublishPiiScanResult {
   by_type: Record<string, number>;
 }
 
+export type StoryLintPublishMode = "WARN" | "BLOCK_ERRORS" | "BLOCK_WARNINGS";
+
+export interface LandingPageLintResult {
+  mode: StoryLintPublishMode;
+  /** True when publish would be refused under the org's governance mode */
+  blocking: boolean;
+  counts: StoryLintCounts;
+  findings: StoryLintFinding[];
+}
+
 export interface ArtifactVersion {
   id: string;
   version_number: number;
@@ -48,6 +60,49 @@ export interface ArtifactVersion {
   provenance: Record<string, unknown> | null;
 }
 
+export type PageShareLinkStatus = "ACTIVE" | "EXPIRED" | "REVOKED";
+
+export interface PageShareLink {
+  id: string;
+  token: string;
+  /** Relative URL, e.g. /s/{slug}/r/{token} */
+  path: string;
+  recipient_email: string;
+  recipient_name: string | null;
+  contact: {
+    id: string;
+    name: string | null;
+    email: string;
+    salesforce_id: string | null;
+    hubspot_id: string | null;
+  } | null;
+  has_password: boolean;
+  status: PageShareLinkStatus;
+  expires_at: string | null;
+  revoked_at: string | null;
+  open_count: number;
+  first_opened_at: string | null;
+  last_opened_at: string | null;
+  total_time_on_page_seconds: number;
+  max_scroll_depth: number;
+  created_by_user_id: string;
+  created_at: string;
+}
+
+export interface CreatePageShareLinkRequest {
+  recipient_email: string;
+  recipient_name?: string;
+  contact_id?: string;
+  expires_at?: string;
+  password?: string;
+}
+
+export interface UpdatePageShareLinkRequest {
+  expires_at?: string | null;
+  password?: string | null;
+  revoked?: boolean;
+}
+
 export interface PublishApprovalRequestRow {
   id: string;
   status: string;
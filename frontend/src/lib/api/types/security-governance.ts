@@ -18,6 +18,10 @@ export interface DataGovernanceSettings {
   allow_named_story_exports: boolean;
   rto_target_minutes: number;
   rpo_target_minutes: number;
+  story_lint_publish_mode?: "WARN" | "BLOCK_ERRORS" | "BLOCK_WARNINGS";
+  page_analytics_enabled?: boolean;
+  page_analytics_cookies_enabled?: boolean;
+  page_analytics_retention_days?: number;
 }
 
 export type ApprovalPolicyMode =
@@ -101,18 +105,56 @@ export interface ScimProvisioningSettings {
 
 export type OutboundWebhookEventType =
   | "landing_page_published"
+  | "landing_page_archived"
+  | "landing_page_rolled_back"
   | "story_generated"
   | "story_generation_failed"
   | "scheduled_report_generated"
+  | "automation_rule_triggered"
+  | "call_ingested"
+  | "call_processed"
+  | "call_processing_failed"
+  | "account_merged"
+  | "entity_resolution_completed"
+  | "approval_requested"
+  | "approval_approved"
+  | "approval_rejected"
+  | "quote_curated"
+  | "integration_sync_failed"
   | "webhook.test"
   | "ALL_EVENTS";
 
+export interface OutboundWebhookEventCatalogEntry {
+  event_type: Exclude<OutboundWebhookEventType, "ALL_EVENTS">;
+  version: number;
+  description: string;
+}
+
 export interface OutboundWebhookSubscription {
   id: string;
   url: string;
   secret: string;
   event_types: OutboundWebhookEventType[];
   enabled: boolean;
+  consecutive_failures: number;
+  disabled_reason: string | null;
   created_at: string;
   updated_at: string;
 }
+
+export interface OutboundWebhookDelivery {
+  id: string;
+  subscription_id: string;
+  event_id: string;
+  event_type: OutboundWebhookEventType;
+  url: string;
+  request_body: Record<string, unknown>;
+  trigger: "EVENT" | "REDELIVERY" | "TEST";
+  attempt: number;
+  status: "SUCCEEDED" | "FAILED";
+  response_status: number | null;
+  latency_ms: number | null;
+  error: string | null;
+  will_retry: boolean;
+  created_at: string;
+}
@@ -1,32 +1,61 @@
 import type {
+  CustomTopicKey,
   FunnelStage,
-  TaxonomyTopic,
+  TopicKey,
   StoryFormat,
   StoryLength,
   StoryOutline,
+  StoryLanguage,
   StoryTypeInput,
 } from "../../../types/taxonomy";
+import type { StoryTemplateCoverage } from "./story-templates";
 
 export interface BuildStoryRequest {
   account_id: string;
   funnel_stages?: FunnelStage[];
-  filter_topics?: TaxonomyTopic[];
+  filter_topics?: TopicKey[];
   title?: string;
   format?: StoryFormat;
   story_length?: StoryLength;
   story_outline?: StoryOutline;
+  /** Org story template; replaces story_outline, and sets the length unless story_length is given. */
+  template_id?: string;
+  template_version?: number;
   story_type?: StoryTypeInput;
+  target_language?: StoryLanguage;
   ai_provider?: "openai" | "anthropic" | "google";
   ai_model?: string;
 }
 
+/**
+ * A story comparing several accounts, named explicitly or selected from a
+ * segment. Segment selection uses `filter_topics` as the topic filter.
+ */
+export interface BuildComparativeStoryRequest extends Omit<BuildStoryRequest, "account_id"> {
+  account_ids?: string[];
+  segment?: {
+    industries?: string[];
+    min_employees?: number;
+    max_employees?: number;
+    max_accounts?: number;
+  };
+  /** Refer to accounts as "Customer A", "Customer B", ... Defaults to true. */
+  anonymize?: boolean;
+}
+
 export interface StoryQuote {
   speaker: string | null;
   quote_text: string;
+  /** ISO 639-1 language the quote was spoken in */
+  language?: string | null;
+  /** Translation into the story language when the quote was spoken in another */
+  translation?: string | null;
   context: string | null;
   metric_type: string | null;
   metric_value: string | null;
   confidence_score?: number;
+  /** Whether the quote's wording was found in its source transcript chunk */
+  verification_status?: ClaimVerificationStatus;
   call_id?: string;
   source_chunk_id?: string;
   source_timestamp_ms?: number;
@@ -35,11 +64,64 @@ export interface StoryQuote {
   transcript_deep_link?: string;
 }
 
+export type ClaimVerificationStatus = "SUPPORTED" | "WEAK" | "UNSUPPORTED";
+
+export interface VerifiedStoryClaim {
+  claim_type: "METRIC" | "FACT";
+  /** The sentence as it reads in the story, without inline markdown */
+  text: string;
+  status: ClaimVerificationStatus;
+  number_match: "ALL" | "SOME" | "NONE" | "NO_NUMBERS";
+  entailment: "ENTAILED" | "PARTIAL" | "NOT_ENTAILED" | null;
+  reason: string | null;
+  source_call_id: string | null;
+  source_chunk_id: string | null;
+  transcript_deep_link: string | null;
+}
+
+export interface StoryClaimVerification {
+  claims_checked: number;
+  supported: number;
+  weak: number;
+  unsupported: number;
+  support_rate: number;
+  method: "model" | "numbers_only";
+  verified_at: string;
+  claims: VerifiedStoryClaim[];
+}
+
+export type StoryLintSeverity = "error" | "warning" | "info";
+
+export interface StoryLintFinding {
+  rule: "banned_claim" | "unapproved_term" | "competitor_mention" | "unscrubbed_company_name";
+  severity: StoryLintSeverity;
+  field: string;
+  message: string;
+  /** The text as it appears in the field */
+  match: string;
+  offset: number | null;
+  suggestion: string;
+  /** Drop-in replacement for the match, when there is one */
+  replacement: string | null;
+}
+
+export type StoryLintCounts = Record<StoryLintSeverity, number>;
+
 export interface BuildStoryResponse {
   story_id: string | null;
   title: string;
   markdown: string;
   quotes: StoryQuote[];
+  language?: StoryLanguage;
+  claim_verification?: StoryClaimVerification | null;
+  lint?: { counts: StoryLintCounts; findings: StoryLintFinding[] };
+  template?: { id: string; name: string; version: number } | null;
+  template_coverage?: StoryTemplateCoverage | null;
+}
+
+export interface BuildComparativeStoryResponse extends BuildStoryResponse {
+  account_ids: string[];
+  anonymized: boolean;
 }
 
 export interface StoryLandingPageSummary {
@@ -92,11 +174,21 @@ export interface StoryLibraryItem extends StorySummary {
     name: string;
     domain: string | null;
   };
+  /** Regenerated versions waiting for review. */
+  pending_revisions?: number;
+}
+
+export interface CustomTopicSummary {
+  key: CustomTopicKey;
+  label: string;
+  description: string;
+  funnel_stage: FunnelStage;
 }
 
 export interface StoryLibraryTaxonomyCounts {
   funnel_stage_counts: Record<string, number>;
   topic_counts: Record<string, number>;
+  custom_topics?: CustomTopicSummary[];
 }
 
 export interface StoryComment {
@@ -0,0 +1,79 @@
+export type StoryRevisionSource = "GENERATED" | "REGENERATED" | "MERGED";
+export type StoryRevisionStatus = "PENDING" | "APPLIED" | "REJECTED" | "SUPERSEDED";
+export type StoryRevisionDecision = "accept" | "reject";
+export type MergeConflictResolution = "ours" | "theirs";
+
+export interface StoryRevisionSummary {
+  id: string;
+  revision_number: number;
+  source: StoryRevisionSource;
+  status: StoryRevisionStatus;
+  source_story_id: string | null;
+  parent_revision_id: string | null;
+  created_by_user_id: string | null;
+  reviewed_by_user_id: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+export interface StorySectionDiff {
+  key: string;
+  heading: string | null;
+  change: "unchanged" | "modified" | "added" | "removed";
+  current: string | null;
+  proposed: string | null;
+  lines: Array<{ type: "context" | "added" | "removed"; text: string }>;
+}
+
+export interface StoryRevisionQuote {
+  key: string;
+  quoteText: string;
+  speaker: string | null;
+  context: string | null;
+  metricType: string | null;
+  metricValue: string | null;
+  callId: string | null;
+  language: string | null;
+  translation: string | null;
+}
+
+export interface StoryRevisionReview {
+  revision: Pick<StoryRevisionSummary, "id" | "revision_number" | "source" | "status" | "created_at">;
+  sections: StorySectionDiff[];
+  quotes: {
+    added: StoryRevisionQuote[];
+    removed: Array<{ key: string; quoteText: string }>;
+    unchanged: number;
+  };
+}
+
+export interface ApplyStoryRevisionRequest {
+  sections: Record<string, StoryRevisionDecision>;
+  quotes: Record<string, StoryRevisionDecision>;
+}
+
+export interface ApplyStoryRevisionResponse {
+  status: StoryRevisionStatus;
+  merged_revision_id: string | null;
+  merged_revision_number: number | null;
+  quotes_added: number;
+}
+
+export interface StoryMergeConflict {
+  index: number;
+  base: string;
+  ours: string;
+  theirs: string;
+}
+
+export interface LandingPageMergePreview {
+  page_id: string;
+  title: string;
+  status: string;
+  updated_at: string;
+  base_revision_number: number | null;
+  target_revision_number: number;
+  draft_edited: boolean;
+  merged_body: string;
+  conflicts: StoryMergeConflict[];
+}
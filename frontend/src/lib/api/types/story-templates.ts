@@ -0,0 +1,87 @@
+import type { StoryLanguage, StoryLength, StoryTypeInput } from "../../../types/taxonomy";
+import type {
+  StoryClaimVerification,
+  StoryLintCounts,
+  StoryLintFinding,
+  StoryQuote,
+} from "./story-core";
+
+export type QuoteMetricType =
+  | "cost_savings"
+  | "revenue"
+  | "time_saved"
+  | "efficiency"
+  | "error_reduction"
+  | "adoption"
+  | "scale"
+  | "roi";
+
+export interface StoryTemplateSection {
+  heading: string;
+  instructions: string;
+  min_quotes: number;
+  required_metrics: QuoteMetricType[];
+}
+
+export interface StoryTemplateDefinition {
+  sections: StoryTemplateSection[];
+  story_length: StoryLength;
+  audience: string | null;
+  prompt_block: string | null;
+}
+
+export interface StoryTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  /** Current version; each definition change adds one. */
+  version: number;
+  definition: StoryTemplateDefinition;
+  archived_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StoryTemplateVersionSummary {
+  id: string;
+  version: number;
+  created_by_user_id: string | null;
+  created_at: string;
+}
+
+export interface SaveStoryTemplateRequest {
+  name: string;
+  description?: string | null;
+  definition: StoryTemplateDefinition;
+}
+
+export interface StoryTemplateCoverage {
+  complete: boolean;
+  sections: Array<{
+    heading: string;
+    found: boolean;
+    quotes: number;
+    min_quotes: number;
+    missing_metrics: QuoteMetricType[];
+  }>;
+}
+
+/** Preview a saved template, or an unsaved definition from the editor. */
+export interface PreviewStoryTemplateRequest {
+  account_id: string;
+  template_id?: string;
+  template_version?: number;
+  definition?: StoryTemplateDefinition;
+  story_type?: StoryTypeInput;
+  target_language?: StoryLanguage;
+}
+
+export interface PreviewStoryTemplateResponse {
+  title: string;
+  markdown: string;
+  language: StoryLanguage;
+  quotes: StoryQuote[];
+  claim_verification: StoryClaimVerification | null;
+  lint: { counts: StoryLintCounts; findings: StoryLintFinding[] };
+  template_coverage: StoryTemplateCoverage | null;
+}
@@ -0,0 +1,62 @@
+import type { FunnelStage, TopicKey } from "../../../types/taxonomy";
+
+export type TagReviewDecision = "CONFIRM" | "REJECT";
+
+export interface TagReviewQueueTag {
+  id: string;
+  funnel_stage: FunnelStage;
+  topic: TopicKey;
+  confidence: number;
+  /** The current user's earlier decision on this tag, if any */
+  my_decision: TagReviewDecision | null;
+}
+
+export interface TagReviewQueueItem {
+  id: string;
+  reason: "LOW_CONFIDENCE" | "DISAGREEMENT";
+  priority: number;
+  created_at: string;
+  chunk: {
+    id: string;
+    text: string;
+    speaker: string | null;
+    start_ms: number | null;
+  };
+  call: {
+    id: string;
+    title: string | null;
+    occurred_at: string;
+    account_id: string | null;
+  };
+  tags: TagReviewQueueTag[];
+}
+
+export interface SubmitTagReviewRequest {
+  chunk_tag_id: string;
+  decision: TagReviewDecision;
+  corrected_funnel_stage?: FunnelStage;
+  corrected_topic?: TopicKey;
+}
+
+export interface CalibrationReportEntry {
+  id: string;
+  sample_count: number;
+  brier_score: number;
+  calibrated_brier_score: number;
+  buckets: Array<{
+    rangeStart: number;
+    rangeEnd: number;
+    count: number;
+    meanRawConfidence: number;
+    empiricalAccuracy: number;
+  }>;
+  calibration_curve: Array<{ raw_confidence: number; empirical_accuracy: number }>;
+  created_at: string;
+}
+
+export interface CalibrationHistory {
+  reports: CalibrationReportEntry[];
+  review_count: number;
+  pending_labels: number;
+  min_refit_samples: number;
+}
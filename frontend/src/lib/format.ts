@@ -61,6 +61,15 @@ export function formatNumber(n: number): string {
   return n.toString();
 }
 
+/**
+ * Format a duration in seconds as "45s" or "2m 05s".
+ */
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, "0")}s`;
+}
+
 /**
  * Format a date string to a short readable format.
  */
@@ -0,0 +1,367 @@
+import { useEffect, useState } from "react";
+import {
+  createAutomationRule,
+  deleteAutomationRule,
+  getAutomationRuleRuns,
+  getAutomationRules,
+  runAutomationRule,
+  updateAutomationRule,
+  type AutomationRule,
+  type AutomationRuleInput,
+  type AutomationRuleRun,
+} from "../lib/api";
+import { badgeClass, formatEnumLabel } from "../lib/format";
+import { AdminErrorState } from "../components/admin/AdminErrorState";
+import { AdminSection } from "../components/admin/AdminLayoutPrimitives";
+import { ConfirmDialog } from "../components/ConfirmDialog";
+import { TableSkeleton } from "../components/PageSkeleton";
+
+type TriggerType = AutomationRuleInput["trigger_type"];
+type DeliveryType = AutomationRuleInput["delivery_type"];
+type Operator = NonNullable<AutomationRuleInput["operator"]>;
+
+const DELIVERY_TARGET_PLACEHOLDERS: Record<DeliveryType, string> = {
+  SLACK: "https://hooks.slack.com/services/...",
+  EMAIL: "ops@example.com, cs@example.com",
+  WEBHOOK: "Outbound webhook subscription ID or URL",
+};
+
+function describeTrigger(rule: AutomationRule): string {
+  if (rule.trigger_type === "THRESHOLD") {
+    return `${formatEnumLabel(rule.metric ?? "metric")} ${rule.operator ?? "?"} ${rule.threshold ?? "?"}`;
+  }
+  if (rule.trigger_type === "SCHEDULE") {
+    return `Cron ${rule.schedule_cron ?? "-"} (UTC)`;
+  }
+  return `On ${formatEnumLabel(rule.event_type ?? "event")}`;
+}
+
+export function AdminAutomationsPage() {
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const [metrics, setMetrics] = useState<string[]>([]);
+  const [operators, setOperators] = useState<string[]>([]);
+  const [events, setEvents] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<AutomationRule | null>(null);
+  const [historyRuleId, setHistoryRuleId] = useState<string | null>(null);
+  const [runs, setRuns] = useState<AutomationRuleRun[]>([]);
+
+  const [name, setName] = useState("");
+  const [triggerType, setTriggerType] = useState<TriggerType>("THRESHOLD");
+  const [metric, setMetric] = useState("");
+  const [operator, setOperator] = useState<Operator>(">=");
+  const [threshold, setThreshold] = useState("");
+  const [scheduleCron, setScheduleCron] = useState("0 9 * * 1");
+  const [eventType, setEventType] = useState("");
+  const [deliveryType, setDeliveryType] = useState<DeliveryType>("SLACK");
+  const [deliveryTarget, setDeliveryTarget] = useState("");
+  const [titleTemplate, setTitleTemplate] = useState("");
+  const [textTemplate, setTextTemplate] = useState("");
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await getAutomationRules();
+      setRules(res.rules);
+      setMetrics(res.supported_metrics);
+      setOperators(res.supported_operators);
+      setEvents(res.supported_events);
+      setMetric((current) => current || res.supported_metrics[0] || "");
+      setEventType((current) => current || res.supported_events[0] || "");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load automations");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  const loadRuns = async (ruleId: string) => {
+    setHistoryRuleId(ruleId);
+    setRuns([]);
+    try {
+      const res = await getAutomationRuleRuns(ruleId);
+      setRuns(res.runs);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load run history");
+    }
+  };
+
+  const create = async () => {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const template: Record<string, unknown> = {};
+      if (titleTemplate.trim()) template.title = titleTemplate.trim();
+      if (textTemplate.trim()) template.text = textTemplate.trim();
+      await createAutomationRule({
+        name: name.trim(),
+        enabled: true,
+        trigger_type: triggerType,
+        metric: triggerType === "THRESHOLD" ? metric : undefined,
+        operator: triggerType === "THRESHOLD" ? operator : undefined,
+        threshold: triggerType === "THRESHOLD" ? Number(threshold) : undefined,
+        schedule_cron: triggerType === "SCHEDULE" ? scheduleCron.trim() : undefined,
+        event_type: triggerType === "EVENT" ? eventType : undefined,
+        delivery_type: deliveryType,
+        delivery_target: deliveryTarget.trim(),
+        payload_template: Object.keys(template).length > 0 ? template : undefined,
+      });
+      setName("");
+      setThreshold("");
+      setDeliveryTarget("");
+      setTitleTemplate("");
+      setTextTemplate("");
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create automation");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggle = async (rule: AutomationRule) => {
+    setError(null);
+    try {
+      await updateAutomationRule(rule.id, { enabled: !rule.enabled });
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update automation");
+    }
+  };
+
+  const runNow = async (rule: AutomationRule) => {
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await runAutomationRule(rule.id);
+      setNotice(
+        res.status === "SUCCESS"
+          ? `"${rule.name}" delivered successfully.`
+          : `"${rule.name}" failed: ${res.error ?? "unknown error"}`
+      );
+      await load();
+      if (historyRuleId === rule.id) await loadRuns(rule.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to run automation");
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+    const ruleId = pendingDelete.id;
+    setPendingDelete(null);
+    setError(null);
+    try {
+      await deleteAutomationRule(ruleId);
+      if (historyRuleId === ruleId) setHistoryRuleId(null);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete automation");
+    }
+  };
+
+  const canCreate =
+    name.trim().length > 0 &&
+    deliveryTarget.trim().length > 0 &&
+    (triggerType !== "THRESHOLD" || (metric && threshold.trim() !== "" && Number.isFinite(Number(threshold)))) &&
+    (triggerType !== "SCHEDULE" || scheduleCron.trim().length > 0) &&
+    (triggerType !== "EVENT" || eventType);
+
+  const historyRule = rules.find((rule) => rule.id === historyRuleId) ?? null;
+
+  return (
+    <div className="page">
+      <div className="page__header"><div className="page__header-text"><h1 className="page__title">Automations</h1><p className="page__subtitle">Alert your team when metrics cross a threshold, on a schedule, or when events happen</p></div></div>
+
+      {error && (
+        <AdminErrorState
+          title="Automations Request Failed"
+          message={error}
+          onRetry={() => void load()}
+        />
+      )}
+      {notice && <div className="alert alert--info" role="status">{notice}</div>}
+
+      <AdminSection
+        title="New Automation"
+        subtitle="Templates may reference {{rule_name}}, {{metric_value}}, {{threshold}}, {{event_type}} and {{event.<field>}}."
+      >
+        <div className="form-grid" style={{ gridTemplateColumns: "repeat(3, 1fr)" }}>
+          <label className="form-group">
+            <span className="form-group__label">Name</span>
+            <input className="form-input" value={name} onChange={(e) => setName(e.target.value)} />
+          </label>
+          <label className="form-group">
+            <span className="form-group__label">Trigger</span>
+            <select className="form-select" value={triggerType} onChange={(e) => setTriggerType(e.target.value as TriggerType)}>
+              <option value="THRESHOLD">Threshold</option>
+              <option value="SCHEDULE">Schedule</option>
+              <option value="EVENT">Event</option>
+            </select>
+          </label>
+          {triggerType === "THRESHOLD" && (
+            <div className="form-group">
+              <span className="form-group__label">Condition</span>
+              <div className="table-actions">
+                <select className="form-select" aria-label="Metric" value={metric} onChange={(e) => setMetric(e.target.value)}>
+                  {metrics.map((m) => <option key={m} value={m}>{formatEnumLabel(m)}</option>)}
+                </select>
+                <select className="form-select" aria-label="Operator" value={operator} onChange={(e) => setOperator(e.target.value as Operator)}>
+                  {operators.map((op) => <option key={op} value={op}>{op}</option>)}
+                </select>
+                <input className="form-input" aria-label="Threshold" type="number" value={threshold} onChange={(e) => setThreshold(e.target.value)} />
+              </div>
+            </div>
+          )}
+          {triggerType === "SCHEDULE" && (
+            <label className="form-group">
+              <span className="form-group__label">Cron (UTC)</span>
+              <input className="form-input" value={scheduleCron} onChange={(e) => setScheduleCron(e.target.value)} />
+            </label>
+          )}
+          {triggerType === "EVENT" && (
+            <label className="form-group">
+              <span className="form-group__label">Event</span>
+              <select className="form-select" value={eventType} onChange={(e) => setEventType(e.target.value)}>
+                {events.map((ev) => <option key={ev} value={ev}>{formatEnumLabel(ev)}</option>)}
+              </select>
+            </label>
+          )}
+          <label className="form-group">
+            <span className="form-group__label">Deliver via</span>
+            <select className="form-select" value={deliveryType} onChange={(e) => setDeliveryType(e.target.value as DeliveryType)}>
+              <option value="SLACK">Slack</option>
+              <option value="EMAIL">Email</option>
+              <option value="WEBHOOK">Webhook</option>
+            </select>
+          </label>
+          <label className="form-group">
+            <span className="form-group__label">Destination</span>
+            <input
+              className="form-input"
+              value={deliveryTarget}
+              onChange={(e) => setDeliveryTarget(e.target.value)}
+              placeholder={DELIVERY_TARGET_PLACEHOLDERS[deliveryType]}
+            />
+          </label>
+          <label className="form-group">
+            <span className="form-group__label">Title template (optional)</span>
+            <input className="form-input" value={titleTemplate} onChange={(e) => setTitleTemplate(e.target.value)} />
+          </label>
+          <label className="form-group" style={{ gridColumn: "1 / -1" }}>
+            <span className="form-group__label">Message template (optional)</span>
+            <textarea className="form-textarea" rows={3} value={textTemplate} onChange={(e) => setTextTemplate(e.target.value)} />
+          </label>
+        </div>
+        <button className="btn btn--primary" onClick={() => void create()} disabled={saving || !canCreate}>
+          {saving ? "Saving..." : "Create Automation"}
+        </button>
+      </AdminSection>
+
+      <AdminSection title="Rules" subtitle={`${rules.length} rule${rules.length === 1 ? "" : "s"}`}>
+        {loading ? (
+          <TableSkeleton rows={4} />
+        ) : (
+          <table className="data-table" aria-label="Automation rules">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Trigger</th>
+                <th>Delivery</th>
+                <th>Last Run</th>
+                <th>Enabled</th>
+                <th>Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule) => (
+                <tr key={rule.id}>
+                  <td>{rule.name}</td>
+                  <td>{describeTrigger(rule)}</td>
+                  <td>{formatEnumLabel(rule.delivery_type)}</td>
+                  <td>
+                    {rule.last_run_at ? (
+                      <span title={rule.last_run_error ?? undefined}>
+                        <span className={badgeClass(rule.last_run_status ?? "")}>{formatEnumLabel(rule.last_run_status ?? "")}</span>{" "}
+                        {new Date(rule.last_run_at).toLocaleString()}
+                      </span>
+                    ) : (
+                      <span className="text-muted">Never</span>
+                    )}
+                  </td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={() => void toggle(rule)}
+                      aria-label={`${rule.enabled ? "Disable" : "Enable"} ${rule.name}`}
+                    />
+                  </td>
+                  <td>
+                    <div className="table-actions">
+                      <button className="btn btn--sm btn--secondary" onClick={() => void runNow(rule)} aria-label={`Run ${rule.name} now`}>
+                        Run now
+                      </button>
+                      <button className="btn btn--sm btn--ghost" onClick={() => void loadRuns(rule.id)} aria-label={`Show run history for ${rule.name}`}>
+                        History
+                      </button>
+                      <button className="btn btn--sm btn--danger" onClick={() => setPendingDelete(rule)} aria-label={`Delete ${rule.name}`}>
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </AdminSection>
+
+      {historyRule && (
+        <AdminSection title={`Run History: ${historyRule.name}`} subtitle="Most recent 50 runs">
+          <table className="data-table" aria-label={`Run history for ${historyRule.name}`}>
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>Trigger</th>
+                <th>Status</th>
+                <th>Value</th>
+                <th>Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((run) => (
+                <tr key={run.id}>
+                  <td>{new Date(run.created_at).toLocaleString()}</td>
+                  <td>{formatEnumLabel(run.trigger)}</td>
+                  <td><span className={badgeClass(run.status)}>{formatEnumLabel(run.status)}</span></td>
+                  <td>{run.metric_value ?? run.event_type ?? "-"}</td>
+                  <td>{run.error ?? "-"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </AdminSection>
+      )}
+
+      <ConfirmDialog
+        open={pendingDelete !== null}
+        title="Delete automation?"
+        message={`"${pendingDelete?.name ?? ""}" and its run history will be removed.`}
+        confirmLabel="Delete"
+        destructive
+        onConfirm={() => void confirmDelete()}
+        onCancel={() => setPendingDelete(null)}
+      />
+    </div>
+  );
+}
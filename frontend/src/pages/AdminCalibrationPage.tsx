@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { getCalibrationHistory, refitCalibration, type CalibrationHistory } from "../lib/api";
+import { AdminErrorState } from "../components/admin/AdminErrorState";
+import { AdminKpi, AdminKpiGrid, AdminSection } from "../components/admin/AdminLayoutPrimitives";
+import { TableSkeleton } from "../components/PageSkeleton";
+
+function formatScore(value: number): string {
+  return value.toFixed(3);
+}
+
+export function AdminCalibrationPage() {
+  const [history, setHistory] = useState<CalibrationHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [refitting, setRefitting] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setHistory(await getCalibrationHistory());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load calibration history");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  const refit = async () => {
+    setRefitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await refitCalibration();
+      setNotice(
+        `Refitted from ${res.report.sample_count} reviews. Brier score ${formatScore(res.report.brier_score)} → ${formatScore(res.report.calibrated_brier_score)}.`
+      );
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to refit calibration");
+    } finally {
+      setRefitting(false);
+    }
+  };
+
+  const latest = history?.reports[0] ?? null;
+  const canRefit = (history?.review_count ?? 0) >= (history?.min_refit_samples ?? Infinity);
+
+  return (
+    <div className="page">
+      <div className="page__header"><div className="page__header-text"><h1 className="page__title">Tag Calibration</h1><p className="page__subtitle">How well tag confidence matches reviewer decisions. Lower Brier scores are better; curves are refitted nightly.</p></div></div>
+
+      {error && (
+        <AdminErrorState
+          title="Calibration Request Failed"
+          message={error}
+          onRetry={() => void load()}
+        />
+      )}
+      {notice && <div className="alert alert--info" role="status">{notice}</div>}
+
+      <AdminSection
+        title="Current Calibration"
+        subtitle="Reviewers confirm or reject tags from the Taxonomy Browser."
+        actions={
+          <button className="btn btn--primary" onClick={() => void refit()} disabled={refitting || !canRefit}>
+            {refitting ? "Refitting..." : "Refit Now"}
+          </button>
+        }
+      >
+        <AdminKpiGrid>
+          <AdminKpi label="Tag Reviews" value={history?.review_count ?? "-"} hint={history ? `${history.min_refit_samples} needed to refit` : undefined} />
+          <AdminKpi label="Awaiting Review" value={history?.pending_labels ?? "-"} />
+          <AdminKpi label="Raw Brier Score" value={latest ? formatScore(latest.brier_score) : "-"} />
+          <AdminKpi label="Calibrated Brier Score" value={latest ? formatScore(latest.calibrated_brier_score) : "-"} />
+        </AdminKpiGrid>
+      </AdminSection>
+
+      <AdminSection title="History" subtitle={`${history?.reports.length ?? 0} refit${history?.reports.length === 1 ? "" : "s"}`}>
+        {loading ? (
+          <TableSkeleton rows={5} />
+        ) : (
+          <table className="data-table" aria-label="Calibration history">
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>Reviews</th>
+                <th>Raw Brier</th>
+                <th>Calibrated Brier</th>
+                <th>Curve Points</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(history?.reports ?? []).map((report) => (
+                <tr key={report.id}>
+                  <td>{new Date(report.created_at).toLocaleString()}</td>
+                  <td>{report.sample_count}</td>
+                  <td>{formatScore(report.brier_score)}</td>
+                  <td>{formatScore(report.calibrated_brier_score)}</td>
+                  <td>{report.calibration_curve.length}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </AdminSection>
+    </div>
+  );
+}
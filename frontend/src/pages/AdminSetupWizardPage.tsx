@@ -3,6 +3,7 @@ import { Link } from "react-router-dom";
 import {
   applySetupRolePresets,
   completeSetupCrmConnection,
+  completeSetupDirectRecordingProvider,
   completeSetupRecordingProvider,
   completeSettingsIntegrationLink,
   createSettingsIntegrationLinkToken,
@@ -18,6 +19,7 @@ import {
   selectSetupPlan,
   skipSetupStep,
   type FirstValueRecommendations,
+  type SetupDirectRecordingProviderBody,
   type SetupMvpAccountRow,
   type SetupMvpQuickstartStatus,
   type SetupPlanCatalog,
@@ -29,6 +31,7 @@ import { MergeLinkModal } from "../components/MergeLinkModal";
 import { mapCrmProvider, mapRecordingProvider } from "../lib/merge-provider-map";
 import { AdminSetupWizardMvpSection } from "./admin-setup-wizard-mvp-section";
 import { AdminSetupWizardAdvancedSection } from "./admin-setup-wizard-advanced-section";
+import { AdminSetupWizardDirectProviderSection } from "./admin-setup-wizard-direct-provider-section";
 
 export function AdminSetupWizardPage() {
   type MergeLinkState = {
@@ -57,6 +60,7 @@ export function AdminSetupWizardPage() {
   const [showAdvancedSetup, setShowAdvancedSetup] = useState(false);
   const [mergeLink, setMergeLink] = useState<MergeLinkState | null>(null);
   const [connectingMerge, setConnectingMerge] = useState(false);
+  const [connectingDirect, setConnectingDirect] = useState(false);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { showToast } = useToast();
@@ -275,6 +279,24 @@ export function AdminSetupWizardPage() {
     }
   };
 
+  const connectDirectProvider = async (
+    body: SetupDirectRecordingProviderBody
+  ): Promise<string | null> => {
+    setConnectingDirect(true);
+    setError(null);
+    try {
+      const response = await completeSetupDirectRecordingProvider(body);
+      setStatus(response.status);
+      showToast("Recording provider connected", "success");
+      return response.webhook_path;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to connect recording provider");
+      return null;
+    } finally {
+      setConnectingDirect(false);
+    }
+  };
+
   const skipCrmSetup = async () => {
     setSaving(true);
     setError(null);
@@ -441,6 +463,11 @@ export function AdminSetupWizardPage() {
         </div>
       </div>
 
+      <AdminSetupWizardDirectProviderSection
+        connecting={connectingDirect}
+        onConnect={connectDirectProvider}
+      />
+
       <AdminSetupWizardMvpSection
         showAdvancedSetup={showAdvancedSetup}
         mvpStatus={mvpStatus}
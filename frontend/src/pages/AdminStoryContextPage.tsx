@@ -12,6 +12,7 @@ import {
 } from "../types/taxonomy";
 import { useToast } from "../components/Toast";
 import { AdminErrorState } from "../components/admin/AdminErrorState";
+import { EmbedSettingsCard } from "./admin-embed-settings-card";
 
 const EMPTY_SETTINGS: StoryContextSettings = {
   company_overview: "",
@@ -23,6 +24,7 @@ const EMPTY_SETTINGS: StoryContextSettings = {
   banned_claims: [],
   writing_style_guide: "",
   approved_terminology: [],
+  competitors: [],
   published_branding: {
     brand_name: "",
     logo_url: "",
@@ -57,6 +59,7 @@ export function AdminStoryContextPage() {
   const [proofPointsCsv, setProofPointsCsv] = useState("");
   const [bannedClaimsCsv, setBannedClaimsCsv] = useState("");
   const [terminologyCsv, setTerminologyCsv] = useState("");
+  const [competitorsCsv, setCompetitorsCsv] = useState("");
 
   useEffect(() => {
     getStoryContextSettings()
@@ -79,6 +82,7 @@ export function AdminStoryContextPage() {
         setProofPointsCsv(data.proof_points.join(", "));
         setBannedClaimsCsv(data.banned_claims.join(", "));
         setTerminologyCsv(data.approved_terminology.join(", "));
+        setCompetitorsCsv((data.competitors ?? []).join(", "));
       })
       .catch((err) => {
         setError(err instanceof Error ? err.message : "Failed to load settings");
@@ -98,6 +102,7 @@ export function AdminStoryContextPage() {
       proof_points: splitCsv(proofPointsCsv),
       banned_claims: splitCsv(bannedClaimsCsv),
       approved_terminology: splitCsv(terminologyCsv),
+      competitors: splitCsv(competitorsCsv),
     };
     try {
       await updateStoryContextSettings(payload);
@@ -175,8 +180,13 @@ export function AdminStoryContextPage() {
             </div>
             <div className="form-group">
               <label className="form-group__label">Approved Terminology</label>
-              <input className="form-input" value={terminologyCsv} onChange={(e) => setTerminologyCsv(e.target.value)} placeholder="Customer success, Revenue ops, ..." />
-              <div className="form-group__hint">Comma-separated list</div>
+              <input className="form-input" value={terminologyCsv} onChange={(e) => setTerminologyCsv(e.target.value)} placeholder="HubSpot, Customer story = case study | testimonial, ..." />
+              <div className="form-group__hint">Comma-separated list. Use "Approved = synonym | synonym" to flag synonyms.</div>
+            </div>
+            <div className="form-group">
+              <label className="form-group__label">Competitors</label>
+              <input className="form-input" value={competitorsCsv} onChange={(e) => setCompetitorsCsv(e.target.value)} placeholder="Competitor A, Competitor B, ..." />
+              <div className="form-group__hint">Flagged when a story or page names them</div>
             </div>
           </div>
           <div className="form-group">
@@ -292,6 +302,8 @@ export function AdminStoryContextPage() {
         </div>
       </div>
 
+      <EmbedSettingsCard />
+
       <div className="card card--elevated">
         <div className="card__header">
           <div className="card__title">Default Generation Settings</div>
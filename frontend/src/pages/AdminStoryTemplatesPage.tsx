@@ -0,0 +1,268 @@
+import { useEffect, useState } from "react";
+import {
+  archiveStoryTemplate,
+  createStoryTemplate,
+  getAccountsList,
+  getStoryTemplates,
+  previewStoryTemplate,
+  updateStoryTemplate,
+  type AccountsListItem,
+  type PreviewStoryTemplateResponse,
+  type SaveStoryTemplateRequest,
+  type StoryTemplate,
+} from "../lib/api";
+import { STORY_LENGTH_LABELS } from "../types/taxonomy";
+import { AdminErrorState } from "../components/admin/AdminErrorState";
+import { AdminSection } from "../components/admin/AdminLayoutPrimitives";
+import { ConfirmDialog } from "../components/ConfirmDialog";
+import { TableSkeleton } from "../components/PageSkeleton";
+import { TemplateEditor, emptyTemplateDraft } from "./story-templates/TemplateEditor";
+import { TemplatePreview } from "./story-templates/TemplatePreview";
+
+function toDraft(template: StoryTemplate): SaveStoryTemplateRequest {
+  return {
+    name: template.name,
+    description: template.description ?? "",
+    definition: {
+      ...template.definition,
+      audience: template.definition.audience ?? "",
+      prompt_block: template.definition.prompt_block ?? "",
+    },
+  };
+}
+
+function normalizeDraft(draft: SaveStoryTemplateRequest): SaveStoryTemplateRequest {
+  const { definition } = draft;
+  return {
+    name: draft.name.trim(),
+    description: draft.description?.trim() || null,
+    definition: {
+      ...definition,
+      audience: definition.audience?.trim() || null,
+      prompt_block: definition.prompt_block?.trim() || null,
+      sections: definition.sections.map((section) => ({
+        ...section,
+        heading: section.heading.trim(),
+        instructions: section.instructions.trim(),
+      })),
+    },
+  };
+}
+
+export function AdminStoryTemplatesPage() {
+  const [templates, setTemplates] = useState<StoryTemplate[]>([]);
+  const [maxTemplates, setMaxTemplates] = useState(0);
+  const [accounts, setAccounts] = useState<AccountsListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SaveStoryTemplateRequest>(emptyTemplateDraft);
+  const [saving, setSaving] = useState(false);
+  const [pendingArchive, setPendingArchive] = useState<StoryTemplate | null>(null);
+  const [previewAccountId, setPreviewAccountId] = useState("");
+  const [previewing, setPreviewing] = useState(false);
+  const [preview, setPreview] = useState<PreviewStoryTemplateResponse | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await getStoryTemplates();
+      setTemplates(res.templates);
+      setMaxTemplates(res.max_templates);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load story templates");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+    getAccountsList({ limit: 50, sort_by: "totalCalls", sort_order: "desc" })
+      .then((res) => {
+        setAccounts(res.accounts);
+        if (res.accounts[0]) setPreviewAccountId(res.accounts[0].id);
+      })
+      .catch(() => {
+        // Preview stays disabled without sample accounts.
+      });
+  }, []);
+
+  const startEdit = (template: StoryTemplate | null) => {
+    setEditingId(template?.id ?? null);
+    setDraft(template ? toDraft(template) : emptyTemplateDraft());
+    setPreview(null);
+    setNotice(null);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const body = normalizeDraft(draft);
+      const res = editingId ? await updateStoryTemplate(editingId, body) : await createStoryTemplate(body);
+      setEditingId(res.template.id);
+      setDraft(toDraft(res.template));
+      setNotice(`Saved "${res.template.name}" (version ${res.template.version}).`);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save story template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runPreview = async () => {
+    setPreviewing(true);
+    setError(null);
+    setPreview(null);
+    try {
+      const res = await previewStoryTemplate({
+        account_id: previewAccountId,
+        definition: normalizeDraft(draft).definition,
+      });
+      setPreview(res);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to preview story template");
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const confirmArchive = async () => {
+    if (!pendingArchive) return;
+    const templateId = pendingArchive.id;
+    setPendingArchive(null);
+    setError(null);
+    try {
+      await archiveStoryTemplate(templateId);
+      if (editingId === templateId) startEdit(null);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to archive story template");
+    }
+  };
+
+  const draftValid =
+    draft.name.trim().length > 0 && draft.definition.sections.every((section) => section.heading.trim().length > 0);
+  const atLimit = editingId === null && maxTemplates > 0 && templates.length >= maxTemplates;
+
+  return (
+    <div className="page">
+      <div className="page__header"><div className="page__header-text"><h1 className="page__title">Story Templates</h1><p className="page__subtitle">Define the sections, quotes and metrics every story built from a template must include</p></div></div>
+
+      {error && (
+        <AdminErrorState
+          title="Story Templates Request Failed"
+          message={error}
+          onRetry={() => void load()}
+        />
+      )}
+      {notice && <div className="alert alert--info" role="status">{notice}</div>}
+
+      <AdminSection
+        title="Templates"
+        subtitle={`${templates.length} of ${maxTemplates} templates`}
+        actions={
+          <button className="btn btn--sm btn--secondary" onClick={() => startEdit(null)}>
+            New Template
+          </button>
+        }
+      >
+        {loading ? (
+          <TableSkeleton rows={3} />
+        ) : (
+          <table className="data-table" aria-label="Story templates">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Sections</th>
+                <th>Length</th>
+                <th>Version</th>
+                <th>Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {templates.map((template) => (
+                <tr key={template.id}>
+                  <td>
+                    {template.name}
+                    {template.description && <div className="text-muted">{template.description}</div>}
+                  </td>
+                  <td>{template.definition.sections.map((section) => section.heading).join(" · ")}</td>
+                  <td>{STORY_LENGTH_LABELS[template.definition.story_length]}</td>
+                  <td>v{template.version}</td>
+                  <td>
+                    <div className="table-actions">
+                      <button className="btn btn--sm btn--secondary" onClick={() => startEdit(template)} aria-label={`Edit ${template.name}`}>
+                        Edit
+                      </button>
+                      <button className="btn btn--sm btn--danger" onClick={() => setPendingArchive(template)} aria-label={`Archive ${template.name}`}>
+                        Archive
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </AdminSection>
+
+      <AdminSection
+        title={editingId ? `Edit: ${templates.find((item) => item.id === editingId)?.name ?? draft.name}` : "New Template"}
+        subtitle="Saving a changed outline adds a version; existing stories keep the version they were built from."
+        actions={
+          <button className="btn btn--primary" onClick={() => void save()} disabled={saving || !draftValid || atLimit}>
+            {saving ? "Saving..." : editingId ? "Save Version" : "Create Template"}
+          </button>
+        }
+      >
+        <TemplateEditor draft={draft} disabled={saving} onChange={setDraft} />
+      </AdminSection>
+
+      <AdminSection
+        title="Preview"
+        subtitle="Generate a throwaway story from the outline above against a sample account"
+        actions={
+          <div className="table-actions">
+            <select
+              className="form-input"
+              aria-label="Sample account"
+              value={previewAccountId}
+              onChange={(e) => setPreviewAccountId(e.target.value)}
+            >
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.name} ({account.totalCalls} calls)
+                </option>
+              ))}
+            </select>
+            <button className="btn btn--secondary" onClick={() => void runPreview()} disabled={previewing || !previewAccountId || !draftValid}>
+              {previewing ? "Generating..." : "Preview"}
+            </button>
+          </div>
+        }
+      >
+        {preview ? (
+          <TemplatePreview preview={preview} />
+        ) : (
+          <p className="text-muted">The preview shows which section slots the generated story filled.</p>
+        )}
+      </AdminSection>
+
+      <ConfirmDialog
+        open={pendingArchive !== null}
+        title="Archive template?"
+        message={`"${pendingArchive?.name ?? ""}" will no longer be offered in the story generator. Scheduled regenerations of stories built from it keep using it.`}
+        confirmLabel="Archive"
+        destructive
+        onConfirm={() => void confirmArchive()}
+        onCancel={() => setPendingArchive(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  createOutboundWebhookSubscription,
+  deleteOutboundWebhookSubscription,
+  getOutboundWebhookDeliveries,
+  getOutboundWebhookEventCatalog,
+  getOutboundWebhookSubscriptions,
+  redeliverOutboundWebhookDelivery,
+  testOutboundWebhookSubscription,
+  updateOutboundWebhookSubscription,
+  type OutboundWebhookDelivery,
+  type OutboundWebhookEventType,
+  type OutboundWebhookSubscription,
+} from "../lib/api";
+import { badgeClass, formatEnumLabel } from "../lib/format";
+import { AdminErrorState } from "../components/admin/AdminErrorState";
+import { AdminSection } from "../components/admin/AdminLayoutPrimitives";
+import { ConfirmDialog } from "../components/ConfirmDialog";
+import { TableSkeleton } from "../components/PageSkeleton";
+
+export function AdminWebhooksPage() {
+  const [subscriptions, setSubscriptions] = useState<OutboundWebhookSubscription[]>([]);
+  const [supportedEvents, setSupportedEvents] = useState<OutboundWebhookEventType[]>([]);
+  const [eventDescriptions, setEventDescriptions] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [url, setUrl] = useState("");
+  const [eventTypes, setEventTypes] = useState<OutboundWebhookEventType[]>(["ALL_EVENTS"]);
+  const [saving, setSaving] = useState(false);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<OutboundWebhookSubscription | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [failedOnly, setFailedOnly] = useState(false);
+  const [deliveries, setDeliveries] = useState<OutboundWebhookDelivery[]>([]);
+  const [deliveriesLoading, setDeliveriesLoading] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [res, catalog] = await Promise.all([
+        getOutboundWebhookSubscriptions(),
+        getOutboundWebhookEventCatalog(),
+      ]);
+      setSubscriptions(res.subscriptions);
+      setSupportedEvents(res.supported_events);
+      setEventDescriptions(
+        Object.fromEntries(
+          catalog.events.map((entry) => [entry.event_type, `${entry.description} (v${entry.version})`])
+        )
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load webhooks");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadDeliveries = useCallback(async (subscriptionId: string) => {
+    setDeliveriesLoading(true);
+    try {
+      const res = await getOutboundWebhookDeliveries(subscriptionId, {
+        status: failedOnly ? "FAILED" : undefined,
+      });
+      setDeliveries(res.deliveries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load deliveries");
+    } finally {
+      setDeliveriesLoading(false);
+    }
+  }, [failedOnly]);
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) void loadDeliveries(selectedId);
+  }, [selectedId, loadDeliveries]);
+
+  const toggleEvent = (event: OutboundWebhookEventType) => {
+    setEventTypes((current) =>
+      current.includes(event) ? current.filter((item) => item !== event) : [...current, event]
+    );
+  };
+
+  const create = async () => {
+    setSaving(true);
+    setError(null);
+    setNewSecret(null);
+    try {
+      const res = await createOutboundWebhookSubscription({ url: url.trim(), event_types: eventTypes });
+      setNewSecret(res.subscription.secret);
+      setUrl("");
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create webhook");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleEnabled = async (subscription: OutboundWebhookSubscription) => {
+    setError(null);
+    try {
+      await updateOutboundWebhookSubscription(subscription.id, { enabled: !subscription.enabled });
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update webhook");
+    }
+  };
+
+  const sendTest = async (subscription: OutboundWebhookSubscription) => {
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await testOutboundWebhookSubscription(subscription.id);
+      setNotice(
+        res.delivered
+          ? `Test delivered to ${subscription.url} (HTTP ${res.status}).`
+          : `Test to ${subscription.url} failed: ${res.error ?? `HTTP ${res.status}`}`
+      );
+      if (selectedId === subscription.id) await loadDeliveries(subscription.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send test");
+    }
+  };
+
+  const redeliver = async (delivery: OutboundWebhookDelivery) => {
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await redeliverOutboundWebhookDelivery(delivery.id);
+      setNotice(
+        res.queued
+          ? `Redelivery of ${formatEnumLabel(delivery.event_type)} queued.`
+          : `Redelivery ${res.status === "SUCCEEDED" ? "succeeded" : `failed: ${res.error ?? "unknown error"}`}.`
+      );
+      await loadDeliveries(delivery.subscription_id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to redeliver");
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+    const subscriptionId = pendingDelete.id;
+    setPendingDelete(null);
+    setError(null);
+    try {
+      await deleteOutboundWebhookSubscription(subscriptionId);
+      if (selectedId === subscriptionId) setSelectedId(null);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete webhook");
+    }
+  };
+
+  const selected = subscriptions.find((item) => item.id === selectedId) ?? null;
+
+  return (
+    <div className="page">
+      <div className="page__header"><div className="page__header-text"><h1 className="page__title">Webhooks</h1><p className="page__subtitle">Send signed event notifications to your own systems and inspect every delivery attempt</p></div></div>
+
+      {error && (
+        <AdminErrorState
+          title="Webhooks Request Failed"
+          message={error}
+          onRetry={() => void load()}
+        />
+      )}
+      {notice && <div className="alert alert--info" role="status">{notice}</div>}
+
+      <AdminSection title="New Webhook" subtitle="Failed deliveries are retried with exponential backoff. Endpoints that keep failing are disabled automatically.">
+        <div className="form-grid" style={{ gridTemplateColumns: "1fr 2fr auto" }}>
+          <label className="form-group">
+            <span className="form-group__label">Endpoint URL</span>
+            <input className="form-input" value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://example.com/webhooks/storyengine" />
+          </label>
+          <fieldset className="form-group">
+            <legend className="form-group__label">Events</legend>
+            <div className="table-actions" style={{ flexWrap: "wrap" }}>
+              {supportedEvents.map((event) => (
+                <label key={event} title={eventDescriptions[event] ?? "Every event type"}>
+                  <input type="checkbox" checked={eventTypes.includes(event)} onChange={() => toggleEvent(event)} />{" "}
+                  {formatEnumLabel(event)}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <div className="form-group" style={{ alignSelf: "end" }}>
+            <button className="btn btn--primary" onClick={() => void create()} disabled={saving || !url.trim() || eventTypes.length === 0}>
+              {saving ? "Saving..." : "Add Webhook"}
+            </button>
+          </div>
+        </div>
+        {newSecret && (
+          <p className="text-muted">
+            Signing secret (shown once): <code>{newSecret}</code>
+          </p>
+        )}
+      </AdminSection>
+
+      <AdminSection title="Subscriptions" subtitle={`${subscriptions.length} endpoint${subscriptions.length === 1 ? "" : "s"}`}>
+        {loading ? (
+          <TableSkeleton rows={3} />
+        ) : (
+          <table className="data-table" aria-label="Webhook subscriptions">
+            <thead>
+              <tr>
+                <th>URL</th>
+                <th>Events</th>
+                <th>Status</th>
+                <th>Failure Streak</th>
+                <th>Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {subscriptions.map((subscription) => (
+                <tr key={subscription.id}>
+                  <td>{subscription.url}</td>
+                  <td>{subscription.event_types.map(formatEnumLabel).join(", ")}</td>
+                  <td>
+                    <span className={badgeClass(subscription.enabled ? "ACTIVE" : "DISABLED")}>
+                      {subscription.enabled ? "Enabled" : "Disabled"}
+                    </span>
+                    {subscription.disabled_reason && (
+                      <div className="text-muted">{formatEnumLabel(subscription.disabled_reason)}</div>
+                    )}
+                  </td>
+                  <td>{subscription.consecutive_failures}</td>
+                  <td>
+                    <div className="table-actions">
+                      <button className="btn btn--sm btn--secondary" onClick={() => void toggleEnabled(subscription)}>
+                        {subscription.enabled ? "Disable" : "Enable"}
+                      </button>
+                      <button className="btn btn--sm btn--secondary" onClick={() => void sendTest(subscription)} aria-label={`Send test to ${subscription.url}`}>
+                        Test
+                      </button>
+                      <button className="btn btn--sm btn--ghost" onClick={() => setSelectedId(subscription.id)} aria-label={`Show deliveries for ${subscription.url}`}>
+                        Deliveries
+                      </button>
+                      <button className="btn btn--sm btn--danger" onClick={() => setPendingDelete(subscription)} aria-label={`Delete webhook ${subscription.url}`}>
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </AdminSection>
+
+      {selected && (
+        <AdminSection
+          title={`Recent Deliveries: ${selected.url}`}
+          actions={
+            <label>
+              <input type="checkbox" checked={failedOnly} onChange={(e) => setFailedOnly(e.target.checked)} /> Failed only
+            </label>
+          }
+        >
+          {deliveriesLoading ? (
+            <TableSkeleton rows={5} />
+          ) : (
+            <table className="data-table" aria-label={`Deliveries for ${selected.url}`}>
+              <thead>
+                <tr>
+                  <th>When</th>
+                  <th>Event</th>
+                  <th>Attempt</th>
+                  <th>Status</th>
+                  <th>Response</th>
+                  <th>Latency</th>
+                  <th>Error</th>
+                  <th>Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map((delivery) => (
+                  <tr key={delivery.id}>
+                    <td>{new Date(delivery.created_at).toLocaleString()}</td>
+                    <td>{formatEnumLabel(delivery.event_type)}</td>
+                    <td>
+                      {delivery.attempt}
+                      {delivery.trigger !== "EVENT" && <span className="text-muted"> ({formatEnumLabel(delivery.trigger)})</span>}
+                    </td>
+                    <td>
+                      <span className={badgeClass(delivery.status)}>{formatEnumLabel(delivery.status)}</span>
+                      {delivery.will_retry && <span className="text-muted"> retrying</span>}
+                    </td>
+                    <td>{delivery.response_status ?? "-"}</td>
+                    <td>{delivery.latency_ms != null ? `${delivery.latency_ms} ms` : "-"}</td>
+                    <td>{delivery.error ?? "-"}</td>
+                    <td>
+                      <button className="btn btn--sm btn--secondary" onClick={() => void redeliver(delivery)} aria-label={`Redeliver ${delivery.event_type} event`}>
+                        Redeliver
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </AdminSection>
+      )}
+
+      <ConfirmDialog
+        open={pendingDelete !== null}
+        title="Delete webhook?"
+        message={`Events will no longer be sent to ${pendingDelete?.url ?? ""}. Past deliveries stay in the log.`}
+        confirmLabel="Delete"
+        destructive
+        onConfirm={() => void confirmDelete()}
+        onCancel={() => setPendingDelete(null)}
+      />
+    </div>
+  );
+}
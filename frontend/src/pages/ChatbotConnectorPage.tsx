@@ -7,9 +7,16 @@ import {
   type ChangeEvent,
 } from "react";
 import {
+  createChatConversation,
   getChatAccounts,
-  sendChatMessage,
+  getChatConversation,
+  getChatConversations,
+  streamChatMessage,
+  submitChatFeedback,
   type ChatAccount,
+  type ChatConversationSummary,
+  type ChatFeedbackRating,
+  type ChatMessageFeedback,
   type ChatSource,
 } from "../lib/api";
 
@@ -20,6 +27,9 @@ interface ChatMessage {
   role: "user" | "assistant";
   content: string;
   sources?: ChatSource[];
+  /** Stored message ID; set for answers persisted in a conversation. */
+  serverId?: string;
+  feedback?: ChatMessageFeedback | null;
 }
 
 // ─── Helpers ────────────────────────────────────────────────────────────────
@@ -35,6 +45,16 @@ function relevanceLevel(score: number): { label: string; className: string } {
   return { label: "Low", className: "chat__relevance--low" };
 }
 
+function scoreBreakdown(source: ChatSource): string | undefined {
+  const scores = source.scores;
+  if (!scores) return undefined;
+  const parts: string[] = [];
+  if (scores.vector != null) parts.push(`Semantic ${Math.round(scores.vector * 100)}%`);
+  if (scores.keyword != null) parts.push(`Keyword ${Math.round(scores.keyword * 100)}%`);
+  if (scores.rerank != null) parts.push(`Reranked ${Math.round(scores.rerank * 100)}%`);
+  return parts.join(" · ");
+}
+
 function formatDate(dateStr: string): string {
   try {
     return new Date(dateStr).toLocaleDateString("en-US", {
@@ -66,8 +86,12 @@ export function ChatbotConnectorPage() {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [recentConversation, setRecentConversation] = useState<ChatConversationSummary | null>(null);
 
   // Refs
+  const streamAbortRef = useRef<AbortController | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -105,6 +129,10 @@ export function ChatbotConnectorPage() {
     }
   }, [accountDropdownOpen]);
 
+  // ─── Cancel an in-flight answer on unmount ────────────────────────────────
+
+  useEffect(() => () => streamAbortRef.current?.abort(), []);
+
   // ─── Auto-scroll to bottom on new messages ────────────────────────────────
 
   useEffect(() => {
@@ -127,10 +155,71 @@ export function ChatbotConnectorPage() {
     setAccountDropdownOpen(false);
     setAccountSearch("");
     // Reset conversation on account switch
+    streamAbortRef.current?.abort();
     setMessages([]);
     setInput("");
+    setConversationId(null);
+    setRecentConversation(null);
+    getChatConversations({ account_id: account.id, limit: 1 })
+      .then((res) => setRecentConversation(res.conversations[0] ?? null))
+      .catch(() => setRecentConversation(null));
+  }, []);
+
+  // ─── Resume a stored conversation ─────────────────────────────────────────
+
+  const resumeConversation = useCallback(async (id: string) => {
+    try {
+      const conversation = await getChatConversation(id);
+      setConversationId(conversation.id);
+      setMessages(
+        conversation.messages.map((m) => ({
+          id: nextMessageId(),
+          role: m.role,
+          content: m.content,
+          sources: m.role === "assistant" ? m.sources : undefined,
+          serverId: m.role === "assistant" ? m.id : undefined,
+          feedback: m.feedback,
+        }))
+      );
+    } catch {
+      setRecentConversation(null);
+    }
   }, []);
 
+  // ─── Answer feedback ──────────────────────────────────────────────────────
+
+  const sendFeedback = useCallback(
+    async (message: ChatMessage, patch: Partial<ChatMessageFeedback>) => {
+      if (!conversationId || !message.serverId) return;
+      const next: ChatMessageFeedback = {
+        rating: message.feedback?.rating ?? null,
+        wrong_citations: message.feedback?.wrong_citations ?? [],
+        notes: message.feedback?.notes ?? null,
+        ...patch,
+      };
+      try {
+        const saved = await submitChatFeedback(conversationId, message.serverId, next);
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.id === message.id
+              ? {
+                  ...m,
+                  feedback: {
+                    rating: saved.rating,
+                    wrong_citations: saved.wrong_citations,
+                    notes: saved.notes,
+                  },
+                }
+              : m
+          )
+        );
+      } catch {
+        // Feedback is best-effort; the answer itself is unaffected.
+      }
+    },
+    [conversationId]
+  );
+
   // ─── Send message ─────────────────────────────────────────────────────────
 
   const sendMessage = useCallback(
@@ -153,38 +242,78 @@ export function ChatbotConnectorPage() {
         textareaRef.current.style.height = "auto";
       }
 
+      const assistantId = nextMessageId();
+      const abort = new AbortController();
+      streamAbortRef.current = abort;
+
       try {
         const history = updatedMessages.map((m) => ({
           role: m.role,
           content: m.content,
         }));
 
-        const response = await sendChatMessage({
-          account_id: selectedAccount.id,
-          query: text.trim(),
-          history: history.slice(0, -1), // exclude the current message from history
-        });
-
+        let activeConversationId = conversationId;
+        if (!activeConversationId) {
+          const created = await createChatConversation({
+            account_id: selectedAccount.id,
+            title: text.trim(),
+          });
+          activeConversationId = created.id;
+          setConversationId(created.id);
+        }
+
+        const response = await streamChatMessage(
+          {
+            account_id: selectedAccount.id,
+            query: text.trim(),
+            history: history.slice(0, -1), // exclude the current message from history
+            conversation_id: activeConversationId,
+          },
+          {
+            onToken: (token) => {
+              setStreamingMessageId(assistantId);
+              setMessages((prev) =>
+                prev.some((m) => m.id === assistantId)
+                  ? prev.map((m) =>
+                      m.id === assistantId ? { ...m, content: m.content + token } : m
+                    )
+                  : [...prev, { id: assistantId, role: "assistant", content: token }]
+              );
+            },
+          },
+          { signal: abort.signal }
+        );
+
+        // The final answer may carry appended citations, so it replaces the streamed text.
         const assistantMessage: ChatMessage = {
-          id: nextMessageId(),
+          id: assistantId,
           role: "assistant",
           content: response.answer,
           sources: response.sources,
+          serverId: response.message_id,
         };
 
-        setMessages((prev) => [...prev, assistantMessage]);
+        setMessages((prev) => [
+          ...prev.filter((m) => m.id !== assistantId),
+          assistantMessage,
+        ]);
       } catch (err) {
+        if (abort.signal.aborted) return;
         const errorMessage: ChatMessage = {
           id: nextMessageId(),
           role: "assistant",
           content: `Sorry, something went wrong: ${err instanceof Error ? err.message : "Unknown error"}`,
         };
-        setMessages((prev) => [...prev, errorMessage]);
+        setMessages((prev) => [...prev.filter((m) => m.id !== assistantId), errorMessage]);
       } finally {
+        if (streamAbortRef.current === abort) {
+          streamAbortRef.current = null;
+        }
+        setStreamingMessageId(null);
         setLoading(false);
       }
     },
-    [selectedAccount, loading, messages]
+    [selectedAccount, loading, messages, conversationId]
   );
 
   // ─── Handle keyboard ─────────────────────────────────────────────────────
@@ -369,6 +498,16 @@ export function ChatbotConnectorPage() {
                 : "Choose an account from the dropdown above to begin chatting"}
             </p>
 
+            {selectedAccount && recentConversation && (
+              <button
+                type="button"
+                className="chat__resume-btn"
+                onClick={() => resumeConversation(recentConversation.id)}
+              >
+                Resume “{recentConversation.title ?? "last conversation"}”
+              </button>
+            )}
+
             {selectedAccount && (
               <div className="chat__suggestions">
                 {SUGGESTION_CHIPS.map((chip) => (
@@ -394,14 +533,39 @@ export function ChatbotConnectorPage() {
                 <div className={`chat__bubble chat__bubble--${msg.role}`}>
                   <div className="chat__bubble-content">{msg.content}</div>
                   {msg.sources && msg.sources.length > 0 && (
-                    <SourceCitations sources={msg.sources} />
+                    <SourceCitations
+                      sources={msg.sources}
+                      flagged={msg.feedback?.wrong_citations ?? []}
+                      onToggleFlag={
+                        msg.serverId
+                          ? (citation) => {
+                              const current = msg.feedback?.wrong_citations ?? [];
+                              sendFeedback(msg, {
+                                wrong_citations: current.includes(citation)
+                                  ? current.filter((c) => c !== citation)
+                                  : [...current, citation],
+                              });
+                            }
+                          : undefined
+                      }
+                    />
+                  )}
+                  {msg.serverId && (
+                    <AnswerFeedback
+                      rating={msg.feedback?.rating ?? null}
+                      onRate={(rating) =>
+                        sendFeedback(msg, {
+                          rating: msg.feedback?.rating === rating ? null : rating,
+                        })
+                      }
+                    />
                   )}
                 </div>
               </div>
             ))}
 
             {/* Typing indicator */}
-            {loading && (
+            {loading && !streamingMessageId && (
               <div className="chat__message chat__message--assistant" role="status" aria-live="polite">
                 <div className="chat__bubble chat__bubble--assistant">
                   <div className="chat__typing">
@@ -466,18 +630,73 @@ export function ChatbotConnectorPage() {
 
 // ─── Source Citations Sub-component ─────────────────────────────────────────
 
-function SourceCitations({ sources }: { sources: ChatSource[] }) {
+function SourceCitations({
+  sources,
+  flagged,
+  onToggleFlag,
+}: {
+  sources: ChatSource[];
+  flagged: number[];
+  onToggleFlag?: (citation: number) => void;
+}) {
   return (
     <div className="chat__sources">
       <div className="chat__sources-label">Sources</div>
       {sources.map((source, index) => (
-        <SourceCard key={`${source.call_id}-${index}`} source={source} index={index} />
+        <SourceCard
+          key={`${source.call_id}-${index}`}
+          source={source}
+          index={index}
+          flagged={flagged.includes(index + 1)}
+          onToggleFlag={onToggleFlag ? () => onToggleFlag(index + 1) : undefined}
+        />
       ))}
     </div>
   );
 }
 
-function SourceCard({ source, index }: { source: ChatSource; index: number }) {
+// ─── Answer Feedback Sub-component ──────────────────────────────────────────
+
+function AnswerFeedback({
+  rating,
+  onRate,
+}: {
+  rating: ChatFeedbackRating | null;
+  onRate: (rating: ChatFeedbackRating) => void;
+}) {
+  return (
+    <div className="chat__feedback" role="group" aria-label="Rate this answer">
+      <button
+        type="button"
+        className={`chat__feedback-btn ${rating === "UP" ? "chat__feedback-btn--active" : ""}`}
+        aria-pressed={rating === "UP"}
+        onClick={() => onRate("UP")}
+      >
+        👍 Helpful
+      </button>
+      <button
+        type="button"
+        className={`chat__feedback-btn ${rating === "DOWN" ? "chat__feedback-btn--active" : ""}`}
+        aria-pressed={rating === "DOWN"}
+        onClick={() => onRate("DOWN")}
+      >
+        👎 Not helpful
+      </button>
+    </div>
+  );
+}
+
+function SourceCard({
+  source,
+  index,
+  flagged,
+  onToggleFlag,
+}: {
+  source: ChatSource;
+  index: number;
+  flagged: boolean;
+  onToggleFlag?: () => void;
+}) {
   const [expanded, setExpanded] = useState(false);
   const { label, className } = relevanceLevel(source.relevance_score);
   const relevancePercent = Math.round(source.relevance_score * 100);
@@ -494,7 +713,7 @@ function SourceCard({ source, index }: { source: ChatSource; index: number }) {
           <span className="chat__source-title">{source.call_title}</span>
           <span className="chat__source-date">{formatDate(source.call_date)}</span>
         </div>
-        <span className={`chat__relevance ${className}`}>
+        <span className={`chat__relevance ${className}`} title={scoreBreakdown(source)}>
           {relevancePercent}% {label}
         </span>
         <svg
@@ -533,6 +752,16 @@ function SourceCard({ source, index }: { source: ChatSource; index: number }) {
             </div>
           )}
           <p className="chat__source-text">{source.text}</p>
+          {onToggleFlag && (
+            <button
+              type="button"
+              className={`chat__source-flag ${flagged ? "chat__source-flag--active" : ""}`}
+              aria-pressed={flagged}
+              onClick={onToggleFlag}
+            >
+              {flagged ? "Flagged as wrong citation" : "Wrong citation?"}
+            </button>
+          )}
         </div>
       )}
     </div>
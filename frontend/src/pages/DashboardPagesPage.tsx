@@ -17,12 +17,14 @@ import {
 import { PageStatsCards } from "./dashboard-pages/PageStatsCards";
 import { PageFilters } from "./dashboard-pages/PageFilters";
 import { PageTable, type SortField, type SortDir } from "./dashboard-pages/PageTable";
+import { PageAnalyticsPanel } from "./dashboard-pages/PageAnalyticsPanel";
 import { TableSkeleton } from "../components/PageSkeleton";
 
 // Re-export sub-components for backward compatibility
 export { PageStatsCards } from "./dashboard-pages/PageStatsCards";
 export { PageFilters } from "./dashboard-pages/PageFilters";
 export { PageTable } from "./dashboard-pages/PageTable";
+export { PageAnalyticsPanel } from "./dashboard-pages/PageAnalyticsPanel";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -89,6 +91,9 @@ export function DashboardPagesPage({ userRole }: { userRole?: string }) {
   // Action menu state
   const [openMenuId, setOpenMenuId] = useState<string | null>(null);
 
+  // Analytics panel state
+  const [analyticsPage, setAnalyticsPage] = useState<DashboardPageSummary | null>(null);
+
   // Inline error state (replaces native alert)
   const [actionError, setActionError] = useState<string | null>(null);
 
@@ -177,6 +182,10 @@ export function DashboardPagesPage({ userRole }: { userRole?: string }) {
           aVal = a.viewCount;
           bVal = b.viewCount;
           break;
+        case "uniqueVisitors":
+          aVal = a.engagement?.uniqueVisitors ?? -1;
+          bVal = b.engagement?.uniqueVisitors ?? -1;
+          break;
         case "createdById":
           aVal = (a.createdByName || a.createdByEmail).toLowerCase();
           bVal = (b.createdByName || b.createdByEmail).toLowerCase();
@@ -360,8 +369,18 @@ export function DashboardPagesPage({ userRole }: { userRole?: string }) {
         onSort={handleSort}
         onClearFilters={clearFilters}
         onAction={handleAction}
+        onShowAnalytics={setAnalyticsPage}
       />
 
+      {analyticsPage && (
+        <PageAnalyticsPanel
+          key={analyticsPage.id}
+          pageId={analyticsPage.id}
+          pageTitle={analyticsPage.title}
+          onClose={() => setAnalyticsPage(null)}
+        />
+      )}
+
       {/* Confirm Dialog */}
       {confirmAction && (
         <ConfirmDialog
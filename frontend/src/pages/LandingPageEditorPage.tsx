@@ -16,6 +16,8 @@ import {
 } from "../lib/api";
 import { EditorToolbar } from "./editor/EditorToolbar";
 import { PublishModal } from "./editor/PublishModal";
+import { StoryLintPanel } from "./editor/StoryLintPanel";
+import { ShareLinksPanel } from "./editor/ShareLinksPanel";
 import { VersionHistory, InlineConfirmDialog } from "./editor/VersionHistory";
 
 // Re-export sub-components for backward compatibility
@@ -232,6 +234,10 @@ export function LandingPageEditorPage() {
         />
       </div>
 
+      <StoryLintPanel pageId={pageId} body={body} onApplyFix={handleBodyChange} />
+
+      <ShareLinksPanel pageId={pageId} status={status} />
+
       <VersionHistory
         versions={versions}
         versionLoading={versionLoading}
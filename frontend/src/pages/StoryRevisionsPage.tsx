@@ -0,0 +1,280 @@
+/**
+ * StoryRevisionsPage — Review a regenerated story section by section and
+ * carry the accepted changes into landing-page drafts built from it.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { Breadcrumb } from "../components/Breadcrumb";
+import {
+  applyStoryPageMerge,
+  applyStoryRevision,
+  getStoryPageMerges,
+  getStoryRevisionReview,
+  getStoryRevisions,
+  rejectStoryRevision,
+  type LandingPageMergePreview,
+  type MergeConflictResolution,
+  type StoryRevisionDecision,
+  type StoryRevisionReview,
+  type StoryRevisionSummary,
+} from "../lib/api";
+import { PageMergeCard } from "./story-revisions/PageMergeCard";
+import { SectionDiffCard, defaultSectionDecision } from "./story-revisions/SectionDiffCard";
+
+const SOURCE_LABELS: Record<StoryRevisionSummary["source"], string> = {
+  GENERATED: "Original",
+  REGENERATED: "Regenerated",
+  MERGED: "Reviewed",
+};
+
+const STATUS_BADGES: Record<StoryRevisionSummary["status"], string> = {
+  PENDING: "badge--pending",
+  APPLIED: "badge--approved",
+  REJECTED: "badge--rejected",
+  SUPERSEDED: "badge--archived",
+};
+
+export function StoryRevisionsPage() {
+  const { storyId } = useParams<{ storyId: string }>();
+  const [revisions, setRevisions] = useState<StoryRevisionSummary[]>([]);
+  const [review, setReview] = useState<StoryRevisionReview | null>(null);
+  const [sectionDecisions, setSectionDecisions] = useState<Record<string, StoryRevisionDecision>>({});
+  const [quoteDecisions, setQuoteDecisions] = useState<Record<string, StoryRevisionDecision>>({});
+  const [pageMerges, setPageMerges] = useState<LandingPageMergePreview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [mergingPageId, setMergingPageId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!storyId) return;
+    setLoading(true);
+    try {
+      const [history, merges] = await Promise.all([
+        getStoryRevisions(storyId),
+        getStoryPageMerges(storyId),
+      ]);
+      setRevisions(history.revisions);
+      setPageMerges(merges.pages);
+
+      const pending = history.revisions.find((revision) => revision.status === "PENDING");
+      if (pending) {
+        const nextReview = await getStoryRevisionReview(storyId, pending.id);
+        setReview(nextReview);
+        setSectionDecisions(
+          Object.fromEntries(
+            nextReview.sections
+              .filter((section) => section.change !== "unchanged")
+              .map((section) => [section.key, defaultSectionDecision(section)]),
+          ),
+        );
+        setQuoteDecisions(Object.fromEntries(nextReview.quotes.added.map((quote) => [quote.key, "accept"])));
+      } else {
+        setReview(null);
+      }
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load story revisions");
+    } finally {
+      setLoading(false);
+    }
+  }, [storyId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleApply = async () => {
+    if (!storyId || !review) return;
+    setBusy(true);
+    setNotice(null);
+    try {
+      const result = await applyStoryRevision(storyId, review.revision.id, {
+        sections: sectionDecisions,
+        quotes: quoteDecisions,
+      });
+      setNotice(
+        result.status === "APPLIED"
+          ? `Story updated${result.quotes_added > 0 ? ` with ${result.quotes_added} new quote${result.quotes_added === 1 ? "" : "s"}` : ""}.`
+          : "Nothing was accepted, so the revision was rejected.",
+      );
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to apply revision");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!storyId || !review) return;
+    setBusy(true);
+    setNotice(null);
+    try {
+      await rejectStoryRevision(storyId, review.revision.id);
+      setNotice("Revision rejected. The story is unchanged.");
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reject revision");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePageMerge = async (preview: LandingPageMergePreview, resolutions: MergeConflictResolution[]) => {
+    if (!storyId) return;
+    setMergingPageId(preview.page_id);
+    setNotice(null);
+    try {
+      await applyStoryPageMerge(storyId, preview.page_id, {
+        expected_updated_at: preview.updated_at,
+        resolutions,
+      });
+      setNotice(`Merged the story into "${preview.title}".`);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to merge into the draft");
+    } finally {
+      setMergingPageId(null);
+    }
+  };
+
+  if (!storyId) {
+    return <div className="state-view state-view--error">No story ID provided.</div>;
+  }
+
+  const changedSections = review?.sections.filter((section) => section.change !== "unchanged") ?? [];
+
+  return (
+    <div className="page">
+      <Breadcrumb items={[{ label: "Story Library", to: "/stories" }, { label: "Revisions" }]} />
+      <header className="page__header">
+        <div className="page__header-text">
+          <h1 className="page__title">Story Revisions</h1>
+          <p className="page__subtitle">
+            Accept or reject regenerated sections and quotes, then carry the changes into landing-page drafts.
+          </p>
+        </div>
+      </header>
+
+      {error && <div className="alert alert--error" role="alert">{error}</div>}
+      {notice && <div className="alert alert--success" role="status">{notice}</div>}
+
+      {loading && (
+        <div className="state-view" role="status" aria-live="polite">
+          <div className="state-view__title">Loading revisions...</div>
+        </div>
+      )}
+
+      {!loading && (
+        <>
+          <section className="story-revisions__group">
+            <h2 className="story-revisions__group-title">Pending Update</h2>
+            {!review ? (
+              <p className="story-revisions__meta">No regenerated version is waiting for review.</p>
+            ) : (
+              <>
+                <p className="story-revisions__meta">
+                  Revision {review.revision.revision_number}, regenerated{" "}
+                  {new Date(review.revision.created_at).toLocaleDateString()}. Unchanged sections are hidden.
+                </p>
+
+                {changedSections.length === 0 && (
+                  <p className="story-revisions__meta">The story text is unchanged; only quotes differ.</p>
+                )}
+                {changedSections.map((section) => (
+                  <SectionDiffCard
+                    key={section.key}
+                    section={section}
+                    decision={sectionDecisions[section.key] ?? "reject"}
+                    disabled={busy}
+                    onDecide={(decision) =>
+                      setSectionDecisions((prev) => ({ ...prev, [section.key]: decision }))
+                    }
+                  />
+                ))}
+
+                {review.quotes.added.length > 0 && (
+                  <div className="story-revisions__quotes">
+                    <h3 className="story-revisions__section-title">New Quotes</h3>
+                    {review.quotes.added.map((quote) => (
+                      <label key={quote.key} className="story-revisions__quote">
+                        <input
+                          type="checkbox"
+                          checked={quoteDecisions[quote.key] === "accept"}
+                          onChange={(event) =>
+                            setQuoteDecisions((prev) => ({
+                              ...prev,
+                              [quote.key]: event.target.checked ? "accept" : "reject",
+                            }))
+                          }
+                          disabled={busy}
+                        />
+                        <span>
+                          &ldquo;{quote.quoteText}&rdquo;
+                          {quote.speaker && <span className="story-revisions__meta"> — {quote.speaker}</span>}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+                {review.quotes.removed.length > 0 && (
+                  <p className="story-revisions__meta">
+                    {review.quotes.removed.length} existing quote{review.quotes.removed.length === 1 ? " was" : "s were"} not
+                    found again. Existing quotes are kept; remove them from the quote library if they no longer apply.
+                  </p>
+                )}
+
+                <div className="story-revisions__actions">
+                  <button type="button" className="btn btn--ghost" onClick={() => void handleReject()} disabled={busy}>
+                    Reject All
+                  </button>
+                  <button type="button" className="btn btn--primary" onClick={() => void handleApply()} disabled={busy}>
+                    {busy ? "Applying..." : "Apply Decisions"}
+                  </button>
+                </div>
+              </>
+            )}
+          </section>
+
+          <section className="story-revisions__group">
+            <h2 className="story-revisions__group-title">Landing-Page Drafts</h2>
+            {pageMerges.length === 0 ? (
+              <p className="story-revisions__meta">Every draft built from this story is up to date.</p>
+            ) : (
+              pageMerges.map((preview) => (
+                <PageMergeCard
+                  key={`${preview.page_id}-${preview.updated_at}`}
+                  preview={preview}
+                  busy={mergingPageId === preview.page_id}
+                  onApply={(resolutions) => void handlePageMerge(preview, resolutions)}
+                />
+              ))
+            )}
+          </section>
+
+          <section className="story-revisions__group">
+            <h2 className="story-revisions__group-title">History</h2>
+            {revisions.length === 0 ? (
+              <p className="story-revisions__meta">This story has not been regenerated yet.</p>
+            ) : (
+              <ul className="story-revisions__history">
+                {revisions.map((revision) => (
+                  <li key={revision.id}>
+                    <strong>#{revision.revision_number}</strong> {SOURCE_LABELS[revision.source]}
+                    <span className={`badge ${STATUS_BADGES[revision.status]}`}>{revision.status.toLowerCase()}</span>
+                    <span className="story-revisions__meta">
+                      {new Date(revision.reviewed_at ?? revision.created_at).toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
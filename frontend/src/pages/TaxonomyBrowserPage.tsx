@@ -2,6 +2,7 @@ import { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { getStoryLibraryTaxonomy, type StoryLibraryTaxonomyCounts } from "../lib/api";
 import { FUNNEL_STAGE_LABELS, STAGE_TOPICS, TOPIC_LABELS, type FunnelStage } from "../types/taxonomy";
+import { TagReviewQueue } from "./taxonomy/TagReviewQueue";
 
 const EMPTY_COUNTS: StoryLibraryTaxonomyCounts = {
   funnel_stage_counts: {},
@@ -41,6 +42,14 @@ export function TaxonomyBrowserPage() {
     []
   );
 
+  const topicLabels = useMemo<Record<string, string>>(
+    () => ({
+      ...TOPIC_LABELS,
+      ...Object.fromEntries((counts.custom_topics ?? []).map((topic) => [topic.key, topic.label])),
+    }),
+    [counts.custom_topics]
+  );
+
   return (
     <div className="page">
       <header className="page__header">
@@ -67,7 +76,15 @@ export function TaxonomyBrowserPage() {
       {!loading && !error && (
         <div className="card card--elevated" style={{ display: "grid", gap: 16 }}>
           {stages.map((stage) => {
-            const topics = STAGE_TOPICS[stage] ?? [];
+            const topics: Array<{ key: string; label: string }> = [
+              ...(STAGE_TOPICS[stage] ?? []).map((topic) => ({
+                key: topic,
+                label: TOPIC_LABELS[topic] ?? topic,
+              })),
+              ...(counts.custom_topics ?? [])
+                .filter((topic) => topic.funnel_stage === stage)
+                .map((topic) => ({ key: topic.key, label: topic.label })),
+            ];
             const stageCount = counts.funnel_stage_counts[stage] ?? 0;
             return (
               <section key={stage} style={{ borderBottom: "1px solid var(--color-border)", paddingBottom: 12 }}>
@@ -76,7 +93,7 @@ export function TaxonomyBrowserPage() {
                   <span className="badge badge--info">{stageCount} stories</span>
                 </div>
                 <div style={{ marginTop: 10, display: "grid", gap: 8 }}>
-                  {topics.map((topic) => {
+                  {topics.map(({ key: topic, label }) => {
                     const topicCount = counts.topic_counts[topic] ?? 0;
                     return (
                       <button
@@ -86,7 +103,7 @@ export function TaxonomyBrowserPage() {
                         style={{ justifyContent: "space-between", display: "flex" }}
                         onClick={() => navigate(`/stories?funnel_stage=${encodeURIComponent(stage)}&topic=${encodeURIComponent(topic)}`)}
                       >
-                        <span>{TOPIC_LABELS[topic] ?? topic}</span>
+                        <span>{label}</span>
                         <span>{topicCount}</span>
                       </button>
                     );
@@ -97,6 +114,8 @@ export function TaxonomyBrowserPage() {
           })}
         </div>
       )}
+
+      {!loading && !error && <TagReviewQueue topicLabels={topicLabels} />}
     </div>
   );
 }
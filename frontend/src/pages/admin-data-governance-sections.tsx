@@ -80,6 +80,22 @@ export function PolicySection({
         />
       </label>
 
+      <label className="form-group">
+        Landing page visit retention (days)
+        <input
+          type="number"
+          min={7}
+          max={730}
+          value={policy.page_analytics_retention_days ?? 90}
+          onChange={(e) =>
+            setPolicy((current) => ({
+              ...current,
+              page_analytics_retention_days: Number(e.target.value) || 90,
+            }))
+          }
+        />
+      </label>
+
       <label className="form-group">
         RTO target (minutes)
         <input
@@ -112,6 +128,25 @@ export function PolicySection({
         />
       </label>
 
+      <label className="form-group">
+        Story lint at publish
+        <select
+          value={policy.story_lint_publish_mode ?? "WARN"}
+          onChange={(e) =>
+            setPolicy((current) => ({
+              ...current,
+              story_lint_publish_mode: e.target.value as DataGovernanceSettings["story_lint_publish_mode"],
+            }))
+          }
+        >
+          <option value="WARN">Show findings in the editor only</option>
+          <option value="BLOCK_ERRORS">Block publish on banned claims</option>
+          <option value="BLOCK_WARNINGS">
+            Block publish on banned claims, terminology and competitor mentions
+          </option>
+        </select>
+      </label>
+
       <label className="form-row">
         <input
           type="checkbox"
@@ -162,6 +197,35 @@ export function PolicySection({
         Require approval before deletion
       </label>
 
+      <label className="form-row">
+        <input
+          type="checkbox"
+          checked={policy.page_analytics_enabled ?? true}
+          onChange={(e) =>
+            setPolicy((current) => ({
+              ...current,
+              page_analytics_enabled: e.target.checked,
+            }))
+          }
+        />
+        Track landing page engagement (honors Do Not Track)
+      </label>
+
+      <label className="form-row">
+        <input
+          type="checkbox"
+          checked={policy.page_analytics_cookies_enabled ?? false}
+          disabled={policy.page_analytics_enabled === false}
+          onChange={(e) =>
+            setPolicy((current) => ({
+              ...current,
+              page_analytics_cookies_enabled: e.target.checked,
+            }))
+          }
+        />
+        Use a first-party cookie to count returning visitors
+      </label>
+
       <button className="btn btn--primary" onClick={() => void savePolicy()} disabled={saving}>
         {saving ? "Saving..." : "Save Policy"}
       </button>
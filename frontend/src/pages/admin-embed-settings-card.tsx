@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { getEmbedSettings, updateEmbedSettings, type EmbedSettings } from "../lib/api";
+import { useToast } from "../components/Toast";
+
+function splitLines(input: string): string[] {
+  return input
+    .split(/[\n,]/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function widgetSnippet(widgetUrl: string, embedUrl: string): string {
+  return `<div data-storyengine-embed="${embedUrl}"></div>\n<script async src="${widgetUrl}"></script>`;
+}
+
+export function EmbedSettingsCard() {
+  const [settings, setSettings] = useState<EmbedSettings | null>(null);
+  const [originsText, setOriginsText] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    getEmbedSettings()
+      .then((data) => {
+        setSettings(data);
+        setOriginsText(data.allowed_origins.join("\n"));
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Failed to load embed settings");
+      });
+  }, []);
+
+  const save = async (rotateKey = false) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const data = await updateEmbedSettings({
+        allowed_origins: splitLines(originsText),
+        rotate_key: rotateKey || undefined,
+      });
+      setSettings(data);
+      setOriginsText(data.allowed_origins.join("\n"));
+      showToast(rotateKey ? "Embed key rotated" : "Embed settings saved", "success");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save embed settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card card--elevated form-container--wide">
+      <div className="card__header">
+        <div className="card__title">Story Embeds</div>
+      </div>
+      {error && <div className="alert alert--error" role="alert">{error}</div>}
+      <div className="form-group">
+        <label className="form-group__label" htmlFor="embed-allowed-origins">Allowed Origins</label>
+        <textarea
+          id="embed-allowed-origins"
+          className="form-textarea"
+          rows={3}
+          value={originsText}
+          onChange={(e) => setOriginsText(e.target.value)}
+          placeholder="https://www.example.com"
+        />
+        <div className="form-group__hint">
+          One origin per line. Only these sites can show story and quote widgets; with none listed, embeds are blocked.
+          Widgets use the published surface branding above.
+        </div>
+      </div>
+
+      {settings && (
+        <>
+          <div className="form-group">
+            <label className="form-group__label">Page Widget Snippet</label>
+            <code style={{ display: "block", whiteSpace: "pre-wrap", fontSize: 12 }}>
+              {widgetSnippet(settings.widget_url, settings.page_embed_url_template)}
+            </code>
+            <div className="form-group__hint">
+              Replace {"{slug}"} with a published page's slug. Pages with a password, private pages and archived or expired
+              pages are never embedded. oEmbed consumers can use {settings.oembed_url}.
+            </div>
+          </div>
+          <div className="form-group">
+            <label className="form-group__label">Curated Quotes Widget Snippet</label>
+            {settings.quote_embed_url ? (
+              <code style={{ display: "block", whiteSpace: "pre-wrap", fontSize: 12 }}>
+                {widgetSnippet(settings.widget_url, settings.quote_embed_url)}
+              </code>
+            ) : (
+              <div className="form-group__hint">Save these settings to create the quote widget key.</div>
+            )}
+          </div>
+        </>
+      )}
+
+      <div style={{ display: "flex", justifyContent: "flex-end", gap: 8 }}>
+        {settings?.embed_key && (
+          <button className="btn btn--secondary" onClick={() => void save(true)} disabled={saving}>
+            Rotate Quote Key
+          </button>
+        )}
+        <button className="btn btn--primary" onClick={() => void save()} disabled={saving || !settings}>
+          {saving ? "Saving..." : "Save Embed Settings"}
+        </button>
+      </div>
+    </div>
+  );
+}
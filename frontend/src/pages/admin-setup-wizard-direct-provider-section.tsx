@@ -0,0 +1,212 @@
+import { useState } from "react";
+import type { SetupDirectRecordingProviderBody } from "../lib/api";
+
+type DirectProvider = SetupDirectRecordingProviderBody["provider"];
+
+interface CredentialField {
+  key: string;
+  label: string;
+  secret?: boolean;
+}
+
+const PROVIDERS: Array<{
+  value: DirectProvider;
+  label: string;
+  fields: CredentialField[];
+  webhookHint: string;
+}> = [
+  {
+    value: "ZOOM",
+    label: "Zoom",
+    fields: [
+      { key: "accountId", label: "Account ID" },
+      { key: "clientId", label: "Client ID" },
+      { key: "clientSecret", label: "Client Secret", secret: true },
+    ],
+    webhookHint: "Secret Token from your Server-to-Server OAuth app's event subscription.",
+  },
+  {
+    value: "TEAMS",
+    label: "Microsoft Teams",
+    fields: [
+      { key: "tenantId", label: "Tenant ID" },
+      { key: "clientId", label: "Application (client) ID" },
+      { key: "clientSecret", label: "Client Secret", secret: true },
+    ],
+    webhookHint: "The clientState used when creating the Graph transcript subscription.",
+  },
+  {
+    value: "FIREFLIES",
+    label: "Fireflies",
+    fields: [{ key: "apiKey", label: "API Key", secret: true }],
+    webhookHint: "Webhook secret from Fireflies developer settings.",
+  },
+];
+
+interface AdminSetupWizardDirectProviderSectionProps {
+  connecting: boolean;
+  onConnect: (body: SetupDirectRecordingProviderBody) => Promise<string | null>;
+}
+
+export function AdminSetupWizardDirectProviderSection({
+  connecting,
+  onConnect,
+}: AdminSetupWizardDirectProviderSectionProps) {
+  const [provider, setProvider] = useState<DirectProvider>("ZOOM");
+  const [credentials, setCredentials] = useState<Record<string, string>>({});
+  const [webhookSecret, setWebhookSecret] = useState("");
+  const [organizerIds, setOrganizerIds] = useState("");
+  const [webhookPath, setWebhookPath] = useState<string | null>(null);
+
+  const definition = PROVIDERS.find((entry) => entry.value === provider) ?? PROVIDERS[0];
+  const ready = definition.fields.every((field) => (credentials[field.key] ?? "").trim());
+
+  const selectProvider = (value: DirectProvider) => {
+    setProvider(value);
+    setCredentials({});
+    setWebhookPath(null);
+  };
+
+  const submit = async () => {
+    const trimmed = Object.fromEntries(
+      definition.fields.map((field) => [field.key, (credentials[field.key] ?? "").trim()])
+    );
+    const secret = webhookSecret.trim() || undefined;
+    let body: SetupDirectRecordingProviderBody;
+    if (provider === "ZOOM") {
+      body = {
+        provider,
+        credentials: {
+          accountId: trimmed.accountId,
+          clientId: trimmed.clientId,
+          clientSecret: trimmed.clientSecret,
+        },
+        webhook_secret: secret,
+      };
+    } else if (provider === "TEAMS") {
+      const organizers = organizerIds
+        .split(/[\s,]+/)
+        .map((value) => value.trim())
+        .filter(Boolean);
+      body = {
+        provider,
+        credentials: {
+          tenantId: trimmed.tenantId,
+          clientId: trimmed.clientId,
+          clientSecret: trimmed.clientSecret,
+        },
+        webhook_secret: secret,
+        organizer_user_ids: organizers.length > 0 ? organizers : undefined,
+      };
+    } else {
+      body = { provider, credentials: { apiKey: trimmed.apiKey }, webhook_secret: secret };
+    }
+    const path = await onConnect(body);
+    if (path) {
+      setWebhookPath(path);
+      setCredentials({});
+    }
+  };
+
+  return (
+    <div className="card card--elevated">
+      <div className="card__header">
+        <div>
+          <div className="card__title">Direct Recording Provider</div>
+          <div className="card__subtitle">
+            Connect Zoom, Microsoft Teams or Fireflies without Merge.dev.
+          </div>
+        </div>
+      </div>
+
+      <div style={{ display: "grid", gap: 12 }}>
+        <div className="form-group">
+          <label className="form-group__label" htmlFor="setup-direct-provider">
+            Provider
+          </label>
+          <select
+            id="setup-direct-provider"
+            className="form-input"
+            value={provider}
+            onChange={(event) => selectProvider(event.target.value as DirectProvider)}
+          >
+            {PROVIDERS.map((entry) => (
+              <option key={entry.value} value={entry.value}>
+                {entry.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {definition.fields.map((field) => (
+          <div className="form-group" key={`${provider}-${field.key}`}>
+            <label className="form-group__label" htmlFor={`setup-direct-${field.key}`}>
+              {field.label}
+            </label>
+            <input
+              id={`setup-direct-${field.key}`}
+              className="form-input"
+              type={field.secret ? "password" : "text"}
+              value={credentials[field.key] ?? ""}
+              onChange={(event) =>
+                setCredentials((prev) => ({ ...prev, [field.key]: event.target.value }))
+              }
+              autoComplete="off"
+            />
+          </div>
+        ))}
+
+        {provider === "TEAMS" && (
+          <div className="form-group">
+            <label className="form-group__label" htmlFor="setup-direct-organizers">
+              Organizer user IDs (optional)
+            </label>
+            <textarea
+              id="setup-direct-organizers"
+              className="form-input"
+              rows={2}
+              value={organizerIds}
+              onChange={(event) => setOrganizerIds(event.target.value)}
+            />
+            <span className="form-group__hint">
+              Entra object IDs whose meetings are polled. Leave empty to rely on change
+              notifications only.
+            </span>
+          </div>
+        )}
+
+        <div className="form-group">
+          <label className="form-group__label" htmlFor="setup-direct-webhook-secret">
+            Webhook secret
+          </label>
+          <input
+            id="setup-direct-webhook-secret"
+            className="form-input"
+            type="password"
+            value={webhookSecret}
+            onChange={(event) => setWebhookSecret(event.target.value)}
+            autoComplete="off"
+          />
+          <span className="form-group__hint">{definition.webhookHint}</span>
+        </div>
+
+        <button
+          className="btn btn--primary"
+          type="button"
+          style={{ width: "fit-content" }}
+          onClick={() => void submit()}
+          disabled={connecting || !ready}
+        >
+          {connecting ? "Connecting..." : `Connect ${definition.label}`}
+        </button>
+
+        {webhookPath && (
+          <div style={{ fontSize: 13, color: "var(--color-text-secondary)" }}>
+            Connected. Point {definition.label} webhooks at{" "}
+            <code>{`${window.location.origin}${webhookPath}`}</code>.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+/**
+ * PageAnalyticsPanel — Per-page engagement report: summary figures, daily
+ * views, top referrers, UTM campaigns and CTA clicks.
+ */
+
+import { useEffect, useState } from "react";
+import { getPageAnalytics, type PageAnalyticsReport } from "../../lib/api";
+import { formatDuration } from "../../lib/format";
+
+const WINDOW_OPTIONS = [7, 30, 90];
+
+export interface PageAnalyticsPanelProps {
+  pageId: string;
+  pageTitle: string;
+  onClose: () => void;
+}
+
+function topEntries(counts: Record<string, number>, limit = 5): Array<[string, number]> {
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit);
+}
+
+function BreakdownList({ title, counts, empty }: { title: string; counts: Record<string, number>; empty: string }) {
+  const entries = topEntries(counts);
+  return (
+    <div className="dash-pages__analytics-breakdown">
+      <h4>{title}</h4>
+      {entries.length === 0 ? (
+        <p className="dash-pages__analytics-empty">{empty}</p>
+      ) : (
+        <ul>
+          {entries.map(([label, count]) => (
+            <li key={label}>
+              <span>{label}</span>
+              <span>{count.toLocaleString()}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function PageAnalyticsPanel({ pageId, pageTitle, onClose }: PageAnalyticsPanelProps) {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<PageAnalyticsReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getPageAnalytics(pageId, { days })
+      .then((data) => {
+        if (!cancelled) setReport(data);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load analytics");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pageId, days]);
+
+  const peakViews = report ? Math.max(1, ...report.days.map((d) => d.views)) : 1;
+  const summary = report?.summary;
+
+  return (
+    <section className="dash-pages__analytics" aria-label={`Analytics for ${pageTitle}`}>
+      <div className="dash-pages__analytics-header">
+        <h3>{pageTitle}</h3>
+        <div className="dash-pages__analytics-controls">
+          <select
+            className="dash-pages__select"
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            aria-label="Reporting window"
+          >
+            {WINDOW_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                Last {option} days
+              </option>
+            ))}
+          </select>
+          <button type="button" className="btn btn--ghost btn--sm" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+
+      {loading && !report && <p className="dash-pages__analytics-empty">Loading analytics...</p>}
+      {error && (
+        <div className="dash-pages__action-error" role="alert">
+          <span>{error}</span>
+        </div>
+      )}
+
+      {report && summary && (
+        <>
+          <dl className="dash-pages__engagement-grid">
+            <div>
+              <dt>Views</dt>
+              <dd>{summary.views.toLocaleString()}</dd>
+            </div>
+            <div>
+              <dt>Unique Visitors</dt>
+              <dd>{summary.uniqueVisitors.toLocaleString()}</dd>
+            </div>
+            <div>
+              <dt>Avg. Time on Page</dt>
+              <dd>{formatDuration(summary.avgTimeOnPageSeconds)}</dd>
+            </div>
+            <div>
+              <dt>Avg. Scroll Depth</dt>
+              <dd>{summary.avgScrollDepth}%</dd>
+            </div>
+            <div>
+              <dt>Engaged Views</dt>
+              <dd>{summary.engagedViews.toLocaleString()}</dd>
+            </div>
+            <div>
+              <dt>CTA Clicks</dt>
+              <dd>{summary.ctaClicks.toLocaleString()}</dd>
+            </div>
+          </dl>
+
+          {report.days.length === 0 ? (
+            <p className="dash-pages__analytics-empty">
+              No tracked views in this window. Lifetime views: {report.totalViews.toLocaleString()}.
+            </p>
+          ) : (
+            <div className="dash-pages__analytics-chart" role="img" aria-label="Daily views">
+              {report.days.map((day) => (
+                <div
+                  key={day.day}
+                  className="dash-pages__analytics-bar"
+                  style={{ height: `${Math.max(4, (day.views / peakViews) * 100)}%` }}
+                  title={`${day.day}: ${day.views} views, ${day.uniqueVisitors} visitors`}
+                />
+              ))}
+            </div>
+          )}
+
+          <div className="dash-pages__analytics-breakdowns">
+            <BreakdownList title="Top Referrers" counts={report.referrers} empty="No referrer data yet." />
+            <BreakdownList title="Campaigns" counts={report.utmCampaigns} empty="No UTM-tagged visits yet." />
+            <BreakdownList title="CTA Clicks" counts={report.ctaBreakdown} empty="No CTA clicks yet." />
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
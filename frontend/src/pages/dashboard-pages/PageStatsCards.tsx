@@ -1,9 +1,11 @@
 /**
  * PageStatsCards — Four stat cards for the Dashboard Pages page:
- * Total Pages, Published, Drafts, Total Views.
+ * Total Pages, Published, Drafts, Total Views — plus a reader engagement
+ * strip (unique visitors, time on page, engaged views, CTA clicks).
  */
 
 import type { DashboardStats } from "../../lib/api";
+import { formatDuration } from "../../lib/format";
 
 export interface PageStatsCardsProps {
   stats: DashboardStats;
@@ -15,8 +17,47 @@ function formatNumber(n: number): string {
   return n.toString();
 }
 
+function EngagementStrip({ stats }: PageStatsCardsProps) {
+  const engagement = stats.engagement;
+  if (!engagement) return null;
+  const engagedShare =
+    engagement.views > 0 ? Math.round((engagement.engagedViews / engagement.views) * 100) : 0;
+
+  return (
+    <section className="dash-pages__engagement" aria-label="Reader engagement">
+      <div className="dash-pages__engagement-header">
+        <span>Reader engagement, last {stats.engagementWindowDays ?? 30} days</span>
+        {stats.analyticsEnabled === false && (
+          <span className="dash-pages__engagement-note">
+            Page analytics is turned off in Data Governance
+          </span>
+        )}
+      </div>
+      <dl className="dash-pages__engagement-grid">
+        <div>
+          <dt>Unique Visitors</dt>
+          <dd>{formatNumber(engagement.uniqueVisitors)}</dd>
+        </div>
+        <div>
+          <dt>Avg. Time on Page</dt>
+          <dd>{formatDuration(engagement.avgTimeOnPageSeconds)}</dd>
+        </div>
+        <div>
+          <dt>Engaged Views</dt>
+          <dd>{engagedShare}%</dd>
+        </div>
+        <div>
+          <dt>CTA Clicks</dt>
+          <dd>{formatNumber(engagement.ctaClicks)}</dd>
+        </div>
+      </dl>
+    </section>
+  );
+}
+
 export function PageStatsCards({ stats }: PageStatsCardsProps) {
   return (
+    <>
     <div className="dash-pages__stats">
       <div className="dash-pages__stat-card dash-pages__stat-card--total">
         <div className="dash-pages__stat-icon">
@@ -99,5 +140,7 @@ export function PageStatsCards({ stats }: PageStatsCardsProps) {
         </div>
       </div>
     </div>
+    <EngagementStrip stats={stats} />
+    </>
   );
 }
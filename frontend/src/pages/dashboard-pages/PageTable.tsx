@@ -1,6 +1,6 @@
 /**
  * PageTable — Sortable table of landing pages with row actions
- * (edit, view, unpublish, archive, delete) and inline action menus.
+ * (edit, view, analytics, unpublish, archive, delete) and inline action menus.
  */
 
 import { useRef } from "react";
@@ -15,6 +15,7 @@ export type SortField =
   | "status"
   | "visibility"
   | "viewCount"
+  | "uniqueVisitors"
   | "createdById"
   | "publishedAt"
   | "updatedAt";
@@ -32,6 +33,7 @@ export interface PageTableProps {
   onSort: (field: SortField) => void;
   onClearFilters: () => void;
   onAction: (action: "unpublish" | "archive" | "delete", page: DashboardPageSummary) => void;
+  onShowAnalytics: (page: DashboardPageSummary) => void;
 }
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
@@ -88,6 +90,7 @@ export function PageTable({
   onSort,
   onClearFilters,
   onAction,
+  onShowAnalytics,
 }: PageTableProps) {
   const navigate = useNavigate();
   const menuRef = useRef<HTMLDivElement | null>(null);
@@ -157,6 +160,16 @@ export function PageTable({
                 Views {renderSortArrow("viewCount")}
               </button>
             </th>
+            <th>
+              <button
+                type="button"
+                className="dash-pages__sort-btn"
+                onClick={() => onSort("uniqueVisitors")}
+                title="Unique visitors over the last 30 days"
+              >
+                Visitors (30d) {renderSortArrow("uniqueVisitors")}
+              </button>
+            </th>
             <th>
               {isAdmin ? (
                 <button
@@ -185,7 +198,7 @@ export function PageTable({
         <tbody>
           {filteredPages.length === 0 ? (
             <tr>
-              <td colSpan={8} className="dash-pages__empty-state">
+              <td colSpan={9} className="dash-pages__empty-state">
                 <div className="dash-pages__empty-content">
                   <svg width="36" height="36" viewBox="0 0 24 24" fill="none" stroke="var(--color-border)" strokeWidth="1.5" aria-hidden="true">
                     <circle cx="11" cy="11" r="8" /><line x1="21" y1="21" x2="16.65" y2="16.65" />
@@ -220,6 +233,9 @@ export function PageTable({
                 <td>{renderStatusBadge(page.lifecycleStage)}</td>
                 <td>{renderVisibilityBadge(page.visibility)}</td>
                 <td>{formatNumber(page.viewCount)}</td>
+                <td>
+                  {page.engagement ? formatNumber(page.engagement.uniqueVisitors) : "\u2014"}
+                </td>
                 <td>{page.createdByName || page.createdByEmail}</td>
                 <td>
                   {page.publishedAt ? formatDate(page.publishedAt) : "\u2014"}
@@ -285,6 +301,18 @@ export function PageTable({
                                 View public page
                               </a>
                             )}
+                          {page.status === "PUBLISHED" && (
+                            <button
+                              type="button"
+                              className="dash-pages__dropdown-item"
+                              onClick={() => {
+                                setOpenMenuId(null);
+                                onShowAnalytics(page);
+                              }}
+                            >
+                              Analytics
+                            </button>
+                          )}
                           {page.status === "PUBLISHED" && (
                             <button
                               type="button"
@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+import {
+  createPageShareLink,
+  getPageShareLinks,
+  updatePageShareLink,
+  type CreatePageShareLinkRequest,
+  type PageShareLink,
+} from "../../lib/api";
+import { formatDuration, formatRelativeTime } from "../../lib/format";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function recipientLabel(link: PageShareLink): string {
+  return link.recipient_name ? `${link.recipient_name} <${link.recipient_email}>` : link.recipient_email;
+}
+
+function crmLabel(link: PageShareLink): string | null {
+  if (!link.contact) return null;
+  if (link.contact.salesforce_id) return "Salesforce contact";
+  if (link.contact.hubspot_id) return "HubSpot contact";
+  return "CRM contact";
+}
+
+function openSummary(link: PageShareLink): string {
+  if (link.open_count === 0 || !link.first_opened_at) return "Not opened yet";
+  const opens = `${link.open_count} open${link.open_count === 1 ? "" : "s"}`;
+  const first = `first ${formatRelativeTime(link.first_opened_at)}`;
+  const time = link.total_time_on_page_seconds > 0
+    ? `, ${formatDuration(link.total_time_on_page_seconds)} reading`
+    : "";
+  return `${opens}, ${first}${time}`;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export interface ShareLinksPanelProps {
+  pageId: string;
+  status: string;
+}
+
+export function ShareLinksPanel({ pageId, status }: ShareLinksPanelProps) {
+  const [links, setLinks] = useState<PageShareLink[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [password, setPassword] = useState("");
+
+  const loadLinks = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await getPageShareLinks(pageId);
+      setLinks(res.share_links);
+    } catch {
+      setError("Failed to load share links.");
+    } finally {
+      setLoading(false);
+    }
+  }, [pageId]);
+
+  useEffect(() => {
+    void loadLinks();
+  }, [loadLinks]);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+    const body: CreatePageShareLinkRequest = { recipient_email: email.trim() };
+    if (name.trim()) body.recipient_name = name.trim();
+    if (expiresAt) body.expires_at = new Date(expiresAt).toISOString();
+    if (password) body.password = password;
+    try {
+      const res = await createPageShareLink(pageId, body);
+      setLinks((current) => [res.share_link, ...current]);
+      setEmail("");
+      setName("");
+      setExpiresAt("");
+      setPassword("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create share link.");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: PageShareLink, revoked: boolean) => {
+    setError(null);
+    try {
+      const res = await updatePageShareLink(pageId, link.id, { revoked });
+      setLinks((current) => current.map((row) => (row.id === link.id ? res.share_link : row)));
+    } catch {
+      setError(revoked ? "Failed to revoke the link." : "Failed to restore the link.");
+    }
+  };
+
+  const handleCopy = async (link: PageShareLink) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${link.path}`);
+      setCopiedId(link.id);
+    } catch {
+      setError("Copy failed. Select the link and copy it manually.");
+    }
+  };
+
+  return (
+    <div className="page-editor__share-links">
+      <div className="page-editor__versions-header">
+        <h3>Recipient Links</h3>
+        <button
+          type="button"
+          className="page-editor__btn page-editor__btn--secondary"
+          onClick={() => void loadLinks()}
+          disabled={loading}
+        >
+          {loading ? "Refreshing..." : "Refresh"}
+        </button>
+      </div>
+
+      {status !== "PUBLISHED" && (
+        <div className="page-editor__version-meta">
+          Links can be created now but only open once the page is published.
+        </div>
+      )}
+
+      <form className="page-editor__publish-settings page-editor__share-form" onSubmit={(e) => void handleCreate(e)}>
+        <div className="page-editor__field">
+          <label className="page-editor__field-label" htmlFor="share-email">Recipient Email</label>
+          <input id="share-email" type="email" className="page-editor__text-input" value={email} onChange={(e) => setEmail(e.target.value)} required maxLength={320} />
+        </div>
+        <div className="page-editor__field">
+          <label className="page-editor__field-label" htmlFor="share-name">Recipient Name</label>
+          <input id="share-name" type="text" className="page-editor__text-input" value={name} onChange={(e) => setName(e.target.value)} maxLength={200} placeholder="Optional" />
+        </div>
+        <div className="page-editor__field">
+          <label className="page-editor__field-label" htmlFor="share-expires">Link Expires</label>
+          <input id="share-expires" type="datetime-local" className="page-editor__text-input" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+        </div>
+        <div className="page-editor__field">
+          <label className="page-editor__field-label" htmlFor="share-password">Link Password</label>
+          <input id="share-password" type="password" className="page-editor__text-input" value={password} onChange={(e) => setPassword(e.target.value)} minLength={4} maxLength={100} placeholder="Leave empty to use the page password" />
+        </div>
+        <div className="page-editor__field page-editor__field--full">
+          <button type="submit" className="page-editor__btn page-editor__btn--primary page-editor__btn--sm" disabled={creating || !email.trim()}>
+            {creating ? "Creating..." : "Create Link"}
+          </button>
+        </div>
+      </form>
+
+      {error && <div className="page-editor__publish-error" role="alert">{error}</div>}
+
+      {links.length === 0 && !loading ? (
+        <div className="page-editor__version-empty">No recipient links yet.</div>
+      ) : (
+        <div className="page-editor__version-list">
+          {links.map((link) => (
+            <div key={link.id} className="page-editor__version-row">
+              <div>
+                <strong>{recipientLabel(link)}</strong>{" "}
+                <span className={`page-editor__share-status page-editor__share-status--${link.status.toLowerCase()}`}>
+                  {link.status.toLowerCase()}
+                </span>
+                {crmLabel(link) && <span className="page-editor__share-crm">{crmLabel(link)}</span>}
+                <div className="page-editor__version-meta">
+                  {openSummary(link)}
+                  {link.has_password ? " · password protected" : ""}
+                  {link.expires_at ? ` · expires ${new Date(link.expires_at).toLocaleDateString()}` : ""}
+                </div>
+              </div>
+              <div className="page-editor__share-actions">
+                <button type="button" className="page-editor__btn page-editor__btn--secondary page-editor__btn--sm" onClick={() => void handleCopy(link)} disabled={link.status !== "ACTIVE"}>
+                  {copiedId === link.id ? "Copied" : "Copy Link"}
+                </button>
+                {link.status === "REVOKED" ? (
+                  <button type="button" className="page-editor__btn page-editor__btn--secondary page-editor__btn--sm" onClick={() => void handleRevoke(link, false)}>
+                    Restore
+                  </button>
+                ) : (
+                  <button type="button" className="page-editor__btn page-editor__btn--secondary page-editor__btn--sm" onClick={() => void handleRevoke(link, true)}>
+                    Revoke
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  lintPageDraft,
+  type LandingPageLintResult,
+  type StoryLintFinding,
+} from "../../lib/api";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const LINT_DEBOUNCE_MS = 1500;
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  subtitle: "Subtitle",
+  editable_body: "Body",
+};
+
+function fieldLabel(field: string): string {
+  const callout = /^callout_boxes\.(\d+)\.(title|body)$/.exec(field);
+  if (callout) return `Callout ${Number(callout[1]) + 1} ${callout[2]}`;
+  return FIELD_LABELS[field] ?? field;
+}
+
+/**
+ * Applies a finding's replacement to the body it was computed from. Returns
+ * null when the body changed under the finding, so a stale offset never
+ * rewrites the wrong text.
+ */
+export function applyLintReplacement(body: string, finding: StoryLintFinding): string | null {
+  if (finding.field !== "editable_body" || finding.replacement == null || finding.offset == null) {
+    return null;
+  }
+  const end = finding.offset + finding.match.length;
+  if (body.slice(finding.offset, end) !== finding.match) return null;
+  return body.slice(0, finding.offset) + finding.replacement + body.slice(end);
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export interface StoryLintPanelProps {
+  pageId: string;
+  body: string;
+  onApplyFix: (nextBody: string) => void;
+}
+
+export function StoryLintPanel({ pageId, body, onApplyFix }: StoryLintPanelProps) {
+  const [result, setResult] = useState<LandingPageLintResult | null>(null);
+  const [lintedBody, setLintedBody] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runLint = useCallback(
+    async (draftBody: string) => {
+      setLoading(true);
+      setError(null);
+      try {
+        setResult(await lintPageDraft(pageId, { editable_body: draftBody }));
+        setLintedBody(draftBody);
+      } catch {
+        setError("Failed to check the draft. Try again.");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [pageId],
+  );
+
+  useEffect(() => {
+    const timer = setTimeout(() => void runLint(body), LINT_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [body, runLint]);
+
+  const findings = result?.findings ?? [];
+
+  return (
+    <div className="page-editor__lint">
+      <div className="page-editor__versions-header">
+        <h3>Story Checks</h3>
+        <button
+          type="button"
+          className="page-editor__btn page-editor__btn--secondary"
+          onClick={() => void runLint(body)}
+          disabled={loading}
+        >
+          {loading ? "Checking..." : "Check Again"}
+        </button>
+      </div>
+
+      {error && <div className="page-editor__publish-error">{error}</div>}
+
+      {result?.blocking && (
+        <div className="page-editor__publish-error" role="alert">
+          Publishing is blocked until the highlighted findings are fixed.
+        </div>
+      )}
+
+      {result && findings.length === 0 ? (
+        <div className="page-editor__version-empty">
+          No banned claims, terminology issues or competitor mentions found.
+        </div>
+      ) : (
+        <ul className="page-editor__lint-list">
+          {findings.map((finding, index) => {
+            const canApply =
+              lintedBody === body && applyLintReplacement(body, finding) !== null;
+            return (
+              <li
+                key={`${finding.field}-${finding.offset ?? "x"}-${index}`}
+                className={`page-editor__lint-row page-editor__lint-row--${finding.severity}`}
+              >
+                <div>
+                  <span className={`page-editor__lint-severity page-editor__lint-severity--${finding.severity}`}>
+                    {finding.severity}
+                  </span>{" "}
+                  <strong>{fieldLabel(finding.field)}:</strong> {finding.message}
+                  <div className="page-editor__version-meta">{finding.suggestion}</div>
+                </div>
+                {canApply && (
+                  <button
+                    type="button"
+                    className="page-editor__btn page-editor__btn--secondary page-editor__btn--sm"
+                    onClick={() => {
+                      const next = applyLintReplacement(body, finding);
+                      if (next !== null) onApplyFix(next);
+                    }}
+                  >
+                    Use &ldquo;{finding.replacement}&rdquo;
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
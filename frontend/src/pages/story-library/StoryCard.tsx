@@ -72,6 +72,11 @@ export function StoryCard({
           <span className={`badge ${confidenceSafe ? "badge--success" : "badge--draft"}`}>
             {confidenceSafe ? "Safe to Share" : "Review"} · {confidencePct}
           </span>
+          {(story.pending_revisions ?? 0) > 0 && (
+            <Link to={`/stories/${story.id}/revisions`} className="badge badge--info">
+              Update to review
+            </Link>
+          )}
         </div>
       </header>
       <p className="story-library__card-preview">{getStoryPreview(story.markdown)}</p>
@@ -108,6 +113,7 @@ export function StoryCard({
                 <button type="button" role="menuitem" className="story-library__overflow-item" onClick={() => { setMenuOpen(false); void onPushCrmNote(story); }} disabled={busy}>Push CRM Note</button>
               )}
               <button type="button" role="menuitem" className="story-library__overflow-item" onClick={() => { setMenuOpen(false); onOpenComments(story); }} disabled={bulkBusy}>Comments</button>
+              <Link role="menuitem" className="story-library__overflow-item" to={`/stories/${story.id}/revisions`}>Revisions</Link>
             </div>
           )}
         </div>
@@ -81,6 +81,9 @@ function RowOverflow({
             <button type="button" role="menuitem" className="story-library__overflow-item" onClick={() => { setOpen(false); void onPushCrmNote(story); }} disabled={busy}>Push CRM Note</button>
           )}
           <button type="button" role="menuitem" className="story-library__overflow-item" onClick={() => { setOpen(false); onOpenComments(story); }} disabled={bulkBusy}>Comments</button>
+          <Link role="menuitem" className="story-library__overflow-item" to={`/stories/${story.id}/revisions`}>
+            Revisions{(story.pending_revisions ?? 0) > 0 ? " (update to review)" : ""}
+          </Link>
           {!isViewer && (
             <>
               <div className="story-library__overflow-divider" />
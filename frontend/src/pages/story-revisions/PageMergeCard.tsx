@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import type { LandingPageMergePreview, MergeConflictResolution } from "../../lib/api";
+
+export interface PageMergeCardProps {
+  preview: LandingPageMergePreview;
+  busy: boolean;
+  onApply: (resolutions: MergeConflictResolution[]) => void;
+}
+
+export function PageMergeCard({ preview, busy, onApply }: PageMergeCardProps) {
+  const [resolutions, setResolutions] = useState<MergeConflictResolution[]>(
+    () => preview.conflicts.map(() => "ours"),
+  );
+  const [showMerged, setShowMerged] = useState(false);
+
+  const setResolution = (index: number, resolution: MergeConflictResolution) =>
+    setResolutions((prev) => prev.map((value, i) => (i === index ? resolution : value)));
+
+  const base = preview.base_revision_number == null ? "the original story" : `revision ${preview.base_revision_number}`;
+
+  return (
+    <article className="story-revisions__page">
+      <header className="story-revisions__section-header">
+        <div>
+          <h3 className="story-revisions__section-title">
+            <Link to={`/pages/${preview.page_id}/edit`}>{preview.title}</Link>
+          </h3>
+          <p className="story-revisions__meta">
+            Built from {base}
+            {preview.draft_edited ? " and edited since" : ""} · {preview.status.toLowerCase()}
+          </p>
+        </div>
+        <span className={`badge ${preview.conflicts.length > 0 ? "badge--warning" : "badge--success"}`}>
+          {preview.conflicts.length === 0
+            ? "Merges cleanly"
+            : `${preview.conflicts.length} conflict${preview.conflicts.length === 1 ? "" : "s"}`}
+        </span>
+      </header>
+
+      {preview.conflicts.map((conflict) => (
+        <div key={conflict.index} className="story-revisions__conflict">
+          <div className="story-revisions__conflict-options" role="radiogroup" aria-label={`Conflict ${conflict.index + 1}`}>
+            <label className="story-revisions__conflict-option">
+              <input
+                type="radio"
+                name={`conflict-${preview.page_id}-${conflict.index}`}
+                checked={resolutions[conflict.index] === "ours"}
+                onChange={() => setResolution(conflict.index, "ours")}
+                disabled={busy}
+              />
+              <span>Keep the draft's edit</span>
+              <pre className="story-revisions__diff">{conflict.ours || "(removed)"}</pre>
+            </label>
+            <label className="story-revisions__conflict-option">
+              <input
+                type="radio"
+                name={`conflict-${preview.page_id}-${conflict.index}`}
+                checked={resolutions[conflict.index] === "theirs"}
+                onChange={() => setResolution(conflict.index, "theirs")}
+                disabled={busy}
+              />
+              <span>Use the updated story</span>
+              <pre className="story-revisions__diff">{conflict.theirs || "(removed)"}</pre>
+            </label>
+          </div>
+        </div>
+      ))}
+
+      {showMerged && (
+        <>
+          {preview.conflicts.length > 0 && (
+            <p className="story-revisions__meta">Conflicts are shown with the draft's edits kept.</p>
+          )}
+          <pre className="story-revisions__diff story-revisions__merged">{preview.merged_body}</pre>
+        </>
+      )}
+
+      <div className="story-revisions__actions">
+        <button type="button" className="btn btn--sm btn--ghost" onClick={() => setShowMerged((prev) => !prev)}>
+          {showMerged ? "Hide Merged Draft" : "Preview Merged Draft"}
+        </button>
+        <button type="button" className="btn btn--sm btn--primary" onClick={() => onApply(resolutions)} disabled={busy}>
+          {busy ? "Merging..." : "Merge into Draft"}
+        </button>
+      </div>
+    </article>
+  );
+}
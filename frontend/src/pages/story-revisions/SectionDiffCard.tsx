@@ -0,0 +1,81 @@
+import type { StoryRevisionDecision, StorySectionDiff } from "../../lib/api";
+
+const CHANGE_LABELS: Record<StorySectionDiff["change"], string> = {
+  unchanged: "Unchanged",
+  modified: "Updated",
+  added: "New section",
+  removed: "Removed",
+};
+
+const ACCEPT_LABELS: Record<StorySectionDiff["change"], string> = {
+  unchanged: "Accept",
+  modified: "Use new version",
+  added: "Add section",
+  removed: "Remove section",
+};
+
+const REJECT_LABELS: Record<StorySectionDiff["change"], string> = {
+  unchanged: "Reject",
+  modified: "Keep current",
+  added: "Skip",
+  removed: "Keep section",
+};
+
+/** Removals keep the current text unless accepted; other changes are proposed for acceptance. */
+export function defaultSectionDecision(section: StorySectionDiff): StoryRevisionDecision {
+  return section.change === "removed" ? "reject" : "accept";
+}
+
+export interface SectionDiffCardProps {
+  section: StorySectionDiff;
+  decision: StoryRevisionDecision;
+  disabled: boolean;
+  onDecide: (decision: StoryRevisionDecision) => void;
+}
+
+export function SectionDiffCard({ section, decision, disabled, onDecide }: SectionDiffCardProps) {
+  const title = section.heading ?? "Introduction";
+
+  return (
+    <section className="story-revisions__section" aria-label={title}>
+      <header className="story-revisions__section-header">
+        <h3 className="story-revisions__section-title">{title}</h3>
+        <span className={`story-revisions__change story-revisions__change--${section.change}`}>
+          {CHANGE_LABELS[section.change]}
+        </span>
+      </header>
+
+      <pre className="story-revisions__diff">
+        {section.lines.map((line, index) => (
+          <div key={index} className={`story-revisions__diff-line story-revisions__diff-line--${line.type}`}>
+            <span aria-hidden="true">{line.type === "added" ? "+" : line.type === "removed" ? "-" : " "}</span>
+            {line.text || " "}
+          </div>
+        ))}
+      </pre>
+
+      <div className="story-revisions__decision" role="radiogroup" aria-label={`Decision for ${title}`}>
+        <label>
+          <input
+            type="radio"
+            name={`section-${section.key}`}
+            checked={decision === "accept"}
+            onChange={() => onDecide("accept")}
+            disabled={disabled}
+          />
+          {ACCEPT_LABELS[section.change]}
+        </label>
+        <label>
+          <input
+            type="radio"
+            name={`section-${section.key}`}
+            checked={decision === "reject"}
+            onChange={() => onDecide("reject")}
+            disabled={disabled}
+          />
+          {REJECT_LABELS[section.change]}
+        </label>
+      </div>
+    </section>
+  );
+}
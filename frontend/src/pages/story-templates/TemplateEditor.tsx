@@ -0,0 +1,203 @@
+import type { QuoteMetricType, SaveStoryTemplateRequest, StoryTemplateSection } from "../../lib/api";
+import { STORY_LENGTH_LABELS, type StoryLength } from "../../types/taxonomy";
+
+export const METRIC_LABELS: Record<QuoteMetricType, string> = {
+  cost_savings: "Cost Savings",
+  revenue: "Revenue",
+  time_saved: "Time Saved",
+  efficiency: "Efficiency",
+  error_reduction: "Error Reduction",
+  adoption: "Adoption",
+  scale: "Scale",
+  roi: "ROI",
+};
+
+const MAX_SECTIONS = 12;
+
+export function emptyTemplateDraft(): SaveStoryTemplateRequest {
+  return {
+    name: "",
+    description: "",
+    definition: {
+      sections: [{ heading: "", instructions: "", min_quotes: 0, required_metrics: [] }],
+      story_length: "MEDIUM",
+      audience: "",
+      prompt_block: "",
+    },
+  };
+}
+
+export interface TemplateEditorProps {
+  draft: SaveStoryTemplateRequest;
+  disabled: boolean;
+  onChange: (draft: SaveStoryTemplateRequest) => void;
+}
+
+export function TemplateEditor({ draft, disabled, onChange }: TemplateEditorProps) {
+  const { definition } = draft;
+
+  const setDefinition = (patch: Partial<SaveStoryTemplateRequest["definition"]>) =>
+    onChange({ ...draft, definition: { ...definition, ...patch } });
+
+  const setSection = (index: number, patch: Partial<StoryTemplateSection>) =>
+    setDefinition({
+      sections: definition.sections.map((section, i) => (i === index ? { ...section, ...patch } : section)),
+    });
+
+  const moveSection = (index: number, offset: -1 | 1) => {
+    const sections = [...definition.sections];
+    const [moved] = sections.splice(index, 1);
+    sections.splice(index + offset, 0, moved);
+    setDefinition({ sections });
+  };
+
+  const toggleMetric = (index: number, metric: QuoteMetricType) => {
+    const current = definition.sections[index].required_metrics;
+    setSection(index, {
+      required_metrics: current.includes(metric)
+        ? current.filter((item) => item !== metric)
+        : [...current, metric],
+    });
+  };
+
+  return (
+    <div className="story-templates__editor">
+      <div className="form-grid" style={{ gridTemplateColumns: "1fr 1fr" }}>
+        <label className="form-group">
+          <span className="form-group__label">Name</span>
+          <input
+            className="form-input"
+            value={draft.name}
+            onChange={(e) => onChange({ ...draft, name: e.target.value })}
+            placeholder="CFO Brief"
+            disabled={disabled}
+          />
+        </label>
+        <label className="form-group">
+          <span className="form-group__label">Target Length</span>
+          <select
+            className="form-input"
+            value={definition.story_length}
+            onChange={(e) => setDefinition({ story_length: e.target.value as StoryLength })}
+            disabled={disabled}
+          >
+            {Object.entries(STORY_LENGTH_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="form-group">
+          <span className="form-group__label">Description</span>
+          <input
+            className="form-input"
+            value={draft.description ?? ""}
+            onChange={(e) => onChange({ ...draft, description: e.target.value })}
+            disabled={disabled}
+          />
+        </label>
+        <label className="form-group">
+          <span className="form-group__label">Default Audience</span>
+          <input
+            className="form-input"
+            value={definition.audience ?? ""}
+            onChange={(e) => setDefinition({ audience: e.target.value })}
+            placeholder="CFOs at mid-market manufacturers"
+            disabled={disabled}
+          />
+        </label>
+      </div>
+
+      <label className="form-group">
+        <span className="form-group__label">Prompt Instructions</span>
+        <textarea
+          className="form-input"
+          rows={3}
+          value={definition.prompt_block ?? ""}
+          onChange={(e) => setDefinition({ prompt_block: e.target.value })}
+          placeholder="Extra guidance for every story built from this template"
+          disabled={disabled}
+        />
+      </label>
+
+      <h3 className="story-templates__subtitle">Sections</h3>
+      {definition.sections.map((section, index) => (
+        <fieldset key={index} className="story-templates__section" disabled={disabled}>
+          <legend className="story-templates__section-legend">Section {index + 1}</legend>
+          <input
+            className="form-input"
+            aria-label={`Section ${index + 1} heading`}
+            value={section.heading}
+            onChange={(e) => setSection(index, { heading: e.target.value })}
+            placeholder="Heading"
+          />
+          <textarea
+            className="form-input"
+            aria-label={`Section ${index + 1} instructions`}
+            rows={2}
+            value={section.instructions}
+            onChange={(e) => setSection(index, { instructions: e.target.value })}
+            placeholder="What this section should cover"
+          />
+          <div className="story-templates__slots">
+            <label>
+              Quotes{" "}
+              <input
+                type="number"
+                className="form-input story-templates__quote-input"
+                min={0}
+                max={5}
+                value={section.min_quotes}
+                onChange={(e) => setSection(index, { min_quotes: Number(e.target.value) || 0 })}
+              />
+            </label>
+            {(Object.keys(METRIC_LABELS) as QuoteMetricType[]).map((metric) => (
+              <label key={metric}>
+                <input
+                  type="checkbox"
+                  checked={section.required_metrics.includes(metric)}
+                  onChange={() => toggleMetric(index, metric)}
+                />{" "}
+                {METRIC_LABELS[metric]}
+              </label>
+            ))}
+          </div>
+          <div className="table-actions">
+            <button type="button" className="btn btn--sm btn--ghost" onClick={() => moveSection(index, -1)} disabled={index === 0}>
+              Move Up
+            </button>
+            <button
+              type="button"
+              className="btn btn--sm btn--ghost"
+              onClick={() => moveSection(index, 1)}
+              disabled={index === definition.sections.length - 1}
+            >
+              Move Down
+            </button>
+            <button
+              type="button"
+              className="btn btn--sm btn--ghost"
+              onClick={() => setDefinition({ sections: definition.sections.filter((_, i) => i !== index) })}
+              disabled={definition.sections.length === 1}
+            >
+              Remove
+            </button>
+          </div>
+        </fieldset>
+      ))}
+      <button
+        type="button"
+        className="btn btn--sm btn--secondary"
+        onClick={() =>
+          setDefinition({
+            sections: [...definition.sections, { heading: "", instructions: "", min_quotes: 0, required_metrics: [] }],
+          })
+        }
+        disabled={disabled || definition.sections.length >= MAX_SECTIONS}
+      >
+        Add Section
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import type { PreviewStoryTemplateResponse } from "../../lib/api";
+import { METRIC_LABELS } from "./TemplateEditor";
+
+export interface TemplatePreviewProps {
+  preview: PreviewStoryTemplateResponse;
+}
+
+export function TemplatePreview({ preview }: TemplatePreviewProps) {
+  const coverage = preview.template_coverage;
+
+  return (
+    <div className="story-templates__preview">
+      {coverage && (
+        <ul className="story-templates__coverage">
+          {coverage.sections.map((section) => {
+            const filled = section.found && section.quotes >= section.min_quotes && section.missing_metrics.length === 0;
+            return (
+              <li key={section.heading}>
+                <span className={`badge ${filled ? "badge--success" : "badge--warning"}`}>
+                  {filled ? "Filled" : section.found ? "Incomplete" : "Missing"}
+                </span>{" "}
+                <strong>{section.heading}</strong>
+                <span className="story-templates__meta">
+                  {" "}
+                  {section.quotes}/{section.min_quotes} quotes
+                  {section.missing_metrics.length > 0 &&
+                    ` · no ${section.missing_metrics.map((metric) => METRIC_LABELS[metric]).join(", ")}`}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <h3 className="story-templates__subtitle">{preview.title}</h3>
+      <pre className="story-templates__markdown">{preview.markdown}</pre>
+      <p className="story-templates__meta">
+        {preview.quotes.length} quote{preview.quotes.length === 1 ? "" : "s"} extracted. Previews are not saved.
+      </p>
+    </div>
+  );
+}
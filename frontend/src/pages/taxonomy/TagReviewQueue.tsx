@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import {
+  dismissTagReviewItem,
+  getTagReviewQueue,
+  submitTagReview,
+  type TagReviewDecision,
+  type TagReviewQueueItem,
+} from "../../lib/api";
+import { useToast } from "../../components/Toast";
+import { FUNNEL_STAGE_LABELS } from "../../types/taxonomy";
+
+const REASON_LABELS: Record<TagReviewQueueItem["reason"], string> = {
+  LOW_CONFIDENCE: "Low confidence",
+  DISAGREEMENT: "Disagreement",
+};
+
+interface TagReviewQueueProps {
+  topicLabels: Record<string, string>;
+}
+
+/**
+ * Chunks the tagger was least sure about. Each confirm/reject becomes a
+ * validation sample for the org's confidence calibration.
+ */
+export function TagReviewQueue({ topicLabels }: TagReviewQueueProps) {
+  const { showToast } = useToast();
+  const [items, setItems] = useState<TagReviewQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pendingTagId, setPendingTagId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    void getTagReviewQueue()
+      .then((res) => {
+        if (!cancelled) setItems(res.items);
+      })
+      .catch(() => {
+        if (!cancelled) setItems([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const review = async (item: TagReviewQueueItem, tagId: string, decision: TagReviewDecision) => {
+    setPendingTagId(tagId);
+    try {
+      await submitTagReview({ chunk_tag_id: tagId, decision });
+      setItems((prev) =>
+        prev.flatMap((entry) => {
+          if (entry.id !== item.id) return [entry];
+          const tags = entry.tags.map((tag) =>
+            tag.id === tagId ? { ...tag, my_decision: decision } : tag
+          );
+          return tags.every((tag) => tag.my_decision) ? [] : [{ ...entry, tags }];
+        })
+      );
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to save review", "error");
+    } finally {
+      setPendingTagId(null);
+    }
+  };
+
+  const dismiss = async (item: TagReviewQueueItem) => {
+    try {
+      await dismissTagReviewItem(item.id);
+      setItems((prev) => prev.filter((entry) => entry.id !== item.id));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to skip segment", "error");
+    }
+  };
+
+  if (loading || items.length === 0) return null;
+
+  return (
+    <section className="card card--elevated" aria-labelledby="tag-review-heading" style={{ display: "grid", gap: 12 }}>
+      <div>
+        <h2 id="tag-review-heading" style={{ margin: 0 }}>Tags awaiting review</h2>
+        <p className="page__subtitle">
+          Confirm or reject tags on segments the tagger was unsure about. Your answers recalibrate tag confidence for your organization.
+        </p>
+      </div>
+      {items.map((item) => (
+        <article key={item.id} style={{ borderTop: "1px solid var(--color-border)", paddingTop: 12, display: "grid", gap: 8 }}>
+          <div style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
+            <span>
+              <strong>{item.call.title ?? "Untitled call"}</strong>
+              {item.chunk.speaker ? ` · ${item.chunk.speaker}` : ""}
+            </span>
+            <span className="badge badge--info">{REASON_LABELS[item.reason]}</span>
+          </div>
+          <blockquote style={{ margin: 0 }}>{item.chunk.text}</blockquote>
+          {item.tags.map((tag) => (
+            <div key={tag.id} style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+              <span style={{ flex: 1 }}>
+                {topicLabels[tag.topic] ?? tag.topic}
+                {" · "}
+                {FUNNEL_STAGE_LABELS[tag.funnel_stage] ?? tag.funnel_stage}
+                {" · "}
+                {Math.round(tag.confidence * 100)}%
+              </span>
+              <button
+                type="button"
+                className="btn btn--secondary btn--sm"
+                aria-pressed={tag.my_decision === "CONFIRM"}
+                disabled={pendingTagId === tag.id}
+                onClick={() => void review(item, tag.id, "CONFIRM")}
+              >
+                Confirm
+              </button>
+              <button
+                type="button"
+                className="btn btn--ghost btn--sm"
+                aria-pressed={tag.my_decision === "REJECT"}
+                disabled={pendingTagId === tag.id}
+                onClick={() => void review(item, tag.id, "REJECT")}
+              >
+                Reject
+              </button>
+            </div>
+          ))}
+          <div>
+            <button type="button" className="btn btn--ghost btn--sm" onClick={() => void dismiss(item)}>
+              Skip segment
+            </button>
+          </div>
+        </article>
+      ))}
+    </section>
+  );
+}
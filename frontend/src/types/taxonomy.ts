@@ -243,9 +243,27 @@ export const STORY_OUTLINE_LABELS: Record<StoryOutline, string> = {
   DEAL_ANATOMY: "Deal Anatomy",
 };
 
-export type StoryTypeInput = "FULL_ACCOUNT_JOURNEY" | TaxonomyTopic;
+export type StoryLanguage = "en" | "de" | "fr" | "es";
 
-export const STORY_TYPE_INPUT_LABELS: Record<StoryTypeInput, string> = {
+export const STORY_LANGUAGE_LABELS: Record<StoryLanguage, string> = {
+  en: "English",
+  de: "Deutsch",
+  fr: "Français",
+  es: "Español",
+};
+
+/** Org-defined topic keys, managed under Admin → Taxonomy. */
+export type CustomTopicKey = `custom_${string}`;
+
+export type TopicKey = TaxonomyTopic | CustomTopicKey;
+
+export function isCustomTopicKey(value: string): value is CustomTopicKey {
+  return /^custom_[a-z0-9]+(?:_[a-z0-9]+)*$/.test(value) && value.length <= 64;
+}
+
+export type StoryTypeInput = "FULL_ACCOUNT_JOURNEY" | TaxonomyTopic | CustomTopicKey;
+
+export const STORY_TYPE_INPUT_LABELS: Record<"FULL_ACCOUNT_JOURNEY" | TaxonomyTopic, string> = {
   FULL_ACCOUNT_JOURNEY: "Full Account Journey",
   ...TOPIC_LABELS,
 };
@@ -0,0 +1,25 @@
+-- Automation engine run history
+
+CREATE TABLE IF NOT EXISTS "automation_rule_runs" (
+  "id" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "ruleId" TEXT NOT NULL,
+  "trigger" TEXT NOT NULL,
+  "status" TEXT NOT NULL,
+  "metricValue" DOUBLE PRECISION,
+  "eventType" TEXT,
+  "renderedPayload" JSONB,
+  "error" TEXT,
+  "durationMs" INTEGER,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "automation_rule_runs_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "automation_rule_runs_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "automation_rule_runs_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "automation_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "automation_rule_runs_ruleId_createdAt_idx"
+  ON "automation_rule_runs"("ruleId", "createdAt");
+
+CREATE INDEX IF NOT EXISTS "automation_rule_runs_organizationId_createdAt_idx"
+  ON "automation_rule_runs"("organizationId", "createdAt");
@@ -0,0 +1,28 @@
+-- Outbound webhook delivery log
+
+CREATE TABLE IF NOT EXISTS "outbound_webhook_deliveries" (
+  "id" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "subscriptionId" TEXT NOT NULL,
+  "eventId" TEXT NOT NULL,
+  "eventType" TEXT NOT NULL,
+  "url" TEXT NOT NULL,
+  "requestBody" JSONB NOT NULL,
+  "trigger" TEXT NOT NULL,
+  "attempt" INTEGER NOT NULL DEFAULT 1,
+  "status" TEXT NOT NULL,
+  "responseStatus" INTEGER,
+  "latencyMs" INTEGER,
+  "error" TEXT,
+  "willRetry" BOOLEAN NOT NULL DEFAULT false,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "outbound_webhook_deliveries_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "outbound_webhook_deliveries_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "outbound_webhook_deliveries_organizationId_subscriptionId_createdAt_idx"
+  ON "outbound_webhook_deliveries"("organizationId", "subscriptionId", "createdAt");
+
+CREATE INDEX IF NOT EXISTS "outbound_webhook_deliveries_eventId_idx"
+  ON "outbound_webhook_deliveries"("eventId");
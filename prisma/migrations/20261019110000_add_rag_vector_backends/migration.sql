@@ -0,0 +1,25 @@
+-- Pluggable RAG vector store: pgvector embeddings beside transcript chunks
+-- and a per-org backend selection used by the reindex job.
+--
+-- The pgvector backend is opt-in, so the extension, the embedding column and
+-- its index are only created where the server ships the `vector` extension
+-- (e.g. the pgvector/pgvector images). On plain Postgres they are skipped and
+-- the migration still applies; see docs/rag-vector-stores.md to add them later.
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'vector') THEN
+    CREATE EXTENSION IF NOT EXISTS vector;
+
+    ALTER TABLE "transcript_chunks" ADD COLUMN IF NOT EXISTS "embedding" vector(1536);
+
+    CREATE INDEX IF NOT EXISTS "transcript_chunks_embedding_idx"
+      ON "transcript_chunks" USING hnsw ("embedding" vector_cosine_ops);
+  ELSE
+    RAISE NOTICE 'pgvector extension not available; skipping transcript_chunks.embedding';
+  END IF;
+END
+$$;
+
+ALTER TABLE "org_settings" ADD COLUMN IF NOT EXISTS "ragVectorBackend" TEXT;
+ALTER TABLE "org_settings" ADD COLUMN IF NOT EXISTS "ragVectorBackendTarget" TEXT;
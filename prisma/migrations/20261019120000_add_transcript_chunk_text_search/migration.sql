@@ -0,0 +1,5 @@
+-- Full-text index for hybrid RAG retrieval. The expression must match
+-- src/services/rag-keyword-search.ts exactly for the planner to use it.
+
+CREATE INDEX IF NOT EXISTS "transcript_chunks_text_search_idx"
+  ON "transcript_chunks" USING gin (to_tsvector('english', "text"));
@@ -0,0 +1,62 @@
+-- Persisted RAG chatbot conversations and answer feedback
+
+CREATE TABLE IF NOT EXISTS "chat_conversations" (
+  "id" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "accountId" TEXT,
+  "title" TEXT,
+  "lastMessageAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "chat_conversations_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "chat_conversations_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "chat_conversations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "chat_conversations_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "chat_conversations_organizationId_userId_lastMessageAt_idx"
+  ON "chat_conversations"("organizationId", "userId", "lastMessageAt");
+
+CREATE INDEX IF NOT EXISTS "chat_conversations_organizationId_lastMessageAt_idx"
+  ON "chat_conversations"("organizationId", "lastMessageAt");
+
+CREATE TABLE IF NOT EXISTS "chat_conversation_messages" (
+  "id" TEXT NOT NULL,
+  "conversationId" TEXT NOT NULL,
+  "role" TEXT NOT NULL,
+  "content" TEXT NOT NULL,
+  "sources" JSONB,
+  "tokensUsed" INTEGER,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "chat_conversation_messages_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "chat_conversation_messages_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "chat_conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "chat_conversation_messages_conversationId_createdAt_idx"
+  ON "chat_conversation_messages"("conversationId", "createdAt");
+
+CREATE TABLE IF NOT EXISTS "chat_message_feedback" (
+  "id" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "messageId" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "rating" TEXT,
+  "wrongCitations" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+  "notes" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "chat_message_feedback_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "chat_message_feedback_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "chat_message_feedback_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "chat_conversation_messages"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "chat_message_feedback_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "chat_message_feedback_messageId_userId_key"
+  ON "chat_message_feedback"("messageId", "userId");
+
+CREATE INDEX IF NOT EXISTS "chat_message_feedback_organizationId_createdAt_idx"
+  ON "chat_message_feedback"("organizationId", "createdAt");
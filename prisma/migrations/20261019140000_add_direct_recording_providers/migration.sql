@@ -0,0 +1,4 @@
+-- Native Zoom, Microsoft Teams and Fireflies integrations.
+ALTER TYPE "IntegrationProvider" ADD VALUE IF NOT EXISTS 'ZOOM';
+ALTER TYPE "IntegrationProvider" ADD VALUE IF NOT EXISTS 'TEAMS';
+ALTER TYPE "IntegrationProvider" ADD VALUE IF NOT EXISTS 'FIREFLIES';
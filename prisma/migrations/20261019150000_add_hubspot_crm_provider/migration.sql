@@ -0,0 +1,23 @@
+-- Native HubSpot CRM integration.
+ALTER TYPE "IntegrationProvider" ADD VALUE IF NOT EXISTS 'HUBSPOT';
+
+-- Direct HubSpot sync keys accounts by company ID, like salesforceId.
+-- Merge-based syncs could link several accounts in an org to the same
+-- HubSpot company. Keep the ID on the oldest account and clear it on the
+-- rest so the unique index can be built; nothing is deleted, and the next
+-- sync links the company to the account that kept the ID.
+UPDATE "accounts" AS a
+SET "hubspotId" = NULL
+FROM (
+  SELECT "id",
+         ROW_NUMBER() OVER (
+           PARTITION BY "organizationId", "hubspotId"
+           ORDER BY "createdAt" ASC, "id" ASC
+         ) AS rn
+  FROM "accounts"
+  WHERE "hubspotId" IS NOT NULL
+) AS ranked
+WHERE a."id" = ranked."id"
+  AND ranked.rn > 1;
+
+CREATE UNIQUE INDEX "accounts_organizationId_hubspotId_key" ON "accounts"("organizationId", "hubspotId");
@@ -0,0 +1,2 @@
+-- Provider speaker turns used for speaker-aware chunking.
+ALTER TABLE "transcripts" ADD COLUMN "utterances" JSONB;
@@ -0,0 +1,6 @@
+-- Output language of generated stories.
+ALTER TABLE "stories" ADD COLUMN "language" TEXT NOT NULL DEFAULT 'en';
+
+-- Quotes keep their source language and a translation into the story language.
+ALTER TABLE "high_value_quotes" ADD COLUMN "language" TEXT,
+ADD COLUMN "translation" TEXT;
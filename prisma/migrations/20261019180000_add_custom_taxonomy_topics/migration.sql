@@ -0,0 +1,18 @@
+-- Org-defined taxonomy topics classified alongside the built-in taxonomy.
+CREATE TABLE "custom_taxonomy_topics" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "funnelStage" "FunnelStage" NOT NULL,
+    "examplePhrases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "custom_taxonomy_topics_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "custom_taxonomy_topics_organizationId_key_key" ON "custom_taxonomy_topics"("organizationId", "key");
+
+ALTER TABLE "custom_taxonomy_topics" ADD CONSTRAINT "custom_taxonomy_topics_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
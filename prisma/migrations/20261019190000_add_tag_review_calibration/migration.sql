@@ -0,0 +1,57 @@
+-- Reviewer tag decisions as validation samples, a labeling queue and per-org calibration history.
+CREATE TYPE "ValidationSampleSource" AS ENUM ('MANUAL', 'REVIEW');
+CREATE TYPE "LabelingReason" AS ENUM ('LOW_CONFIDENCE', 'DISAGREEMENT');
+CREATE TYPE "LabelingStatus" AS ENUM ('PENDING', 'LABELED', 'DISMISSED');
+
+ALTER TABLE "chunk_tags" ADD COLUMN "rawConfidence" DOUBLE PRECISION;
+
+ALTER TABLE "validation_samples" ALTER COLUMN "expectedFunnelStage" DROP NOT NULL,
+ALTER COLUMN "expectedTopic" DROP NOT NULL,
+ADD COLUMN "source" "ValidationSampleSource" NOT NULL DEFAULT 'MANUAL',
+ADD COLUMN "chunkId" TEXT,
+ADD COLUMN "chunkTagId" TEXT,
+ADD COLUMN "predictedFunnelStage" TEXT,
+ADD COLUMN "predictedTopic" TEXT,
+ADD COLUMN "rawConfidence" DOUBLE PRECISION,
+ADD COLUMN "isCorrect" BOOLEAN,
+ADD COLUMN "reviewedByUserId" TEXT,
+ADD COLUMN "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+CREATE UNIQUE INDEX "validation_samples_chunkTagId_reviewedByUserId_key" ON "validation_samples"("chunkTagId", "reviewedByUserId");
+CREATE INDEX "validation_samples_organizationId_source_updatedAt_idx" ON "validation_samples"("organizationId", "source", "updatedAt");
+
+CREATE TABLE "labeling_queue_items" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "chunkId" TEXT NOT NULL,
+    "reason" "LabelingReason" NOT NULL,
+    "priority" DOUBLE PRECISION NOT NULL,
+    "status" "LabelingStatus" NOT NULL DEFAULT 'PENDING',
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "labeling_queue_items_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "labeling_queue_items_chunkId_key" ON "labeling_queue_items"("chunkId");
+CREATE INDEX "labeling_queue_items_organizationId_status_priority_idx" ON "labeling_queue_items"("organizationId", "status", "priority");
+
+ALTER TABLE "labeling_queue_items" ADD CONSTRAINT "labeling_queue_items_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "labeling_queue_items" ADD CONSTRAINT "labeling_queue_items_chunkId_fkey" FOREIGN KEY ("chunkId") REFERENCES "transcript_chunks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "calibration_reports" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "sampleCount" INTEGER NOT NULL,
+    "brierScore" DOUBLE PRECISION NOT NULL,
+    "calibratedBrierScore" DOUBLE PRECISION NOT NULL,
+    "buckets" JSONB NOT NULL,
+    "calibrationCurve" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "calibration_reports_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "calibration_reports_organizationId_createdAt_idx" ON "calibration_reports"("organizationId", "createdAt");
+
+ALTER TABLE "calibration_reports" ADD CONSTRAINT "calibration_reports_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
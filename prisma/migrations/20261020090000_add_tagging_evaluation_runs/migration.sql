@@ -0,0 +1,24 @@
+-- Golden-set tagging evaluation runs with a per-org baseline.
+CREATE TABLE "tagging_evaluation_runs" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "datasetVersion" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptFingerprint" TEXT NOT NULL,
+    "microF1" DOUBLE PRECISION NOT NULL,
+    "stageAccuracy" DOUBLE PRECISION NOT NULL,
+    "calibrationError" DOUBLE PRECISION NOT NULL,
+    "report" JSONB NOT NULL,
+    "passed" BOOLEAN,
+    "isBaseline" BOOLEAN NOT NULL DEFAULT false,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tagging_evaluation_runs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "tagging_evaluation_runs_organizationId_datasetVersion_isBaseline_idx" ON "tagging_evaluation_runs"("organizationId", "datasetVersion", "isBaseline");
+CREATE INDEX "tagging_evaluation_runs_organizationId_createdAt_idx" ON "tagging_evaluation_runs"("organizationId", "createdAt");
+
+ALTER TABLE "tagging_evaluation_runs" ADD CONSTRAINT "tagging_evaluation_runs_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- Verification status for story claims checked against their source transcript chunk.
+CREATE TYPE "ClaimVerificationStatus" AS ENUM ('SUPPORTED', 'WEAK', 'UNSUPPORTED');
+
+ALTER TABLE "story_claim_lineage" ADD COLUMN "verificationStatus" "ClaimVerificationStatus",
+ADD COLUMN "verifiedAt" TIMESTAMP(3);
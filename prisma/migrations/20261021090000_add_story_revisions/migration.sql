@@ -0,0 +1,33 @@
+-- Story revisions for section-by-section review of regenerated stories, and the revision each landing page draft is synced with.
+CREATE TYPE "StoryRevisionSource" AS ENUM ('GENERATED', 'REGENERATED', 'MERGED');
+
+CREATE TYPE "StoryRevisionStatus" AS ENUM ('PENDING', 'APPLIED', 'REJECTED', 'SUPERSEDED');
+
+CREATE TABLE "story_revisions" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "storyId" TEXT NOT NULL,
+    "revisionNumber" INTEGER NOT NULL,
+    "source" "StoryRevisionSource" NOT NULL,
+    "status" "StoryRevisionStatus" NOT NULL,
+    "markdownBody" TEXT NOT NULL,
+    "quotes" JSONB,
+    "sourceStoryId" TEXT,
+    "parentRevisionId" TEXT,
+    "reviewDecisions" JSONB,
+    "createdByUserId" TEXT,
+    "reviewedByUserId" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "story_revisions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "story_revisions_storyId_revisionNumber_key" ON "story_revisions"("storyId", "revisionNumber");
+CREATE INDEX "story_revisions_organizationId_storyId_status_idx" ON "story_revisions"("organizationId", "storyId", "status");
+
+ALTER TABLE "story_revisions" ADD CONSTRAINT "story_revisions_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "story_revisions" ADD CONSTRAINT "story_revisions_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "stories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "landing_pages" ADD COLUMN "storyRevisionId" TEXT;
+ALTER TABLE "landing_pages" ADD CONSTRAINT "landing_pages_storyRevisionId_fkey" FOREIGN KEY ("storyRevisionId") REFERENCES "story_revisions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- Multi-account comparative stories: story scope and lineage to every contributing account.
+CREATE TYPE "StoryScope" AS ENUM ('SINGLE_ACCOUNT', 'MULTI_ACCOUNT');
+
+ALTER TABLE "stories" ADD COLUMN "scope" "StoryScope" NOT NULL DEFAULT 'SINGLE_ACCOUNT';
+
+CREATE TABLE "story_accounts" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "storyId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "callsIncluded" INTEGER NOT NULL DEFAULT 0,
+    "callsAvailable" INTEGER NOT NULL DEFAULT 0,
+    "segmentsIncluded" INTEGER NOT NULL DEFAULT 0,
+    "wordsIncluded" INTEGER NOT NULL DEFAULT 0,
+    "truncated" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "story_accounts_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "story_accounts_storyId_accountId_key" ON "story_accounts"("storyId", "accountId");
+CREATE INDEX "story_accounts_organizationId_accountId_idx" ON "story_accounts"("organizationId", "accountId");
+
+ALTER TABLE "story_accounts" ADD CONSTRAINT "story_accounts_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "story_accounts" ADD CONSTRAINT "story_accounts_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "stories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "story_accounts" ADD CONSTRAINT "story_accounts_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
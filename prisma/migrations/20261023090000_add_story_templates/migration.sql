@@ -0,0 +1,34 @@
+-- Org story templates: versioned section outlines with quote/metric slots, linked from generated stories.
+CREATE TABLE "story_templates" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "currentVersion" INTEGER NOT NULL DEFAULT 1,
+    "createdByUserId" TEXT,
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "story_templates_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "story_template_versions" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "definition" JSONB NOT NULL,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "story_template_versions_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "stories" ADD COLUMN "storyTemplateVersionId" TEXT;
+
+CREATE UNIQUE INDEX "story_templates_organizationId_name_key" ON "story_templates"("organizationId", "name");
+CREATE UNIQUE INDEX "story_template_versions_templateId_version_key" ON "story_template_versions"("templateId", "version");
+
+ALTER TABLE "story_templates" ADD CONSTRAINT "story_templates_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "story_template_versions" ADD CONSTRAINT "story_template_versions_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "story_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "stories" ADD CONSTRAINT "stories_storyTemplateVersionId_fkey" FOREIGN KEY ("storyTemplateVersionId") REFERENCES "story_template_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- Landing page engagement analytics: raw per-visit rows plus a daily per-page rollup.
+CREATE TABLE "page_views" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "landingPageId" TEXT NOT NULL,
+    "visitorHash" TEXT NOT NULL,
+    "viewedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "referrerHost" TEXT,
+    "utmSource" TEXT,
+    "utmMedium" TEXT,
+    "utmCampaign" TEXT,
+    "maxScrollDepth" INTEGER NOT NULL DEFAULT 0,
+    "timeOnPageMs" INTEGER NOT NULL DEFAULT 0,
+    "ctaClicks" TEXT[] DEFAULT ARRAY[]::TEXT[],
+
+    CONSTRAINT "page_views_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "page_analytics_daily" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "landingPageId" TEXT NOT NULL,
+    "day" TIMESTAMP(3) NOT NULL,
+    "views" INTEGER NOT NULL DEFAULT 0,
+    "uniqueVisitors" INTEGER NOT NULL DEFAULT 0,
+    "engagedViews" INTEGER NOT NULL DEFAULT 0,
+    "ctaClicks" INTEGER NOT NULL DEFAULT 0,
+    "totalTimeOnPageSeconds" INTEGER NOT NULL DEFAULT 0,
+    "avgScrollDepth" INTEGER NOT NULL DEFAULT 0,
+    "referrers" JSONB,
+    "utmCampaigns" JSONB,
+    "ctaBreakdown" JSONB,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "page_analytics_daily_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "page_views_landingPageId_viewedAt_idx" ON "page_views"("landingPageId", "viewedAt");
+CREATE INDEX "page_views_organizationId_viewedAt_idx" ON "page_views"("organizationId", "viewedAt");
+CREATE UNIQUE INDEX "page_analytics_daily_landingPageId_day_key" ON "page_analytics_daily"("landingPageId", "day");
+CREATE INDEX "page_analytics_daily_organizationId_day_idx" ON "page_analytics_daily"("organizationId", "day");
+
+ALTER TABLE "page_views" ADD CONSTRAINT "page_views_landingPageId_fkey" FOREIGN KEY ("landingPageId") REFERENCES "landing_pages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "page_analytics_daily" ADD CONSTRAINT "page_analytics_daily_landingPageId_fkey" FOREIGN KEY ("landingPageId") REFERENCES "landing_pages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- Per-recipient share links for landing pages, with open attribution on page views.
+ALTER TYPE "NotificationType" ADD VALUE IF NOT EXISTS 'PAGE_SHARE_OPENED';
+
+CREATE TABLE "page_share_links" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "landingPageId" TEXT NOT NULL,
+    "createdByUserId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "recipientEmail" TEXT NOT NULL,
+    "recipientName" TEXT,
+    "contactId" TEXT,
+    "password" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "openCount" INTEGER NOT NULL DEFAULT 0,
+    "firstOpenedAt" TIMESTAMP(3),
+    "lastOpenedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "page_share_links_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "page_views" ADD COLUMN "shareLinkId" TEXT;
+
+CREATE UNIQUE INDEX "page_share_links_token_key" ON "page_share_links"("token");
+CREATE INDEX "page_share_links_landingPageId_createdAt_idx" ON "page_share_links"("landingPageId", "createdAt");
+CREATE INDEX "page_share_links_organizationId_recipientEmail_idx" ON "page_share_links"("organizationId", "recipientEmail");
+
+ALTER TABLE "page_share_links" ADD CONSTRAINT "page_share_links_landingPageId_fkey" FOREIGN KEY ("landingPageId") REFERENCES "landing_pages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "page_share_links" ADD CONSTRAINT "page_share_links_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "contacts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "page_views" ADD CONSTRAINT "page_views_shareLinkId_fkey" FOREIGN KEY ("shareLinkId") REFERENCES "page_share_links"("id") ON DELETE SET NULL ON UPDATE CASCADE;
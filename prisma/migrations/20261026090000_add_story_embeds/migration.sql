@@ -0,0 +1,5 @@
+-- Embeddable story widgets: per-org allowed origins and the public quote widget key.
+ALTER TABLE "org_settings" ADD COLUMN "embedAllowedOrigins" TEXT[] DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "org_settings" ADD COLUMN "embedKey" TEXT;
+
+CREATE UNIQUE INDEX "org_settings_embedKey_key" ON "org_settings"("embedKey");
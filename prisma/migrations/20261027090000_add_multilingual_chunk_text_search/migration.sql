@@ -0,0 +1,15 @@
+-- Keyword search matches each transcript language with its own text-search
+-- config (see src/services/rag-keyword-search.ts); the English index exists
+-- already. The expressions must match the service exactly.
+
+CREATE INDEX IF NOT EXISTS "transcript_chunks_text_search_german_idx"
+  ON "transcript_chunks" USING gin (to_tsvector('german', "text"));
+
+CREATE INDEX IF NOT EXISTS "transcript_chunks_text_search_french_idx"
+  ON "transcript_chunks" USING gin (to_tsvector('french', "text"));
+
+CREATE INDEX IF NOT EXISTS "transcript_chunks_text_search_spanish_idx"
+  ON "transcript_chunks" USING gin (to_tsvector('spanish', "text"));
+
+CREATE INDEX IF NOT EXISTS "transcript_chunks_text_search_simple_idx"
+  ON "transcript_chunks" USING gin (to_tsvector('simple', "text"));
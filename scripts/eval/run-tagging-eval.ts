@@ -0,0 +1,172 @@
+/**
+ * Tagging evaluation gate.
+ *
+ *   npm run eval:tagging                      stub client, diff against the committed baseline
+ *   npm run eval:tagging -- --live --provider openai --model gpt-4o-mini
+ *   npm run eval:tagging:baseline             rewrite the committed baseline
+ *
+ * Options:
+ *   --dataset <version>   golden set version (default: latest)
+ *   --live                call a real provider; its key is read from
+ *                         OPENAI_API_KEY / ANTHROPIC_API_KEY / GOOGLE_AI_API_KEY
+ *   --provider, --model   provider and model for --live (default: openai, its default model)
+ *   --baseline <path>     baseline report (default: scripts/eval/tagging-baseline.json)
+ *   --out <path>          also write the full report as JSON
+ *   --update-baseline     write this run's report as the baseline
+ *
+ * Exits 1 when a metric regressed beyond tolerance or the baseline was run on
+ * another dataset version.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { PrismaClient } from "@prisma/client";
+import { createAIClient, DEFAULT_MODELS, type AIClient, type AIProviderName } from "../../src/services/ai-client.js";
+import {
+  GoldenSetStubAIClient,
+  compareTaggingEvaluations,
+  runTaggingEvaluation,
+  type TaggingEvaluationReport,
+} from "../../src/services/tagging-evaluation.js";
+import {
+  LATEST_TAGGING_GOLDEN_SET_VERSION,
+  TAGGING_GOLDEN_SETS,
+  type GoldenTaggingDataset,
+} from "../../src/services/tagging-golden-set.js";
+import { decodeTaggingEvaluationReport } from "../../src/types/json-boundaries.js";
+
+const repoRoot = path.resolve(new URL("../../", import.meta.url).pathname);
+const args = process.argv.slice(2);
+
+function option(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+const API_KEY_ENV: Record<AIProviderName, string> = {
+  openai: "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  google: "GOOGLE_AI_API_KEY",
+};
+
+function resolveClient(dataset: GoldenTaggingDataset): AIClient {
+  if (!args.includes("--live")) {
+    return new GoldenSetStubAIClient(dataset);
+  }
+  const provider = (option("provider") ?? "openai") as AIProviderName;
+  if (!(provider in API_KEY_ENV)) {
+    throw new Error(`Unknown provider "${provider}"`);
+  }
+  const apiKey = process.env[API_KEY_ENV[provider]];
+  if (!apiKey) {
+    throw new Error(`${API_KEY_ENV[provider]} is required for --live`);
+  }
+  return createAIClient(provider, apiKey, option("model") ?? DEFAULT_MODELS[provider]);
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function printReport(report: TaggingEvaluationReport): void {
+  console.log(
+    `Dataset ${report.datasetVersion} · ${report.provider}/${report.model} · prompt ${report.promptFingerprint}`
+  );
+  console.log(
+    `  micro P/R/F1 ${pct(report.microPrecision)} / ${pct(report.microRecall)} / ${pct(report.microF1)}` +
+      ` · macro F1 ${pct(report.macroF1)} · stage accuracy ${pct(report.stageAccuracy)}`
+  );
+  console.log(
+    `  calibration: ECE ${report.calibration.expectedCalibrationError.toFixed(3)}` +
+      ` · Brier ${report.calibration.brierScore.toFixed(3)} over ${report.calibration.sampleCount} tags`
+  );
+  if (report.failedItems.length > 0) {
+    console.log(`  failed segments: ${report.failedItems.join(", ")}`);
+  }
+  console.table(
+    report.topics.map((topic) => ({
+      topic: topic.topic,
+      support: topic.support,
+      precision: topic.precision,
+      recall: topic.recall,
+      f1: topic.f1,
+    }))
+  );
+  console.log("Stage confusion (rows expected, columns predicted):");
+  console.table(report.stageConfusion);
+}
+
+async function main(): Promise<number> {
+  const version = option("dataset") ?? LATEST_TAGGING_GOLDEN_SET_VERSION;
+  const dataset = TAGGING_GOLDEN_SETS[version];
+  if (!dataset) {
+    console.error(`Unknown golden set "${version}". Known: ${Object.keys(TAGGING_GOLDEN_SETS).join(", ")}`);
+    return 1;
+  }
+
+  // The tagger only needs Prisma for features the evaluation never uses,
+  // so this client is never connected.
+  const prisma = new PrismaClient();
+  const report = await runTaggingEvaluation(prisma, dataset, resolveClient(dataset));
+  printReport(report);
+
+  const outPath = option("out");
+  if (outPath) {
+    fs.writeFileSync(path.resolve(outPath), `${JSON.stringify(report, null, 2)}\n`);
+  }
+
+  const baselinePath = path.resolve(
+    option("baseline") ?? path.join(repoRoot, "scripts", "eval", "tagging-baseline.json")
+  );
+  if (args.includes("--update-baseline")) {
+    fs.writeFileSync(baselinePath, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`Tagging baseline updated at ${baselinePath}`);
+    return 0;
+  }
+  if (!fs.existsSync(baselinePath)) {
+    console.error(`No baseline at ${baselinePath}. Run: npm run eval:tagging:baseline`);
+    return 1;
+  }
+
+  const baseline = decodeTaggingEvaluationReport(JSON.parse(fs.readFileSync(baselinePath, "utf8")));
+  if (!baseline) {
+    console.error(`Baseline at ${baselinePath} is not a tagging evaluation report.`);
+    return 1;
+  }
+
+  const diff = compareTaggingEvaluations(report, baseline);
+  if (!diff.comparable) {
+    console.error(
+      `Baseline was run on golden set ${baseline.datasetVersion}, not ${report.datasetVersion}. Run: npm run eval:tagging:baseline`
+    );
+    return 1;
+  }
+  if (baseline.promptFingerprint !== report.promptFingerprint) {
+    console.log(
+      `Tagger prompt changed since the baseline (${baseline.promptFingerprint} → ${report.promptFingerprint}).` +
+        (report.provider === "stub" ? " The stub replays recorded answers; run with --live to measure the prompt." : "")
+    );
+  }
+  for (const change of diff.improvements) {
+    console.log(`Improved ${change.metric}: ${change.baseline} → ${change.current}`);
+  }
+  if (!diff.passed) {
+    console.error("Tagging evaluation regressed against the baseline:");
+    for (const change of diff.regressions) {
+      console.error(`- ${change.metric}: ${change.baseline} → ${change.current} (${change.delta})`);
+    }
+    console.error("If intended, run: npm run eval:tagging:baseline");
+    return 1;
+  }
+
+  console.log("Tagging evaluation passed.");
+  return 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
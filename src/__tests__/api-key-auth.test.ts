@@ -9,6 +9,7 @@ import {
   generateApiKey,
   createApiKeyAuth,
   requireScope,
+  getApiKeyAccountRestriction,
   type ApiKeyAuthRequest,
 } from "../middleware/api-key-auth.js";
 
@@ -340,3 +341,18 @@ describe("requireScope", () => {
     expect(res.status).toHaveBeenCalledWith(403);
   });
 });
+
+// ─── getApiKeyAccountRestriction ─────────────────────────────────────────────
+
+describe("getApiKeyAccountRestriction", () => {
+  it("returns null when the key has no account scopes", () => {
+    expect(getApiKeyAccountRestriction(["rag:query", "rag:portfolio"])).toBeNull();
+    expect(getApiKeyAccountRestriction(undefined)).toBeNull();
+  });
+
+  it("returns the account ids from account scopes", () => {
+    expect(
+      getApiKeyAccountRestriction(["rag:query", "account:acct_1", "account:acct_2", "account:"])
+    ).toEqual(["acct_1", "acct_2"]);
+  });
+});
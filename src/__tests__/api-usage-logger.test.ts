@@ -26,10 +26,12 @@ function mockRequest(
 
 function mockResponse(): EventEmitter & {
   statusCode: number;
+  locals: Record<string, unknown>;
   json: ReturnType<typeof vi.fn>;
 } {
   const res = new EventEmitter() as any;
   res.statusCode = 200;
+  res.locals = {};
   res.json = vi.fn().mockReturnValue(res);
   return res;
 }
@@ -120,6 +122,45 @@ describe("createApiUsageLogger", () => {
     });
   });
 
+  it("takes streamed token usage from res.locals", async () => {
+    const logger = createApiUsageLogger(prisma);
+    const res = mockResponse();
+
+    logger(mockRequest(), res as any, mockNext());
+    res.locals.tokensUsed = 321;
+    res.emit("finish");
+    res.emit("close");
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(prisma.apiUsageLog.create).toHaveBeenCalledTimes(1);
+    expect(prisma.apiUsageLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ tokensUsed: 321 }),
+    });
+  });
+
+  it("waits for a disconnected stream to settle its usage", async () => {
+    const logger = createApiUsageLogger(prisma);
+    const res = mockResponse();
+    let settle = () => {};
+    res.locals.usageSettled = new Promise<void>((resolve) => {
+      settle = resolve;
+    });
+
+    logger(mockRequest(), res as any, mockNext());
+    res.emit("close");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(prisma.apiUsageLog.create).not.toHaveBeenCalled();
+
+    res.locals.tokensUsed = 57;
+    settle();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(prisma.apiUsageLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ tokensUsed: 57 }),
+    });
+  });
+
   it("skips logging if no API key is on the request", () => {
     const logger = createApiUsageLogger(prisma);
     const req = mockRequest({ apiKeyId: undefined });
@@ -12,6 +12,7 @@ import { AIUsageTracker } from "../services/ai-usage-tracker.js";
 import { registerAISettingsUserRoutes } from "./ai-settings/user-routes.js";
 import { registerAISettingsAdminRoutes } from "./ai-settings/admin-routes.js";
 import { registerAISettingsBillingRoutes } from "./ai-settings/billing-routes.js";
+import { registerTaggingEvaluationRoutes } from "./ai-settings/tagging-evaluation-routes.js";
 
 export function createAISettingsRoutes(
   prisma: PrismaClient,
@@ -39,5 +40,12 @@ export function createAISettingsRoutes(
     usageTracker,
   });
 
+  registerTaggingEvaluationRoutes({
+    router,
+    prisma,
+    configService,
+    usageTracker,
+  });
+
   return router;
 }
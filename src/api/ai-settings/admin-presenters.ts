@@ -1,4 +1,8 @@
 import { PROVIDER_MODELS, type AIProviderName } from "../../services/ai-client.js";
+import type {
+  TaggingEvaluationDiff,
+  TaggingEvaluationReport,
+} from "../../services/tagging-evaluation.js";
 
 interface ProviderConfigViewModel {
   id: string;
@@ -114,3 +118,77 @@ export function presentUsageSummaryBucket(bucket: UsageSummaryBucketViewModel) {
     total_requests: bucket.totalRequests,
   };
 }
+
+interface TaggingEvaluationRunViewModel {
+  id: string;
+  datasetVersion: string;
+  provider: string;
+  model: string;
+  promptFingerprint: string;
+  microF1: number;
+  stageAccuracy: number;
+  calibrationError: number;
+  passed: boolean | null;
+  isBaseline: boolean;
+  createdByUserId: string | null;
+  createdAt: Date;
+}
+
+export function presentTaggingEvaluationRun(run: TaggingEvaluationRunViewModel) {
+  return {
+    id: run.id,
+    dataset_version: run.datasetVersion,
+    provider: run.provider,
+    model: run.model,
+    prompt_fingerprint: run.promptFingerprint,
+    micro_f1: run.microF1,
+    stage_accuracy: run.stageAccuracy,
+    calibration_error: run.calibrationError,
+    passed: run.passed,
+    is_baseline: run.isBaseline,
+    created_by_user_id: run.createdByUserId,
+    created_at: run.createdAt.toISOString(),
+  };
+}
+
+export function presentTaggingEvaluationReport(report: TaggingEvaluationReport) {
+  return {
+    item_count: report.itemCount,
+    failed_items: report.failedItems,
+    micro_precision: report.microPrecision,
+    micro_recall: report.microRecall,
+    micro_f1: report.microF1,
+    macro_f1: report.macroF1,
+    stage_accuracy: report.stageAccuracy,
+    stage_confusion: report.stageConfusion,
+    calibration: {
+      sample_count: report.calibration.sampleCount,
+      brier_score: report.calibration.brierScore,
+      expected_calibration_error: report.calibration.expectedCalibrationError,
+    },
+    topics: report.topics.map((topic) => ({
+      topic: topic.topic,
+      support: topic.support,
+      predicted: topic.predicted,
+      true_positives: topic.truePositives,
+      precision: topic.precision,
+      recall: topic.recall,
+      f1: topic.f1,
+    })),
+  };
+}
+
+export function presentTaggingEvaluationDiff(diff: TaggingEvaluationDiff) {
+  return {
+    comparable: diff.comparable,
+    passed: diff.passed,
+    regressions: diff.regressions,
+    improvements: diff.improvements,
+    baseline: {
+      dataset_version: diff.baseline.datasetVersion,
+      provider: diff.baseline.provider,
+      model: diff.baseline.model,
+      prompt_fingerprint: diff.baseline.promptFingerprint,
+    },
+  };
+}
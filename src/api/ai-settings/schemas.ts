@@ -66,3 +66,11 @@ export const BudgetAlertSettingsSchema = z.object({
   thresholds: z.array(z.number().int().min(1).max(100)).min(1).max(5),
   block_at_100: z.boolean().optional(),
 });
+
+export const RunTaggingEvaluationSchema = z.object({
+  dataset_version: z.string().min(1).optional(),
+  provider: z.enum(["openai", "anthropic", "google"]).optional(),
+  model: z.string().min(1).optional(),
+  /** Replay the golden set's recorded answers instead of calling a provider. */
+  use_stub: z.boolean().optional(),
+});
@@ -0,0 +1,188 @@
+import type { Response } from "express";
+import { requirePermission } from "../../middleware/permissions.js";
+import {
+  sendBadRequest,
+  sendCreated,
+  sendError,
+  sendNotFound,
+  sendSuccess,
+  sendUnauthorized,
+} from "../_shared/responses.js";
+import { parseRequestBody } from "../_shared/validators.js";
+import type { AIClient } from "../../services/ai-client.js";
+import { AIAccessDeniedError } from "../../services/ai-config.js";
+import { TrackedAIClient } from "../../services/tracked-ai-client.js";
+import {
+  GoldenSetStubAIClient,
+  recordTaggingEvaluationRun,
+  runTaggingEvaluation,
+  setTaggingEvaluationBaseline,
+} from "../../services/tagging-evaluation.js";
+import {
+  LATEST_TAGGING_GOLDEN_SET_VERSION,
+  TAGGING_GOLDEN_SETS,
+} from "../../services/tagging-golden-set.js";
+import { decodeTaggingEvaluationReport } from "../../types/json-boundaries.js";
+import { RunTaggingEvaluationSchema } from "./schemas.js";
+import type { AISettingsRouteContext, AuthReq } from "./types.js";
+import { asyncHandler } from "../../lib/async-handler.js";
+import {
+  presentTaggingEvaluationDiff,
+  presentTaggingEvaluationReport,
+  presentTaggingEvaluationRun,
+} from "./admin-presenters.js";
+
+const RUN_HISTORY_LIMIT = 50;
+
+/**
+ * Golden-set evaluation of transcript tagging, so admins can check a model
+ * or provider change before relying on it. Runs are stored per org and
+ * compared against the run the org marked as its baseline.
+ */
+export function registerTaggingEvaluationRoutes({
+  configService,
+  prisma,
+  router,
+  usageTracker,
+}: AISettingsRouteContext): void {
+  router.get(
+    "/admin/tagging-evaluations",
+    requirePermission(prisma, "manage_ai_settings"),
+    asyncHandler(async (req: AuthReq, res: Response) => {
+      if (!req.organizationId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const runs = await prisma.taggingEvaluationRun.findMany({
+        where: { organizationId: req.organizationId },
+        orderBy: { createdAt: "desc" },
+        take: RUN_HISTORY_LIMIT,
+      });
+
+      sendSuccess(res, {
+        datasets: Object.values(TAGGING_GOLDEN_SETS).map((dataset) => ({
+          version: dataset.version,
+          description: dataset.description,
+          item_count: dataset.items.length,
+          is_latest: dataset.version === LATEST_TAGGING_GOLDEN_SET_VERSION,
+        })),
+        runs: runs.map(presentTaggingEvaluationRun),
+      });
+    })
+  );
+
+  router.get(
+    "/admin/tagging-evaluations/:runId",
+    requirePermission(prisma, "manage_ai_settings"),
+    asyncHandler(async (req: AuthReq, res: Response) => {
+      if (!req.organizationId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const run = await prisma.taggingEvaluationRun.findFirst({
+        where: { id: req.params.runId as string, organizationId: req.organizationId },
+      });
+      const report = run ? decodeTaggingEvaluationReport(run.report) : null;
+      if (!run || !report) {
+        sendNotFound(res, "Evaluation run not found");
+        return;
+      }
+
+      sendSuccess(res, {
+        run: presentTaggingEvaluationRun(run),
+        report: presentTaggingEvaluationReport(report),
+      });
+    })
+  );
+
+  router.post(
+    "/admin/tagging-evaluations",
+    requirePermission(prisma, "manage_ai_settings"),
+    asyncHandler(async (req: AuthReq, res: Response) => {
+      const payload = parseRequestBody(RunTaggingEvaluationSchema, req.body, res);
+      if (!payload) {
+        return;
+      }
+
+      if (!req.organizationId || !req.userId || !req.userRole) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const dataset = TAGGING_GOLDEN_SETS[payload.dataset_version ?? LATEST_TAGGING_GOLDEN_SET_VERSION];
+      if (!dataset) {
+        sendBadRequest(res, "Unknown golden set version");
+        return;
+      }
+
+      let aiClient: AIClient;
+      if (payload.use_stub) {
+        aiClient = new GoldenSetStubAIClient(dataset);
+      } else {
+        try {
+          const resolved = await configService.resolveClient(
+            req.organizationId,
+            req.userId,
+            req.userRole,
+            { operation: "TRANSCRIPT_TAGGING", provider: payload.provider, model: payload.model }
+          );
+          aiClient = new TrackedAIClient(
+            resolved.client,
+            usageTracker,
+            {
+              organizationId: req.organizationId,
+              userId: req.userId,
+              operation: "TRANSCRIPT_TAGGING",
+            },
+            resolved.isPlatformBilled
+          );
+        } catch (err) {
+          if (err instanceof AIAccessDeniedError) {
+            sendError(res, 403, "ai_access_denied", err.message);
+            return;
+          }
+          throw err;
+        }
+      }
+
+      const report = await runTaggingEvaluation(prisma, dataset, aiClient);
+      const { run, diff, baselineRunId } = await recordTaggingEvaluationRun(prisma, {
+        organizationId: req.organizationId,
+        userId: req.userId,
+        report,
+      });
+
+      sendCreated(res, {
+        run: presentTaggingEvaluationRun(run),
+        report: presentTaggingEvaluationReport(report),
+        baseline_run_id: baselineRunId,
+        diff: diff ? presentTaggingEvaluationDiff(diff) : null,
+      });
+    })
+  );
+
+  router.post(
+    "/admin/tagging-evaluations/:runId/baseline",
+    requirePermission(prisma, "manage_ai_settings"),
+    asyncHandler(async (req: AuthReq, res: Response) => {
+      if (!req.organizationId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const run = await setTaggingEvaluationBaseline(
+        prisma,
+        req.organizationId,
+        req.params.runId as string
+      );
+      if (!run) {
+        sendNotFound(res, "Evaluation run not found");
+        return;
+      }
+
+      sendSuccess(res, { run: presentTaggingEvaluationRun(run) });
+    })
+  );
+}
@@ -0,0 +1,262 @@
+/**
+ * Chat Conversation Routes
+ *
+ * Persisted RAG chatbot threads for signed-in users:
+ *   GET    /api/rag/conversations                         — list own conversations
+ *   POST   /api/rag/conversations                         — start a conversation
+ *   GET    /api/rag/conversations/:id                     — resume (messages + own feedback)
+ *   DELETE /api/rag/conversations/:id                     — delete (blocked by legal hold)
+ *   PUT    /api/rag/conversations/:id/messages/:messageId/feedback
+ *                                                         — thumbs up/down, wrong citations
+ *
+ * Messages are written by POST /api/rag/chat and /chat/stream when the
+ * request carries `conversation_id`.
+ */
+
+import { Router, type Response } from "express";
+import { z } from "zod";
+import type { PrismaClient } from "@prisma/client";
+import type { AuthenticatedRequest } from "../types/authenticated-request.js";
+import { AccountAccessService } from "../services/account-access.js";
+import { AuditLogService } from "../services/audit-log.js";
+import {
+  ChatConversationService,
+  ChatFeedbackValidationError,
+} from "../services/chat-conversations.js";
+import { isLegalHoldEnabled } from "../services/data-governance.js";
+import {
+  sendBadRequest,
+  sendCreated,
+  sendError,
+  sendNotFound,
+  sendSuccess,
+  sendUnauthorized,
+} from "./_shared/responses.js";
+import { parseRequestBody } from "./_shared/validators.js";
+import { asyncHandler } from "../lib/async-handler.js";
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+const ListConversationsQuerySchema = z.object({
+  account_id: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+const CreateConversationSchema = z.object({
+  account_id: z.string().min(1).nullable(),
+  title: z.string().trim().min(1).max(200).optional(),
+});
+
+const ChatFeedbackSchema = z
+  .object({
+    rating: z.enum(["UP", "DOWN"]).nullable().optional(),
+    wrong_citations: z.array(z.number().int().min(1)).max(50).optional(),
+    notes: z.string().trim().max(2000).nullable().optional(),
+  })
+  .refine(
+    (value) =>
+      value.rating != null || (value.wrong_citations?.length ?? 0) > 0 || !!value.notes,
+    "Provide a rating, wrong citations or notes"
+  );
+
+// ─── Route Factory ───────────────────────────────────────────────────────────
+
+export function createChatConversationRoutes(prisma: PrismaClient): Router {
+  const router = Router();
+  const conversations = new ChatConversationService(prisma);
+  const accessService = new AccountAccessService(prisma);
+  const auditLogs = new AuditLogService(prisma);
+
+  router.get(
+    "/conversations",
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.organizationId || !req.userId) {
+        sendUnauthorized(res, "Authentication required");
+        return;
+      }
+      const query = parseRequestBody(ListConversationsQuerySchema, req.query, res);
+      if (!query) return;
+
+      const rows = await conversations.list(req.organizationId, req.userId, {
+        limit: query.limit ?? 50,
+        accountId: query.account_id,
+      });
+
+      sendSuccess(res, {
+        conversations: rows.map((row) => ({
+          id: row.id,
+          title: row.title,
+          account: row.account ? { id: row.account.id, name: row.account.name } : null,
+          message_count: row._count.messages,
+          last_message_at: row.lastMessageAt.toISOString(),
+          created_at: row.createdAt.toISOString(),
+        })),
+      });
+    })
+  );
+
+  router.post(
+    "/conversations",
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.organizationId || !req.userId) {
+        sendUnauthorized(res, "Authentication required");
+        return;
+      }
+      const payload = parseRequestBody(CreateConversationSchema, req.body, res);
+      if (!payload) return;
+
+      if (
+        payload.account_id &&
+        !(await accessService.canAccessAccount(
+          req.userId,
+          req.organizationId,
+          payload.account_id,
+          req.userRole
+        ))
+      ) {
+        sendError(res, 403, "permission_denied", "You do not have access to this account.");
+        return;
+      }
+
+      const conversation = await conversations.create(req.organizationId, req.userId, {
+        accountId: payload.account_id,
+        title: payload.title,
+      });
+
+      sendCreated(res, {
+        id: conversation.id,
+        title: conversation.title,
+        account_id: conversation.accountId,
+        created_at: conversation.createdAt.toISOString(),
+      });
+    })
+  );
+
+  router.get(
+    "/conversations/:conversationId",
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.organizationId || !req.userId) {
+        sendUnauthorized(res, "Authentication required");
+        return;
+      }
+
+      const conversation = await conversations.getWithMessages(
+        req.organizationId,
+        req.userId,
+        req.params.conversationId as string
+      );
+      if (!conversation) {
+        sendNotFound(res, "Conversation not found");
+        return;
+      }
+
+      sendSuccess(res, {
+        id: conversation.id,
+        title: conversation.title,
+        account: conversation.account
+          ? { id: conversation.account.id, name: conversation.account.name }
+          : null,
+        last_message_at: conversation.lastMessageAt.toISOString(),
+        created_at: conversation.createdAt.toISOString(),
+        messages: conversation.messages.map((message) => ({
+          id: message.id,
+          role: message.role === "ASSISTANT" ? "assistant" : "user",
+          content: message.content,
+          sources: message.sources ?? [],
+          tokens_used: message.tokensUsed,
+          created_at: message.createdAt.toISOString(),
+          feedback: message.feedback[0]
+            ? {
+                rating: message.feedback[0].rating,
+                wrong_citations: message.feedback[0].wrongCitations,
+                notes: message.feedback[0].notes,
+              }
+            : null,
+        })),
+      });
+    })
+  );
+
+  router.delete(
+    "/conversations/:conversationId",
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.organizationId || !req.userId) {
+        sendUnauthorized(res, "Authentication required");
+        return;
+      }
+
+      if (await isLegalHoldEnabled(prisma, req.organizationId)) {
+        sendError(
+          res,
+          423,
+          "legal_hold_active",
+          "Deletion is blocked because legal hold is enabled in your data governance policy."
+        );
+        return;
+      }
+
+      const conversationId = req.params.conversationId as string;
+      const deleted = await conversations.delete(req.organizationId, req.userId, conversationId);
+      if (!deleted) {
+        sendNotFound(res, "Conversation not found");
+        return;
+      }
+
+      await auditLogs.record({
+        organizationId: req.organizationId,
+        actorUserId: req.userId,
+        category: "GOVERNANCE",
+        action: "CHAT_CONVERSATION_DELETED",
+        targetType: "chat_conversation",
+        targetId: conversationId,
+        severity: "INFO",
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      sendSuccess(res, { deleted: true });
+    })
+  );
+
+  router.put(
+    "/conversations/:conversationId/messages/:messageId/feedback",
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.organizationId || !req.userId) {
+        sendUnauthorized(res, "Authentication required");
+        return;
+      }
+      const payload = parseRequestBody(ChatFeedbackSchema, req.body, res);
+      if (!payload) return;
+
+      try {
+        const feedback = await conversations.recordFeedback(req.organizationId, req.userId, {
+          conversationId: req.params.conversationId as string,
+          messageId: req.params.messageId as string,
+          rating: payload.rating,
+          wrongCitations: payload.wrong_citations,
+          notes: payload.notes,
+        });
+        if (!feedback) {
+          sendNotFound(res, "Message not found");
+          return;
+        }
+
+        sendSuccess(res, {
+          id: feedback.id,
+          rating: feedback.rating,
+          wrong_citations: feedback.wrongCitations,
+          notes: feedback.notes,
+          updated_at: feedback.updatedAt.toISOString(),
+        });
+      } catch (err) {
+        if (err instanceof ChatFeedbackValidationError) {
+          sendBadRequest(res, err.message);
+          return;
+        }
+        throw err;
+      }
+    })
+  );
+
+  return router;
+}
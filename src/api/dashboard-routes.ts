@@ -4,9 +4,16 @@
  * Provides:
  *   - Dashboard overview (stats, page list with filters)
  *   - Admin permission management (grant/revoke, org settings)
+ *   - Automation rule management
+ *   - Outbound webhook subscriptions and delivery log
+ *   - RAG vector store backend and reindexing
+ *   - Custom taxonomy topics and retagging
+ *   - Story and chatbot quality feedback report
+ *   - Tag confidence calibration history and refits
  */
 
 import { Router } from "express";
+import type { Queue } from "bullmq";
 import type { PrismaClient } from "@prisma/client";
 import { LandingPageEditor } from "../services/landing-page-editor.js";
 import { PermissionManager } from "../middleware/permissions.js";
@@ -21,13 +28,36 @@ import { registerAdminSettingsRoutes } from "./dashboard/admin-settings-routes.j
 import { registerDashboardOverviewRoutes } from "./dashboard/overview-routes.js";
 import { registerAccessControlRoutes } from "./dashboard/access-control-routes.js";
 import { registerAccountAccessRoutes } from "./dashboard/account-access-routes.js";
+import { registerAutomationRoutes } from "./dashboard/automation-routes.js";
+import { registerOutboundWebhookRoutes } from "./dashboard/outbound-webhook-routes.js";
+import { registerRagVectorStoreRoutes } from "./dashboard/rag-vector-store-routes.js";
+import { registerQualityFeedbackRoutes } from "./dashboard/quality-feedback-routes.js";
+import { registerCalibrationRoutes } from "./dashboard/calibration-routes.js";
+import { registerTranscriptRechunkRoutes } from "./dashboard/transcript-rechunk-routes.js";
+import { registerCustomTaxonomyRoutes } from "./dashboard/custom-taxonomy-routes.js";
 import type { RAGEngine } from "../services/rag-engine.js";
+import type { RagVectorReindexJobData } from "../services/rag-vector-reindex.js";
+import type { TranscriptRechunkJobData } from "../services/transcript-rechunk.js";
+import type { TaxonomyRetagJobData } from "../services/taxonomy-retag.js";
+import type {
+  AutomationEngine,
+  AutomationScheduleQueue,
+} from "../services/automation-engine.js";
+
+export interface DashboardRouteOptions {
+  automationEngine?: AutomationEngine;
+  automationQueue?: AutomationScheduleQueue;
+  ragVectorReindexQueue?: Queue<RagVectorReindexJobData>;
+  transcriptRechunkQueue?: Queue<TranscriptRechunkJobData>;
+  taxonomyRetagQueue?: Queue<TaxonomyRetagJobData>;
+}
 
 // ─── Route Factory ───────────────────────────────────────────────────────────
 
 export function createDashboardRoutes(
   prisma: PrismaClient,
-  ragEngine?: RAGEngine
+  ragEngine?: RAGEngine,
+  options: DashboardRouteOptions = {}
 ): Router {
   const router = Router();
   const editor = new LandingPageEditor(prisma);
@@ -102,5 +132,52 @@ export function createDashboardRoutes(
     auditLogs,
   });
 
+  registerAutomationRoutes({
+    router,
+    prisma,
+    auditLogs,
+    automationEngine: options.automationEngine,
+    automationQueue: options.automationQueue,
+  });
+
+  registerOutboundWebhookRoutes({
+    router,
+    prisma,
+    auditLogs,
+  });
+
+  registerRagVectorStoreRoutes({
+    router,
+    prisma,
+    auditLogs,
+    ragEngine,
+    ragVectorReindexQueue: options.ragVectorReindexQueue,
+  });
+
+  registerTranscriptRechunkRoutes({
+    router,
+    prisma,
+    auditLogs,
+    transcriptRechunkQueue: options.transcriptRechunkQueue,
+  });
+
+  registerCustomTaxonomyRoutes({
+    router,
+    prisma,
+    auditLogs,
+    taxonomyRetagQueue: options.taxonomyRetagQueue,
+  });
+
+  registerQualityFeedbackRoutes({
+    router,
+    prisma,
+  });
+
+  registerCalibrationRoutes({
+    router,
+    prisma,
+    auditLogs,
+  });
+
   return router;
 }
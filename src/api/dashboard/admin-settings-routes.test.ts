@@ -114,4 +114,29 @@ describe("admin settings routes", () => {
     expect(res.status).toBe(400);
     expect(res.body.error).toBe("validation_error");
   });
+
+  it("normalizes embed origins and creates the embed key on PATCH /api/dashboard/embed-settings", async () => {
+    prisma.orgSettings.upsert = vi.fn().mockImplementation(({ update }) =>
+      Promise.resolve({ embedAllowedOrigins: update.embedAllowedOrigins, embedKey: update.embedKey })
+    );
+    const app = buildApp(prisma, permManager);
+    const res = await request(app)
+      .patch("/api/dashboard/embed-settings")
+      .send({ allowed_origins: ["https://www.example.com/", "https://www.example.com"] });
+
+    expect(res.status).toBe(200);
+    expect(res.body.allowed_origins).toEqual(["https://www.example.com"]);
+    expect(res.body.embed_key).toMatch(/^[A-Za-z0-9_-]{24}$/);
+    expect(res.body.quote_embed_url).toContain(`/embed/quotes/${res.body.embed_key}`);
+  });
+
+  it("rejects embed origins with paths or wildcards", async () => {
+    const app = buildApp(prisma, permManager);
+    const res = await request(app)
+      .patch("/api/dashboard/embed-settings")
+      .send({ allowed_origins: ["https://*.example.com", "https://example.com/blog"] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe("validation_error");
+  });
 });
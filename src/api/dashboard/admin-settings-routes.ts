@@ -3,6 +3,13 @@ import type { PrismaClient, UserRole } from "@prisma/client";
 import { requirePermission, type PermissionManager } from "../../middleware/permissions.js";
 import type { AuditLogService } from "../../services/audit-log.js";
 import { AdminSettingsService } from "../../services/admin-settings.js";
+import { DEFAULT_PAGE_ANALYTICS_RETENTION_DAYS } from "../../services/page-analytics-helpers.js";
+import { StoryEmbedService, type EmbedSettings } from "../../services/story-embeds.js";
+import {
+  buildQuoteEmbedUrl,
+  getEmbedBaseUrl,
+  normalizeEmbedOrigin,
+} from "../../services/story-embed-helpers.js";
 import { sendSuccess, sendNotFound, sendConflict } from "../_shared/responses.js";
 import { parseRequestBody } from "../_shared/validators.js";
 import type { AuthenticatedRequest } from "../../types/authenticated-request.js";
@@ -11,6 +18,7 @@ import {
   CreateDeletionRequestSchema,
   DataGovernanceSchema,
   type DeleteGovernedTarget,
+  EmbedSettingsSchema,
   ReviewDeletionRequestSchema,
   StoryContextSchema,
   UpdateOrgSettingsSchema,
@@ -32,6 +40,19 @@ export function registerAdminSettingsRoutes({
   deleteGovernedTarget,
 }: RegisterAdminSettingsRoutesOptions): void {
   const settingsService = new AdminSettingsService(prisma);
+  const embedService = new StoryEmbedService(prisma);
+
+  const formatEmbedSettings = (settings: EmbedSettings) => {
+    const baseUrl = getEmbedBaseUrl();
+    return {
+      allowed_origins: settings.allowedOrigins,
+      embed_key: settings.embedKey,
+      widget_url: `${baseUrl}/embed/widget.js`,
+      oembed_url: `${baseUrl}/embed/oembed`,
+      page_embed_url_template: `${baseUrl}/embed/pages/{slug}`,
+      quote_embed_url: settings.embedKey ? buildQuoteEmbedUrl(baseUrl, settings.embedKey) : null,
+    };
+  };
 
   // ── Admin: Org Settings ─────────────────────────────────────────────
 
@@ -106,6 +127,7 @@ export function registerAdminSettingsRoutes({
         banned_claims: context.bannedClaims ?? [],
         writing_style_guide: context.writingStyleGuide ?? "",
         approved_terminology: context.approvedTerminology ?? [],
+        competitors: context.competitors ?? [],
         published_branding: {
           brand_name: branding.brandName ?? "",
           logo_url: branding.logoUrl ?? "",
@@ -149,6 +171,49 @@ export function registerAdminSettingsRoutes({
     })
   );
 
+  // ── Admin: Story Embeds ──────────────────────────────────────────
+
+  router.get(
+    "/embed-settings",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const settings = await embedService.getSettings(req.organizationId!);
+      sendSuccess(res, formatEmbedSettings(settings));
+    })
+  );
+
+  router.patch(
+    "/embed-settings",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const payload = parseRequestBody(EmbedSettingsSchema, req.body, res);
+      if (!payload) {
+        return;
+      }
+
+      const settings = await embedService.updateSettings(req.organizationId!, {
+        allowedOrigins: payload.allowed_origins?.map((origin) => normalizeEmbedOrigin(origin)!),
+        rotateKey: payload.rotate_key,
+      });
+      await auditLogs.record({
+        organizationId: req.organizationId!,
+        actorUserId: req.userId!,
+        category: "POLICY",
+        action: "EMBED_SETTINGS_UPDATED",
+        targetType: "org_settings",
+        targetId: req.organizationId!,
+        severity: "WARN",
+        metadata: {
+          allowed_origins: settings.allowedOrigins,
+          key_rotated: payload.rotate_key ?? false,
+        },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+      sendSuccess(res, formatEmbedSettings(settings));
+    })
+  );
+
   // ── Admin: Data Governance Policy ────────────────────────────────
 
   router.get(
@@ -165,6 +230,11 @@ export function registerAdminSettingsRoutes({
         allow_named_story_exports: policy.allow_named_story_exports ?? false,
         rto_target_minutes: policy.rto_target_minutes ?? 240,
         rpo_target_minutes: policy.rpo_target_minutes ?? 60,
+        story_lint_publish_mode: policy.story_lint_publish_mode ?? "WARN",
+        page_analytics_enabled: policy.page_analytics_enabled ?? true,
+        page_analytics_cookies_enabled: policy.page_analytics_cookies_enabled ?? false,
+        page_analytics_retention_days:
+          policy.page_analytics_retention_days ?? DEFAULT_PAGE_ANALYTICS_RETENTION_DAYS,
       });
     })
   );
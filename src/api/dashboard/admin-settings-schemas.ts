@@ -1,6 +1,10 @@
 import { z } from "zod";
 import { STORY_LENGTHS, STORY_OUTLINES, STORY_TYPES } from "../../types/story-generation.js";
 import { STORY_FORMATS } from "../../types/taxonomy.js";
+import {
+  MAX_EMBED_ALLOWED_ORIGINS,
+  normalizeEmbedOrigin,
+} from "../../services/story-embed-helpers.js";
 
 export const UpdateOrgSettingsSchema = z.object({
   landing_pages_enabled: z.boolean().optional(),
@@ -23,7 +27,8 @@ export const StoryContextSchema = z.object({
   proof_points: z.array(z.string().min(1).max(400)).optional(),
   banned_claims: z.array(z.string().min(1).max(300)).optional(),
   writing_style_guide: z.string().max(4000).optional(),
-  approved_terminology: z.array(z.string().min(1).max(80)).optional(),
+  approved_terminology: z.array(z.string().min(1).max(300)).optional(),
+  competitors: z.array(z.string().min(1).max(120)).optional(),
   published_branding: z
     .object({
       brand_name: z.string().max(120).optional(),
@@ -70,6 +75,25 @@ export const DataGovernanceSchema = z.object({
     .min(5)
     .max(60 * 24 * 14)
     .optional(),
+  story_lint_publish_mode: z.enum(["WARN", "BLOCK_ERRORS", "BLOCK_WARNINGS"]).optional(),
+  page_analytics_enabled: z.boolean().optional(),
+  page_analytics_cookies_enabled: z.boolean().optional(),
+  page_analytics_retention_days: z.number().int().min(7).max(730).optional(),
+});
+
+export const EmbedSettingsSchema = z.object({
+  allowed_origins: z
+    .array(
+      z
+        .string()
+        .max(300)
+        .refine((value) => normalizeEmbedOrigin(value) !== null, {
+          message: "Must be an origin such as https://www.example.com",
+        })
+    )
+    .max(MAX_EMBED_ALLOWED_ORIGINS)
+    .optional(),
+  rotate_key: z.boolean().optional(),
 });
 
 export const CreateDeletionRequestSchema = z.object({
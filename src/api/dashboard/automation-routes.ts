@@ -0,0 +1,326 @@
+import { type Response, type Router } from "express";
+import type { AutomationRule, AutomationRuleRun, PrismaClient } from "@prisma/client";
+import { requirePermission } from "../../middleware/permissions.js";
+import type { AuditLogService } from "../../services/audit-log.js";
+import {
+  AUTOMATION_EVENT_TYPES,
+  AUTOMATION_METRICS,
+  AUTOMATION_OPERATORS,
+  AutomationEngine,
+  removeAutomationRuleSchedule,
+  syncAutomationRuleSchedule,
+  type AutomationScheduleQueue,
+} from "../../services/automation-engine.js";
+import { decodeJsonObject, encodeJsonValue } from "../../types/json-boundaries.js";
+import logger from "../../lib/logger.js";
+import { sendSuccess, sendCreated, sendNotFound } from "../_shared/responses.js";
+import { parseRequestBody } from "../_shared/validators.js";
+import type { AuthenticatedRequest } from "../../types/authenticated-request.js";
+import { asyncHandler } from "../../lib/async-handler.js";
+import {
+  CreateAutomationRuleSchema,
+  UpdateAutomationRuleSchema,
+  type CreateAutomationRuleInput,
+} from "./automation-schemas.js";
+
+interface RegisterAutomationRoutesOptions {
+  router: Router;
+  prisma: PrismaClient;
+  auditLogs: AuditLogService;
+  automationEngine?: AutomationEngine;
+  automationQueue?: AutomationScheduleQueue;
+}
+
+function serializeRule(rule: AutomationRule) {
+  return {
+    id: rule.id,
+    name: rule.name,
+    description: rule.description,
+    enabled: rule.enabled,
+    trigger_type: rule.triggerType,
+    metric: rule.metric,
+    operator: rule.operator,
+    threshold: rule.threshold,
+    schedule_cron: rule.scheduleCron,
+    event_type: rule.eventType,
+    delivery_type: rule.deliveryType,
+    delivery_target: rule.deliveryTarget,
+    payload_template: rule.payloadTemplate ? decodeJsonObject(rule.payloadTemplate) : null,
+    last_run_at: rule.lastRunAt,
+    last_run_status: rule.lastRunStatus,
+    last_run_error: rule.lastRunError,
+    created_at: rule.createdAt,
+    updated_at: rule.updatedAt,
+  };
+}
+
+function serializeRun(run: AutomationRuleRun) {
+  return {
+    id: run.id,
+    trigger: run.trigger,
+    status: run.status,
+    metric_value: run.metricValue,
+    event_type: run.eventType,
+    rendered_payload: run.renderedPayload ? decodeJsonObject(run.renderedPayload) : null,
+    error: run.error,
+    duration_ms: run.durationMs,
+    created_at: run.createdAt,
+  };
+}
+
+/** Maps validated snake_case input to Prisma columns, clearing fields the trigger does not use. */
+function toRuleData(input: CreateAutomationRuleInput) {
+  return {
+    name: input.name,
+    description: input.description ?? null,
+    enabled: input.enabled ?? true,
+    triggerType: input.trigger_type,
+    metric: input.trigger_type === "THRESHOLD" ? input.metric ?? null : null,
+    operator: input.trigger_type === "THRESHOLD" ? input.operator ?? null : null,
+    threshold: input.trigger_type === "THRESHOLD" ? input.threshold ?? null : null,
+    scheduleCron: input.trigger_type === "SCHEDULE" ? input.schedule_cron ?? null : null,
+    eventType: input.trigger_type === "EVENT" ? input.event_type ?? null : null,
+    deliveryType: input.delivery_type,
+    deliveryTarget: input.delivery_target,
+    payloadTemplate: input.payload_template ? encodeJsonValue(input.payload_template) : undefined,
+  };
+}
+
+export function registerAutomationRoutes({
+  router,
+  prisma,
+  auditLogs,
+  automationEngine = new AutomationEngine(prisma),
+  automationQueue,
+}: RegisterAutomationRoutesOptions): void {
+  // ── Admin: Automation Rules ──────────────────────────────────────────
+
+  const syncSchedule = async (rule: AutomationRule): Promise<void> => {
+    if (!automationQueue) return;
+    await syncAutomationRuleSchedule(automationQueue, rule).catch((err: Error) => {
+      logger.error("Automation schedule sync failed", {
+        ruleId: rule.id,
+        error: err.message,
+      });
+    });
+  };
+
+  /**
+   * GET /api/dashboard/automations
+   *
+   * Lists the org's automation rules plus the metrics, operators and event
+   * types a rule may reference.
+   */
+  router.get(
+    "/automations",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const rules = await prisma.automationRule.findMany({
+        where: { organizationId: req.organizationId! },
+        orderBy: { createdAt: "desc" },
+      });
+      sendSuccess(res, {
+        rules: rules.map(serializeRule),
+        supported_metrics: AUTOMATION_METRICS,
+        supported_operators: AUTOMATION_OPERATORS,
+        supported_events: AUTOMATION_EVENT_TYPES,
+      });
+    })
+  );
+
+  /**
+   * POST /api/dashboard/automations
+   */
+  router.post(
+    "/automations",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const payload = parseRequestBody(CreateAutomationRuleSchema, req.body, res);
+      if (!payload) {
+        return;
+      }
+
+      const rule = await prisma.automationRule.create({
+        data: {
+          organizationId: req.organizationId!,
+          ...toRuleData(payload),
+        },
+      });
+      await syncSchedule(rule);
+
+      await auditLogs.record({
+        organizationId: req.organizationId!,
+        actorUserId: req.userId!,
+        category: "AUTOMATION",
+        action: "AUTOMATION_RULE_CREATED",
+        targetType: "automation_rule",
+        targetId: rule.id,
+        severity: "INFO",
+        metadata: {
+          trigger_type: rule.triggerType,
+          delivery_type: rule.deliveryType,
+        },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      sendCreated(res, { id: rule.id, rule: serializeRule(rule) });
+    })
+  );
+
+  /**
+   * PATCH /api/dashboard/automations/:ruleId
+   *
+   * Partial update. The merged rule is re-validated as a whole so switching
+   * trigger types cannot leave a rule without its required fields.
+   */
+  router.patch(
+    "/automations/:ruleId",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const patch = parseRequestBody(UpdateAutomationRuleSchema, req.body, res);
+      if (!patch) {
+        return;
+      }
+
+      const existing = await prisma.automationRule.findFirst({
+        where: { id: req.params.ruleId as string, organizationId: req.organizationId! },
+      });
+      if (!existing) {
+        sendNotFound(res, "Automation rule not found");
+        return;
+      }
+
+      const current = serializeRule(existing);
+      const merged = parseRequestBody(
+        CreateAutomationRuleSchema,
+        {
+          name: current.name,
+          description: current.description ?? undefined,
+          enabled: current.enabled,
+          trigger_type: current.trigger_type,
+          metric: current.metric ?? undefined,
+          operator: current.operator ?? undefined,
+          threshold: current.threshold ?? undefined,
+          schedule_cron: current.schedule_cron ?? undefined,
+          event_type: current.event_type ?? undefined,
+          delivery_type: current.delivery_type,
+          delivery_target: current.delivery_target,
+          payload_template: current.payload_template ?? undefined,
+          ...patch,
+        },
+        res
+      );
+      if (!merged) {
+        return;
+      }
+
+      const rule = await prisma.automationRule.update({
+        where: { id: existing.id },
+        data: toRuleData(merged),
+      });
+      await syncSchedule(rule);
+
+      await auditLogs.record({
+        organizationId: req.organizationId!,
+        actorUserId: req.userId!,
+        category: "AUTOMATION",
+        action: "AUTOMATION_RULE_UPDATED",
+        targetType: "automation_rule",
+        targetId: rule.id,
+        severity: "INFO",
+        metadata: { updated_fields: Object.keys(patch) },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      sendSuccess(res, { rule: serializeRule(rule) });
+    })
+  );
+
+  /**
+   * DELETE /api/dashboard/automations/:ruleId
+   */
+  router.delete(
+    "/automations/:ruleId",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const ruleId = req.params.ruleId as string;
+      const result = await prisma.automationRule.deleteMany({
+        where: { id: ruleId, organizationId: req.organizationId! },
+      });
+      if (result.count === 0) {
+        sendNotFound(res, "Automation rule not found");
+        return;
+      }
+      if (automationQueue) {
+        await removeAutomationRuleSchedule(automationQueue, ruleId).catch((err: Error) => {
+          logger.error("Automation schedule removal failed", { ruleId, error: err.message });
+        });
+      }
+
+      await auditLogs.record({
+        organizationId: req.organizationId!,
+        actorUserId: req.userId!,
+        category: "AUTOMATION",
+        action: "AUTOMATION_RULE_DELETED",
+        targetType: "automation_rule",
+        targetId: ruleId,
+        severity: "WARN",
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      sendSuccess(res, { deleted: true });
+    })
+  );
+
+  /**
+   * POST /api/dashboard/automations/:ruleId/run
+   *
+   * Fires a rule immediately (test delivery) and records the run.
+   */
+  router.post(
+    "/automations/:ruleId/run",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const rule = await prisma.automationRule.findFirst({
+        where: { id: req.params.ruleId as string, organizationId: req.organizationId! },
+      });
+      if (!rule) {
+        sendNotFound(res, "Automation rule not found");
+        return;
+      }
+
+      const result = await automationEngine.runManually(rule);
+      sendSuccess(res, { status: result.status, error: result.error });
+    })
+  );
+
+  /**
+   * GET /api/dashboard/automations/:ruleId/runs
+   *
+   * Recent run history for a rule, newest first.
+   */
+  router.get(
+    "/automations/:ruleId/runs",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const rule = await prisma.automationRule.findFirst({
+        where: { id: req.params.ruleId as string, organizationId: req.organizationId! },
+        select: { id: true },
+      });
+      if (!rule) {
+        sendNotFound(res, "Automation rule not found");
+        return;
+      }
+      const limit = Number(req.query.limit ?? 50);
+      const runs = await automationEngine.listRuns(
+        req.organizationId!,
+        rule.id,
+        Number.isFinite(limit) ? limit : 50
+      );
+      sendSuccess(res, { runs: runs.map(serializeRun) });
+    })
+  );
+}
@@ -0,0 +1,84 @@
+import { z } from "zod";
+import {
+  AUTOMATION_EVENT_TYPES,
+  AUTOMATION_METRICS,
+  AUTOMATION_OPERATORS,
+  isValidAutomationCron,
+} from "../../services/automation-engine.js";
+import { assertSlackWebhookUrl } from "../../services/slack-approval-notifier.js";
+
+const AutomationRuleFieldsSchema = z.object({
+  name: z.string().min(1).max(120),
+  description: z.string().max(1000).optional(),
+  enabled: z.boolean().optional(),
+  trigger_type: z.enum(["THRESHOLD", "SCHEDULE", "EVENT"]),
+  metric: z.enum(AUTOMATION_METRICS).optional(),
+  operator: z.enum(AUTOMATION_OPERATORS).optional(),
+  threshold: z.number().finite().optional(),
+  schedule_cron: z
+    .string()
+    .max(120)
+    .refine(isValidAutomationCron, "Invalid cron expression")
+    .optional(),
+  event_type: z.enum(AUTOMATION_EVENT_TYPES as [string, ...string[]]).optional(),
+  delivery_type: z.enum(["SLACK", "EMAIL", "WEBHOOK"]),
+  delivery_target: z.string().min(1).max(2000),
+  payload_template: z.record(z.unknown()).optional(),
+});
+
+type AutomationRuleFields = z.infer<typeof AutomationRuleFieldsSchema>;
+
+function checkTriggerFields(
+  value: Partial<AutomationRuleFields>,
+  ctx: z.RefinementCtx
+): void {
+  if (value.trigger_type === "THRESHOLD") {
+    if (!value.metric) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["metric"], message: "Required for THRESHOLD rules" });
+    }
+    if (!value.operator) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["operator"], message: "Required for THRESHOLD rules" });
+    }
+    if (value.threshold === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["threshold"], message: "Required for THRESHOLD rules" });
+    }
+  }
+  if (value.trigger_type === "SCHEDULE" && !value.schedule_cron) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["schedule_cron"], message: "Required for SCHEDULE rules" });
+  }
+  if (value.trigger_type === "EVENT" && !value.event_type) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["event_type"], message: "Required for EVENT rules" });
+  }
+  if (value.delivery_type === "SLACK" && value.delivery_target) {
+    try {
+      assertSlackWebhookUrl(value.delivery_target);
+    } catch (err) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["delivery_target"],
+        message: err instanceof Error ? err.message : "Invalid Slack webhook URL",
+      });
+    }
+  }
+  if (value.delivery_type === "EMAIL" && value.delivery_target) {
+    const recipients = value.delivery_target.split(/[,;\s]+/).filter(Boolean);
+    if (recipients.length === 0 || recipients.some((email) => !z.string().email().safeParse(email).success)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["delivery_target"],
+        message: "Provide one or more comma-separated email addresses",
+      });
+    }
+  }
+}
+
+export const CreateAutomationRuleSchema = AutomationRuleFieldsSchema.superRefine(checkTriggerFields);
+
+/**
+ * PATCH bodies are partial; the route merges them onto the stored rule and
+ * re-validates the result with CreateAutomationRuleSchema.
+ */
+export const UpdateAutomationRuleSchema = AutomationRuleFieldsSchema.partial();
+
+export type CreateAutomationRuleInput = z.infer<typeof CreateAutomationRuleSchema>;
+export type UpdateAutomationRuleInput = z.infer<typeof UpdateAutomationRuleSchema>;
@@ -0,0 +1,119 @@
+import { type Response, type Router } from "express";
+import type { CalibrationReport, PrismaClient } from "@prisma/client";
+import { requirePermission } from "../../middleware/permissions.js";
+import type { AuditLogService } from "../../services/audit-log.js";
+import {
+  MIN_REFIT_SAMPLES,
+  refitOrganizationCalibration,
+} from "../../services/active-learning.js";
+import { sendConflict, sendCreated, sendSuccess } from "../_shared/responses.js";
+import { parseRequestBody } from "../_shared/validators.js";
+import type { AuthenticatedRequest } from "../../types/authenticated-request.js";
+import { asyncHandler } from "../../lib/async-handler.js";
+import { decodeCalibrationCurve } from "../../types/json-boundaries.js";
+import { CalibrationReportsQuerySchema } from "./calibration-schemas.js";
+
+const DEFAULT_REPORT_LIMIT = 30;
+
+interface RegisterCalibrationRoutesOptions {
+  router: Router;
+  prisma: PrismaClient;
+  auditLogs: AuditLogService;
+}
+
+function serializeCalibrationReport(report: CalibrationReport) {
+  return {
+    id: report.id,
+    sample_count: report.sampleCount,
+    brier_score: report.brierScore,
+    calibrated_brier_score: report.calibratedBrierScore,
+    buckets: report.buckets,
+    calibration_curve: decodeCalibrationCurve(report.calibrationCurve).map((point) => ({
+      raw_confidence: point.rawConfidence,
+      empirical_accuracy: point.empiricalAccuracy,
+    })),
+    created_at: report.createdAt.toISOString(),
+  };
+}
+
+export function registerCalibrationRoutes({
+  router,
+  prisma,
+  auditLogs,
+}: RegisterCalibrationRoutesOptions): void {
+  // ── Analytics: Tag Confidence Calibration ────────────────────────────
+
+  /**
+   * GET /api/dashboard/calibration/reports?limit=30
+   *
+   * Calibration history, newest first, with the review and labeling queue
+   * counts that feed the next refit.
+   */
+  router.get(
+    "/calibration/reports",
+    requirePermission(prisma, "view_analytics"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const query = parseRequestBody(CalibrationReportsQuerySchema, req.query, res);
+      if (!query) return;
+
+      const organizationId = req.organizationId!;
+      const [reports, reviewCount, pendingLabels] = await Promise.all([
+        prisma.calibrationReport.findMany({
+          where: { organizationId },
+          orderBy: { createdAt: "desc" },
+          take: query.limit ?? DEFAULT_REPORT_LIMIT,
+        }),
+        prisma.validationSample.count({ where: { organizationId, source: "REVIEW" } }),
+        prisma.labelingQueueItem.count({ where: { organizationId, status: "PENDING" } }),
+      ]);
+
+      sendSuccess(res, {
+        reports: reports.map(serializeCalibrationReport),
+        review_count: reviewCount,
+        pending_labels: pendingLabels,
+        min_refit_samples: MIN_REFIT_SAMPLES,
+      });
+    })
+  );
+
+  /**
+   * POST /api/dashboard/calibration/refit
+   *
+   * Refits the org's curve now instead of waiting for the nightly sweep.
+   * New tagging uses the new curve; existing tags keep their confidence.
+   */
+  router.post(
+    "/calibration/refit",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const organizationId = req.organizationId!;
+      const report = await refitOrganizationCalibration(prisma, organizationId);
+      if (!report) {
+        sendConflict(
+          res,
+          `At least ${MIN_REFIT_SAMPLES} tag reviews are needed before calibration can be refitted`
+        );
+        return;
+      }
+
+      await auditLogs.record({
+        organizationId,
+        actorUserId: req.userId!,
+        category: "ADMIN",
+        action: "CALIBRATION_REFITTED",
+        targetType: "calibration_report",
+        targetId: report.id,
+        severity: "INFO",
+        metadata: {
+          sample_count: report.sampleCount,
+          brier_score: report.brierScore,
+          calibrated_brier_score: report.calibratedBrierScore,
+        },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      sendCreated(res, { report: serializeCalibrationReport(report) });
+    })
+  );
+}
@@ -0,0 +1,261 @@
+import { type Response, type Router } from "express";
+import type { CustomTaxonomyTopic, PrismaClient } from "@prisma/client";
+import type { Queue } from "bullmq";
+import { requirePermission } from "../../middleware/permissions.js";
+import type { AuditLogService } from "../../services/audit-log.js";
+import {
+  MAX_CUSTOM_TOPICS,
+  customTopicKeyFromLabel,
+  deleteCustomTopicTags,
+} from "../../services/custom-taxonomy.js";
+import type { TaxonomyRetagJobData } from "../../services/taxonomy-retag.js";
+import { isCustomTopicKey, type CustomTopicKey } from "../../types/taxonomy.js";
+import {
+  sendBadRequest,
+  sendConflict,
+  sendCreated,
+  sendNotFound,
+  sendServiceUnavailable,
+  sendSuccess,
+} from "../_shared/responses.js";
+import { parseRequestBody } from "../_shared/validators.js";
+import type { AuthenticatedRequest } from "../../types/authenticated-request.js";
+import { asyncHandler } from "../../lib/async-handler.js";
+import { CreateCustomTopicSchema, UpdateCustomTopicSchema } from "./custom-taxonomy-schemas.js";
+
+interface RegisterCustomTaxonomyRoutesOptions {
+  router: Router;
+  prisma: PrismaClient;
+  auditLogs: AuditLogService;
+  taxonomyRetagQueue?: Pick<Queue<TaxonomyRetagJobData>, "add">;
+}
+
+export function serializeCustomTopic(topic: CustomTaxonomyTopic) {
+  return {
+    key: topic.key,
+    label: topic.label,
+    description: topic.description,
+    funnel_stage: topic.funnelStage,
+    example_phrases: topic.examplePhrases,
+    created_at: topic.createdAt,
+    updated_at: topic.updatedAt,
+  };
+}
+
+export function registerCustomTaxonomyRoutes({
+  router,
+  prisma,
+  auditLogs,
+  taxonomyRetagQueue,
+}: RegisterCustomTaxonomyRoutesOptions): void {
+  // ── Admin: Custom Taxonomy Topics ────────────────────────────────────
+
+  const findTopic = (organizationId: string, key: string) =>
+    isCustomTopicKey(key)
+      ? prisma.customTaxonomyTopic.findUnique({
+          where: { organizationId_key: { organizationId, key } },
+        })
+      : Promise.resolve(null);
+
+  /**
+   * GET /api/dashboard/taxonomy/topics
+   *
+   * Lists the org's custom topics. Built-in topics are not included.
+   */
+  router.get(
+    "/taxonomy/topics",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const topics = await prisma.customTaxonomyTopic.findMany({
+        where: { organizationId: req.organizationId! },
+        orderBy: [{ funnelStage: "asc" }, { label: "asc" }],
+      });
+      sendSuccess(res, {
+        topics: topics.map(serializeCustomTopic),
+        max_topics: MAX_CUSTOM_TOPICS,
+      });
+    })
+  );
+
+  /**
+   * POST /api/dashboard/taxonomy/topics
+   *
+   * Creates a topic. Its key is derived from the label and is fixed from
+   * then on. New calls are tagged with it immediately; existing calls only
+   * after a retag.
+   */
+  router.post(
+    "/taxonomy/topics",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const payload = parseRequestBody(CreateCustomTopicSchema, req.body, res);
+      if (!payload) {
+        return;
+      }
+
+      const organizationId = req.organizationId!;
+      const key = customTopicKeyFromLabel(payload.label);
+      if (!key) {
+        sendBadRequest(res, "Label must contain at least one letter or digit");
+        return;
+      }
+      const count = await prisma.customTaxonomyTopic.count({ where: { organizationId } });
+      if (count >= MAX_CUSTOM_TOPICS) {
+        sendConflict(res, `An organization can define at most ${MAX_CUSTOM_TOPICS} custom topics`);
+        return;
+      }
+      if (await findTopic(organizationId, key)) {
+        sendConflict(res, `A custom topic with key "${key}" already exists`);
+        return;
+      }
+
+      const topic = await prisma.customTaxonomyTopic.create({
+        data: {
+          organizationId,
+          key,
+          label: payload.label,
+          description: payload.description,
+          funnelStage: payload.funnel_stage,
+          examplePhrases: payload.example_phrases ?? [],
+        },
+      });
+
+      await auditLogs.record({
+        organizationId,
+        actorUserId: req.userId!,
+        category: "ADMIN",
+        action: "CUSTOM_TOPIC_CREATED",
+        targetType: "custom_taxonomy_topic",
+        targetId: topic.key,
+        severity: "INFO",
+        metadata: { funnel_stage: topic.funnelStage },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      sendCreated(res, { topic: serializeCustomTopic(topic) });
+    })
+  );
+
+  /**
+   * PATCH /api/dashboard/taxonomy/topics/:key
+   */
+  router.patch(
+    "/taxonomy/topics/:key",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const patch = parseRequestBody(UpdateCustomTopicSchema, req.body, res);
+      if (!patch) {
+        return;
+      }
+
+      const existing = await findTopic(req.organizationId!, req.params.key as string);
+      if (!existing) {
+        sendNotFound(res, "Custom topic not found");
+        return;
+      }
+
+      const topic = await prisma.customTaxonomyTopic.update({
+        where: { id: existing.id },
+        data: {
+          label: patch.label,
+          description: patch.description,
+          funnelStage: patch.funnel_stage,
+          examplePhrases: patch.example_phrases,
+        },
+      });
+
+      await auditLogs.record({
+        organizationId: req.organizationId!,
+        actorUserId: req.userId!,
+        category: "ADMIN",
+        action: "CUSTOM_TOPIC_UPDATED",
+        targetType: "custom_taxonomy_topic",
+        targetId: topic.key,
+        severity: "INFO",
+        metadata: { updated_fields: Object.keys(patch) },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      sendSuccess(res, { topic: serializeCustomTopic(topic) });
+    })
+  );
+
+  /**
+   * DELETE /api/dashboard/taxonomy/topics/:key
+   *
+   * Deletes the topic and every tag the org's calls hold for it.
+   */
+  router.delete(
+    "/taxonomy/topics/:key",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const organizationId = req.organizationId!;
+      const existing = await findTopic(organizationId, req.params.key as string);
+      if (!existing) {
+        sendNotFound(res, "Custom topic not found");
+        return;
+      }
+
+      await prisma.customTaxonomyTopic.delete({ where: { id: existing.id } });
+      const tagsRemoved = await deleteCustomTopicTags(
+        prisma,
+        organizationId,
+        existing.key as CustomTopicKey
+      );
+
+      await auditLogs.record({
+        organizationId,
+        actorUserId: req.userId!,
+        category: "ADMIN",
+        action: "CUSTOM_TOPIC_DELETED",
+        targetType: "custom_taxonomy_topic",
+        targetId: existing.key,
+        severity: "WARN",
+        metadata: { tags_removed: tagsRemoved },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      sendSuccess(res, { deleted: true, tags_removed: tagsRemoved });
+    })
+  );
+
+  /**
+   * POST /api/dashboard/taxonomy/retag
+   *
+   * Queues a backfill that re-tags the org's processed calls against the
+   * built-in taxonomy plus its current custom topics.
+   */
+  router.post(
+    "/taxonomy/retag",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      if (!taxonomyRetagQueue) {
+        sendServiceUnavailable(res, "Taxonomy retagging is not configured");
+        return;
+      }
+
+      const organizationId = req.organizationId!;
+      const job = await taxonomyRetagQueue.add("retag-organization", {
+        organizationId,
+        requestedByUserId: req.userId ?? null,
+      });
+
+      await auditLogs.record({
+        organizationId,
+        actorUserId: req.userId!,
+        category: "ADMIN",
+        action: "TAXONOMY_RETAG_STARTED",
+        targetType: "taxonomy",
+        targetId: organizationId,
+        severity: "WARN",
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      sendSuccess(res, { queued: true, job_id: job.id ?? null }, 202);
+    })
+  );
+}
@@ -0,0 +1,15 @@
+import { z } from "zod";
+import { VALID_FUNNEL_STAGES } from "../../types/taxonomy.js";
+import { MAX_EXAMPLE_PHRASES } from "../../services/custom-taxonomy.js";
+
+export const CreateCustomTopicSchema = z.object({
+  label: z.string().trim().min(2).max(80),
+  description: z.string().trim().min(10).max(500),
+  funnel_stage: z.enum(VALID_FUNNEL_STAGES),
+  example_phrases: z
+    .array(z.string().trim().min(1).max(200))
+    .max(MAX_EXAMPLE_PHRASES)
+    .optional(),
+});
+
+export const UpdateCustomTopicSchema = CreateCustomTopicSchema.partial();
@@ -0,0 +1,427 @@
+import crypto from "crypto";
+import { type Response, type Router } from "express";
+import type { OutboundWebhookDelivery, PrismaClient } from "@prisma/client";
+import { requirePermission } from "../../middleware/permissions.js";
+import type { AuditLogService } from "../../services/audit-log.js";
+import {
+  OUTBOUND_WEBHOOK_EVENTS,
+  assertOutboundWebhookUrl,
+  listOutboundWebhookSubscriptions,
+  lockOutboundWebhookSubscriptions,
+  saveOutboundWebhookSubscriptions,
+  type OutboundWebhookEventType,
+  type OutboundWebhookSubscription,
+} from "../../services/outbound-webhooks.js";
+import {
+  OutboundWebhookDeliveryError,
+  OutboundWebhookDeliveryService,
+} from "../../services/outbound-webhook-delivery.js";
+import { UrlPolicyError } from "../../lib/url-security.js";
+import {
+  OUTBOUND_WEBHOOK_EVENT_CATALOG,
+  getOutboundWebhookEventJsonSchema,
+  getOutboundWebhookEventVersion,
+  isOutboundWebhookDeliverableEvent,
+} from "../../contracts/outbound-webhook-events.js";
+import {
+  sendBadRequest,
+  sendConflict,
+  sendCreated,
+  sendNoContent,
+  sendNotFound,
+  sendSuccess,
+} from "../_shared/responses.js";
+import { parseRequestBody } from "../_shared/validators.js";
+import type { AuthenticatedRequest } from "../../types/authenticated-request.js";
+import { asyncHandler } from "../../lib/async-handler.js";
+import {
+  CreateOutboundWebhookSchema,
+  ListOutboundWebhookDeliveriesQuerySchema,
+  UpdateOutboundWebhookSchema,
+} from "./outbound-webhook-schemas.js";
+
+interface RegisterOutboundWebhookRoutesOptions {
+  router: Router;
+  prisma: PrismaClient;
+  auditLogs: AuditLogService;
+}
+
+function maskSecret(secret: string): string {
+  return secret.length <= 4 ? "****" : `****${secret.slice(-4)}`;
+}
+
+function serializeSubscription(subscription: OutboundWebhookSubscription, revealSecret = false) {
+  return {
+    ...subscription,
+    secret: revealSecret ? subscription.secret : maskSecret(subscription.secret),
+  };
+}
+
+function serializeDelivery(delivery: OutboundWebhookDelivery) {
+  return {
+    id: delivery.id,
+    subscription_id: delivery.subscriptionId,
+    event_id: delivery.eventId,
+    event_type: delivery.eventType,
+    url: delivery.url,
+    request_body: delivery.requestBody,
+    trigger: delivery.trigger,
+    attempt: delivery.attempt,
+    status: delivery.status,
+    response_status: delivery.responseStatus,
+    latency_ms: delivery.latencyMs,
+    error: delivery.error,
+    will_retry: delivery.willRetry,
+    created_at: delivery.createdAt,
+  };
+}
+
+export function registerOutboundWebhookRoutes({
+  router,
+  prisma,
+  auditLogs,
+}: RegisterOutboundWebhookRoutesOptions): void {
+  const deliveryService = new OutboundWebhookDeliveryService(prisma);
+
+  /** Returns a URL policy error code, or null when the URL is acceptable. */
+  const checkUrl = async (url: string): Promise<string | null> => {
+    try {
+      await assertOutboundWebhookUrl(url);
+      return null;
+    } catch (err) {
+      return err instanceof UrlPolicyError ? err.code : "invalid_webhook_url";
+    }
+  };
+
+  // ── Admin: Outbound Webhooks ─────────────────────────────────────────
+
+  /**
+   * GET /api/dashboard/security/outbound-webhooks
+   */
+  router.get(
+    "/security/outbound-webhooks",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const subscriptions = await listOutboundWebhookSubscriptions(prisma, req.organizationId!);
+      sendSuccess(res, {
+        subscriptions: subscriptions.map((subscription) => serializeSubscription(subscription)),
+        supported_events: OUTBOUND_WEBHOOK_EVENTS.filter((event) => event !== "webhook.test"),
+      });
+    })
+  );
+
+  /**
+   * GET /api/dashboard/security/outbound-webhooks/events
+   *
+   * The event catalog: current version and description of every event type.
+   * Schemas are served per event by the route below.
+   */
+  router.get(
+    "/security/outbound-webhooks/events",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (_req: AuthenticatedRequest, res: Response) => {
+      sendSuccess(res, {
+        events: Object.entries(OUTBOUND_WEBHOOK_EVENT_CATALOG).map(([eventType, entry]) => ({
+          event_type: eventType,
+          version: entry.version,
+          description: entry.description,
+        })),
+      });
+    })
+  );
+
+  /**
+   * GET /api/dashboard/security/outbound-webhooks/events/:eventType/schema
+   *
+   * Raw JSON Schema document, suitable for saving into a receiver's codebase.
+   */
+  router.get(
+    "/security/outbound-webhooks/events/:eventType/schema",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const eventType = req.params.eventType;
+      if (!isOutboundWebhookDeliverableEvent(eventType)) {
+        sendNotFound(res, "Unknown webhook event type");
+        return;
+      }
+      res.setHeader("Content-Type", "application/schema+json; charset=utf-8");
+      res.json(getOutboundWebhookEventJsonSchema(eventType));
+    })
+  );
+
+  /**
+   * POST /api/dashboard/security/outbound-webhooks
+   *
+   * The signing secret is only returned in full by this response.
+   */
+  router.post(
+    "/security/outbound-webhooks",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const payload = parseRequestBody(CreateOutboundWebhookSchema, req.body, res);
+      if (!payload) {
+        return;
+      }
+      const urlError = await checkUrl(payload.url);
+      if (urlError) {
+        sendBadRequest(res, urlError);
+        return;
+      }
+
+      const now = new Date().toISOString();
+      const subscription: OutboundWebhookSubscription = {
+        id: crypto.randomUUID(),
+        url: payload.url,
+        secret: payload.secret ?? `whsec_${crypto.randomBytes(24).toString("hex")}`,
+        event_types: payload.event_types as OutboundWebhookEventType[],
+        enabled: payload.enabled ?? true,
+        consecutive_failures: 0,
+        disabled_reason: null,
+        created_at: now,
+        updated_at: now,
+      };
+      await prisma.$transaction(async (tx) => {
+        await lockOutboundWebhookSubscriptions(tx, req.organizationId!);
+        const existing = await listOutboundWebhookSubscriptions(tx, req.organizationId!);
+        await saveOutboundWebhookSubscriptions(tx, req.organizationId!, [
+          ...existing,
+          subscription,
+        ]);
+      });
+
+      await auditLogs.record({
+        organizationId: req.organizationId!,
+        actorUserId: req.userId!,
+        category: "WEBHOOK",
+        action: "OUTBOUND_WEBHOOK_CREATED",
+        targetType: "outbound_webhook",
+        targetId: subscription.id,
+        severity: "INFO",
+        metadata: { url: subscription.url, event_types: subscription.event_types },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      sendCreated(res, { subscription: serializeSubscription(subscription, true) });
+    })
+  );
+
+  /**
+   * PATCH /api/dashboard/security/outbound-webhooks/:subscriptionId
+   *
+   * Re-enabling a subscription clears its failure streak and any
+   * auto-disable reason.
+   */
+  router.patch(
+    "/security/outbound-webhooks/:subscriptionId",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const payload = parseRequestBody(UpdateOutboundWebhookSchema, req.body, res);
+      if (!payload) {
+        return;
+      }
+      if (payload.url) {
+        const urlError = await checkUrl(payload.url);
+        if (urlError) {
+          sendBadRequest(res, urlError);
+          return;
+        }
+      }
+
+      // The delivery worker updates failure counters and auto-disables under
+      // the same lock, so the edit is applied to the latest stored state.
+      const next = await prisma.$transaction(async (tx) => {
+        await lockOutboundWebhookSubscriptions(tx, req.organizationId!);
+        const subscriptions = await listOutboundWebhookSubscriptions(tx, req.organizationId!);
+        const current = subscriptions.find((item) => item.id === req.params.subscriptionId);
+        if (!current) {
+          return null;
+        }
+        const reenabled = payload.enabled === true && !current.enabled;
+        const updated: OutboundWebhookSubscription = {
+          ...current,
+          url: payload.url ?? current.url,
+          event_types: (payload.event_types as OutboundWebhookEventType[] | undefined) ?? current.event_types,
+          enabled: payload.enabled ?? current.enabled,
+          consecutive_failures: reenabled ? 0 : current.consecutive_failures,
+          disabled_reason: payload.enabled === true ? null : current.disabled_reason,
+          updated_at: new Date().toISOString(),
+        };
+        await saveOutboundWebhookSubscriptions(
+          tx,
+          req.organizationId!,
+          subscriptions.map((item) => (item.id === updated.id ? updated : item))
+        );
+        return updated;
+      });
+      if (!next) {
+        sendNotFound(res, "Webhook subscription not found");
+        return;
+      }
+
+      await auditLogs.record({
+        organizationId: req.organizationId!,
+        actorUserId: req.userId!,
+        category: "WEBHOOK",
+        action: "OUTBOUND_WEBHOOK_UPDATED",
+        targetType: "outbound_webhook",
+        targetId: next.id,
+        severity: "INFO",
+        metadata: { updated_fields: Object.keys(payload) },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      sendSuccess(res, { subscription: serializeSubscription(next) });
+    })
+  );
+
+  /**
+   * DELETE /api/dashboard/security/outbound-webhooks/:subscriptionId
+   *
+   * Delivery history is kept for audit purposes.
+   */
+  router.delete(
+    "/security/outbound-webhooks/:subscriptionId",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const deleted = await prisma.$transaction(async (tx) => {
+        await lockOutboundWebhookSubscriptions(tx, req.organizationId!);
+        const subscriptions = await listOutboundWebhookSubscriptions(tx, req.organizationId!);
+        const remaining = subscriptions.filter((item) => item.id !== req.params.subscriptionId);
+        if (remaining.length === subscriptions.length) {
+          return false;
+        }
+        await saveOutboundWebhookSubscriptions(tx, req.organizationId!, remaining);
+        return true;
+      });
+      if (!deleted) {
+        sendNotFound(res, "Webhook subscription not found");
+        return;
+      }
+
+      await auditLogs.record({
+        organizationId: req.organizationId!,
+        actorUserId: req.userId!,
+        category: "WEBHOOK",
+        action: "OUTBOUND_WEBHOOK_DELETED",
+        targetType: "outbound_webhook",
+        targetId: req.params.subscriptionId as string,
+        severity: "WARN",
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      sendNoContent(res);
+    })
+  );
+
+  /**
+   * POST /api/dashboard/security/outbound-webhooks/:subscriptionId/test
+   *
+   * Sends a webhook.test event synchronously. The attempt is logged but does
+   * not affect the subscription's failure streak.
+   */
+  router.post(
+    "/security/outbound-webhooks/:subscriptionId/test",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const subscriptions = await listOutboundWebhookSubscriptions(prisma, req.organizationId!);
+      const subscription = subscriptions.find((item) => item.id === req.params.subscriptionId);
+      if (!subscription) {
+        sendNotFound(res, "Webhook subscription not found");
+        return;
+      }
+
+      const result = await deliveryService.attemptOnce({
+        organizationId: req.organizationId!,
+        subscriptionId: subscription.id,
+        trigger: "TEST",
+        envelope: {
+          event_id: crypto.randomUUID(),
+          event_type: "webhook.test",
+          event_version: getOutboundWebhookEventVersion("webhook.test"),
+          occurred_at: new Date().toISOString(),
+          payload: { message: "Test delivery from StoryEngine" },
+        },
+      });
+
+      sendSuccess(res, {
+        delivered: result.status === "SUCCEEDED",
+        status: result.responseStatus ?? 0,
+        error: result.error,
+        delivery_id: result.deliveryId,
+      });
+    })
+  );
+
+  /**
+   * GET /api/dashboard/security/outbound-webhooks/:subscriptionId/deliveries
+   *
+   * Recent delivery attempts for a subscription, newest first.
+   */
+  router.get(
+    "/security/outbound-webhooks/:subscriptionId/deliveries",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const query = parseRequestBody(ListOutboundWebhookDeliveriesQuerySchema, req.query, res);
+      if (!query) {
+        return;
+      }
+      const deliveries = await deliveryService.listDeliveries(
+        req.organizationId!,
+        req.params.subscriptionId as string,
+        query
+      );
+      sendSuccess(res, { deliveries: deliveries.map(serializeDelivery) });
+    })
+  );
+
+  /**
+   * POST /api/dashboard/security/outbound-webhooks/deliveries/:deliveryId/redeliver
+   *
+   * Re-sends the exact payload of a past delivery with the same event_id so
+   * receivers can deduplicate.
+   */
+  router.post(
+    "/security/outbound-webhooks/deliveries/:deliveryId/redeliver",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      let outcome: Awaited<ReturnType<OutboundWebhookDeliveryService["redeliver"]>>;
+      try {
+        outcome = await deliveryService.redeliver(
+          req.organizationId!,
+          req.params.deliveryId as string
+        );
+      } catch (err) {
+        if (err instanceof OutboundWebhookDeliveryError) {
+          sendConflict(res, err.message);
+          return;
+        }
+        throw err;
+      }
+      if (!outcome) {
+        sendNotFound(res, "Webhook delivery not found");
+        return;
+      }
+
+      await auditLogs.record({
+        organizationId: req.organizationId!,
+        actorUserId: req.userId!,
+        category: "WEBHOOK",
+        action: "OUTBOUND_WEBHOOK_REDELIVERED",
+        targetType: "outbound_webhook_delivery",
+        targetId: req.params.deliveryId as string,
+        severity: "INFO",
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      sendSuccess(res, {
+        queued: outcome.queued,
+        status: outcome.result?.status ?? null,
+        error: outcome.result?.error ?? null,
+      });
+    })
+  );
+}
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { OUTBOUND_WEBHOOK_EVENTS } from "../../services/outbound-webhooks.js";
+
+const SubscribableEventSchema = z.enum(
+  OUTBOUND_WEBHOOK_EVENTS.filter((event) => event !== "webhook.test") as [string, ...string[]]
+);
+
+export const CreateOutboundWebhookSchema = z.object({
+  url: z.string().url().max(2000),
+  event_types: z.array(SubscribableEventSchema).min(1),
+  enabled: z.boolean().optional(),
+  secret: z.string().min(16).max(200).optional(),
+});
+
+export const UpdateOutboundWebhookSchema = z
+  .object({
+    url: z.string().url().max(2000).optional(),
+    event_types: z.array(SubscribableEventSchema).min(1).optional(),
+    enabled: z.boolean().optional(),
+  })
+  .refine((value) => Object.keys(value).length > 0, "No fields to update");
+
+export const ListOutboundWebhookDeliveriesQuerySchema = z.object({
+  status: z.enum(["SUCCEEDED", "FAILED"]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
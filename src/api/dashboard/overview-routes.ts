@@ -3,11 +3,16 @@ import type { PrismaClient } from "@prisma/client";
 import type { LandingPageEditor } from "../../services/landing-page-editor.js";
 import type { ResponseCache } from "../../lib/response-cache.js";
 import { DashboardOverviewService } from "../../services/dashboard-overview.js";
+import {
+  DASHBOARD_ENGAGEMENT_WINDOW_DAYS,
+  engagementWindowStart,
+} from "../../services/landing-page-editor-admin.js";
+import { PageAnalyticsService } from "../../services/page-analytics.js";
 import logger from "../../lib/logger.js";
 import { Sentry } from "../../lib/sentry.js";
 import type { AuthenticatedRequest } from "../../types/authenticated-request.js";
 import { asyncHandler } from "../../lib/async-handler.js";
-import { sendSuccess, sendUnauthorized } from "../_shared/responses.js";
+import { sendNotFound, sendSuccess, sendUnauthorized } from "../_shared/responses.js";
 
 interface RegisterDashboardOverviewRoutesOptions {
   router: Router;
@@ -23,6 +28,7 @@ export function registerDashboardOverviewRoutes({
   homeCache,
 }: RegisterDashboardOverviewRoutesOptions): void {
   const overviewService = new DashboardOverviewService(prisma);
+  const pageAnalytics = new PageAnalyticsService(prisma);
   const clamp = (value: number, min: number, max: number): number =>
     Math.max(min, Math.min(max, value));
 
@@ -390,7 +396,7 @@ export function registerDashboardOverviewRoutes({
       ? (req.query.created_by as string | undefined)
       : req.userId!;
 
-      const [dashboardStats, pages] = await Promise.all([
+      const [dashboardStats, pages, analyticsPolicy, engagement] = await Promise.all([
         editor.getDashboardStats(req.organizationId!),
         editor.listForOrg(req.organizationId!, {
           status: req.query.status as
@@ -403,6 +409,8 @@ export function registerDashboardOverviewRoutes({
           createdById: effectiveCreatorFilter,
           search: (req.query.search as string) || undefined,
         }),
+        pageAnalytics.getPolicy(req.organizationId!),
+        pageAnalytics.getOrgSummary(req.organizationId!, engagementWindowStart()),
       ]);
 
       const creators = isAdmin
@@ -419,6 +427,9 @@ export function registerDashboardOverviewRoutes({
           publishedPages: dashboardStats.publishedPages,
           draftPages: dashboardStats.draftPages,
           totalViews: dashboardStats.totalViews,
+          analyticsEnabled: analyticsPolicy.enabled,
+          engagementWindowDays: DASHBOARD_ENGAGEMENT_WINDOW_DAYS,
+          engagement,
         },
         pages,
         creators,
@@ -426,4 +437,46 @@ export function registerDashboardOverviewRoutes({
       });
     
   }));
+
+  /**
+   * GET /api/dashboard/pages/:pageId/analytics
+   *
+   * Daily engagement for one landing page with referrer, UTM campaign and
+   * CTA breakdowns. Query params: days (1-365, default 30)
+   */
+  router.get("/pages/:pageId/analytics", asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.organizationId!) {
+      sendUnauthorized(res, "Authentication required");
+      return;
+    }
+
+    const page = await prisma.landingPage.findFirst({
+      where: { id: req.params.pageId as string, organizationId: req.organizationId! },
+      select: { id: true, title: true, viewCount: true },
+    });
+    if (!page) {
+      sendNotFound(res, "Landing page not found");
+      return;
+    }
+
+    const requestedDays = Number(req.query.days);
+    const days =
+      Number.isInteger(requestedDays) && requestedDays >= 1 && requestedDays <= 365
+        ? requestedDays
+        : DASHBOARD_ENGAGEMENT_WINDOW_DAYS;
+    const report = await pageAnalytics.getPageReport(
+      req.organizationId!,
+      page.id,
+      new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+    );
+
+    sendSuccess(res, {
+      pageId: page.id,
+      title: page.title,
+      totalViews: page.viewCount,
+      windowDays: days,
+      ...report,
+      days: report.days.map(({ day, ...rest }) => ({ ...rest, day: day.toISOString().slice(0, 10) })),
+    });
+  }));
 }
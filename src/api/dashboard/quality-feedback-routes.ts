@@ -0,0 +1,112 @@
+import { type Response, type Router } from "express";
+import type { PrismaClient } from "@prisma/client";
+import { requirePermission } from "../../middleware/permissions.js";
+import { ChatConversationService } from "../../services/chat-conversations.js";
+import { sendSuccess } from "../_shared/responses.js";
+import { parseRequestBody } from "../_shared/validators.js";
+import type { AuthenticatedRequest } from "../../types/authenticated-request.js";
+import { asyncHandler } from "../../lib/async-handler.js";
+import { QualityFeedbackReportQuerySchema } from "./quality-feedback-schemas.js";
+
+const DEFAULT_REPORT_DAYS = 30;
+const RECENT_CHAT_FEEDBACK_LIMIT = 20;
+
+interface RegisterQualityFeedbackRoutesOptions {
+  router: Router;
+  prisma: PrismaClient;
+}
+
+function countBy(rows: Array<{ key: string; count: number }>): Record<string, number> {
+  return Object.fromEntries(rows.map((row) => [row.key, row.count]));
+}
+
+export function registerQualityFeedbackRoutes({
+  router,
+  prisma,
+}: RegisterQualityFeedbackRoutesOptions): void {
+  const conversations = new ChatConversationService(prisma);
+
+  // ── Analytics: Quality Feedback ──────────────────────────────────────
+
+  /**
+   * GET /api/dashboard/quality-feedback/report?days=30
+   *
+   * Story quality feedback and chatbot answer feedback side by side, with
+   * the most recent negative chat answers for triage.
+   */
+  router.get(
+    "/quality-feedback/report",
+    requirePermission(prisma, "view_analytics"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const query = parseRequestBody(QualityFeedbackReportQuerySchema, req.query, res);
+      if (!query) return;
+
+      const organizationId = req.organizationId!;
+      const days = query.days ?? DEFAULT_REPORT_DAYS;
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+      const [storyByType, storyByStatus, chatSummary, recentNegative] = await Promise.all([
+        prisma.storyQualityFeedback.groupBy({
+          by: ["feedbackType"],
+          where: { organizationId, createdAt: { gte: since } },
+          _count: { _all: true },
+        }),
+        prisma.storyQualityFeedback.groupBy({
+          by: ["status"],
+          where: { organizationId, createdAt: { gte: since } },
+          _count: { _all: true },
+        }),
+        conversations.summarizeFeedback(organizationId, since),
+        prisma.chatMessageFeedback.findMany({
+          where: {
+            organizationId,
+            updatedAt: { gte: since },
+            OR: [{ rating: "DOWN" }, { wrongCitations: { isEmpty: false } }],
+          },
+          orderBy: { updatedAt: "desc" },
+          take: RECENT_CHAT_FEEDBACK_LIMIT,
+          include: {
+            user: { select: { id: true, name: true, email: true } },
+            message: {
+              select: {
+                id: true,
+                content: true,
+                conversation: { select: { id: true, accountId: true } },
+              },
+            },
+          },
+        }),
+      ]);
+
+      const storyTotal = storyByType.reduce((sum, row) => sum + row._count._all, 0);
+
+      sendSuccess(res, {
+        window_days: days,
+        since: since.toISOString(),
+        story_feedback: {
+          total: storyTotal,
+          by_type: countBy(storyByType.map((row) => ({ key: row.feedbackType, count: row._count._all }))),
+          by_status: countBy(storyByStatus.map((row) => ({ key: row.status, count: row._count._all }))),
+        },
+        chat_feedback: {
+          total: chatSummary.total,
+          thumbs_up: chatSummary.thumbsUp,
+          thumbs_down: chatSummary.thumbsDown,
+          wrong_citation: chatSummary.wrongCitation,
+          recent_negative: recentNegative.map((row) => ({
+            id: row.id,
+            rating: row.rating,
+            wrong_citations: row.wrongCitations,
+            notes: row.notes,
+            message_id: row.message.id,
+            conversation_id: row.message.conversation.id,
+            account_id: row.message.conversation.accountId,
+            answer_excerpt: row.message.content.slice(0, 280),
+            submitted_by: row.user,
+            updated_at: row.updatedAt.toISOString(),
+          })),
+        },
+      });
+    })
+  );
+}
@@ -0,0 +1,5 @@
+import { z } from "zod";
+
+export const QualityFeedbackReportQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).optional(),
+});
@@ -0,0 +1,134 @@
+import { type Response, type Router } from "express";
+import type { PrismaClient } from "@prisma/client";
+import type { Queue } from "bullmq";
+import { requirePermission } from "../../middleware/permissions.js";
+import type { AuditLogService } from "../../services/audit-log.js";
+import type { RAGEngine, RAGVectorBackendStatus } from "../../services/rag-engine.js";
+import type { RagVectorReindexJobData } from "../../services/rag-vector-reindex.js";
+import {
+  sendBadRequest,
+  sendConflict,
+  sendServiceUnavailable,
+  sendSuccess,
+} from "../_shared/responses.js";
+import { parseRequestBody } from "../_shared/validators.js";
+import type { AuthenticatedRequest } from "../../types/authenticated-request.js";
+import { asyncHandler } from "../../lib/async-handler.js";
+import { StartRagVectorReindexSchema } from "./rag-vector-store-schemas.js";
+
+interface RegisterRagVectorStoreRoutesOptions {
+  router: Router;
+  prisma: PrismaClient;
+  auditLogs: AuditLogService;
+  ragEngine?: RAGEngine;
+  ragVectorReindexQueue?: Pick<Queue<RagVectorReindexJobData>, "add">;
+}
+
+function serializeStatus(status: RAGVectorBackendStatus) {
+  return {
+    active_backend: status.active,
+    migrating_to: status.migratingTo,
+    default_backend: status.defaultBackend,
+    available_backends: status.availableBackends,
+  };
+}
+
+export function registerRagVectorStoreRoutes({
+  router,
+  prisma,
+  auditLogs,
+  ragEngine,
+  ragVectorReindexQueue,
+}: RegisterRagVectorStoreRoutesOptions): void {
+  // ── Admin: RAG Vector Store ──────────────────────────────────────────
+
+  /**
+   * GET /api/dashboard/rag/vector-store
+   *
+   * The org's active vector backend and any migration in progress.
+   */
+  router.get(
+    "/rag/vector-store",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      if (!ragEngine) {
+        sendServiceUnavailable(res, "RAG engine is not configured");
+        return;
+      }
+      const status = await ragEngine.getVectorBackendStatus(req.organizationId!);
+      sendSuccess(res, serializeStatus(status));
+    })
+  );
+
+  /**
+   * POST /api/dashboard/rag/vector-store/reindex
+   *
+   * Queues a reindex job that copies the org's vectors to `backend` and then
+   * makes it the active backend. New chunks are dual-written from now on.
+   */
+  router.post(
+    "/rag/vector-store/reindex",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const payload = parseRequestBody(StartRagVectorReindexSchema, req.body, res);
+      if (!payload) {
+        return;
+      }
+      if (!ragEngine || !ragVectorReindexQueue) {
+        sendServiceUnavailable(res, "RAG vector reindexing is not configured");
+        return;
+      }
+
+      const organizationId = req.organizationId!;
+      const status = await ragEngine.getVectorBackendStatus(organizationId);
+      if (!status.availableBackends.includes(payload.backend)) {
+        sendBadRequest(res, `Vector backend "${payload.backend}" is not configured on this deployment`);
+        return;
+      }
+      if (status.active === payload.backend) {
+        sendConflict(res, `Organization already uses the ${payload.backend} vector backend`);
+        return;
+      }
+      // Re-requesting the same target re-queues a failed job; upserts are idempotent.
+      if (status.migratingTo && status.migratingTo !== payload.backend) {
+        sendConflict(res, `A reindex to ${status.migratingTo} is already in progress`);
+        return;
+      }
+
+      await ragEngine.beginVectorBackendMigration(organizationId, payload.backend);
+      const job = await ragVectorReindexQueue.add("reindex-organization", {
+        organizationId,
+        targetBackend: payload.backend,
+        purgeSource: payload.purge_source ?? false,
+        requestedByUserId: req.userId ?? null,
+      });
+
+      await auditLogs.record({
+        organizationId,
+        actorUserId: req.userId!,
+        category: "ADMIN",
+        action: "RAG_VECTOR_REINDEX_STARTED",
+        targetType: "rag_vector_store",
+        targetId: organizationId,
+        severity: "WARN",
+        metadata: {
+          from_backend: status.active,
+          to_backend: payload.backend,
+          purge_source: payload.purge_source ?? false,
+        },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      sendSuccess(
+        res,
+        {
+          queued: true,
+          job_id: job.id ?? null,
+          ...serializeStatus({ ...status, migratingTo: payload.backend }),
+        },
+        202
+      );
+    })
+  );
+}
@@ -0,0 +1,7 @@
+import { z } from "zod";
+import { VECTOR_STORE_BACKENDS } from "../../services/rag-vector-store.js";
+
+export const StartRagVectorReindexSchema = z.object({
+  backend: z.enum(VECTOR_STORE_BACKENDS),
+  purge_source: z.boolean().optional(),
+});
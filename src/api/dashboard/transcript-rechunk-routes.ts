@@ -0,0 +1,72 @@
+import { type Response, type Router } from "express";
+import type { PrismaClient } from "@prisma/client";
+import type { Queue } from "bullmq";
+import { requirePermission } from "../../middleware/permissions.js";
+import type { AuditLogService } from "../../services/audit-log.js";
+import type { TranscriptRechunkJobData } from "../../services/transcript-rechunk.js";
+import { sendServiceUnavailable, sendSuccess } from "../_shared/responses.js";
+import { parseRequestBody } from "../_shared/validators.js";
+import type { AuthenticatedRequest } from "../../types/authenticated-request.js";
+import { asyncHandler } from "../../lib/async-handler.js";
+import { StartTranscriptRechunkSchema } from "./transcript-rechunk-schemas.js";
+
+interface RegisterTranscriptRechunkRoutesOptions {
+  router: Router;
+  prisma: PrismaClient;
+  auditLogs: AuditLogService;
+  transcriptRechunkQueue?: Pick<Queue<TranscriptRechunkJobData>, "add">;
+}
+
+export function registerTranscriptRechunkRoutes({
+  router,
+  prisma,
+  auditLogs,
+  transcriptRechunkQueue,
+}: RegisterTranscriptRechunkRoutesOptions): void {
+  // ── Admin: Transcript Rechunk ────────────────────────────────────────
+
+  /**
+   * POST /api/dashboard/transcripts/rechunk
+   *
+   * Queues a backfill that re-chunks the org's calls by speaker turn. With
+   * `refetch_utterances`, speaker turns are first fetched from the recording
+   * provider for transcripts stored without them.
+   */
+  router.post(
+    "/transcripts/rechunk",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const payload = parseRequestBody(StartTranscriptRechunkSchema, req.body, res);
+      if (!payload) {
+        return;
+      }
+      if (!transcriptRechunkQueue) {
+        sendServiceUnavailable(res, "Transcript rechunking is not configured");
+        return;
+      }
+
+      const organizationId = req.organizationId!;
+      const refetchUtterances = payload.refetch_utterances ?? false;
+      const job = await transcriptRechunkQueue.add("rechunk-organization", {
+        organizationId,
+        refetchUtterances,
+        requestedByUserId: req.userId ?? null,
+      });
+
+      await auditLogs.record({
+        organizationId,
+        actorUserId: req.userId!,
+        category: "ADMIN",
+        action: "TRANSCRIPT_RECHUNK_STARTED",
+        targetType: "transcripts",
+        targetId: organizationId,
+        severity: "WARN",
+        metadata: { refetch_utterances: refetchUtterances },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      sendSuccess(res, { queued: true, job_id: job.id ?? null }, 202);
+    })
+  );
+}
@@ -0,0 +1,5 @@
+import { z } from "zod";
+
+export const StartTranscriptRechunkSchema = z.object({
+  refetch_utterances: z.boolean().optional(),
+});
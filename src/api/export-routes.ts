@@ -5,15 +5,18 @@
  *   POST /api/pages/:pageId/export/pdf         — Download as branded PDF
  *   POST /api/pages/:pageId/export/google-doc   — Create a Google Doc
  *   POST /api/pages/:pageId/export/slack        — Send to Slack channel
+ *   POST /api/pages/:pageId/export/static-site  — Download as a static HTML site (zip)
+ *   POST /api/pages/export/static-site          — Download several pages as one static site
  *
- * All routes require authentication + page owner or edit_any permission.
+ * Single-page routes require authentication + page owner or edit_any
+ * permission; the collection export requires edit_any.
  */
 
 import { Router, type Request, type Response } from "express";
 import { z } from "zod";
 import type { PrismaClient } from "@prisma/client";
-import { LandingPageExporter } from "../services/landing-page-exports.js";
-import { requirePageOwnerOrPermission } from "../middleware/permissions.js";
+import { LandingPageExporter, StaticSiteExportError } from "../services/landing-page-exports.js";
+import { requirePageOwnerOrPermission, requirePermission } from "../middleware/permissions.js";
 import { getOrganizationIdOrThrow, TenantGuardError } from "../lib/tenant-guard.js";
 import { decodeDataGovernancePolicy } from "../types/json-boundaries.js";
 import { asyncHandler } from "../lib/async-handler.js";
@@ -30,6 +33,20 @@ const SlackExportSchema = z.object({
   webhook_url: z.string().url().optional(),
 });
 
+const StaticSiteBaseUrlSchema = z
+  .string()
+  .url()
+  .refine((value) => /^https?:\/\//i.test(value), "base_url must be an http(s) URL");
+
+const StaticSiteExportSchema = z.object({
+  base_url: StaticSiteBaseUrlSchema,
+});
+
+const StaticSiteCollectionExportSchema = z.object({
+  page_ids: z.array(z.string().min(1)).min(1).max(50),
+  base_url: StaticSiteBaseUrlSchema,
+});
+
 // ─── Route Factory ───────────────────────────────────────────────────────────
 
 export function createExportRoutes(prisma: PrismaClient): Router {
@@ -52,7 +69,8 @@ export function createExportRoutes(prisma: PrismaClient): Router {
   
   const enforceExportPolicy = async (
     req: Request,
-    res: Response
+    res: Response,
+    pageIds: string[] = req.params.pageId ? [String(req.params.pageId)] : []
   ): Promise<boolean> => {
     const organizationId = resolveOrgId(req, res);
     if (!organizationId) return false;
@@ -71,13 +89,12 @@ export function createExportRoutes(prisma: PrismaClient): Router {
     }
 
     if (policy.allow_named_story_exports === false) {
-      const pageId = String(req.params.pageId ?? "");
-      if (pageId) {
-        const page = await prisma.landingPage.findFirst({
-          where: { id: pageId, organizationId },
-          select: { includeCompanyName: true },
+      if (pageIds.length > 0) {
+        const namedPage = await prisma.landingPage.findFirst({
+          where: { id: { in: pageIds }, organizationId, includeCompanyName: true },
+          select: { id: true },
         });
-        if (page?.includeCompanyName) {
+        if (namedPage) {
           res.status(403).json({
             error: "policy_denied",
             message:
@@ -200,5 +217,84 @@ export function createExportRoutes(prisma: PrismaClient): Router {
     })
   );
 
+  // ── Static Site Export ──────────────────────────────────────────────
+
+  const sendStaticSite = async (
+    res: Response,
+    organizationId: string,
+    pageIds: string[],
+    baseUrl: string
+  ): Promise<void> => {
+    try {
+      const { buffer, filename } = await exporter.exportStaticSite(organizationId, pageIds, { baseUrl });
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.setHeader("Content-Length", buffer.length.toString());
+      res.send(buffer);
+    } catch (error) {
+      if (error instanceof StaticSiteExportError) {
+        res.status(400).json({
+          error: "static_export_blocked",
+          message: error.message,
+          issues: error.issues.map((issue) => ({ page_id: issue.pageId, code: issue.code })),
+        });
+        return;
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * POST /api/pages/:pageId/export/static-site
+   *
+   * Downloads a published page as a self-contained static site (zip) with
+   * inlined styles, a local copy of the hero image, an index page, a
+   * sitemap and robots.txt.
+   *
+   * Request body:
+   *   { "base_url": "https://customers.example.com/stories" }
+   */
+  router.post(
+    "/:pageId/export/static-site",
+    asyncHandler(async (req: Request, res: Response) => {
+      const parse = StaticSiteExportSchema.safeParse(req.body);
+      if (!parse.success) {
+        sendBadRequest(res, "validation_error", parse.error.issues);
+        return;
+      }
+
+      if (!(await enforceExportPolicy(req, res))) return;
+      const organizationId = resolveOrgId(req, res);
+      if (!organizationId) return;
+      await sendStaticSite(res, organizationId, [req.params.pageId as string], parse.data.base_url);
+    })
+  );
+
+  /**
+   * POST /api/pages/export/static-site
+   *
+   * Same bundle for a collection of published pages, listed on the index
+   * page in the order given.
+   *
+   * Request body:
+   *   { "page_ids": ["..."], "base_url": "https://customers.example.com/stories" }
+   */
+  router.post(
+    "/export/static-site",
+    requirePermission(prisma, "edit_any"),
+    asyncHandler(async (req: Request, res: Response) => {
+      const parse = StaticSiteCollectionExportSchema.safeParse(req.body);
+      if (!parse.success) {
+        sendBadRequest(res, "validation_error", parse.error.issues);
+        return;
+      }
+
+      if (!(await enforceExportPolicy(req, res, parse.data.page_ids))) return;
+      const organizationId = resolveOrgId(req, res);
+      if (!organizationId) return;
+      await sendStaticSite(res, organizationId, parse.data.page_ids, parse.data.base_url);
+    })
+  );
+
   return router;
 }
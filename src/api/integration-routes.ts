@@ -2,8 +2,8 @@
  * Integration Management API Routes
  *
  * CRUD operations for managing per-org integration configurations.
- * Admins use these endpoints to connect Grain, Gong, Salesforce, or
- * re-enable the Merge.dev unified API.
+ * Admins use these endpoints to connect Grain, Gong, Zoom, Microsoft Teams,
+ * Fireflies, Salesforce, HubSpot, or re-enable the Merge.dev unified API.
  *
  * Routes:
  *   GET    /api/integrations              — List all integrations for the org
@@ -52,16 +52,43 @@ const grainCredentialsSchema = z.object({
   apiToken: z.string().min(1),
 });
 
+const zoomCredentialsSchema = z.object({
+  accountId: z.string().min(1),
+  clientId: z.string().min(1),
+  clientSecret: z.string().min(1),
+});
+
+const teamsCredentialsSchema = z.object({
+  tenantId: z.string().min(1),
+  clientId: z.string().min(1),
+  clientSecret: z.string().min(1),
+});
+
+const firefliesCredentialsSchema = z.object({
+  apiKey: z.string().min(1),
+});
+
 const salesforceCredentialsSchema = z.object({
   instanceUrl: z.string().url(),
   accessToken: z.string().min(1),
   refreshToken: z.string().optional(),
 });
 
+const hubspotCredentialsSchema = z.object({
+  accessToken: z.string().min(1),
+  refreshToken: z.string().min(1),
+  clientId: z.string().min(1),
+  clientSecret: z.string().min(1),
+});
+
 const credentialsByProvider = {
   GONG: gongCredentialsSchema,
   GRAIN: grainCredentialsSchema,
+  ZOOM: zoomCredentialsSchema,
+  TEAMS: teamsCredentialsSchema,
+  FIREFLIES: firefliesCredentialsSchema,
   SALESFORCE: salesforceCredentialsSchema,
+  HUBSPOT: hubspotCredentialsSchema,
 } as const;
 
 const createIntegrationSchema = z
@@ -3,8 +3,11 @@
  *
  * GET /:pageId/preview        — Render public page from current draft
  * POST /:pageId/preview-scrub — Compare original vs scrubbed content
+ * POST /:pageId/pii-scan      — Count PII detections in the draft
+ * POST /:pageId/lint          — Check the draft against the org's story context
  */
 
+import { z } from "zod";
 import { type Response, type Router } from "express";
 import type { PrismaClient } from "@prisma/client";
 import type { AuthenticatedRequest } from "../../types/authenticated-request.js";
@@ -18,9 +21,25 @@ import { canAccessNamedStories } from "../../services/landing-page-approval.js";
 import logger from "../../lib/logger.js";
 import { asyncHandler } from "../../lib/async-handler.js";
 import { sendSuccess, sendForbidden, sendNotFound } from "../_shared/responses.js";
+import { parseRequestBody } from "../_shared/validators.js";
+import { blockingLintFindings, countLintFindings } from "../../services/story-lint.js";
 
 type AuthReq = AuthenticatedRequest;
 
+const LintDraftSchema = z.object({
+  title: z.string().max(200).optional(),
+  subtitle: z.string().max(500).optional(),
+  editable_body: z.string().optional(),
+  callout_boxes: z
+    .array(
+      z.object({
+        title: z.string(),
+        body: z.string(),
+      })
+    )
+    .optional(),
+});
+
 // ─── Route Registration ─────────────────────────────────────────────────────
 
 interface RegisterPreviewRoutesOptions {
@@ -102,7 +121,7 @@ export function registerPreviewRoutes({
       let totalDetections = 0;
       for (const target of scanTargets) {
         if (!target.value) continue;
-        const result = maskPII(target.value);
+        const result = maskPII(target.value, { language: page.story.language });
         totalDetections += result.detections.length;
         for (const detection of result.detections) {
           byType[detection.type] = (byType[detection.type] ?? 0) + 1;
@@ -117,6 +136,42 @@ export function registerPreviewRoutes({
     })
   );
 
+  // ── LINT (banned claims, terminology, competitors, company names) ──
+
+  router.post(
+    "/:pageId/lint",
+    requirePageOwnerOrPermission(prisma),
+    asyncHandler(async (req: AuthReq, res: Response) => {
+      const payload = parseRequestBody(LintDraftSchema, req.body ?? {}, res);
+      if (!payload) {
+        return;
+      }
+
+      const page = await editor.getForEditing(req.params.pageId as string);
+      if (
+        page.includeCompanyName &&
+        !(await canAccessNamedStories(prisma, roleProfiles, reqParams(req)))
+      ) {
+        sendForbidden(res, "Your role cannot access named stories.");
+        return;
+      }
+
+      const { mode, findings } = await editor.lintDraft(page.id, {
+        title: payload.title,
+        subtitle: payload.subtitle,
+        editableBody: payload.editable_body,
+        calloutBoxes: payload.callout_boxes,
+      });
+
+      sendSuccess(res, {
+        mode,
+        blocking: blockingLintFindings(findings, mode).length > 0,
+        counts: countLintFindings(findings),
+        findings,
+      });
+    })
+  );
+
   // ── PREVIEW (render public page from current draft) ─────────────────
 
   router.get(
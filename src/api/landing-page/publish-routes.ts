@@ -323,7 +323,11 @@ export function registerPublishRoutes(options: RegisterPublishRoutesOptions): vo
         return;
       }
 
-      await editor.rollbackToVersion(req.params.pageId as string, req.params.versionId as string, req.userId!);
+      const rollback = await editor.rollbackToVersion(
+        req.params.pageId as string,
+        req.params.versionId as string,
+        req.userId!
+      );
       await auditLogs.record({
         organizationId: req.organizationId!,
         actorUserId: req.userId!,
@@ -336,6 +340,22 @@ export function registerPublishRoutes(options: RegisterPublishRoutesOptions): vo
         ipAddress: req.ip,
         userAgent: req.get("user-agent"),
       });
+
+      await dispatchOutboundWebhookEvent(prisma, {
+        organizationId: req.organizationId!,
+        eventType: "landing_page_rolled_back",
+        payload: {
+          page_id: req.params.pageId as string,
+          source_version_id: rollback.sourceVersionId,
+          source_version_number: rollback.sourceVersionNumber,
+          new_version_id: rollback.newVersionId,
+          new_version_number: rollback.newVersionNumber,
+          rolled_back_by_user_id: req.userId!,
+        },
+      }).catch((err) => {
+        logger.error("Outbound webhook dispatch failed", { error: err });
+      });
+
       sendSuccess(res, { rolled_back: true });
     })
   );
@@ -404,6 +424,19 @@ export function registerPublishRoutes(options: RegisterPublishRoutesOptions): vo
         ipAddress: req.ip,
         userAgent: req.get("user-agent"),
       });
+
+      await dispatchOutboundWebhookEvent(prisma, {
+        organizationId: req.organizationId!,
+        eventType: "landing_page_archived",
+        payload: {
+          page_id: req.params.pageId as string,
+          slug: page.slug,
+          archived_by_user_id: req.userId!,
+        },
+      }).catch((err) => {
+        logger.error("Outbound webhook dispatch failed", { error: err });
+      });
+
       sendSuccess(res, { archived: true });
     })
   );
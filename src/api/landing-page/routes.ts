@@ -8,6 +8,7 @@
  *   - crud-routes.ts
  *   - publish-routes.ts
  *   - preview-routes.ts
+ *   - share-link-routes.ts
  */
 
 import { Router } from "express";
@@ -25,6 +26,7 @@ import logger from "../../lib/logger.js";
 import { registerCrudRoutes } from "./crud-routes.js";
 import { registerPublishRoutes } from "./publish-routes.js";
 import { registerPreviewRoutes } from "./preview-routes.js";
+import { registerShareLinkRoutes } from "./share-link-routes.js";
 
 // ─── Route Factory ───────────────────────────────────────────────────────────
 
@@ -111,5 +113,7 @@ export function createLandingPageRoutes(
 
   registerPreviewRoutes(sharedDeps);
 
+  registerShareLinkRoutes(sharedDeps);
+
   return router;
 }
@@ -0,0 +1,227 @@
+/**
+ * Landing Page Share Link Routes
+ *
+ * GET /:pageId/share-links           — List per-recipient share links with opens
+ * POST /:pageId/share-links          — Create a share link for one recipient
+ * PATCH /:pageId/share-links/:linkId — Change expiry or password, revoke or restore
+ */
+
+import { z } from "zod";
+import { type Response, type Router } from "express";
+import type { PrismaClient } from "@prisma/client";
+import type { AuthenticatedRequest } from "../../types/authenticated-request.js";
+import type { LandingPageEditor } from "../../services/landing-page-editor.js";
+import type { RoleProfileService } from "../../services/role-profiles.js";
+import type { AuditLogService } from "../../services/audit-log.js";
+import {
+  PageShareLinkService,
+  ShareLinkContactError,
+  ShareLinkLimitError,
+  type PageShareLinkSummary,
+} from "../../services/page-share-links.js";
+import { requirePageOwnerOrPermission } from "../../middleware/permissions.js";
+import { canAccessNamedStories } from "../../services/landing-page-approval.js";
+import { asyncHandler } from "../../lib/async-handler.js";
+import {
+  sendBadRequest,
+  sendConflict,
+  sendCreated,
+  sendForbidden,
+  sendNotFound,
+  sendSuccess,
+} from "../_shared/responses.js";
+import { parseRequestBody } from "../_shared/validators.js";
+
+type AuthReq = AuthenticatedRequest;
+
+const CreateShareLinkSchema = z.object({
+  recipient_email: z.string().email().max(320),
+  recipient_name: z.string().max(200).optional(),
+  contact_id: z.string().min(1).optional(),
+  expires_at: z.string().datetime().optional(),
+  password: z.string().min(4).max(100).optional(),
+});
+
+const UpdateShareLinkSchema = z
+  .object({
+    expires_at: z.string().datetime().nullable().optional(),
+    password: z.string().min(4).max(100).nullable().optional(),
+    revoked: z.boolean().optional(),
+  })
+  .refine((value) => Object.keys(value).length > 0, {
+    message: "Provide expires_at, password or revoked",
+  });
+
+function serializeShareLink(link: PageShareLinkSummary) {
+  return {
+    id: link.id,
+    token: link.token,
+    path: link.path,
+    recipient_email: link.recipientEmail,
+    recipient_name: link.recipientName,
+    contact: link.contact
+      ? {
+          id: link.contact.id,
+          name: link.contact.name,
+          email: link.contact.email,
+          salesforce_id: link.contact.salesforceId,
+          hubspot_id: link.contact.hubspotId,
+        }
+      : null,
+    has_password: link.hasPassword,
+    status: link.status,
+    expires_at: link.expiresAt?.toISOString() ?? null,
+    revoked_at: link.revokedAt?.toISOString() ?? null,
+    open_count: link.openCount,
+    first_opened_at: link.firstOpenedAt?.toISOString() ?? null,
+    last_opened_at: link.lastOpenedAt?.toISOString() ?? null,
+    total_time_on_page_seconds: link.totalTimeOnPageSeconds,
+    max_scroll_depth: link.maxScrollDepth,
+    created_by_user_id: link.createdByUserId,
+    created_at: link.createdAt.toISOString(),
+  };
+}
+
+// ─── Route Registration ─────────────────────────────────────────────────────
+
+interface RegisterShareLinkRoutesOptions {
+  router: Router;
+  prisma: PrismaClient;
+  editor: LandingPageEditor;
+  roleProfiles: RoleProfileService;
+  auditLogs: AuditLogService;
+  reqParams: (req: AuthReq) => {
+    organizationId: string;
+    userId: string;
+    userRole: string;
+  };
+}
+
+export function registerShareLinkRoutes({
+  router,
+  prisma,
+  editor,
+  roleProfiles,
+  auditLogs,
+  reqParams,
+}: RegisterShareLinkRoutesOptions): void {
+  const shareLinks = new PageShareLinkService(prisma);
+
+  router.get(
+    "/:pageId/share-links",
+    requirePageOwnerOrPermission(prisma),
+    asyncHandler(async (req: AuthReq, res: Response) => {
+      const links = await shareLinks.list(req.organizationId!, req.params.pageId as string);
+      if (!links) {
+        sendNotFound(res, "Landing page not found");
+        return;
+      }
+      sendSuccess(res, { share_links: links.map(serializeShareLink) });
+    })
+  );
+
+  router.post(
+    "/:pageId/share-links",
+    requirePageOwnerOrPermission(prisma),
+    asyncHandler(async (req: AuthReq, res: Response) => {
+      const payload = parseRequestBody(CreateShareLinkSchema, req.body, res);
+      if (!payload) {
+        return;
+      }
+
+      const page = await editor.getForEditing(req.params.pageId as string);
+      if (page.includeCompanyName && !(await canAccessNamedStories(prisma, roleProfiles, reqParams(req)))) {
+        sendForbidden(res, "Your role cannot access named stories.");
+        return;
+      }
+
+      let link: PageShareLinkSummary | null;
+      try {
+        link = await shareLinks.create({
+          organizationId: req.organizationId!,
+          landingPageId: req.params.pageId as string,
+          userId: req.userId!,
+          recipientEmail: payload.recipient_email,
+          recipientName: payload.recipient_name,
+          contactId: payload.contact_id,
+          expiresAt: payload.expires_at ? new Date(payload.expires_at) : null,
+          password: payload.password,
+        });
+      } catch (err) {
+        if (err instanceof ShareLinkContactError) {
+          sendBadRequest(res, err.message);
+          return;
+        }
+        if (err instanceof ShareLinkLimitError) {
+          sendConflict(res, err.message);
+          return;
+        }
+        throw err;
+      }
+      if (!link) {
+        sendNotFound(res, "Landing page not found");
+        return;
+      }
+
+      await auditLogs.record({
+        organizationId: req.organizationId!,
+        actorUserId: req.userId!,
+        category: "PUBLISH",
+        action: "PAGE_SHARE_LINK_CREATED",
+        targetType: "landing_page",
+        targetId: req.params.pageId as string,
+        severity: "INFO",
+        metadata: { share_link_id: link.id, recipient_email: link.recipientEmail },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+      sendCreated(res, { share_link: serializeShareLink(link) });
+    })
+  );
+
+  router.patch(
+    "/:pageId/share-links/:linkId",
+    requirePageOwnerOrPermission(prisma),
+    asyncHandler(async (req: AuthReq, res: Response) => {
+      const payload = parseRequestBody(UpdateShareLinkSchema, req.body, res);
+      if (!payload) {
+        return;
+      }
+
+      const link = await shareLinks.update({
+        organizationId: req.organizationId!,
+        landingPageId: req.params.pageId as string,
+        linkId: req.params.linkId as string,
+        expiresAt:
+          payload.expires_at === undefined
+            ? undefined
+            : payload.expires_at === null
+              ? null
+              : new Date(payload.expires_at),
+        password: payload.password,
+        revoked: payload.revoked,
+      });
+      if (!link) {
+        sendNotFound(res, "Share link not found");
+        return;
+      }
+
+      await auditLogs.record({
+        organizationId: req.organizationId!,
+        actorUserId: req.userId!,
+        category: "PUBLISH",
+        action:
+          payload.revoked === true
+            ? "PAGE_SHARE_LINK_REVOKED"
+            : "PAGE_SHARE_LINK_UPDATED",
+        targetType: "landing_page",
+        targetId: req.params.pageId as string,
+        severity: payload.revoked === true ? "WARN" : "INFO",
+        metadata: { share_link_id: link.id, recipient_email: link.recipientEmail },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+      sendSuccess(res, { share_link: serializeShareLink(link) });
+    })
+  );
+}
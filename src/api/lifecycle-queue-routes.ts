@@ -6,6 +6,7 @@ import { RoleProfileService } from "../services/role-profiles.js";
 import { LifecycleStageService } from "../services/lifecycle-stage-service.js";
 import { isPublishedWithinUtcWindow } from "../services/lifecycle-stage.js";
 import { SlackApprovalNotifier } from "../services/slack-approval-notifier.js";
+import { dispatchApprovalRequestEvent } from "../services/outbound-webhooks.js";
 import { asyncHandler } from "../lib/async-handler.js";
 import type { AuthenticatedRequest } from "../types/authenticated-request.js";
 import {
@@ -648,7 +649,7 @@ export function createLifecycleQueueRoutes(prisma: PrismaClient): Router {
       }
 
       if (parse.data.decision === "REJECT") {
-        await prisma.approvalRequest.update({
+        const decided = await prisma.approvalRequest.update({
           where: { id: approval.id },
           data: {
             status: "REJECTED",
@@ -657,6 +658,7 @@ export function createLifecycleQueueRoutes(prisma: PrismaClient): Router {
             reviewedAt: new Date(),
           },
         });
+        await dispatchApprovalRequestEvent(prisma, decided);
         await slackNotifier.notifyApprovalDecision({
           organizationId: req.organizationId!,
           status: "REJECTED",
@@ -699,7 +701,7 @@ export function createLifecycleQueueRoutes(prisma: PrismaClient): Router {
           },
         });
 
-        await prisma.approvalRequest.update({
+        const decided = await prisma.approvalRequest.update({
           where: { id: approval.id },
           data: {
             status: "APPROVED",
@@ -708,6 +710,7 @@ export function createLifecycleQueueRoutes(prisma: PrismaClient): Router {
             reviewedAt: new Date(),
           },
         });
+        await dispatchApprovalRequestEvent(prisma, decided);
 
         await slackNotifier.notifyApprovalDecision({
           organizationId: req.organizationId!,
@@ -727,7 +730,7 @@ export function createLifecycleQueueRoutes(prisma: PrismaClient): Router {
         return;
       }
 
-      await prisma.approvalRequest.update({
+      const decided = await prisma.approvalRequest.update({
         where: { id: approval.id },
         data: {
           status: "APPROVED",
@@ -736,6 +739,7 @@ export function createLifecycleQueueRoutes(prisma: PrismaClient): Router {
           reviewedAt: new Date(),
         },
       });
+      await dispatchApprovalRequestEvent(prisma, decided);
 
       await slackNotifier.notifyApprovalDecision({
         organizationId: req.organizationId!,
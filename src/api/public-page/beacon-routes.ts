@@ -0,0 +1,54 @@
+/**
+ * Public Page — Engagement Beacon
+ *
+ * Unauthenticated endpoint the published page script reports scroll depth,
+ * time on page and CTA clicks to. Beacons only update a view recorded when
+ * the page was served, so the endpoint cannot create views on its own.
+ */
+
+import { Router, type Request, type Response } from "express";
+import type { PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { asyncHandler } from "../../lib/async-handler.js";
+import { PageAnalyticsService } from "../../services/page-analytics.js";
+import { parseRequestBody } from "../_shared/validators.js";
+import { sendNoContent, sendNotFound } from "../_shared/responses.js";
+
+const BeaconSchema = z.object({
+  view_id: z.string().min(1).max(64),
+  scroll_depth: z.number().min(0).max(100).optional(),
+  time_on_page_ms: z.number().min(0).optional(),
+  cta: z.string().max(64).optional(),
+});
+
+export function createPageAnalyticsBeaconRoutes(prisma: PrismaClient): Router {
+  const router = Router();
+  const analytics = new PageAnalyticsService(prisma);
+
+  /**
+   * POST /api/page-events
+   * Applies an engagement beacon to a recorded page view.
+   */
+  router.post(
+    "/",
+    asyncHandler(async (req: Request, res: Response) => {
+      const payload = parseRequestBody(BeaconSchema, req.body, res);
+      if (!payload) {
+        return;
+      }
+
+      const recorded = await analytics.recordEngagement(payload.view_id, {
+        scrollDepth: payload.scroll_depth,
+        timeOnPageMs: payload.time_on_page_ms,
+        cta: payload.cta,
+      });
+      if (!recorded) {
+        sendNotFound(res, "Page view not found");
+        return;
+      }
+      sendNoContent(res);
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,208 @@
+/**
+ * Public Page — Embeds
+ *
+ * Unauthenticated routes for story widgets on third-party sites, mounted
+ * at /embed:
+ *   - GET /embed/widget.js            loader script for the embed snippet
+ *   - GET /embed/pages/:slug          page summary card (iframe document)
+ *   - GET /embed/quotes/:embedKey     curated quote carousel (iframe document)
+ *   - GET /embed/oembed               oEmbed 1.0 discovery for both
+ *
+ * Each iframe document replaces the app-wide `frame-ancestors 'none'` with
+ * the owning org's allowed origins. Embeds never record page views; the
+ * "Read the full story" link goes to /s/{slug}, which does.
+ */
+
+import { Router, type Request, type Response } from "express";
+import type { PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { asyncHandler } from "../../lib/async-handler.js";
+import { StoryEmbedService } from "../../services/story-embeds.js";
+import {
+  DEFAULT_QUOTE_EMBED_LIMIT,
+  MAX_QUOTE_EMBED_LIMIT,
+  buildEmbedContentSecurityPolicy,
+  buildPageEmbedUrl,
+  buildQuoteEmbedUrl,
+  getEmbedBaseUrl,
+  isEmbedOriginAllowed,
+  isValidEmbedKey,
+  parseEmbedTargetUrl,
+  resolveEmbedSize,
+} from "../../services/story-embed-helpers.js";
+import { escapeHtml } from "../../lib/html-utils.js";
+import { parseRequestBody } from "../_shared/validators.js";
+import { sendError, sendNotFound } from "../_shared/responses.js";
+import {
+  renderEmbedUnavailableHtml,
+  renderEmbedWidgetScript,
+  renderPageEmbedHtml,
+  renderQuoteEmbedHtml,
+} from "./embed-templates.js";
+
+const EMBED_CACHE_SECONDS = 300;
+
+const OEmbedQuerySchema = z.object({
+  url: z.string().min(1).max(2000),
+  format: z.enum(["json", "xml"]).optional(),
+  maxwidth: z.coerce.number().int().positive().optional(),
+  maxheight: z.coerce.number().int().positive().optional(),
+});
+
+const QuoteEmbedQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_QUOTE_EMBED_LIMIT).optional(),
+});
+
+function sendEmbedDocument(res: Response, allowedOrigins: string[], html: string): void {
+  res.setHeader("Content-Security-Policy", buildEmbedContentSecurityPolicy(allowedOrigins));
+  res.removeHeader("X-Frame-Options");
+  res.setHeader("X-Robots-Tag", "noindex, nofollow");
+  res.setHeader("Cache-Control", `public, max-age=${EMBED_CACHE_SECONDS}`);
+  res.type("html").send(html);
+}
+
+// The unavailable card names no org, so any site may frame it; that way a
+// retired embed shows a message rather than a blocked frame.
+function sendUnavailable(res: Response): void {
+  res.setHeader("Content-Security-Policy", buildEmbedContentSecurityPolicy(null));
+  res.removeHeader("X-Frame-Options");
+  res.setHeader("X-Robots-Tag", "noindex, nofollow");
+  res.setHeader("Cache-Control", "no-store");
+  res.status(404).type("html").send(renderEmbedUnavailableHtml());
+}
+
+export function createEmbedRoutes(prisma: PrismaClient): Router {
+  const router = Router();
+  const embeds = new StoryEmbedService(prisma);
+
+  /**
+   * GET /embed/widget.js
+   * Loader script for the embed snippet.
+   */
+  router.get("/widget.js", (_req: Request, res: Response) => {
+    res.setHeader("Cross-Origin-Resource-Policy", "cross-origin");
+    res.setHeader("Cache-Control", "public, max-age=3600");
+    res.type("application/javascript").send(renderEmbedWidgetScript(getEmbedBaseUrl()));
+  });
+
+  /**
+   * GET /embed/pages/:slug
+   * Summary card for a published page. Archived, expired, private and
+   * password-protected pages render the unavailable card instead.
+   */
+  router.get(
+    "/pages/:slug",
+    asyncHandler(async (req: Request, res: Response) => {
+      const embed = await embeds.getPageEmbed(req.params.slug as string);
+      if (!embed) {
+        sendUnavailable(res);
+        return;
+      }
+
+      const { page, allowedOrigins } = embed;
+      sendEmbedDocument(
+        res,
+        allowedOrigins,
+        renderPageEmbedHtml({
+          ...page,
+          pageUrl: `${getEmbedBaseUrl()}/s/${encodeURIComponent(req.params.slug as string)}`,
+        })
+      );
+    })
+  );
+
+  /**
+   * GET /embed/quotes/:embedKey
+   * Carousel of the org's curated quotes, scrubbed like published pages.
+   */
+  router.get(
+    "/quotes/:embedKey",
+    asyncHandler(async (req: Request, res: Response) => {
+      const embedKey = req.params.embedKey as string;
+      const query = QuoteEmbedQuerySchema.safeParse(req.query);
+      const limit = query.success ? (query.data.limit ?? DEFAULT_QUOTE_EMBED_LIMIT) : DEFAULT_QUOTE_EMBED_LIMIT;
+      const embed = isValidEmbedKey(embedKey) ? await embeds.getQuoteEmbed(embedKey, limit) : null;
+      if (!embed) {
+        sendUnavailable(res);
+        return;
+      }
+
+      sendEmbedDocument(res, embed.allowedOrigins, renderQuoteEmbedHtml(embed));
+    })
+  );
+
+  /**
+   * GET /embed/oembed?url=...&format=json
+   * oEmbed 1.0 provider endpoint. Only JSON is supported. Browsers on an
+   * allowed origin may call it directly; everyone else gets no CORS header.
+   */
+  router.get(
+    "/oembed",
+    asyncHandler(async (req: Request, res: Response) => {
+      const query = parseRequestBody(OEmbedQuerySchema, req.query, res);
+      if (!query) {
+        return;
+      }
+      if (query.format === "xml") {
+        sendError(res, 501, "not_implemented", "Only the json oEmbed format is supported");
+        return;
+      }
+
+      const baseUrl = getEmbedBaseUrl();
+      const target = parseEmbedTargetUrl(query.url, baseUrl);
+      if (!target) {
+        sendNotFound(res, "No embeddable story at that URL");
+        return;
+      }
+
+      let embedUrl: string;
+      let title: string;
+      let allowedOrigins: string[];
+      let authorName: string | undefined;
+      if (target.kind === "page") {
+        const embed = await embeds.getPageEmbed(target.slug);
+        if (!embed) {
+          sendNotFound(res, "No embeddable story at that URL");
+          return;
+        }
+        embedUrl = buildPageEmbedUrl(baseUrl, target.slug);
+        title = embed.page.title;
+        allowedOrigins = embed.allowedOrigins;
+        authorName = embed.page.branding?.brandName ?? undefined;
+      } else {
+        const embed = await embeds.getQuoteEmbed(target.embedKey, DEFAULT_QUOTE_EMBED_LIMIT);
+        if (!embed || embed.quotes.length === 0) {
+          sendNotFound(res, "No embeddable story at that URL");
+          return;
+        }
+        embedUrl = buildQuoteEmbedUrl(baseUrl, target.embedKey);
+        title = "Customer quotes";
+        allowedOrigins = embed.allowedOrigins;
+        authorName = embed.branding?.brandName ?? undefined;
+      }
+
+      const origin = req.get("origin");
+      res.setHeader("Vary", "Origin");
+      if (isEmbedOriginAllowed(origin, allowedOrigins)) {
+        res.setHeader("Access-Control-Allow-Origin", origin!);
+      }
+
+      const { width, height } = resolveEmbedSize(target.kind, query.maxwidth, query.maxheight);
+      res.setHeader("Cache-Control", `public, max-age=${EMBED_CACHE_SECONDS}`);
+      res.json({
+        version: "1.0",
+        type: "rich",
+        provider_name: "StoryEngine",
+        provider_url: baseUrl,
+        title,
+        ...(authorName ? { author_name: authorName } : {}),
+        width,
+        height,
+        cache_age: EMBED_CACHE_SECONDS,
+        html: `<iframe src="${escapeHtml(embedUrl)}" width="${width}" height="${height}" title="${escapeHtml(title)}" loading="lazy" style="border:0;max-width:100%"></iframe>`,
+      });
+    })
+  );
+
+  return router;
+}
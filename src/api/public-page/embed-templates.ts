@@ -0,0 +1,306 @@
+/**
+ * Public Page — Embed Templates
+ *
+ * HTML documents served inside third-party iframes by the /embed routes,
+ * and the loader script sites include to place them:
+ *   - Page summary card (`renderPageEmbedHtml`)
+ *   - Curated quote carousel (`renderQuoteEmbedHtml`)
+ *   - Unavailable card for archived, expired or unknown embeds
+ *   - Widget loader (`renderEmbedWidgetScript`)
+ *
+ * Embeds are themed from the org's published branding, the same settings
+ * the full landing page uses.
+ */
+
+import { escapeHtml } from "../../lib/html-utils.js";
+import { markdownToTextBlocks, runsToPlainText } from "../../lib/markdown-render.js";
+import type { CalloutBox } from "../../services/landing-page-editor.js";
+import type { EmbedQuote } from "../../services/story-embeds.js";
+import type { PublishedBrandingSettings } from "../../types/story-generation.js";
+import { sanitizeBrandingSettings } from "./sanitizers.js";
+
+const EXCERPT_MAX_LENGTH = 280;
+const MAX_EMBED_CALLOUTS = 3;
+
+/** postMessage type the embed documents and the loader agree on. */
+const RESIZE_MESSAGE = "storyengine:embed-resize";
+
+// ─── Shared Pieces ───────────────────────────────────────────────────────────
+
+const EMBED_STYLES = `
+    :root {
+      --color-accent: #4f46e5;
+      --color-accent-hover: #4338ca;
+      --color-surface: #ffffff;
+      --color-text: #111827;
+      --color-muted: #6b7280;
+      --color-border: #e5e7eb;
+    }
+    * { box-sizing: border-box; }
+    html, body { margin: 0; padding: 0; background: transparent; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+      color: var(--color-text);
+      font-size: 15px;
+      line-height: 1.5;
+    }
+    .embed {
+      background: var(--color-surface);
+      border: 1px solid var(--color-border);
+      border-radius: 12px;
+      padding: 20px 24px;
+    }
+    .embed__brand { display: flex; align-items: center; gap: 8px; margin-bottom: 12px; color: var(--color-muted); font-size: 13px; font-weight: 600; }
+    .embed__brand img { max-height: 24px; max-width: 120px; }
+    .embed__title { margin: 0 0 4px; font-size: 20px; line-height: 1.3; }
+    .embed__subtitle { margin: 0 0 12px; color: var(--color-muted); }
+    .embed__excerpt { margin: 0 0 16px; }
+    .embed__highlights { display: grid; gap: 8px; grid-template-columns: repeat(auto-fit, minmax(160px, 1fr)); margin: 0 0 16px; padding: 0; list-style: none; }
+    .embed__highlight { border-left: 3px solid var(--color-accent); padding: 4px 10px; }
+    .embed__highlight strong { display: block; font-size: 14px; }
+    .embed__highlight span { color: var(--color-muted); font-size: 13px; }
+    .embed__cta { display: inline-block; background: var(--color-accent); color: #fff; border-radius: 8px; padding: 8px 14px; font-weight: 600; text-decoration: none; }
+    .embed__cta:hover, .embed__cta:focus { background: var(--color-accent-hover); }
+    .embed__footer { margin-top: 12px; color: var(--color-muted); font-size: 12px; }
+    .quote { margin: 0; }
+    .quote[hidden] { display: none; }
+    .quote blockquote { margin: 0 0 8px; font-size: 18px; line-height: 1.45; }
+    .quote blockquote::before { content: "\\201C"; color: var(--color-accent); font-size: 32px; line-height: 0; margin-right: 4px; vertical-align: -10px; }
+    .quote figcaption { color: var(--color-muted); font-size: 13px; }
+    .quotes__nav { display: flex; align-items: center; gap: 8px; margin-top: 16px; }
+    .quotes__nav button { border: 1px solid var(--color-border); background: transparent; border-radius: 999px; width: 32px; height: 32px; cursor: pointer; color: var(--color-text); }
+    .quotes__nav button:focus-visible { outline: 2px solid var(--color-accent); outline-offset: 2px; }
+    .quotes__count { color: var(--color-muted); font-size: 13px; }
+    @media (prefers-color-scheme: dark) {
+      :root { --color-text: #f9fafb; --color-muted: #9ca3af; --color-border: #374151; }
+    }`;
+
+function brandingCssOverrides(branding: ReturnType<typeof sanitizeBrandingSettings>): string {
+  return [
+    branding?.primaryColor ? `--color-accent: ${branding.primaryColor};` : null,
+    branding?.accentColor ? `--color-accent-hover: ${branding.accentColor};` : null,
+    branding?.surfaceColor ? `--color-surface: ${branding.surfaceColor};` : null,
+  ]
+    .filter((value): value is string => value !== null)
+    .join(" ");
+}
+
+function renderBrand(branding: ReturnType<typeof sanitizeBrandingSettings>): string {
+  if (!branding?.brandName && !branding?.logoUrl) return "";
+  const logo = branding.logoUrl
+    ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.brandName ? `${branding.brandName} logo` : "Organization logo")}" />`
+    : "";
+  const name = branding.brandName ? `<span>${escapeHtml(branding.brandName)}</span>` : "";
+  return `<div class="embed__brand">${logo}${name}</div>`;
+}
+
+/** Reports the document height to the loader so the iframe fits its content. */
+const RESIZE_SCRIPT = `<script>
+  (function () {
+    function post() {
+      if (window.parent === window) return;
+      window.parent.postMessage({ type: "${RESIZE_MESSAGE}", height: document.documentElement.scrollHeight }, "*");
+    }
+    window.addEventListener("load", post);
+    if (window.ResizeObserver) new ResizeObserver(post).observe(document.body);
+  })();
+  </script>`;
+
+function renderEmbedDocument(input: {
+  title: string;
+  branding: PublishedBrandingSettings | null;
+  body: string;
+  script?: string;
+}): string {
+  const safeBranding = sanitizeBrandingSettings(input.branding);
+  const overrides = brandingCssOverrides(safeBranding);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex, nofollow">
+  <title>${escapeHtml(input.title)}</title>
+  <style>${EMBED_STYLES}
+    ${overrides ? `:root { ${overrides} }` : ""}
+  </style>
+</head>
+<body>
+  <div class="embed">
+    ${renderBrand(safeBranding)}
+    ${input.body}
+    <div class="embed__footer">Powered by StoryEngine</div>
+  </div>
+  ${input.script ?? ""}
+  ${RESIZE_SCRIPT}
+</body>
+</html>`;
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}...`;
+}
+
+function markdownExcerpt(markdown: string, maxLength: number): string {
+  const paragraph = markdownToTextBlocks(markdown).find((block) => block.kind === "paragraph");
+  if (!paragraph || paragraph.kind !== "paragraph") return "";
+  return truncate(runsToPlainText(paragraph.runs).trim(), maxLength);
+}
+
+// ─── Page Card ───────────────────────────────────────────────────────────────
+
+export function renderPageEmbedHtml(page: {
+  title: string;
+  subtitle: string | null;
+  body: string;
+  calloutBoxes: CalloutBox[];
+  branding: PublishedBrandingSettings | null;
+  pageUrl: string;
+}): string {
+  const excerpt = markdownExcerpt(page.body, EXCERPT_MAX_LENGTH);
+  const highlights = (Array.isArray(page.calloutBoxes) ? page.calloutBoxes : [])
+    .slice(0, MAX_EMBED_CALLOUTS)
+    .map(
+      (box) =>
+        `<li class="embed__highlight"><strong>${escapeHtml(box.title)}</strong><span>${escapeHtml(markdownExcerpt(box.body, 120))}</span></li>`
+    )
+    .join("");
+
+  return renderEmbedDocument({
+    title: page.title,
+    branding: page.branding,
+    body: `<h1 class="embed__title">${escapeHtml(page.title)}</h1>
+    ${page.subtitle ? `<p class="embed__subtitle">${escapeHtml(page.subtitle)}</p>` : ""}
+    ${excerpt ? `<p class="embed__excerpt">${escapeHtml(excerpt)}</p>` : ""}
+    ${highlights ? `<ul class="embed__highlights" aria-label="Key highlights">${highlights}</ul>` : ""}
+    <a class="embed__cta" href="${escapeHtml(page.pageUrl)}" target="_blank" rel="noopener">Read the full story</a>`,
+  });
+}
+
+// ─── Quote Carousel ──────────────────────────────────────────────────────────
+
+const QUOTE_CAROUSEL_SCRIPT = `<script>
+  (function () {
+    var quotes = document.querySelectorAll(".quote");
+    var count = document.querySelector(".quotes__count");
+    var index = 0;
+    function show(next) {
+      index = (next + quotes.length) % quotes.length;
+      for (var i = 0; i < quotes.length; i++) quotes[i].hidden = i !== index;
+      if (count) count.textContent = (index + 1) + " / " + quotes.length;
+    }
+    var prev = document.querySelector("[data-quote-prev]");
+    var nextButton = document.querySelector("[data-quote-next]");
+    if (prev) prev.addEventListener("click", function () { show(index - 1); });
+    if (nextButton) nextButton.addEventListener("click", function () { show(index + 1); });
+  })();
+  </script>`;
+
+export function renderQuoteEmbedHtml(input: {
+  quotes: EmbedQuote[];
+  branding: PublishedBrandingSettings | null;
+}): string {
+  if (input.quotes.length === 0) {
+    return renderEmbedUnavailableHtml();
+  }
+
+  const figures = input.quotes
+    .map((quote, index) => {
+      const attribution = quote.attribution ? escapeHtml(quote.attribution) : "Verified customer";
+      return `<figure class="quote"${index === 0 ? "" : " hidden"}>
+      <blockquote>${escapeHtml(quote.text)}</blockquote>
+      <figcaption>${attribution}</figcaption>
+    </figure>`;
+    })
+    .join("\n    ");
+
+  const nav =
+    input.quotes.length > 1
+      ? `<div class="quotes__nav">
+      <button type="button" data-quote-prev aria-label="Previous quote">&#8249;</button>
+      <button type="button" data-quote-next aria-label="Next quote">&#8250;</button>
+      <span class="quotes__count" aria-live="polite">1 / ${input.quotes.length}</span>
+    </div>`
+      : "";
+
+  return renderEmbedDocument({
+    title: "Customer quotes",
+    branding: input.branding,
+    body: `<section aria-roledescription="carousel" aria-label="Customer quotes">
+    ${figures}
+    ${nav}
+    </section>`,
+    script: input.quotes.length > 1 ? QUOTE_CAROUSEL_SCRIPT : undefined,
+  });
+}
+
+// ─── Unavailable ─────────────────────────────────────────────────────────────
+
+/** Shown in place of an archived, expired or unknown embed. */
+export function renderEmbedUnavailableHtml(): string {
+  return renderEmbedDocument({
+    title: "Story unavailable",
+    branding: null,
+    body: `<p class="embed__subtitle">This story is no longer available.</p>`,
+  });
+}
+
+// ─── Widget Loader ───────────────────────────────────────────────────────────
+
+/**
+ * Loader sites include with a `<script>` tag. Each element carrying
+ * `data-storyengine-embed="<embed url>"` is replaced by an iframe, which
+ * then grows to fit its content. Only embed URLs on this deployment are
+ * loaded, so the attribute cannot be used to frame other sites.
+ */
+export function renderEmbedWidgetScript(baseUrl: string): string {
+  const config = JSON.stringify({
+    origin: new URL(baseUrl).origin,
+    message: RESIZE_MESSAGE,
+  }).replace(/</g, "\\u003c");
+  return `(function () {
+  var config = ${config};
+  var frames = [];
+  function mount(el) {
+    if (el.getAttribute("data-storyengine-mounted")) return;
+    var src = el.getAttribute("data-storyengine-embed") || "";
+    var url;
+    try { url = new URL(src, config.origin); } catch (e) { return; }
+    if (url.origin !== config.origin || url.pathname.indexOf("/embed/") !== 0) return;
+    var frame = document.createElement("iframe");
+    frame.src = url.toString();
+    frame.title = el.getAttribute("data-title") || "Customer story";
+    frame.loading = "lazy";
+    frame.style.width = "100%";
+    frame.style.maxWidth = (el.getAttribute("data-max-width") || "600") + "px";
+    frame.style.height = (el.getAttribute("data-height") || "320") + "px";
+    frame.style.border = "0";
+    frame.setAttribute("referrerpolicy", "strict-origin-when-cross-origin");
+    el.setAttribute("data-storyengine-mounted", "true");
+    el.appendChild(frame);
+    frames.push(frame);
+  }
+  function mountAll() {
+    var nodes = document.querySelectorAll("[data-storyengine-embed]");
+    for (var i = 0; i < nodes.length; i++) mount(nodes[i]);
+  }
+  window.addEventListener("message", function (event) {
+    if (event.origin !== config.origin || !event.data || event.data.type !== config.message) return;
+    for (var i = 0; i < frames.length; i++) {
+      if (frames[i].contentWindow === event.source) {
+        var height = Math.min(4000, Math.max(80, Number(event.data.height) || 0));
+        frames[i].style.height = height + "px";
+      }
+    }
+  });
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", mountAll);
+  } else {
+    mountAll();
+  }
+})();
+`;
+}
@@ -2,79 +2,39 @@
  * Public Page — Renderer
  *
  * Route handler + HTML template composition for the public landing pages
- * served at /s/{slug}. Includes:
- *   - Markdown-to-HTML converter
+ * served at /s/{slug} and per-recipient share links at /s/{slug}/r/{token}.
+ * Embeddable pages advertise the oEmbed endpoint in embed-routes.ts.
+ * Markdown is rendered by the shared pipeline in lib/markdown-render.ts.
+ * Includes:
  *   - Callout-box icon/label maps
  *   - Landing page HTML template (`renderLandingPageHtml`)
  *   - Password challenge page
  *   - Error pages (404, 410)
+ *   - View tracking and the engagement beacon script
  *   - Route registration (`registerRoutes`)
  */
 
+import crypto from "crypto";
 import { Router, type Request, type Response } from "express";
 import type { PrismaClient } from "@prisma/client";
+import logger from "../../lib/logger.js";
+import { asyncHandler } from "../../lib/async-handler.js";
 import { escapeHtml } from "../../lib/html-utils.js";
+import { renderMarkdownHtml } from "../../lib/markdown-render.js";
 import { LandingPageEditor, type CalloutBox } from "../../services/landing-page-editor.js";
+import { PageAnalyticsService } from "../../services/page-analytics.js";
+import { PageShareLinkService } from "../../services/page-share-links.js";
+import {
+  PAGE_ANALYTICS_VISITOR_COOKIE,
+  isLikelyBot,
+  parseAttribution,
+  trackingOptedOut,
+} from "../../services/page-analytics-helpers.js";
+import { getEmbedBaseUrl } from "../../services/story-embed-helpers.js";
 import { verifyPagePassword } from "../../lib/page-password.js";
 import { sanitizeCustomCss, sanitizeHeroImageUrl, sanitizeBrandingSettings } from "./sanitizers.js";
 import { getLandingPageStyles, PASSWORD_PAGE_STYLES } from "./styles.js";
 
-// ─── Markdown to HTML (simple converter) ─────────────────────────────────────
-
-function markdownToHtml(md: string): string {
-  const safeMd = escapeHtml(md);
-
-  let html = safeMd
-    // Headers
-    .replace(/^#### (.+)$/gm, "<h4>$1</h4>")
-    .replace(/^### (.+)$/gm, "<h3>$1</h3>")
-    .replace(/^## (.+)$/gm, "<h2>$1</h2>")
-    .replace(/^# (.+)$/gm, "<h1>$1</h1>")
-    // Bold
-    .replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>")
-    // Italic
-    .replace(/\*(.+?)\*/g, "<em>$1</em>")
-    // Blockquotes
-    .replace(/^> (.+)$/gm, "<blockquote><p>$1</p></blockquote>")
-    // Unordered lists
-    .replace(/^- (.+)$/gm, "<li>$1</li>")
-    // Horizontal rules
-    .replace(/^---$/gm, "<hr>")
-    // Tables (basic)
-    .replace(/^\|(.+)\|$/gm, (_, content: string) => {
-      const cells = content.split("|").map((c: string) => c.trim());
-      const tds = cells.map((c: string) => `<td>${c}</td>`).join("");
-      return `<tr>${tds}</tr>`;
-    })
-    // Line breaks
-    .replace(/\n\n/g, "</p><p>")
-    .replace(/\n/g, "<br>");
-
-  // Wrap loose <li> in <ul>
-  html = html.replace(
-    /(<li>.*?<\/li>(?:<br>)?)+/g,
-    (match) => `<ul>${match.replace(/<br>/g, "")}</ul>`
-  );
-
-  // Wrap in paragraphs
-  html = `<p>${html}</p>`;
-
-  // Clean up empty paragraphs
-  html = html.replace(/<p><\/p>/g, "");
-  html = html.replace(/<p>(<h[1-4]>)/g, "$1");
-  html = html.replace(/(<\/h[1-4]>)<\/p>/g, "$1");
-  html = html.replace(/<p>(<blockquote>)/g, "$1");
-  html = html.replace(/(<\/blockquote>)<\/p>/g, "$1");
-  html = html.replace(/<p>(<ul>)/g, "$1");
-  html = html.replace(/(<\/ul>)<\/p>/g, "$1");
-  html = html.replace(/<p>(<hr>)<\/p>/g, "$1");
-
-  // Wrap adjacent <tr> in <table>
-  html = html.replace(/(<tr>.*?<\/tr>(?:\s*<tr>.*?<\/tr>)*)/g, "<table>$1</table>");
-
-  return html;
-}
-
 // ─── Callout Box Icon SVGs ───────────────────────────────────────────────────
 
 const CALLOUT_ICONS: Record<string, string> = {
@@ -103,8 +63,92 @@ const CALLOUT_LABELS: Record<string, string> = {
   success: "Success",
 };
 
+// ─── Engagement Beacon Script ────────────────────────────────────────────────
+
+/** Beacon endpoint, mounted in app.ts outside the /s password rate limit. */
+const PAGE_EVENTS_URL = "/api/page-events";
+
+export interface PageAnalyticsContext {
+  viewId: string;
+  beaconUrl: string;
+}
+
+/**
+ * Reports running scroll depth and visible time when the tab is hidden, and
+ * a beacon per click on any element carrying `data-cta`.
+ */
+function renderAnalyticsScript(analytics: PageAnalyticsContext): string {
+  const config = JSON.stringify({ viewId: analytics.viewId, url: analytics.beaconUrl }).replace(
+    /</g,
+    "\\u003c"
+  );
+  return `<script>
+  (function () {
+    var config = ${config};
+    var maxScroll = 0, visibleMs = 0, visibleSince = Date.now();
+    function depth() {
+      var doc = document.documentElement;
+      var scrollable = doc.scrollHeight - doc.clientHeight;
+      return scrollable <= 0 ? 100 : Math.min(100, Math.round((window.scrollY / scrollable) * 100));
+    }
+    function elapsed() {
+      return visibleMs + (visibleSince ? Date.now() - visibleSince : 0);
+    }
+    function send(cta) {
+      var body = JSON.stringify({ view_id: config.viewId, scroll_depth: maxScroll, time_on_page_ms: elapsed(), cta: cta || undefined });
+      if (navigator.sendBeacon) {
+        navigator.sendBeacon(config.url, new Blob([body], { type: "application/json" }));
+      } else {
+        fetch(config.url, { method: "POST", headers: { "Content-Type": "application/json" }, body: body, keepalive: true });
+      }
+    }
+    maxScroll = depth();
+    window.addEventListener("scroll", function () { maxScroll = Math.max(maxScroll, depth()); }, { passive: true });
+    document.addEventListener("visibilitychange", function () {
+      if (document.visibilityState === "hidden") {
+        visibleMs = elapsed();
+        visibleSince = 0;
+        send();
+      } else {
+        visibleSince = Date.now();
+      }
+    });
+    document.addEventListener("click", function (event) {
+      var target = event.target && event.target.closest ? event.target.closest("[data-cta]") : null;
+      if (target) send(target.getAttribute("data-cta"));
+    });
+  })();
+  </script>`;
+}
+
 // ─── HTML Template ───────────────────────────────────────────────────────────
 
+/** `:root` custom-property overrides for already sanitized branding. */
+export function buildBrandingCssOverrides(
+  safeBranding: ReturnType<typeof sanitizeBrandingSettings>
+): string {
+  return [
+    safeBranding?.primaryColor ? `--color-accent: ${safeBranding.primaryColor};` : null,
+    safeBranding?.primaryColor ? `--color-focus: ${safeBranding.primaryColor};` : null,
+    safeBranding?.accentColor ? `--color-accent-hover: ${safeBranding.accentColor};` : null,
+    safeBranding?.surfaceColor ? `--color-surface: ${safeBranding.surfaceColor};` : null,
+  ]
+    .filter((value): value is string => value !== null)
+    .join("\n      ");
+}
+
+/**
+ * Rendering for the static site bundle (see LandingPageExporter). The page
+ * is hosted by the customer, so it uses a bundled hero image, takes its
+ * robots directive from the page's noIndex flag and loads no web fonts.
+ */
+export interface StaticPageRenderOptions {
+  /** Bundle-relative hero image path, or null when no image was copied. */
+  heroImagePath: string | null;
+  noIndex: boolean;
+  canonicalUrl: string;
+}
+
 export function renderLandingPageHtml(page: {
   title: string;
   subtitle: string | null;
@@ -120,19 +164,19 @@ export function renderLandingPageHtml(page: {
     accentColor?: string | null;
     surfaceColor?: string | null;
   } | null;
+  analytics?: PageAnalyticsContext | null;
+  /** oEmbed discovery URL, set only for pages that can be embedded. */
+  oembedUrl?: string | null;
+  staticExport?: StaticPageRenderOptions | null;
 }): string {
   const safeBranding = sanitizeBrandingSettings(page.branding);
-  const bodyHtml = markdownToHtml(page.body);
+  const bodyHtml = renderMarkdownHtml(page.body);
   const safeCustomCss = sanitizeCustomCss(page.customCss) ?? "";
-  const safeHeroImageUrl = sanitizeHeroImageUrl(page.heroImageUrl);
-  const brandingCssOverrides = [
-    safeBranding?.primaryColor ? `--color-accent: ${safeBranding.primaryColor};` : null,
-    safeBranding?.primaryColor ? `--color-focus: ${safeBranding.primaryColor};` : null,
-    safeBranding?.accentColor ? `--color-accent-hover: ${safeBranding.accentColor};` : null,
-    safeBranding?.surfaceColor ? `--color-surface: ${safeBranding.surfaceColor};` : null,
-  ]
-    .filter((value): value is string => value !== null)
-    .join("\n      ");
+  const staticExport = page.staticExport ?? null;
+  const safeHeroImageUrl = staticExport
+    ? staticExport.heroImagePath
+    : sanitizeHeroImageUrl(page.heroImageUrl);
+  const brandingCssOverrides = buildBrandingCssOverrides(safeBranding);
 
   // Reading time estimate (~200 words/min average reading speed)
   const wordCount = page.body.split(/\s+/).filter(Boolean).length;
@@ -152,7 +196,7 @@ export function renderLandingPageHtml(page: {
         </div>
         <div class="callout__content">
           <h3 class="callout__title">${escapeHtml(box.title)}</h3>
-          <div class="callout__body">${markdownToHtml(box.body)}</div>
+          <div class="callout__body">${renderMarkdownHtml(box.body)}</div>
         </div>
       </div>`;
     })
@@ -180,18 +224,28 @@ export function renderLandingPageHtml(page: {
 
   const hours = page.totalCallHours;
   const hoursLabel = hours === 1 ? "hour" : "hours";
+  const robots = staticExport && !staticExport.noIndex ? "index, follow" : "noindex, nofollow";
 
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <meta name="robots" content="noindex, nofollow">
-  <meta name="googlebot" content="noindex, nofollow">
+  <meta name="robots" content="${robots}">
+  <meta name="googlebot" content="${robots}">
   <title>${escapeHtml(page.title)}</title>
-  <link rel="preconnect" href="https://fonts.googleapis.com">
+  ${
+    page.oembedUrl
+      ? `<link rel="alternate" type="application/json+oembed" href="${escapeHtml(page.oembedUrl)}" title="${escapeHtml(page.title)}">`
+      : ""
+  }
+  ${
+    staticExport
+      ? `<link rel="canonical" href="${escapeHtml(staticExport.canonicalUrl)}">`
+      : `<link rel="preconnect" href="https://fonts.googleapis.com">
   <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>
-  <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap" rel="stylesheet">
+  <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap" rel="stylesheet">`
+  }
   <style>${getLandingPageStyles(brandingCssOverrides, safeCustomCss)}
   </style>
 </head>
@@ -227,15 +281,15 @@ export function renderLandingPageHtml(page: {
     <div class="share-section" aria-label="Share this page">
       <span class="share-section__label">Share this story</span>
       <div class="share-section__buttons">
-        <button class="share-btn" aria-label="Copy link to clipboard" onclick="navigator.clipboard.writeText(window.location.href).then(function(){var b=document.querySelector('.share-btn--copy-feedback');if(b){b.textContent='Copied!';setTimeout(function(){b.textContent='Copy link'},2000)}})">
+        <button class="share-btn" data-cta="share_copy" aria-label="Copy link to clipboard" onclick="navigator.clipboard.writeText(window.location.href).then(function(){var b=document.querySelector('.share-btn--copy-feedback');if(b){b.textContent='Copied!';setTimeout(function(){b.textContent='Copy link'},2000)}})">
           <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" width="16" height="16" aria-hidden="true"><path d="M10 13a5 5 0 007.54.54l3-3a5 5 0 00-7.07-7.07l-1.72 1.71"/><path d="M14 11a5 5 0 00-7.54-.54l-3 3a5 5 0 007.07 7.07l1.71-1.71"/></svg>
           <span class="share-btn--copy-feedback">Copy link</span>
         </button>
-        <a class="share-btn" href="mailto:?subject=${encodeURIComponent(page.title)}&body=Check out this story: " aria-label="Share via email" onclick="this.href=this.href+encodeURIComponent(window.location.href)">
+        <a class="share-btn" data-cta="share_email" href="mailto:?subject=${encodeURIComponent(page.title)}&body=Check out this story: " aria-label="Share via email" onclick="this.href=this.href+encodeURIComponent(window.location.href)">
           <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" width="16" height="16" aria-hidden="true"><path d="M4 4h16c1.1 0 2 .9 2 2v12c0 1.1-.9 2-2 2H4c-1.1 0-2-.9-2-2V6c0-1.1.9-2 2-2z"/><polyline points="22,6 12,13 2,6"/></svg>
           Email
         </a>
-        <a class="share-btn" href="https://www.linkedin.com/sharing/share-offsite/?url=" target="_blank" rel="noopener noreferrer" aria-label="Share on LinkedIn" onclick="this.href=this.href+encodeURIComponent(window.location.href)">
+        <a class="share-btn" data-cta="share_linkedin" href="https://www.linkedin.com/sharing/share-offsite/?url=" target="_blank" rel="noopener noreferrer" aria-label="Share on LinkedIn" onclick="this.href=this.href+encodeURIComponent(window.location.href)">
           <svg viewBox="0 0 24 24" fill="currentColor" width="16" height="16" aria-hidden="true"><path d="M20.447 20.452h-3.554v-5.569c0-1.328-.027-3.037-1.852-3.037-1.853 0-2.136 1.445-2.136 2.939v5.667H9.351V9h3.414v1.561h.046c.477-.9 1.637-1.85 3.37-1.85 3.601 0 4.267 2.37 4.267 5.455v6.286zM5.337 7.433c-1.144 0-2.063-.926-2.063-2.065 0-1.138.92-2.063 2.063-2.063 1.14 0 2.064.925 2.064 2.063 0 1.139-.925 2.065-2.064 2.065zm1.782 13.019H3.555V9h3.564v11.452zM22.225 0H1.771C.792 0 0 .774 0 1.729v20.542C0 23.227.792 24 1.771 24h20.451C23.2 24 24 23.227 24 22.271V1.729C24 .774 23.2 0 22.222 0h.003z"/></svg>
           LinkedIn
         </a>
@@ -273,13 +327,14 @@ export function renderLandingPageHtml(page: {
       </svg>
     </button>
   </aside>
+  ${page.analytics ? renderAnalyticsScript(page.analytics) : ""}
 </body>
 </html>`;
 }
 
 // ─── Password Challenge Page ─────────────────────────────────────────────────
 
-function renderPasswordPage(slug: string, showError = false): string {
+function renderPasswordPage(formAction: string, showError = false): string {
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -304,7 +359,7 @@ function renderPasswordPage(slug: string, showError = false): string {
     <h1>This page is protected</h1>
     <p class="card__description">If you were given a password, enter it below.</p>
     <div class="error" role="alert" ${showError ? "" : "hidden"}>Unable to access this story with the provided password.</div>
-    <form method="POST" action="/s/${escapeHtml(slug)}">
+    <form method="POST" action="${escapeHtml(formAction)}">
       <div class="form-group">
         <label for="password-input">Password</label>
         <input type="password" id="password-input" name="p" autocomplete="current-password" required autofocus />
@@ -316,11 +371,92 @@ function renderPasswordPage(slug: string, showError = false): string {
 </html>`;
 }
 
+// ─── View Tracking ───────────────────────────────────────────────────────────
+
+const VISITOR_COOKIE_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000;
+const VISITOR_ID = /^[0-9a-f-]{36}$/;
+
+function readCookie(req: Request, name: string): string | null {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return null;
+}
+
+/**
+ * Records the view unless the reader sent Do Not Track / Global Privacy
+ * Control, looks like a bot, or the org turned page analytics off. Tracking
+ * failures never block the page.
+ */
+async function trackPageView(
+  analytics: PageAnalyticsService,
+  req: Request,
+  res: Response,
+  page: { id: string; organizationId: string },
+  shareLinkId: string | null = null
+): Promise<PageAnalyticsContext | null> {
+  const userAgent = req.get("user-agent");
+  if (trackingOptedOut({ dnt: req.get("dnt"), gpc: req.get("sec-gpc") }) || isLikelyBot(userAgent)) {
+    return null;
+  }
+
+  try {
+    const policy = await analytics.getPolicy(page.organizationId);
+    if (!policy.enabled) {
+      return null;
+    }
+
+    let visitorId: string | null = null;
+    if (policy.cookiesEnabled) {
+      visitorId = readCookie(req, PAGE_ANALYTICS_VISITOR_COOKIE);
+      if (!visitorId || !VISITOR_ID.test(visitorId)) {
+        visitorId = crypto.randomUUID();
+        res.cookie(PAGE_ANALYTICS_VISITOR_COOKIE, visitorId, {
+          httpOnly: true,
+          sameSite: "lax",
+          secure: req.secure,
+          maxAge: VISITOR_COOKIE_MAX_AGE_MS,
+          path: "/s",
+        });
+      }
+    }
+
+    const viewId = await analytics.recordView({
+      organizationId: page.organizationId,
+      landingPageId: page.id,
+      ip: req.ip ?? "",
+      userAgent: userAgent ?? "",
+      attribution: parseAttribution(req.get("referer"), req.query, req.get("host")),
+      visitorId,
+      shareLinkId,
+    });
+    return { viewId, beaconUrl: PAGE_EVENTS_URL };
+  } catch (error) {
+    logger.warn("Page view tracking failed", { landingPageId: page.id, error });
+    return null;
+  }
+}
+
+function buildOEmbedDiscoveryUrl(slug: string): string {
+  const baseUrl = getEmbedBaseUrl();
+  const pageUrl = `${baseUrl}/s/${encodeURIComponent(slug)}`;
+  return `${baseUrl}/embed/oembed?format=json&url=${encodeURIComponent(pageUrl)}`;
+}
+
 // ─── Route Registration ──────────────────────────────────────────────────────
 
 export function registerRoutes(deps: { router: Router; prisma: PrismaClient }): void {
   const { router, prisma } = deps;
   const editor = new LandingPageEditor(prisma);
+  const analytics = new PageAnalyticsService(prisma);
+  const shareLinks = new PageShareLinkService(prisma);
+
+  const sendPasswordPage = (res: Response, formAction: string, showError: boolean) => {
+    res.setHeader("X-Robots-Tag", "noindex, nofollow");
+    res.setHeader("Cache-Control", "private, no-store");
+    res.status(200).send(renderPasswordPage(formAction, showError));
+  };
 
   // Shared handler for GET and POST. Password is accepted via POST body only.
   async function handleSlugRequest(req: Request, res: Response): Promise<void> {
@@ -331,7 +467,7 @@ export function registerRoutes(deps: { router: Router; prisma: PrismaClient }):
     const sendUnavailable = (showError = false) => {
       res.setHeader("X-Robots-Tag", "noindex, nofollow");
       res.setHeader("Cache-Control", "private, no-store");
-      res.status(404).send(renderPasswordPage(slug, showError));
+      res.status(404).send(renderPasswordPage(`/s/${slug}`, showError));
     };
 
     // Check if page exists and needs a password
@@ -363,16 +499,12 @@ export function registerRoutes(deps: { router: Router; prisma: PrismaClient }):
     // Password check
     if (rawPage.password) {
       if (!password) {
-        res.setHeader("X-Robots-Tag", "noindex, nofollow");
-        res.setHeader("Cache-Control", "private, no-store");
-        res.status(200).send(renderPasswordPage(slug, false));
+        sendPasswordPage(res, `/s/${slug}`, false);
         return;
       }
 
       if (!verifyPagePassword(password, rawPage.password)) {
-        res.setHeader("X-Robots-Tag", "noindex, nofollow");
-        res.setHeader("Cache-Control", "private, no-store");
-        res.status(200).send(renderPasswordPage(slug, true));
+        sendPasswordPage(res, `/s/${slug}`, true);
         return;
       }
     }
@@ -384,12 +516,80 @@ export function registerRoutes(deps: { router: Router; prisma: PrismaClient }):
       return;
     }
 
+    const tracking = await trackPageView(analytics, req, res, page);
+    // Password-protected pages cannot be embedded, so they advertise no oEmbed
+    const oembedUrl = rawPage.password ? null : buildOEmbedDiscoveryUrl(slug);
+
     // Set noindex headers
     res.setHeader("X-Robots-Tag", "noindex, nofollow");
     res.setHeader("Cache-Control", "private, no-store");
-    res.send(renderLandingPageHtml(page));
+    res.send(renderLandingPageHtml({ ...page, analytics: tracking, oembedUrl }));
+  }
+
+  // Per-recipient share link. Bot fetches (link unfurlers, mail scanners)
+  // still see the page but are not counted as the recipient opening it.
+  async function handleShareLinkRequest(req: Request, res: Response): Promise<void> {
+    const slug = req.params.slug as string;
+    const token = req.params.token as string;
+    const formAction = `/s/${slug}/r/${token}`;
+    const password = typeof req.body?.p === "string" ? req.body.p : undefined;
+    const hasPasswordAttempt = typeof password === "string" && password.length > 0;
+
+    const sendUnavailable = () => {
+      res.setHeader("X-Robots-Tag", "noindex, nofollow");
+      res.setHeader("Cache-Control", "private, no-store");
+      res.status(404).send(renderPasswordPage(formAction, hasPasswordAttempt));
+    };
+
+    const link = await shareLinks.resolve(slug, token);
+    if (!link) {
+      sendUnavailable();
+      return;
+    }
+
+    if (link.password) {
+      if (!password) {
+        sendPasswordPage(res, formAction, false);
+        return;
+      }
+      if (!verifyPagePassword(password, link.password)) {
+        sendPasswordPage(res, formAction, true);
+        return;
+      }
+    }
+
+    const page = await editor.getPublicForShareLink(link.landingPageId);
+    if (!page) {
+      sendUnavailable();
+      return;
+    }
+
+    if (!isLikelyBot(req.get("user-agent"))) {
+      try {
+        await shareLinks.recordOpen(link);
+      } catch (error) {
+        logger.warn("Share link open tracking failed", { shareLinkId: link.id, error });
+      }
+    }
+    const tracking = await trackPageView(analytics, req, res, page, link.id);
+
+    res.setHeader("X-Robots-Tag", "noindex, nofollow");
+    res.setHeader("Cache-Control", "private, no-store");
+    res.send(renderLandingPageHtml({ ...page, analytics: tracking }));
   }
 
+  /**
+   * GET /s/:slug/r/:token
+   * Serves the page through a per-recipient share link.
+   */
+  router.get("/:slug/r/:token", asyncHandler(handleShareLinkRequest));
+
+  /**
+   * POST /s/:slug/r/:token
+   * Handles the share link's password submission.
+   */
+  router.post("/:slug/r/:token", asyncHandler(handleShareLinkRequest));
+
   /**
    * GET /s/:slug
    * Serves the published, scrubbed landing page as a full HTML page.
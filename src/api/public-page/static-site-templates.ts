@@ -0,0 +1,108 @@
+/**
+ * Public Page — Static Site Templates
+ *
+ * The bundle-level files of a static site export, alongside the per-page
+ * HTML from `renderLandingPageHtml`:
+ *   - Index page listing every exported story (`renderStaticSiteIndexHtml`)
+ *   - sitemap.xml with the indexable pages only (`renderSitemapXml`)
+ *   - robots.txt pointing at the sitemap (`renderRobotsTxt`)
+ */
+
+import { escapeHtml } from "../../lib/html-utils.js";
+import type { PublishedBrandingSettings } from "../../types/story-generation.js";
+import { buildBrandingCssOverrides } from "./renderer.js";
+import { sanitizeBrandingSettings } from "./sanitizers.js";
+import { getLandingPageStyles, STATIC_SITE_INDEX_STYLES } from "./styles.js";
+
+export interface StaticSitePageEntry {
+  slug: string;
+  title: string;
+  subtitle: string | null;
+  publishedAt: Date | null;
+  noIndex: boolean;
+}
+
+function pageUrl(baseUrl: string, slug: string): string {
+  return `${baseUrl}/${encodeURIComponent(slug)}/`;
+}
+
+function escapeXml(value: string): string {
+  return escapeHtml(value).replace(/&#39;/g, "&apos;");
+}
+
+export function renderStaticSiteIndexHtml(input: {
+  pages: StaticSitePageEntry[];
+  branding: PublishedBrandingSettings | null;
+  baseUrl: string;
+}): string {
+  const safeBranding = sanitizeBrandingSettings(input.branding);
+  const heading = safeBranding?.brandName ? `${safeBranding.brandName} customer stories` : "Customer stories";
+  // Only worth indexing when at least one story is indexable
+  const robots = input.pages.some((page) => !page.noIndex) ? "index, follow" : "noindex, nofollow";
+
+  const items = input.pages
+    .map((page) => {
+      const published = page.publishedAt
+        ? `<div class="story-list__meta">Published ${escapeHtml(page.publishedAt.toISOString().slice(0, 10))}</div>`
+        : "";
+      return `<li class="story-list__item">
+        <a href="./${encodeURIComponent(page.slug)}/index.html">${escapeHtml(page.title)}</a>
+        ${page.subtitle ? `<p class="story-list__subtitle">${escapeHtml(page.subtitle)}</p>` : ""}
+        ${published}
+      </li>`;
+    })
+    .join("\n      ");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="${robots}">
+  <title>${escapeHtml(heading)}</title>
+  <link rel="canonical" href="${escapeHtml(`${input.baseUrl}/`)}">
+  <style>${getLandingPageStyles(buildBrandingCssOverrides(safeBranding), STATIC_SITE_INDEX_STYLES)}
+  </style>
+</head>
+<body>
+  <main id="main-content" class="container">
+    <header class="page-header">
+      <h1>${escapeHtml(heading)}</h1>
+    </header>
+    <ul class="story-list">
+      ${items}
+    </ul>
+  </main>
+  <footer class="page-footer" role="contentinfo">
+    <p>Powered by <strong>StoryEngine</strong></p>
+  </footer>
+</body>
+</html>`;
+}
+
+/** Sitemap of the index and every page not marked noIndex. */
+export function renderSitemapXml(input: { pages: StaticSitePageEntry[]; baseUrl: string }): string {
+  const indexable = input.pages.filter((page) => !page.noIndex);
+  const urls = [
+    ...(indexable.length > 0 ? [`  <url>\n    <loc>${escapeXml(`${input.baseUrl}/`)}</loc>\n  </url>`] : []),
+    ...indexable.map((page) => {
+      const lastmod = page.publishedAt
+        ? `\n    <lastmod>${page.publishedAt.toISOString().slice(0, 10)}</lastmod>`
+        : "";
+      return `  <url>\n    <loc>${escapeXml(pageUrl(input.baseUrl, page.slug))}</loc>${lastmod}\n  </url>`;
+    }),
+  ];
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join("\n")}
+</urlset>
+`;
+}
+
+/**
+ * robots.txt for the bundle root. noIndex pages stay crawlable on purpose:
+ * a crawler has to fetch them to see their noindex robots tag.
+ */
+export function renderRobotsTxt(baseUrl: string): string {
+  return ["User-agent: *", "Allow: /", "", `Sitemap: ${baseUrl}/sitemap.xml`, ""].join("\n");
+}
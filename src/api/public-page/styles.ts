@@ -268,7 +268,8 @@ export function getLandingPageStyles(
     .content h2 { font-size: 1.5rem; margin: 2.25rem 0 0.75rem; font-weight: 600; color: var(--color-accent); }
     .content h3 { font-size: 1.2rem; margin: 1.75rem 0 0.5rem; font-weight: 600; }
     .content p { margin-bottom: 1rem; }
-    .content ul { margin: 0.5rem 0 1.5rem 1.5rem; }
+    .content ul, .content ol { margin: 0.5rem 0 1.5rem 1.5rem; }
+    .content li > ul, .content li > ol { margin-bottom: 0.5rem; }
     .content li { margin-bottom: 0.35rem; }
     .content blockquote {
       border-left: 4px solid var(--color-accent);
@@ -288,11 +289,61 @@ export function getLandingPageStyles(
       overflow-x: auto;
       display: block;
     }
-    .content table tr:first-child td { font-weight: 600; background: var(--color-accent-light); }
-    .content td {
+    .content th { font-weight: 600; background: var(--color-accent-light); text-align: left; }
+    .content th, .content td {
       padding: 0.6rem 0.8rem;
       border: 1px solid var(--color-border);
     }
+    .content code {
+      font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+      font-size: 0.88em;
+      background: var(--color-accent-light);
+      padding: 0.1em 0.35em;
+      border-radius: 4px;
+    }
+    .content pre {
+      background: var(--color-accent-light);
+      padding: 1rem 1.25rem;
+      border-radius: 8px;
+      overflow-x: auto;
+      margin: 1.5rem 0;
+    }
+    .content pre code { background: none; padding: 0; }
+    .content .md-callout {
+      border: 1px solid var(--color-border);
+      border-left: 4px solid var(--color-callout-insight);
+      border-radius: 0 8px 8px 0;
+      padding: 1rem 1.5rem;
+      margin: 1.5rem 0;
+      background: var(--color-surface);
+    }
+    .content .md-callout p:last-child { margin-bottom: 0; }
+    .content .md-callout__title { font-weight: 600; margin-bottom: 0.35rem; color: var(--color-callout-insight); }
+    .content .md-callout--metric { border-left-color: var(--color-callout-metric); }
+    .content .md-callout--metric .md-callout__title { color: var(--color-callout-metric); }
+    .content .md-callout--quote { border-left-color: var(--color-callout-quote); }
+    .content .md-callout--quote .md-callout__title { color: var(--color-callout-quote); }
+    .content .md-callout--timeline { border-left-color: var(--color-callout-timeline); }
+    .content .md-callout--timeline .md-callout__title { color: var(--color-callout-timeline); }
+    .content .md-callout--warning { border-left-color: var(--color-callout-warning); }
+    .content .md-callout--warning .md-callout__title { color: var(--color-callout-warning); }
+    .content .md-callout--success { border-left-color: var(--color-callout-success); }
+    .content .md-callout--success .md-callout__title { color: var(--color-callout-success); }
+    .content .md-quote { margin: 1.5rem 0; }
+    .content .md-quote blockquote { margin: 0; }
+    .content .md-quote figcaption { margin-top: 0.5rem; font-size: 0.9rem; color: var(--color-text-secondary); }
+    .content .md-quote figcaption::before { content: "— "; }
+    .content .footnote-ref { font-size: 0.75em; line-height: 0; }
+    .content .footnote-ref a { text-decoration: none; }
+    .content .footnotes {
+      margin-top: 2.5rem;
+      padding-top: 1rem;
+      border-top: 1px solid var(--color-border);
+      font-size: 0.85rem;
+    }
+    .content .footnotes ol { margin-bottom: 0; }
+    .content .footnote-source { font-style: italic; }
+    .content .footnote-back { text-decoration: none; }
     .content hr {
       border: none;
       border-top: 1px solid var(--color-border);
@@ -382,7 +433,7 @@ export function getLandingPageStyles(
       .callouts { grid-template-columns: 1fr; }
       .hero { height: 180px; }
       .content table { font-size: 0.82rem; }
-      .content td { padding: 0.5rem 0.6rem; }
+      .content th, .content td { padding: 0.5rem 0.6rem; }
       .callout { padding: 1.25rem; }
     }
 
@@ -408,6 +459,27 @@ export function getLandingPageStyles(
     ${customCss}`;
 }
 
+// ─── Static Site Index Styles ──────────────────────────────────────────────
+
+/** Extra rules for the index page of a static site export bundle. */
+export const STATIC_SITE_INDEX_STYLES = `
+    .story-list { list-style: none; display: grid; gap: 1rem; }
+    .story-list__item {
+      background: var(--color-surface);
+      border: 1px solid var(--color-border);
+      border-radius: 12px;
+      padding: 1.25rem 1.5rem;
+    }
+    .story-list__item a {
+      color: var(--color-text);
+      font-size: 1.2rem;
+      font-weight: 600;
+      text-decoration: none;
+    }
+    .story-list__item a:hover { color: var(--color-accent); }
+    .story-list__subtitle { color: var(--color-text-secondary); margin-top: 0.25rem; }
+    .story-list__meta { color: var(--color-text-secondary); font-size: 0.85rem; margin-top: 0.5rem; }`;
+
 // ─── Password Page Styles ──────────────────────────────────────────────────
 
 export const PASSWORD_PAGE_STYLES = `
@@ -3,16 +3,48 @@
  *
  * Exposes the RAG engine as an HTTP API that third-party chatbots can query.
  * Supports both direct queries and streaming responses.
+ *
+ * Account access: session users are limited to accounts granted through
+ * AccountAccessService; API keys to their `account:<id>` scopes (if any).
+ * Portfolio (cross-account) queries additionally need the `rag:portfolio`
+ * scope when called with an API key.
  */
 
 import { Router, type Request, type Response } from "express";
 import { z } from "zod";
-import type { PrismaClient } from "@prisma/client";
 import type { AuthenticatedRequest } from "../types/authenticated-request.js";
 import type { RAGEngine } from "../services/rag-engine.js";
+import type { ChatConversation, PrismaClient } from "@prisma/client";
+import type {
+  RAGChatQuery,
+  RAGChatResponse,
+  RAGPortfolioSource,
+  RAGSource,
+} from "../services/rag-types.js";
+import { ChatConversationService } from "../services/chat-conversations.js";
+import { ChatCompletionAbortedError, type AIClient } from "../services/ai-client.js";
+import { AIAccessDeniedError, type AIConfigService } from "../services/ai-config.js";
+import {
+  InsufficientBalanceError,
+  UsageLimitExceededError,
+  type AIUsageTracker,
+} from "../services/ai-usage-tracker.js";
+import { TrackedAIClient } from "../services/tracked-ai-client.js";
 import { AccountAccessService } from "../services/account-access.js";
-import { sendSuccess, sendUnauthorized, sendBadRequest, sendError } from "./_shared/responses.js";
+import {
+  API_KEY_SCOPES,
+  getApiKeyAccountRestriction,
+  hasApiKeyScope,
+} from "../middleware/api-key-auth.js";
+import {
+  sendSuccess,
+  sendUnauthorized,
+  sendBadRequest,
+  sendError,
+  sendNotFound,
+} from "./_shared/responses.js";
 import { asyncHandler } from "../lib/async-handler.js";
+import logger from "../lib/logger.js";
 
 // ─── Validation ──────────────────────────────────────────────────────────────
 
@@ -21,6 +53,12 @@ const ChatMessageSchema = z.object({
   content: z.string().min(1),
 });
 
+const RetrievalOptionsShape = {
+  topics: z.array(z.string().min(1)).max(50).optional(),
+  retrieval_mode: z.enum(["semantic", "hybrid"]).optional(),
+  rerank: z.boolean().optional(),
+};
+
 const ChatSchema = z.object({
   query: z
     .string()
@@ -28,8 +66,11 @@ const ChatSchema = z.object({
     .max(1000, "Query must be under 1000 characters"),
   account_id: z.string().min(1).nullable(),
   history: z.array(ChatMessageSchema).max(50).default([]),
+  /** Persisted conversation; its stored messages replace `history`. */
+  conversation_id: z.string().min(1).optional(),
   top_k: z.number().int().min(1).max(20).optional(),
   funnel_stages: z.array(z.string()).optional(),
+  ...RetrievalOptionsShape,
 });
 
 const QuerySchema = z.object({
@@ -42,13 +83,189 @@ const QuerySchema = z.object({
   organization_id: z.string().min(1).optional(),
   top_k: z.number().int().min(1).max(20).optional(),
   funnel_stages: z.array(z.string()).optional(),
+  ...RetrievalOptionsShape,
 });
 
+function serializeSource(source: RAGSource) {
+  return {
+    chunk_id: source.chunkId,
+    call_id: source.callId,
+    call_title: source.callTitle,
+    call_date: source.callDate,
+    text: source.text,
+    speaker: source.speaker,
+    relevance_score: source.relevanceScore,
+    scores: source.scores
+      ? {
+          vector: source.scores.vector,
+          keyword: source.scores.keyword,
+          fused: source.scores.fused,
+          rerank: source.scores.rerank,
+        }
+      : null,
+  };
+}
+
+const PortfolioSchema = z
+  .object({
+    query: z
+      .string()
+      .min(3, "Query must be at least 3 characters")
+      .max(1000, "Query must be under 1000 characters"),
+    account_ids: z.array(z.string().min(1)).min(1).max(500).optional(),
+    occurred_after: z.coerce.date().optional(),
+    occurred_before: z.coerce.date().optional(),
+    top_k: z.number().int().min(1).max(50).optional(),
+    max_accounts: z.number().int().min(1).max(25).optional(),
+    funnel_stages: z.array(z.string()).optional(),
+    ...RetrievalOptionsShape,
+  })
+  .refine(
+    (value) =>
+      !value.occurred_after ||
+      !value.occurred_before ||
+      value.occurred_after <= value.occurred_before,
+    { message: "occurred_after must be before occurred_before", path: ["occurred_after"] }
+  );
+
+function serializePortfolioSource(source: RAGPortfolioSource) {
+  return { citation: source.citation, ...serializeSource(source) };
+}
+
 // ─── Route Factory ───────────────────────────────────────────────────────────
 
-export function createRAGRoutes(ragEngine: RAGEngine, prisma: PrismaClient): Router {
+export function createRAGRoutes(
+  ragEngine: RAGEngine,
+  prisma: PrismaClient,
+  aiConfigService?: AIConfigService,
+  aiUsageTracker?: AIUsageTracker
+): Router {
   const router = Router();
   const accessService = new AccountAccessService(prisma);
+  const conversations = new ChatConversationService(prisma);
+
+  /** Accounts the caller may read; null means every account in the org. */
+  const resolveAccessibleAccountIds = async (
+    req: AuthenticatedRequest,
+    organizationId: string
+  ): Promise<string[] | null> => {
+    if (req.apiKeyId) {
+      return getApiKeyAccountRestriction(req.apiKeyScopes);
+    }
+    if (req.userId) {
+      return accessService.getAccessibleAccountIds(req.userId, organizationId, req.userRole);
+    }
+    return null;
+  };
+
+  /**
+   * Validates a /chat body, enforces account access and loads the stored
+   * history of `conversation_id`. Sends the error response and returns null
+   * when the request cannot proceed.
+   */
+  const parseChatQuery = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    organizationId: string
+  ): Promise<{ chatQuery: RAGChatQuery; conversation: ChatConversation | null } | null> => {
+    const parseResult = ChatSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      sendBadRequest(res, "validation_error", parseResult.error.issues);
+      return null;
+    }
+
+    const {
+      query,
+      account_id,
+      top_k,
+      funnel_stages,
+      topics,
+      retrieval_mode,
+      rerank,
+      conversation_id,
+    } = parseResult.data;
+    let history = parseResult.data.history;
+
+    let conversation: ChatConversation | null = null;
+    if (conversation_id) {
+      if (!req.userId) {
+        sendBadRequest(res, "Conversations are only available to signed-in users.");
+        return null;
+      }
+      conversation = await conversations.findOwned(organizationId, req.userId, conversation_id);
+      if (!conversation) {
+        sendNotFound(res, "Conversation not found");
+        return null;
+      }
+      if (conversation.accountId !== account_id) {
+        sendBadRequest(res, "account_id does not match the conversation's account.");
+        return null;
+      }
+      history = await conversations.loadHistory(conversation.id);
+    }
+
+    let accountIds: string[] | null = null;
+    if (account_id) {
+      if (!(await canReadAccount(req, organizationId, account_id))) {
+        sendError(res, 403, "permission_denied", "You do not have access to this account.");
+        return null;
+      }
+    } else {
+      // Org-wide chat only searches accounts the caller can read.
+      accountIds = await resolveAccessibleAccountIds(req, organizationId);
+      if (accountIds !== null && accountIds.length === 0) {
+        sendError(res, 403, "permission_denied", "You do not have access to any accounts.");
+        return null;
+      }
+    }
+
+    return {
+      chatQuery: {
+        query,
+        accountId: account_id,
+        accountIds,
+        organizationId,
+        history,
+        topK: top_k,
+        funnelStages: funnel_stages,
+        topics,
+        retrievalMode: retrieval_mode,
+        rerank,
+      },
+      conversation,
+    };
+  };
+
+  /** Stores the turn when the request belongs to a conversation; returns the answer's message ID. */
+  const persistTurn = async (
+    conversation: ChatConversation | null,
+    query: string,
+    result: RAGChatResponse
+  ): Promise<string | null> => {
+    if (!conversation) return null;
+    const message = await conversations.appendTurn(conversation, {
+      query,
+      answer: result.answer,
+      sources: result.sources.map(serializeSource),
+      tokensUsed: result.tokensUsed,
+    });
+    return message.id;
+  };
+
+  const canReadAccount = async (
+    req: AuthenticatedRequest,
+    organizationId: string,
+    accountId: string
+  ): Promise<boolean> => {
+    if (req.apiKeyId) {
+      const restriction = getApiKeyAccountRestriction(req.apiKeyScopes);
+      return restriction === null || restriction.includes(accountId);
+    }
+    if (req.userId) {
+      return accessService.canAccessAccount(req.userId, organizationId, accountId, req.userRole);
+    }
+    return true;
+  };
 
   /**
    * POST /api/rag/query
@@ -61,7 +278,10 @@ export function createRAGRoutes(ragEngine: RAGEngine, prisma: PrismaClient): Rou
    *     "account_id": "clx123...",
    *     "organization_id": "clx456...",
    *     "top_k": 8,                   // optional, default 8
-   *     "funnel_stages": ["MOFU"]     // optional filter
+   *     "funnel_stages": ["MOFU"],    // optional filter
+   *     "topics": ["pricing"],        // optional ChunkTag topic filter
+   *     "retrieval_mode": "hybrid",   // optional, "semantic" | "hybrid"
+   *     "rerank": true                // optional, needs RAG_RERANK_PROVIDER
    *   }
    *
    * Response:
@@ -75,7 +295,8 @@ export function createRAGRoutes(ragEngine: RAGEngine, prisma: PrismaClient): Rou
    *         "call_date": "2024-03-15",
    *         "text": "...",
    *         "speaker": "John Smith",
-   *         "relevance_score": 0.92
+   *         "relevance_score": 0.92,
+   *         "scores": { "vector": 0.92, "keyword": 0.31, "fused": 0.032, "rerank": null }
    *       }
    *     ],
    *     "tokens_used": 1234
@@ -96,7 +317,16 @@ export function createRAGRoutes(ragEngine: RAGEngine, prisma: PrismaClient): Rou
         return;
       }
 
-      const { query, account_id, organization_id, top_k, funnel_stages } = parseResult.data;
+      const {
+        query,
+        account_id,
+        organization_id,
+        top_k,
+        funnel_stages,
+        topics,
+        retrieval_mode,
+        rerank,
+      } = parseResult.data;
 
       if (organization_id && organization_id !== orgId) {
         sendError(
@@ -108,17 +338,9 @@ export function createRAGRoutes(ragEngine: RAGEngine, prisma: PrismaClient): Rou
         return;
       }
 
-      if (req.userId!) {
-        const canAccessAccount = await accessService.canAccessAccount(
-          req.userId!,
-          orgId,
-          account_id,
-          req.userRole
-        );
-        if (!canAccessAccount) {
-          sendError(res, 403, "permission_denied", "You do not have access to this account.");
-          return;
-        }
+      if (!(await canReadAccount(req, orgId, account_id))) {
+        sendError(res, 403, "permission_denied", "You do not have access to this account.");
+        return;
       }
 
       const result = await ragEngine.query({
@@ -127,19 +349,14 @@ export function createRAGRoutes(ragEngine: RAGEngine, prisma: PrismaClient): Rou
         organizationId: orgId,
         topK: top_k,
         funnelStages: funnel_stages,
+        topics,
+        retrievalMode: retrieval_mode,
+        rerank,
       });
 
       sendSuccess(res, {
         answer: result.answer,
-        sources: result.sources.map((s) => ({
-          chunk_id: s.chunkId,
-          call_id: s.callId,
-          call_title: s.callTitle,
-          call_date: s.callDate,
-          text: s.text,
-          speaker: s.speaker,
-          relevance_score: s.relevanceScore,
-        })),
+        sources: result.sources.map(serializeSource),
         tokens_used: result.tokensUsed,
       });
     })
@@ -160,46 +377,230 @@ export function createRAGRoutes(ragEngine: RAGEngine, prisma: PrismaClient): Rou
         return;
       }
 
-      const parseResult = ChatSchema.safeParse(req.body);
-      if (!parseResult.success) {
-        sendBadRequest(res, "validation_error", parseResult.error.issues);
+      const parsed = await parseChatQuery(req, res, orgId);
+      if (!parsed) return;
+
+      const result = await ragEngine.chat(parsed.chatQuery);
+      const messageId = await persistTurn(parsed.conversation, parsed.chatQuery.query, result);
+
+      sendSuccess(res, {
+        answer: result.answer,
+        sources: result.sources.map(serializeSource),
+        tokens_used: result.tokensUsed,
+        ...(parsed.conversation
+          ? { conversation_id: parsed.conversation.id, message_id: messageId }
+          : {}),
+      });
+    })
+  );
+
+  /**
+   * POST /api/rag/chat/stream
+   *
+   * Same request body as /chat, answered as server-sent events:
+   *   event: token     data: { "token": "..." }          (repeated)
+   *   event: complete  data: { "answer", "sources", "tokens_used" }
+   *   event: error     data: { "error", "message" }
+   *
+   * `complete.answer` is the final answer after citation enforcement and
+   * supersedes the concatenated tokens. Generation is aborted when the
+   * client disconnects. Session users are billed through their resolved
+   * AI provider (TrackedAIClient). API-key callers use the platform model and,
+   * as on /chat, are metered in the API usage log; a disconnected stream
+   * still reports the tokens generated so far.
+   */
+  router.post(
+    "/chat/stream",
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const orgId = req.organizationId!;
+      if (!orgId) {
+        sendUnauthorized(res, "Authentication required");
         return;
       }
 
-      const { query, account_id, history, top_k, funnel_stages } = parseResult.data;
+      const parsed = await parseChatQuery(req, res, orgId);
+      if (!parsed) return;
 
-      if (req.userId! && account_id) {
-        const canAccessAccount = await accessService.canAccessAccount(
-          req.userId!,
-          orgId,
-          account_id,
-          req.userRole
+      let aiClient: AIClient | undefined;
+      if (req.userId && aiConfigService && aiUsageTracker) {
+        try {
+          const resolved = await aiConfigService.resolveClient(
+            orgId,
+            req.userId,
+            req.userRole ?? "MEMBER",
+            { operation: "RAG_QUERY" }
+          );
+          aiClient = new TrackedAIClient(
+            resolved.client,
+            aiUsageTracker,
+            { organizationId: orgId, userId: req.userId, operation: "RAG_QUERY" },
+            resolved.isPlatformBilled
+          );
+        } catch (err) {
+          if (err instanceof AIAccessDeniedError) {
+            sendError(res, 403, "ai_access_denied", err.message);
+            return;
+          }
+          throw err;
+        }
+      }
+
+      res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+      res.setHeader("Cache-Control", "no-store, no-transform");
+      res.setHeader("Connection", "keep-alive");
+      res.setHeader("X-Accel-Buffering", "no");
+      if (typeof res.flushHeaders === "function") {
+        res.flushHeaders();
+      }
+
+      const abort = new AbortController();
+      res.on("close", () => {
+        if (!res.writableEnded) abort.abort();
+      });
+
+      // Lets the API usage logger wait for the token count of a disconnected stream
+      let settleUsage = () => {};
+      if (req.apiKeyId) {
+        res.locals.usageSettled = new Promise<void>((resolve) => {
+          settleUsage = resolve;
+        });
+      }
+
+      const sendEvent = (event: string, payload: unknown) => {
+        if (abort.signal.aborted) return;
+        res.write(`event: ${event}\n`);
+        res.write(`data: ${JSON.stringify(payload)}\n\n`);
+      };
+
+      try {
+        const result = await ragEngine.chatStream(parsed.chatQuery, {
+          aiClient,
+          signal: abort.signal,
+          onToken: (token) => sendEvent("token", { token }),
+        });
+        res.locals.tokensUsed = result.tokensUsed;
+        const messageId = await persistTurn(parsed.conversation, parsed.chatQuery.query, result);
+        sendEvent("complete", {
+          answer: result.answer,
+          sources: result.sources.map(serializeSource),
+          tokens_used: result.tokensUsed,
+          ...(parsed.conversation
+            ? { conversation_id: parsed.conversation.id, message_id: messageId }
+            : {}),
+        });
+      } catch (err) {
+        if (err instanceof ChatCompletionAbortedError) {
+          res.locals.tokensUsed = err.partial.totalTokens;
+        }
+        if (abort.signal.aborted) return;
+        const code =
+          err instanceof UsageLimitExceededError
+            ? "usage_limit_exceeded"
+            : err instanceof InsufficientBalanceError
+              ? "insufficient_balance"
+              : "internal_error";
+        if (code === "internal_error") {
+          logger.error("RAG chat stream error", { error: err });
+        }
+        sendEvent("error", {
+          error: code,
+          message: code === "internal_error" ? "Failed to generate an answer." : (err as Error).message,
+        });
+      } finally {
+        settleUsage();
+      }
+
+      if (!res.writableEnded) {
+        res.end();
+      }
+    })
+  );
+
+  /**
+   * POST /api/rag/portfolio
+   *
+   * Cross-account question ("which customers mentioned SOC 2 delays last
+   * quarter?") answered across every account the caller can read, grouped
+   * by account. `account_ids` narrows the search to a subset.
+   *
+   * Response:
+   *   {
+   *     "answer": "Three accounts raised SOC 2 timing...",
+   *     "accounts": [
+   *       {
+   *         "account_id": "...",
+   *         "account_name": "Acme",
+   *         "answer": "Acme's security review slipped two weeks [Source 1].",
+   *         "sources": [{ "citation": 1, "chunk_id": "...", ... }]
+   *       }
+   *     ],
+   *     "tokens_used": 1234
+   *   }
+   */
+  router.post(
+    "/portfolio",
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const orgId = req.organizationId!;
+      if (!orgId) {
+        sendUnauthorized(res, "Authentication required");
+        return;
+      }
+
+      if (req.apiKeyId && !hasApiKeyScope(req.apiKeyScopes, API_KEY_SCOPES.RAG_PORTFOLIO)) {
+        sendError(
+          res,
+          403,
+          "insufficient_scope",
+          `This API key does not have the required scope: ${API_KEY_SCOPES.RAG_PORTFOLIO}`
         );
-        if (!canAccessAccount) {
-          sendError(res, 403, "permission_denied", "You do not have access to this account.");
-          return;
+        return;
+      }
+
+      const parseResult = PortfolioSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        sendBadRequest(res, "validation_error", parseResult.error.issues);
+        return;
+      }
+      const payload = parseResult.data;
+
+      const accessible = await resolveAccessibleAccountIds(req, orgId);
+      let accountIds: string[] | null = accessible;
+      if (payload.account_ids) {
+        if (accessible !== null) {
+          const allowed = new Set(accessible);
+          if (payload.account_ids.some((id) => !allowed.has(id))) {
+            sendError(res, 403, "permission_denied", "You do not have access to one or more requested accounts.");
+            return;
+          }
         }
+        accountIds = payload.account_ids;
+      }
+      if (accountIds !== null && accountIds.length === 0) {
+        sendError(res, 403, "permission_denied", "You do not have access to any accounts.");
+        return;
       }
 
-      const result = await ragEngine.chat({
-        query,
-        accountId: account_id,
+      const result = await ragEngine.portfolioQuery({
+        query: payload.query,
         organizationId: orgId,
-        history,
-        topK: top_k,
-        funnelStages: funnel_stages,
+        accountIds,
+        occurredAfter: payload.occurred_after,
+        occurredBefore: payload.occurred_before,
+        topK: payload.top_k,
+        maxAccounts: payload.max_accounts,
+        funnelStages: payload.funnel_stages,
+        topics: payload.topics,
+        retrievalMode: payload.retrieval_mode,
+        rerank: payload.rerank,
       });
 
       sendSuccess(res, {
         answer: result.answer,
-        sources: result.sources.map((s) => ({
-          chunk_id: s.chunkId,
-          call_id: s.callId,
-          call_title: s.callTitle,
-          call_date: s.callDate,
-          text: s.text,
-          speaker: s.speaker,
-          relevance_score: s.relevanceScore,
+        accounts: result.accounts.map((account) => ({
+          account_id: account.accountId,
+          account_name: account.accountName,
+          answer: account.answer,
+          sources: account.sources.map(serializePortfolioSource),
         })),
         tokens_used: result.tokensUsed,
       });
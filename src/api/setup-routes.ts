@@ -53,6 +53,7 @@ export function createSetupRoutes(
   registerSetupStepRoutes({
     router,
     prisma,
+    deps,
     stripe,
     wizardService,
     roleProfiles,
@@ -18,6 +18,51 @@ export const CompleteRecordingProviderSchema = z.object({
   merge_linked_account_id: z.string().min(1),
 });
 
+const zoomCredentials = z.object({
+  accountId: z.string().trim().min(1),
+  clientId: z.string().trim().min(1),
+  clientSecret: z.string().trim().min(1),
+});
+
+const teamsCredentials = z.object({
+  tenantId: z.string().trim().min(1),
+  clientId: z.string().trim().min(1),
+  clientSecret: z.string().trim().min(1),
+});
+
+const firefliesCredentials = z.object({
+  apiKey: z.string().trim().min(1),
+});
+
+const gongCredentials = z.object({
+  accessKey: z.string().trim().min(1),
+  accessKeySecret: z.string().trim().min(1),
+  baseUrl: z.string().url().optional(),
+});
+
+const grainCredentials = z.object({
+  apiToken: z.string().trim().min(1),
+});
+
+const webhookSecret = z.string().trim().min(8).max(500).optional();
+
+export const CompleteDirectRecordingProviderSchema = z.discriminatedUnion("provider", [
+  z.object({ provider: z.literal("ZOOM"), credentials: zoomCredentials, webhook_secret: webhookSecret }),
+  z.object({
+    provider: z.literal("TEAMS"),
+    credentials: teamsCredentials,
+    webhook_secret: webhookSecret,
+    organizer_user_ids: z.array(z.string().trim().min(1)).max(500).optional(),
+  }),
+  z.object({
+    provider: z.literal("FIREFLIES"),
+    credentials: firefliesCredentials,
+    webhook_secret: webhookSecret,
+  }),
+  z.object({ provider: z.literal("GONG"), credentials: gongCredentials, webhook_secret: webhookSecret }),
+  z.object({ provider: z.literal("GRAIN"), credentials: grainCredentials, webhook_secret: webhookSecret }),
+]);
+
 export const CompleteCrmSchema = z.object({
   crm_provider: z.enum(["SALESFORCE", "HUBSPOT"]),
   merge_linked_account_id: z.string().min(1),
@@ -5,13 +5,20 @@ import {
   type UserRole,
 } from "@prisma/client";
 import type { Response } from "express";
-import { sendSuccess, sendUnauthorized } from "../_shared/responses.js";
+import {
+  sendError,
+  sendServiceUnavailable,
+  sendSuccess,
+  sendUnauthorized,
+} from "../_shared/responses.js";
 import { parseRequestBody } from "../_shared/validators.js";
 import { isBillingEnabled } from "../../middleware/billing.js";
 import { getStripePriceId } from "../../config/stripe-plans.js";
 import { buildPublicAppUrl } from "../../lib/public-app-url.js";
+import { toProviderCredentials } from "../../integrations/types.js";
 import {
   CompleteCrmSchema,
+  CompleteDirectRecordingProviderSchema,
   CompleteRecordingProviderSchema,
   EntityResolutionFixSchema,
   GovernanceDefaultsSchema,
@@ -25,6 +32,7 @@ import logger from "../../lib/logger.js";
 import { asyncHandler } from "../../lib/async-handler.js";
 
 export function registerSetupStepRoutes({
+  deps,
   prisma,
   requireSetupAdmin,
   roleProfiles,
@@ -33,7 +41,7 @@ export function registerSetupStepRoutes({
   wizardService,
 }: Pick<
   SetupRouteContext,
-  "prisma" | "requireSetupAdmin" | "roleProfiles" | "router" | "stripe" | "wizardService"
+  "deps" | "prisma" | "requireSetupAdmin" | "roleProfiles" | "router" | "stripe" | "wizardService"
 >): void {
   router.post("/step/recording-provider", asyncHandler(async (req: AuthReq, res: Response) => {
     if (!req.organizationId!) {
@@ -73,6 +81,57 @@ export function registerSetupStepRoutes({
     }
   ));
 
+  router.post(
+    "/step/recording-provider/direct",
+    asyncHandler(async (req: AuthReq, res: Response) => {
+      if (!req.organizationId!) {
+        sendUnauthorized(res);
+        return;
+      }
+      if (!requireSetupAdmin(req, res)) return;
+
+      const payload = parseRequestBody(CompleteDirectRecordingProviderSchema, req.body, res);
+      if (!payload) {
+        return;
+      }
+
+      const provider = deps.providerRegistry?.callRecording.get(payload.provider);
+      if (!provider) {
+        sendServiceUnavailable(res, `Direct ${payload.provider} integration is not available`);
+        return;
+      }
+
+      const valid = await provider.validateCredentials(toProviderCredentials(payload.credentials));
+      if (!valid) {
+        sendError(
+          res,
+          422,
+          "invalid_credentials",
+          `Could not connect to ${payload.provider} with these credentials.`
+        );
+        return;
+      }
+
+      await wizardService.getOrCreateWizard(req.organizationId!);
+      await wizardService.completeDirectRecordingProvider(req.organizationId!, provider, {
+        credentials: payload.credentials,
+        settings:
+          payload.provider === "TEAMS" && payload.organizer_user_ids
+            ? { teams_organizer_user_ids: payload.organizer_user_ids }
+            : undefined,
+        webhookSecret: payload.webhook_secret,
+      });
+
+      const status = await wizardService.getStatus(req.organizationId!);
+      sendSuccess(res, {
+        completed: true,
+        provider: payload.provider,
+        webhook_path: `/api/webhooks/${payload.provider.toLowerCase()}`,
+        status,
+      });
+    })
+  );
+
   router.post("/step/crm", asyncHandler(async (req: AuthReq, res: Response) => {
     if (!req.organizationId!) {
       sendUnauthorized(res);
@@ -5,6 +5,7 @@ import { SetupWizardService } from "../../services/setup-wizard.js";
 import { RoleProfileService } from "../../services/role-profiles.js";
 import type { AIConfigService } from "../../services/ai-config.js";
 import type { SyncEngine } from "../../integrations/sync-engine.js";
+import type { ProviderRegistry } from "../../integrations/types.js";
 import { GongProvider } from "../../integrations/gong-provider.js";
 import type { AuthenticatedRequest } from "../../types/authenticated-request.js";
 
@@ -13,6 +14,7 @@ export type AuthReq = AuthenticatedRequest;
 export interface SetupRouteDeps {
   aiConfigService?: AIConfigService;
   syncEngine?: SyncEngine;
+  providerRegistry?: ProviderRegistry;
 }
 
 export interface SetupRouteContext {
@@ -3,6 +3,7 @@
  *
  * POST /build              — Build a story (synchronous)
  * POST /build/stream       — Build a story (SSE streaming)
+ * POST /build/comparative  — Build one story comparing several accounts
  * POST /merge-transcripts  — Merge transcripts for an account
  */
 
@@ -13,10 +14,22 @@ import { z } from "zod";
 import type { StoryBuilder, StoryBuilderOptions } from "../../services/story-builder.js";
 import type { PrismaClient, TranscriptTruncationMode } from "@prisma/client";
 import { TranscriptMerger } from "../../services/transcript-merger.js";
+import {
+  MAX_COMPARATIVE_ACCOUNTS,
+  MIN_COMPARATIVE_ACCOUNTS,
+  describeSegment,
+  selectSegmentAccounts,
+  type AccountSegmentFilter,
+} from "../../services/story-account-segments.js";
 import type { AIClient } from "../../services/ai-client.js";
 import type { AccountAccessService } from "../../services/account-access.js";
 import type { RoleProfileService } from "../../services/role-profiles.js";
-import { STORY_FORMATS } from "../../types/taxonomy.js";
+import type {
+  ResolvedStoryTemplate,
+  StoryTemplateService,
+} from "../../services/story-templates.js";
+import type { StoryTemplateCoverage } from "../../services/story-template-outline.js";
+import { STORY_FORMATS, isCustomTopicKey } from "../../types/taxonomy.js";
 import {
   STORY_LENGTHS,
   STORY_OUTLINES,
@@ -25,9 +38,23 @@ import {
   type StoryOutline,
   type StoryTypeInput,
 } from "../../types/story-generation.js";
-import { mapGeneratedQuote } from "../../services/story-mappers.js";
+import {
+  mapClaimVerification,
+  mapGeneratedQuote,
+  mapTemplateCoverage,
+} from "../../services/story-mappers.js";
+import { countLintFindings } from "../../services/story-lint.js";
+import { SUPPORTED_LANGUAGES } from "../../lib/language-detection.js";
 import { asyncHandler } from "../../lib/async-handler.js";
-import { sendSuccess, sendBadRequest, sendUnauthorized, sendForbidden, sendError } from "../_shared/responses.js";
+import type { OutboundWebhookEventInput } from "../../services/outbound-webhooks.js";
+import {
+  sendSuccess,
+  sendBadRequest,
+  sendUnauthorized,
+  sendForbidden,
+  sendNotFound,
+  sendError,
+} from "../_shared/responses.js";
 
 // ─── Validation ──────────────────────────────────────────────────────────────
 
@@ -39,11 +66,49 @@ const BuildStorySchema = z.object({
   format: z.enum(STORY_FORMATS as unknown as [string, ...string[]]).optional(),
   story_length: z.enum(STORY_LENGTHS as unknown as [string, ...string[]]).optional(),
   story_outline: z.enum(STORY_OUTLINES as unknown as [string, ...string[]]).optional(),
-  story_type: z.enum(STORY_TYPES as unknown as [string, ...string[]]).optional(),
+  // An org story template replaces story_outline; its length applies unless story_length is set
+  template_id: z.string().min(1).optional(),
+  template_version: z.number().int().min(1).optional(),
+  // Built-in story types, or the key of one of the org's custom topics
+  story_type: z
+    .union([
+      z.enum(STORY_TYPES as unknown as [string, ...string[]]),
+      z.string().refine(isCustomTopicKey, "Invalid custom topic key"),
+    ])
+    .optional(),
+  target_language: z.enum(SUPPORTED_LANGUAGES).optional(),
   ai_provider: z.enum(["openai", "anthropic", "google"]).optional(),
   ai_model: z.string().min(1).max(120).optional(),
 });
 
+// Accounts are named explicitly, or selected from a segment. Segment
+// selection only considers accounts with calls tagged with filter_topics.
+const BuildComparativeStorySchema = BuildStorySchema.omit({ account_id: true })
+  .extend({
+    account_ids: z
+      .array(z.string().min(1))
+      .min(MIN_COMPARATIVE_ACCOUNTS)
+      .max(MAX_COMPARATIVE_ACCOUNTS)
+      .optional(),
+    segment: z
+      .object({
+        industries: z.array(z.string().min(1).max(120)).max(20).optional(),
+        min_employees: z.number().int().min(0).optional(),
+        max_employees: z.number().int().min(0).optional(),
+        max_accounts: z
+          .number()
+          .int()
+          .min(MIN_COMPARATIVE_ACCOUNTS)
+          .max(MAX_COMPARATIVE_ACCOUNTS)
+          .optional(),
+      })
+      .optional(),
+    anonymize: z.boolean().default(true),
+  })
+  .refine((value) => (value.account_ids === undefined) !== (value.segment === undefined), {
+    message: "Provide either account_ids or segment",
+  });
+
 const MergeTranscriptsSchema = z.object({
   account_id: z.string().min(1),
   max_words: z.number().int().min(1000).optional(),
@@ -54,12 +119,18 @@ const MergeTranscriptsSchema = z.object({
 
 // ─── Route Registration ─────────────────────────────────────────────────────
 
+export type StoryOutboundEvent = Extract<
+  OutboundWebhookEventInput,
+  { eventType: "story_generated" | "story_generation_failed" }
+>;
+
 interface RegisterBuildRoutesOptions {
   router: Router;
   prisma: PrismaClient;
   storyBuilder: StoryBuilder;
   accessService: AccountAccessService;
   roleProfiles: RoleProfileService;
+  storyTemplates: StoryTemplateService;
   normalizeRole: (role: unknown) => "OWNER" | "ADMIN" | "MEMBER" | "VIEWER";
   resolveStoryAIClient: (input: {
     organizationId: string;
@@ -68,11 +139,7 @@ interface RegisterBuildRoutesOptions {
     provider?: "openai" | "anthropic" | "google";
     model?: string;
   }) => Promise<{ client: AIClient; retryBudget: number }>;
-  dispatchStoryEvent: (input: {
-    organizationId: string;
-    eventType: "story_generated" | "story_generation_failed";
-    payload: Record<string, unknown>;
-  }) => Promise<void>;
+  dispatchStoryEvent: (input: StoryOutboundEvent) => Promise<void>;
 }
 
 export function registerBuildRoutes({
@@ -81,10 +148,29 @@ export function registerBuildRoutes({
   storyBuilder,
   accessService,
   roleProfiles,
+  storyTemplates,
   normalizeRole,
   resolveStoryAIClient,
   dispatchStoryEvent,
 }: RegisterBuildRoutesOptions): void {
+  // undefined when no template was requested, null when it is missing or archived
+  const resolveRequestedTemplate = async (
+    organizationId: string,
+    templateId: string | undefined,
+    version: number | undefined
+  ): Promise<ResolvedStoryTemplate | null | undefined> =>
+    templateId ? storyTemplates.resolveTemplate(organizationId, templateId, { version }) : undefined;
+
+  const mapTemplateResult = (
+    template: ResolvedStoryTemplate | undefined,
+    coverage: StoryTemplateCoverage | null
+  ) => ({
+    template: template
+      ? { id: template.templateId, name: template.name, version: template.version }
+      : null,
+    template_coverage: coverage ? mapTemplateCoverage(coverage) : null,
+  });
+
   router.post("/build", asyncHandler(async (req: Request, res: Response) => {
     const parseResult = BuildStorySchema.safeParse(req.body);
     if (!parseResult.success) {
@@ -109,7 +195,10 @@ export function registerBuildRoutes({
       format,
       story_length,
       story_outline,
+      template_id,
+      template_version,
       story_type,
+      target_language,
       ai_provider,
       ai_model,
     } = parseResult.data;
@@ -135,6 +224,12 @@ export function registerBuildRoutes({
         return;
       }
 
+      const template = await resolveRequestedTemplate(organizationId, template_id, template_version);
+      if (template === null) {
+        sendNotFound(res, "Story template not found");
+        return;
+      }
+
       const result = await storyBuilder.buildStory({
         aiClient: (
           await resolveStoryAIClient({
@@ -154,7 +249,9 @@ export function registerBuildRoutes({
         format: format as StoryBuilderOptions["format"] | undefined,
         storyLength: story_length as StoryLength | undefined,
         storyOutline: story_outline as StoryOutline | undefined,
+        template,
         storyType: story_type as StoryTypeInput | undefined,
+        targetLanguage: target_language,
       });
 
       await dispatchStoryEvent({
@@ -172,7 +269,16 @@ export function registerBuildRoutes({
         story_id: result.storyId,
         title: result.title,
         markdown: result.markdownBody,
+        language: result.language,
         quotes: result.quotes.map((q) => mapGeneratedQuote(q)),
+        claim_verification: result.claimVerification
+          ? mapClaimVerification(result.claimVerification)
+          : null,
+        lint: {
+          counts: countLintFindings(result.lintFindings),
+          findings: result.lintFindings,
+        },
+        ...mapTemplateResult(template, result.templateCoverage),
       });
     } catch (err) {
       logger.error("Story build error", { error: err });
@@ -214,7 +320,10 @@ export function registerBuildRoutes({
       format,
       story_length,
       story_outline,
+      template_id,
+      template_version,
       story_type,
+      target_language,
       ai_provider,
       ai_model,
     } = parseResult.data;
@@ -235,6 +344,12 @@ export function registerBuildRoutes({
         return;
       }
 
+      const template = await resolveRequestedTemplate(organizationId, template_id, template_version);
+      if (template === null) {
+        sendNotFound(res, "Story template not found");
+        return;
+      }
+
       res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
       res.setHeader("Cache-Control", "no-store, no-transform");
       res.setHeader("Connection", "keep-alive");
@@ -275,7 +390,9 @@ export function registerBuildRoutes({
         format: format as StoryBuilderOptions["format"] | undefined,
         storyLength: story_length as StoryLength | undefined,
         storyOutline: story_outline as StoryOutline | undefined,
+        template,
         storyType: story_type as StoryTypeInput | undefined,
+        targetLanguage: target_language,
         onProgress: (step) => sendEvent("progress", { step }),
         onNarrativeToken: (token) => sendEvent("token", { token }),
       });
@@ -295,7 +412,16 @@ export function registerBuildRoutes({
         story_id: result.storyId,
         title: result.title,
         markdown: result.markdownBody,
+        language: result.language,
         quotes: result.quotes.map((q) => mapGeneratedQuote(q)),
+        claim_verification: result.claimVerification
+          ? mapClaimVerification(result.claimVerification)
+          : null,
+        lint: {
+          counts: countLintFindings(result.lintFindings),
+          findings: result.lintFindings,
+        },
+        ...mapTemplateResult(template, result.templateCoverage),
       });
 
       if (!closed) {
@@ -318,6 +444,175 @@ export function registerBuildRoutes({
     }
   }));
 
+  router.post("/build/comparative", asyncHandler(async (req: Request, res: Response) => {
+    const parseResult = BuildComparativeStorySchema.safeParse(req.body);
+    if (!parseResult.success) {
+      sendBadRequest(res, "validation_error", parseResult.error.issues);
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+    const organizationId = authReq.organizationId!;
+    const userId = authReq.userId!;
+    const userRole = authReq.userRole;
+    if (!organizationId || !userId) {
+      sendUnauthorized(res, "Authentication required");
+      return;
+    }
+
+    const {
+      account_ids,
+      segment,
+      anonymize,
+      funnel_stages,
+      filter_topics,
+      title,
+      format,
+      story_length,
+      story_outline,
+      template_id,
+      template_version,
+      story_type,
+      target_language,
+      ai_provider,
+      ai_model,
+    } = parseResult.data;
+    const isAnonymous = anonymize !== false;
+
+    const policy = await roleProfiles.getEffectivePolicy(organizationId, userId, userRole);
+    if (!policy.canGenerateAnonymousStories) {
+      sendForbidden(res, "Your role cannot generate stories.");
+      return;
+    }
+    if (!isAnonymous && !policy.canGenerateNamedStories) {
+      sendForbidden(res, "Your role cannot generate stories that name customers.");
+      return;
+    }
+
+    // Every account in the comparison must be accessible, not just the first.
+    let accountIds: string[];
+    let segmentFilter: AccountSegmentFilter | null = null;
+    if (account_ids) {
+      accountIds = [...new Set(account_ids)];
+      // Access checks pass admins through without looking the IDs up, so
+      // unknown or foreign accounts must be rejected before the build runs.
+      const knownAccounts = await prisma.account.count({
+        where: { id: { in: accountIds }, organizationId },
+      });
+      if (knownAccounts !== accountIds.length) {
+        sendNotFound(res, "One or more accounts in this comparison were not found.");
+        return;
+      }
+      if (!(await accessService.canAccessAccounts(userId, organizationId, accountIds, userRole))) {
+        sendForbidden(res, "You do not have access to every account in this comparison.");
+        return;
+      }
+    } else {
+      segmentFilter = {
+        industries: segment?.industries,
+        minEmployees: segment?.min_employees,
+        maxEmployees: segment?.max_employees,
+        topics: filter_topics as AccountSegmentFilter["topics"],
+      };
+      accountIds = await selectSegmentAccounts(prisma, {
+        organizationId,
+        filter: segmentFilter,
+        accessibleAccountIds: await accessService.getAccessibleAccountIds(
+          userId,
+          organizationId,
+          userRole
+        ),
+        limit: segment?.max_accounts,
+      });
+    }
+
+    if (accountIds.length < MIN_COMPARATIVE_ACCOUNTS) {
+      sendBadRequest(
+        res,
+        `A comparative story needs at least ${MIN_COMPARATIVE_ACCOUNTS} accounts with transcripts; ${accountIds.length} matched.`
+      );
+      return;
+    }
+
+    const template = await resolveRequestedTemplate(organizationId, template_id, template_version);
+    if (template === null) {
+      sendNotFound(res, "Story template not found");
+      return;
+    }
+
+    try {
+      const result = await storyBuilder.buildComparativeStory({
+        aiClient: (
+          await resolveStoryAIClient({
+            organizationId,
+            userId,
+            userRole: normalizeRole(userRole),
+            provider: ai_provider,
+            model: ai_model,
+          })
+        ).client,
+        aiIdempotencyKey: `story-build-comparative:${organizationId}:${accountIds.join(",")}:${Date.now()}`,
+        accountIds,
+        anonymize: isAnonymous,
+        segmentLabel: segmentFilter ? describeSegment(segmentFilter) : null,
+        organizationId,
+        funnelStages: funnel_stages as never[],
+        filterTopics: filter_topics as never[],
+        title,
+        format: format as StoryBuilderOptions["format"] | undefined,
+        storyLength: story_length as StoryLength | undefined,
+        storyOutline: story_outline as StoryOutline | undefined,
+        template,
+        storyType: story_type as StoryTypeInput | undefined,
+        targetLanguage: target_language,
+      });
+
+      await dispatchStoryEvent({
+        organizationId,
+        eventType: "story_generated",
+        payload: {
+          story_id: result.storyId,
+          story_title: result.title,
+          account_id: accountIds[0],
+          account_ids: accountIds,
+          mode: "build",
+        },
+      });
+
+      sendSuccess(res, {
+        story_id: result.storyId,
+        title: result.title,
+        markdown: result.markdownBody,
+        language: result.language,
+        account_ids: accountIds,
+        anonymized: isAnonymous,
+        quotes: result.quotes.map((q) => mapGeneratedQuote(q)),
+        claim_verification: result.claimVerification
+          ? mapClaimVerification(result.claimVerification)
+          : null,
+        lint: {
+          counts: countLintFindings(result.lintFindings),
+          findings: result.lintFindings,
+        },
+        ...mapTemplateResult(template, result.templateCoverage),
+      });
+    } catch (err) {
+      logger.error("Comparative story build error", { error: err });
+      const errorMessage = err instanceof Error ? err.message : "Failed to build story";
+      await dispatchStoryEvent({
+        organizationId,
+        eventType: "story_generation_failed",
+        payload: {
+          account_id: accountIds[0],
+          account_ids: accountIds,
+          mode: "build",
+          error: errorMessage,
+        },
+      });
+      sendError(res, 500, "internal_error", "Failed to build story");
+    }
+  }));
+
   const merger = new TranscriptMerger(prisma);
 
   router.post("/merge-transcripts", asyncHandler(async (req: Request, res: Response) => {
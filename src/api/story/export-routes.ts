@@ -11,7 +11,7 @@ import { z } from "zod";
 import { markdownToPdfBuffer, markdownToDocxBuffer, sanitizeFileName } from "../../services/story-exports.js";
 import type { AccountAccessService } from "../../services/account-access.js";
 import type { RoleProfileService } from "../../services/role-profiles.js";
-import type { StoryQueryService } from "../../services/story-query.js";
+import { storyAccountIds, type StoryQueryService } from "../../services/story-query.js";
 import type { RAGEngine } from "../../services/rag-engine.js";
 import { asyncHandler } from "../../lib/async-handler.js";
 import { sendSuccess, sendBadRequest, sendUnauthorized, sendForbidden, sendNotFound, sendConflict } from "../_shared/responses.js";
@@ -71,10 +71,10 @@ export function registerExportRoutes({
         return;
       }
 
-      const canAccessAccount = await accessService.canAccessAccount(
+      const canAccessAccount = await accessService.canAccessAccounts(
         userId,
         organizationId,
-        story.accountId,
+        storyAccountIds(story),
         userRole
       );
 
@@ -130,10 +130,10 @@ export function registerExportRoutes({
         return;
       }
 
-      const canAccessAccount = await accessService.canAccessAccount(
+      const canAccessAccount = await accessService.canAccessAccounts(
         userId,
         organizationId,
-        story.accountId,
+        storyAccountIds(story),
         userRole
       );
 
@@ -2,6 +2,8 @@
  * Story Library Routes
  *
  * GET /library     — List stories with search/filter/pagination
+ * GET /library/taxonomy — Story counts per funnel stage and topic, plus the
+ *                         org's custom topics
  * GET /:accountId  — List stories for a specific account
  */
 
@@ -154,6 +156,7 @@ export function registerLibraryRoutes({
             name: s.account.name,
             domain: s.account.domain,
           },
+          pending_revisions: s._count.revisions,
         })),
         pagination: {
           page,
@@ -192,8 +195,15 @@ export function registerLibraryRoutes({
       organizationId,
       userRole
     );
+    const customTopics = (await storyQuery.getCustomTopics(organizationId)).map((topic) => ({
+      key: topic.key,
+      label: topic.label,
+      description: topic.description,
+      funnel_stage: topic.funnelStage,
+    }));
+
     if (accessibleIds !== null && accessibleIds.length === 0) {
-      sendSuccess(res, { funnel_stage_counts: {}, topic_counts: {} });
+      sendSuccess(res, { funnel_stage_counts: {}, topic_counts: {}, custom_topics: customTopics });
       return;
     }
 
@@ -205,6 +215,7 @@ export function registerLibraryRoutes({
     sendSuccess(res, {
       funnel_stage_counts: counts.funnelStageCounts,
       topic_counts: counts.topicCounts,
+      custom_topics: customTopics,
     });
   }));
 
@@ -0,0 +1,265 @@
+/**
+ * Story Revision Routes
+ *
+ * GET  /:storyId/revisions                       — Revision history
+ * GET  /:storyId/revisions/:revisionId           — Section and quote diff of a revision
+ * POST /:storyId/revisions/:revisionId/apply     — Accept or reject sections and quotes
+ * POST /:storyId/revisions/:revisionId/reject    — Reject a pending revision
+ * GET  /:storyId/page-merges                     — Merge previews for out-of-date drafts
+ * POST /:storyId/page-merges/:pageId             — Merge the story into a draft
+ */
+
+import { type Request, type Response, type Router } from "express";
+import type { PrismaClient } from "@prisma/client";
+import type { AuthenticatedRequest } from "../../types/authenticated-request.js";
+import { z } from "zod";
+import type { AccountAccessService } from "../../services/account-access.js";
+import type { RoleProfileService } from "../../services/role-profiles.js";
+import { storyAccountIds, type StoryQueryService } from "../../services/story-query.js";
+import { StoryRevisionService, StoryRevisionStateError } from "../../services/story-revisions.js";
+import { ConcurrencyConflictError } from "../../services/landing-page-editor.js";
+import { requirePageOwnerOrPermission } from "../../middleware/permissions.js";
+import { asyncHandler } from "../../lib/async-handler.js";
+import { parseRequestBody } from "../_shared/validators.js";
+import { sendSuccess, sendUnauthorized, sendForbidden, sendNotFound, sendConflict } from "../_shared/responses.js";
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+const DecisionSchema = z.enum(["accept", "reject"]);
+
+const ApplyRevisionSchema = z.object({
+  sections: z.record(z.string(), DecisionSchema).default({}),
+  quotes: z.record(z.string(), DecisionSchema).default({}),
+});
+
+const ApplyPageMergeSchema = z.object({
+  expected_updated_at: z.string().datetime(),
+  resolutions: z.array(z.enum(["ours", "theirs"])).max(500).default([]),
+});
+
+// ─── Route Registration ─────────────────────────────────────────────────────
+
+interface RegisterRevisionRoutesOptions {
+  router: Router;
+  prisma: PrismaClient;
+  storyQuery: StoryQueryService;
+  accessService: AccountAccessService;
+  roleProfiles: RoleProfileService;
+}
+
+export function registerRevisionRoutes({
+  router,
+  prisma,
+  storyQuery,
+  accessService,
+  roleProfiles,
+}: RegisterRevisionRoutesOptions): void {
+  const revisions = new StoryRevisionService(prisma);
+
+  /**
+   * Resolves the caller and checks story access. Reviewing changes a story,
+   * so writes need the same permission as generating one.
+   */
+  const authorizeStory = async (
+    req: Request,
+    res: Response,
+    access: "read" | "write"
+  ): Promise<{ organizationId: string; userId: string; storyId: string } | null> => {
+    const authReq = req as AuthenticatedRequest;
+    const organizationId = authReq.organizationId;
+    const userId = authReq.userId;
+    const userRole = authReq.userRole;
+
+    if (!organizationId || !userId) {
+      sendUnauthorized(res, "Authentication required");
+      return null;
+    }
+
+    const [policy, story] = await Promise.all([
+      roleProfiles.getEffectivePolicy(organizationId, userId, userRole),
+      storyQuery.getStoryForExport(req.params.storyId as string, organizationId),
+    ]);
+
+    if (access === "read" ? !policy.canAccessAnonymousStories : !policy.canGenerateAnonymousStories) {
+      sendForbidden(res, "Your role cannot review story revisions.");
+      return null;
+    }
+
+    if (!story) {
+      sendNotFound(res, "Story not found");
+      return null;
+    }
+
+    const canAccessAccount = await accessService.canAccessAccounts(
+      userId,
+      organizationId,
+      storyAccountIds(story),
+      userRole
+    );
+    if (!canAccessAccount) {
+      sendForbidden(res, "You do not have access to this story.");
+      return null;
+    }
+
+    return { organizationId, userId, storyId: story.id };
+  };
+
+  router.get("/:storyId/revisions", asyncHandler(async (req: Request, res: Response) => {
+    const auth = await authorizeStory(req, res, "read");
+    if (!auth) return;
+
+    const rows = await revisions.listRevisions(auth.storyId, auth.organizationId);
+    sendSuccess(res, {
+      revisions: rows.map((row) => ({
+        id: row.id,
+        revision_number: row.revisionNumber,
+        source: row.source,
+        status: row.status,
+        source_story_id: row.sourceStoryId,
+        parent_revision_id: row.parentRevisionId,
+        created_by_user_id: row.createdByUserId,
+        reviewed_by_user_id: row.reviewedByUserId,
+        reviewed_at: row.reviewedAt,
+        created_at: row.createdAt,
+      })),
+    });
+  }));
+
+  router.get("/:storyId/revisions/:revisionId", asyncHandler(async (req: Request, res: Response) => {
+    const auth = await authorizeStory(req, res, "read");
+    if (!auth) return;
+
+    const review = await revisions.getReview(
+      auth.storyId,
+      req.params.revisionId as string,
+      auth.organizationId
+    );
+    if (!review) {
+      sendNotFound(res, "Revision not found");
+      return;
+    }
+
+    sendSuccess(res, {
+      revision: {
+        id: review.revision.id,
+        revision_number: review.revision.revisionNumber,
+        source: review.revision.source,
+        status: review.revision.status,
+        created_at: review.revision.createdAt,
+      },
+      sections: review.sections,
+      quotes: review.quotes,
+    });
+  }));
+
+  router.post("/:storyId/revisions/:revisionId/apply", asyncHandler(async (req: Request, res: Response) => {
+    const payload = parseRequestBody(ApplyRevisionSchema, req.body, res);
+    if (!payload) return;
+    const auth = await authorizeStory(req, res, "write");
+    if (!auth) return;
+
+    try {
+      const result = await revisions.applyRevision({
+        ...auth,
+        revisionId: req.params.revisionId as string,
+        sections: payload.sections ?? {},
+        quotes: payload.quotes ?? {},
+      });
+      if (!result) {
+        sendNotFound(res, "Revision not found");
+        return;
+      }
+      sendSuccess(res, {
+        status: result.proposal.status,
+        merged_revision_id: result.merged?.id ?? null,
+        merged_revision_number: result.merged?.revisionNumber ?? null,
+        quotes_added: result.quotesAdded,
+      });
+    } catch (err) {
+      if (err instanceof StoryRevisionStateError) {
+        sendConflict(res, err.message);
+        return;
+      }
+      throw err;
+    }
+  }));
+
+  router.post("/:storyId/revisions/:revisionId/reject", asyncHandler(async (req: Request, res: Response) => {
+    const auth = await authorizeStory(req, res, "write");
+    if (!auth) return;
+
+    try {
+      const revision = await revisions.rejectRevision(
+        auth.storyId,
+        req.params.revisionId as string,
+        auth.organizationId,
+        auth.userId
+      );
+      if (!revision) {
+        sendNotFound(res, "Revision not found");
+        return;
+      }
+      sendSuccess(res, { status: revision.status });
+    } catch (err) {
+      if (err instanceof StoryRevisionStateError) {
+        sendConflict(res, err.message);
+        return;
+      }
+      throw err;
+    }
+  }));
+
+  router.get("/:storyId/page-merges", asyncHandler(async (req: Request, res: Response) => {
+    const auth = await authorizeStory(req, res, "read");
+    if (!auth) return;
+
+    const previews = await revisions.previewPageMerges(auth.storyId, auth.organizationId);
+    sendSuccess(res, {
+      pages: previews.map((preview) => ({
+        page_id: preview.pageId,
+        title: preview.title,
+        status: preview.status,
+        updated_at: preview.updatedAt,
+        base_revision_number: preview.baseRevisionNumber,
+        target_revision_number: preview.targetRevisionNumber,
+        draft_edited: preview.draftEdited,
+        merged_body: preview.merged,
+        conflicts: preview.conflicts,
+      })),
+    });
+  }));
+
+  router.post(
+    "/:storyId/page-merges/:pageId",
+    requirePageOwnerOrPermission(prisma),
+    asyncHandler(async (req: Request, res: Response) => {
+      const payload = parseRequestBody(ApplyPageMergeSchema, req.body, res);
+      if (!payload) return;
+      const auth = await authorizeStory(req, res, "read");
+      if (!auth) return;
+
+      try {
+        const result = await revisions.applyPageMerge({
+          ...auth,
+          pageId: req.params.pageId as string,
+          expectedUpdatedAt: new Date(payload.expected_updated_at),
+          resolutions: payload.resolutions ?? [],
+        });
+        if (!result) {
+          sendNotFound(res, "Landing page not found for this story");
+          return;
+        }
+        sendSuccess(res, {
+          updated_at: result.updatedAt,
+          conflicts_resolved: result.conflicts.length,
+        });
+      } catch (err) {
+        if (err instanceof ConcurrencyConflictError) {
+          sendConflict(res, "The draft changed since the merge preview. Reload and try again.");
+          return;
+        }
+        throw err;
+      }
+    })
+  );
+}
@@ -5,8 +5,10 @@
  *
  * Composes:
  *   - build-routes.ts
+ *   - template-routes.ts
  *   - library-routes.ts
  *   - export-routes.ts
+ *   - revision-routes.ts
  */
 
 import { Router } from "express";
@@ -15,15 +17,19 @@ import type { PrismaClient, UserRole } from "@prisma/client";
 import { AccountAccessService } from "../../services/account-access.js";
 import { RoleProfileService } from "../../services/role-profiles.js";
 import { StoryQueryService } from "../../services/story-query.js";
+import { StoryTemplateService } from "../../services/story-templates.js";
+import { AuditLogService } from "../../services/audit-log.js";
 import { AIConfigService } from "../../services/ai-config.js";
 import { AIUsageTracker, TrackedAIClient } from "../../services/ai-usage-tracker.js";
 import { FailoverAIClient } from "../../services/ai-resilience.js";
 import { dispatchOutboundWebhookEvent } from "../../services/outbound-webhooks.js";
 import type { RAGEngine } from "../../services/rag-engine.js";
 import logger from "../../lib/logger.js";
-import { registerBuildRoutes } from "./build-routes.js";
+import { registerBuildRoutes, type StoryOutboundEvent } from "./build-routes.js";
+import { registerTemplateRoutes } from "./template-routes.js";
 import { registerLibraryRoutes } from "./library-routes.js";
 import { registerExportRoutes } from "./export-routes.js";
+import { registerRevisionRoutes } from "./revision-routes.js";
 
 export function createStoryRoutes(
   storyBuilder: StoryBuilder,
@@ -36,6 +42,7 @@ export function createStoryRoutes(
   const accessService = new AccountAccessService(prisma);
   const roleProfiles = new RoleProfileService(prisma);
   const storyQuery = new StoryQueryService(prisma);
+  const storyTemplates = new StoryTemplateService(prisma);
 
   const normalizeRole = (role: unknown): UserRole => {
     if (
@@ -101,13 +108,7 @@ export function createStoryRoutes(
     return { client, retryBudget: resolved.retryBudget };
   };
 
-  const dispatchStoryEvent = async (
-    input: {
-      organizationId: string;
-      eventType: "story_generated" | "story_generation_failed";
-      payload: Record<string, unknown>;
-    }
-  ): Promise<void> => {
+  const dispatchStoryEvent = async (input: StoryOutboundEvent): Promise<void> => {
     await dispatchOutboundWebhookEvent(prisma, input).catch((err) => {
       logger.warn("Story outbound webhook dispatch failed", { error: err });
     });
@@ -124,11 +125,22 @@ export function createStoryRoutes(
   registerBuildRoutes({
     ...sharedDeps,
     storyBuilder,
+    storyTemplates,
     normalizeRole,
     resolveStoryAIClient,
     dispatchStoryEvent,
   });
 
+  // Before the library routes, whose GET /:accountId would match /templates.
+  registerTemplateRoutes({
+    ...sharedDeps,
+    storyBuilder,
+    storyTemplates,
+    auditLogs: new AuditLogService(prisma),
+    normalizeRole,
+    resolveStoryAIClient,
+  });
+
   registerLibraryRoutes({
     ...sharedDeps,
     ragEngine,
@@ -139,5 +151,7 @@ export function createStoryRoutes(
     ragEngine,
   });
 
+  registerRevisionRoutes(sharedDeps);
+
   return router;
 }
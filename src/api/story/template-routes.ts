@@ -0,0 +1,441 @@
+/**
+ * Story Template Routes
+ *
+ * GET    /templates               — Active templates (for the story generator)
+ * GET    /templates/:templateId   — A template with its version history
+ * POST   /templates               — Create a template (version 1)
+ * PATCH  /templates/:templateId   — Rename or redefine; a new definition adds a version
+ * DELETE /templates/:templateId   — Archive a template
+ * POST   /templates/preview       — Generate an unsaved story from a template on one account
+ */
+
+import { type Request, type Response, type Router } from "express";
+import type { PrismaClient, StoryTemplate } from "@prisma/client";
+import { z } from "zod";
+import type { AuthenticatedRequest } from "../../types/authenticated-request.js";
+import logger from "../../lib/logger.js";
+import type { AIClient } from "../../services/ai-client.js";
+import type { AccountAccessService } from "../../services/account-access.js";
+import type { AuditLogService } from "../../services/audit-log.js";
+import type { RoleProfileService } from "../../services/role-profiles.js";
+import type { StoryBuilder } from "../../services/story-builder.js";
+import {
+  MAX_STORY_TEMPLATES,
+  StoryTemplateNameConflictError,
+  type ResolvedStoryTemplate,
+  type StoryTemplateService,
+} from "../../services/story-templates.js";
+import {
+  mapClaimVerification,
+  mapGeneratedQuote,
+  mapTemplateCoverage,
+} from "../../services/story-mappers.js";
+import { countLintFindings } from "../../services/story-lint.js";
+import { requirePermission } from "../../middleware/permissions.js";
+import { isCustomTopicKey } from "../../types/taxonomy.js";
+import {
+  MAX_TEMPLATE_SECTIONS,
+  QUOTE_METRIC_TYPES,
+  STORY_LENGTHS,
+  STORY_TYPES,
+  type StoryTemplateDefinition,
+  type StoryTypeInput,
+} from "../../types/story-generation.js";
+import { SUPPORTED_LANGUAGES } from "../../lib/language-detection.js";
+import { asyncHandler } from "../../lib/async-handler.js";
+import { parseRequestBody } from "../_shared/validators.js";
+import {
+  sendConflict,
+  sendCreated,
+  sendError,
+  sendForbidden,
+  sendNotFound,
+  sendSuccess,
+  sendUnauthorized,
+} from "../_shared/responses.js";
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+const TemplateDefinitionSchema = z
+  .object({
+    sections: z
+      .array(
+        z.object({
+          heading: z.string().trim().min(1).max(120),
+          instructions: z.string().trim().min(1).max(1000),
+          min_quotes: z.number().int().min(0).max(5).default(0),
+          required_metrics: z.array(z.enum(QUOTE_METRIC_TYPES)).max(QUOTE_METRIC_TYPES.length).default([]),
+        })
+      )
+      .min(1)
+      .max(MAX_TEMPLATE_SECTIONS),
+    story_length: z.enum(STORY_LENGTHS).default("MEDIUM"),
+    audience: z.string().trim().max(300).nullable().optional(),
+    prompt_block: z.string().trim().max(4000).nullable().optional(),
+  })
+  .refine(
+    (value) =>
+      new Set(value.sections.map((section) => section.heading.toLowerCase())).size ===
+      value.sections.length,
+    { message: "Section headings must be unique" }
+  );
+
+const CreateTemplateSchema = z.object({
+  name: z.string().trim().min(2).max(80),
+  description: z.string().trim().max(500).nullable().optional(),
+  definition: TemplateDefinitionSchema,
+});
+
+const UpdateTemplateSchema = CreateTemplateSchema.partial();
+
+// A saved template, or an unsaved definition from the template editor.
+const PreviewTemplateSchema = z
+  .object({
+    account_id: z.string().min(1),
+    template_id: z.string().min(1).optional(),
+    template_version: z.number().int().min(1).optional(),
+    definition: TemplateDefinitionSchema.optional(),
+    story_type: z
+      .union([
+        z.enum(STORY_TYPES as unknown as [string, ...string[]]),
+        z.string().refine(isCustomTopicKey, "Invalid custom topic key"),
+      ])
+      .optional(),
+    target_language: z.enum(SUPPORTED_LANGUAGES).optional(),
+    ai_provider: z.enum(["openai", "anthropic", "google"]).optional(),
+    ai_model: z.string().min(1).max(120).optional(),
+  })
+  .refine((value) => (value.template_id === undefined) !== (value.definition === undefined), {
+    message: "Provide either template_id or definition",
+  });
+
+type TemplateDefinitionInput = z.input<typeof TemplateDefinitionSchema>;
+
+function toDefinition(input: TemplateDefinitionInput): StoryTemplateDefinition {
+  return {
+    sections: input.sections.map((section) => ({
+      heading: section.heading,
+      instructions: section.instructions,
+      minQuotes: section.min_quotes ?? 0,
+      requiredMetrics: section.required_metrics ?? [],
+    })),
+    storyLength: input.story_length ?? "MEDIUM",
+    audience: input.audience || null,
+    promptBlock: input.prompt_block || null,
+  };
+}
+
+function serializeDefinition(definition: StoryTemplateDefinition) {
+  return {
+    sections: definition.sections.map((section) => ({
+      heading: section.heading,
+      instructions: section.instructions,
+      min_quotes: section.minQuotes,
+      required_metrics: section.requiredMetrics,
+    })),
+    story_length: definition.storyLength,
+    audience: definition.audience,
+    prompt_block: definition.promptBlock,
+  };
+}
+
+export function serializeStoryTemplate(template: StoryTemplate & { definition: StoryTemplateDefinition }) {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    version: template.currentVersion,
+    definition: serializeDefinition(template.definition),
+    archived_at: template.archivedAt,
+    created_at: template.createdAt,
+    updated_at: template.updatedAt,
+  };
+}
+
+// ─── Route Registration ─────────────────────────────────────────────────────
+
+interface RegisterTemplateRoutesOptions {
+  router: Router;
+  prisma: PrismaClient;
+  storyBuilder: StoryBuilder;
+  storyTemplates: StoryTemplateService;
+  accessService: AccountAccessService;
+  roleProfiles: RoleProfileService;
+  auditLogs: AuditLogService;
+  normalizeRole: (role: unknown) => "OWNER" | "ADMIN" | "MEMBER" | "VIEWER";
+  resolveStoryAIClient: (input: {
+    organizationId: string;
+    userId: string;
+    userRole: "OWNER" | "ADMIN" | "MEMBER" | "VIEWER";
+    provider?: "openai" | "anthropic" | "google";
+    model?: string;
+  }) => Promise<{ client: AIClient; retryBudget: number }>;
+}
+
+export function registerTemplateRoutes({
+  router,
+  prisma,
+  storyBuilder,
+  storyTemplates,
+  accessService,
+  roleProfiles,
+  auditLogs,
+  normalizeRole,
+  resolveStoryAIClient,
+}: RegisterTemplateRoutesOptions): void {
+  router.get("/templates", asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    if (!authReq.organizationId) {
+      sendUnauthorized(res, "Authentication required");
+      return;
+    }
+
+    const templates = await storyTemplates.listTemplates(authReq.organizationId, {
+      includeArchived: req.query.include_archived === "true",
+    });
+    sendSuccess(res, {
+      templates: templates.map(serializeStoryTemplate),
+      max_templates: MAX_STORY_TEMPLATES,
+    });
+  }));
+
+  router.get("/templates/:templateId", asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    if (!authReq.organizationId) {
+      sendUnauthorized(res, "Authentication required");
+      return;
+    }
+
+    const template = await storyTemplates.getTemplate(
+      authReq.organizationId,
+      req.params.templateId as string
+    );
+    if (!template) {
+      sendNotFound(res, "Story template not found");
+      return;
+    }
+
+    sendSuccess(res, {
+      template: serializeStoryTemplate(template),
+      versions: template.versions.map((version) => ({
+        id: version.id,
+        version: version.version,
+        created_by_user_id: version.createdByUserId,
+        created_at: version.createdAt,
+      })),
+    });
+  }));
+
+  router.post("/templates/preview", asyncHandler(async (req: Request, res: Response) => {
+    const payload = parseRequestBody(PreviewTemplateSchema, req.body, res);
+    if (!payload) {
+      return;
+    }
+
+    const authReq = req as AuthenticatedRequest;
+    const organizationId = authReq.organizationId;
+    const userId = authReq.userId;
+    const userRole = authReq.userRole;
+    if (!organizationId || !userId) {
+      sendUnauthorized(res, "Authentication required");
+      return;
+    }
+
+    const [policy, canAccessAccount] = await Promise.all([
+      roleProfiles.getEffectivePolicy(organizationId, userId, userRole),
+      accessService.canAccessAccount(userId, organizationId, payload.account_id, userRole),
+    ]);
+    if (!policy.canGenerateAnonymousStories) {
+      sendForbidden(res, "Your role cannot generate stories.");
+      return;
+    }
+    if (!canAccessAccount) {
+      sendForbidden(res, "You do not have access to this account.");
+      return;
+    }
+
+    const template: ResolvedStoryTemplate | null = payload.definition
+      ? {
+          templateId: "draft",
+          versionId: "draft",
+          name: "Draft template",
+          version: 0,
+          definition: toDefinition(payload.definition),
+        }
+      : await storyTemplates.resolveTemplate(organizationId, payload.template_id!, {
+          version: payload.template_version,
+        });
+    if (!template) {
+      sendNotFound(res, "Story template not found");
+      return;
+    }
+
+    try {
+      const result = await storyBuilder.buildStory({
+        aiClient: (
+          await resolveStoryAIClient({
+            organizationId,
+            userId,
+            userRole: normalizeRole(userRole),
+            provider: payload.ai_provider,
+            model: payload.ai_model,
+          })
+        ).client,
+        aiIdempotencyKey: `story-template-preview:${organizationId}:${payload.account_id}:${Date.now()}`,
+        accountId: payload.account_id,
+        organizationId,
+        template,
+        storyType: payload.story_type as StoryTypeInput | undefined,
+        targetLanguage: payload.target_language,
+        dryRun: true,
+      });
+
+      sendSuccess(res, {
+        title: result.title,
+        markdown: result.markdownBody,
+        language: result.language,
+        quotes: result.quotes.map((q) => mapGeneratedQuote(q)),
+        claim_verification: result.claimVerification
+          ? mapClaimVerification(result.claimVerification)
+          : null,
+        lint: {
+          counts: countLintFindings(result.lintFindings),
+          findings: result.lintFindings,
+        },
+        template_coverage: result.templateCoverage
+          ? mapTemplateCoverage(result.templateCoverage)
+          : null,
+      });
+    } catch (err) {
+      logger.error("Story template preview error", { error: err });
+      sendError(res, 500, "internal_error", "Failed to preview story template");
+    }
+  }));
+
+  router.post(
+    "/templates",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const payload = parseRequestBody(CreateTemplateSchema, req.body, res);
+      if (!payload) {
+        return;
+      }
+
+      const organizationId = req.organizationId!;
+      if ((await storyTemplates.countTemplates(organizationId)) >= MAX_STORY_TEMPLATES) {
+        sendConflict(res, `An organization can have at most ${MAX_STORY_TEMPLATES} story templates`);
+        return;
+      }
+
+      try {
+        const template = await storyTemplates.createTemplate({
+          organizationId,
+          userId: req.userId!,
+          name: payload.name,
+          description: payload.description,
+          definition: toDefinition(payload.definition),
+        });
+
+        await auditLogs.record({
+          organizationId,
+          actorUserId: req.userId!,
+          category: "ADMIN",
+          action: "STORY_TEMPLATE_CREATED",
+          targetType: "story_template",
+          targetId: template.id,
+          severity: "INFO",
+          metadata: { name: template.name, sections: template.definition.sections.length },
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent"),
+        });
+
+        sendCreated(res, { template: serializeStoryTemplate(template) });
+      } catch (err) {
+        if (err instanceof StoryTemplateNameConflictError) {
+          sendConflict(res, err.message);
+          return;
+        }
+        throw err;
+      }
+    })
+  );
+
+  router.patch(
+    "/templates/:templateId",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const patch = parseRequestBody(UpdateTemplateSchema, req.body, res);
+      if (!patch) {
+        return;
+      }
+
+      const organizationId = req.organizationId!;
+      try {
+        const template = await storyTemplates.updateTemplate({
+          organizationId,
+          templateId: req.params.templateId as string,
+          userId: req.userId!,
+          name: patch.name,
+          description: patch.description,
+          definition: patch.definition ? toDefinition(patch.definition) : undefined,
+        });
+        if (!template) {
+          sendNotFound(res, "Story template not found");
+          return;
+        }
+
+        await auditLogs.record({
+          organizationId,
+          actorUserId: req.userId!,
+          category: "ADMIN",
+          action: "STORY_TEMPLATE_UPDATED",
+          targetType: "story_template",
+          targetId: template.id,
+          severity: "INFO",
+          metadata: { updated_fields: Object.keys(patch), version: template.currentVersion },
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent"),
+        });
+
+        sendSuccess(res, { template: serializeStoryTemplate(template) });
+      } catch (err) {
+        if (err instanceof StoryTemplateNameConflictError) {
+          sendConflict(res, err.message);
+          return;
+        }
+        throw err;
+      }
+    })
+  );
+
+  /**
+   * Archiving hides the template from the generator. Stories built from it
+   * keep their link, and scheduled regeneration still follows it.
+   */
+  router.delete(
+    "/templates/:templateId",
+    requirePermission(prisma, "manage_permissions"),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const organizationId = req.organizationId!;
+      const templateId = req.params.templateId as string;
+      if (!(await storyTemplates.archiveTemplate(organizationId, templateId))) {
+        sendNotFound(res, "Story template not found");
+        return;
+      }
+
+      await auditLogs.record({
+        organizationId,
+        actorUserId: req.userId!,
+        category: "ADMIN",
+        action: "STORY_TEMPLATE_ARCHIVED",
+        targetType: "story_template",
+        targetId: templateId,
+        severity: "WARN",
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      sendSuccess(res, { archived: true });
+    })
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * Tag Review Routes
+ *
+ * Reviewers confirm or reject chunk tags; each decision becomes a validation
+ * sample for the org's confidence calibration:
+ *   GET  /api/tag-reviews/queue                      — chunks awaiting labeling
+ *   POST /api/tag-reviews                            — confirm/reject a chunk tag
+ *   POST /api/tag-reviews/queue/:itemId/dismiss      — skip a queued chunk
+ *
+ * Only chunks from accounts the reviewer can access are listed or reviewable.
+ */
+
+import { Router, type Response } from "express";
+import { z } from "zod";
+import type { PrismaClient } from "@prisma/client";
+import type { AuthenticatedRequest } from "../types/authenticated-request.js";
+import { AccountAccessService } from "../services/account-access.js";
+import {
+  dismissLabelingItem,
+  listLabelingQueue,
+  recordTagReview,
+} from "../services/active-learning.js";
+import { ALL_TOPICS, VALID_FUNNEL_STAGES, isCustomTopicKey } from "../types/taxonomy.js";
+import {
+  sendCreated,
+  sendNotFound,
+  sendSuccess,
+  sendUnauthorized,
+} from "./_shared/responses.js";
+import { parseRequestBody } from "./_shared/validators.js";
+import { asyncHandler } from "../lib/async-handler.js";
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+const ListQueueQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+const TopicKeySchema = z
+  .string()
+  .refine(
+    (value) => (ALL_TOPICS as readonly string[]).includes(value) || isCustomTopicKey(value),
+    "Unknown topic"
+  );
+
+const TagReviewSchema = z
+  .object({
+    chunk_tag_id: z.string().min(1),
+    decision: z.enum(["CONFIRM", "REJECT"]),
+    corrected_funnel_stage: z.enum(VALID_FUNNEL_STAGES).optional(),
+    corrected_topic: TopicKeySchema.optional(),
+  })
+  .refine(
+    (value) => !value.corrected_funnel_stage === !value.corrected_topic,
+    "corrected_funnel_stage and corrected_topic must be given together"
+  )
+  .refine(
+    (value) => value.decision === "REJECT" || !value.corrected_topic,
+    "Corrections are only accepted when rejecting a tag"
+  );
+
+const DEFAULT_QUEUE_LIMIT = 20;
+
+// ─── Route Factory ───────────────────────────────────────────────────────────
+
+export function createTagReviewRoutes(prisma: PrismaClient): Router {
+  const router = Router();
+  const accessService = new AccountAccessService(prisma);
+
+  router.get(
+    "/queue",
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.organizationId || !req.userId) {
+        sendUnauthorized(res, "Authentication required");
+        return;
+      }
+      const query = parseRequestBody(ListQueueQuerySchema, req.query, res);
+      if (!query) return;
+
+      const items = await listLabelingQueue(prisma, req.organizationId, {
+        userId: req.userId,
+        accessibleAccountIds: await accessService.getAccessibleAccountIds(
+          req.userId,
+          req.organizationId,
+          req.userRole
+        ),
+        limit: query.limit ?? DEFAULT_QUEUE_LIMIT,
+      });
+
+      sendSuccess(res, {
+        items: items.map((item) => ({
+          id: item.id,
+          reason: item.reason,
+          priority: item.priority,
+          created_at: item.createdAt.toISOString(),
+          chunk: {
+            id: item.chunk.id,
+            text: item.chunk.text,
+            speaker: item.chunk.speaker,
+            start_ms: item.chunk.startMs,
+          },
+          call: {
+            id: item.chunk.transcript.call.id,
+            title: item.chunk.transcript.call.title,
+            occurred_at: item.chunk.transcript.call.occurredAt.toISOString(),
+            account_id: item.chunk.transcript.call.accountId,
+          },
+          tags: item.chunk.tags.map((tag) => ({
+            id: tag.id,
+            funnel_stage: tag.funnelStage,
+            topic: tag.topic,
+            confidence: tag.confidence,
+            my_decision:
+              tag.reviewedCorrect === null ? null : tag.reviewedCorrect ? "CONFIRM" : "REJECT",
+          })),
+        })),
+      });
+    })
+  );
+
+  router.post(
+    "/",
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.organizationId || !req.userId) {
+        sendUnauthorized(res, "Authentication required");
+        return;
+      }
+      const payload = parseRequestBody(TagReviewSchema, req.body, res);
+      if (!payload) return;
+
+      const sample = await recordTagReview(prisma, {
+        organizationId: req.organizationId,
+        userId: req.userId,
+        chunkTagId: payload.chunk_tag_id,
+        decision: payload.decision,
+        correction:
+          payload.corrected_funnel_stage && payload.corrected_topic
+            ? { funnelStage: payload.corrected_funnel_stage, topic: payload.corrected_topic }
+            : undefined,
+        accessibleAccountIds: await accessService.getAccessibleAccountIds(
+          req.userId,
+          req.organizationId,
+          req.userRole
+        ),
+      });
+      if (!sample) {
+        sendNotFound(res, "Chunk tag not found");
+        return;
+      }
+
+      sendCreated(res, {
+        review: {
+          id: sample.id,
+          chunk_tag_id: sample.chunkTagId,
+          decision: sample.isCorrect ? "CONFIRM" : "REJECT",
+          expected_funnel_stage: sample.expectedFunnelStage,
+          expected_topic: sample.expectedTopic,
+          updated_at: sample.updatedAt.toISOString(),
+        },
+      });
+    })
+  );
+
+  router.post(
+    "/queue/:itemId/dismiss",
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.organizationId || !req.userId) {
+        sendUnauthorized(res, "Authentication required");
+        return;
+      }
+
+      const dismissed = await dismissLabelingItem(
+        prisma,
+        req.organizationId,
+        req.params.itemId as string,
+        await accessService.getAccessibleAccountIds(
+          req.userId,
+          req.organizationId,
+          req.userRole
+        )
+      );
+      if (!dismissed) {
+        sendNotFound(res, "Queue item not found");
+        return;
+      }
+      sendSuccess(res, { dismissed: true });
+    })
+  );
+
+  return router;
+}
@@ -17,16 +17,23 @@ import { WorkOS } from "@workos-inc/node";
 import { createMergeWebhookHandler } from "./webhooks/merge-webhook.js";
 import { createGongWebhookHandler } from "./webhooks/gong-webhook.js";
 import { createGrainWebhookHandler } from "./webhooks/grain-webhook.js";
+import { createZoomWebhookHandler } from "./webhooks/zoom-webhook.js";
+import { createTeamsWebhookHandler } from "./webhooks/teams-webhook.js";
+import { createFirefliesWebhookHandler } from "./webhooks/fireflies-webhook.js";
 
 // ─── API Routes ──────────────────────────────────────────────────────────────
 import { createAuthRoutes } from "./api/auth-routes.js";
 import { createScimRoutes } from "./api/scim-routes.js";
 import { createRAGRoutes } from "./api/rag-routes.js";
+import { createChatConversationRoutes } from "./api/chat-conversation-routes.js";
 import { createStoryRoutes } from "./api/story/routes.js";
 import { createStoryCommentRoutes } from "./api/story-comments-routes.js";
+import { createTagReviewRoutes } from "./api/tag-review-routes.js";
 import { createLandingPageRoutes } from "./api/landing-page/routes.js";
 import { createExportRoutes } from "./api/export-routes.js";
 import { createPublicPageRoutes } from "./api/public-page/renderer.js";
+import { createPageAnalyticsBeaconRoutes } from "./api/public-page/beacon-routes.js";
+import { createEmbedRoutes } from "./api/public-page/embed-routes.js";
 import { createDashboardRoutes } from "./api/dashboard-routes.js";
 import { createApiKeyRoutes } from "./api/api-key-routes.js";
 import { createMergeRoutes } from "./api/merge-routes.js";
@@ -65,6 +72,8 @@ import {
   webhookRateLimiter,
   passwordRateLimiter,
   exportRateLimiter,
+  beaconRateLimiter,
+  embedRateLimiter,
 } from "./middleware/rate-limiter.js";
 import { createApiUsageLogger } from "./middleware/api-usage-logger.js";
 import { requirePermission } from "./middleware/permissions.js";
@@ -97,6 +106,7 @@ export function createApp(deps: AppDeps): express.Application {
     aiConfigService,
     aiUsageTracker,
     notificationService,
+    automationEngine,
   } = services;
 
   const app = express();
@@ -192,6 +202,24 @@ export function createApp(deps: AppDeps): express.Application {
     webhookRateLimiter,
     createGrainWebhookHandler({ prisma, processingQueue: queues.processingQueue })
   );
+  app.post(
+    "/api/webhooks/zoom",
+    express.raw({ type: "application/json", limit: "1mb" }),
+    webhookRateLimiter,
+    createZoomWebhookHandler({ prisma, processingQueue: queues.processingQueue })
+  );
+  app.post(
+    "/api/webhooks/teams",
+    express.raw({ type: ["application/json", "text/plain"], limit: "1mb" }),
+    webhookRateLimiter,
+    createTeamsWebhookHandler({ prisma, processingQueue: queues.processingQueue })
+  );
+  app.post(
+    "/api/webhooks/fireflies",
+    express.raw({ type: "application/json", limit: "1mb" }),
+    webhookRateLimiter,
+    createFirefliesWebhookHandler({ prisma, processingQueue: queues.processingQueue })
+  );
 
   // All other routes use JSON parsing
   app.use(express.json({ limit: "10mb" }));
@@ -206,6 +234,10 @@ export function createApp(deps: AppDeps): express.Application {
 
   // Public landing pages — no auth, served at /s/:slug
   app.use("/s", passwordRateLimiter, createPublicPageRoutes(prisma));
+  // Engagement beacons from those pages — no auth, separate rate limit
+  app.use("/api/page-events", beaconRateLimiter, createPageAnalyticsBeaconRoutes(prisma));
+  // Story widgets and oEmbed for third-party sites — no auth, framed per org
+  app.use("/embed", embedRateLimiter, createEmbedRoutes(prisma));
 
   // ─── Public API (API-key authenticated, for third-party consumers) ─────
 
@@ -222,7 +254,7 @@ export function createApp(deps: AppDeps): express.Application {
     requireScope("rag:query"),
     publicApiRateLimiter,
     apiUsageLogger,
-    createRAGRoutes(ragEngine, prisma)
+    createRAGRoutes(ragEngine, prisma, aiConfigService, aiUsageTracker)
   );
 
   // ─── Auth Routes (public — no JWT required) ────────────────────────────
@@ -250,6 +282,7 @@ export function createApp(deps: AppDeps): express.Application {
     createSetupRoutes(prisma, stripe, {
       aiConfigService,
       syncEngine,
+      providerRegistry,
     })
   );
 
@@ -271,7 +304,13 @@ export function createApp(deps: AppDeps): express.Application {
     "/api/rag",
     trialGate,
     apiRateLimiter,
-    createRAGRoutes(ragEngine, prisma)
+    createRAGRoutes(ragEngine, prisma, aiConfigService, aiUsageTracker)
+  );
+  app.use(
+    "/api/rag",
+    trialGate,
+    apiRateLimiter,
+    createChatConversationRoutes(prisma)
   );
 
   // Story Builder (behind trial gate)
@@ -288,6 +327,9 @@ export function createApp(deps: AppDeps): express.Application {
     createStoryCommentRoutes(prisma)
   );
 
+  // Tag review — reviewer decisions feed confidence calibration
+  app.use("/api/tag-reviews", trialGate, apiRateLimiter, createTagReviewRoutes(prisma));
+
   // Landing Pages — CRUD, edit, publish, share (behind trial gate)
   app.use(
     "/api/pages",
@@ -299,16 +341,22 @@ export function createApp(deps: AppDeps): express.Application {
     })
   );
 
-  // Landing Page Exports — PDF, Google Doc, Slack (behind trial gate + export rate limit)
+  // Landing Page Exports — PDF, Google Doc, Slack, static site (behind trial gate + export rate limit)
   app.use("/api/pages", trialGate, exportRateLimiter, createExportRoutes(prisma));
 
-  // Dashboard — stats, page list, admin settings, permissions, account access
+  // Dashboard — stats, page list, admin settings, permissions, account access, automations
   app.use(
     "/api/dashboard",
     trialGate,
     standardPolicy,
     apiRateLimiter,
-    createDashboardRoutes(prisma, ragEngine)
+    createDashboardRoutes(prisma, ragEngine, {
+      automationEngine,
+      automationQueue: queues.automationQueue,
+      ragVectorReindexQueue: queues.ragVectorReindexQueue,
+      transcriptRechunkQueue: queues.transcriptRechunkQueue,
+      taxonomyRetagQueue: queues.taxonomyRetagQueue,
+    })
   );
 
   // Entity Resolution Queue
@@ -0,0 +1,265 @@
+/**
+ * Outbound Webhook Event Contract
+ *
+ * Versioned payload schemas for every event delivered to outbound webhook
+ * subscribers. Each schema can be exported as JSON Schema (draft 2020-12)
+ * so receivers can validate deliveries.
+ *
+ * Compatibility rule: adding an optional payload field is allowed within a
+ * version (payloads are open objects). Removing, renaming or changing the
+ * meaning of a field requires bumping that event's `version`.
+ *
+ * Schemas use the zod v4 API because it ships the JSON Schema exporter.
+ */
+
+import { z } from "zod/v4";
+
+const timestamp = () => z.string().describe("ISO 8601 timestamp (UTC)");
+
+const approvalRequestPayload = z.looseObject({
+  approval_request_id: z.string(),
+  request_type: z
+    .string()
+    .describe("e.g. LANDING_PAGE_PUBLISH, ACCOUNT_MERGE, DATA_DELETION, DATA_MERGE_CONFLICT"),
+  target_type: z.string(),
+  target_id: z.string(),
+  status: z.string(),
+  requested_by_user_id: z.string(),
+  reviewer_user_id: z.string().nullable(),
+  review_notes: z.string().nullable(),
+});
+
+export const OUTBOUND_WEBHOOK_EVENT_CATALOG = {
+  landing_page_published: {
+    version: 1,
+    description: "A landing page was published, directly or through an approved publish request.",
+    payload: z.looseObject({
+      page_id: z.string(),
+      slug: z.string(),
+      url: z.string(),
+      published_by_user_id: z.string(),
+      approval_request_id: z.string().optional(),
+    }),
+  },
+  landing_page_archived: {
+    version: 1,
+    description: "A landing page was archived and is no longer publicly reachable.",
+    payload: z.looseObject({
+      page_id: z.string(),
+      slug: z.string(),
+      archived_by_user_id: z.string(),
+    }),
+  },
+  landing_page_rolled_back: {
+    version: 1,
+    description: "A landing page was republished from an earlier published version.",
+    payload: z.looseObject({
+      page_id: z.string(),
+      source_version_id: z.string(),
+      source_version_number: z.number().int(),
+      new_version_id: z.string(),
+      new_version_number: z.number().int(),
+      rolled_back_by_user_id: z.string(),
+    }),
+  },
+  story_generated: {
+    version: 1,
+    description: "A story was generated for an account.",
+    payload: z.looseObject({
+      story_id: z.string().nullable().describe("null when the account had no transcripts"),
+      story_title: z.string(),
+      account_id: z.string(),
+      mode: z.enum(["build", "build_stream"]),
+    }),
+  },
+  story_generation_failed: {
+    version: 1,
+    description: "Story generation for an account failed.",
+    payload: z.looseObject({
+      account_id: z.string(),
+      mode: z.enum(["build", "build_stream"]),
+      error: z.string(),
+    }),
+  },
+  scheduled_report_generated: {
+    version: 1,
+    description: "A scheduled report finished generating.",
+    payload: z.looseObject({
+      report_id: z.string(),
+      title: z.string(),
+    }),
+  },
+  automation_rule_triggered: {
+    version: 1,
+    description:
+      "An automation rule with a webhook action fired. Rule template variables are included alongside title and text.",
+    payload: z.looseObject({
+      title: z.string(),
+      text: z.string(),
+      rule_name: z.string(),
+      trigger: z.string(),
+    }),
+  },
+  call_ingested: {
+    version: 1,
+    description: "A call was accepted into the processing pipeline.",
+    payload: z.looseObject({
+      call_id: z.string(),
+      account_id: z.string().nullable(),
+      has_transcript: z.boolean(),
+    }),
+  },
+  call_processed: {
+    version: 1,
+    description: "Transcript chunking, tagging and indexing finished for a call.",
+    payload: z.looseObject({
+      call_id: z.string(),
+      account_id: z.string().nullable(),
+    }),
+  },
+  call_processing_failed: {
+    version: 1,
+    description: "Call processing failed after exhausting every retry.",
+    payload: z.looseObject({
+      call_id: z.string(),
+      account_id: z.string().nullable(),
+      attempts: z.number().int(),
+      error: z.string(),
+    }),
+  },
+  account_merged: {
+    version: 1,
+    description: "A duplicate account was merged into a primary account and deleted.",
+    payload: z.looseObject({
+      merge_run_id: z.string(),
+      primary_account_id: z.string(),
+      merged_account_id: z.string(),
+      contacts_moved: z.number().int(),
+      calls_moved: z.number().int(),
+      stories_moved: z.number().int(),
+      landing_pages_moved: z.number().int(),
+      domain_aliases_added: z.array(z.string()),
+      initiated_by_user_id: z.string().nullable(),
+    }),
+  },
+  entity_resolution_completed: {
+    version: 1,
+    description:
+      "Entity resolution finished for a call, either automatically during ingest or by a reviewer.",
+    payload: z.looseObject({
+      call_id: z.string(),
+      account_id: z.string().nullable(),
+      match_method: z.enum(["email_domain", "fuzzy_name", "manual", "none"]),
+      confidence: z.number().min(0).max(1),
+      needs_review: z.boolean(),
+    }),
+  },
+  approval_requested: {
+    version: 1,
+    description: "An approval request was created and is waiting for review.",
+    payload: approvalRequestPayload,
+  },
+  approval_approved: {
+    version: 1,
+    description: "An approval request was approved (or approved and completed).",
+    payload: approvalRequestPayload,
+  },
+  approval_rejected: {
+    version: 1,
+    description: "An approval request was rejected.",
+    payload: approvalRequestPayload,
+  },
+  quote_curated: {
+    version: 1,
+    description: "A quote was saved to the curated tier of the quote library.",
+    payload: z.looseObject({
+      quote_id: z.string(),
+      account_id: z.string(),
+      call_id: z.string().nullable(),
+      curated_by_user_id: z.string(),
+      source: z.enum(["transcript", "promotion"]),
+    }),
+  },
+  integration_sync_failed: {
+    version: 1,
+    description: "An integration sync run failed.",
+    payload: z.looseObject({
+      integration_run_id: z.string(),
+      integration_config_id: z.string(),
+      provider: z.string(),
+      run_type: z.string(),
+      processed_count: z.number().int(),
+      failure_count: z.number().int(),
+      error: z.string(),
+    }),
+  },
+  "webhook.test": {
+    version: 1,
+    description: "Test ping sent from the webhook admin page.",
+    payload: z.looseObject({
+      message: z.string(),
+    }),
+  },
+} as const;
+
+type Catalog = typeof OUTBOUND_WEBHOOK_EVENT_CATALOG;
+
+/** Every event type that is actually delivered (excludes the ALL_EVENTS wildcard). */
+export type OutboundWebhookDeliverableEventType = keyof Catalog;
+
+export type OutboundWebhookEventPayload<T extends OutboundWebhookDeliverableEventType> = z.infer<
+  Catalog[T]["payload"]
+>;
+
+export const OUTBOUND_WEBHOOK_DELIVERABLE_EVENTS = Object.keys(
+  OUTBOUND_WEBHOOK_EVENT_CATALOG
+) as OutboundWebhookDeliverableEventType[];
+
+export function isOutboundWebhookDeliverableEvent(
+  value: unknown
+): value is OutboundWebhookDeliverableEventType {
+  return typeof value === "string" && Object.hasOwn(OUTBOUND_WEBHOOK_EVENT_CATALOG, value);
+}
+
+export function getOutboundWebhookEventVersion(
+  eventType: OutboundWebhookDeliverableEventType
+): number {
+  return OUTBOUND_WEBHOOK_EVENT_CATALOG[eventType].version;
+}
+
+/**
+ * Validates a payload against its event schema. Returns the list of issues
+ * (empty when valid) rather than throwing so emitters can log and carry on.
+ */
+export function validateOutboundWebhookEventPayload(
+  eventType: OutboundWebhookDeliverableEventType,
+  payload: unknown
+): string[] {
+  const result = OUTBOUND_WEBHOOK_EVENT_CATALOG[eventType].payload.safeParse(payload);
+  if (result.success) {
+    return [];
+  }
+  return result.error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+  );
+}
+
+/**
+ * JSON Schema for the full delivery body (envelope plus payload) of one
+ * event type, as documented for subscribers.
+ */
+export function getOutboundWebhookEventJsonSchema(
+  eventType: OutboundWebhookDeliverableEventType
+): Record<string, unknown> {
+  const entry = OUTBOUND_WEBHOOK_EVENT_CATALOG[eventType];
+  const envelope = z
+    .looseObject({
+      event_id: z.string().describe("Unique per event; reused on redelivery"),
+      event_type: z.literal(eventType),
+      event_version: z.literal(entry.version),
+      occurred_at: timestamp(),
+      payload: entry.payload,
+    })
+    .meta({ title: `${eventType} v${entry.version}`, description: entry.description });
+  return z.toJSONSchema(envelope) as Record<string, unknown>;
+}
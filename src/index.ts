@@ -70,6 +70,10 @@ const services = createServices(prisma, queues.processingQueue, {
   openaiApiKey: process.env.OPENAI_API_KEY ?? "",
   pineconeApiKey: process.env.PINECONE_API_KEY ?? "",
   pineconeIndex: process.env.PINECONE_INDEX ?? "storyengine-transcripts",
+  pineconeNamespace: process.env.PINECONE_NAMESPACE,
+  ragVectorBackend: process.env.RAG_VECTOR_BACKEND,
+  ragPgvectorEnabled: process.env.RAG_PGVECTOR_ENABLED === "true",
+  ragEmbeddingProvider: process.env.RAG_EMBEDDING_PROVIDER,
   mergeApiKey,
   resendApiKey: process.env.RESEND_API_KEY ?? "",
   regenFromEmail:
@@ -104,18 +108,31 @@ process.on("SIGTERM", async () => {
   workers.auditRetentionCron.stop();
   workers.dataRetentionCron.stop();
   workers.callProcessingDeadLetterReplayCron?.stop();
+  workers.calibrationRefitCron.stop();
+  workers.pageAnalyticsRollupCron.stop();
+  workers.stopAutomationEventListener();
   await workers.callWorker.close();
   await workers.transcriptFetchWorker.close();
   await workers.syncWorker.close();
   await workers.storyRegenWorker.close();
   await workers.postPublishValidationWorker.close();
   await workers.scheduledPagePublishWorker.close();
+  await workers.automationWorker.close();
+  await workers.outboundWebhookWorker.close();
+  await workers.ragVectorReindexWorker.close();
+  await workers.transcriptRechunkWorker.close();
+  await workers.taxonomyRetagWorker.close();
   await queues.processingQueue.close();
   await queues.transcriptFetchQueue.close();
   await queues.syncQueue.close();
   await queues.storyRegenQueue.close();
   await queues.postPublishValidationQueue.close();
   await queues.scheduledPagePublishQueue.close();
+  await queues.automationQueue.close();
+  await queues.outboundWebhookQueue.close();
+  await queues.ragVectorReindexQueue.close();
+  await queues.transcriptRechunkQueue.close();
+  await queues.taxonomyRetagQueue.close();
   await shutdownOtel();
   await prisma.$disconnect();
   process.exit(0);
@@ -0,0 +1,294 @@
+/**
+ * Fireflies Direct Integration Provider
+ *
+ * Connects to the Fireflies GraphQL API to fetch meeting transcripts.
+ *
+ * Auth: Bearer API key
+ * Endpoint: https://api.fireflies.ai/graphql
+ *
+ * Fireflies' API provides:
+ *   - List transcripts since a date (offset pagination, 50 per page)
+ *   - Transcript sentences with speaker names
+ *   - AI summaries
+ *   - Webhook notifications when transcription completes
+ *
+ * @see https://docs.fireflies.ai/
+ */
+
+import type { CallProvider, IntegrationProvider } from "@prisma/client";
+import type {
+  CallRecordingProvider,
+  FirefliesCredentials,
+  NormalizedCall,
+  NormalizedParticipant,
+  NormalizedUtterance,
+  ProviderCredentials,
+  SyncResult,
+} from "./types.js";
+import { OutboundRateLimiter } from "./outbound-rate-limiter.js";
+import { fetchWithTimeout } from "../lib/fetch-with-timeout.js";
+
+// ─── Fireflies API Response Types ───────────────────────────────────────────
+
+interface FirefliesGraphQLResponse<T> {
+  data?: T;
+  errors?: Array<{ message: string; code?: string }>;
+}
+
+interface FirefliesTranscript {
+  id: string;
+  title?: string | null;
+  /** Epoch milliseconds */
+  date?: number | null;
+  /** Minutes */
+  duration?: number | null;
+  transcript_url?: string | null;
+  organizer_email?: string | null;
+  participants?: string[] | null;
+  meeting_attendees?: Array<{
+    displayName?: string | null;
+    email?: string | null;
+    name?: string | null;
+  }> | null;
+  sentences?: Array<{
+    speaker_name?: string | null;
+    text: string;
+    /** Seconds from the start of the meeting */
+    start_time?: number | null;
+    end_time?: number | null;
+  }> | null;
+  summary?: {
+    overview?: string | null;
+    action_items?: string | null;
+  } | null;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+const PAGE_SIZE = 50;
+
+const TRANSCRIPT_FIELDS = `
+  id
+  title
+  date
+  duration
+  transcript_url
+  organizer_email
+  participants
+  meeting_attendees { displayName email name }
+  sentences { speaker_name text start_time end_time }
+  summary { overview action_items }
+`;
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function asFirefliesCredentials(creds: ProviderCredentials): FirefliesCredentials {
+  const c = creds as FirefliesCredentials;
+  if (!c.apiKey) {
+    throw new Error("Invalid Fireflies credentials: missing apiKey");
+  }
+  return c;
+}
+
+function toMs(seconds: number | null | undefined): number | null {
+  return seconds == null ? null : Math.round(seconds * 1000);
+}
+
+/** Consecutive sentences from the same speaker, merged into turns. */
+function extractUtterances(transcript: FirefliesTranscript): NormalizedUtterance[] {
+  const turns: NormalizedUtterance[] = [];
+  for (const sentence of transcript.sentences ?? []) {
+    const text = sentence.text?.trim();
+    if (!text) continue;
+    const speaker = sentence.speaker_name?.trim() || null;
+    const previous = turns[turns.length - 1];
+    if (previous && previous.speaker === speaker) {
+      previous.text = `${previous.text} ${text}`;
+      previous.endMs = toMs(sentence.end_time) ?? previous.endMs;
+    } else {
+      turns.push({
+        speaker,
+        text,
+        startMs: toMs(sentence.start_time),
+        endMs: toMs(sentence.end_time),
+      });
+    }
+  }
+  return turns;
+}
+
+function extractTranscriptText(lines: NormalizedUtterance[]): string | null {
+  if (lines.length === 0) return null;
+  return lines
+    .map((line) => (line.speaker ? `${line.speaker}: ${line.text}` : line.text))
+    .join("\n");
+}
+
+function extractParticipants(transcript: FirefliesTranscript): NormalizedParticipant[] {
+  const organizer = transcript.organizer_email?.toLowerCase() ?? null;
+  const byEmail = new Map<string, NormalizedParticipant>();
+  const unnamed: NormalizedParticipant[] = [];
+
+  for (const attendee of transcript.meeting_attendees ?? []) {
+    const email = attendee.email?.toLowerCase() || null;
+    const participant: NormalizedParticipant = {
+      email,
+      name: attendee.displayName ?? attendee.name ?? null,
+      isHost: !!email && email === organizer,
+    };
+    if (email) {
+      byEmail.set(email, participant);
+    } else if (participant.name) {
+      unnamed.push(participant);
+    }
+  }
+
+  // `participants` lists every invitee email, including those who did not join.
+  for (const raw of [organizer, ...(transcript.participants ?? [])]) {
+    const email = raw?.trim().toLowerCase();
+    if (!email || byEmail.has(email)) continue;
+    byEmail.set(email, { email, name: null, isHost: email === organizer });
+  }
+
+  return [...byEmail.values(), ...unnamed];
+}
+
+function extractOutline(transcript: FirefliesTranscript): string[] {
+  return (transcript.summary?.action_items ?? "")
+    .split("\n")
+    .map((line) => line.replace(/^[-*•\s]+/, "").trim())
+    .filter(Boolean);
+}
+
+// ─── Provider Implementation ────────────────────────────────────────────────
+
+export class FirefliesProvider implements CallRecordingProvider {
+  readonly name: IntegrationProvider = "FIREFLIES";
+  readonly callProvider: CallProvider = "FIREFLIES";
+  private rateLimiter = new OutboundRateLimiter(1, 1, "fireflies");
+
+  private endpoint(creds: FirefliesCredentials): string {
+    return (creds.baseUrl ?? "https://api.fireflies.ai/graphql").replace(/\/$/, "");
+  }
+
+  private async query<T>(
+    creds: FirefliesCredentials,
+    query: string,
+    variables: Record<string, unknown> = {}
+  ): Promise<T> {
+    await this.rateLimiter.acquire();
+    const res = await fetchWithTimeout(this.endpoint(creds), {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${creds.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ query, variables }),
+    });
+
+    if (!res.ok) {
+      const errText = await res.text();
+      throw new Error(`Fireflies API error (${res.status}): ${errText}`);
+    }
+
+    const body = (await res.json()) as FirefliesGraphQLResponse<T>;
+    if (body.errors?.length) {
+      throw new Error(`Fireflies API error: ${body.errors.map((e) => e.message).join("; ")}`);
+    }
+    if (!body.data) {
+      throw new Error("Fireflies API error: empty response");
+    }
+    return body.data;
+  }
+
+  async validateCredentials(credentials: ProviderCredentials): Promise<boolean> {
+    const creds = asFirefliesCredentials(credentials);
+    try {
+      const data = await this.query<{ user: { user_id: string } | null }>(
+        creds,
+        "query { user { user_id } }"
+      );
+      return !!data.user?.user_id;
+    } catch {
+      return false;
+    }
+  }
+
+  async fetchCalls(
+    credentials: ProviderCredentials,
+    cursor: string | null,
+    since: Date | null,
+    _options?: { settings?: Record<string, unknown> | null }
+  ): Promise<SyncResult<NormalizedCall>> {
+    const creds = asFirefliesCredentials(credentials);
+    const skip = cursor ? Number.parseInt(cursor, 10) || 0 : 0;
+
+    const data = await this.query<{ transcripts: FirefliesTranscript[] | null }>(
+      creds,
+      `query Transcripts($fromDate: DateTime, $limit: Int, $skip: Int) {
+        transcripts(fromDate: $fromDate, limit: $limit, skip: $skip) { ${TRANSCRIPT_FIELDS} }
+      }`,
+      {
+        fromDate: since ? since.toISOString() : null,
+        limit: PAGE_SIZE,
+        skip,
+      }
+    );
+
+    const transcripts = data.transcripts ?? [];
+    const hasMore = transcripts.length === PAGE_SIZE;
+    return {
+      data: transcripts.map((transcript) => this.normalize(transcript)),
+      nextCursor: hasMore ? String(skip + transcripts.length) : null,
+      hasMore,
+    };
+  }
+
+  async fetchTranscript(
+    credentials: ProviderCredentials,
+    externalCallId: string
+  ): Promise<string | null> {
+    const call = await this.fetchCall(credentials, externalCallId);
+    return call?.transcript ?? null;
+  }
+
+  async fetchUtterances(
+    credentials: ProviderCredentials,
+    externalCallId: string
+  ): Promise<NormalizedUtterance[] | null> {
+    const call = await this.fetchCall(credentials, externalCallId);
+    return call?.utterances ?? null;
+  }
+
+  /** One transcript with its meeting details, or null if it does not exist. */
+  async fetchCall(
+    credentials: ProviderCredentials,
+    externalCallId: string
+  ): Promise<NormalizedCall | null> {
+    const creds = asFirefliesCredentials(credentials);
+    const data = await this.query<{ transcript: FirefliesTranscript | null }>(
+      creds,
+      `query Transcript($id: String!) { transcript(id: $id) { ${TRANSCRIPT_FIELDS} } }`,
+      { id: externalCallId }
+    );
+    return data.transcript ? this.normalize(data.transcript) : null;
+  }
+
+  // ─── Private ────────────────────────────────────────────────────────────────
+
+  private normalize(transcript: FirefliesTranscript): NormalizedCall {
+    const utterances = extractUtterances(transcript);
+    return {
+      externalId: transcript.id,
+      title: transcript.title ?? null,
+      recordingUrl: transcript.transcript_url ?? null,
+      duration: transcript.duration != null ? Math.round(transcript.duration * 60) : null,
+      occurredAt: transcript.date != null ? new Date(transcript.date) : new Date(),
+      participants: extractParticipants(transcript),
+      transcript: extractTranscriptText(utterances),
+      ...(utterances.length > 0 ? { utterances } : {}),
+      summary: transcript.summary?.overview?.trim() || null,
+      outline: extractOutline(transcript),
+    };
+  }
+}
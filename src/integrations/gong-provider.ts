@@ -10,6 +10,7 @@ import type {
   GongCredentials,
   NormalizedCall,
   NormalizedParticipant,
+  NormalizedUtterance,
   ProviderCredentials,
   SyncResult,
 } from "./types.js";
@@ -117,8 +118,27 @@ interface GongTranscriptEntry {
   }>;
 }
 
+/** A call transcript with its monologues; speakers are raw Gong speaker IDs. */
+interface GongTranscriptData {
+  text: string;
+  utterances: NormalizedUtterance[];
+}
+
 // ─── Provider Implementation ────────────────────────────────────────────────
 
+/** Replaces Gong speaker IDs with party names, or "Speaker {id}" when unknown. */
+function labelGongUtterances(
+  utterances: NormalizedUtterance[],
+  names: Map<string, string>
+): NormalizedUtterance[] {
+  return utterances.map((utterance) => ({
+    ...utterance,
+    speaker: utterance.speaker
+      ? (names.get(utterance.speaker) ?? `Speaker ${utterance.speaker}`)
+      : null,
+  }));
+}
+
 function asGongCredentials(creds: ProviderCredentials): GongCredentials {
   const c = creds as GongCredentials;
   if (!c.accessKey || !c.accessKeySecret) {
@@ -357,7 +377,7 @@ export class GongProvider implements CallRecordingProvider {
       .map((call) => callIdFor(call))
       .filter((id): id is string => Boolean(id));
 
-    const transcriptMap = new Map<string, string>();
+    const transcriptMap = new Map<string, GongTranscriptData>();
     if (callIds.length > 0) {
       const TRANSCRIPT_RETRY_ATTEMPTS = 3;
       const TRANSCRIPT_RETRY_BASE_MS = 1000;
@@ -366,8 +386,8 @@ export class GongProvider implements CallRecordingProvider {
       for (let attempt = 0; attempt < TRANSCRIPT_RETRY_ATTEMPTS; attempt++) {
         try {
           const transcripts = await this.fetchTranscriptsBatch(creds, callIds);
-          for (const [id, text] of transcripts) {
-            transcriptMap.set(id, text);
+          for (const [id, transcript] of transcripts) {
+            transcriptMap.set(id, transcript);
           }
           lastTranscriptErr = null;
           break;
@@ -405,6 +425,12 @@ export class GongProvider implements CallRecordingProvider {
           ? metaData.parties
           : [];
       const accountHints = extractGongCallAccountNames(call);
+      const transcript = transcriptMap.get(callId) ?? null;
+      const speakerNames = new Map<string, string>();
+      for (const party of parties) {
+        const name = party.name ?? party.displayName;
+        if (party.speakerId && name) speakerNames.set(party.speakerId, name);
+      }
 
       normalized.push({
         externalId: callId,
@@ -425,7 +451,10 @@ export class GongProvider implements CallRecordingProvider {
             affiliation: party.affiliation ?? null,
           })
         ),
-        transcript: transcriptMap.get(callId) ?? null,
+        transcript: transcript?.text ?? null,
+        ...(transcript && transcript.utterances.length > 0
+          ? { utterances: labelGongUtterances(transcript.utterances, speakerNames) }
+          : {}),
         accountHints,
         primaryAccountHint: accountHints[0] ?? null,
         summary: extractSummary(call) || null,
@@ -446,7 +475,18 @@ export class GongProvider implements CallRecordingProvider {
   ): Promise<string | null> {
     const creds = asGongCredentials(credentials);
     const map = await this.fetchTranscriptsBatch(creds, [externalCallId]);
-    return map.get(externalCallId) ?? null;
+    return map.get(externalCallId)?.text ?? null;
+  }
+
+  /** Speakers are labelled "Speaker {id}"; party names need the call itself. */
+  async fetchUtterances(
+    credentials: ProviderCredentials,
+    externalCallId: string
+  ): Promise<NormalizedUtterance[] | null> {
+    const creds = asGongCredentials(credentials);
+    const map = await this.fetchTranscriptsBatch(creds, [externalCallId]);
+    const transcript = map.get(externalCallId);
+    return transcript ? labelGongUtterances(transcript.utterances, new Map()) : null;
   }
 
   // ─── Private ──────────────────────────────────────────────────────────────
@@ -538,7 +578,7 @@ export class GongProvider implements CallRecordingProvider {
   private async fetchTranscriptsBatch(
     creds: GongCredentials,
     callIds: string[]
-  ): Promise<Map<string, string>> {
+  ): Promise<Map<string, GongTranscriptData>> {
     await this.rateLimiter.acquire();
     const res = await fetchWithTimeout(`${this.baseUrl(creds)}/v2/calls/transcript`, {
       method: "POST",
@@ -557,7 +597,7 @@ export class GongProvider implements CallRecordingProvider {
     }
 
     const data = (await res.json()) as GongTranscriptResponse;
-    const result = new Map<string, string>();
+    const result = new Map<string, GongTranscriptData>();
 
     for (const row of data.callTranscripts ?? []) {
       const fullText = (row.transcript ?? [])
@@ -572,8 +612,23 @@ export class GongProvider implements CallRecordingProvider {
         .filter(Boolean)
         .join("\n");
 
+      // Each Gong transcript entry is one monologue by a single speaker.
+      const utterances: NormalizedUtterance[] = [];
+      for (const entry of row.transcript ?? []) {
+        const sentences = (entry.sentences ?? []).filter((sentence) =>
+          String(sentence.text ?? "").trim()
+        );
+        if (sentences.length === 0) continue;
+        utterances.push({
+          speaker: entry.speakerId ?? null,
+          text: sentences.map((sentence) => String(sentence.text).trim()).join(" "),
+          startMs: sentences[0].start ?? null,
+          endMs: sentences[sentences.length - 1].end ?? null,
+        });
+      }
+
       if (fullText) {
-        result.set(row.callId, fullText);
+        result.set(row.callId, { text: fullText, utterances });
       }
     }
 
@@ -20,6 +20,7 @@ import type {
   GrainCredentials,
   NormalizedCall,
   NormalizedParticipant,
+  NormalizedUtterance,
   ProviderCredentials,
   SyncResult,
 } from "./types.js";
@@ -59,6 +60,7 @@ interface GrainTranscript {
     speaker?: string;
     speaker_email?: string;
     text: string;
+    /** Seconds from the start of the recording */
     start_time?: number;
     end_time?: number;
   }>;
@@ -146,21 +148,25 @@ export class GrainProvider implements CallRecordingProvider {
 
     const data = (await res.json()) as GrainRecordingsResponse;
 
-    const normalized: NormalizedCall[] = data.recordings.map((rec) => ({
-      externalId: rec.id,
-      title: rec.title ?? null,
-      recordingUrl: rec.url ?? null,
-      duration: rec.duration ?? null,
-      occurredAt: rec.started_at ? new Date(rec.started_at) : new Date(),
-      participants: (rec.participants ?? []).map(
-        (p): NormalizedParticipant => ({
-          email: p.email?.toLowerCase() ?? null,
-          name: p.name ?? null,
-          isHost: p.is_host ?? p.is_organizer ?? false,
-        })
-      ),
-      transcript: this.extractTranscriptText(rec.transcript),
-    }));
+    const normalized: NormalizedCall[] = data.recordings.map((rec) => {
+      const utterances = this.extractUtterances(rec.transcript);
+      return {
+        externalId: rec.id,
+        title: rec.title ?? null,
+        recordingUrl: rec.url ?? null,
+        duration: rec.duration ?? null,
+        occurredAt: rec.started_at ? new Date(rec.started_at) : new Date(),
+        participants: (rec.participants ?? []).map(
+          (p): NormalizedParticipant => ({
+            email: p.email?.toLowerCase() ?? null,
+            name: p.name ?? null,
+            isHost: p.is_host ?? p.is_organizer ?? false,
+          })
+        ),
+        transcript: this.extractTranscriptText(rec.transcript),
+        ...(utterances.length > 0 ? { utterances } : {}),
+      };
+    });
 
     return {
       data: normalized,
@@ -174,6 +180,25 @@ export class GrainProvider implements CallRecordingProvider {
     externalCallId: string
   ): Promise<string | null> {
     const creds = asGrainCredentials(credentials);
+    const detail = await this.fetchRecordingDetail(creds, externalCallId);
+    return detail ? this.extractTranscriptText(detail.recording.transcript) : null;
+  }
+
+  async fetchUtterances(
+    credentials: ProviderCredentials,
+    externalCallId: string
+  ): Promise<NormalizedUtterance[] | null> {
+    const creds = asGrainCredentials(credentials);
+    const detail = await this.fetchRecordingDetail(creds, externalCallId);
+    return detail ? this.extractUtterances(detail.recording.transcript) : null;
+  }
+
+  // ─── Private ────────────────────────────────────────────────────────────────
+
+  private async fetchRecordingDetail(
+    creds: GrainCredentials,
+    externalCallId: string
+  ): Promise<GrainRecordingDetail | null> {
     const base = this.baseUrl(creds);
 
     await this.rateLimiter.acquire();
@@ -193,11 +218,21 @@ export class GrainProvider implements CallRecordingProvider {
       );
     }
 
-    const data = (await res.json()) as GrainRecordingDetail;
-    return this.extractTranscriptText(data.recording.transcript);
+    return (await res.json()) as GrainRecordingDetail;
   }
 
-  // ─── Private ────────────────────────────────────────────────────────────────
+  private extractUtterances(
+    transcript: GrainTranscript | undefined | null
+  ): NormalizedUtterance[] {
+    return (transcript?.segments ?? [])
+      .filter((seg) => seg.text?.trim())
+      .map((seg) => ({
+        speaker: seg.speaker ?? seg.speaker_email ?? null,
+        text: seg.text.trim(),
+        startMs: seg.start_time != null ? Math.round(seg.start_time * 1000) : null,
+        endMs: seg.end_time != null ? Math.round(seg.end_time * 1000) : null,
+      }));
+  }
 
   private extractTranscriptText(
     transcript: GrainTranscript | undefined | null
@@ -0,0 +1,616 @@
+/**
+ * HubSpot Direct Integration Provider (Read-Only)
+ *
+ * Connects to the HubSpot CRM API to read companies, contacts, and deals.
+ * This is a read-only integration — StoryEngine never writes back to HubSpot.
+ *
+ * Auth: OAuth2 (public app with refresh token flow)
+ * Base URL: https://api.hubapi.com
+ *
+ * The first sync walks the object list endpoints. Incremental syncs use the
+ * CRM search API filtered and sorted on the last-modified property. Search
+ * stops paging at 10,000 results, so long runs restart the query from the
+ * last modified timestamp seen.
+ *
+ * Deals are enriched with their dealstage history, company association, and
+ * the pipeline stage labels so stage transitions land on the account
+ * timeline with human-readable names.
+ *
+ * @see https://developers.hubspot.com/docs/api/crm/understanding-the-crm
+ */
+
+import type { IntegrationProvider } from "@prisma/client";
+import type {
+  CRMDataProvider,
+  HubSpotCredentials,
+  NormalizedAccount,
+  NormalizedContact,
+  NormalizedOpportunity,
+  NormalizedStageChange,
+  ProviderCredentials,
+  SyncResult,
+} from "./types.js";
+import { OutboundRateLimiter } from "./outbound-rate-limiter.js";
+import { fetchWithTimeout } from "../lib/fetch-with-timeout.js";
+
+// ─── HubSpot API Response Types ─────────────────────────────────────────────
+
+interface HubSpotObject {
+  id: string;
+  properties: Record<string, string | null | undefined>;
+  propertiesWithHistory?: Record<
+    string,
+    Array<{ value: string; timestamp: string }>
+  >;
+}
+
+interface HubSpotPageResponse {
+  results: HubSpotObject[];
+  paging?: { next?: { after: string } };
+}
+
+interface HubSpotAssociationsResponse {
+  results: Array<{
+    from: { id: string };
+    to: Array<{ toObjectId: number | string }>;
+  }>;
+}
+
+interface HubSpotPipelinesResponse {
+  results: Array<{
+    id: string;
+    label: string;
+    stages: Array<{
+      id: string;
+      label: string;
+      metadata?: { isClosed?: string; probability?: string };
+    }>;
+  }>;
+}
+
+/**
+ * Sync position. `after` is HubSpot's paging token; `modifiedSince` is the
+ * search filter watermark, advanced when a search hits the result cap.
+ * `idAfter` is set while walking records that all share the `modifiedSince`
+ * timestamp, which happens when more of them exist than one search returns.
+ */
+interface HubSpotCursor {
+  after?: string;
+  modifiedSince?: string;
+  idAfter?: string;
+}
+
+type HubSpotObjectType = "companies" | "contacts" | "deals";
+
+interface StageInfo {
+  label: string;
+  status: "OPEN" | "WON" | "LOST";
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+const DEFAULT_BASE_URL = "https://api.hubapi.com";
+const PAGE_SIZE = 100;
+/** HubSpot's search API rejects paging past this many results. */
+const SEARCH_RESULT_CAP = 10_000;
+
+/** Contacts predate the hs_ prefix and expose `lastmodifieddate` instead. */
+const MODIFIED_PROPERTY: Record<HubSpotObjectType, string> = {
+  companies: "hs_lastmodifieddate",
+  contacts: "lastmodifieddate",
+  deals: "hs_lastmodifieddate",
+};
+
+const COMPANY_PROPERTIES = [
+  "name",
+  "domain",
+  "website",
+  "industry",
+  "numberofemployees",
+  "annualrevenue",
+];
+const CONTACT_PROPERTIES = [
+  "email",
+  "firstname",
+  "lastname",
+  "jobtitle",
+  "phone",
+  "associatedcompanyid",
+];
+const DEAL_PROPERTIES = ["dealname", "amount", "dealstage", "pipeline", "closedate"];
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function asHubSpotCredentials(creds: ProviderCredentials): HubSpotCredentials {
+  const c = creds as HubSpotCredentials;
+  if (!c.accessToken) {
+    throw new Error("Invalid HubSpot credentials: missing accessToken");
+  }
+  return c;
+}
+
+function parseCursor(cursor: string | null): HubSpotCursor {
+  if (!cursor) return {};
+  try {
+    const parsed = JSON.parse(cursor) as HubSpotCursor;
+    return typeof parsed === "object" && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Extracts domain from a URL. "https://acme.com/about" → "acme.com"
+ */
+function extractDomainFromUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url.startsWith("http") ? url : `https://${url}`);
+    return parsed.hostname.replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+function toNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/** Stage status for the built-in sales pipeline when metadata is missing. */
+function defaultStageStatus(stageId: string): "OPEN" | "WON" | "LOST" {
+  if (stageId === "closedwon") return "WON";
+  if (stageId === "closedlost") return "LOST";
+  return "OPEN";
+}
+
+// ─── Provider Implementation ────────────────────────────────────────────────
+
+export class HubSpotProvider implements CRMDataProvider {
+  readonly name: IntegrationProvider = "HUBSPOT";
+  private rateLimiter = new OutboundRateLimiter(10, 10, "hubspot");
+  private onTokenRefresh?: (newAccessToken: string) => Promise<void>;
+
+  setTokenRefreshCallback(cb: (newAccessToken: string) => Promise<void>): void {
+    this.onTokenRefresh = cb;
+  }
+
+  private baseUrl(creds: HubSpotCredentials): string {
+    return (creds.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, "");
+  }
+
+  async validateCredentials(credentials: ProviderCredentials): Promise<boolean> {
+    const creds = asHubSpotCredentials(credentials);
+    try {
+      await this.request(creds, "/crm/v3/objects/companies?limit=1");
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async fetchAccounts(
+    credentials: ProviderCredentials,
+    cursor: string | null,
+    since: Date | null
+  ): Promise<SyncResult<NormalizedAccount>> {
+    const creds = asHubSpotCredentials(credentials);
+    const page = await this.fetchPage(creds, "companies", COMPANY_PROPERTIES, cursor, since);
+    return {
+      data: page.records.map((record) => this.normalizeAccount(record)),
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore,
+    };
+  }
+
+  async fetchContacts(
+    credentials: ProviderCredentials,
+    cursor: string | null,
+    since: Date | null
+  ): Promise<SyncResult<NormalizedContact>> {
+    const creds = asHubSpotCredentials(credentials);
+    const page = await this.fetchPage(creds, "contacts", CONTACT_PROPERTIES, cursor, since);
+    return {
+      data: page.records.map((record) => this.normalizeContact(record)),
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore,
+    };
+  }
+
+  async fetchOpportunities(
+    credentials: ProviderCredentials,
+    cursor: string | null,
+    since: Date | null
+  ): Promise<SyncResult<NormalizedOpportunity>> {
+    const creds = asHubSpotCredentials(credentials);
+    const page = await this.fetchPage(creds, "deals", DEAL_PROPERTIES, cursor, since);
+    if (page.records.length === 0) {
+      return { data: [], nextCursor: page.nextCursor, hasMore: page.hasMore };
+    }
+
+    const dealIds = page.records.map((record) => record.id);
+    const [stageHistory, companyByDeal, stages] = await Promise.all([
+      this.fetchStageHistory(creds, dealIds),
+      this.fetchDealCompanies(creds, dealIds),
+      this.fetchStages(creds),
+    ]);
+
+    return {
+      data: page.records.map((record) =>
+        this.normalizeOpportunity(
+          record,
+          stageHistory.get(record.id) ?? [],
+          companyByDeal.get(record.id) ?? null,
+          stages
+        )
+      ),
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore,
+    };
+  }
+
+  // ─── Private: Paging ─────────────────────────────────────────────────────
+
+  /**
+   * Fetches one page of objects. Without a watermark this walks the list
+   * endpoint; with one it runs a search sorted by last-modified ascending.
+   */
+  private async fetchPage(
+    creds: HubSpotCredentials,
+    objectType: HubSpotObjectType,
+    properties: string[],
+    cursor: string | null,
+    since: Date | null
+  ): Promise<{ records: HubSpotObject[]; nextCursor: string | null; hasMore: boolean }> {
+    const position = parseCursor(cursor);
+    const modifiedSince = position.modifiedSince ?? since?.toISOString() ?? null;
+
+    if (!modifiedSince) {
+      const params = new URLSearchParams({
+        limit: String(PAGE_SIZE),
+        properties: properties.join(","),
+        archived: "false",
+      });
+      if (position.after) params.set("after", position.after);
+      const data = await this.request<HubSpotPageResponse>(
+        creds,
+        `/crm/v3/objects/${objectType}?${params.toString()}`
+      );
+      const after = data.paging?.next?.after;
+      return {
+        records: data.results,
+        nextCursor: after ? JSON.stringify({ after }) : null,
+        hasMore: !!after,
+      };
+    }
+
+    const modifiedProperty = MODIFIED_PROPERTY[objectType];
+    if (position.idAfter) {
+      return this.fetchTiedPage(creds, objectType, properties, position, modifiedSince);
+    }
+    const data = await this.request<HubSpotPageResponse>(
+      creds,
+      `/crm/v3/objects/${objectType}/search`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          filterGroups: [
+            {
+              filters: [
+                {
+                  propertyName: modifiedProperty,
+                  operator: "GTE",
+                  value: String(new Date(modifiedSince).getTime()),
+                },
+              ],
+            },
+          ],
+          sorts: [{ propertyName: modifiedProperty, direction: "ASCENDING" }],
+          properties: [...properties, modifiedProperty],
+          limit: PAGE_SIZE,
+          ...(position.after ? { after: position.after } : {}),
+        }),
+      }
+    );
+
+    const after = data.paging?.next?.after;
+    if (!after) {
+      return { records: data.results, nextCursor: null, hasMore: false };
+    }
+    if (Number(after) < SEARCH_RESULT_CAP) {
+      return {
+        records: data.results,
+        nextCursor: JSON.stringify({ after, modifiedSince } satisfies HubSpotCursor),
+        hasMore: true,
+      };
+    }
+
+    // Result cap reached: restart the search from the newest record seen.
+    // GTE re-reads records sharing that timestamp; persistence is idempotent.
+    const last = data.results[data.results.length - 1];
+    const lastModified = toDate(last?.properties[modifiedProperty]);
+    const watermark = lastModified?.toISOString() ?? modifiedSince;
+    if (watermark === modifiedSince) {
+      // Every result shared one timestamp, so restarting would loop. Walk
+      // that timestamp by object ID instead, then continue after it.
+      return {
+        records: data.results,
+        nextCursor: JSON.stringify({ modifiedSince, idAfter: "0" } satisfies HubSpotCursor),
+        hasMore: true,
+      };
+    }
+    return {
+      records: data.results,
+      nextCursor: JSON.stringify({ modifiedSince: watermark } satisfies HubSpotCursor),
+      hasMore: true,
+    };
+  }
+
+  /**
+   * Pages through records modified exactly at `modifiedSince`, ordered by
+   * object ID. Once they are exhausted the search resumes one millisecond
+   * later, the resolution of HubSpot's modified timestamps.
+   */
+  private async fetchTiedPage(
+    creds: HubSpotCredentials,
+    objectType: HubSpotObjectType,
+    properties: string[],
+    position: HubSpotCursor,
+    modifiedSince: string
+  ): Promise<{ records: HubSpotObject[]; nextCursor: string | null; hasMore: boolean }> {
+    const modifiedProperty = MODIFIED_PROPERTY[objectType];
+    const idAfter = position.idAfter ?? "0";
+    const data = await this.request<HubSpotPageResponse>(
+      creds,
+      `/crm/v3/objects/${objectType}/search`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          filterGroups: [
+            {
+              filters: [
+                {
+                  propertyName: modifiedProperty,
+                  operator: "EQ",
+                  value: String(new Date(modifiedSince).getTime()),
+                },
+                { propertyName: "hs_object_id", operator: "GT", value: idAfter },
+              ],
+            },
+          ],
+          sorts: [{ propertyName: "hs_object_id", direction: "ASCENDING" }],
+          properties: [...properties, modifiedProperty],
+          limit: PAGE_SIZE,
+          ...(position.after ? { after: position.after } : {}),
+        }),
+      }
+    );
+
+    const after = data.paging?.next?.after;
+    if (!after) {
+      const next = new Date(new Date(modifiedSince).getTime() + 1).toISOString();
+      return {
+        records: data.results,
+        nextCursor: JSON.stringify({ modifiedSince: next } satisfies HubSpotCursor),
+        hasMore: true,
+      };
+    }
+    if (Number(after) < SEARCH_RESULT_CAP) {
+      return {
+        records: data.results,
+        nextCursor: JSON.stringify({ after, modifiedSince, idAfter } satisfies HubSpotCursor),
+        hasMore: true,
+      };
+    }
+    const last = data.results[data.results.length - 1];
+    return {
+      records: data.results,
+      nextCursor: JSON.stringify({
+        modifiedSince,
+        idAfter: last?.id ?? idAfter,
+      } satisfies HubSpotCursor),
+      hasMore: true,
+    };
+  }
+
+  // ─── Private: Deal Enrichment ────────────────────────────────────────────
+
+  private async fetchStageHistory(
+    creds: HubSpotCredentials,
+    dealIds: string[]
+  ): Promise<Map<string, Array<{ value: string; timestamp: string }>>> {
+    const data = await this.request<HubSpotPageResponse>(
+      creds,
+      "/crm/v3/objects/deals/batch/read",
+      {
+        method: "POST",
+        body: JSON.stringify({
+          inputs: dealIds.map((id) => ({ id })),
+          properties: [],
+          propertiesWithHistory: ["dealstage"],
+        }),
+      }
+    );
+    return new Map(
+      data.results.map((record) => [record.id, record.propertiesWithHistory?.dealstage ?? []])
+    );
+  }
+
+  private async fetchDealCompanies(
+    creds: HubSpotCredentials,
+    dealIds: string[]
+  ): Promise<Map<string, string>> {
+    const data = await this.request<HubSpotAssociationsResponse>(
+      creds,
+      "/crm/v4/associations/deals/companies/batch/read",
+      {
+        method: "POST",
+        body: JSON.stringify({ inputs: dealIds.map((id) => ({ id })) }),
+      }
+    );
+    const companyByDeal = new Map<string, string>();
+    for (const result of data.results) {
+      const first = result.to[0];
+      if (first) companyByDeal.set(result.from.id, String(first.toObjectId));
+    }
+    return companyByDeal;
+  }
+
+  /**
+   * Stage IDs are opaque for custom pipelines, so labels and closed state
+   * come from the pipeline definitions.
+   */
+  private async fetchStages(creds: HubSpotCredentials): Promise<Map<string, StageInfo>> {
+    const data = await this.request<HubSpotPipelinesResponse>(creds, "/crm/v3/pipelines/deals");
+    const stages = new Map<string, StageInfo>();
+    for (const pipeline of data.results) {
+      for (const stage of pipeline.stages) {
+        let status = defaultStageStatus(stage.id);
+        if (stage.metadata?.isClosed === "true") {
+          status = Number(stage.metadata.probability) > 0 ? "WON" : "LOST";
+        }
+        stages.set(stage.id, { label: stage.label, status });
+      }
+    }
+    return stages;
+  }
+
+  // ─── Private: HTTP ───────────────────────────────────────────────────────
+
+  private async request<T>(
+    creds: HubSpotCredentials,
+    path: string,
+    init: { method?: string; body?: string } = {}
+  ): Promise<T> {
+    const url = `${this.baseUrl(creds)}${path}`;
+    const send = async () => {
+      await this.rateLimiter.acquire();
+      return fetchWithTimeout(url, {
+        method: init.method ?? "GET",
+        headers: {
+          Authorization: `Bearer ${creds.accessToken}`,
+          "Content-Type": "application/json",
+        },
+        ...(init.body ? { body: init.body } : {}),
+      });
+    };
+
+    let res = await send();
+    if (res.status === 401) {
+      const newToken = await this.refreshAccessToken(creds);
+      if (!newToken) {
+        throw new Error("HubSpot token refresh failed");
+      }
+      creds.accessToken = newToken;
+      if (this.onTokenRefresh) {
+        await this.onTokenRefresh(newToken);
+      }
+      res = await send();
+    }
+
+    if (!res.ok) {
+      const errText = await res.text();
+      throw new Error(`HubSpot API error (${res.status}): ${errText}`);
+    }
+
+    return (await res.json()) as T;
+  }
+
+  // ─── Private: Token Refresh ──────────────────────────────────────────────
+
+  private async refreshAccessToken(creds: HubSpotCredentials): Promise<string | null> {
+    if (!creds.refreshToken || !creds.clientId || !creds.clientSecret) {
+      return null;
+    }
+
+    try {
+      const body = new URLSearchParams({
+        grant_type: "refresh_token",
+        refresh_token: creds.refreshToken,
+        client_id: creds.clientId,
+        client_secret: creds.clientSecret,
+      });
+
+      const res = await fetchWithTimeout(`${this.baseUrl(creds)}/oauth/v1/token`, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: body.toString(),
+      });
+
+      if (!res.ok) return null;
+
+      const data = (await res.json()) as { access_token: string };
+      return data.access_token;
+    } catch {
+      return null;
+    }
+  }
+
+  // ─── Private: Normalization ──────────────────────────────────────────────
+
+  private normalizeAccount(record: HubSpotObject): NormalizedAccount {
+    const props = record.properties;
+    const domainSource = props.domain || props.website;
+    return {
+      externalId: record.id,
+      name: props.name || domainSource || `HubSpot company ${record.id}`,
+      domain: domainSource ? extractDomainFromUrl(domainSource) : null,
+      industry: props.industry || null,
+      employeeCount: toNumber(props.numberofemployees),
+      annualRevenue: toNumber(props.annualrevenue),
+    };
+  }
+
+  private normalizeContact(record: HubSpotObject): NormalizedContact {
+    const props = record.properties;
+    const name = [props.firstname, props.lastname].filter(Boolean).join(" ").trim();
+    return {
+      externalId: record.id,
+      email: props.email ?? "",
+      name: name || null,
+      title: props.jobtitle || null,
+      phone: props.phone || null,
+      accountExternalId: props.associatedcompanyid || null,
+    };
+  }
+
+  private normalizeOpportunity(
+    record: HubSpotObject,
+    history: Array<{ value: string; timestamp: string }>,
+    companyId: string | null,
+    stages: Map<string, StageInfo>
+  ): NormalizedOpportunity {
+    const props = record.properties;
+    const describe = (stageId: string): StageInfo =>
+      stages.get(stageId) ?? { label: stageId, status: defaultStageStatus(stageId) };
+
+    const current = props.dealstage ? describe(props.dealstage) : null;
+
+    // HubSpot returns property history newest first.
+    const stageHistory: NormalizedStageChange[] = [];
+    for (const entry of [...history].reverse()) {
+      const changedAt = toDate(entry.timestamp);
+      if (!entry.value || !changedAt) continue;
+      const stage = describe(entry.value);
+      if (stageHistory[stageHistory.length - 1]?.stage === stage.label) continue;
+      stageHistory.push({ stage: stage.label, status: stage.status, changedAt });
+    }
+
+    return {
+      externalId: record.id,
+      name: props.dealname || null,
+      amount: toNumber(props.amount),
+      stage: current?.label ?? null,
+      status: current?.status ?? "OPEN",
+      closeDate: toDate(props.closedate),
+      accountExternalId: companyId,
+      ...(stageHistory.length > 0 ? { stageHistory } : {}),
+    };
+  }
+}
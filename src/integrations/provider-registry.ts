@@ -16,7 +16,11 @@ import type {
 } from "./types.js";
 import { GongProvider } from "./gong-provider.js";
 import { GrainProvider } from "./grain-provider.js";
+import { ZoomProvider } from "./zoom-provider.js";
+import { TeamsProvider } from "./teams-provider.js";
+import { FirefliesProvider } from "./fireflies-provider.js";
 import { SalesforceProvider } from "./salesforce-provider.js";
+import { HubSpotProvider } from "./hubspot-provider.js";
 
 /**
  * Build the default provider registry with all available direct integrations.
@@ -37,10 +41,22 @@ export function createProviderRegistry(): ProviderRegistry {
   const grain = new GrainProvider();
   callRecording.set(grain.name, grain);
 
+  const zoom = new ZoomProvider();
+  callRecording.set(zoom.name, zoom);
+
+  const teams = new TeamsProvider();
+  callRecording.set(teams.name, teams);
+
+  const fireflies = new FirefliesProvider();
+  callRecording.set(fireflies.name, fireflies);
+
   // ── CRM Providers ────────────────────────────────────────────────────
   const salesforce = new SalesforceProvider();
   crm.set(salesforce.name, salesforce);
 
+  const hubspot = new HubSpotProvider();
+  crm.set(hubspot.name, hubspot);
+
   // Note: MERGE_DEV is handled separately via its webhook-based flow.
   // It is not registered here because it uses push-based webhooks
   // rather than pull-based sync. When enabled, the existing
@@ -6,8 +6,8 @@ import type {
   NormalizedContact,
   NormalizedOpportunity,
   ProviderCredentials,
+  TokenRefreshingProvider,
 } from "./types.js";
-import type { SalesforceProvider } from "./salesforce-provider.js";
 
 interface MergeConflictInput {
   organizationId: string;
@@ -25,6 +25,20 @@ interface SyncEngineCRMDeps {
   queueMergeConflictReview(input: MergeConflictInput): Promise<void>;
 }
 
+/** Account and Contact column holding the CRM-native record ID. */
+type CRMExternalIdField = "salesforceId" | "hubspotId";
+
+function externalIdField(provider: CRMDataProvider): CRMExternalIdField {
+  return provider.name === "HUBSPOT" ? "hubspotId" : "salesforceId";
+}
+
+function byExternalId<T>(
+  field: CRMExternalIdField,
+  value: T
+): { salesforceId: T } | { hubspotId: T } {
+  return field === "hubspotId" ? { hubspotId: value } : { salesforceId: value };
+}
+
 export async function syncCRMProvider(
   deps: SyncEngineCRMDeps,
   config: IntegrationConfig,
@@ -34,9 +48,9 @@ export async function syncCRMProvider(
   // Wire up token persistence for providers that support refresh
   if (
     "setTokenRefreshCallback" in provider &&
-    typeof (provider as SalesforceProvider).setTokenRefreshCallback === "function"
+    typeof (provider as TokenRefreshingProvider).setTokenRefreshCallback === "function"
   ) {
-    (provider as SalesforceProvider).setTokenRefreshCallback(async (newAccessToken) => {
+    (provider as TokenRefreshingProvider).setTokenRefreshCallback(async (newAccessToken) => {
       const existing = await deps.prisma.integrationConfig.findUnique({
         where: { id: config.id },
       });
@@ -90,7 +104,7 @@ async function syncAccounts(
     const batchSize = 50;
     for (let i = 0; i < result.data.length; i += batchSize) {
       const batch = result.data.slice(i, i + batchSize);
-      await persistAccountBatch(deps, config.organizationId, batch);
+      await persistAccountBatch(deps, config.organizationId, externalIdField(provider), batch);
       total += batch.length;
     }
 
@@ -103,15 +117,16 @@ async function syncAccounts(
 async function persistAccountBatch(
   deps: SyncEngineCRMDeps,
   organizationId: string,
+  idField: CRMExternalIdField,
   accounts: NormalizedAccount[]
 ): Promise<void> {
   const externalIds = accounts.map((account) => account.externalId);
 
   // Batch lookup: find all existing accounts by externalId in one query
   const existingAccounts = await deps.prisma.account.findMany({
-    where: { organizationId, salesforceId: { in: externalIds } },
+    where: { organizationId, ...byExternalId(idField, { in: externalIds }) },
   });
-  const existingByExternalId = new Map(existingAccounts.map((account) => [account.salesforceId, account]));
+  const existingByExternalId = new Map(existingAccounts.map((account) => [account[idField], account]));
 
   const toUpdate: { account: NormalizedAccount; existingId: string }[] = [];
   const toCreate: NormalizedAccount[] = [];
@@ -136,7 +151,7 @@ async function persistAccountBatch(
           { normalizedName: normalized },
           ...(account.domain ? [{ domain: account.domain }] : []),
         ],
-        salesforceId: { not: account.externalId },
+        ...byExternalId(idField, { not: account.externalId }),
       },
     });
 
@@ -149,6 +164,7 @@ async function persistAccountBatch(
           conflict_type: "ACCOUNT_EXTERNAL_ID_COLLISION",
           existing_account_id: potentialConflict.id,
           existing_salesforce_id: potentialConflict.salesforceId,
+          existing_hubspot_id: potentialConflict.hubspotId,
           incoming_external_id: account.externalId,
           incoming_name: account.name,
           incoming_domain: account.domain,
@@ -186,7 +202,7 @@ async function persistAccountBatch(
           name: account.name,
           normalizedName: normalizeCompanyName(account.name),
           domain: account.domain,
-          salesforceId: account.externalId,
+          ...byExternalId(idField, account.externalId),
           industry: account.industry,
           employeeCount: account.employeeCount,
           annualRevenue: account.annualRevenue,
@@ -216,7 +232,7 @@ async function syncContacts(
     const batchSize = 50;
     for (let i = 0; i < result.data.length; i += batchSize) {
       const batch = result.data.slice(i, i + batchSize);
-      await persistContactBatch(deps, config.organizationId, batch);
+      await persistContactBatch(deps, config.organizationId, externalIdField(provider), batch);
       total += batch.length;
     }
 
@@ -229,6 +245,7 @@ async function syncContacts(
 async function persistContactBatch(
   deps: SyncEngineCRMDeps,
   organizationId: string,
+  idField: CRMExternalIdField,
   contacts: NormalizedContact[]
 ): Promise<void> {
   // Filter to contacts with valid emails and domains
@@ -248,7 +265,7 @@ async function persistContactBatch(
   const [accountsByExternalId, accountsByDomain] = await Promise.all([
     accountExternalIds.length > 0
       ? deps.prisma.account.findMany({
-          where: { organizationId, salesforceId: { in: accountExternalIds } },
+          where: { organizationId, ...byExternalId(idField, { in: accountExternalIds }) },
         })
       : Promise.resolve([]),
     deps.prisma.account.findMany({
@@ -256,7 +273,7 @@ async function persistContactBatch(
     }),
   ]);
 
-  const externalIdMap = new Map(accountsByExternalId.map((account) => [account.salesforceId, account]));
+  const externalIdMap = new Map(accountsByExternalId.map((account) => [account[idField], account]));
   const domainMap = new Map(accountsByDomain.map((account) => [account.domain, account]));
 
   // Batch collision detection: find all existing contacts by email across org
@@ -266,7 +283,7 @@ async function persistContactBatch(
       email: { in: allEmails },
       account: { organizationId },
     },
-    select: { id: true, email: true, accountId: true, salesforceId: true },
+    select: { id: true, email: true, accountId: true },
   });
   const existingContactByEmail = new Map(existingContacts.map((contact) => [contact.email, contact]));
 
@@ -277,7 +294,7 @@ async function persistContactBatch(
     name: string | null;
     title: string | null;
     phone: string | null;
-    salesforceId: string | null;
+    externalId: string;
   }> = [];
 
   const toUpsert: Array<{
@@ -287,7 +304,7 @@ async function persistContactBatch(
     name: string | null;
     title: string | null;
     phone: string | null;
-    externalId: string | null;
+    externalId: string;
   }> = [];
 
   for (const { contact, domain } of validContacts) {
@@ -341,7 +358,7 @@ async function persistContactBatch(
         name: contact.name,
         title: contact.title,
         phone: contact.phone,
-        salesforceId: contact.externalId,
+        externalId: contact.externalId,
       });
     }
   }
@@ -362,13 +379,13 @@ async function persistContactBatch(
               name: item.name,
               title: item.title,
               phone: item.phone,
-              salesforceId: item.externalId,
+              ...byExternalId(idField, item.externalId),
             },
             update: {
               name: item.name ?? undefined,
               title: item.title ?? undefined,
               phone: item.phone ?? undefined,
-              salesforceId: item.externalId,
+              ...byExternalId(idField, item.externalId),
             },
           })
         )
@@ -378,7 +395,10 @@ async function persistContactBatch(
     // Batch create new contacts
     if (toCreate.length > 0) {
       await tx.contact.createMany({
-        data: toCreate,
+        data: toCreate.map(({ externalId, ...item }) => ({
+          ...item,
+          ...byExternalId(idField, externalId),
+        })),
         skipDuplicates: true,
       });
     }
@@ -406,7 +426,7 @@ async function syncOpportunities(
       const batch = result.data.slice(i, i + pageConcurrency);
       await Promise.all(
         batch.map((opportunity) =>
-          persistOpportunity(deps, config.organizationId, opportunity)
+          persistOpportunity(deps, config.organizationId, externalIdField(provider), opportunity)
         )
       );
       total += batch.length;
@@ -421,12 +441,13 @@ async function syncOpportunities(
 async function persistOpportunity(
   deps: SyncEngineCRMDeps,
   organizationId: string,
+  idField: CRMExternalIdField,
   opp: NormalizedOpportunity
 ): Promise<void> {
   if (!opp.accountExternalId) return;
 
   const account = await deps.prisma.account.findFirst({
-    where: { organizationId, salesforceId: opp.accountExternalId },
+    where: { organizationId, ...byExternalId(idField, opp.accountExternalId) },
   });
 
   if (!account) return;
@@ -453,41 +474,55 @@ async function persistOpportunity(
     return;
   }
 
-  // Map normalized status to SalesforceEventType
-  let eventType:
-    | "CLOSED_WON"
-    | "CLOSED_LOST"
-    | "OPPORTUNITY_STAGE_CHANGE"
-    | "OPPORTUNITY_CREATED";
-
-  if (opp.status === "WON") {
-    eventType = "CLOSED_WON";
-  } else if (opp.status === "LOST") {
-    eventType = "CLOSED_LOST";
-  } else {
-    eventType = "OPPORTUNITY_STAGE_CHANGE";
-  }
+  // Providers with stage history get one timeline event per stage, dated
+  // when the deal entered it; otherwise only the current stage is recorded.
+  const stages: Array<{
+    stage: string | null;
+    status: NormalizedOpportunity["status"];
+    changedAt?: Date;
+  }> = opp.stageHistory?.length
+    ? opp.stageHistory
+    : [{ stage: opp.stage, status: opp.status }];
 
   // Avoid duplicate events by checking for existing opportunity + stage
-  const existing = await deps.prisma.salesforceEvent.findFirst({
-    where: {
-      accountId: account.id,
-      opportunityId: opp.externalId,
-      stageName: opp.stage,
-    },
+  const existing = await deps.prisma.salesforceEvent.findMany({
+    where: { accountId: account.id, opportunityId: opp.externalId },
+    select: { stageName: true },
   });
+  const recordedStages = new Set(existing.map((event) => event.stageName));
+
+  for (const [index, entry] of stages.entries()) {
+    if (recordedStages.has(entry.stage)) continue; // Already recorded this stage
+    recordedStages.add(entry.stage);
+
+    // Map normalized status to SalesforceEventType
+    let eventType:
+      | "CLOSED_WON"
+      | "CLOSED_LOST"
+      | "OPPORTUNITY_STAGE_CHANGE"
+      | "OPPORTUNITY_CREATED";
+
+    if (entry.status === "WON") {
+      eventType = "CLOSED_WON";
+    } else if (entry.status === "LOST") {
+      eventType = "CLOSED_LOST";
+    } else if (opp.stageHistory?.length && index === 0) {
+      eventType = "OPPORTUNITY_CREATED";
+    } else {
+      eventType = "OPPORTUNITY_STAGE_CHANGE";
+    }
 
-  if (existing) return; // Already recorded this stage
-
-  await deps.prisma.salesforceEvent.create({
-    data: {
-      accountId: account.id,
-      eventType,
-      stageName: opp.stage,
-      opportunityId: opp.externalId,
-      amount: opp.amount,
-      closeDate: opp.closeDate,
-      description: opp.name,
-    },
-  });
+    await deps.prisma.salesforceEvent.create({
+      data: {
+        accountId: account.id,
+        eventType,
+        stageName: entry.stage,
+        opportunityId: opp.externalId,
+        amount: opp.amount,
+        closeDate: opp.closeDate,
+        description: opp.name,
+        ...(entry.changedAt ? { createdAt: entry.changedAt } : {}),
+      },
+    });
+  }
 }
@@ -20,12 +20,16 @@ import { Prisma, type PrismaClient, type IntegrationConfig } from "@prisma/clien
 import type { Queue } from "bullmq";
 import type { ProcessCallJob } from "../services/transcript-processor.js";
 import { enqueueProcessCallJob } from "../lib/queue-policy.js";
+import {
+  dispatchApprovalRequestEvent,
+  tryDispatchOutboundWebhookEvent,
+} from "../services/outbound-webhooks.js";
 import {
   EntityResolver,
   normalizeCompanyName,
   extractEmailDomain,
 } from "../services/entity-resolution.js";
-import { decodeCredentials } from "../types/json-boundaries.js";
+import { decodeCredentials, encodeJsonValue } from "../types/json-boundaries.js";
 import { resolveIntegrationProviderSelection } from "../services/provider-policy.js";
 import logger from "../lib/logger.js";
 import type {
@@ -37,6 +41,7 @@ import type {
 } from "./types.js";
 import { coerceProviderCredentials } from "./types.js";
 import { syncCRMProvider as syncCRMProviderImpl } from "./sync-engine-crm.js";
+import { detectLanguage } from "../lib/language-detection.js";
 
 // ─── Sync Engine ────────────────────────────────────────────────────────────
 
@@ -125,7 +130,7 @@ export class SyncEngine {
     });
     if (!owner) return;
 
-    await this.prisma.approvalRequest.create({
+    const request = await this.prisma.approvalRequest.create({
       data: {
         organizationId: input.organizationId,
         requestType: "DATA_MERGE_CONFLICT",
@@ -136,6 +141,7 @@ export class SyncEngine {
         requestPayload: input.requestPayload as Prisma.InputJsonValue,
       },
     });
+    await dispatchApprovalRequestEvent(this.prisma, request);
   }
 
   private async startIntegrationRun(input: {
@@ -323,13 +329,27 @@ export class SyncEngine {
       return started.run.id;
     } catch (err) {
       failureCount = Math.max(1, processedCount - successCount);
+      const errorMessage = err instanceof Error ? err.message : "Unknown sync error";
       await this.finishIntegrationRun({
         runId: started.run.id,
         status: "FAILED",
         processedCount,
         successCount,
         failureCount,
-        errorMessage: err instanceof Error ? err.message : "Unknown sync error",
+        errorMessage,
+      });
+      await tryDispatchOutboundWebhookEvent(this.prisma, {
+        organizationId: config.organizationId,
+        eventType: "integration_sync_failed",
+        payload: {
+          integration_run_id: started.run.id,
+          integration_config_id: config.id,
+          provider: config.provider,
+          run_type: runType,
+          processed_count: processedCount,
+          failure_count: failureCount,
+          error: errorMessage,
+        },
       });
       throw err;
     }
@@ -561,6 +581,10 @@ export class SyncEngine {
             callId: call.id,
             fullText: normalizedCall.transcript,
             wordCount: normalizedCall.transcript.split(/\s+/).length,
+            language: detectLanguage(normalizedCall.transcript),
+            ...(normalizedCall.utterances?.length
+              ? { utterances: encodeJsonValue(normalizedCall.utterances) }
+              : {}),
           },
         });
         hasTranscript = true;
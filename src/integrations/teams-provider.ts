@@ -0,0 +1,345 @@
+/**
+ * Microsoft Teams Direct Integration Provider
+ *
+ * Connects to Microsoft Graph to fetch Teams meeting transcripts.
+ *
+ * Auth: OAuth2 client credentials against the customer's Entra ID tenant
+ * Base URL: https://graph.microsoft.com/v1.0
+ *
+ * Graph's API provides:
+ *   - All transcripts of meetings organized by a user (getAllTranscripts)
+ *   - Transcript content as WebVTT with speaker voice tags
+ *   - Online meeting details (subject, organizer, attendees)
+ *   - Change notifications when a new transcript is available
+ *
+ * Graph has no tenant-wide transcript listing, so polling walks the
+ * organizers listed in `settings.teams_organizer_user_ids`. Without them the
+ * integration relies on change notifications alone.
+ *
+ * A Teams call's external ID is "{organizerId}:{meetingId}:{transcriptId}"
+ * because every Graph transcript URL needs all three.
+ *
+ * @see https://learn.microsoft.com/graph/api/resources/calltranscript
+ */
+
+import type { CallProvider, IntegrationProvider } from "@prisma/client";
+import type {
+  CallRecordingProvider,
+  NormalizedCall,
+  NormalizedParticipant,
+  NormalizedUtterance,
+  ProviderCredentials,
+  SyncResult,
+  TeamsCredentials,
+} from "./types.js";
+import { OutboundRateLimiter } from "./outbound-rate-limiter.js";
+import { vttSpeakers, vttToTranscriptText, vttToUtterances } from "./vtt-transcript.js";
+import { fetchWithTimeout } from "../lib/fetch-with-timeout.js";
+
+// ─── Graph API Response Types ───────────────────────────────────────────────
+
+interface GraphTokenResponse {
+  access_token: string;
+  expires_in: number; // seconds
+}
+
+interface GraphTranscriptList {
+  value?: GraphTranscript[];
+  "@odata.nextLink"?: string;
+}
+
+interface GraphTranscript {
+  id: string;
+  meetingId: string;
+  createdDateTime?: string;
+  endDateTime?: string;
+  meetingOrganizer?: { user?: { id?: string } };
+}
+
+interface GraphMeetingParticipant {
+  upn?: string;
+  identity?: { user?: { id?: string; displayName?: string } };
+}
+
+interface GraphOnlineMeeting {
+  id: string;
+  subject?: string;
+  startDateTime?: string;
+  endDateTime?: string;
+  joinWebUrl?: string;
+  participants?: {
+    organizer?: GraphMeetingParticipant;
+    attendees?: GraphMeetingParticipant[];
+  };
+}
+
+/** Sync position: index into the organizer list plus Graph's next link. */
+interface TeamsCursor {
+  organizer: number;
+  nextLink?: string;
+}
+
+export interface TeamsTranscriptRef {
+  organizerId: string;
+  meetingId: string;
+  transcriptId: string;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** How far back the first sync reaches when there is no lastSyncAt. */
+const INITIAL_LOOKBACK_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function asTeamsCredentials(creds: ProviderCredentials): TeamsCredentials {
+  const c = creds as TeamsCredentials;
+  if (!c.tenantId || !c.clientId || !c.clientSecret) {
+    throw new Error("Invalid Teams credentials: missing tenantId, clientId or clientSecret");
+  }
+  return c;
+}
+
+function organizersFromSettings(settings: Record<string, unknown> | null | undefined): string[] {
+  const rows = settings?.teams_organizer_user_ids;
+  if (!Array.isArray(rows)) return [];
+  return rows.filter((row): row is string => typeof row === "string" && row.trim().length > 0);
+}
+
+function parseCursor(cursor: string | null): TeamsCursor | null {
+  if (!cursor) return null;
+  try {
+    const parsed = JSON.parse(cursor) as Partial<TeamsCursor>;
+    return typeof parsed.organizer === "number"
+      ? { organizer: parsed.organizer, nextLink: parsed.nextLink }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function teamsTranscriptExternalId(ref: TeamsTranscriptRef): string {
+  return `${ref.organizerId}:${ref.meetingId}:${ref.transcriptId}`;
+}
+
+export function parseTeamsTranscriptExternalId(externalId: string): TeamsTranscriptRef | null {
+  const [organizerId, meetingId, transcriptId, ...rest] = externalId.split(":");
+  if (!organizerId || !meetingId || !transcriptId || rest.length > 0) return null;
+  return { organizerId, meetingId, transcriptId };
+}
+
+function toParticipant(
+  participant: GraphMeetingParticipant,
+  isHost: boolean
+): NormalizedParticipant {
+  return {
+    email: participant.upn?.toLowerCase() ?? null,
+    name: participant.identity?.user?.displayName ?? null,
+    isHost,
+  };
+}
+
+// ─── Provider Implementation ────────────────────────────────────────────────
+
+export class TeamsProvider implements CallRecordingProvider {
+  readonly name: IntegrationProvider = "TEAMS";
+  readonly callProvider: CallProvider = "TEAMS";
+  private rateLimiter = new OutboundRateLimiter(10, 10, "teams");
+  private tokens = new Map<string, { accessToken: string; expiresAt: number }>();
+
+  private baseUrl(creds: TeamsCredentials): string {
+    return (creds.baseUrl ?? "https://graph.microsoft.com/v1.0").replace(/\/$/, "");
+  }
+
+  private async accessToken(creds: TeamsCredentials): Promise<string> {
+    const key = `${creds.tenantId}:${creds.clientId}`;
+    const cached = this.tokens.get(key);
+    if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return cached.accessToken;
+    }
+
+    const res = await fetchWithTimeout(
+      `https://login.microsoftonline.com/${encodeURIComponent(creds.tenantId)}/oauth2/v2.0/token`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({
+          client_id: creds.clientId,
+          client_secret: creds.clientSecret,
+          scope: "https://graph.microsoft.com/.default",
+          grant_type: "client_credentials",
+        }).toString(),
+      }
+    );
+    if (!res.ok) {
+      const errText = await res.text();
+      throw new Error(`Microsoft identity platform error (${res.status}): ${errText}`);
+    }
+
+    const data = (await res.json()) as GraphTokenResponse;
+    this.tokens.set(key, {
+      accessToken: data.access_token,
+      expiresAt: Date.now() + data.expires_in * 1000,
+    });
+    return data.access_token;
+  }
+
+  private async get(creds: TeamsCredentials, url: string): Promise<Response> {
+    const token = await this.accessToken(creds);
+    await this.rateLimiter.acquire();
+    return fetchWithTimeout(url, {
+      method: "GET",
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  }
+
+  /**
+   * Graph exposes no cheap app-only probe that every tenant grants, so a
+   * successful client-credentials token exchange is the validation.
+   */
+  async validateCredentials(credentials: ProviderCredentials): Promise<boolean> {
+    const creds = asTeamsCredentials(credentials);
+    try {
+      await this.accessToken(creds);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async fetchCalls(
+    credentials: ProviderCredentials,
+    cursor: string | null,
+    since: Date | null,
+    options?: { settings?: Record<string, unknown> | null }
+  ): Promise<SyncResult<NormalizedCall>> {
+    const creds = asTeamsCredentials(credentials);
+    const organizers = organizersFromSettings(options?.settings ?? null);
+    const position = parseCursor(cursor) ?? { organizer: 0 };
+    const organizerId = organizers[position.organizer];
+    if (!organizerId) {
+      return { data: [], nextCursor: null, hasMore: false };
+    }
+
+    const start = since ?? new Date(Date.now() - INITIAL_LOOKBACK_DAYS * DAY_MS);
+    const url =
+      position.nextLink ??
+      `${this.baseUrl(creds)}/users/${encodeURIComponent(organizerId)}/onlineMeetings/getAllTranscripts(meetingOrganizerUserId='${encodeURIComponent(organizerId)}',startDateTime=${start.toISOString()})`;
+
+    const res = await this.get(creds, url);
+    if (!res.ok) {
+      const errText = await res.text();
+      throw new Error(`Microsoft Graph error (${res.status}): ${errText}`);
+    }
+
+    const data = (await res.json()) as GraphTranscriptList;
+    const normalized: NormalizedCall[] = [];
+    for (const transcript of data.value ?? []) {
+      const call = await this.fetchCall(creds, {
+        organizerId: transcript.meetingOrganizer?.user?.id ?? organizerId,
+        meetingId: transcript.meetingId,
+        transcriptId: transcript.id,
+      });
+      if (call) normalized.push(call);
+    }
+
+    let next: TeamsCursor | null = null;
+    if (data["@odata.nextLink"]) {
+      next = { organizer: position.organizer, nextLink: data["@odata.nextLink"] };
+    } else if (position.organizer + 1 < organizers.length) {
+      next = { organizer: position.organizer + 1 };
+    }
+
+    return {
+      data: normalized,
+      nextCursor: next ? JSON.stringify(next) : null,
+      hasMore: next !== null,
+    };
+  }
+
+  async fetchTranscript(
+    credentials: ProviderCredentials,
+    externalCallId: string
+  ): Promise<string | null> {
+    const ref = parseTeamsTranscriptExternalId(externalCallId);
+    if (!ref) return null;
+    const vtt = await this.downloadTranscript(asTeamsCredentials(credentials), ref);
+    return vtt ? vttToTranscriptText(vtt) : null;
+  }
+
+  async fetchUtterances(
+    credentials: ProviderCredentials,
+    externalCallId: string
+  ): Promise<NormalizedUtterance[] | null> {
+    const ref = parseTeamsTranscriptExternalId(externalCallId);
+    if (!ref) return null;
+    const vtt = await this.downloadTranscript(asTeamsCredentials(credentials), ref);
+    return vtt ? vttToUtterances(vtt) : null;
+  }
+
+  /** One transcript with its meeting details, or null if it no longer exists. */
+  async fetchCall(
+    credentials: ProviderCredentials,
+    ref: TeamsTranscriptRef
+  ): Promise<NormalizedCall | null> {
+    const creds = asTeamsCredentials(credentials);
+    const vtt = await this.downloadTranscript(creds, ref);
+    if (vtt === null) return null;
+
+    const res = await this.get(
+      creds,
+      `${this.baseUrl(creds)}/users/${encodeURIComponent(ref.organizerId)}/onlineMeetings/${encodeURIComponent(ref.meetingId)}`
+    );
+    const meeting = res.ok ? ((await res.json()) as GraphOnlineMeeting) : null;
+
+    const participants: NormalizedParticipant[] = [];
+    if (meeting?.participants?.organizer) {
+      participants.push(toParticipant(meeting.participants.organizer, true));
+    }
+    for (const attendee of meeting?.participants?.attendees ?? []) {
+      participants.push(toParticipant(attendee, false));
+    }
+    if (participants.length === 0) {
+      participants.push(
+        ...vttSpeakers(vtt).map((name): NormalizedParticipant => ({ email: null, name, isHost: false }))
+      );
+    }
+
+    const startedAt = meeting?.startDateTime ? new Date(meeting.startDateTime) : null;
+    const endedAt = meeting?.endDateTime ? new Date(meeting.endDateTime) : null;
+
+    return {
+      externalId: teamsTranscriptExternalId(ref),
+      title: meeting?.subject ?? null,
+      recordingUrl: meeting?.joinWebUrl ?? null,
+      duration:
+        startedAt && endedAt
+          ? Math.max(0, Math.round((endedAt.getTime() - startedAt.getTime()) / 1000))
+          : null,
+      occurredAt: startedAt ?? new Date(),
+      participants,
+      transcript: vttToTranscriptText(vtt),
+      utterances: vttToUtterances(vtt),
+    };
+  }
+
+  // ─── Private ────────────────────────────────────────────────────────────────
+
+  private async downloadTranscript(
+    creds: TeamsCredentials,
+    ref: TeamsTranscriptRef
+  ): Promise<string | null> {
+    const res = await this.get(
+      creds,
+      `${this.baseUrl(creds)}/users/${encodeURIComponent(ref.organizerId)}/onlineMeetings/${encodeURIComponent(ref.meetingId)}/transcripts/${encodeURIComponent(ref.transcriptId)}/content?$format=text/vtt`
+    );
+    if (!res.ok) {
+      if (res.status === 404) return null;
+      const errText = await res.text();
+      throw new Error(`Microsoft Graph transcript error (${res.status}): ${errText}`);
+    }
+    return res.text();
+  }
+}
@@ -2,13 +2,15 @@
  * Integration Provider Abstraction Layer
  *
  * Defines the common interfaces that all call-recording and CRM providers
- * must implement. This lets the sync engine treat Grain, Gong, Salesforce,
- * and future providers uniformly while each provider handles its own API
- * specifics internally.
+ * must implement. This lets the sync engine treat Grain, Gong, Zoom, Teams,
+ * Fireflies, Salesforce, HubSpot, and future providers uniformly while each
+ * provider handles its own API specifics internally.
  *
  * The abstraction has two sides:
- *   - CallRecordingProvider: ingests calls + transcripts (Grain, Gong)
- *   - CRMProvider: ingests accounts, contacts, opportunities (Salesforce)
+ *   - CallRecordingProvider: ingests calls + transcripts (Grain, Gong, Zoom,
+ *     Microsoft Teams, Fireflies)
+ *   - CRMProvider: ingests accounts, contacts, opportunities (Salesforce,
+ *     HubSpot)
  *
  * Merge.dev remains available as a "universal" provider behind a feature
  * flag — it implements both interfaces via its unified API.
@@ -33,6 +35,30 @@ export interface GrainCredentials {
   baseUrl?: string;
 }
 
+export interface ZoomCredentials {
+  /** Server-to-Server OAuth app credentials */
+  accountId: string;
+  clientId: string;
+  clientSecret: string;
+  /** Zoom API base URL — defaults to https://api.zoom.us/v2 */
+  baseUrl?: string;
+}
+
+export interface TeamsCredentials {
+  /** Entra ID app registration with OnlineMeetingTranscript.Read.All */
+  tenantId: string;
+  clientId: string;
+  clientSecret: string;
+  /** Microsoft Graph base URL — defaults to https://graph.microsoft.com/v1.0 */
+  baseUrl?: string;
+}
+
+export interface FirefliesCredentials {
+  apiKey: string;
+  /** Fireflies GraphQL endpoint — defaults to https://api.fireflies.ai/graphql */
+  baseUrl?: string;
+}
+
 export interface SalesforceCredentials {
   instanceUrl: string; // e.g., "https://yourorg.my.salesforce.com"
   accessToken: string;
@@ -41,6 +67,16 @@ export interface SalesforceCredentials {
   clientSecret: string;
 }
 
+export interface HubSpotCredentials {
+  /** OAuth app credentials; access tokens expire after 30 minutes */
+  accessToken: string;
+  refreshToken: string;
+  clientId: string;
+  clientSecret: string;
+  /** HubSpot API base URL — defaults to https://api.hubapi.com */
+  baseUrl?: string;
+}
+
 export interface MergeDevCredentials {
   apiKey: string;
   accountToken: string;
@@ -50,7 +86,11 @@ export interface MergeDevCredentials {
 export type ProviderCredentials =
   | GongCredentials
   | GrainCredentials
+  | ZoomCredentials
+  | TeamsCredentials
+  | FirefliesCredentials
   | SalesforceCredentials
+  | HubSpotCredentials
   | MergeDevCredentials;
 
 function isNonEmptyString(value: unknown): value is string {
@@ -75,6 +115,32 @@ export function toProviderCredentials(
     };
   }
 
+  if (
+    isNonEmptyString(value.accountId) &&
+    isNonEmptyString(value.clientId) &&
+    isNonEmptyString(value.clientSecret)
+  ) {
+    return {
+      accountId: value.accountId,
+      clientId: value.clientId,
+      clientSecret: value.clientSecret,
+      ...(isNonEmptyString(value.baseUrl) ? { baseUrl: value.baseUrl } : {}),
+    };
+  }
+
+  if (
+    isNonEmptyString(value.tenantId) &&
+    isNonEmptyString(value.clientId) &&
+    isNonEmptyString(value.clientSecret)
+  ) {
+    return {
+      tenantId: value.tenantId,
+      clientId: value.clientId,
+      clientSecret: value.clientSecret,
+      ...(isNonEmptyString(value.baseUrl) ? { baseUrl: value.baseUrl } : {}),
+    };
+  }
+
   if (
     isNonEmptyString(value.instanceUrl) &&
     isNonEmptyString(value.accessToken) &&
@@ -91,6 +157,22 @@ export function toProviderCredentials(
     };
   }
 
+  // HubSpot is the Salesforce OAuth shape without an instance URL.
+  if (
+    isNonEmptyString(value.accessToken) &&
+    isNonEmptyString(value.refreshToken) &&
+    isNonEmptyString(value.clientId) &&
+    isNonEmptyString(value.clientSecret)
+  ) {
+    return {
+      accessToken: value.accessToken,
+      refreshToken: value.refreshToken,
+      clientId: value.clientId,
+      clientSecret: value.clientSecret,
+      ...(isNonEmptyString(value.baseUrl) ? { baseUrl: value.baseUrl } : {}),
+    };
+  }
+
   if (
     isNonEmptyString(value.apiKey) &&
     isNonEmptyString(value.accountToken) &&
@@ -103,6 +185,15 @@ export function toProviderCredentials(
     };
   }
 
+  // Fireflies only needs an API key; checked after Merge.dev, whose
+  // credentials also carry `apiKey`.
+  if (isNonEmptyString(value.apiKey)) {
+    return {
+      apiKey: value.apiKey,
+      ...(isNonEmptyString(value.baseUrl) ? { baseUrl: value.baseUrl } : {}),
+    };
+  }
+
   throw new Error("Invalid provider credentials shape");
 }
 
@@ -127,6 +218,11 @@ export interface NormalizedCall {
   participants: NormalizedParticipant[];
   /** Full transcript text, if available inline */
   transcript: string | null;
+  /**
+   * Speaker turns with timings, when the provider exposes them. Stored on
+   * the transcript so chunking can keep turns intact and cite timestamps.
+   */
+  utterances?: NormalizedUtterance[];
   /** Provider-derived account candidates (highest-confidence first). */
   accountHints?: string[];
   primaryAccountHint?: string | null;
@@ -135,6 +231,14 @@ export interface NormalizedCall {
   outline?: string[];
 }
 
+export interface NormalizedUtterance {
+  speaker: string | null;
+  text: string;
+  /** Offset from the start of the call, in milliseconds */
+  startMs: number | null;
+  endMs: number | null;
+}
+
 export interface NormalizedParticipant {
   email: string | null;
   name: string | null;
@@ -172,6 +276,18 @@ export interface NormalizedOpportunity {
   closeDate: Date | null;
   /** The external ID of the account this opportunity belongs to */
   accountExternalId: string | null;
+  /**
+   * Every stage the opportunity has been in, oldest first. Providers that
+   * expose stage history set this so each transition becomes its own
+   * timeline event; otherwise only the current stage is recorded.
+   */
+  stageHistory?: NormalizedStageChange[];
+}
+
+export interface NormalizedStageChange {
+  stage: string;
+  status: "OPEN" | "WON" | "LOST";
+  changedAt: Date;
 }
 
 // ─── Provider Interfaces ────────────────────────────────────────────────────
@@ -220,10 +336,19 @@ export interface CallRecordingProvider {
     credentials: ProviderCredentials,
     externalCallId: string
   ): Promise<string | null>;
+
+  /**
+   * Fetch speaker turns with timings for a call. Used to backfill
+   * utterances for transcripts ingested before they were stored.
+   */
+  fetchUtterances?(
+    credentials: ProviderCredentials,
+    externalCallId: string
+  ): Promise<NormalizedUtterance[] | null>;
 }
 
 /**
- * Interface for CRM providers (Salesforce, etc.)
+ * Interface for CRM providers (Salesforce, HubSpot, etc.)
  *
  * Read-only: fetches accounts, contacts, and opportunities for entity
  * resolution and opportunity tracking. Never writes back to the CRM.
@@ -252,6 +377,14 @@ export interface CRMDataProvider {
   ): Promise<SyncResult<NormalizedOpportunity>>;
 }
 
+/**
+ * Implemented by OAuth-based CRM providers that refresh expired access
+ * tokens mid-sync. The sync engine persists the new token via the callback.
+ */
+export interface TokenRefreshingProvider {
+  setTokenRefreshCallback(cb: (newAccessToken: string) => Promise<void>): void;
+}
+
 // ─── Provider Registry Types ────────────────────────────────────────────────
 
 /**
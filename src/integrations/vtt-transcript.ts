@@ -0,0 +1,125 @@
+/**
+ * WebVTT Transcript Parsing
+ *
+ * Zoom cloud recordings and Microsoft Teams meetings both deliver
+ * transcripts as WebVTT. Zoom prefixes each cue with "Speaker: ", Teams
+ * wraps it in a `<v Speaker>` voice tag. Both are flattened into the
+ * "Speaker: text" lines the rest of the pipeline expects, merging
+ * consecutive cues from the same speaker. The same merge, with cue timings,
+ * yields the speaker turns used for chunking.
+ */
+
+import type { NormalizedUtterance } from "./types.js";
+
+export interface VttCue {
+  speaker: string | null;
+  text: string;
+  /** Cue start in seconds */
+  startSeconds: number | null;
+  /** Cue end in seconds */
+  endSeconds: number | null;
+}
+
+const TIMING_LINE = /^(\S+)\s+-->\s+(\S+)/;
+const VOICE_TAG = /^<v(?:\.[^\s>]+)*\s+([^>]+)>([\s\S]*?)(?:<\/v>)?$/;
+const SPEAKER_PREFIX = /^([^:]{1,80}):\s+([\s\S]+)$/;
+
+function parseTimestamp(value: string): number | null {
+  const match = value.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, hours, minutes, seconds, millis] = match;
+  return (
+    Number(hours ?? 0) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    Number((millis ?? "0").padEnd(3, "0")) / 1000
+  );
+}
+
+function stripTags(text: string): string {
+  return text.replace(/<[^>]+>/g, "").trim();
+}
+
+export function parseVttCues(vtt: string): VttCue[] {
+  const cues: VttCue[] = [];
+  const blocks = vtt.replace(/\r\n?/g, "\n").split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split("\n").map((line) => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line));
+    if (timingIndex === -1) continue;
+
+    const raw = lines.slice(timingIndex + 1).join(" ").trim();
+    if (!raw) continue;
+
+    const timing = lines[timingIndex].match(TIMING_LINE);
+    const startSeconds = timing ? parseTimestamp(timing[1]) : null;
+    const endSeconds = timing ? parseTimestamp(timing[2]) : null;
+
+    const voice = raw.match(VOICE_TAG);
+    if (voice) {
+      const text = stripTags(voice[2]);
+      if (text) cues.push({ speaker: voice[1].trim(), text, startSeconds, endSeconds });
+      continue;
+    }
+
+    const text = stripTags(raw);
+    const prefixed = text.match(SPEAKER_PREFIX);
+    if (prefixed) {
+      cues.push({
+        speaker: prefixed[1].trim(),
+        text: prefixed[2].trim(),
+        startSeconds,
+        endSeconds,
+      });
+    } else if (text) {
+      cues.push({ speaker: null, text, startSeconds, endSeconds });
+    }
+  }
+
+  return cues;
+}
+
+function toMs(seconds: number | null): number | null {
+  return seconds === null ? null : Math.round(seconds * 1000);
+}
+
+/** Speaker turns: consecutive cues from the same speaker, with timings. */
+export function vttToUtterances(vtt: string): NormalizedUtterance[] {
+  const turns: NormalizedUtterance[] = [];
+  for (const cue of parseVttCues(vtt)) {
+    const previous = turns[turns.length - 1];
+    if (previous && previous.speaker === cue.speaker) {
+      previous.text = `${previous.text} ${cue.text}`;
+      previous.endMs = toMs(cue.endSeconds) ?? previous.endMs;
+    } else {
+      turns.push({
+        speaker: cue.speaker,
+        text: cue.text,
+        startMs: toMs(cue.startSeconds),
+        endMs: toMs(cue.endSeconds),
+      });
+    }
+  }
+  return turns;
+}
+
+/** Flattens a WebVTT document to "Speaker: text" lines, or null if empty. */
+export function vttToTranscriptText(vtt: string): string | null {
+  const lines = vttToUtterances(vtt);
+  if (lines.length === 0) return null;
+  return lines
+    .map((line) => (line.speaker ? `${line.speaker}: ${line.text}` : line.text))
+    .join("\n");
+}
+
+/** Distinct speaker names in order of first appearance. */
+export function vttSpeakers(vtt: string): string[] {
+  const speakers: string[] = [];
+  for (const cue of parseVttCues(vtt)) {
+    if (cue.speaker && !speakers.includes(cue.speaker)) {
+      speakers.push(cue.speaker);
+    }
+  }
+  return speakers;
+}
@@ -0,0 +1,379 @@
+/**
+ * Zoom Direct Integration Provider
+ *
+ * Connects to the Zoom API to fetch cloud recordings and their transcripts.
+ *
+ * Auth: Server-to-Server OAuth (account_credentials grant)
+ * Base URL: https://api.zoom.us/v2
+ *
+ * Zoom's API provides:
+ *   - List cloud recordings for the account (date windows of at most a month)
+ *   - Recording files, including a WebVTT audio transcript
+ *   - Past meeting participants
+ *   - Webhook notifications when recordings and transcripts complete
+ *
+ * @see https://developers.zoom.us/docs/api/rest/reference/zoom-api/methods/#tag/Cloud-Recording
+ */
+
+import type { CallProvider, IntegrationProvider } from "@prisma/client";
+import type {
+  CallRecordingProvider,
+  NormalizedCall,
+  NormalizedParticipant,
+  NormalizedUtterance,
+  ProviderCredentials,
+  SyncResult,
+  ZoomCredentials,
+} from "./types.js";
+import { OutboundRateLimiter } from "./outbound-rate-limiter.js";
+import { vttSpeakers, vttToTranscriptText, vttToUtterances } from "./vtt-transcript.js";
+import { fetchWithTimeout } from "../lib/fetch-with-timeout.js";
+
+// ─── Zoom API Response Types ────────────────────────────────────────────────
+
+interface ZoomTokenResponse {
+  access_token: string;
+  expires_in: number; // seconds
+}
+
+interface ZoomRecordingsResponse {
+  meetings?: ZoomMeeting[];
+  next_page_token?: string;
+}
+
+interface ZoomMeeting {
+  uuid: string;
+  id?: number;
+  topic?: string;
+  start_time?: string; // ISO 8601
+  duration?: number; // minutes
+  share_url?: string;
+  host_email?: string;
+  recording_files?: ZoomRecordingFile[];
+}
+
+interface ZoomRecordingFile {
+  id?: string;
+  file_type?: string;
+  recording_type?: string;
+  download_url?: string;
+  status?: string;
+}
+
+interface ZoomParticipantsResponse {
+  participants?: Array<{
+    id?: string;
+    name?: string;
+    user_email?: string;
+  }>;
+}
+
+/** Sync position: the start of the current date window plus Zoom's page token. */
+interface ZoomCursor {
+  from: string;
+  pageToken?: string;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Zoom rejects recording list ranges longer than one month. */
+const WINDOW_DAYS = 30;
+/** How far back the first sync reaches when there is no lastSyncAt. */
+const INITIAL_LOOKBACK_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function asZoomCredentials(creds: ProviderCredentials): ZoomCredentials {
+  const c = creds as ZoomCredentials;
+  if (!c.accountId || !c.clientId || !c.clientSecret) {
+    throw new Error("Invalid Zoom credentials: missing accountId, clientId or clientSecret");
+  }
+  return c;
+}
+
+function toZoomDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseCursor(cursor: string | null): ZoomCursor | null {
+  if (!cursor) return null;
+  try {
+    const parsed = JSON.parse(cursor) as Partial<ZoomCursor>;
+    return typeof parsed.from === "string" ? { from: parsed.from, pageToken: parsed.pageToken } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Meeting UUIDs that start with "/" or contain "//" must be double-encoded
+ * in URL paths.
+ */
+export function encodeZoomMeetingUuid(uuid: string): string {
+  const once = encodeURIComponent(uuid);
+  return uuid.startsWith("/") || uuid.includes("//") ? encodeURIComponent(once) : once;
+}
+
+function transcriptFile(meeting: ZoomMeeting): ZoomRecordingFile | null {
+  return (
+    meeting.recording_files?.find(
+      (file) =>
+        (file.file_type === "TRANSCRIPT" || file.recording_type === "audio_transcript") &&
+        !!file.download_url &&
+        (file.status === undefined || file.status === "completed")
+    ) ?? null
+  );
+}
+
+function recordingUrl(meeting: ZoomMeeting): string | null {
+  if (meeting.share_url) return meeting.share_url;
+  const video = meeting.recording_files?.find((file) => file.file_type === "MP4");
+  return video?.download_url ?? null;
+}
+
+// ─── Provider Implementation ────────────────────────────────────────────────
+
+export class ZoomProvider implements CallRecordingProvider {
+  readonly name: IntegrationProvider = "ZOOM";
+  readonly callProvider: CallProvider = "ZOOM";
+  private rateLimiter = new OutboundRateLimiter(10, 10, "zoom");
+  private tokens = new Map<string, { accessToken: string; expiresAt: number }>();
+
+  private baseUrl(creds: ZoomCredentials): string {
+    return (creds.baseUrl ?? "https://api.zoom.us/v2").replace(/\/$/, "");
+  }
+
+  private async accessToken(creds: ZoomCredentials): Promise<string> {
+    const key = `${creds.accountId}:${creds.clientId}`;
+    const cached = this.tokens.get(key);
+    if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return cached.accessToken;
+    }
+
+    const params = new URLSearchParams({
+      grant_type: "account_credentials",
+      account_id: creds.accountId,
+    });
+    const basic = Buffer.from(`${creds.clientId}:${creds.clientSecret}`).toString("base64");
+    const res = await fetchWithTimeout(`https://zoom.us/oauth/token?${params.toString()}`, {
+      method: "POST",
+      headers: { Authorization: `Basic ${basic}` },
+    });
+    if (!res.ok) {
+      const errText = await res.text();
+      throw new Error(`Zoom OAuth error (${res.status}): ${errText}`);
+    }
+
+    const data = (await res.json()) as ZoomTokenResponse;
+    this.tokens.set(key, {
+      accessToken: data.access_token,
+      expiresAt: Date.now() + data.expires_in * 1000,
+    });
+    return data.access_token;
+  }
+
+  private async get(creds: ZoomCredentials, url: string): Promise<Response> {
+    const token = await this.accessToken(creds);
+    await this.rateLimiter.acquire();
+    return fetchWithTimeout(url, {
+      method: "GET",
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  }
+
+  async validateCredentials(credentials: ProviderCredentials): Promise<boolean> {
+    const creds = asZoomCredentials(credentials);
+    try {
+      const res = await this.get(creds, `${this.baseUrl(creds)}/users/me`);
+      return res.status === 200;
+    } catch {
+      return false;
+    }
+  }
+
+  async fetchCalls(
+    credentials: ProviderCredentials,
+    cursor: string | null,
+    since: Date | null,
+    _options?: { settings?: Record<string, unknown> | null }
+  ): Promise<SyncResult<NormalizedCall>> {
+    const creds = asZoomCredentials(credentials);
+    const now = new Date();
+    const position = parseCursor(cursor) ?? {
+      from: (since ?? new Date(now.getTime() - INITIAL_LOOKBACK_DAYS * DAY_MS)).toISOString(),
+    };
+    const windowStart = new Date(position.from);
+    const windowEnd = new Date(Math.min(windowStart.getTime() + WINDOW_DAYS * DAY_MS, now.getTime()));
+
+    const params = new URLSearchParams();
+    params.set("from", toZoomDate(windowStart));
+    params.set("to", toZoomDate(windowEnd));
+    params.set("page_size", "30");
+    if (position.pageToken) {
+      params.set("next_page_token", position.pageToken);
+    }
+
+    const res = await this.get(
+      creds,
+      `${this.baseUrl(creds)}/accounts/me/recordings?${params.toString()}`
+    );
+    if (!res.ok) {
+      const errText = await res.text();
+      throw new Error(`Zoom API error (${res.status}): ${errText}`);
+    }
+
+    const data = (await res.json()) as ZoomRecordingsResponse;
+    const normalized: NormalizedCall[] = [];
+    for (const meeting of data.meetings ?? []) {
+      normalized.push(await this.normalizeMeeting(creds, meeting));
+    }
+
+    let next: ZoomCursor | null = null;
+    if (data.next_page_token) {
+      next = { from: position.from, pageToken: data.next_page_token };
+    } else if (windowEnd.getTime() < now.getTime()) {
+      next = { from: windowEnd.toISOString() };
+    }
+
+    return {
+      data: normalized,
+      nextCursor: next ? JSON.stringify(next) : null,
+      hasMore: next !== null,
+    };
+  }
+
+  async fetchTranscript(
+    credentials: ProviderCredentials,
+    externalCallId: string
+  ): Promise<string | null> {
+    const creds = asZoomCredentials(credentials);
+    const meeting = await this.fetchMeeting(creds, externalCallId);
+    if (!meeting) return null;
+    const vtt = await this.downloadTranscript(creds, meeting);
+    return vtt ? vttToTranscriptText(vtt) : null;
+  }
+
+  async fetchUtterances(
+    credentials: ProviderCredentials,
+    externalCallId: string
+  ): Promise<NormalizedUtterance[] | null> {
+    const creds = asZoomCredentials(credentials);
+    const meeting = await this.fetchMeeting(creds, externalCallId);
+    if (!meeting) return null;
+    const vtt = await this.downloadTranscript(creds, meeting);
+    return vtt ? vttToUtterances(vtt) : null;
+  }
+
+  /** One meeting instance with its recording details, or null if it has none. */
+  async fetchCall(
+    credentials: ProviderCredentials,
+    meetingUuid: string
+  ): Promise<NormalizedCall | null> {
+    const creds = asZoomCredentials(credentials);
+    const meeting = await this.fetchMeeting(creds, meetingUuid);
+    return meeting ? this.normalizeMeeting(creds, meeting) : null;
+  }
+
+  // ─── Private ────────────────────────────────────────────────────────────────
+
+  private async fetchMeeting(
+    creds: ZoomCredentials,
+    meetingUuid: string
+  ): Promise<ZoomMeeting | null> {
+    const res = await this.get(
+      creds,
+      `${this.baseUrl(creds)}/meetings/${encodeZoomMeetingUuid(meetingUuid)}/recordings`
+    );
+    if (!res.ok) {
+      if (res.status === 404) return null;
+      const errText = await res.text();
+      throw new Error(`Zoom recording API error (${res.status}): ${errText}`);
+    }
+    return (await res.json()) as ZoomMeeting;
+  }
+
+  private async normalizeMeeting(
+    creds: ZoomCredentials,
+    meeting: ZoomMeeting
+  ): Promise<NormalizedCall> {
+    const vtt = await this.downloadTranscript(creds, meeting);
+    return {
+      externalId: meeting.uuid,
+      title: meeting.topic ?? null,
+      recordingUrl: recordingUrl(meeting),
+      duration: meeting.duration != null ? meeting.duration * 60 : null,
+      occurredAt: meeting.start_time ? new Date(meeting.start_time) : new Date(),
+      participants: await this.fetchParticipants(creds, meeting, vtt),
+      transcript: vtt ? vttToTranscriptText(vtt) : null,
+      ...(vtt ? { utterances: vttToUtterances(vtt) } : {}),
+    };
+  }
+
+  private async downloadTranscript(
+    creds: ZoomCredentials,
+    meeting: ZoomMeeting
+  ): Promise<string | null> {
+    const file = transcriptFile(meeting);
+    if (!file?.download_url) return null;
+
+    const res = await this.get(creds, file.download_url);
+    if (!res.ok) {
+      if (res.status === 404) return null;
+      const errText = await res.text();
+      throw new Error(`Zoom transcript download error (${res.status}): ${errText}`);
+    }
+    return res.text();
+  }
+
+  /**
+   * Past-meeting participants need a paid plan and report scopes; without
+   * them, fall back to the host plus the speakers named in the transcript.
+   */
+  private async fetchParticipants(
+    creds: ZoomCredentials,
+    meeting: ZoomMeeting,
+    vtt: string | null
+  ): Promise<NormalizedParticipant[]> {
+    const hostEmail = meeting.host_email?.toLowerCase() ?? null;
+    const host: NormalizedParticipant[] = hostEmail
+      ? [{ email: hostEmail, name: null, isHost: true }]
+      : [];
+
+    try {
+      const res = await this.get(
+        creds,
+        `${this.baseUrl(creds)}/past_meetings/${encodeZoomMeetingUuid(meeting.uuid)}/participants?page_size=300`
+      );
+      if (res.ok) {
+        const data = (await res.json()) as ZoomParticipantsResponse;
+        const seen = new Set<string>();
+        const participants: NormalizedParticipant[] = [];
+        for (const p of data.participants ?? []) {
+          const email = p.user_email?.toLowerCase() || null;
+          const key = email ?? p.name ?? p.id ?? "";
+          if (!key || seen.has(key)) continue;
+          seen.add(key);
+          participants.push({
+            email,
+            name: p.name ?? null,
+            isHost: !!email && email === hostEmail,
+          });
+        }
+        if (participants.length > 0) {
+          if (hostEmail && !seen.has(hostEmail)) participants.unshift(host[0]);
+          return participants;
+        }
+      }
+    } catch {
+      // Fall through to the transcript speakers.
+    }
+
+    const speakers = vtt ? vttSpeakers(vtt) : [];
+    return [
+      ...host,
+      ...speakers.map((name): NormalizedParticipant => ({ email: null, name, isHost: false })),
+    ];
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * In-process domain event hub.
+ *
+ * Business events (story generated, page published, ...) are announced here
+ * so that consumers such as the automation engine can react without the
+ * emitting route knowing about them. Listeners must not throw; a failing
+ * listener is logged and never blocks the emitter.
+ */
+
+import { EventEmitter } from "node:events";
+import logger from "./logger.js";
+
+export interface DomainEvent {
+  organizationId: string;
+  eventType: string;
+  occurredAt: string;
+  payload: Record<string, unknown>;
+}
+
+type DomainEventListener = (event: DomainEvent) => void | Promise<void>;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(50);
+
+export function emitDomainEvent(
+  input: Omit<DomainEvent, "occurredAt"> & { occurredAt?: string }
+): void {
+  const event: DomainEvent = {
+    ...input,
+    occurredAt: input.occurredAt ?? new Date().toISOString(),
+  };
+  emitter.emit("event", event);
+}
+
+/**
+ * Subscribes to every domain event. Returns an unsubscribe function.
+ */
+export function onDomainEvent(listener: DomainEventListener): () => void {
+  const wrapped = (event: DomainEvent) => {
+    try {
+      const result = listener(event);
+      if (result && typeof result.catch === "function") {
+        result.catch((err: unknown) => {
+          logger.error("Domain event listener failed", {
+            eventType: event.eventType,
+            error: err instanceof Error ? err.message : String(err),
+          });
+        });
+      }
+    } catch (err) {
+      logger.error("Domain event listener failed", {
+        eventType: event.eventType,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
+  emitter.on("event", wrapped);
+  return () => {
+    emitter.off("event", wrapped);
+  };
+}
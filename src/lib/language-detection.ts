@@ -0,0 +1,106 @@
+/**
+ * Transcript Language Detection
+ *
+ * Identifies the spoken language of a transcript so PII masking, tagging
+ * and story generation can adapt. Detection is local and deterministic:
+ * it scores the text against high-frequency function words for each
+ * supported language, plus a few language-specific characters, and falls
+ * back to English when nothing scores clearly.
+ */
+
+// ─── Supported Languages ─────────────────────────────────────────────────────
+
+export const SUPPORTED_LANGUAGES = ["en", "de", "fr", "es"] as const;
+
+export type SupportedLanguage = (typeof SUPPORTED_LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: SupportedLanguage = "en";
+
+export const LANGUAGE_NAMES: Record<SupportedLanguage, string> = {
+  en: "English",
+  de: "German",
+  fr: "French",
+  es: "Spanish",
+};
+
+/**
+ * Reduces a language tag ("de-DE", "FR", "es_419") to a supported ISO 639-1
+ * code, or null when the language is not supported.
+ */
+export function normalizeLanguageCode(value: string | null | undefined): SupportedLanguage | null {
+  const base = (value ?? "").trim().toLowerCase().split(/[-_]/)[0];
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(base)
+    ? (base as SupportedLanguage)
+    : null;
+}
+
+// ─── Detection ───────────────────────────────────────────────────────────────
+
+/** Only the opening of long transcripts is scored. */
+const SAMPLE_CHARS = 20_000;
+
+/** A language must match at least this many function words to win. */
+const MIN_SCORE = 3;
+
+const STOPWORDS: Record<SupportedLanguage, ReadonlySet<string>> = {
+  en: new Set([
+    "the", "and", "is", "are", "was", "were", "that", "this", "with", "for",
+    "you", "have", "not", "but", "what", "they", "we", "our", "of", "to",
+    "it's", "don't", "would", "there", "which", "about", "because", "just",
+  ]),
+  de: new Set([
+    "der", "die", "das", "und", "ist", "nicht", "ich", "wir", "sie", "mit",
+    "auf", "für", "ein", "eine", "einen", "dass", "auch", "wie", "aber",
+    "noch", "haben", "sind", "wird", "werden", "uns", "unser", "oder", "schon",
+  ]),
+  fr: new Set([
+    "le", "la", "les", "et", "est", "une", "des", "pour", "dans", "pas",
+    "nous", "vous", "que", "qui", "avec", "sur", "mais", "c'est", "aussi",
+    "très", "sont", "être", "avons", "notre", "cette", "du", "au", "je",
+  ]),
+  es: new Set([
+    "el", "los", "las", "y", "es", "una", "del", "para", "con", "por",
+    "pero", "que", "nosotros", "está", "están", "muy", "también", "como",
+    "más", "nuestro", "nuestra", "este", "esta", "hemos", "tenemos", "lo", "yo",
+  ]),
+};
+
+const CHARACTER_HINTS: Array<{ language: SupportedLanguage; regex: RegExp }> = [
+  { language: "de", regex: /[ßäöü]/g },
+  { language: "fr", regex: /[çèêëàâîôœ]/g },
+  { language: "es", regex: /[ñ¿¡]/g },
+];
+
+/**
+ * Detects the language of `text`, returning an ISO 639-1 code. Ambiguous
+ * or very short text is treated as English.
+ */
+export function detectLanguage(text: string): SupportedLanguage {
+  const sample = text.slice(0, SAMPLE_CHARS).toLowerCase();
+  const scores = new Map<SupportedLanguage, number>(
+    SUPPORTED_LANGUAGES.map((language) => [language, 0])
+  );
+
+  for (const match of sample.matchAll(/[\p{L}']+/gu)) {
+    const word = match[0];
+    for (const language of SUPPORTED_LANGUAGES) {
+      if (STOPWORDS[language].has(word)) {
+        scores.set(language, (scores.get(language) ?? 0) + 1);
+      }
+    }
+  }
+  for (const hint of CHARACTER_HINTS) {
+    const hits = sample.match(hint.regex)?.length ?? 0;
+    scores.set(hint.language, (scores.get(hint.language) ?? 0) + hits * 0.5);
+  }
+
+  let best: SupportedLanguage = DEFAULT_LANGUAGE;
+  let bestScore = 0;
+  for (const [language, score] of scores) {
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+    }
+  }
+  return bestScore >= MIN_SCORE ? best : DEFAULT_LANGUAGE;
+}
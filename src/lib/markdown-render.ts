@@ -0,0 +1,456 @@
+/**
+ * Markdown Renderers
+ *
+ * Output formats for the AST produced by markdown.ts:
+ *   - `renderMarkdownHtml` — public pages, editor preview and the page PDF
+ *   - `renderMarkdownSlack` — Slack mrkdwn for the page Slack export
+ *   - `markdownToTextBlocks` — styled runs for PDF, DOCX and Google Doc
+ *     exports, which lay out their own paragraphs
+ *
+ * Source-call citations are rendered as "Source call, 12:34" unless the
+ * caller asks for call ids, which only internal exports do.
+ */
+
+import { escapeHtml } from "./html-utils.js";
+import {
+  formatCitationTimestamp,
+  inlineToPlainText,
+  parseMarkdown,
+  type CalloutVariant,
+  type MarkdownBlock,
+  type MarkdownDocument,
+  type MarkdownFootnote,
+  type MarkdownInline,
+  type SourceCallCitation,
+} from "./markdown.js";
+
+export interface MarkdownRenderOptions {
+  /** Include raw call ids in source citations. Never set for public output. */
+  showCallIds?: boolean;
+}
+
+export const CALLOUT_VARIANT_LABELS: Record<CalloutVariant, string> = {
+  metric: "Key metric",
+  quote: "Quote",
+  insight: "Insight",
+  timeline: "Timeline",
+  warning: "Warning",
+  success: "Success",
+};
+
+function toDocument(markdown: string | MarkdownDocument): MarkdownDocument {
+  return typeof markdown === "string" ? parseMarkdown(markdown) : markdown;
+}
+
+export function citationLabel(source: SourceCallCitation, options: MarkdownRenderOptions = {}): string {
+  const call = options.showCallIds ? `Source call ${source.callId}` : "Source call";
+  return source.timestampMs === null
+    ? call
+    : `${call}, ${formatCitationTimestamp(source.timestampMs)}`;
+}
+
+// ─── HTML ────────────────────────────────────────────────────────────────────
+
+function inlineHtml(nodes: MarkdownInline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return escapeHtml(node.value);
+        case "code":
+          return `<code>${escapeHtml(node.value)}</code>`;
+        case "strong":
+          return `<strong>${inlineHtml(node.children)}</strong>`;
+        case "emphasis":
+          return `<em>${inlineHtml(node.children)}</em>`;
+        case "break":
+          return "<br>";
+        case "footnoteRef":
+          return `<sup class="footnote-ref"><a href="#fn-${node.index}" id="fnref-${node.index}">${node.index}</a></sup>`;
+        case "link": {
+          const title = node.title ? ` title="${escapeHtml(node.title)}"` : "";
+          const external = /^https?:/i.test(node.href)
+            ? ' target="_blank" rel="noopener noreferrer nofollow"'
+            : "";
+          return `<a href="${escapeHtml(node.href)}"${title}${external}>${inlineHtml(node.children)}</a>`;
+        }
+      }
+    })
+    .join("");
+}
+
+function blocksHtml(blocks: MarkdownBlock[], tight = false): string {
+  return blocks.map((block) => blockHtml(block, tight)).join("\n");
+}
+
+function blockHtml(block: MarkdownBlock, tight: boolean): string {
+  switch (block.type) {
+    case "heading":
+      return `<h${block.depth}>${inlineHtml(block.children)}</h${block.depth}>`;
+    case "paragraph":
+      return tight ? inlineHtml(block.children) : `<p>${inlineHtml(block.children)}</p>`;
+    case "thematicBreak":
+      return "<hr>";
+    case "code": {
+      const lang = block.lang ? ` class="language-${escapeHtml(block.lang)}"` : "";
+      return `<pre><code${lang}>${escapeHtml(block.value)}</code></pre>`;
+    }
+    case "blockquote":
+      return `<blockquote>${blocksHtml(block.children)}</blockquote>`;
+    case "list": {
+      const tag = block.ordered ? "ol" : "ul";
+      const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : "";
+      const items = block.items
+        .map((item) => `<li>${blocksHtml(item.children, block.tight)}</li>`)
+        .join("");
+      return `<${tag}${start}>${items}</${tag}>`;
+    }
+    case "table": {
+      const alignAttr = (index: number) =>
+        block.align[index] ? ` style="text-align: ${block.align[index]}"` : "";
+      const header = block.header
+        .map((cell, index) => `<th scope="col"${alignAttr(index)}>${inlineHtml(cell)}</th>`)
+        .join("");
+      const rows = block.rows
+        .map(
+          (row) =>
+            `<tr>${row.map((cell, index) => `<td${alignAttr(index)}>${inlineHtml(cell)}</td>`).join("")}</tr>`
+        )
+        .join("");
+      return `<table><thead><tr>${header}</tr></thead>${rows ? `<tbody>${rows}</tbody>` : ""}</table>`;
+    }
+    case "callout": {
+      const title = inlineToPlainText(block.title);
+      const label = CALLOUT_VARIANT_LABELS[block.variant];
+      const heading = block.title.length > 0
+        ? `<p class="md-callout__title">${inlineHtml(block.title)}</p>`
+        : "";
+      return `<aside class="md-callout md-callout--${block.variant}" role="note" aria-label="${escapeHtml(title ? `${label}: ${title}` : label)}">${heading}${blocksHtml(block.children)}</aside>`;
+    }
+    case "quote": {
+      const caption = block.attribution.length > 0
+        ? `<figcaption>${inlineHtml(block.attribution)}</figcaption>`
+        : "";
+      return `<figure class="md-quote"><blockquote>${blocksHtml(block.children)}</blockquote>${caption}</figure>`;
+    }
+  }
+}
+
+function footnotesHtml(footnotes: MarkdownFootnote[], options: MarkdownRenderOptions): string {
+  if (footnotes.length === 0) return "";
+  const items = footnotes
+    .map((note) => {
+      const text = inlineHtml(note.children);
+      const source = note.source
+        ? `<span class="footnote-source">${escapeHtml(citationLabel(note.source, options))}</span>`
+        : "";
+      const body = [text, source].filter(Boolean).join(" ");
+      return `<li id="fn-${note.index}">${body} <a href="#fnref-${note.index}" class="footnote-back" aria-label="Back to reference ${note.index}">↩</a></li>`;
+    })
+    .join("");
+  return `<section class="footnotes" aria-label="Sources"><ol>${items}</ol></section>`;
+}
+
+/** Renders markdown to HTML. All text is escaped and links are policy-checked. */
+export function renderMarkdownHtml(
+  markdown: string | MarkdownDocument,
+  options: MarkdownRenderOptions = {}
+): string {
+  const doc = toDocument(markdown);
+  return blocksHtml(doc.children) + footnotesHtml(doc.footnotes, options);
+}
+
+// ─── Slack mrkdwn ────────────────────────────────────────────────────────────
+
+const SLACK_CALLOUT_EMOJI: Record<CalloutVariant, string> = {
+  metric: ":chart_with_upwards_trend:",
+  quote: ":speech_balloon:",
+  insight: ":bulb:",
+  timeline: ":clock3:",
+  warning: ":warning:",
+  success: ":white_check_mark:",
+};
+
+function slackEscape(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function inlineSlack(nodes: MarkdownInline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return slackEscape(node.value);
+        case "code":
+          return `\`${slackEscape(node.value.replace(/`/g, "'"))}\``;
+        case "strong":
+          return `*${inlineSlack(node.children)}*`;
+        case "emphasis":
+          return `_${inlineSlack(node.children)}_`;
+        case "break":
+          return "\n";
+        case "footnoteRef":
+          return `[${node.index}]`;
+        case "link":
+          return `<${node.href.replace(/[<>|]/g, encodeURIComponent)}|${slackEscape(inlineToPlainText(node.children)).replace(/\|/g, "¦")}>`;
+      }
+    })
+    .join("");
+}
+
+function blocksSlack(blocks: MarkdownBlock[], depth = 0): string[] {
+  const indent = "    ".repeat(depth);
+  const out: string[] = [];
+  // Lists indent their own markers; everything else is indented here.
+  const push = (text: string) => out.push(text.split("\n").map((line) => indent + line).join("\n"));
+  for (const block of blocks) {
+    switch (block.type) {
+      case "heading":
+        push(`*${inlineSlack(block.children)}*`);
+        break;
+      case "paragraph":
+        push(inlineSlack(block.children));
+        break;
+      case "thematicBreak":
+        push("───");
+        break;
+      case "code":
+        push("```\n" + block.value.replace(/```/g, "'''") + "\n```");
+        break;
+      case "blockquote":
+      case "quote": {
+        const lines = blocksSlack(block.children).join("\n").split("\n");
+        if (block.type === "quote" && block.attribution.length > 0) {
+          lines.push(`— ${inlineSlack(block.attribution)}`);
+        }
+        push(lines.map((line) => `> ${line}`).join("\n"));
+        break;
+      }
+      case "callout": {
+        const title = block.title.length > 0 ? ` *${inlineSlack(block.title)}*` : "";
+        push(`${SLACK_CALLOUT_EMOJI[block.variant]}${title}\n${blocksSlack(block.children).join("\n")}`.trimEnd());
+        break;
+      }
+      case "list": {
+        const lines: string[] = [];
+        block.items.forEach((item, index) => {
+          const marker = block.ordered ? `${block.start + index}.` : "•";
+          const [first, ...rest] = item.children;
+          const head = first?.type === "paragraph" ? inlineSlack(first.children) : "";
+          const nested = first?.type === "paragraph" ? rest : item.children;
+          lines.push(`${indent}${marker} ${head}`.trimEnd());
+          lines.push(...blocksSlack(nested, depth + 1));
+        });
+        out.push(lines.join("\n"));
+        break;
+      }
+      case "table":
+        push(
+          [block.header, ...block.rows]
+            .map((row, index) => {
+              const text = row.map((cell) => inlineSlack(cell)).join(" | ");
+              return index === 0 ? `*${text}*` : text;
+            })
+            .join("\n")
+        );
+        break;
+    }
+  }
+  return out;
+}
+
+/**
+ * Renders markdown as Slack mrkdwn. With `maxLength` the text is cut at a
+ * block boundary when possible and marked with an ellipsis.
+ */
+export function renderMarkdownSlack(
+  markdown: string | MarkdownDocument,
+  options: MarkdownRenderOptions & { maxLength?: number } = {}
+): string {
+  const doc = toDocument(markdown);
+  const parts = blocksSlack(doc.children);
+  if (doc.footnotes.length > 0) {
+    parts.push(
+      doc.footnotes
+        .map((note) => {
+          const text = [inlineSlack(note.children), note.source ? citationLabel(note.source, options) : ""]
+            .filter(Boolean)
+            .join(" — ");
+          return `[${note.index}] ${text}`;
+        })
+        .join("\n")
+    );
+  }
+
+  const full = parts.join("\n\n");
+  const max = options.maxLength;
+  if (max === undefined || full.length <= max) return full;
+
+  let cut = "";
+  for (const part of parts) {
+    const next = cut ? `${cut}\n\n${part}` : part;
+    if (next.length > max) break;
+    cut = next;
+  }
+  if (!cut) {
+    cut = full.slice(0, max).replace(/\s+\S*$/, "");
+  }
+  return `${cut}...`;
+}
+
+// ─── Text Blocks (PDF, DOCX, Google Doc) ─────────────────────────────────────
+
+export interface TextRun {
+  /** May contain "\n" for hard line breaks within the block. */
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  superscript?: boolean;
+  href?: string;
+}
+
+export type TextBlock =
+  | { kind: "heading"; level: number; runs: TextRun[] }
+  | { kind: "paragraph"; indent: number; runs: TextRun[] }
+  | { kind: "listItem"; indent: number; marker: string; runs: TextRun[] }
+  | { kind: "quote"; indent: number; runs: TextRun[] }
+  | { kind: "calloutTitle"; variant: CalloutVariant; runs: TextRun[] }
+  | { kind: "callout"; variant: CalloutVariant; runs: TextRun[] }
+  | { kind: "code"; text: string }
+  | { kind: "table"; header: TextRun[][]; rows: TextRun[][][] }
+  | { kind: "rule" }
+  | { kind: "footnote"; marker: string; runs: TextRun[] };
+
+type RunStyle = Omit<TextRun, "text">;
+
+function inlineRuns(nodes: MarkdownInline[], style: RunStyle = {}): TextRun[] {
+  const runs: TextRun[] = [];
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        runs.push({ ...style, text: node.value });
+        break;
+      case "code":
+        runs.push({ ...style, code: true, text: node.value });
+        break;
+      case "break":
+        runs.push({ ...style, text: "\n" });
+        break;
+      case "footnoteRef":
+        runs.push({ ...style, superscript: true, text: `[${node.index}]` });
+        break;
+      case "strong":
+        runs.push(...inlineRuns(node.children, { ...style, bold: true }));
+        break;
+      case "emphasis":
+        runs.push(...inlineRuns(node.children, { ...style, italic: true }));
+        break;
+      case "link":
+        runs.push(...inlineRuns(node.children, { ...style, href: node.href }));
+        break;
+    }
+  }
+  return runs;
+}
+
+interface FlattenContext {
+  indent: number;
+  /** Paragraphs inside a quote or callout take that block's kind. */
+  container: { kind: "quote" } | { kind: "callout"; variant: CalloutVariant } | null;
+}
+
+function flattenBlocks(blocks: MarkdownBlock[], ctx: FlattenContext, out: TextBlock[]): void {
+  const paragraph = (runs: TextRun[]): TextBlock => {
+    if (ctx.container?.kind === "quote") return { kind: "quote", indent: ctx.indent, runs };
+    if (ctx.container?.kind === "callout") {
+      return { kind: "callout", variant: ctx.container.variant, runs };
+    }
+    return { kind: "paragraph", indent: ctx.indent, runs };
+  };
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case "heading":
+        out.push({ kind: "heading", level: block.depth, runs: inlineRuns(block.children) });
+        break;
+      case "paragraph":
+        out.push(paragraph(inlineRuns(block.children)));
+        break;
+      case "thematicBreak":
+        out.push({ kind: "rule" });
+        break;
+      case "code":
+        out.push({ kind: "code", text: block.value });
+        break;
+      case "table":
+        out.push({
+          kind: "table",
+          header: block.header.map((cell) => inlineRuns(cell)),
+          rows: block.rows.map((row) => row.map((cell) => inlineRuns(cell))),
+        });
+        break;
+      case "blockquote":
+        flattenBlocks(block.children, { ...ctx, container: { kind: "quote" } }, out);
+        break;
+      case "quote":
+        flattenBlocks(block.children, { ...ctx, container: { kind: "quote" } }, out);
+        if (block.attribution.length > 0) {
+          out.push({
+            kind: "quote",
+            indent: ctx.indent,
+            runs: [{ text: "— " }, ...inlineRuns(block.attribution)],
+          });
+        }
+        break;
+      case "callout":
+        out.push({
+          kind: "calloutTitle",
+          variant: block.variant,
+          runs: inlineRuns(block.title, { bold: true }),
+        });
+        flattenBlocks(block.children, { ...ctx, container: { kind: "callout", variant: block.variant } }, out);
+        break;
+      case "list":
+        block.items.forEach((item, index) => {
+          const marker = block.ordered ? `${block.start + index}.` : "•";
+          const [first, ...rest] = item.children;
+          const leading = first?.type === "paragraph";
+          out.push({
+            kind: "listItem",
+            indent: ctx.indent,
+            marker,
+            runs: leading ? inlineRuns(first.children) : [],
+          });
+          flattenBlocks(leading ? rest : item.children, { ...ctx, indent: ctx.indent + 1 }, out);
+        });
+        break;
+    }
+  }
+}
+
+/**
+ * Flattens markdown into styled blocks for exporters that build their own
+ * document model. Footnotes come last, one block each.
+ */
+export function markdownToTextBlocks(
+  markdown: string | MarkdownDocument,
+  options: MarkdownRenderOptions = {}
+): TextBlock[] {
+  const doc = toDocument(markdown);
+  const out: TextBlock[] = [];
+  flattenBlocks(doc.children, { indent: 0, container: null }, out);
+  for (const note of doc.footnotes) {
+    const runs = inlineRuns(note.children);
+    if (note.source) {
+      runs.push({ text: `${runs.length > 0 ? " — " : ""}${citationLabel(note.source, options)}`, italic: true });
+    }
+    out.push({ kind: "footnote", marker: `[${note.index}]`, runs });
+  }
+  return out;
+}
+
+/** Visible text of a run list, for exporters without inline styling. */
+export function runsToPlainText(runs: TextRun[]): string {
+  return runs.map((run) => run.text).join("");
+}
@@ -0,0 +1,1065 @@
+/**
+ * Markdown
+ *
+ * CommonMark parser shared by every surface that turns a story body into
+ * something a reader sees: the public page renderer and editor preview,
+ * the PDF and DOCX story exports, and the Google Doc and Slack page exports.
+ * Parsing produces a small AST; the per-format renderers live in
+ * markdown-render.ts so every surface agrees on what the markdown means.
+ *
+ * On top of CommonMark it understands:
+ *   - GFM tables with a header row and column alignment
+ *   - footnotes (`[^1]` with `[^1]: text`); a footnote whose text starts
+ *     with `call:<callId>` and an optional `@mm:ss` cites a source call, and
+ *     `[^call:<callId>@mm:ss]` cites one inline without a definition
+ *   - container blocks for callouts and attributed quotes:
+ *
+ *       :::callout metric 3x faster onboarding      :::quote Dana Lee, VP Ops
+ *       Body markdown                              Quoted markdown
+ *       :::                                        :::
+ *
+ * Sanitizing happens here rather than in each renderer: raw HTML is kept as
+ * text, images degrade to their alt text, and links that fail the link
+ * policy in url-security.ts degrade to their label, so no renderer ever
+ * sees an unsafe URL.
+ */
+
+import { UrlPolicyError, assertSafeLinkUrl } from "./url-security.js";
+
+// ─── AST ─────────────────────────────────────────────────────────────────────
+
+export type CalloutVariant = "metric" | "quote" | "insight" | "timeline" | "warning" | "success";
+
+export const CALLOUT_VARIANTS: readonly CalloutVariant[] = [
+  "metric",
+  "quote",
+  "insight",
+  "timeline",
+  "warning",
+  "success",
+];
+
+export type TableAlign = "left" | "center" | "right" | null;
+
+export type MarkdownInline =
+  | { type: "text"; value: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "emphasis"; children: MarkdownInline[] }
+  | { type: "code"; value: string }
+  | { type: "link"; href: string; title: string | null; children: MarkdownInline[] }
+  | { type: "footnoteRef"; index: number }
+  | { type: "break" };
+
+export interface MarkdownListItem {
+  children: MarkdownBlock[];
+}
+
+export type MarkdownBlock =
+  | { type: "heading"; depth: number; children: MarkdownInline[] }
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; start: number; tight: boolean; items: MarkdownListItem[] }
+  | { type: "blockquote"; children: MarkdownBlock[] }
+  | { type: "callout"; variant: CalloutVariant; title: MarkdownInline[]; children: MarkdownBlock[] }
+  | { type: "quote"; attribution: MarkdownInline[]; children: MarkdownBlock[] }
+  | { type: "code"; lang: string | null; value: string }
+  | { type: "table"; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: "thematicBreak" };
+
+export interface SourceCallCitation {
+  callId: string;
+  /** Offset into the call recording, when the citation gives one. */
+  timestampMs: number | null;
+}
+
+export interface MarkdownFootnote {
+  /** 1-based, in order of first reference. */
+  index: number;
+  children: MarkdownInline[];
+  source: SourceCallCitation | null;
+}
+
+export interface MarkdownDocument {
+  children: MarkdownBlock[];
+  /** Only footnotes that are referenced, ordered by index. */
+  footnotes: MarkdownFootnote[];
+}
+
+// ─── Block Syntax ────────────────────────────────────────────────────────────
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?=[ \t]|$)(.*)$/;
+const THEMATIC_BREAK = /^ {0,3}(?:(?:\*[ \t]*){3,}|(?:-[ \t]*){3,}|(?:_[ \t]*){3,})$/;
+const FENCE_OPEN = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const BLOCKQUOTE_MARKER = /^ {0,3}> ?/;
+const BULLET_MARKER = /^( {0,3})([-+*])(?=[ \t]|$)/;
+const ORDERED_MARKER = /^( {0,3})(\d{1,9})([.)])(?=[ \t]|$)/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const CONTAINER_OPEN = /^ {0,3}:::[ \t]*(callout|quote)(?=[ \t]|$)[ \t]*(.*)$/i;
+const CONTAINER_CLOSE = /^ {0,3}:::[ \t]*$/;
+const FOOTNOTE_DEFINITION = /^ {0,3}\[\^([^\]\s]+)\]:[ \t]*(.*)$/;
+const LINK_DEFINITION =
+  /^ {0,3}\[((?:[^\\\][]|\\.){1,999})\]:[ \t]*(<[^<>\n]*>|\S+)(?:[ \t]+("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^()\\]|\\.)*\)))?[ \t]*$/;
+const CITATION = /^call:([A-Za-z0-9_-]+)(?:[ \t]*@[ \t]*(\d{1,2}(?::\d{2}){1,2}))?[ \t]*([\s\S]*)$/;
+const ESCAPABLE = /\\([!-/:-@[-`{-~])/g;
+const MAX_NESTING_DEPTH = 16;
+/** Link text longer than this is left as text rather than scanned for `]`. */
+const MAX_LINK_LABEL_LENGTH = 2000;
+
+interface LinkDefinition {
+  href: string;
+  title: string | null;
+}
+
+interface ParseContext {
+  links: Map<string, LinkDefinition>;
+  footnoteLabels: Set<string>;
+  footnoteText: Map<string, string>;
+  footnoteOrder: Map<string, number>;
+}
+
+interface ListMarker {
+  ordered: boolean;
+  /** Bullet character, or the `.`/`)` delimiter of an ordered marker. */
+  symbol: string;
+  start: number;
+  /** Column where the item content starts. */
+  contentOffset: number;
+  firstLine: string;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim().length === 0;
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function unescapeText(text: string): string {
+  return text.replace(ESCAPABLE, "$1");
+}
+
+/** Expands tabs in leading whitespace to 4-column tab stops. */
+function expandLeadingTabs(line: string): string {
+  const match = /^[ \t]+/.exec(line);
+  if (!match || !match[0].includes("\t")) return line;
+  let column = 0;
+  for (const ch of match[0]) {
+    column = ch === "\t" ? column + 4 - (column % 4) : column + 1;
+  }
+  return " ".repeat(column) + line.slice(match[0].length);
+}
+
+function parseListMarker(line: string): ListMarker | null {
+  if (THEMATIC_BREAK.test(line)) return null;
+  const bullet = BULLET_MARKER.exec(line);
+  const ordered = bullet ? null : ORDERED_MARKER.exec(line);
+  const match = bullet ?? ordered;
+  if (!match) return null;
+
+  const markerEnd = match[0].length;
+  const rest = line.slice(markerEnd);
+  const spaces = indentOf(rest);
+  let contentOffset: number;
+  let firstLine: string;
+  if (isBlank(rest)) {
+    contentOffset = markerEnd + 1;
+    firstLine = "";
+  } else if (spaces >= 5) {
+    contentOffset = markerEnd + 1;
+    firstLine = rest.slice(1);
+  } else {
+    contentOffset = markerEnd + spaces;
+    firstLine = rest.slice(spaces);
+  }
+
+  return bullet
+    ? { ordered: false, symbol: bullet[2], start: 1, contentOffset, firstLine }
+    : {
+        ordered: true,
+        symbol: ordered![3],
+        start: Number.parseInt(ordered![2], 10),
+        contentOffset,
+        firstLine,
+      };
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith("|")) row = row.slice(1);
+  if (row.endsWith("|") && !row.endsWith("\\|")) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let current = "";
+  for (let i = 0; i < row.length; i++) {
+    const ch = row[i];
+    if (ch === "\\" && row[i + 1] === "|") {
+      current += "|";
+      i++;
+    } else if (ch === "|") {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function parseTableDelimiter(line: string): TableAlign[] | null {
+  if (!line.includes("|") && !line.includes(":")) return null;
+  const cells = splitTableRow(line);
+  const align: TableAlign[] = [];
+  for (const cell of cells) {
+    if (!/^:?-+:?$/.test(cell)) return null;
+    const left = cell.startsWith(":");
+    const right = cell.endsWith(":");
+    align.push(left && right ? "center" : right ? "right" : left ? "left" : null);
+  }
+  return align;
+}
+
+function tableStartAt(lines: string[], i: number): TableAlign[] | null {
+  const header = lines[i];
+  const delimiter = lines[i + 1];
+  if (delimiter === undefined || !header.includes("|") || indentOf(header) >= 4) return null;
+  const align = parseTableDelimiter(delimiter);
+  if (!align || align.length !== splitTableRow(header).length) return null;
+  return align;
+}
+
+/** Whether a line ends an open paragraph (and isn't a lazy continuation). */
+function interruptsParagraph(line: string): boolean {
+  if (isBlank(line)) return true;
+  if (indentOf(line) >= 4) return false;
+  if (
+    ATX_HEADING.test(line) ||
+    THEMATIC_BREAK.test(line) ||
+    BLOCKQUOTE_MARKER.test(line) ||
+    CONTAINER_OPEN.test(line) ||
+    CONTAINER_CLOSE.test(line) ||
+    FOOTNOTE_DEFINITION.test(line)
+  ) {
+    return true;
+  }
+  const fence = FENCE_OPEN.exec(line);
+  if (fence && !(fence[2][0] === "`" && fence[3].includes("`"))) return true;
+  const marker = parseListMarker(line);
+  if (marker && marker.firstLine.trim() && (!marker.ordered || marker.start === 1)) return true;
+  return false;
+}
+
+function parseCitation(text: string): { source: SourceCallCitation; rest: string } | null {
+  const match = CITATION.exec(text.trim());
+  if (!match) return null;
+  let timestampMs: number | null = null;
+  if (match[2]) {
+    const parts = match[2].split(":").map((part) => Number.parseInt(part, 10));
+    timestampMs = parts.reduce((total, part) => total * 60 + part, 0) * 1000;
+  }
+  return { source: { callId: match[1], timestampMs }, rest: match[3].trim() };
+}
+
+// ─── Block Parser ────────────────────────────────────────────────────────────
+
+interface BlockResult {
+  blocks: MarkdownBlock[];
+  /** A blank line separated two sibling blocks (makes a list item loose). */
+  blankBetween: boolean;
+}
+
+function parseBlocks(lines: string[], ctx: ParseContext, depth = 0): BlockResult {
+  if (depth > MAX_NESTING_DEPTH) {
+    // Pathologically nested input is kept as one paragraph of text.
+    const raw = lines.map((line) => line.trim()).join("\n").trim();
+    return { blocks: raw ? [{ type: "paragraph", children: parseInline(raw, ctx) }] : [], blankBetween: false };
+  }
+  const blocks: MarkdownBlock[] = [];
+  let blankBetween = false;
+  let pendingBlank = false;
+  let i = 0;
+
+  const push = (block: MarkdownBlock) => {
+    if (pendingBlank && blocks.length > 0) blankBetween = true;
+    pendingBlank = false;
+    blocks.push(block);
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      pendingBlank = true;
+      i++;
+      continue;
+    }
+
+    // Indented code
+    if (indentOf(line) >= 4) {
+      const code: string[] = [];
+      while (i < lines.length && (isBlank(lines[i]) || indentOf(lines[i]) >= 4)) {
+        code.push(lines[i].slice(Math.min(4, indentOf(lines[i]))));
+        i++;
+      }
+      while (code.length > 0 && isBlank(code[code.length - 1])) code.pop();
+      push({ type: "code", lang: null, value: code.join("\n") });
+      continue;
+    }
+
+    // Fenced code
+    const fence = FENCE_OPEN.exec(line);
+    if (fence && !(fence[2][0] === "`" && fence[3].includes("`"))) {
+      const indent = fence[1].length;
+      const closing = new RegExp(`^ {0,3}${fence[2][0] === "`" ? "`" : "~"}{${fence[2].length},}[ \\t]*$`);
+      const info = unescapeText(fence[3].trim());
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !closing.test(lines[i])) {
+        code.push(lines[i].slice(Math.min(indent, indentOf(lines[i]))));
+        i++;
+      }
+      i++;
+      push({ type: "code", lang: info ? info.split(/\s+/)[0] : null, value: code.join("\n") });
+      continue;
+    }
+
+    // ATX heading
+    const heading = ATX_HEADING.exec(line);
+    if (heading) {
+      const text = heading[2].trim().replace(/(?:^|[ \t]+)#+[ \t]*$/, "");
+      push({ type: "heading", depth: heading[1].length, children: parseInline(text, ctx) });
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      push({ type: "thematicBreak" });
+      i++;
+      continue;
+    }
+
+    // Callout and quote containers
+    const container = CONTAINER_OPEN.exec(line);
+    if (container) {
+      const inner: string[] = [];
+      let depth = 1;
+      let fenceClose: RegExp | null = null;
+      i++;
+      while (i < lines.length) {
+        const current = lines[i];
+        if (fenceClose) {
+          if (fenceClose.test(current)) fenceClose = null;
+        } else {
+          const innerFence = FENCE_OPEN.exec(current);
+          if (innerFence) {
+            fenceClose = new RegExp(`^ {0,3}${innerFence[2][0] === "`" ? "`" : "~"}{${innerFence[2].length},}[ \\t]*$`);
+          } else if (CONTAINER_OPEN.test(current)) {
+            depth++;
+          } else if (CONTAINER_CLOSE.test(current) && --depth === 0) {
+            break;
+          }
+        }
+        inner.push(current);
+        i++;
+      }
+      i++;
+      const children = parseBlocks(inner, ctx, depth + 1).blocks;
+      const args = container[2].trim();
+      if (container[1].toLowerCase() === "callout") {
+        const [first = "", ...rest] = args.split(/\s+/);
+        const variant = CALLOUT_VARIANTS.find((value) => value === first.toLowerCase());
+        const title = variant ? rest.join(" ") : args;
+        push({
+          type: "callout",
+          variant: variant ?? "insight",
+          title: parseInline(title, ctx),
+          children,
+        });
+      } else {
+        push({ type: "quote", attribution: parseInline(args, ctx), children });
+      }
+      continue;
+    }
+
+    // Blockquote
+    if (BLOCKQUOTE_MARKER.test(line)) {
+      const inner: string[] = [];
+      while (i < lines.length) {
+        const current = lines[i];
+        const marker = BLOCKQUOTE_MARKER.exec(current);
+        if (marker) {
+          inner.push(current.slice(marker[0].length));
+        } else if (
+          inner.length > 0 &&
+          !isBlank(inner[inner.length - 1]) &&
+          !interruptsParagraph(current)
+        ) {
+          inner.push(current);
+        } else {
+          break;
+        }
+        i++;
+      }
+      push({ type: "blockquote", children: parseBlocks(inner, ctx, depth + 1).blocks });
+      continue;
+    }
+
+    // Footnote definition (collected; rendered after the body)
+    const footnote = FOOTNOTE_DEFINITION.exec(line);
+    if (footnote) {
+      const text = [footnote[2]];
+      i++;
+      while (i < lines.length && !isBlank(lines[i])) {
+        if (indentOf(lines[i]) < 4 && interruptsParagraph(lines[i])) break;
+        text.push(lines[i].trim());
+        i++;
+      }
+      const label = normalizeLabel(footnote[1]);
+      if (!ctx.footnoteText.has(label)) ctx.footnoteText.set(label, text.join("\n"));
+      continue;
+    }
+
+    // Link reference definition (collected in the pre-scan)
+    if (LINK_DEFINITION.test(line)) {
+      i++;
+      continue;
+    }
+
+    // Table
+    const align = tableStartAt(lines, i);
+    if (align) {
+      const width = align.length;
+      const cellsOf = (row: string) => {
+        const cells = splitTableRow(row).slice(0, width);
+        while (cells.length < width) cells.push("");
+        return cells.map((cell) => parseInline(cell, ctx));
+      };
+      const header = cellsOf(line);
+      const rows: MarkdownInline[][][] = [];
+      i += 2;
+      while (i < lines.length && !interruptsParagraph(lines[i])) {
+        rows.push(cellsOf(lines[i]));
+        i++;
+      }
+      push({ type: "table", align, header, rows });
+      continue;
+    }
+
+    // List
+    const marker = parseListMarker(line);
+    if (marker) {
+      const list = parseList(lines, i, marker, ctx, depth);
+      push(list.block);
+      i = list.next;
+      continue;
+    }
+
+    // Paragraph, possibly a setext heading
+    const text: string[] = [line];
+    i++;
+    let setextDepth = 0;
+    while (i < lines.length) {
+      const current = lines[i];
+      const underline = SETEXT_UNDERLINE.exec(current);
+      if (underline) {
+        setextDepth = underline[1][0] === "=" ? 1 : 2;
+        i++;
+        break;
+      }
+      if (interruptsParagraph(current) || tableStartAt(lines, i)) break;
+      text.push(current);
+      i++;
+    }
+    const raw = text
+      .map((part) => part.trimStart())
+      .join("\n")
+      .trimEnd();
+    push(
+      setextDepth > 0
+        ? { type: "heading", depth: setextDepth, children: parseInline(raw, ctx) }
+        : { type: "paragraph", children: parseInline(raw, ctx) }
+    );
+  }
+
+  return { blocks, blankBetween };
+}
+
+function parseList(
+  lines: string[],
+  start: number,
+  first: ListMarker,
+  ctx: ParseContext,
+  depth: number
+): { block: MarkdownBlock; next: number } {
+  const items: MarkdownListItem[] = [];
+  let tight = true;
+  let i = start;
+  let marker: ListMarker | null = first;
+
+  while (marker) {
+    const itemLines = [marker.firstLine];
+    let j = i + 1;
+    let lastContent = i;
+    while (j < lines.length) {
+      const current = lines[j];
+      if (isBlank(current)) {
+        // An item can start with at most one blank line.
+        if (itemLines.length === 1 && isBlank(itemLines[0])) break;
+        itemLines.push("");
+      } else if (indentOf(current) >= marker.contentOffset) {
+        itemLines.push(current.slice(marker.contentOffset));
+        lastContent = j;
+      } else if (
+        !isBlank(lines[j - 1]) &&
+        !parseListMarker(current) &&
+        !interruptsParagraph(current) &&
+        !tableStartAt(lines, j)
+      ) {
+        itemLines.push(current.trimStart());
+        lastContent = j;
+      } else {
+        break;
+      }
+      j++;
+    }
+
+    // Trailing blank lines belong between items, not inside the last one.
+    const parsed = parseBlocks(itemLines.slice(0, lastContent - i + 1), ctx, depth + 1);
+    if (parsed.blankBetween) tight = false;
+    items.push({ children: parsed.blocks });
+
+    i = lastContent + 1;
+    let k = i;
+    while (k < lines.length && isBlank(lines[k])) k++;
+    const nextMarker: ListMarker | null = k < lines.length ? parseListMarker(lines[k]) : null;
+    if (
+      nextMarker &&
+      nextMarker.ordered === first.ordered &&
+      nextMarker.symbol === first.symbol
+    ) {
+      if (k > i) tight = false;
+      i = k;
+      marker = nextMarker;
+    } else {
+      marker = null;
+    }
+  }
+
+  return {
+    block: { type: "list", ordered: first.ordered, start: first.start, tight, items },
+    next: i,
+  };
+}
+
+// ─── Inline Parser ───────────────────────────────────────────────────────────
+
+interface Delimiter {
+  type: "delimiter";
+  char: "*" | "_";
+  count: number;
+  originalCount: number;
+  canOpen: boolean;
+  canClose: boolean;
+}
+
+type InlineToken = MarkdownInline | Delimiter;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+};
+
+const ENTITY = /^&(?:#(\d{1,7})|#[xX]([0-9a-fA-F]{1,6})|([a-zA-Z]+));/;
+const URI_AUTOLINK = /^<([A-Za-z][A-Za-z0-9+.-]{1,31}:[^\s<>]*)>/;
+const EMAIL_AUTOLINK =
+  /^<([A-Za-z0-9.!#$%&'*+/=?^_`{|}~-]+@[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?)*)>/;
+const FOOTNOTE_REF = /^\[\^([^\]\s]+)\]/;
+const WHITESPACE = /\s/;
+const PUNCTUATION = /[\p{P}\p{S}]/u;
+
+function safeHref(raw: string): string | null {
+  try {
+    return assertSafeLinkUrl(raw).href;
+  } catch (err) {
+    if (err instanceof UrlPolicyError) return null;
+    throw err;
+  }
+}
+
+function decodeEntity(match: RegExpExecArray): string | null {
+  const codePoint = match[1]
+    ? Number.parseInt(match[1], 10)
+    : match[2]
+      ? Number.parseInt(match[2], 16)
+      : null;
+  if (codePoint !== null) {
+    return codePoint === 0 || codePoint > 0x10ffff ? "�" : String.fromCodePoint(codePoint);
+  }
+  return ENTITIES[match[3].toLowerCase()] ?? null;
+}
+
+/** Index just past the `]` matching the `[` at `open`, or -1. */
+function findLabelEnd(src: string, open: number): number {
+  let depth = 0;
+  const limit = Math.min(src.length, open + MAX_LINK_LABEL_LENGTH);
+  for (let i = open; i < limit; i++) {
+    const ch = src[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "`") {
+      const run = /^`+/.exec(src.slice(i))![0];
+      const close = src.indexOf(run, i + run.length);
+      if (close >= 0) i = close + run.length - 1;
+    } else if (ch === "[") {
+      depth++;
+    } else if (ch === "]") {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return -1;
+}
+
+/** Parses `(dest "title")` at `pos`; returns null when it is not well-formed. */
+function parseInlineDestination(
+  src: string,
+  pos: number
+): { href: string; title: string | null; end: number } | null {
+  if (src[pos] !== "(") return null;
+  let i = pos + 1;
+  const skipSpace = () => {
+    while (i < src.length && /[ \t\n]/.test(src[i])) i++;
+  };
+  skipSpace();
+
+  let href = "";
+  if (src[i] === "<") {
+    const close = src.indexOf(">", i);
+    if (close < 0 || /[\n<]/.test(src.slice(i + 1, close))) return null;
+    href = src.slice(i + 1, close);
+    i = close + 1;
+  } else {
+    let depth = 0;
+    const startHref = i;
+    while (i < src.length) {
+      const ch = src[i];
+      if (ch === "\\" && i + 1 < src.length) {
+        i += 2;
+        continue;
+      }
+      if (ch.charCodeAt(0) <= 0x20 || /\s/.test(ch)) break;
+      if (ch === "(") depth++;
+      if (ch === ")") {
+        if (depth === 0) break;
+        depth--;
+      }
+      i++;
+    }
+    href = src.slice(startHref, i);
+  }
+
+  const beforeTitle = i;
+  skipSpace();
+  let title: string | null = null;
+  const opener = src[i];
+  if (i > beforeTitle && (opener === '"' || opener === "'" || opener === "(")) {
+    const closer = opener === "(" ? ")" : opener;
+    let j = i + 1;
+    while (j < src.length && src[j] !== closer) {
+      if (src[j] === "\\") j++;
+      j++;
+    }
+    if (j >= src.length) return null;
+    title = unescapeText(src.slice(i + 1, j));
+    i = j + 1;
+    skipSpace();
+  }
+
+  if (src[i] !== ")") return null;
+  return { href: unescapeText(href), title, end: i + 1 };
+}
+
+function flanking(src: string, start: number, end: number, char: "*" | "_") {
+  const before = start > 0 ? src[start - 1] : " ";
+  const after = end < src.length ? src[end] : " ";
+  const beforeSpace = WHITESPACE.test(before);
+  const afterSpace = WHITESPACE.test(after);
+  const beforePunct = PUNCTUATION.test(before);
+  const afterPunct = PUNCTUATION.test(after);
+  const left = !afterSpace && (!afterPunct || beforeSpace || beforePunct);
+  const right = !beforeSpace && (!beforePunct || afterSpace || afterPunct);
+  if (char === "*") return { canOpen: left, canClose: right };
+  return {
+    canOpen: left && (!right || beforePunct),
+    canClose: right && (!left || afterPunct),
+  };
+}
+
+function plainText(nodes: MarkdownInline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+        case "code":
+          return node.value;
+        case "break":
+          return " ";
+        case "footnoteRef":
+          return "";
+        default:
+          return plainText(node.children);
+      }
+    })
+    .join("");
+}
+
+function parseInline(src: string, ctx: ParseContext): MarkdownInline[] {
+  const tokens: InlineToken[] = [];
+  let text = "";
+  let pos = 0;
+
+  const flush = () => {
+    if (text) tokens.push({ type: "text", value: text });
+    text = "";
+  };
+
+  const pushLink = (href: string | null, title: string | null, label: string) => {
+    const children = parseInline(label, ctx);
+    flush();
+    if (href) {
+      tokens.push({ type: "link", href, title, children });
+    } else {
+      tokens.push(...children);
+    }
+  };
+
+  while (pos < src.length) {
+    const ch = src[pos];
+
+    if (ch === "\\") {
+      const next = src[pos + 1];
+      if (next === "\n") {
+        flush();
+        tokens.push({ type: "break" });
+        pos += 2;
+        while (src[pos] === " ") pos++;
+      } else if (next !== undefined && /[!-/:-@[-`{-~]/.test(next)) {
+        text += next;
+        pos += 2;
+      } else {
+        text += ch;
+        pos++;
+      }
+      continue;
+    }
+
+    if (ch === "`") {
+      const run = /^`+/.exec(src.slice(pos))![0];
+      let search = pos + run.length;
+      let close = -1;
+      while (search < src.length) {
+        const found = src.indexOf("`", search);
+        if (found < 0) break;
+        const closeRun = /^`+/.exec(src.slice(found))![0];
+        if (closeRun.length === run.length) {
+          close = found;
+          break;
+        }
+        search = found + closeRun.length;
+      }
+      if (close < 0) {
+        text += run;
+        pos += run.length;
+        continue;
+      }
+      let value = src.slice(pos + run.length, close).replace(/\n/g, " ");
+      if (value.length > 1 && value.startsWith(" ") && value.endsWith(" ") && value.trim()) {
+        value = value.slice(1, -1);
+      }
+      flush();
+      tokens.push({ type: "code", value });
+      pos = close + run.length;
+      continue;
+    }
+
+    if (ch === "*" || ch === "_") {
+      const run = (ch === "*" ? /^\*+/ : /^_+/).exec(src.slice(pos))![0];
+      flush();
+      tokens.push({
+        type: "delimiter",
+        char: ch,
+        count: run.length,
+        originalCount: run.length,
+        ...flanking(src, pos, pos + run.length, ch),
+      });
+      pos += run.length;
+      continue;
+    }
+
+    if (ch === "[" || (ch === "!" && src[pos + 1] === "[")) {
+      const image = ch === "!";
+      const open = image ? pos + 1 : pos;
+
+      if (!image) {
+        const footnote = FOOTNOTE_REF.exec(src.slice(pos));
+        if (footnote) {
+          const label = normalizeLabel(footnote[1]);
+          if (ctx.footnoteLabels.has(label) || label.startsWith("call:")) {
+            if (!ctx.footnoteOrder.has(label)) {
+              ctx.footnoteOrder.set(label, ctx.footnoteOrder.size + 1);
+              // Inline citations carry their own text; keep the call id's case.
+              if (!ctx.footnoteLabels.has(label)) ctx.footnoteText.set(label, footnote[1]);
+            }
+            flush();
+            tokens.push({ type: "footnoteRef", index: ctx.footnoteOrder.get(label)! });
+            pos += footnote[0].length;
+            continue;
+          }
+        }
+      }
+
+      const labelEnd = findLabelEnd(src, open);
+      if (labelEnd > 0) {
+        const label = src.slice(open + 1, labelEnd - 1);
+        let target: LinkDefinition | null = null;
+        let end = labelEnd;
+        const inline = parseInlineDestination(src, labelEnd);
+        if (inline) {
+          target = { href: inline.href, title: inline.title };
+          end = inline.end;
+        } else {
+          const reference = /^\[((?:[^\\\][]|\\.)*)\]/.exec(src.slice(labelEnd));
+          const key = normalizeLabel(reference && reference[1] ? reference[1] : label);
+          const definition = ctx.links.get(key);
+          if (definition) {
+            target = definition;
+            end = reference ? labelEnd + reference[0].length : labelEnd;
+          }
+        }
+
+        if (target) {
+          if (image) {
+            // Images are not embedded in story content; keep the alt text.
+            text += plainText(parseInline(label, ctx));
+          } else {
+            pushLink(safeHref(target.href), target.title, label);
+          }
+          pos = end;
+          continue;
+        }
+      }
+
+      text += image ? "![" : "[";
+      pos += image ? 2 : 1;
+      continue;
+    }
+
+    if (ch === "<") {
+      const rest = src.slice(pos);
+      const uri = URI_AUTOLINK.exec(rest);
+      const email = uri ? null : EMAIL_AUTOLINK.exec(rest);
+      if (uri || email) {
+        const match = (uri ?? email)!;
+        const href = safeHref(uri ? match[1] : `mailto:${match[1]}`);
+        flush();
+        tokens.push(
+          href
+            ? { type: "link", href, title: null, children: [{ type: "text", value: match[1] }] }
+            : { type: "text", value: match[1] }
+        );
+        pos += match[0].length;
+        continue;
+      }
+      text += ch;
+      pos++;
+      continue;
+    }
+
+    if (ch === "&") {
+      const entity = ENTITY.exec(src.slice(pos));
+      const decoded = entity ? decodeEntity(entity) : null;
+      if (entity && decoded !== null) {
+        text += decoded;
+        pos += entity[0].length;
+        continue;
+      }
+      text += ch;
+      pos++;
+      continue;
+    }
+
+    if (ch === "\n") {
+      const hardBreak = / {2,}$/.test(text);
+      text = text.replace(/ +$/, "");
+      if (hardBreak) {
+        flush();
+        tokens.push({ type: "break" });
+      } else {
+        text += " ";
+      }
+      pos++;
+      while (src[pos] === " ") pos++;
+      continue;
+    }
+
+    text += ch;
+    pos++;
+  }
+  flush();
+
+  return mergeText(processEmphasis(tokens));
+}
+
+/** CommonMark's "process emphasis" over the delimiter runs in `tokens`. */
+function processEmphasis(tokens: InlineToken[]): MarkdownInline[] {
+  const isDelimiter = (token: InlineToken | undefined): token is Delimiter =>
+    token?.type === "delimiter";
+  const toInline = (token: InlineToken): MarkdownInline =>
+    isDelimiter(token) ? { type: "text", value: token.char.repeat(token.count) } : token;
+
+  let closerIndex = 0;
+  while (closerIndex < tokens.length) {
+    const closer = tokens[closerIndex];
+    if (!isDelimiter(closer) || !closer.canClose) {
+      closerIndex++;
+      continue;
+    }
+
+    let openerIndex = -1;
+    for (let i = closerIndex - 1; i >= 0; i--) {
+      const opener = tokens[i];
+      if (!isDelimiter(opener) || opener.char !== closer.char || !opener.canOpen) continue;
+      const oddMatch =
+        (opener.canClose || closer.canOpen) &&
+        (opener.originalCount + closer.originalCount) % 3 === 0 &&
+        !(opener.originalCount % 3 === 0 && closer.originalCount % 3 === 0);
+      if (!oddMatch) {
+        openerIndex = i;
+        break;
+      }
+    }
+    if (openerIndex < 0) {
+      closerIndex++;
+      continue;
+    }
+
+    const opener = tokens[openerIndex] as Delimiter;
+    const used = opener.count >= 2 && closer.count >= 2 ? 2 : 1;
+    const children = mergeText(tokens.slice(openerIndex + 1, closerIndex).map(toInline));
+    opener.count -= used;
+    closer.count -= used;
+
+    const replacement: InlineToken[] = [];
+    if (opener.count > 0) replacement.push(opener);
+    replacement.push({ type: used === 2 ? "strong" : "emphasis", children });
+    if (closer.count > 0) replacement.push(closer);
+    tokens.splice(openerIndex, closerIndex - openerIndex + 1, ...replacement);
+    closerIndex = openerIndex + replacement.length - (closer.count > 0 ? 1 : 0);
+  }
+
+  return tokens.map(toInline);
+}
+
+function mergeText(nodes: MarkdownInline[]): MarkdownInline[] {
+  const merged: MarkdownInline[] = [];
+  for (const node of nodes) {
+    const previous = merged[merged.length - 1];
+    if (node.type === "text" && previous?.type === "text") {
+      merged[merged.length - 1] = { type: "text", value: previous.value + node.value };
+    } else if (node.type !== "text" || node.value) {
+      merged.push(node);
+    }
+  }
+  return merged;
+}
+
+// ─── Entry Points ────────────────────────────────────────────────────────────
+
+/**
+ * Parses markdown into a sanitized document. Never throws on malformed
+ * input: anything that isn't a recognized construct is kept as text.
+ */
+export function parseMarkdown(markdown: string): MarkdownDocument {
+  const lines = markdown
+    .replace(/\r\n?/g, "\n")
+    .split("\u0000")
+    .join("\ufffd")
+    .split("\n")
+    .map(expandLeadingTabs);
+
+  const ctx: ParseContext = {
+    links: new Map(),
+    footnoteLabels: new Set(),
+    footnoteText: new Map(),
+    footnoteOrder: new Map(),
+  };
+  for (const line of lines) {
+    const footnote = FOOTNOTE_DEFINITION.exec(line);
+    if (footnote) {
+      ctx.footnoteLabels.add(normalizeLabel(footnote[1]));
+      continue;
+    }
+    const link = LINK_DEFINITION.exec(line);
+    if (link) {
+      const key = normalizeLabel(link[1]);
+      const href = link[2].startsWith("<") ? link[2].slice(1, -1) : link[2];
+      if (!ctx.links.has(key)) {
+        ctx.links.set(key, {
+          href: unescapeText(href),
+          title: link[3] ? unescapeText(link[3].slice(1, -1)) : null,
+        });
+      }
+    }
+  }
+
+  const children = parseBlocks(lines, ctx).blocks;
+
+  // Footnote text may itself reference footnotes, which extends the order
+  // while it is being walked.
+  const footnotes: MarkdownFootnote[] = [];
+  for (const [label, index] of ctx.footnoteOrder) {
+    const definition = ctx.footnoteText.get(label) ?? label;
+    const citation = parseCitation(definition);
+    footnotes.push({
+      index,
+      children: parseInline(citation ? citation.rest : definition, ctx),
+      source: citation?.source ?? null,
+    });
+  }
+
+  return { children, footnotes };
+}
+
+/** Flattens inline nodes to their visible text (links keep their label). */
+export function inlineToPlainText(nodes: MarkdownInline[]): string {
+  return plainText(nodes);
+}
+
+/** Formats a citation offset as m:ss or h:mm:ss. */
+export function formatCitationTimestamp(timestampMs: number): string {
+  const totalSeconds = Math.floor(timestampMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
@@ -151,3 +151,66 @@ export async function assertSafeOutboundUrl(
 
   return parsed;
 }
+
+function decodePath(pathname: string): string {
+  try {
+    return decodeURIComponent(pathname);
+  } catch {
+    return pathname;
+  }
+}
+
+/**
+ * Policy for links written into story content (public pages, exports).
+ * Nothing is fetched, so unlike assertSafeOutboundUrl there is no DNS
+ * lookup, but links to local hosts and literal private addresses are still
+ * refused: a published story should never point readers into a network.
+ */
+export function assertSafeLinkUrl(rawUrl: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(rawUrl.trim());
+  } catch {
+    throw new UrlPolicyError("invalid_url", "URL is invalid.");
+  }
+
+  const protocol = parsed.protocol.toLowerCase();
+  if (protocol === "mailto:") {
+    if (!/^[^@\s]+@[^@\s]+$/.test(decodePath(parsed.pathname))) {
+      throw new UrlPolicyError("invalid_url", "Mail links need a single address.");
+    }
+    return parsed;
+  }
+  if (protocol === "tel:") {
+    if (!/^\+?[0-9().\- ]{3,32}$/.test(decodePath(parsed.pathname))) {
+      throw new UrlPolicyError("invalid_url", "Phone links need a phone number.");
+    }
+    return parsed;
+  }
+  if (protocol !== "http:" && protocol !== "https:") {
+    throw new UrlPolicyError("scheme_blocked", "Only HTTP(S), mailto and tel links are allowed.");
+  }
+
+  const hostname = normalizeHostname(parsed.hostname).replace(/^\[|\]$/g, "");
+  if (!hostname) {
+    throw new UrlPolicyError("hostname_missing", "URL hostname is required.");
+  }
+  if (parsed.username || parsed.password) {
+    throw new UrlPolicyError("userinfo_blocked", "URL userinfo is not allowed.");
+  }
+  if (
+    hostname === "localhost" ||
+    hostname.endsWith(".localhost") ||
+    hostname.endsWith(".local")
+  ) {
+    throw new UrlPolicyError("localhost_blocked", "Localhost URLs are not allowed.");
+  }
+  if (net.isIP(hostname) && isPrivateIpAddress(hostname)) {
+    throw new UrlPolicyError(
+      "private_network_blocked",
+      "URL points to a private or reserved network address."
+    );
+  }
+
+  return parsed;
+}
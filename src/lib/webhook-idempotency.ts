@@ -53,3 +53,24 @@ export async function markWebhookEventIfNew(
   fallbackMap.set(normalizedKey, now + Math.max(1000, ttlMs));
   return true;
 }
+
+/**
+ * Forgets an event key claimed with `markWebhookEventIfNew`, so a provider
+ * retry is processed again. Call it when processing the event failed or the
+ * provider had nothing to fetch yet. Best effort: if Redis is unreachable
+ * the retry is ignored until the key's TTL expires.
+ */
+export async function releaseWebhookEvent(key: string): Promise<void> {
+  const normalizedKey = key.trim();
+  if (!normalizedKey) return;
+
+  fallbackMap.delete(normalizedKey);
+  const redis = await getRedisClient();
+  if (redis) {
+    try {
+      await redis.del(`webhook:idempotency:${normalizedKey}`);
+    } catch {
+      // Key expires on its own
+    }
+  }
+}
@@ -6,6 +6,11 @@
  *
  * Keys are stored hashed (SHA-256) in the database and scoped to an organization.
  * Supports key rotation with a grace period where both old and new keys work.
+ *
+ * Scopes:
+ *   - rag:query       single-account queries and chat
+ *   - rag:portfolio   cross-account (portfolio) queries
+ *   - account:<id>    optional; when present the key can only read those accounts
  */
 
 import crypto from "node:crypto";
@@ -20,8 +25,31 @@ export interface ApiKeyAuthRequest extends Request {
   apiKeyScopes?: string[];
 }
 
+export const API_KEY_SCOPES = {
+  RAG_QUERY: "rag:query",
+  RAG_PORTFOLIO: "rag:portfolio",
+} as const;
+
+const ACCOUNT_SCOPE_PREFIX = "account:";
+
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
+export function hasApiKeyScope(scopes: string[] | undefined, scope: string): boolean {
+  return !!scopes && scopes.includes(scope);
+}
+
+/**
+ * Accounts an API key is restricted to via `account:<id>` scopes, or null
+ * when the key may read every account in its organization.
+ */
+export function getApiKeyAccountRestriction(scopes: string[] | undefined): string[] | null {
+  const accountIds = (scopes ?? [])
+    .filter((scope) => scope.startsWith(ACCOUNT_SCOPE_PREFIX))
+    .map((scope) => scope.slice(ACCOUNT_SCOPE_PREFIX.length))
+    .filter(Boolean);
+  return accountIds.length > 0 ? Array.from(new Set(accountIds)) : null;
+}
+
 /** Hash a raw API key to match against the stored hash. */
 export function hashApiKey(rawKey: string): string {
   return crypto.createHash("sha256").update(rawKey).digest("hex");
@@ -144,7 +172,7 @@ export function requireScope(scope: string) {
     res: Response,
     next: NextFunction
   ): void => {
-    if (!req.apiKeyScopes || !req.apiKeyScopes.includes(scope)) {
+    if (!hasApiKeyScope(req.apiKeyScopes, scope)) {
       res.status(403).json({
         error: "insufficient_scope",
         message: `This API key does not have the required scope: ${scope}`,
@@ -5,6 +5,11 @@
  * Captures endpoint, method, status code, response time, and token usage
  * (when available in the response body).
  *
+ * Streaming routes never call res.json; they report usage in
+ * `res.locals.tokensUsed`. If the client disconnects mid-stream they set
+ * `res.locals.usageSettled` to a promise that resolves once the tokens
+ * spent so far are known, and the log waits for it.
+ *
  * Writes are non-blocking: the response is sent before the log is persisted.
  */
 
@@ -46,9 +51,12 @@ export function createApiUsageLogger(prisma: PrismaClient) {
       return originalJson(body);
     };
 
-    // Log after the response is finished
-    res.on("finish", () => {
+    let logged = false;
+    const logUsage = () => {
+      if (logged) return;
+      logged = true;
       const responseTimeMs = Date.now() - startTime;
+      const reportedTokens = res.locals.tokensUsed;
 
       prisma.apiUsageLog
         .create({
@@ -58,13 +66,25 @@ export function createApiUsageLogger(prisma: PrismaClient) {
             endpoint,
             method,
             statusCode: res.statusCode,
-            tokensUsed: tokensUsed ?? null,
+            tokensUsed: tokensUsed ?? (typeof reportedTokens === "number" ? reportedTokens : null),
             responseTimeMs,
           },
         })
         .catch((err) => {
           logger.warn("Failed to log API usage", { error: err });
         });
+    };
+
+    // Log after the response is finished, or once a disconnected stream
+    // has settled its usage
+    res.on("finish", logUsage);
+    res.on("close", () => {
+      const settled = res.locals.usageSettled as Promise<unknown> | undefined;
+      if (settled && !res.writableFinished) {
+        void settled.finally(logUsage);
+      } else {
+        logUsage();
+      }
     });
 
     next();
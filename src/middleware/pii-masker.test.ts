@@ -439,3 +439,56 @@ describe("maskPII – stability", () => {
     expect(secondPass.detections).toHaveLength(0);
   });
 });
+
+// ─── Language-Specific Formats ──────────────────────────────────────────────
+
+describe("maskPII – language-specific formats", () => {
+  it("masks German tax IDs, phone numbers, addresses and names", () => {
+    const text =
+      "Ich heiße Jürgen Müller, Steuer-ID: 12345678901, erreichbar unter +49 30 1234567, Hauptstraße 12, 10115 Berlin.";
+    const result = maskPII(text, { language: "de" });
+
+    expect(result.maskedText).toContain("[NATIONAL_ID_REDACTED]");
+    expect(result.maskedText).toContain("[PHONE_REDACTED]");
+    expect(result.maskedText).toContain("[ADDRESS_REDACTED]");
+    expect(result.maskedText).toContain("[NAME_REDACTED]");
+    expect(result.maskedText).not.toContain("Jürgen");
+    expect(result.maskedText).not.toContain("12345678901");
+    expect(result.maskedText).not.toContain("Hauptstraße");
+  });
+
+  it("masks French NIR numbers, phone numbers and addresses", () => {
+    const text =
+      "Mon numéro est 06 12 34 56 78, NIR 1 85 05 78 006 084 36, au 12 rue de la Paix, 75002 Paris.";
+    const result = maskPII(text, { language: "fr" });
+
+    expect(result.maskedText).toContain("[PHONE_REDACTED]");
+    expect(result.maskedText).toContain("[NATIONAL_ID_REDACTED]");
+    expect(result.maskedText).toContain("[ADDRESS_REDACTED]");
+    expect(result.maskedText).not.toContain("rue de la Paix");
+  });
+
+  it("masks Spanish DNI numbers, mobile numbers and names", () => {
+    const text = "Me llamo José García, mi DNI es 12345678Z y mi móvil +34 612 345 678.";
+    const result = maskPII(text, { language: "es" });
+
+    expectRedacted(result, "12345678Z", "[NATIONAL_ID_REDACTED]");
+    expect(result.maskedText).toContain("[PHONE_REDACTED]");
+    expect(result.maskedText).toContain("[NAME_REDACTED]");
+    expect(result.maskedText).not.toContain("José García");
+  });
+
+  it("does not apply other languages' formats without a language", () => {
+    const text = "Mi DNI es 12345678Z.";
+    expect(maskPII(text).maskedText).toBe(text);
+    expect(containsPII(text, { language: "es" })).toBe(true);
+  });
+
+  it("passes the language through batch masking", () => {
+    const { maskedChunks } = maskTranscriptChunks(
+      ["Rufen Sie mich an: 0171/1234567"],
+      { language: "de" }
+    );
+    expect(maskedChunks[0]).toContain("[PHONE_REDACTED]");
+  });
+});
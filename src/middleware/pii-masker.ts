@@ -14,10 +14,17 @@
  *  - Physical addresses (street-level)
  *  - Date of birth patterns
  *
+ * For German, French and Spanish transcripts (see `Transcript.language`)
+ * the national phone and street-address formats, national ID numbers
+ * (Steuer-ID, NIR, DNI/NIE) and self-introduction phrases of that language
+ * are detected as well.
+ *
  * Uses deterministic local detection (regex + contextual heuristics)
  * so PII never leaves the server.
  */
 
+import type { SupportedLanguage } from "../lib/language-detection.js";
+
 // ─── Types ───────────────────────────────────────────────────────────────────
 
 export interface MaskingResult {
@@ -42,11 +49,17 @@ export type PIIType =
   | "street_address"
   | "date_of_birth"
   | "person_name"
-  | "account_identifier";
+  | "account_identifier"
+  | "national_id";
+
+export interface MaskingOptions {
+  /** ISO 639-1 transcript language; adds that language's patterns. */
+  language?: string | null;
+}
 
 // ─── Patterns ────────────────────────────────────────────────────────────────
 
-const PII_PATTERNS: Array<{
+interface PIIPattern {
   type: Extract<
     PIIType,
     | "email"
@@ -56,11 +69,14 @@ const PII_PATTERNS: Array<{
     | "ip_address"
     | "street_address"
     | "date_of_birth"
+    | "national_id"
   >;
   regex: RegExp;
   replacement: string;
   priority: number;
-}> = [
+}
+
+const PII_PATTERNS: PIIPattern[] = [
   {
     type: "email",
     regex: /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g,
@@ -111,14 +127,102 @@ const PII_PATTERNS: Array<{
   },
 ];
 
+/**
+ * Language-specific formats, applied in addition to PII_PATTERNS. National
+ * IDs outrank phone numbers because both are long digit runs.
+ */
+const LANGUAGE_PII_PATTERNS: Partial<Record<SupportedLanguage, PIIPattern[]>> = {
+  de: [
+    {
+      type: "national_id",
+      // Steuer-ID (11 digits) or Personalausweis number when introduced as such
+      regex:
+        /\b(?:Steuer-?ID|Steueridentifikationsnummer|Personalausweis(?:nummer)?|Ausweisnummer)[:\s]+[A-Z0-9]{9,11}\b/gi,
+      replacement: "[NATIONAL_ID_REDACTED]",
+      priority: 116,
+    },
+    {
+      type: "phone",
+      // +49 30 1234567, 0049 89 123456, 030 12345678, 0171/1234567
+      regex: /(?:(?:\+|00)49[\s./-]?|\b0)\(?\d{2,5}\)?[\s./-]?\d{3,8}(?:[\s-]?\d{1,5})?\b/g,
+      replacement: "[PHONE_REDACTED]",
+      priority: 101,
+    },
+    {
+      type: "street_address",
+      // Hauptstraße 12, Lindenweg 5a, 10115 Berlin
+      regex:
+        /\b[A-ZÄÖÜ][a-zäöüß-]+(?:straße|strasse|str\.|weg|allee|platz|gasse|ring|damm|ufer)\s+\d{1,4}[a-z]?\b(?:,?\s*\d{5}\s+[A-ZÄÖÜ][a-zäöüß]+)?/g,
+      replacement: "[ADDRESS_REDACTED]",
+      priority: 93,
+    },
+  ],
+  fr: [
+    {
+      type: "national_id",
+      // NIR (numéro de sécurité sociale): 1 85 05 78 006 084 36
+      regex: /\b[12]\s?\d{2}\s?(?:0[1-9]|1[0-2])\s?(?:\d{2}|2[AB])\s?\d{3}\s?\d{3}(?:\s?\d{2})?\b/g,
+      replacement: "[NATIONAL_ID_REDACTED]",
+      priority: 116,
+    },
+    {
+      type: "phone",
+      // +33 6 12 34 56 78, 06 12 34 56 78, 01.23.45.67.89
+      regex: /(?:(?:\+|00)33[\s.-]?|\b0)[1-9](?:[\s.-]?\d{2}){4}\b/g,
+      replacement: "[PHONE_REDACTED]",
+      priority: 101,
+    },
+    {
+      type: "street_address",
+      // 12 rue de la Paix, 5 bis avenue Victor Hugo, 75002 Paris
+      regex:
+        /\b\d{1,4}(?:\s?(?:bis|ter))?,?\s+(?:rue|avenue|av\.|boulevard|bd|place|chemin|allée|impasse|quai|route)\s+[A-Za-zÀ-ÿ' -]{2,40}?(?=[,.\n]|$)(?:,?\s*\d{5}\s+[A-ZÀ-Ý][A-Za-zÀ-ÿ-]+)?/gi,
+      replacement: "[ADDRESS_REDACTED]",
+      priority: 93,
+    },
+  ],
+  es: [
+    {
+      type: "national_id",
+      // DNI (12345678Z) and NIE (X1234567L)
+      regex: /\b(?:\d{8}|[XYZ]\d{7})-?[A-HJ-NP-TV-Z]\b/g,
+      replacement: "[NATIONAL_ID_REDACTED]",
+      priority: 116,
+    },
+    {
+      type: "phone",
+      // +34 612 345 678, 0034 91 234 56 78, 612345678
+      regex:
+        /(?:(?:\+|00)34[\s.-]?)?\b[6789](?:\d{2}[\s.-]?\d{3}[\s.-]?\d{3}|\d{1,2}[\s.-]?\d{2,3}[\s.-]?\d{2}[\s.-]?\d{2})\b/g,
+      replacement: "[PHONE_REDACTED]",
+      priority: 101,
+    },
+    {
+      type: "street_address",
+      // Calle Mayor 5, Avda. de la Constitución, 12, 28013 Madrid
+      regex:
+        /\b(?:Calle|C\/|Avenida|Avda\.|Av\.|Paseo|Plaza|Pza\.|Camino|Carretera|Ronda)\s+[A-Za-zÀ-ÿ' ]{2,40}?,?\s+(?:n\.?º\s*)?\d{1,4}\b(?:,?\s*\d{5}\s+[A-ZÀ-Ý][A-Za-zÀ-ÿ-]+)?/gi,
+      replacement: "[ADDRESS_REDACTED]",
+      priority: 93,
+    },
+  ],
+};
+
+/** Self-introduction phrases that precede a person's name, per language. */
+const NAME_INTRODUCERS: Partial<Record<SupportedLanguage, string>> = {
+  de: "ich heiße|ich bin|mein name ist|hier ist|gesprochen mit",
+  fr: "je m'appelle|je suis|mon nom est|ici|parlé avec",
+  es: "me llamo|mi nombre es|soy|habla|hablé con",
+};
+
 // ─── Core Masking Function ───────────────────────────────────────────────────
 
 /**
  * Masks PII in the given text and returns the masked text + detection details.
  * Apply this to ALL transcript text before sending to OpenAI.
  */
-export function maskPII(text: string): MaskingResult {
-  const detections = collectPIIDetections(text);
+export function maskPII(text: string, options?: MaskingOptions): MaskingResult {
+  const detections = collectPIIDetections(text, options?.language);
   if (detections.length === 0) {
     return { maskedText: text, detections: [] };
   }
@@ -140,13 +244,14 @@ export function maskPII(text: string): MaskingResult {
  * Returns the masked chunks and a combined detection log.
  */
 export function maskTranscriptChunks(
-  chunks: string[]
+  chunks: string[],
+  options?: MaskingOptions
 ): { maskedChunks: string[]; allDetections: PIIDetection[] } {
   const maskedChunks: string[] = [];
   const allDetections: PIIDetection[] = [];
 
   for (const chunk of chunks) {
-    const { maskedText, detections } = maskPII(chunk);
+    const { maskedText, detections } = maskPII(chunk, options);
     maskedChunks.push(maskedText);
     allDetections.push(...detections);
   }
@@ -158,18 +263,22 @@ export function maskTranscriptChunks(
  * Checks if a text contains any detectable PII without masking.
  * Useful for validation / audit logging.
  */
-export function containsPII(text: string): boolean {
-  return collectPIIDetections(text).length > 0;
+export function containsPII(text: string, options?: MaskingOptions): boolean {
+  return collectPIIDetections(text, options?.language).length > 0;
 }
 
 interface DetectionCandidate extends PIIDetection {
   priority: number;
 }
 
-function collectPIIDetections(text: string): PIIDetection[] {
+function collectPIIDetections(text: string, language?: string | null): PIIDetection[] {
+  const languagePatterns =
+    language && language in LANGUAGE_PII_PATTERNS
+      ? LANGUAGE_PII_PATTERNS[language as SupportedLanguage] ?? []
+      : [];
   const candidates: DetectionCandidate[] = [
-    ...collectRegexCandidates(text),
-    ...collectHeuristicCandidates(text),
+    ...collectRegexCandidates(text, [...PII_PATTERNS, ...languagePatterns]),
+    ...collectHeuristicCandidates(text, language),
   ];
   if (candidates.length === 0) return [];
 
@@ -202,9 +311,9 @@ function collectPIIDetections(text: string): PIIDetection[] {
     .map(({ priority: _priority, ...detection }) => detection);
 }
 
-function collectRegexCandidates(text: string): DetectionCandidate[] {
+function collectRegexCandidates(text: string, patterns: PIIPattern[]): DetectionCandidate[] {
   const detections: DetectionCandidate[] = [];
-  for (const pattern of PII_PATTERNS) {
+  for (const pattern of patterns) {
     pattern.regex.lastIndex = 0;
     let match: RegExpExecArray | null;
     while ((match = pattern.regex.exec(text)) !== null) {
@@ -222,11 +331,24 @@ function collectRegexCandidates(text: string): DetectionCandidate[] {
   return detections;
 }
 
-function collectHeuristicCandidates(text: string): DetectionCandidate[] {
+function collectHeuristicCandidates(text: string, language?: string | null): DetectionCandidate[] {
   const detections: DetectionCandidate[] = [];
 
-  const nameRegex =
-    /\b(?:my name is|name is|this is|i am|i'm|spoke with|met with|contact is)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+){1,2})\b/gi;
+  const localIntroducers =
+    language && language in NAME_INTRODUCERS
+      ? NAME_INTRODUCERS[language as SupportedLanguage]
+      : undefined;
+  // Unicode-aware and case-sensitive so only capitalized names are captured;
+  // only the introducer's first letter may be either case.
+  const nameRegex = localIntroducers
+    ? new RegExp(
+        `(?<![\\p{L}])(?:${localIntroducers
+          .split("|")
+          .map((phrase) => `[${phrase[0].toUpperCase()}${phrase[0]}]${phrase.slice(1)}`)
+          .join("|")})\\s+(\\p{Lu}\\p{Ll}+(?:\\s+\\p{Lu}\\p{Ll}+){1,2})(?![\\p{L}])`,
+        "gu"
+      )
+    : /\b(?:my name is|name is|this is|i am|i'm|spoke with|met with|contact is)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+){1,2})\b/gi;
   let nameMatch: RegExpExecArray | null;
   while ((nameMatch = nameRegex.exec(text)) !== null) {
     const full = nameMatch[0];
@@ -156,6 +156,26 @@ export const passwordRateLimiter = createRateLimiter({
   name: "password",
 });
 
+/**
+ * Public page engagement beacon limiter.
+ * Readers send a beacon per CTA click and per tab switch, so allow bursts.
+ */
+export const beaconRateLimiter = createRateLimiter({
+  maxRequests: 120,
+  windowMs: 60_000, // 1 minute
+  name: "beacon",
+});
+
+/**
+ * Story embed limiter (widget script, iframe documents, oEmbed).
+ * One host page can carry several embeds, each loaded by every visitor.
+ */
+export const embedRateLimiter = createRateLimiter({
+  maxRequests: 300,
+  windowMs: 60_000, // 1 minute
+  name: "embed",
+});
+
 /**
  * General API rate limiter.
  * Limits to 100 requests per minute per IP.
@@ -2,7 +2,9 @@
  * BullMQ Queues & Workers
  *
  * Sets up all job queues (call processing, transcript fetching, integration
- * sync, story regeneration), their workers, and the Stripe usage reporting cron.
+ * sync, story regeneration, automations, outbound webhook delivery, RAG
+ * vector reindexing, transcript rechunking, taxonomy retagging), their
+ * workers, the Stripe usage reporting cron and the calibration refit cron.
  */
 
 import { Queue, Worker, UnrecoverableError } from "bullmq";
@@ -28,11 +30,34 @@ import {
   ScheduledPagePublishService,
   type ScheduledPagePublishJobData,
 } from "./services/scheduled-page-publish.js";
+import type { AutomationJobData } from "./services/automation-engine.js";
+import {
+  OUTBOUND_WEBHOOK_DELIVERY_JOB_OPTIONS,
+  setOutboundWebhookDeliveryQueue,
+  tryDispatchOutboundWebhookEvent,
+  type OutboundWebhookDeliveryJobData,
+} from "./services/outbound-webhooks.js";
+import {
+  OutboundWebhookDeliveryError,
+  OutboundWebhookDeliveryService,
+} from "./services/outbound-webhook-delivery.js";
+import type { RagVectorReindexJobData } from "./services/rag-vector-reindex.js";
+import {
+  rechunkTranscripts,
+  type TranscriptRechunkJobData,
+} from "./services/transcript-rechunk.js";
+import {
+  retagOrganizationCalls,
+  type TaxonomyRetagJobData,
+} from "./services/taxonomy-retag.js";
 import { startUsageReportingCron } from "./services/usage-reporter.js";
 import { startAuditRetentionCron } from "./services/audit-retention.js";
 import { startDataRetentionCron } from "./services/data-retention.js";
+import { startPageAnalyticsRollupCron } from "./services/page-analytics.js";
 import { startCallProcessingDeadLetterReplayCron } from "./services/call-processing-dead-letter-replay.js";
+import { startCalibrationRefitCron } from "./services/active-learning.js";
 import logger, { jobStore } from "./lib/logger.js";
+import { onDomainEvent } from "./lib/domain-events.js";
 import { Sentry } from "./lib/sentry.js";
 import { PROCESS_CALL_JOB_DEFAULT_OPTIONS } from "./lib/queue-policy.js";
 import type { Services } from "./services.js";
@@ -44,6 +69,11 @@ export interface Queues {
   storyRegenQueue: Queue;
   postPublishValidationQueue: Queue<PostPublishValidationJobData>;
   scheduledPagePublishQueue: Queue<ScheduledPagePublishJobData>;
+  automationQueue: Queue<AutomationJobData>;
+  outboundWebhookQueue: Queue<OutboundWebhookDeliveryJobData>;
+  ragVectorReindexQueue: Queue<RagVectorReindexJobData>;
+  transcriptRechunkQueue: Queue<TranscriptRechunkJobData>;
+  taxonomyRetagQueue: Queue<TaxonomyRetagJobData>;
 }
 
 export interface Workers {
@@ -53,12 +83,20 @@ export interface Workers {
   storyRegenWorker: Worker<WeeklyRegenJobData>;
   postPublishValidationWorker: Worker<PostPublishValidationJobData>;
   scheduledPagePublishWorker: Worker<ScheduledPagePublishJobData>;
+  automationWorker: Worker<AutomationJobData>;
+  stopAutomationEventListener: () => void;
+  outboundWebhookWorker: Worker<OutboundWebhookDeliveryJobData>;
+  ragVectorReindexWorker: Worker<RagVectorReindexJobData>;
+  transcriptRechunkWorker: Worker<TranscriptRechunkJobData>;
+  taxonomyRetagWorker: Worker<TaxonomyRetagJobData>;
   usageCron: ReturnType<typeof startUsageReportingCron>;
   auditRetentionCron: ReturnType<typeof startAuditRetentionCron>;
   dataRetentionCron: ReturnType<typeof startDataRetentionCron>;
   callProcessingDeadLetterReplayCron: ReturnType<
     typeof startCallProcessingDeadLetterReplayCron
   >;
+  calibrationRefitCron: ReturnType<typeof startCalibrationRefitCron>;
+  pageAnalyticsRollupCron: ReturnType<typeof startPageAnalyticsRollupCron>;
 }
 
 /**
@@ -119,6 +157,64 @@ export function createQueues(redisUrl: string): Queues {
     }
   );
 
+  const automationQueue = new Queue<AutomationJobData>("automation", {
+    connection: { url: redisUrl },
+    defaultJobOptions: {
+      attempts: 2,
+      backoff: { type: "exponential", delay: 30_000 },
+      removeOnComplete: 500,
+      removeOnFail: 1000,
+    },
+  });
+
+  const AUTOMATION_THRESHOLD_INTERVAL_MS =
+    parseInt(process.env.AUTOMATION_THRESHOLD_INTERVAL_MINUTES ?? "5", 10) * 60 * 1000;
+
+  automationQueue.upsertJobScheduler(
+    "automation-threshold-evaluation",
+    { every: AUTOMATION_THRESHOLD_INTERVAL_MS },
+    { name: "evaluate-thresholds", data: { kind: "evaluate_thresholds" } }
+  );
+
+  const outboundWebhookQueue = new Queue<OutboundWebhookDeliveryJobData>(
+    "outbound-webhook-delivery",
+    {
+      connection: { url: redisUrl },
+      defaultJobOptions: OUTBOUND_WEBHOOK_DELIVERY_JOB_OPTIONS,
+    }
+  );
+  setOutboundWebhookDeliveryQueue(outboundWebhookQueue);
+
+  const ragVectorReindexQueue = new Queue<RagVectorReindexJobData>("rag-vector-reindex", {
+    connection: { url: redisUrl },
+    defaultJobOptions: {
+      attempts: 3,
+      backoff: { type: "exponential", delay: 60_000 },
+      removeOnComplete: 100,
+      removeOnFail: 500,
+    },
+  });
+
+  const transcriptRechunkQueue = new Queue<TranscriptRechunkJobData>("transcript-rechunk", {
+    connection: { url: redisUrl },
+    defaultJobOptions: {
+      attempts: 3,
+      backoff: { type: "exponential", delay: 60_000 },
+      removeOnComplete: 100,
+      removeOnFail: 500,
+    },
+  });
+
+  const taxonomyRetagQueue = new Queue<TaxonomyRetagJobData>("taxonomy-retag", {
+    connection: { url: redisUrl },
+    defaultJobOptions: {
+      attempts: 3,
+      backoff: { type: "exponential", delay: 60_000 },
+      removeOnComplete: 100,
+      removeOnFail: 500,
+    },
+  });
+
   return {
     processingQueue,
     transcriptFetchQueue,
@@ -126,6 +222,11 @@ export function createQueues(redisUrl: string): Queues {
     storyRegenQueue,
     postPublishValidationQueue,
     scheduledPagePublishQueue,
+    automationQueue,
+    outboundWebhookQueue,
+    ragVectorReindexQueue,
+    transcriptRechunkQueue,
+    taxonomyRetagQueue,
   };
 }
 
@@ -147,6 +248,8 @@ export function createWorkers(
     weeklyStoryRegen,
     notificationService,
     ragEngine,
+    automationEngine,
+    providerRegistry,
   } = services;
 
   // Call processing worker
@@ -165,6 +268,17 @@ export function createWorkers(
           hasTranscript: job.data.hasTranscript,
           attempt: job.attemptsMade + 1,
         });
+        if (job.attemptsMade === 0) {
+          await tryDispatchOutboundWebhookEvent(prisma, {
+            organizationId: job.data.organizationId,
+            eventType: "call_ingested",
+            payload: {
+              call_id: job.data.callId,
+              account_id: job.data.accountId,
+              has_transcript: job.data.hasTranscript,
+            },
+          });
+        }
         await transcriptProcessor.processCall(job.data);
       });
     },
@@ -179,6 +293,14 @@ export function createWorkers(
       jobId: job.id,
       callId: job.data.callId,
     });
+    await tryDispatchOutboundWebhookEvent(prisma, {
+      organizationId: job.data.organizationId,
+      eventType: "call_processed",
+      payload: {
+        call_id: job.data.callId,
+        account_id: job.data.accountId,
+      },
+    });
     if (notificationService && job.data.organizationId) {
       await notificationService
         .notifyCallProcessed(job.data.organizationId, job.data.callId)
@@ -198,6 +320,18 @@ export function createWorkers(
     Sentry.captureException(err, {
       tags: { jobId: job?.id, callId: job?.data.callId },
     });
+    if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+      await tryDispatchOutboundWebhookEvent(prisma, {
+        organizationId: job.data.organizationId,
+        eventType: "call_processing_failed",
+        payload: {
+          call_id: job.data.callId,
+          account_id: job.data.accountId,
+          attempts: job.attemptsMade,
+          error: err.message,
+        },
+      });
+    }
     if (notificationService && job?.data?.organizationId) {
       notificationService
         .notifyCallProcessingFailed(
@@ -319,12 +453,146 @@ export function createWorkers(
     }
   );
 
+  // Automation rules: threshold sweeps, per-rule cron schedules, domain events
+  const automationWorker = new Worker<AutomationJobData>(
+    "automation",
+    async (job) => {
+      const results = await automationEngine.handleJob(job.data);
+      const failed = results.filter((result) => result.status === "FAILED").length;
+      if (results.length > 0) {
+        logger.info("Automation job complete", {
+          jobId: job.id,
+          kind: job.data.kind,
+          rulesRun: results.length,
+          failed,
+        });
+      }
+      return results;
+    },
+    {
+      connection: { url: redisUrl },
+      concurrency: 2,
+    }
+  );
+
+  automationEngine
+    .reconcileSchedules(queues.automationQueue)
+    .then((count) => logger.info("Automation schedules reconciled", { count }))
+    .catch((err: Error) =>
+      logger.error("Automation schedule reconciliation failed", { error: err.message })
+    );
+
+  const stopAutomationEventListener = onDomainEvent(async (event) => {
+    await queues.automationQueue.add("automation-event", {
+      kind: "event",
+      organizationId: event.organizationId,
+      eventType: event.eventType,
+      occurredAt: event.occurredAt,
+      payload: event.payload,
+    });
+  });
+
+  // Outbound webhook delivery: one attempt per job run, BullMQ handles backoff
+  const outboundWebhookDelivery = new OutboundWebhookDeliveryService(prisma);
+  const outboundWebhookWorker = new Worker<OutboundWebhookDeliveryJobData>(
+    "outbound-webhook-delivery",
+    async (job) => {
+      try {
+        return await outboundWebhookDelivery.attempt(job.data, {
+          attempt: job.attemptsMade + 1,
+          maxAttempts: job.opts.attempts ?? 1,
+        });
+      } catch (err) {
+        if (err instanceof OutboundWebhookDeliveryError && !err.retryable) {
+          throw new UnrecoverableError(err.message);
+        }
+        throw err;
+      }
+    },
+    {
+      connection: { url: redisUrl },
+      concurrency: 4,
+    }
+  );
+
+  // RAG vector reindex: copies an org's vectors to another backend, then flips it
+  const ragVectorReindexWorker = new Worker<RagVectorReindexJobData>(
+    "rag-vector-reindex",
+    async (job) => {
+      const result = await ragEngine.migrateVectorBackend(job.data);
+      logger.info("RAG vector reindex complete", {
+        jobId: job.id,
+        organizationId: job.data.organizationId,
+        ...result,
+      });
+      return result;
+    },
+    {
+      connection: { url: redisUrl },
+      concurrency: 1,
+    }
+  );
+
+  // Transcript rechunk: re-queues an org's calls for speaker-turn chunking
+  const transcriptRechunkWorker = new Worker<TranscriptRechunkJobData>(
+    "transcript-rechunk",
+    async (job) => {
+      const result = await rechunkTranscripts(
+        {
+          prisma,
+          registry: providerRegistry,
+          processingQueue: queues.processingQueue,
+          pruneVectorsForCall: (input) => ragEngine.pruneVectorsForCall(input),
+          batchSize: 100,
+        },
+        { ...job.data, runId: job.id ?? String(Date.now()) }
+      );
+      logger.info("Transcript rechunk complete", {
+        jobId: job.id,
+        organizationId: job.data.organizationId,
+        ...result,
+      });
+      return result;
+    },
+    {
+      connection: { url: redisUrl },
+      concurrency: 1,
+    }
+  );
+
+  // Taxonomy retag: re-tags an org's calls against its current custom topics
+  const taxonomyRetagWorker = new Worker<TaxonomyRetagJobData>(
+    "taxonomy-retag",
+    async (job) => {
+      const result = await retagOrganizationCalls(
+        {
+          prisma,
+          retagCall: (input, runId) => transcriptProcessor.retagCall(input, runId),
+          batchSize: 100,
+        },
+        { ...job.data, runId: job.id ?? String(Date.now()) }
+      );
+      logger.info("Taxonomy retag complete", {
+        jobId: job.id,
+        organizationId: job.data.organizationId,
+        ...result,
+      });
+      return result;
+    },
+    {
+      connection: { url: redisUrl },
+      concurrency: 1,
+    }
+  );
+
   // Usage reporting cron
   const usageCron = startUsageReportingCron(prisma, stripe);
   const auditRetentionCron = startAuditRetentionCron(prisma);
   const dataRetentionCron = startDataRetentionCron(prisma, ragEngine);
   const callProcessingDeadLetterReplayCron =
     startCallProcessingDeadLetterReplayCron(prisma, queues.processingQueue);
+  const calibrationRefitCron = startCalibrationRefitCron(prisma);
+  const pageAnalyticsRollupCron = startPageAnalyticsRollupCron(prisma);
 
   return {
     callWorker,
@@ -333,9 +601,17 @@ export function createWorkers(
     storyRegenWorker,
     postPublishValidationWorker,
     scheduledPagePublishWorker,
+    automationWorker,
+    stopAutomationEventListener,
+    outboundWebhookWorker,
+    ragVectorReindexWorker,
+    transcriptRechunkWorker,
+    taxonomyRetagWorker,
     usageCron,
     auditRetentionCron,
     dataRetentionCron,
     callProcessingDeadLetterReplayCron,
+    calibrationRefitCron,
+    pageAnalyticsRollupCron,
   };
 }
@@ -19,6 +19,7 @@ import { TranscriptFetcher } from "./services/transcript-fetcher.js";
 import { NotificationService } from "./services/notification-service.js";
 import { EmailService } from "./services/email.js";
 import { WeeklyStoryRegeneration } from "./services/weekly-story-regeneration.js";
+import { AutomationEngine } from "./services/automation-engine.js";
 import { createProviderRegistry } from "./integrations/provider-registry.js";
 import { SyncEngine } from "./integrations/sync-engine.js";
 
@@ -26,6 +27,10 @@ export interface ServiceConfig {
   openaiApiKey: string;
   pineconeApiKey: string;
   pineconeIndex: string;
+  pineconeNamespace?: string;
+  ragVectorBackend?: string;
+  ragPgvectorEnabled?: boolean;
+  ragEmbeddingProvider?: string;
   mergeApiKey: string;
   resendApiKey: string;
   regenFromEmail: string;
@@ -42,6 +47,7 @@ export interface Services {
   notificationService: NotificationService;
   emailService: EmailService;
   weeklyStoryRegen: WeeklyStoryRegeneration;
+  automationEngine: AutomationEngine;
   providerRegistry: ReturnType<typeof createProviderRegistry>;
   syncEngine: SyncEngine;
   mergeClient: MergeApiClient;
@@ -63,6 +69,10 @@ export function createServices(
     openaiApiKey: config.openaiApiKey,
     pineconeApiKey: config.pineconeApiKey,
     pineconeIndex: config.pineconeIndex,
+    pineconeNamespace: config.pineconeNamespace,
+    vectorBackend: config.ragVectorBackend,
+    pgvectorEnabled: config.ragPgvectorEnabled,
+    embeddingProvider: config.ragEmbeddingProvider,
   });
   const storyBuilder = new StoryBuilder(prisma, config.openaiApiKey);
   const transcriptProcessor = new TranscriptProcessor(
@@ -86,6 +96,12 @@ export function createServices(
     emailService
   );
 
+  // Automation rules (threshold / schedule / event)
+  const automationEngine = new AutomationEngine(prisma, {
+    emailService,
+    aiUsageTracker,
+  });
+
   // Integration providers
   const providerRegistry = createProviderRegistry();
   const syncEngine = new SyncEngine(prisma, processingQueue, providerRegistry);
@@ -114,6 +130,7 @@ export function createServices(
     notificationService,
     emailService,
     weeklyStoryRegen,
+    automationEngine,
     providerRegistry,
     syncEngine,
     mergeClient,
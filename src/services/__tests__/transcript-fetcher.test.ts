@@ -185,6 +185,7 @@ describe("TranscriptFetcher", () => {
           callId: "call-123",
           fullText: transcriptText,
           wordCount: transcriptText.split(/\s+/).length,
+          language: "en",
         },
       });
 
@@ -78,6 +78,23 @@ export class AccountAccessService {
     return false;
   }
 
+  /**
+   * Checks access to every one of several accounts, as for a story built
+   * from more than one account. An empty list is always accessible.
+   */
+  async canAccessAccounts(
+    userId: string,
+    organizationId: string,
+    accountIds: string[],
+    userRole?: UserRole
+  ): Promise<boolean> {
+    if (accountIds.length === 0) return true;
+    const accessible = await this.getAccessibleAccountIds(userId, organizationId, userRole);
+    if (accessible === null) return true;
+    const allowed = new Set(accessible);
+    return accountIds.every((accountId) => allowed.has(accountId));
+  }
+
   /**
    * Returns all account IDs a user has access to.
    * For OWNER/ADMIN, returns null (meaning "all").
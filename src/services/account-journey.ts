@@ -9,7 +9,8 @@
  */
 
 import type { PrismaClient, FunnelStage, CallProvider, SalesforceEventType } from "@prisma/client";
-import { TOPIC_LABELS, type TaxonomyTopic } from "../types/taxonomy.js";
+import { TOPIC_LABELS, isCustomTopicKey } from "../types/taxonomy.js";
+import { buildTopicLabels, loadCustomTopics } from "./custom-taxonomy.js";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -213,6 +214,13 @@ export class AccountJourneyService {
       topContacts,
     };
 
+    // Custom topic labels are only looked up when a call carries one
+    const topicLabels: Record<string, string> = calls.some((call) =>
+      call.tags.some((t) => isCustomTopicKey(t.topic))
+    )
+      ? buildTopicLabels(await loadCustomTopics(this.prisma, organizationId))
+      : TOPIC_LABELS;
+
     // Build call timeline nodes
     const callNodes: TimelineCallNode[] = calls.map((call) => {
       const primaryStage = this.getPrimaryStage(call.tags);
@@ -234,8 +242,7 @@ export class AccountJourneyService {
         tags: call.tags.map((t) => ({
           funnelStage: t.funnelStage,
           topic: t.topic,
-          topicLabel:
-            TOPIC_LABELS[t.topic as TaxonomyTopic] ?? t.topic,
+          topicLabel: topicLabels[t.topic] ?? t.topic,
           confidence: t.confidence,
         })),
         primaryStage,
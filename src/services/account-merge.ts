@@ -17,6 +17,10 @@ import Fuse from "fuse.js";
 import type { PrismaClient } from "@prisma/client";
 import { normalizeCompanyName } from "./entity-resolution.js";
 import { decodeJsonObject, encodeJsonValue } from "../types/json-boundaries.js";
+import {
+  dispatchApprovalRequestEvent,
+  tryDispatchOutboundWebhookEvent,
+} from "./outbound-webhooks.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -239,7 +243,7 @@ export class AccountMergeService {
     }
 
     // Run the merge inside a transaction for atomicity
-    return this.prisma.$transaction(async (tx) => {
+    const result = await this.prisma.$transaction(async (tx) => {
       const mergePreview = await this.previewMerge(
         organizationId,
         primaryAccountId,
@@ -443,6 +447,23 @@ export class AccountMergeService {
         domainAliasesAdded,
       };
     });
+
+    await tryDispatchOutboundWebhookEvent(this.prisma, {
+      organizationId,
+      eventType: "account_merged",
+      payload: {
+        merge_run_id: result.mergeRunId,
+        primary_account_id: result.primaryAccountId,
+        merged_account_id: result.deletedAccountId,
+        contacts_moved: result.contactsMoved,
+        calls_moved: result.callsMoved,
+        stories_moved: result.storiesMoved,
+        landing_pages_moved: result.landingPagesMoved,
+        domain_aliases_added: result.domainAliasesAdded,
+        initiated_by_user_id: initiatedByUserId ?? null,
+      },
+    });
+    return result;
   }
 
   async undoMerge(
@@ -594,7 +615,7 @@ export class AccountMergeService {
     notes: string | null,
     preview: MergePreview
   ): Promise<{ id: string; status: string }> {
-    return this.prisma.approvalRequest.create({
+    const request = await this.prisma.approvalRequest.create({
       data: {
         organizationId,
         requestType: "ACCOUNT_MERGE",
@@ -609,8 +630,9 @@ export class AccountMergeService {
           preview,
         }),
       },
-      select: { id: true, status: true },
     });
+    await dispatchApprovalRequestEvent(this.prisma, request);
+    return { id: request.id, status: request.status };
   }
 
   async listMergeRequests(organizationId: string, status: string) {
@@ -644,7 +666,7 @@ export class AccountMergeService {
     reviewerUserId: string,
     notes: string | null
   ): Promise<void> {
-    await this.prisma.approvalRequest.update({
+    const request = await this.prisma.approvalRequest.update({
       where: { id: requestId },
       data: {
         status: "REJECTED",
@@ -653,6 +675,7 @@ export class AccountMergeService {
         reviewedAt: new Date(),
       },
     });
+    await dispatchApprovalRequestEvent(this.prisma, request);
   }
 
   async approveMergeRequest(
@@ -660,7 +683,7 @@ export class AccountMergeService {
     reviewerUserId: string,
     notes: string | null
   ): Promise<void> {
-    await this.prisma.approvalRequest.update({
+    const request = await this.prisma.approvalRequest.update({
       where: { id: requestId },
       data: {
         status: "APPROVED",
@@ -669,6 +692,7 @@ export class AccountMergeService {
         reviewedAt: new Date(),
       },
     });
+    await dispatchApprovalRequestEvent(this.prisma, request);
   }
 
   // ─── Private ────────────────────────────────────────────────────────
@@ -0,0 +1,181 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  MIN_REFIT_SAMPLES,
+  classifyLabelingCandidate,
+  recordTagReview,
+  refitOrganizationCalibration,
+  refreshLabelingQueue,
+} from "./active-learning.js";
+import { ConfidenceCalibrator } from "./confidence-calibrator.js";
+
+function createMockPrisma() {
+  const prisma = {
+    chunkTag: {
+      findFirst: vi.fn().mockResolvedValue({
+        id: "tag-1",
+        chunkId: "chunk-1",
+        funnelStage: "BOFU",
+        topic: "roi_financial_outcomes",
+        confidence: 0.7,
+        rawConfidence: 0.55,
+        chunk: { id: "chunk-1", text: "We cut costs by 30%." },
+      }),
+      count: vi.fn().mockResolvedValue(1),
+    },
+    validationSample: {
+      upsert: vi.fn(async (args: { create: Record<string, unknown> }) => ({ id: "sample-1", ...args.create })),
+      findMany: vi.fn().mockResolvedValue([{ chunkTagId: "tag-1", isCorrect: true }]),
+    },
+    labelingQueueItem: {
+      upsert: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      createMany: vi.fn(async (args: { data: unknown[] }) => ({ count: args.data.length })),
+    },
+    transcriptChunk: { findMany: vi.fn() },
+    calibrationReport: {
+      create: vi.fn(async (args: { data: Record<string, unknown> }) => ({ id: "report-1", ...args.data })),
+      findFirst: vi.fn(),
+    },
+  };
+  return { prisma, client: prisma as any };
+}
+
+describe("classifyLabelingCandidate", () => {
+  it("flags close calls between funnel stages before low confidence", () => {
+    expect(
+      classifyLabelingCandidate([
+        { funnelStage: "BOFU", confidence: 0.5 },
+        { funnelStage: "MOFU", confidence: 0.45 },
+      ])
+    ).toEqual({ reason: "DISAGREEMENT", priority: expect.closeTo(0.95) });
+  });
+
+  it("flags low confidence and ignores confident chunks", () => {
+    expect(classifyLabelingCandidate([{ funnelStage: "TOFU", confidence: 0.4 }])).toEqual({
+      reason: "LOW_CONFIDENCE",
+      priority: expect.closeTo(0.6),
+    });
+    expect(
+      classifyLabelingCandidate([
+        { funnelStage: "BOFU", confidence: 0.9 },
+        { funnelStage: "BOFU", confidence: 0.85 },
+      ])
+    ).toBeNull();
+    expect(classifyLabelingCandidate([])).toBeNull();
+  });
+});
+
+describe("recordTagReview", () => {
+  it("stores a confirmation with the raw confidence and resolves the queue item", async () => {
+    const { prisma, client } = createMockPrisma();
+
+    const sample = await recordTagReview(client, {
+      organizationId: "org-1",
+      userId: "user-1",
+      chunkTagId: "tag-1",
+      decision: "CONFIRM",
+      accessibleAccountIds: ["acct-1"],
+    });
+
+    expect(prisma.chunkTag.findFirst.mock.calls[0][0].where).toMatchObject({
+      chunk: { transcript: { call: { organizationId: "org-1", accountId: { in: ["acct-1"] } } } },
+    });
+    expect(sample).toMatchObject({
+      source: "REVIEW",
+      isCorrect: true,
+      rawConfidence: 0.55,
+      expectedTopic: "roi_financial_outcomes",
+    });
+    expect(prisma.labelingQueueItem.updateMany).toHaveBeenCalledWith({
+      where: { chunkId: "chunk-1", status: "PENDING" },
+      data: { status: "LABELED", resolvedAt: expect.any(Date) },
+    });
+  });
+
+  it("requeues the chunk when reviewers disagree", async () => {
+    const { prisma, client } = createMockPrisma();
+    prisma.validationSample.findMany.mockResolvedValue([
+      { chunkTagId: "tag-1", isCorrect: true },
+      { chunkTagId: "tag-1", isCorrect: false },
+    ]);
+
+    const sample = await recordTagReview(client, {
+      organizationId: "org-1",
+      userId: "user-2",
+      chunkTagId: "tag-1",
+      decision: "REJECT",
+      correction: { funnelStage: "MOFU", topic: "total_cost_of_ownership" },
+    });
+
+    expect(sample).toMatchObject({ isCorrect: false, expectedFunnelStage: "MOFU" });
+    expect(prisma.labelingQueueItem.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({ reason: "DISAGREEMENT", status: "PENDING" }),
+      })
+    );
+    expect(prisma.labelingQueueItem.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("returns null for tags outside the organization", async () => {
+    const { prisma, client } = createMockPrisma();
+    prisma.chunkTag.findFirst.mockResolvedValue(null);
+
+    await expect(
+      recordTagReview(client, {
+        organizationId: "org-1",
+        userId: "user-1",
+        chunkTagId: "tag-x",
+        decision: "CONFIRM",
+      })
+    ).resolves.toBeNull();
+    expect(prisma.validationSample.upsert).not.toHaveBeenCalled();
+  });
+});
+
+describe("refreshLabelingQueue", () => {
+  it("queues only chunks that need a human", async () => {
+    const { prisma, client } = createMockPrisma();
+    prisma.transcriptChunk.findMany.mockResolvedValue([
+      { id: "chunk-1", tags: [{ funnelStage: "TOFU", confidence: 0.3 }] },
+      { id: "chunk-2", tags: [{ funnelStage: "BOFU", confidence: 0.95 }] },
+    ]);
+
+    await expect(refreshLabelingQueue(client, "org-1", new Date())).resolves.toBe(1);
+    expect(prisma.labelingQueueItem.createMany).toHaveBeenCalledWith({
+      data: [
+        { organizationId: "org-1", chunkId: "chunk-1", reason: "LOW_CONFIDENCE", priority: expect.closeTo(0.7) },
+      ],
+      skipDuplicates: true,
+    });
+  });
+});
+
+describe("refitOrganizationCalibration", () => {
+  it("skips orgs with too few reviews", async () => {
+    const { prisma, client } = createMockPrisma();
+    prisma.validationSample.findMany.mockResolvedValue([{ rawConfidence: 0.9, isCorrect: true }]);
+
+    await expect(refitOrganizationCalibration(client, "org-1")).resolves.toBeNull();
+    expect(prisma.calibrationReport.create).not.toHaveBeenCalled();
+  });
+
+  it("stores a report whose curve improves an overconfident tagger", async () => {
+    const { prisma, client } = createMockPrisma();
+    // The tagger says 0.9 but is right only half the time.
+    prisma.validationSample.findMany.mockResolvedValue(
+      Array.from({ length: MIN_REFIT_SAMPLES }, (_, i) => ({ rawConfidence: 0.9, isCorrect: i % 2 === 0 }))
+    );
+
+    const report = await refitOrganizationCalibration(client, "org-1");
+
+    expect(report).toMatchObject({ organizationId: "org-1", sampleCount: MIN_REFIT_SAMPLES });
+    expect(report!.brierScore).toBeCloseTo(0.41);
+    expect(report!.calibratedBrierScore).toBeCloseTo(0.25);
+
+    prisma.calibrationReport.findFirst.mockResolvedValue({
+      calibrationCurve: report!.calibrationCurve,
+    });
+    const calibrator = await ConfidenceCalibrator.forOrganization(client, "org-1");
+    expect(calibrator?.adjustConfidence(0.9)).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * Active Learning for Tag Confidence
+ *
+ * Feeds reviewer judgments back into the ConfidenceCalibrator:
+ *   1. Reviewers confirm or reject chunk tags. Each decision becomes a REVIEW
+ *      ValidationSample holding the tag's raw confidence and whether it was
+ *      correct, so calibration needs no extra LLM calls.
+ *   2. Chunks whose best tag is low-confidence, whose top tags split across
+ *      funnel stages, or whose reviewers disagree are queued for labeling.
+ *   3. A nightly cron refreshes each org's labeling queue and, when new
+ *      reviews arrived, refits its calibration curve and stores a
+ *      CalibrationReport. Tagging applies the org's latest curve.
+ */
+
+import cron from "node-cron";
+import type { FunnelStage, PrismaClient } from "@prisma/client";
+import { ConfidenceCalibrator } from "./confidence-calibrator.js";
+import { encodeJsonValue } from "../types/json-boundaries.js";
+import logger from "../lib/logger.js";
+
+// ─── Tuning ──────────────────────────────────────────────────────────────────
+
+/** Chunks whose best tag scores below this are queued for labeling. */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+/** Top tags in different funnel stages this close together count as a split. */
+export const DISAGREEMENT_MARGIN = 0.1;
+
+/** Reviews needed before an org's curve is refitted. */
+export const MIN_REFIT_SAMPLES = 20;
+
+/** How far back the nightly sweep looks for newly tagged chunks. */
+const QUEUE_SCAN_WINDOW_MS = 2 * 24 * 60 * 60 * 1000;
+
+/** Cap on chunks queued per org per sweep. */
+const QUEUE_SCAN_LIMIT = 500;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type TagReviewDecision = "CONFIRM" | "REJECT";
+
+export interface TagReviewInput {
+  organizationId: string;
+  userId: string;
+  chunkTagId: string;
+  decision: TagReviewDecision;
+  /** What the chunk should have been tagged with, when a tag is rejected. */
+  correction?: { funnelStage: FunnelStage; topic: string };
+  /** Accounts the reviewer may see; null means all. */
+  accessibleAccountIds?: string[] | null;
+}
+
+export interface LabelingCandidate {
+  reason: "LOW_CONFIDENCE" | "DISAGREEMENT";
+  priority: number;
+}
+
+export interface CalibrationRefitSweepResult {
+  organizationsProcessed: number;
+  chunksQueued: number;
+  reportsCreated: number;
+}
+
+function accountScope(accessibleAccountIds: string[] | null | undefined) {
+  return accessibleAccountIds ? { accountId: { in: accessibleAccountIds } } : {};
+}
+
+// ─── Reviews ─────────────────────────────────────────────────────────────────
+
+/**
+ * Records a reviewer's decision on a chunk tag. A second decision by the
+ * same reviewer replaces the first. Returns null when the tag does not
+ * belong to the organization or to an account the reviewer can see.
+ */
+export async function recordTagReview(prisma: PrismaClient, input: TagReviewInput) {
+  const tag = await prisma.chunkTag.findFirst({
+    where: {
+      id: input.chunkTagId,
+      chunk: {
+        transcript: {
+          call: {
+            organizationId: input.organizationId,
+            ...accountScope(input.accessibleAccountIds),
+          },
+        },
+      },
+    },
+    include: { chunk: { select: { id: true, text: true } } },
+  });
+  if (!tag) return null;
+
+  const isCorrect = input.decision === "CONFIRM";
+  const expected = isCorrect
+    ? { funnelStage: tag.funnelStage, topic: tag.topic }
+    : (input.correction ?? null);
+  const data = {
+    chunkText: tag.chunk.text,
+    expectedFunnelStage: expected?.funnelStage ?? null,
+    expectedTopic: expected?.topic ?? null,
+    predictedFunnelStage: tag.funnelStage,
+    predictedTopic: tag.topic,
+    rawConfidence: tag.rawConfidence ?? tag.confidence,
+    isCorrect,
+  };
+
+  const sample = await prisma.validationSample.upsert({
+    where: {
+      chunkTagId_reviewedByUserId: { chunkTagId: tag.id, reviewedByUserId: input.userId },
+    },
+    create: {
+      ...data,
+      organizationId: input.organizationId,
+      source: "REVIEW",
+      chunkId: tag.chunkId,
+      chunkTagId: tag.id,
+      reviewedByUserId: input.userId,
+    },
+    update: data,
+  });
+
+  await syncLabelingStatus(prisma, input.organizationId, tag.chunkId);
+  return sample;
+}
+
+/**
+ * Resolves a chunk's queue item once every tag on it has a review, or
+ * (re)queues the chunk when reviewers disagree about one of its tags.
+ */
+async function syncLabelingStatus(
+  prisma: PrismaClient,
+  organizationId: string,
+  chunkId: string
+): Promise<void> {
+  const [tagCount, reviews] = await Promise.all([
+    prisma.chunkTag.count({ where: { chunkId } }),
+    prisma.validationSample.findMany({
+      where: { chunkId, source: "REVIEW" },
+      select: { chunkTagId: true, isCorrect: true },
+    }),
+  ]);
+
+  const verdicts = new Map<string, Set<boolean>>();
+  for (const review of reviews) {
+    if (!review.chunkTagId || review.isCorrect === null) continue;
+    const seen = verdicts.get(review.chunkTagId) ?? new Set<boolean>();
+    seen.add(review.isCorrect);
+    verdicts.set(review.chunkTagId, seen);
+  }
+
+  if ([...verdicts.values()].some((seen) => seen.size > 1)) {
+    await prisma.labelingQueueItem.upsert({
+      where: { chunkId },
+      create: { organizationId, chunkId, reason: "DISAGREEMENT", priority: 1 },
+      update: { reason: "DISAGREEMENT", priority: 1, status: "PENDING", resolvedAt: null },
+    });
+    return;
+  }
+
+  if (verdicts.size >= tagCount) {
+    await prisma.labelingQueueItem.updateMany({
+      where: { chunkId, status: "PENDING" },
+      data: { status: "LABELED", resolvedAt: new Date() },
+    });
+  }
+}
+
+// ─── Labeling Queue ──────────────────────────────────────────────────────────
+
+/**
+ * Decides whether a chunk's tags need a human. Splits between funnel stages
+ * outrank plain low confidence; priority rises as the margin or the best
+ * confidence falls.
+ */
+export function classifyLabelingCandidate(
+  tags: Array<{ funnelStage: string; confidence: number }>
+): LabelingCandidate | null {
+  if (tags.length === 0) return null;
+  const [top, runnerUp] = [...tags].sort((a, b) => b.confidence - a.confidence);
+
+  if (
+    runnerUp &&
+    runnerUp.funnelStage !== top.funnelStage &&
+    top.confidence - runnerUp.confidence <= DISAGREEMENT_MARGIN
+  ) {
+    return { reason: "DISAGREEMENT", priority: 1 - (top.confidence - runnerUp.confidence) };
+  }
+  if (top.confidence < LOW_CONFIDENCE_THRESHOLD) {
+    return { reason: "LOW_CONFIDENCE", priority: 1 - top.confidence };
+  }
+  return null;
+}
+
+/**
+ * Pending queue items, highest priority first, with each tag's decision by
+ * `userId` so the reviewer sees what they already answered.
+ */
+export async function listLabelingQueue(
+  prisma: PrismaClient,
+  organizationId: string,
+  options: { userId: string; accessibleAccountIds: string[] | null; limit: number }
+) {
+  const items = await prisma.labelingQueueItem.findMany({
+    where: {
+      organizationId,
+      status: "PENDING",
+      chunk: { transcript: { call: accountScope(options.accessibleAccountIds) } },
+    },
+    orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+    take: options.limit,
+    include: {
+      chunk: {
+        select: {
+          id: true,
+          text: true,
+          speaker: true,
+          startMs: true,
+          tags: { orderBy: { confidence: "desc" } },
+          transcript: {
+            select: {
+              call: { select: { id: true, title: true, occurredAt: true, accountId: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const reviews = await prisma.validationSample.findMany({
+    where: {
+      source: "REVIEW",
+      reviewedByUserId: options.userId,
+      chunkId: { in: items.map((item) => item.chunkId) },
+    },
+    select: { chunkTagId: true, isCorrect: true },
+  });
+  const decisions = new Map(
+    reviews.map((review) => [review.chunkTagId, review.isCorrect] as const)
+  );
+
+  return items.map((item) => ({
+    ...item,
+    chunk: {
+      ...item.chunk,
+      tags: item.chunk.tags.map((tag) => ({ ...tag, reviewedCorrect: decisions.get(tag.id) ?? null })),
+    },
+  }));
+}
+
+/** Removes a chunk from the queue without labeling it. */
+export async function dismissLabelingItem(
+  prisma: PrismaClient,
+  organizationId: string,
+  itemId: string,
+  accessibleAccountIds: string[] | null
+): Promise<boolean> {
+  const result = await prisma.labelingQueueItem.updateMany({
+    where: {
+      id: itemId,
+      organizationId,
+      status: "PENDING",
+      chunk: { transcript: { call: accountScope(accessibleAccountIds) } },
+    },
+    data: { status: "DISMISSED", resolvedAt: new Date() },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Queues the org's recently tagged chunks that need labeling. Chunks that
+ * were ever queued are not queued again.
+ */
+export async function refreshLabelingQueue(
+  prisma: PrismaClient,
+  organizationId: string,
+  since: Date
+): Promise<number> {
+  const chunks = await prisma.transcriptChunk.findMany({
+    where: {
+      transcript: { call: { organizationId } },
+      tags: { some: { createdAt: { gte: since } } },
+      labelingQueueItems: { none: {} },
+    },
+    select: { id: true, tags: { select: { funnelStage: true, confidence: true } } },
+    take: QUEUE_SCAN_LIMIT,
+  });
+
+  const items = chunks.flatMap((chunk) => {
+    const candidate = classifyLabelingCandidate(chunk.tags);
+    return candidate ? [{ organizationId, chunkId: chunk.id, ...candidate }] : [];
+  });
+  if (items.length === 0) return 0;
+
+  const created = await prisma.labelingQueueItem.createMany({
+    data: items,
+    skipDuplicates: true,
+  });
+  return created.count;
+}
+
+// ─── Calibration ─────────────────────────────────────────────────────────────
+
+/**
+ * Refits the org's calibration curve from its reviews and stores the
+ * result. Returns null when there are too few reviews to fit.
+ */
+export async function refitOrganizationCalibration(
+  prisma: PrismaClient,
+  organizationId: string
+) {
+  const samples = await prisma.validationSample.findMany({
+    where: {
+      organizationId,
+      source: "REVIEW",
+      rawConfidence: { not: null },
+      isCorrect: { not: null },
+    },
+    select: { rawConfidence: true, isCorrect: true },
+  });
+  const observations = samples.map((sample) => ({
+    rawConfidence: sample.rawConfidence ?? 0,
+    isCorrect: sample.isCorrect ?? false,
+  }));
+  if (observations.length < MIN_REFIT_SAMPLES) return null;
+
+  const calibrator = new ConfidenceCalibrator(prisma);
+  const report = calibrator.buildCalibration(observations);
+  const calibratedBrierScore =
+    observations.reduce((sum, o) => {
+      const actual = o.isCorrect ? 1 : 0;
+      return sum + (calibrator.adjustConfidence(o.rawConfidence) - actual) ** 2;
+    }, 0) / observations.length;
+
+  return prisma.calibrationReport.create({
+    data: {
+      organizationId,
+      sampleCount: report.sampleCount,
+      brierScore: report.brierScore,
+      calibratedBrierScore,
+      buckets: encodeJsonValue(report.buckets),
+      calibrationCurve: encodeJsonValue(report.calibrationCurve),
+    },
+  });
+}
+
+/**
+ * Nightly pass over every org: queue newly tagged chunks for labeling and
+ * refit calibration for orgs with reviews newer than their last report.
+ */
+export async function runCalibrationRefitSweep(
+  prisma: PrismaClient,
+  now: Date = new Date()
+): Promise<CalibrationRefitSweepResult> {
+  const result: CalibrationRefitSweepResult = {
+    organizationsProcessed: 0,
+    chunksQueued: 0,
+    reportsCreated: 0,
+  };
+  const since = new Date(now.getTime() - QUEUE_SCAN_WINDOW_MS);
+  const organizations = await prisma.organization.findMany({ select: { id: true } });
+
+  for (const { id: organizationId } of organizations) {
+    try {
+      result.chunksQueued += await refreshLabelingQueue(prisma, organizationId, since);
+
+      const [lastReport, lastReview] = await Promise.all([
+        prisma.calibrationReport.findFirst({
+          where: { organizationId },
+          orderBy: { createdAt: "desc" },
+          select: { createdAt: true },
+        }),
+        prisma.validationSample.findFirst({
+          where: { organizationId, source: "REVIEW" },
+          orderBy: { updatedAt: "desc" },
+          select: { updatedAt: true },
+        }),
+      ]);
+      if (lastReview && (!lastReport || lastReview.updatedAt > lastReport.createdAt)) {
+        if (await refitOrganizationCalibration(prisma, organizationId)) {
+          result.reportsCreated++;
+        }
+      }
+      result.organizationsProcessed++;
+    } catch (error) {
+      logger.error("Calibration refit failed for organization", { organizationId, error });
+    }
+  }
+
+  return result;
+}
+
+export function startCalibrationRefitCron(prisma: PrismaClient): cron.ScheduledTask {
+  const task = cron.schedule(
+    "45 4 * * *",
+    async () => {
+      try {
+        const result = await runCalibrationRefitSweep(prisma);
+        logger.info("Calibration refit sweep complete", { ...result });
+      } catch (error) {
+        logger.error("Calibration refit cron failed", { error });
+      }
+    },
+    { timezone: "UTC" }
+  );
+
+  logger.info("Calibration refit cron scheduled at 04:45 UTC");
+  return task;
+}
@@ -4,6 +4,8 @@ import type {
   StoryPromptDefaults,
 } from "../types/story-generation.js";
 import { decodeDataGovernancePolicy } from "../types/json-boundaries.js";
+import { dispatchApprovalRequestEvent } from "./outbound-webhooks.js";
+import { DEFAULT_PAGE_ANALYTICS_RETENTION_DAYS } from "./page-analytics-helpers.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -17,6 +19,7 @@ export interface StoryContextPayload {
   banned_claims?: string[];
   writing_style_guide?: string;
   approved_terminology?: string[];
+  competitors?: string[];
   published_branding?: {
     brand_name?: string;
     logo_url?: string;
@@ -39,6 +42,10 @@ export interface DataGovernancePayload {
   allow_named_story_exports?: boolean;
   rto_target_minutes?: number;
   rpo_target_minutes?: number;
+  story_lint_publish_mode?: "WARN" | "BLOCK_ERRORS" | "BLOCK_WARNINGS";
+  page_analytics_enabled?: boolean;
+  page_analytics_cookies_enabled?: boolean;
+  page_analytics_retention_days?: number;
 }
 
 export interface DeletionRequestRow {
@@ -105,6 +112,7 @@ export class AdminSettingsService {
       bannedClaims: d.banned_claims ?? [],
       writingStyleGuide: d.writing_style_guide ?? "",
       approvedTerminology: d.approved_terminology ?? [],
+      competitors: d.competitors ?? [],
       publishedBranding: {
         brandName: d.published_branding?.brand_name?.trim() || undefined,
         logoUrl: d.published_branding?.logo_url?.trim() || undefined,
@@ -150,6 +158,11 @@ export class AdminSettingsService {
       allow_named_story_exports: d.allow_named_story_exports ?? false,
       rto_target_minutes: d.rto_target_minutes ?? 240,
       rpo_target_minutes: d.rpo_target_minutes ?? 60,
+      story_lint_publish_mode: d.story_lint_publish_mode ?? "WARN",
+      page_analytics_enabled: d.page_analytics_enabled ?? true,
+      page_analytics_cookies_enabled: d.page_analytics_cookies_enabled ?? false,
+      page_analytics_retention_days:
+        d.page_analytics_retention_days ?? DEFAULT_PAGE_ANALYTICS_RETENTION_DAYS,
     };
 
     await this.prisma.orgSettings.upsert({
@@ -200,7 +213,7 @@ export class AdminSettingsService {
     requestedByUserId: string,
     reason: string | null
   ): Promise<ApprovalRequestRecord> {
-    return this.prisma.approvalRequest.create({
+    const request = await this.prisma.approvalRequest.create({
       data: {
         organizationId,
         requestType: "DATA_DELETION",
@@ -211,6 +224,8 @@ export class AdminSettingsService {
         requestPayload: { reason },
       },
     });
+    await dispatchApprovalRequestEvent(this.prisma, request);
+    return request;
   }
 
   async findDeletionRequest(
@@ -231,7 +246,7 @@ export class AdminSettingsService {
     reviewerUserId: string,
     reviewNotes: string | null
   ): Promise<ApprovalRequestRecord> {
-    return this.prisma.approvalRequest.update({
+    const request = await this.prisma.approvalRequest.update({
       where: { id: requestId },
       data: {
         status: "REJECTED",
@@ -240,6 +255,8 @@ export class AdminSettingsService {
         reviewedAt: new Date(),
       },
     });
+    await dispatchApprovalRequestEvent(this.prisma, request);
+    return request;
   }
 
   async completeDeletionRequest(
@@ -247,7 +264,7 @@ export class AdminSettingsService {
     reviewerUserId: string,
     reviewNotes: string | null
   ): Promise<ApprovalRequestRecord> {
-    return this.prisma.approvalRequest.update({
+    const request = await this.prisma.approvalRequest.update({
       where: { id: requestId },
       data: {
         status: "COMPLETED",
@@ -256,5 +273,7 @@ export class AdminSettingsService {
         reviewedAt: new Date(),
       },
     });
+    await dispatchApprovalRequestEvent(this.prisma, request);
+    return request;
   }
 }
@@ -12,6 +12,7 @@
  */
 
 import OpenAI from "openai";
+import { RateLimiter } from "./rate-limiter.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -30,6 +31,13 @@ export interface ChatCompletionOptions {
    * Provider clients ignore this field.
    */
   idempotencyKey?: string;
+  /**
+   * Streams answer text as it is generated. Providers without streaming
+   * support emit the full answer as a single token once it completes.
+   */
+  onToken?: (token: string) => void;
+  /** Aborts the provider request (e.g. when an SSE client disconnects). */
+  signal?: AbortSignal;
 }
 
 export interface ChatCompletionResult {
@@ -39,6 +47,39 @@ export interface ChatCompletionResult {
   totalTokens: number;
 }
 
+/**
+ * Thrown when a completion is aborted via `signal`. `partial` carries the
+ * text generated so far and token counts (estimated when the provider did
+ * not report usage) so trackers can still bill the tokens consumed.
+ */
+export class ChatCompletionAbortedError extends Error {
+  constructor(readonly partial: ChatCompletionResult) {
+    super("Chat completion aborted");
+    this.name = "ChatCompletionAbortedError";
+  }
+}
+
+/** Token counts for text generated before an abort, when the provider reported none. */
+export function estimatePartialResult(
+  messages: ChatMessage[],
+  content: string
+): ChatCompletionResult {
+  const inputTokens = RateLimiter.estimateTokens(messages.map((m) => m.content).join("\n"));
+  const outputTokens = RateLimiter.estimateTokens(content);
+  return { content, inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+function rethrowIfAborted(
+  error: unknown,
+  options: ChatCompletionOptions,
+  content = ""
+): never {
+  if (options.signal?.aborted) {
+    throw new ChatCompletionAbortedError(estimatePartialResult(options.messages, content));
+  }
+  throw error;
+}
+
 export interface AIClient {
   chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResult>;
   readonly providerName: string;
@@ -73,13 +114,17 @@ export class OpenAIClient implements AIClient {
   }
 
   async chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResult> {
+    if (options.onToken) {
+      return this.streamChatCompletion(options, options.onToken);
+    }
+
     const response = await this.client.chat.completions.create({
       model: this.modelName,
       temperature: options.temperature ?? 0.3,
       max_tokens: options.maxTokens ?? 4000,
       messages: options.messages,
       ...(options.jsonMode ? { response_format: { type: "json_object" as const } } : {}),
-    });
+    }, { signal: options.signal }).catch((error: unknown) => rethrowIfAborted(error, options));
 
     const content = response.choices[0]?.message?.content ?? "";
     const usage = response.usage;
@@ -91,6 +136,45 @@ export class OpenAIClient implements AIClient {
       totalTokens: usage?.total_tokens ?? 0,
     };
   }
+
+  private async streamChatCompletion(
+    options: ChatCompletionOptions,
+    onToken: (token: string) => void
+  ): Promise<ChatCompletionResult> {
+    let content = "";
+    try {
+      const stream = await this.client.chat.completions.create({
+        model: this.modelName,
+        temperature: options.temperature ?? 0.3,
+        max_tokens: options.maxTokens ?? 4000,
+        messages: options.messages,
+        stream: true,
+        stream_options: { include_usage: true },
+        ...(options.jsonMode ? { response_format: { type: "json_object" as const } } : {}),
+      }, { signal: options.signal });
+
+      let usage: OpenAI.CompletionUsage | undefined;
+      for await (const chunk of stream) {
+        if (chunk.usage) usage = chunk.usage;
+        const token = chunk.choices[0]?.delta?.content ?? "";
+        if (token.length === 0) continue;
+        content += token;
+        onToken(token);
+      }
+
+      if (!usage) {
+        return estimatePartialResult(options.messages, content);
+      }
+      return {
+        content,
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+      };
+    } catch (error) {
+      rethrowIfAborted(error, options, content);
+    }
+  }
 }
 
 // ─── Anthropic Client ────────────────────────────────────────────────────────
@@ -140,7 +224,8 @@ export class AnthropicClient implements AIClient {
         "anthropic-version": "2023-06-01",
       },
       body: JSON.stringify(body),
-    });
+      signal: options.signal,
+    }).catch((error: unknown) => rethrowIfAborted(error, options));
 
     if (!response.ok) {
       const errorBody = await response.text();
@@ -157,6 +242,8 @@ export class AnthropicClient implements AIClient {
       .map((block) => block.text ?? "")
       .join("");
 
+    if (content) options.onToken?.(content);
+
     return {
       content,
       inputTokens: data.usage?.input_tokens ?? 0,
@@ -209,7 +296,8 @@ export class GoogleGeminiClient implements AIClient {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(body),
-    });
+      signal: options.signal,
+    }).catch((error: unknown) => rethrowIfAborted(error, options));
 
     if (!response.ok) {
       const errorBody = await response.text();
@@ -230,6 +318,8 @@ export class GoogleGeminiClient implements AIClient {
     const content =
       data.candidates?.[0]?.content?.parts?.map((p) => p.text).join("") ?? "";
 
+    if (content) options.onToken?.(content);
+
     return {
       content,
       inputTokens: data.usageMetadata?.promptTokenCount ?? 0,
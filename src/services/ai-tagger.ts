@@ -9,9 +9,13 @@
  *   - Batch processing with configurable concurrency
  *   - Token-bucket rate limiter respecting OpenAI TPM/RPM limits
  *   - Local SHA-256 cache to skip redundant LLM calls
- *   - Confidence calibration via isotonic regression against a validation set
+ *   - Confidence calibration via isotonic regression against a validation set,
+ *     using the org's latest reviewer-fitted curve when it has one
+ *   - Non-English chunks are classified against the same English taxonomy
+ *   - Org-defined custom topics are classified alongside the built-in taxonomy
  */
 
+import { createHash } from "node:crypto";
 import OpenAI from "openai";
 import type { PrismaClient } from "@prisma/client";
 import type { AIClient } from "./ai-client.js";
@@ -20,19 +24,28 @@ import {
   ALL_TOPICS,
   STAGE_TOPICS as _STAGE_TOPICS,
   TOPIC_LABELS as _TOPIC_LABELS,
-  type TaxonomyTopic,
+  type TopicKey,
 } from "../types/taxonomy.js";
 import { RateLimiter } from "./rate-limiter.js";
 import { TagCache, type CachedTag } from "./tag-cache.js";
 import { ConfidenceCalibrator } from "./confidence-calibrator.js";
 import { resolveOperationRuntimePolicy } from "./ai-operation-policy.js";
+import { LANGUAGE_NAMES, normalizeLanguageCode } from "../lib/language-detection.js";
+import {
+  customTaxonomyFingerprint,
+  formatCustomTopicsForPrompt,
+  loadCustomTopics,
+  type CustomTopicDefinition,
+} from "./custom-taxonomy.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
 export interface TagResult {
   funnelStage: FunnelStage;
-  topic: TaxonomyTopic;
+  topic: TopicKey;
   confidence: number;
+  /** Confidence before the org's calibration curve was applied. */
+  rawConfidence?: number;
 }
 
 export interface ChunkTaggingResult {
@@ -44,6 +57,10 @@ export interface ChunkTaggingResult {
 interface TagCallOptions {
   aiClient?: AIClient;
   idempotencyKeyPrefix?: string;
+  /** ISO 639-1 language of the chunks; defaults to English. */
+  language?: string | null;
+  /** The org's custom topics; loaded from the database when omitted. */
+  customTopics?: CustomTopicDefinition[];
 }
 
 export interface AITaggerOptions {
@@ -135,7 +152,26 @@ RULES:
 2. Only tag what is clearly present — do not infer or speculate.
 3. Confidence should reflect how strongly the segment evidences the topic.
 4. Look especially for QUANTIFIED VALUE (numbers, percentages, dollar amounts) which signals BOFU topics.
-5. Respond ONLY with valid JSON.`;
+5. Segments may be in any language. Classify them by meaning against this English taxonomy and always answer with the exact topic keys listed — never translate them.
+6. Respond ONLY with valid JSON.`;
+
+/**
+ * Tells the model which language the segment is in, so it reads it
+ * natively instead of guessing. Nothing is added for English.
+ */
+function languageInstruction(language: string | null | undefined): string {
+  const code = normalizeLanguageCode(language);
+  if (!code || code === "en") return "";
+  return `\nThe segment is in ${LANGUAGE_NAMES[code]}. Classify it against the English taxonomy; its currency and number formats follow ${LANGUAGE_NAMES[code]} conventions.\n`;
+}
+
+/**
+ * Short hash of the system prompt, recorded with evaluation runs so a
+ * regression can be traced to the prompt edit that caused it.
+ */
+export function taggerPromptFingerprint(): string {
+  return createHash("sha256").update(TAGGER_SYSTEM_PROMPT).digest("hex").slice(0, 12);
+}
 
 const TAGGING_RUNTIME_POLICY = resolveOperationRuntimePolicy({
   operation: "TRANSCRIPT_TAGGING",
@@ -172,33 +208,45 @@ export class AITagger {
   // ─── Public API ─────────────────────────────────────────────────────
 
   /**
-   * Tags a single transcript chunk against the taxonomy.
-   * Checks the local cache first; on miss, calls the LLM with rate limiting.
-   * Applies confidence calibration if a calibrator is present.
+   * Tags a single transcript chunk against the taxonomy, plus any custom
+   * topics passed in. Checks the local cache first; on miss, calls the LLM
+   * with rate limiting. Applies confidence calibration if a calibrator is
+   * present.
    */
   async tagChunk(
     chunkText: string,
-    options?: { aiClient?: AIClient; idempotencyKey?: string }
+    options?: {
+      aiClient?: AIClient;
+      idempotencyKey?: string;
+      language?: string | null;
+      customTopics?: CustomTopicDefinition[];
+    }
   ): Promise<{ tags: TagResult[]; cached: boolean }> {
+    const customTopics = options?.customTopics ?? [];
+    // Tags depend on the topics offered, so the cache is keyed per taxonomy.
+    const fingerprint = customTaxonomyFingerprint(customTopics);
+    const cacheKey = fingerprint ? `${fingerprint}\n${chunkText}` : chunkText;
+
     // ── Cache lookup ───────────────────────────────────────────────
-    const cached = this.cache.get(chunkText);
+    const cached = this.cache.get(cacheKey);
     if (cached) {
-      return { tags: this.fromCachedTags(cached), cached: true };
+      return { tags: this.fromCachedTags(cached, customTopics), cached: true };
     }
 
     // ── Rate-limited LLM call ─────────────────────────────────────
+    const systemPrompt = TAGGER_SYSTEM_PROMPT + formatCustomTopicsForPrompt(customTopics);
     const estimatedTokens = RateLimiter.estimateTokens(
-      TAGGER_SYSTEM_PROMPT + chunkText
+      systemPrompt + chunkText
     ) + 500; // +500 for expected completion
 
     await this.rateLimiter.acquire(estimatedTokens);
 
     const messages = [
-      { role: "system" as const, content: TAGGER_SYSTEM_PROMPT },
+      { role: "system" as const, content: systemPrompt },
       {
         role: "user" as const,
         content: `Classify this transcript segment. Return JSON with a "tags" array where each element has "funnel_stage", "topic", and "confidence".
-
+${languageInstruction(options?.language)}
 TRANSCRIPT SEGMENT:
 """
 ${chunkText}
@@ -238,7 +286,7 @@ ${chunkText}
       return { tags: [], cached: false };
     }
 
-    let tags = this.parseTagResponse(content);
+    let tags = this.parseTagResponse(content, customTopics);
 
     // ── Confidence calibration ────────────────────────────────────
     if (this.calibrator?.calibrated) {
@@ -249,14 +297,15 @@ ${chunkText}
     }
 
     // ── Cache store ───────────────────────────────────────────────
-    this.cache.set(chunkText, this.toCachedTags(tags));
+    this.cache.set(cacheKey, this.toCachedTags(tags));
 
     return { tags, cached: false };
   }
 
   /**
    * Tags all chunks for an entire call transcript with concurrency-limited
-   * batch processing. Persists tags to the database.
+   * batch processing, against the built-in taxonomy and the org's custom
+   * topics. Persists tags to the database.
    */
   async tagCallTranscript(
     callId: string,
@@ -264,22 +313,48 @@ ${chunkText}
   ): Promise<ChunkTaggingResult[]> {
     const transcript = await this.prisma.transcript.findUnique({
       where: { callId },
-      include: { chunks: { orderBy: { chunkIndex: "asc" } } },
+      include: {
+        chunks: { orderBy: { chunkIndex: "asc" } },
+        call: { select: { organizationId: true } },
+      },
     });
 
     if (!transcript) {
       throw new Error(`No transcript found for call ${callId}`);
     }
 
+    const customTopics =
+      options?.customTopics ??
+      (await loadCustomTopics(this.prisma, transcript.call.organizationId));
+
     // Process chunks in concurrency-limited batches
-    const results = await this.processChunksWithConcurrency(
+    const tagged = await this.processChunksWithConcurrency(
       transcript.chunks.map((c: { id: string; text: string }) => ({
         id: c.id,
         text: c.text,
       })),
-      options
+      { ...options, language: options?.language ?? transcript.language, customTopics }
     );
 
+    // Apply the org's fitted calibration curve, keeping the raw score for
+    // reviewer feedback. An instance-wide calibrator already adjusted them.
+    const orgCalibrator = this.calibrator?.calibrated
+      ? null
+      : await ConfidenceCalibrator.forOrganization(
+          this.prisma,
+          transcript.call.organizationId
+        );
+    const results = orgCalibrator
+      ? tagged.map((result) => ({
+          ...result,
+          tags: result.tags.map((tag) => ({
+            ...tag,
+            rawConfidence: tag.confidence,
+            confidence: orgCalibrator.adjustConfidence(tag.confidence),
+          })),
+        }))
+      : tagged;
+
     // Persist chunk-level tags (concurrent DB writes are fine)
     await Promise.all(
       results.map((result) =>
@@ -298,9 +373,11 @@ ${chunkText}
                 funnelStage: tag.funnelStage,
                 topic: tag.topic,
                 confidence: tag.confidence,
+                rawConfidence: tag.rawConfidence ?? tag.confidence,
               },
               update: {
                 confidence: tag.confidence,
+                rawConfidence: tag.rawConfidence ?? tag.confidence,
               },
             })
           )
@@ -429,6 +506,8 @@ ${chunkText}
         const { tags, cached } = await this.tagChunk(chunk.text, {
           aiClient: options?.aiClient,
           idempotencyKey,
+          language: options?.language,
+          customTopics: options?.customTopics,
         });
         results[idx] = { chunkId: chunk.id, tags, cached };
       }
@@ -444,7 +523,11 @@ ${chunkText}
     return results;
   }
 
-  private parseTagResponse(content: string): TagResult[] {
+  private parseTagResponse(
+    content: string,
+    customTopics: CustomTopicDefinition[] = []
+  ): TagResult[] {
+    const customStages = new Map(customTopics.map((t) => [t.key as string, t.funnelStage]));
     try {
       const parsed = JSON.parse(content);
       const rawTags: Array<{
@@ -458,14 +541,15 @@ ${chunkText}
           const validStage = Object.values(FunnelStage).includes(
             t.funnel_stage as FunnelStage
           );
-          const validTopic = (ALL_TOPICS as readonly string[]).includes(
-            t.topic
-          );
+          const validTopic =
+            (ALL_TOPICS as readonly string[]).includes(t.topic) ||
+            customStages.has(t.topic);
           return validStage && validTopic;
         })
         .map((t) => ({
-          funnelStage: t.funnel_stage as FunnelStage,
-          topic: t.topic as TaxonomyTopic,
+          // Custom topics always carry the stage the org assigned them
+          funnelStage: customStages.get(t.topic) ?? (t.funnel_stage as FunnelStage),
+          topic: t.topic as TopicKey,
           confidence: Math.max(0, Math.min(1, t.confidence)),
         }));
     } catch {
@@ -518,18 +602,23 @@ ${chunkText}
     }));
   }
 
-  private fromCachedTags(cached: CachedTag[]): TagResult[] {
+  private fromCachedTags(
+    cached: CachedTag[],
+    customTopics: CustomTopicDefinition[] = []
+  ): TagResult[] {
+    const customKeys = new Set<string>(customTopics.map((t) => t.key));
     return cached
       .filter((t) => {
         const validStage = Object.values(FunnelStage).includes(
           t.funnelStage as FunnelStage
         );
-        const validTopic = (ALL_TOPICS as readonly string[]).includes(t.topic);
+        const validTopic =
+          (ALL_TOPICS as readonly string[]).includes(t.topic) || customKeys.has(t.topic);
         return validStage && validTopic;
       })
       .map((t) => ({
         funnelStage: t.funnelStage as FunnelStage,
-        topic: t.topic as TaxonomyTopic,
+        topic: t.topic as TopicKey,
         confidence: t.confidence,
       }));
   }
@@ -324,6 +324,17 @@ export class AIUsageTracker {
     };
   }
 
+  /**
+   * Returns org-wide AI spend (in cents) since the given instant.
+   */
+  async getOrgSpendCents(organizationId: string, since: Date): Promise<number> {
+    const agg = await this.prisma.aIUsageRecord.aggregate({
+      where: { organizationId, createdAt: { gte: since } },
+      _sum: { costCents: true },
+    });
+    return agg._sum.costCents ?? 0;
+  }
+
   /**
    * Returns usage history for reporting.
    */
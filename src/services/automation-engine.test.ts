@@ -0,0 +1,208 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import {
+  AutomationEngine,
+  compareAutomationThreshold,
+  renderAutomationTemplate,
+  syncAutomationRuleSchedule,
+} from "./automation-engine.js";
+
+function makeRule(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "rule-1",
+    organizationId: "org-1",
+    name: "Backlog alert",
+    description: null,
+    enabled: true,
+    triggerType: "THRESHOLD",
+    metric: "failed_integration_runs_24h",
+    operator: ">=",
+    threshold: 3,
+    scheduleCron: null,
+    eventType: null,
+    deliveryType: "EMAIL",
+    deliveryTarget: "ops@example.com",
+    payloadTemplate: null,
+    lastRunAt: null,
+    lastRunStatus: null,
+    lastRunError: null,
+    createdAt: new Date("2026-10-01T00:00:00.000Z"),
+    updatedAt: new Date("2026-10-01T00:00:00.000Z"),
+    ...overrides,
+  } as any;
+}
+
+describe("renderAutomationTemplate", () => {
+  it("substitutes nested placeholders and blanks unknown paths", () => {
+    const rendered = renderAutomationTemplate(
+      {
+        title: "{{ rule_name }} fired",
+        text: "Story {{event.story_id}} for {{ missing.value }}!",
+        tags: ["{{trigger}}"],
+      },
+      { rule_name: "Stories", trigger: "EVENT", event: { story_id: "s-1" } }
+    );
+
+    expect(rendered).toEqual({
+      title: "Stories fired",
+      text: "Story s-1 for !",
+      tags: ["EVENT"],
+    });
+  });
+});
+
+describe("compareAutomationThreshold", () => {
+  it("applies each operator", () => {
+    expect(compareAutomationThreshold(5, ">", 4)).toBe(true);
+    expect(compareAutomationThreshold(4, ">=", 4)).toBe(true);
+    expect(compareAutomationThreshold(4, "<", 4)).toBe(false);
+    expect(compareAutomationThreshold(3, "<=", 4)).toBe(true);
+    expect(compareAutomationThreshold(4, "==", 4)).toBe(true);
+  });
+});
+
+describe("syncAutomationRuleSchedule", () => {
+  it("upserts a scheduler for enabled SCHEDULE rules and removes it otherwise", async () => {
+    const queue = {
+      upsertJobScheduler: vi.fn().mockResolvedValue(undefined),
+      removeJobScheduler: vi.fn().mockResolvedValue(true),
+    } as any;
+
+    await syncAutomationRuleSchedule(queue, makeRule({
+      triggerType: "SCHEDULE",
+      scheduleCron: "0 9 * * 1",
+    }));
+    expect(queue.upsertJobScheduler).toHaveBeenCalledWith(
+      "automation-rule:rule-1",
+      { pattern: "0 9 * * 1", tz: "UTC" },
+      expect.objectContaining({
+        data: { kind: "scheduled_rule", ruleId: "rule-1", organizationId: "org-1" },
+      })
+    );
+
+    await syncAutomationRuleSchedule(queue, makeRule({
+      triggerType: "SCHEDULE",
+      scheduleCron: "0 9 * * 1",
+      enabled: false,
+    }));
+    expect(queue.removeJobScheduler).toHaveBeenCalledWith("automation-rule:rule-1");
+  });
+});
+
+describe("AutomationEngine", () => {
+  const prisma = {
+    automationRule: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+    },
+    automationRuleRun: {
+      create: vi.fn(),
+    },
+    integrationRun: {
+      count: vi.fn(),
+    },
+  } as any;
+  const emailService = {
+    sendAutomationAlert: vi.fn(),
+  } as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.automationRuleRun.create.mockResolvedValue({});
+    prisma.automationRule.update.mockResolvedValue({});
+    emailService.sendAutomationAlert.mockResolvedValue(undefined);
+  });
+
+  it("fires a breached threshold rule and records the run", async () => {
+    prisma.automationRule.findMany.mockResolvedValue([makeRule()]);
+    prisma.integrationRun.count.mockResolvedValue(4);
+    const engine = new AutomationEngine(prisma, { emailService });
+
+    const results = await engine.evaluateThresholdRules();
+
+    expect(results).toEqual([{ ruleId: "rule-1", status: "SUCCESS", error: null }]);
+    expect(emailService.sendAutomationAlert).toHaveBeenCalledWith(
+      expect.objectContaining({ to: ["ops@example.com"], ruleName: "Backlog alert" })
+    );
+    expect(prisma.automationRuleRun.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        ruleId: "rule-1",
+        trigger: "THRESHOLD",
+        status: "SUCCESS",
+        metricValue: 4,
+      }),
+    });
+    expect(prisma.automationRule.update).toHaveBeenCalledWith({
+      where: { id: "rule-1" },
+      data: expect.objectContaining({ lastRunStatus: "SUCCESS", lastRunError: null }),
+    });
+  });
+
+  it("skips threshold rules that are not breached or still cooling down", async () => {
+    const now = new Date("2026-10-19T12:00:00.000Z");
+    prisma.automationRule.findMany.mockResolvedValue([
+      makeRule({ id: "rule-quiet", threshold: 10 }),
+      makeRule({
+        id: "rule-cooling",
+        lastRunStatus: "SUCCESS",
+        lastRunAt: new Date("2026-10-19T11:50:00.000Z"),
+      }),
+    ]);
+    prisma.integrationRun.count.mockResolvedValue(4);
+    const engine = new AutomationEngine(prisma, { emailService });
+
+    const results = await engine.evaluateThresholdRules(now);
+
+    expect(results).toEqual([]);
+    expect(prisma.integrationRun.count).toHaveBeenCalledTimes(1);
+    expect(prisma.automationRuleRun.create).not.toHaveBeenCalled();
+  });
+
+  it("renders the payload template for event rules", async () => {
+    prisma.automationRule.findMany.mockResolvedValue([
+      makeRule({
+        triggerType: "EVENT",
+        eventType: "story_generated",
+        metric: null,
+        operator: null,
+        threshold: null,
+        payloadTemplate: { title: "New story {{event.story_id}}" },
+      }),
+    ]);
+    const engine = new AutomationEngine(prisma, { emailService });
+
+    await engine.handleEvent({
+      organizationId: "org-1",
+      eventType: "story_generated",
+      occurredAt: "2026-10-19T12:00:00.000Z",
+      payload: { story_id: "story-9" },
+    });
+
+    expect(prisma.automationRule.findMany).toHaveBeenCalledWith({
+      where: {
+        organizationId: "org-1",
+        triggerType: "EVENT",
+        enabled: true,
+        eventType: "story_generated",
+      },
+    });
+    expect(emailService.sendAutomationAlert).toHaveBeenCalledWith(
+      expect.objectContaining({ title: "New story story-9" })
+    );
+  });
+
+  it("records a failed run when delivery is not configured", async () => {
+    const engine = new AutomationEngine(prisma);
+
+    const result = await engine.runManually(makeRule({ triggerType: "SCHEDULE", metric: null }));
+
+    expect(result).toEqual({
+      ruleId: "rule-1",
+      status: "FAILED",
+      error: "email_delivery_not_configured",
+    });
+    expect(prisma.automationRuleRun.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ trigger: "MANUAL", status: "FAILED" }),
+    });
+  });
+});
@@ -0,0 +1,595 @@
+/**
+ * Automation Engine
+ *
+ * Evaluates org-defined AutomationRule records and delivers their output:
+ *   - THRESHOLD rules compare a named metric against a threshold on a fixed
+ *     evaluation interval (with a cooldown so a breached metric does not
+ *     page every few minutes).
+ *   - SCHEDULE rules fire on their own cron pattern via a per-rule BullMQ
+ *     job scheduler.
+ *   - EVENT rules fire when a matching domain event is emitted.
+ *
+ * Each firing renders the rule's payloadTemplate, delivers it through the
+ * existing Slack / email / outbound-webhook code and records an
+ * AutomationRuleRun row plus the rule's lastRun* summary fields.
+ */
+
+import crypto from "crypto";
+import type {
+  AutomationRule,
+  AutomationDeliveryType,
+  AutomationTriggerType,
+  PrismaClient,
+} from "@prisma/client";
+import type { Queue } from "bullmq";
+import cron from "node-cron";
+import logger from "../lib/logger.js";
+import { decodeJsonObject, encodeJsonValue } from "../types/json-boundaries.js";
+import type { DomainEvent } from "../lib/domain-events.js";
+import { EntityResolutionQueueService } from "./entity-resolution-queue.js";
+import type { AIUsageTracker } from "./ai-usage-tracker.js";
+import type { EmailService } from "./email.js";
+import { assertSlackWebhookUrl, postSlackWebhook } from "./slack-approval-notifier.js";
+import {
+  deliverWebhookToSubscription,
+  listOutboundWebhookSubscriptions,
+} from "./outbound-webhooks.js";
+import {
+  OUTBOUND_WEBHOOK_DELIVERABLE_EVENTS,
+  getOutboundWebhookEventVersion,
+} from "../contracts/outbound-webhook-events.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export const AUTOMATION_METRICS = [
+  "unresolved_calls",
+  "unmatched_calls",
+  "ai_spend_cents_today",
+  "ai_spend_cents_month",
+  "failed_integration_runs_24h",
+] as const;
+
+export type AutomationMetric = (typeof AUTOMATION_METRICS)[number];
+
+export const AUTOMATION_OPERATORS = [">", ">=", "<", "<=", "=="] as const;
+
+export type AutomationOperator = (typeof AUTOMATION_OPERATORS)[number];
+
+/** Domain events an EVENT rule can subscribe to. */
+export const AUTOMATION_EVENT_TYPES = OUTBOUND_WEBHOOK_DELIVERABLE_EVENTS.filter(
+  (event) => event !== "webhook.test" && event !== "automation_rule_triggered"
+);
+
+export type AutomationRunTrigger = AutomationTriggerType | "MANUAL";
+
+export type AutomationRunStatus = "SUCCESS" | "FAILED";
+
+export type AutomationJobData =
+  | { kind: "evaluate_thresholds" }
+  | { kind: "scheduled_rule"; ruleId: string; organizationId: string }
+  | {
+      kind: "event";
+      organizationId: string;
+      eventType: string;
+      occurredAt: string;
+      payload: Record<string, unknown>;
+    };
+
+export interface AutomationRunResult {
+  ruleId: string;
+  status: AutomationRunStatus;
+  error: string | null;
+}
+
+export interface AutomationMessage {
+  title: string;
+  text: string;
+  data: Record<string, unknown>;
+}
+
+/** Subset of the BullMQ queue API needed to keep per-rule schedules in sync. */
+export type AutomationScheduleQueue = Pick<
+  Queue<AutomationJobData>,
+  "upsertJobScheduler" | "removeJobScheduler"
+>;
+
+interface RunContext {
+  trigger: AutomationRunTrigger;
+  metricValue?: number | null;
+  event?: DomainEvent | null;
+}
+
+const DEFAULT_THRESHOLD_COOLDOWN_MINUTES = 60;
+
+// ─── Pure helpers ────────────────────────────────────────────────────────────
+
+export function isAutomationMetric(value: string | null | undefined): value is AutomationMetric {
+  return !!value && (AUTOMATION_METRICS as readonly string[]).includes(value);
+}
+
+export function isAutomationOperator(
+  value: string | null | undefined
+): value is AutomationOperator {
+  return !!value && (AUTOMATION_OPERATORS as readonly string[]).includes(value);
+}
+
+export function isValidAutomationCron(expression: string): boolean {
+  return cron.validate(expression);
+}
+
+export function compareAutomationThreshold(
+  value: number,
+  operator: AutomationOperator,
+  threshold: number
+): boolean {
+  switch (operator) {
+    case ">":
+      return value > threshold;
+    case ">=":
+      return value >= threshold;
+    case "<":
+      return value < threshold;
+    case "<=":
+      return value <= threshold;
+    case "==":
+      return value === threshold;
+  }
+}
+
+function lookupPath(context: Record<string, unknown>, path: string): unknown {
+  let current: unknown = context;
+  for (const segment of path.split(".")) {
+    if (!current || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function stringifyTemplateValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return JSON.stringify(value);
+}
+
+/**
+ * Renders `{{ path.to.value }}` placeholders in every string of a JSON
+ * template. Unknown placeholders render as an empty string.
+ */
+export function renderAutomationTemplate(
+  template: unknown,
+  context: Record<string, unknown>
+): unknown {
+  if (typeof template === "string") {
+    return template.replace(/\{\{\s*([a-zA-Z0-9_.]+)\s*\}\}/g, (_match, path: string) =>
+      stringifyTemplateValue(lookupPath(context, path))
+    );
+  }
+  if (Array.isArray(template)) {
+    return template.map((item) => renderAutomationTemplate(item, context));
+  }
+  if (template && typeof template === "object") {
+    return Object.fromEntries(
+      Object.entries(template as Record<string, unknown>).map(([key, value]) => [
+        key,
+        renderAutomationTemplate(value, context),
+      ])
+    );
+  }
+  return template;
+}
+
+export function automationScheduleKey(ruleId: string): string {
+  return `automation-rule:${ruleId}`;
+}
+
+function parseCooldownMinutes(raw: string | undefined): number {
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    return DEFAULT_THRESHOLD_COOLDOWN_MINUTES;
+  }
+  return Math.floor(parsed);
+}
+
+function splitRecipients(target: string): string[] {
+  return target
+    .split(/[,;\s]+/)
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+}
+
+// ─── Scheduling ──────────────────────────────────────────────────────────────
+
+/**
+ * Creates, updates or removes the BullMQ job scheduler backing a SCHEDULE
+ * rule. Safe to call for any rule: non-schedule or disabled rules simply
+ * have their scheduler removed.
+ */
+export async function syncAutomationRuleSchedule(
+  queue: AutomationScheduleQueue,
+  rule: Pick<
+    AutomationRule,
+    "id" | "organizationId" | "enabled" | "triggerType" | "scheduleCron"
+  >
+): Promise<void> {
+  const key = automationScheduleKey(rule.id);
+  if (
+    rule.enabled &&
+    rule.triggerType === "SCHEDULE" &&
+    rule.scheduleCron &&
+    isValidAutomationCron(rule.scheduleCron)
+  ) {
+    await queue.upsertJobScheduler(
+      key,
+      { pattern: rule.scheduleCron, tz: "UTC" },
+      {
+        name: "scheduled-rule",
+        data: {
+          kind: "scheduled_rule",
+          ruleId: rule.id,
+          organizationId: rule.organizationId,
+        },
+      }
+    );
+    return;
+  }
+  await queue.removeJobScheduler(key);
+}
+
+export async function removeAutomationRuleSchedule(
+  queue: AutomationScheduleQueue,
+  ruleId: string
+): Promise<void> {
+  await queue.removeJobScheduler(automationScheduleKey(ruleId));
+}
+
+// ─── Engine ──────────────────────────────────────────────────────────────────
+
+export class AutomationEngine {
+  private entityResolutionQueue: EntityResolutionQueueService;
+  private thresholdCooldownMs: number;
+
+  constructor(
+    private prisma: PrismaClient,
+    private deps: {
+      emailService?: EmailService;
+      aiUsageTracker?: AIUsageTracker;
+    } = {}
+  ) {
+    this.entityResolutionQueue = new EntityResolutionQueueService(prisma);
+    this.thresholdCooldownMs =
+      parseCooldownMinutes(process.env.AUTOMATION_THRESHOLD_COOLDOWN_MINUTES) *
+      60 *
+      1000;
+  }
+
+  /**
+   * Entry point for the automation queue worker.
+   */
+  async handleJob(data: AutomationJobData): Promise<AutomationRunResult[]> {
+    switch (data.kind) {
+      case "evaluate_thresholds":
+        return this.evaluateThresholdRules();
+      case "scheduled_rule":
+        return this.runScheduledRule(data.ruleId, data.organizationId);
+      case "event":
+        return this.handleEvent({
+          organizationId: data.organizationId,
+          eventType: data.eventType,
+          occurredAt: data.occurredAt,
+          payload: data.payload,
+        });
+    }
+  }
+
+  /**
+   * Re-registers job schedulers for every enabled SCHEDULE rule. Called at
+   * worker start-up so schedules survive a Redis flush.
+   */
+  async reconcileSchedules(queue: AutomationScheduleQueue): Promise<number> {
+    const rules = await this.prisma.automationRule.findMany({
+      where: { triggerType: "SCHEDULE", enabled: true },
+    });
+    for (const rule of rules) {
+      await syncAutomationRuleSchedule(queue, rule);
+    }
+    return rules.length;
+  }
+
+  async resolveMetric(organizationId: string, metric: AutomationMetric): Promise<number> {
+    switch (metric) {
+      case "unresolved_calls": {
+        const stats = await this.entityResolutionQueue.getQueueStats(organizationId);
+        return stats.totalUnresolved;
+      }
+      case "unmatched_calls": {
+        const stats = await this.entityResolutionQueue.getQueueStats(organizationId);
+        return stats.noMatch;
+      }
+      case "ai_spend_cents_today":
+      case "ai_spend_cents_month": {
+        if (!this.deps.aiUsageTracker) {
+          throw new Error("metric_unavailable");
+        }
+        const now = new Date();
+        const since =
+          metric === "ai_spend_cents_today"
+            ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+            : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+        return this.deps.aiUsageTracker.getOrgSpendCents(organizationId, since);
+      }
+      case "failed_integration_runs_24h":
+        return this.prisma.integrationRun.count({
+          where: {
+            organizationId,
+            status: "FAILED",
+            startedAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+          },
+        });
+    }
+  }
+
+  async evaluateThresholdRules(now = new Date()): Promise<AutomationRunResult[]> {
+    const rules = await this.prisma.automationRule.findMany({
+      where: { triggerType: "THRESHOLD", enabled: true },
+    });
+    const metricCache = new Map<string, number>();
+    const results: AutomationRunResult[] = [];
+
+    for (const rule of rules) {
+      if (
+        !isAutomationMetric(rule.metric) ||
+        !isAutomationOperator(rule.operator) ||
+        rule.threshold === null
+      ) {
+        continue;
+      }
+
+      const cacheKey = `${rule.organizationId}:${rule.metric}`;
+      let value = metricCache.get(cacheKey);
+      if (value === undefined) {
+        try {
+          value = await this.resolveMetric(rule.organizationId, rule.metric);
+        } catch (err) {
+          logger.warn("Automation metric resolution failed", {
+            organizationId: rule.organizationId,
+            ruleId: rule.id,
+            metric: rule.metric,
+            error: err instanceof Error ? err.message : String(err),
+          });
+          continue;
+        }
+        metricCache.set(cacheKey, value);
+      }
+
+      if (!compareAutomationThreshold(value, rule.operator, rule.threshold)) {
+        continue;
+      }
+
+      const inCooldown =
+        rule.lastRunStatus === "SUCCESS" &&
+        rule.lastRunAt !== null &&
+        now.getTime() - rule.lastRunAt.getTime() < this.thresholdCooldownMs;
+      if (inCooldown) {
+        continue;
+      }
+
+      results.push(await this.runRule(rule, { trigger: "THRESHOLD", metricValue: value }));
+    }
+
+    return results;
+  }
+
+  async runScheduledRule(
+    ruleId: string,
+    organizationId: string
+  ): Promise<AutomationRunResult[]> {
+    const rule = await this.prisma.automationRule.findFirst({
+      where: { id: ruleId, organizationId, triggerType: "SCHEDULE", enabled: true },
+    });
+    if (!rule) {
+      return [];
+    }
+    return [await this.runRule(rule, { trigger: "SCHEDULE" })];
+  }
+
+  async handleEvent(event: DomainEvent): Promise<AutomationRunResult[]> {
+    const rules = await this.prisma.automationRule.findMany({
+      where: {
+        organizationId: event.organizationId,
+        triggerType: "EVENT",
+        enabled: true,
+        eventType: event.eventType,
+      },
+    });
+    const results: AutomationRunResult[] = [];
+    for (const rule of rules) {
+      results.push(await this.runRule(rule, { trigger: "EVENT", event }));
+    }
+    return results;
+  }
+
+  /**
+   * Runs a rule immediately regardless of its trigger. THRESHOLD rules
+   * include the current metric value so the rendered payload is realistic.
+   */
+  async runManually(rule: AutomationRule): Promise<AutomationRunResult> {
+    let metricValue: number | null = null;
+    if (rule.triggerType === "THRESHOLD" && isAutomationMetric(rule.metric)) {
+      metricValue = await this.resolveMetric(rule.organizationId, rule.metric).catch(
+        () => null
+      );
+    }
+    return this.runRule(rule, { trigger: "MANUAL", metricValue });
+  }
+
+  async listRuns(organizationId: string, ruleId: string, limit = 50) {
+    return this.prisma.automationRuleRun.findMany({
+      where: { organizationId, ruleId },
+      orderBy: { createdAt: "desc" },
+      take: Math.max(1, Math.min(200, limit)),
+    });
+  }
+
+  buildMessage(rule: AutomationRule, context: RunContext): AutomationMessage {
+    const templateContext: Record<string, unknown> = {
+      rule: { id: rule.id, name: rule.name, description: rule.description },
+      rule_name: rule.name,
+      organization_id: rule.organizationId,
+      trigger: context.trigger,
+      triggered_at: new Date().toISOString(),
+      metric: rule.metric,
+      metric_value: context.metricValue ?? null,
+      operator: rule.operator,
+      threshold: rule.threshold,
+      event_type: context.event?.eventType ?? null,
+      event: context.event?.payload ?? {},
+    };
+
+    const defaultTitle = `Automation: ${rule.name}`;
+    let defaultText: string;
+    if (context.trigger === "THRESHOLD" || rule.triggerType === "THRESHOLD") {
+      defaultText = `${rule.metric ?? "metric"} is ${context.metricValue ?? "unknown"} (rule: ${rule.operator ?? "?"} ${rule.threshold ?? "?"}).`;
+    } else if (context.event) {
+      defaultText = `Event ${context.event.eventType} occurred.`;
+    } else {
+      defaultText = `Automation "${rule.name}" ran.`;
+    }
+
+    const template = decodeJsonObject(rule.payloadTemplate);
+    const rendered = decodeJsonObject(renderAutomationTemplate(template, templateContext));
+
+    return {
+      title:
+        typeof rendered.title === "string" && rendered.title.trim()
+          ? rendered.title
+          : defaultTitle,
+      text:
+        typeof rendered.text === "string" && rendered.text.trim()
+          ? rendered.text
+          : defaultText,
+      data: {
+        ...rendered,
+        rule_id: rule.id,
+        rule_name: rule.name,
+        trigger: context.trigger,
+        metric: rule.metric,
+        metric_value: context.metricValue ?? null,
+        event_type: context.event?.eventType ?? null,
+      },
+    };
+  }
+
+  async runRule(rule: AutomationRule, context: RunContext): Promise<AutomationRunResult> {
+    const startedAt = Date.now();
+    const message = this.buildMessage(rule, context);
+    let status: AutomationRunStatus = "SUCCESS";
+    let error: string | null = null;
+
+    try {
+      await this.deliver(rule.organizationId, rule.deliveryType, rule.deliveryTarget, message);
+    } catch (err) {
+      status = "FAILED";
+      error = err instanceof Error ? err.message : String(err);
+      logger.warn("Automation rule delivery failed", {
+        organizationId: rule.organizationId,
+        ruleId: rule.id,
+        deliveryType: rule.deliveryType,
+        trigger: context.trigger,
+        error,
+      });
+    }
+
+    const finishedAt = new Date();
+    await this.prisma.automationRuleRun.create({
+      data: {
+        organizationId: rule.organizationId,
+        ruleId: rule.id,
+        trigger: context.trigger,
+        status,
+        metricValue: context.metricValue ?? null,
+        eventType: context.event?.eventType ?? null,
+        renderedPayload: encodeJsonValue({ title: message.title, text: message.text, data: message.data }),
+        error,
+        durationMs: finishedAt.getTime() - startedAt,
+      },
+    });
+    await this.prisma.automationRule.update({
+      where: { id: rule.id },
+      data: {
+        lastRunAt: finishedAt,
+        lastRunStatus: status,
+        lastRunError: error,
+      },
+    });
+
+    return { ruleId: rule.id, status, error };
+  }
+
+  private async deliver(
+    organizationId: string,
+    deliveryType: AutomationDeliveryType,
+    target: string,
+    message: AutomationMessage
+  ): Promise<void> {
+    switch (deliveryType) {
+      case "SLACK": {
+        assertSlackWebhookUrl(target);
+        const blocks = Array.isArray(message.data.blocks) ? message.data.blocks : undefined;
+        await postSlackWebhook(target, {
+          text: `*${message.title}*\n${message.text}`,
+          ...(blocks ? { blocks } : {}),
+        });
+        return;
+      }
+      case "EMAIL": {
+        if (!this.deps.emailService) {
+          throw new Error("email_delivery_not_configured");
+        }
+        const recipients = splitRecipients(target);
+        if (recipients.length === 0) {
+          throw new Error("no_email_recipients");
+        }
+        await this.deps.emailService.sendAutomationAlert({
+          to: recipients,
+          ruleName: String(message.data.rule_name ?? ""),
+          title: message.title,
+          text: message.text,
+        });
+        return;
+      }
+      case "WEBHOOK": {
+        // Webhook targets reference an existing outbound webhook subscription
+        // (by id or URL) so deliveries are signed with that subscription's secret.
+        const subscriptions = await listOutboundWebhookSubscriptions(
+          this.prisma,
+          organizationId
+        );
+        const subscription = subscriptions.find(
+          (item) => item.id === target || item.url === target
+        );
+        if (!subscription) {
+          throw new Error("webhook_subscription_not_found");
+        }
+        if (!subscription.enabled) {
+          throw new Error("webhook_subscription_disabled");
+        }
+        const delivery = await deliverWebhookToSubscription(subscription, {
+          event_id: crypto.randomUUID(),
+          event_type: "automation_rule_triggered",
+          event_version: getOutboundWebhookEventVersion("automation_rule_triggered"),
+          occurred_at: new Date().toISOString(),
+          payload: {
+            title: message.title,
+            text: message.text,
+            ...message.data,
+          },
+        });
+        if (!delivery.ok) {
+          throw new Error(delivery.error ?? `webhook_http_${delivery.status}`);
+        }
+        return;
+      }
+    }
+  }
+}
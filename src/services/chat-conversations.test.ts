@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  ChatConversationService,
+  ChatFeedbackValidationError,
+} from "./chat-conversations.js";
+
+function makePrisma() {
+  return {
+    chatConversationMessage: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn((args: { data: Record<string, unknown> }) => ({ id: `msg_${args.data.role}`, ...args.data })),
+    },
+    chatConversation: {
+      update: vi.fn((args: unknown) => args),
+    },
+    chatMessageFeedback: {
+      upsert: vi.fn().mockResolvedValue({ id: "fb_1" }),
+    },
+    $transaction: vi.fn(async (ops: unknown[]) => Promise.all(ops)),
+  } as any;
+}
+
+describe("ChatConversationService", () => {
+  it("replays stored messages oldest-first as chat history", async () => {
+    const prisma = makePrisma();
+    prisma.chatConversationMessage.findMany.mockResolvedValue([
+      { role: "ASSISTANT", content: "Pricing came up twice [Source 1]." },
+      { role: "USER", content: "Any pricing concerns?" },
+    ]);
+
+    const history = await new ChatConversationService(prisma).loadHistory("conv_1");
+
+    expect(history).toEqual([
+      { role: "user", content: "Any pricing concerns?" },
+      { role: "assistant", content: "Pricing came up twice [Source 1]." },
+    ]);
+    expect(prisma.chatConversationMessage.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ orderBy: { createdAt: "desc" }, take: 50 })
+    );
+  });
+
+  it("stores both sides of a turn and titles an untitled conversation", async () => {
+    const prisma = makePrisma();
+    const service = new ChatConversationService(prisma);
+
+    const assistant = await service.appendTurn(
+      { id: "conv_1", title: null },
+      {
+        query: "What   did Acme say\nabout onboarding?",
+        answer: "They finished in two weeks [Source 1].",
+        sources: [{ chunk_id: "chunk_1" }],
+        tokensUsed: 120,
+      }
+    );
+
+    expect(assistant.id).toBe("msg_ASSISTANT");
+    expect(prisma.chatConversation.update).toHaveBeenCalledWith({
+      where: { id: "conv_1" },
+      data: expect.objectContaining({ title: "What did Acme say about onboarding?" }),
+    });
+  });
+
+  it("validates wrong-citation numbers against the answer's sources", async () => {
+    const prisma = makePrisma();
+    prisma.chatConversationMessage.findFirst.mockResolvedValue({
+      id: "msg_2",
+      role: "ASSISTANT",
+      sources: [{ chunk_id: "a" }, { chunk_id: "b" }],
+    });
+    const service = new ChatConversationService(prisma);
+
+    await expect(
+      service.recordFeedback("org_1", "user_1", {
+        conversationId: "conv_1",
+        messageId: "msg_2",
+        wrongCitations: [3],
+      })
+    ).rejects.toBeInstanceOf(ChatFeedbackValidationError);
+
+    await service.recordFeedback("org_1", "user_1", {
+      conversationId: "conv_1",
+      messageId: "msg_2",
+      rating: "DOWN",
+      wrongCitations: [2, 2, 1],
+    });
+    expect(prisma.chatMessageFeedback.upsert).toHaveBeenCalledWith({
+      where: { messageId_userId: { messageId: "msg_2", userId: "user_1" } },
+      create: expect.objectContaining({ organizationId: "org_1", rating: "DOWN", wrongCitations: [1, 2] }),
+      update: { rating: "DOWN", wrongCitations: [1, 2], notes: null },
+    });
+  });
+
+  it("returns null for messages outside the user's conversations", async () => {
+    const prisma = makePrisma();
+    prisma.chatConversationMessage.findFirst.mockResolvedValue(null);
+
+    const result = await new ChatConversationService(prisma).recordFeedback("org_1", "user_2", {
+      conversationId: "conv_1",
+      messageId: "msg_2",
+      rating: "UP",
+    });
+
+    expect(result).toBeNull();
+    expect(prisma.chatConversationMessage.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ conversation: { organizationId: "org_1", userId: "user_2" } }),
+      })
+    );
+  });
+});
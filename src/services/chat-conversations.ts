@@ -0,0 +1,234 @@
+/**
+ * Chat Conversations
+ *
+ * Server-side storage for RAG chatbot threads. Each conversation belongs to
+ * one user; the stored messages replace client-supplied history when a chat
+ * request carries a `conversation_id`, so threads can be resumed on another
+ * device and audited later. Assistant answers keep their serialized sources
+ * so "wrong citation" feedback can point at a specific `[Source N]`.
+ *
+ * Conversations age out with the org's data retention policy (see
+ * data-retention.ts) and are kept while legal hold is enabled.
+ */
+
+import type { Prisma, PrismaClient } from "@prisma/client";
+import type { ChatMessage } from "./rag-types.js";
+
+/** Most recent messages replayed to the LLM as history. */
+export const CHAT_HISTORY_LIMIT = 50;
+const TITLE_MAX_LENGTH = 80;
+
+export type ChatFeedbackRating = "UP" | "DOWN";
+
+export interface ChatFeedbackInput {
+  rating?: ChatFeedbackRating | null;
+  wrongCitations?: number[];
+  notes?: string | null;
+}
+
+export interface ChatFeedbackSummary {
+  total: number;
+  thumbsUp: number;
+  thumbsDown: number;
+  wrongCitation: number;
+}
+
+export class ChatFeedbackValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChatFeedbackValidationError";
+  }
+}
+
+function toTitle(query: string): string {
+  const singleLine = query.replace(/\s+/g, " ").trim();
+  return singleLine.length > TITLE_MAX_LENGTH
+    ? `${singleLine.slice(0, TITLE_MAX_LENGTH - 1)}…`
+    : singleLine;
+}
+
+export class ChatConversationService {
+  constructor(private prisma: PrismaClient) {}
+
+  async list(
+    organizationId: string,
+    userId: string,
+    options: { limit: number; accountId?: string | null }
+  ) {
+    return this.prisma.chatConversation.findMany({
+      where: {
+        organizationId,
+        userId,
+        ...(options.accountId !== undefined ? { accountId: options.accountId } : {}),
+      },
+      orderBy: { lastMessageAt: "desc" },
+      take: options.limit,
+      include: {
+        account: { select: { id: true, name: true } },
+        _count: { select: { messages: true } },
+      },
+    });
+  }
+
+  async create(
+    organizationId: string,
+    userId: string,
+    input: { accountId: string | null; title?: string | null }
+  ) {
+    return this.prisma.chatConversation.create({
+      data: {
+        organizationId,
+        userId,
+        accountId: input.accountId,
+        title: input.title ? toTitle(input.title) : null,
+      },
+    });
+  }
+
+  /** The conversation if it exists and belongs to the user. */
+  async findOwned(organizationId: string, userId: string, conversationId: string) {
+    return this.prisma.chatConversation.findFirst({
+      where: { id: conversationId, organizationId, userId },
+    });
+  }
+
+  async getWithMessages(organizationId: string, userId: string, conversationId: string) {
+    return this.prisma.chatConversation.findFirst({
+      where: { id: conversationId, organizationId, userId },
+      include: {
+        account: { select: { id: true, name: true } },
+        messages: {
+          orderBy: { createdAt: "asc" },
+          include: {
+            feedback: {
+              where: { userId },
+              select: { rating: true, wrongCitations: true, notes: true },
+            },
+          },
+        },
+      },
+    });
+  }
+
+  async loadHistory(conversationId: string): Promise<ChatMessage[]> {
+    const messages = await this.prisma.chatConversationMessage.findMany({
+      where: { conversationId },
+      orderBy: { createdAt: "desc" },
+      take: CHAT_HISTORY_LIMIT,
+      select: { role: true, content: true },
+    });
+    return messages.reverse().map((message) => ({
+      role: message.role === "ASSISTANT" ? "assistant" : "user",
+      content: message.content,
+    }));
+  }
+
+  /**
+   * Stores a question and its answer. The first question also becomes the
+   * conversation title. Returns the assistant message, whose ID is the
+   * target for feedback.
+   */
+  async appendTurn(
+    conversation: { id: string; title: string | null },
+    turn: {
+      query: string;
+      answer: string;
+      sources: Prisma.InputJsonValue;
+      tokensUsed: number;
+    }
+  ) {
+    const now = new Date();
+    const [, assistant] = await this.prisma.$transaction([
+      this.prisma.chatConversationMessage.create({
+        data: {
+          conversationId: conversation.id,
+          role: "USER",
+          content: turn.query,
+          createdAt: now,
+        },
+      }),
+      this.prisma.chatConversationMessage.create({
+        data: {
+          conversationId: conversation.id,
+          role: "ASSISTANT",
+          content: turn.answer,
+          sources: turn.sources,
+          tokensUsed: turn.tokensUsed,
+          // Keeps the answer ordered after its question.
+          createdAt: new Date(now.getTime() + 1),
+        },
+      }),
+      this.prisma.chatConversation.update({
+        where: { id: conversation.id },
+        data: {
+          lastMessageAt: now,
+          ...(conversation.title ? {} : { title: toTitle(turn.query) }),
+        },
+      }),
+    ]);
+    return assistant;
+  }
+
+  async delete(organizationId: string, userId: string, conversationId: string): Promise<boolean> {
+    const result = await this.prisma.chatConversation.deleteMany({
+      where: { id: conversationId, organizationId, userId },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Records (or replaces) the user's feedback on an assistant answer in one
+   * of their conversations. Returns null when the message is not found.
+   */
+  async recordFeedback(
+    organizationId: string,
+    userId: string,
+    input: { conversationId: string; messageId: string } & ChatFeedbackInput
+  ) {
+    const message = await this.prisma.chatConversationMessage.findFirst({
+      where: {
+        id: input.messageId,
+        conversationId: input.conversationId,
+        conversation: { organizationId, userId },
+      },
+      select: { id: true, role: true, sources: true },
+    });
+    if (!message) {
+      return null;
+    }
+    if (message.role !== "ASSISTANT") {
+      throw new ChatFeedbackValidationError("Feedback can only be left on answers.");
+    }
+
+    const wrongCitations = Array.from(new Set(input.wrongCitations ?? [])).sort((a, b) => a - b);
+    const sourceCount = Array.isArray(message.sources) ? message.sources.length : 0;
+    const outOfRange = wrongCitations.filter((citation) => citation < 1 || citation > sourceCount);
+    if (outOfRange.length > 0) {
+      throw new ChatFeedbackValidationError(
+        `This answer has ${sourceCount} source(s); cannot flag [Source ${outOfRange[0]}].`
+      );
+    }
+
+    const data = {
+      rating: input.rating ?? null,
+      wrongCitations,
+      notes: input.notes ?? null,
+    };
+    return this.prisma.chatMessageFeedback.upsert({
+      where: { messageId_userId: { messageId: message.id, userId } },
+      create: { organizationId, messageId: message.id, userId, ...data },
+      update: data,
+    });
+  }
+
+  async summarizeFeedback(organizationId: string, since: Date): Promise<ChatFeedbackSummary> {
+    const where = { organizationId, updatedAt: { gte: since } };
+    const [total, thumbsUp, thumbsDown, wrongCitation] = await Promise.all([
+      this.prisma.chatMessageFeedback.count({ where }),
+      this.prisma.chatMessageFeedback.count({ where: { ...where, rating: "UP" } }),
+      this.prisma.chatMessageFeedback.count({ where: { ...where, rating: "DOWN" } }),
+      this.prisma.chatMessageFeedback.count({ where: { ...where, wrongCitations: { isEmpty: false } } }),
+    ]);
+    return { total, thumbsUp, thumbsDown, wrongCitation };
+  }
+}
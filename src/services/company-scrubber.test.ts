@@ -894,3 +894,58 @@ describe("CompanyScrubber", () => {
     });
   });
 });
+
+describe("CompanyScrubber – localized output", () => {
+  it("writes German descriptors and placeholder for German text", async () => {
+    const prisma = createMockPrisma({
+      ...DEFAULT_ACCOUNT,
+      name: "Müller Logistik",
+      normalizedName: "müller logistik",
+      contacts: [
+        {
+          name: "Jürgen Weiß",
+          title: "Geschäftsführer",
+          email: "juergen@acme.com",
+          emailDomain: "acme.com",
+        },
+      ],
+    });
+    const scrubber = new CompanyScrubber(prisma);
+
+    const result = await scrubber.scrubForAccount(
+      "acct_1",
+      "Jürgen Weiß, Geschäftsführer bei Müller Logistik, hat zugestimmt. Müller Logistik's Team auch.",
+      { language: "de" }
+    );
+
+    expect(result.scrubbedText).toContain("ein Mitglied der Geschäftsleitung beim Kunden");
+    expect(result.scrubbedText).toContain("der Kunde");
+    expect(result.scrubbedText).not.toContain("Jürgen Weiß");
+    expect(result.scrubbedText).not.toContain("Müller Logistik");
+  });
+
+  it("does not replace names inside longer accented words", () => {
+    const prisma = createMockPrisma(DEFAULT_ACCOUNT);
+    const scrubber = new CompanyScrubber(prisma);
+
+    const result = scrubber.scrubWithTerms(
+      "Acme und Acmeé sind verschieden.",
+      ["Acme"],
+      "der Kunde"
+    );
+
+    expect(result.scrubbedText).toBe("der Kunde und Acmeé sind verschieden.");
+  });
+
+  it("formats anonymized attributions in the requested language", () => {
+    expect(CompanyScrubber.formatAttribution("Ana Ruiz", "Directora financiera", false, null, "es")).toBe(
+      "un responsable de finanzas del cliente"
+    );
+    expect(CompanyScrubber.formatInlineAttribution("Directeur technique", false, null, "fr")).toBe(
+      "un responsable technologique chez le client"
+    );
+    expect(CompanyScrubber.formatInlineAttribution(null, false, null, "xx")).toBe(
+      "a team member at the client"
+    );
+  });
+});
@@ -18,10 +18,20 @@
  *   - Short acronyms (<=4 chars) only match when ALL-CAPS in source text
  *   - Possessives/compounds handled: "Acme's platform", "Acme-powered"
  *   - Longest-first ordering prevents partial match clobbering
+ *   - Word boundaries are Unicode-aware, so names like "Société Générale"
+ *     or "Müller GmbH" are matched in German, French and Spanish text
+ *
+ * CRM titles in English, German, French and Spanish are recognized, and
+ * anonymized descriptors are written in the page's language.
  */
 
 import type { PrismaClient } from "@prisma/client";
 import { normalizeCompanyName } from "./entity-resolution.js";
+import {
+  DEFAULT_LANGUAGE,
+  normalizeLanguageCode,
+  type SupportedLanguage,
+} from "../lib/language-detection.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -38,6 +48,8 @@ export interface ScrubConfig {
   customMappings: Record<string, string>;
   /** If true, skip scrubbing (for named/admin pages). */
   skipScrub: boolean;
+  /** ISO 639-1 language of the text; selects the descriptor language. */
+  language?: string | null;
 }
 
 interface ContactInfo {
@@ -56,6 +68,13 @@ interface ReplacementTerm {
 // ─── Default Placeholders ────────────────────────────────────────────────────
 
 const DEFAULT_PLACEHOLDER = "the client";
+
+const LOCALIZED_PLACEHOLDERS: Record<SupportedLanguage, string> = {
+  en: DEFAULT_PLACEHOLDER,
+  de: "der Kunde",
+  fr: "le client",
+  es: "el cliente",
+};
 const DOMAIN_PLACEHOLDER = "[client-domain]";
 
 /** Minimum character length for auto-generated scrub terms. */
@@ -65,32 +84,134 @@ const MIN_AUTO_TERM_LENGTH = 4;
 const ACRONYM_CASE_SENSITIVE_THRESHOLD = 4;
 
 /**
- * Maps CRM titles to anonymized descriptors.
+ * Unicode-aware replacements for \\b. JavaScript's \\b only knows ASCII word
+ * characters, so it never matches after a name ending in "é" or before one
+ * starting with "Ö". Use with the `u` flag.
+ */
+const WORD_START = "(?<![\\p{L}\\p{N}_])";
+const WORD_END = "(?![\\p{L}\\p{N}_])";
+
+function titleRegex(alternatives: string): RegExp {
+  return new RegExp(`${WORD_START}(?:${alternatives})${WORD_END}`, "iu");
+}
+
+type AnonymizedRole =
+  | "senior_leader"
+  | "vp"
+  | "executive"
+  | "finance"
+  | "technology"
+  | "marketing"
+  | "operations"
+  | "revenue"
+  | "security"
+  | "director"
+  | "department_head"
+  | "manager"
+  | "technical"
+  | "member";
+
+/**
+ * Maps CRM titles to anonymized roles.
  * We preserve the seniority level for context without revealing identity.
  */
-const TITLE_ANONYMIZER: Array<{ pattern: RegExp; replacement: string }> = [
+const TITLE_ANONYMIZER: Array<{ pattern: RegExp; role: AnonymizedRole }> = [
   // Multi-word VP/President titles must come before the bare "President" rule
   // to avoid \bPresident\b matching "Senior Vice President" prematurely.
-  { pattern: /\b(SVP|Senior Vice President|EVP|Executive Vice President)\b/i, replacement: "a senior leader at the client" },
-  { pattern: /\b(VP|Vice President)\b/i, replacement: "a VP at the client" },
-  { pattern: /\b(CEO|Chief Executive Officer|Founder|Co-Founder|President)\b/i, replacement: "a senior executive at the client" },
-  { pattern: /\b(CFO|Chief Financial Officer)\b/i, replacement: "a finance leader at the client" },
-  { pattern: /\b(CTO|Chief Technology Officer|CIO|Chief Information Officer)\b/i, replacement: "a technology leader at the client" },
-  { pattern: /\b(CMO|Chief Marketing Officer)\b/i, replacement: "a marketing leader at the client" },
-  { pattern: /\b(COO|Chief Operating Officer)\b/i, replacement: "an operations leader at the client" },
-  { pattern: /\b(CRO|Chief Revenue Officer)\b/i, replacement: "a revenue leader at the client" },
-  { pattern: /\b(CISO|Chief Information Security Officer)\b/i, replacement: "a security leader at the client" },
-  { pattern: /\b(Director)\b/i, replacement: "a director at the client" },
-  { pattern: /\b(Head of)\b/i, replacement: "a department head at the client" },
-  { pattern: /\b(Manager|Senior Manager)\b/i, replacement: "a manager at the client" },
-  { pattern: /\b(Engineer|Developer|Architect)\b/i, replacement: "a technical team member at the client" },
+  { pattern: titleRegex("SVP|Senior Vice President|EVP|Executive Vice President|Vice-président exécutif|Vicepresidente ejecutivo"), role: "senior_leader" },
+  { pattern: titleRegex("VP|Vice President|Vizepräsident|Vice-président|Vicepresidente"), role: "vp" },
+  // Functional C-level titles come before the generic executive rule so that
+  // "Director financiero" is not read as "Director General".
+  { pattern: titleRegex("CFO|Chief Financial Officer|Finanzvorstand|Finanzchef|Directeur financier|Directora? financier[oa]"), role: "finance" },
+  { pattern: titleRegex("CTO|Chief Technology Officer|CIO|Chief Information Officer|Technischer Direktor|Directeur technique|Directeur des systèmes d'information|DSI|Directora? de tecnología"), role: "technology" },
+  { pattern: titleRegex("CMO|Chief Marketing Officer|Marketingleiter(?:in)?|Directeur marketing|Directora? de marketing"), role: "marketing" },
+  { pattern: titleRegex("COO|Chief Operating Officer|Directeur des opérations|Directora? de operaciones"), role: "operations" },
+  { pattern: titleRegex("CRO|Chief Revenue Officer|Vertriebsleiter(?:in)?|Directeur commercial|Directora? comercial"), role: "revenue" },
+  { pattern: titleRegex("CISO|Chief Information Security Officer|RSSI"), role: "security" },
+  { pattern: titleRegex("CEO|Chief Executive Officer|Founder|Co-Founder|President|Geschäftsführer(?:in)?|Vorstand(?:svorsitzende[rn]?)?|Gründer(?:in)?|PDG|Président(?:e)? directeur général|Directeur général|Président(?:e)?|Fondat(?:eur|rice)|Director(?:a)? general|Consejer[oa] delegad[oa]|Presidente|Fundador(?:a)?"), role: "executive" },
+  { pattern: titleRegex("Director|Direktor(?:in)?|Directeur|Directrice|Directora"), role: "director" },
+  { pattern: titleRegex("Head of|Leiter(?:in)?|Abteilungsleiter(?:in)?|Responsable|Chef de service|Jef[ea] de"), role: "department_head" },
+  { pattern: titleRegex("Manager|Senior Manager|Gerente"), role: "manager" },
+  { pattern: titleRegex("Engineer|Developer|Architect|Ingenieur(?:in)?|Entwickler(?:in)?|Architekt(?:in)?|Ingénieur(?:e)?|Développeu(?:r|se)|Architecte|Ingenier[oa]|Desarrollador(?:a)?|Arquitect[oa]"), role: "technical" },
 ];
 
-function anonymizeTitle(title: string): string {
-  for (const { pattern, replacement } of TITLE_ANONYMIZER) {
-    if (pattern.test(title)) return replacement;
+const ROLE_DESCRIPTORS: Record<SupportedLanguage, Record<AnonymizedRole, string>> = {
+  en: {
+    senior_leader: "a senior leader at the client",
+    vp: "a VP at the client",
+    executive: "a senior executive at the client",
+    finance: "a finance leader at the client",
+    technology: "a technology leader at the client",
+    marketing: "a marketing leader at the client",
+    operations: "an operations leader at the client",
+    revenue: "a revenue leader at the client",
+    security: "a security leader at the client",
+    director: "a director at the client",
+    department_head: "a department head at the client",
+    manager: "a manager at the client",
+    technical: "a technical team member at the client",
+    member: "a team member at the client",
+  },
+  de: {
+    senior_leader: "eine Führungskraft beim Kunden",
+    vp: "ein VP beim Kunden",
+    executive: "ein Mitglied der Geschäftsleitung beim Kunden",
+    finance: "die Finanzleitung beim Kunden",
+    technology: "die Technologieleitung beim Kunden",
+    marketing: "die Marketingleitung beim Kunden",
+    operations: "die Betriebsleitung beim Kunden",
+    revenue: "die Vertriebsleitung beim Kunden",
+    security: "die Sicherheitsleitung beim Kunden",
+    director: "eine Führungskraft auf Direktionsebene beim Kunden",
+    department_head: "eine Abteilungsleitung beim Kunden",
+    manager: "eine Teamleitung beim Kunden",
+    technical: "ein Mitglied des Technikteams beim Kunden",
+    member: "ein Teammitglied beim Kunden",
+  },
+  fr: {
+    senior_leader: "un cadre dirigeant chez le client",
+    vp: "un vice-président chez le client",
+    executive: "un dirigeant chez le client",
+    finance: "un responsable financier chez le client",
+    technology: "un responsable technologique chez le client",
+    marketing: "un responsable marketing chez le client",
+    operations: "un responsable des opérations chez le client",
+    revenue: "un responsable commercial chez le client",
+    security: "un responsable de la sécurité chez le client",
+    director: "un directeur chez le client",
+    department_head: "un chef de service chez le client",
+    manager: "un manager chez le client",
+    technical: "un membre de l'équipe technique chez le client",
+    member: "un membre de l'équipe chez le client",
+  },
+  es: {
+    senior_leader: "un líder sénior del cliente",
+    vp: "un vicepresidente del cliente",
+    executive: "un alto directivo del cliente",
+    finance: "un responsable de finanzas del cliente",
+    technology: "un responsable de tecnología del cliente",
+    marketing: "un responsable de marketing del cliente",
+    operations: "un responsable de operaciones del cliente",
+    revenue: "un responsable comercial del cliente",
+    security: "un responsable de seguridad del cliente",
+    director: "un director del cliente",
+    department_head: "un jefe de departamento del cliente",
+    manager: "un gerente del cliente",
+    technical: "un miembro del equipo técnico del cliente",
+    member: "un miembro del equipo del cliente",
+  },
+};
+
+function resolveLanguage(language: string | null | undefined): SupportedLanguage {
+  return normalizeLanguageCode(language) ?? DEFAULT_LANGUAGE;
+}
+
+function anonymizeTitle(title: string, language?: string | null): string {
+  const descriptors = ROLE_DESCRIPTORS[resolveLanguage(language)];
+  for (const { pattern, role } of TITLE_ANONYMIZER) {
+    if (pattern.test(title)) return descriptors[role];
   }
-  return "a team member at the client";
+  return descriptors.member;
 }
 
 // ─── Core Scrubber ───────────────────────────────────────────────────────────
@@ -115,9 +236,56 @@ export class CompanyScrubber {
     if (configOverrides?.skipScrub) {
       return { scrubbedText: text, replacementsMade: 0, termsReplaced: [] };
     }
+    const account = await this.loadAccountIdentifiers(accountId);
+    return this.scrubWithAccount(account, text, configOverrides);
+  }
+
+  /**
+   * Scrubs several texts for one account, loading its identifiers once.
+   * Results are in the order of `texts`.
+   */
+  async scrubTextsForAccount(
+    accountId: string,
+    texts: string[],
+    configOverrides?: Partial<ScrubConfig>
+  ): Promise<ScrubResult[]> {
+    if (configOverrides?.skipScrub || texts.length === 0) {
+      return texts.map((text) => ({ scrubbedText: text, replacementsMade: 0, termsReplaced: [] }));
+    }
+    const account = await this.loadAccountIdentifiers(accountId);
+    return texts.map((text) => this.scrubWithAccount(account, text, configOverrides));
+  }
 
-    // ── Load account and all identifiers ──────────────────────────────
-    const account = await this.prisma.account.findUniqueOrThrow({
+  /**
+   * Scrubs text that may mention any of several accounts, as in a story
+   * built from more than one account. Each account is scrubbed in turn,
+   * under its own placeholder when `placeholders` names one.
+   */
+  async scrubForAccounts(
+    accountIds: string[],
+    text: string,
+    configOverrides?: Partial<ScrubConfig>,
+    placeholders: Record<string, string> = {}
+  ): Promise<ScrubResult> {
+    let scrubbedText = text;
+    let replacementsMade = 0;
+    const termsReplaced: string[] = [];
+    for (const accountId of new Set(accountIds)) {
+      const placeholder = placeholders[accountId];
+      const result = await this.scrubForAccount(
+        accountId,
+        scrubbedText,
+        placeholder ? { ...configOverrides, placeholder } : configOverrides
+      );
+      scrubbedText = result.scrubbedText;
+      replacementsMade += result.replacementsMade;
+      termsReplaced.push(...result.termsReplaced);
+    }
+    return { scrubbedText, replacementsMade, termsReplaced: [...new Set(termsReplaced)] };
+  }
+
+  private async loadAccountIdentifiers(accountId: string) {
+    return this.prisma.account.findUniqueOrThrow({
       where: { id: accountId },
       include: {
         domainAliases: true,
@@ -129,13 +297,21 @@ export class CompanyScrubber {
         },
       },
     });
+  }
 
+  private scrubWithAccount(
+    account: Awaited<ReturnType<CompanyScrubber["loadAccountIdentifiers"]>>,
+    text: string,
+    configOverrides?: Partial<ScrubConfig>
+  ): ScrubResult {
     const orgSettings = account.organization.orgSettings;
     const customMappings =
       (configOverrides?.customMappings ??
         (orgSettings?.companyNameReplacements as Record<string, string> | null)) ??
       {};
-    const placeholder = configOverrides?.placeholder ?? DEFAULT_PLACEHOLDER;
+    const language = configOverrides?.language;
+    const placeholder =
+      configOverrides?.placeholder ?? LOCALIZED_PLACEHOLDERS[resolveLanguage(language)];
 
     let scrubbed = text;
     let count = 0;
@@ -147,7 +323,7 @@ export class CompanyScrubber {
     const contactScrubResult = this.scrubContactIdentities(
       scrubbed,
       account.contacts,
-      placeholder
+      language
     );
     scrubbed = contactScrubResult.scrubbedText;
     count += contactScrubResult.replacementsMade;
@@ -187,14 +363,16 @@ export class CompanyScrubber {
     for (const contact of account.contacts) {
       if (!contact.name || contact.name.length < 4) continue;
       const nameRegex = new RegExp(
-        `\\b${escapeRegex(contact.name)}\\b`,
-        "gi"
+        `${WORD_START}${escapeRegex(contact.name)}${WORD_END}`,
+        "giu"
       );
       const nameMatches = scrubbed.match(nameRegex);
       if (nameMatches) {
         const anonLabel = contact.title
-          ? anonymizeTitle(contact.title)
-          : "a team member at " + placeholder;
+          ? anonymizeTitle(contact.title, language)
+          : resolveLanguage(language) === "en"
+            ? "a team member at " + placeholder
+            : ROLE_DESCRIPTORS[resolveLanguage(language)].member;
         count += nameMatches.length;
         replaced.push(contact.name);
         scrubbed = scrubbed.replace(nameRegex, anonLabel);
@@ -222,7 +400,8 @@ export class CompanyScrubber {
     name: string | null,
     title: string | null,
     includeCompanyName: boolean,
-    companyName?: string | null
+    companyName?: string | null,
+    language?: string | null
   ): string {
     if (includeCompanyName && name) {
       const parts = [name];
@@ -231,8 +410,8 @@ export class CompanyScrubber {
       return parts.join(", ");
     }
     // Anonymized
-    if (title) return anonymizeTitle(title);
-    return "a team member at the client";
+    if (title) return anonymizeTitle(title, language);
+    return ROLE_DESCRIPTORS[resolveLanguage(language)].member;
   }
 
   /**
@@ -244,13 +423,14 @@ export class CompanyScrubber {
   static formatInlineAttribution(
     title: string | null,
     includeCompanyName: boolean,
-    companyName?: string | null
+    companyName?: string | null,
+    language?: string | null
   ): string {
     if (includeCompanyName && title) {
       return companyName ? `${title}, ${companyName}` : title;
     }
-    if (title) return anonymizeTitle(title);
-    return "a team member at the client";
+    if (title) return anonymizeTitle(title, language);
+    return ROLE_DESCRIPTORS[resolveLanguage(language)].member;
   }
 
   /**
@@ -298,7 +478,7 @@ export class CompanyScrubber {
   private scrubContactIdentities(
     text: string,
     contacts: ContactInfo[],
-    _placeholder: string
+    language?: string | null
   ): ScrubResult {
     let scrubbed = text;
     let count = 0;
@@ -310,12 +490,12 @@ export class CompanyScrubber {
 
       if (contact.title) {
         const title = escapeRegex(contact.title);
-        const anonLabel = anonymizeTitle(contact.title);
+        const anonLabel = anonymizeTitle(contact.title, language);
 
-        // Pattern: "Name, Title" or "Name, Title of Company"
+        // Pattern: "Name, Title" or "Name, Title of Company" (also bei/chez/de)
         const commaPattern = new RegExp(
-          `\\b${name},?\\s+${title}(?:\\s+(?:of|at)\\s+\\S+)?\\b`,
-          "gi"
+          `${WORD_START}${name},?\\s+${title}(?:\\s+(?:of|at|bei|von|chez|de|en)\\s+\\S+)?${WORD_END}`,
+          "giu"
         );
         const commaMatches = scrubbed.match(commaPattern);
         if (commaMatches) {
@@ -326,8 +506,8 @@ export class CompanyScrubber {
 
         // Pattern: "Name (Title)"
         const parenPattern = new RegExp(
-          `\\b${name}\\s*\\(${title}\\)`,
-          "gi"
+          `${WORD_START}${name}\\s*\\(${title}\\)`,
+          "giu"
         );
         const parenMatches = scrubbed.match(parenPattern);
         if (parenMatches) {
@@ -462,7 +642,7 @@ function escapeRegex(str: string): string {
  *  - Short ALL-CAPS terms (<=4 chars, e.g., "AWS", "SAP", "BOX") are matched
  *    case-sensitively to avoid scrubbing common words.
  *  - Longer terms are matched case-insensitively.
- *  - All terms use \b word boundaries to avoid substring matches.
+ *  - All terms use Unicode-aware word boundaries to avoid substring matches.
  *  - Also matches possessive forms ("Acme's") and hyphenated compounds ("Acme-powered").
  *    The trailing 's or -word is consumed so the output reads naturally.
  */
@@ -472,7 +652,7 @@ function buildWordBoundaryRegex(term: string): RegExp {
     term.length <= ACRONYM_CASE_SENSITIVE_THRESHOLD && term === term.toUpperCase();
 
   // Match the term + optional possessive ('s) or hyphenated suffix (-word)
-  const pattern = `\\b${escaped}(?:'s|\\-\\w+)?\\b`;
+  const pattern = `${WORD_START}${escaped}(?:['’]s|-[\\p{L}\\p{N}_]+)?${WORD_END}`;
 
-  return new RegExp(pattern, isShortAcronym ? "g" : "gi");
+  return new RegExp(pattern, isShortAcronym ? "gu" : "giu");
 }
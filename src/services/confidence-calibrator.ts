@@ -12,9 +12,14 @@
  *   3. An isotonic (monotonically non-decreasing) piecewise-linear function
  *      is fit to the (raw_confidence → empirical_accuracy) data.
  *   4. At inference time, `adjustConfidence()` maps raw → calibrated.
+ *
+ * Reviewer decisions on chunk tags (services/active-learning.ts) supply
+ * observations directly, without re-running the tagger, and per-org curves
+ * are persisted as CalibrationReport rows and restored with `loadCurve()`.
  */
 
 import type { PrismaClient } from "@prisma/client";
+import { decodeCalibrationCurve } from "../types/json-boundaries.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -57,6 +62,27 @@ export class ConfidenceCalibrator {
     this.prisma = prisma;
   }
 
+  /**
+   * Calibrator holding the org's most recently fitted curve, or null when
+   * the org has never been calibrated.
+   */
+  static async forOrganization(
+    prisma: PrismaClient,
+    organizationId: string
+  ): Promise<ConfidenceCalibrator | null> {
+    const latest = await prisma.calibrationReport.findFirst({
+      where: { organizationId },
+      orderBy: { createdAt: "desc" },
+      select: { calibrationCurve: true },
+    });
+    const curve = decodeCalibrationCurve(latest?.calibrationCurve);
+    if (curve.length === 0) return null;
+
+    const calibrator = new ConfidenceCalibrator(prisma);
+    calibrator.loadCurve(curve);
+    return calibrator;
+  }
+
   // ─── Validation Set Management ──────────────────────────────────────
 
   /**
@@ -204,6 +230,15 @@ export class ConfidenceCalibrator {
     return rawConfidence;
   }
 
+  /**
+   * Restores a previously fitted curve, e.g. from a stored CalibrationReport.
+   * An empty curve leaves the calibrator uncalibrated.
+   */
+  loadCurve(curve: CalibrationPoint[]): void {
+    this.calibrationCurve = [...curve].sort((a, b) => a.rawConfidence - b.rawConfidence);
+    this.isCalibrated = this.calibrationCurve.length > 0;
+  }
+
   /**
    * Whether a calibration curve has been fit.
    */
@@ -212,7 +247,8 @@ export class ConfidenceCalibrator {
   }
 
   /**
-   * Load all validation samples from the DB.
+   * Load the hand-entered validation samples from the DB. Reviewer samples
+   * already carry their observation and are not re-tagged.
    */
   async loadValidationSamples(): Promise<
     Array<{
@@ -222,7 +258,8 @@ export class ConfidenceCalibrator {
       expectedTopic: string;
     }>
   > {
-    return this.prisma.validationSample.findMany({
+    const samples = await this.prisma.validationSample.findMany({
+      where: { source: "MANUAL" },
       select: {
         id: true,
         chunkText: true,
@@ -230,6 +267,18 @@ export class ConfidenceCalibrator {
         expectedTopic: true,
       },
     });
+    return samples.flatMap((sample) =>
+      sample.expectedFunnelStage && sample.expectedTopic
+        ? [
+            {
+              id: sample.id,
+              chunkText: sample.chunkText,
+              expectedFunnelStage: sample.expectedFunnelStage,
+              expectedTopic: sample.expectedTopic,
+            },
+          ]
+        : []
+    );
   }
 
   // ─── Isotonic Regression (Pool Adjacent Violators Algorithm) ─────
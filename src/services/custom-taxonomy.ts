@@ -0,0 +1,136 @@
+/**
+ * Custom Taxonomy Topics
+ *
+ * Org-defined topics classified alongside the built-in B2B taxonomy in
+ * types/taxonomy.ts. Each topic has a label, a description the tagger
+ * classifies against, a funnel stage and optional example phrases.
+ *
+ * Keys are derived from the label when a topic is created and never change
+ * afterwards: chunk/call tags, vector metadata and story filter tags all
+ * store the key.
+ */
+
+import type { CustomTaxonomyTopic, PrismaClient } from "@prisma/client";
+import {
+  CUSTOM_TOPIC_PREFIX,
+  TOPIC_LABELS,
+  type CustomTopicKey,
+  type FunnelStage,
+} from "../types/taxonomy.js";
+import { TagCache } from "./tag-cache.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export const MAX_CUSTOM_TOPICS = 100;
+export const MAX_EXAMPLE_PHRASES = 10;
+
+export interface CustomTopicDefinition {
+  key: CustomTopicKey;
+  label: string;
+  description: string;
+  funnelStage: FunnelStage;
+  examplePhrases: string[];
+}
+
+// ─── Persistence ─────────────────────────────────────────────────────────────
+
+export function toCustomTopicDefinition(topic: CustomTaxonomyTopic): CustomTopicDefinition {
+  return {
+    key: topic.key as CustomTopicKey,
+    label: topic.label,
+    description: topic.description,
+    funnelStage: topic.funnelStage as FunnelStage,
+    examplePhrases: topic.examplePhrases,
+  };
+}
+
+export async function loadCustomTopics(
+  prisma: PrismaClient,
+  organizationId: string
+): Promise<CustomTopicDefinition[]> {
+  const topics = await prisma.customTaxonomyTopic.findMany({
+    where: { organizationId },
+    orderBy: [{ funnelStage: "asc" }, { label: "asc" }],
+  });
+  return topics.map(toCustomTopicDefinition);
+}
+
+/**
+ * Removes every chunk and call tag the org holds for a topic. Used when a
+ * custom topic is deleted so it stops surfacing in filters and counts.
+ */
+export async function deleteCustomTopicTags(
+  prisma: PrismaClient,
+  organizationId: string,
+  key: CustomTopicKey
+): Promise<number> {
+  const [chunkTags, callTags] = await Promise.all([
+    prisma.chunkTag.deleteMany({
+      where: { topic: key, chunk: { transcript: { call: { organizationId } } } },
+    }),
+    prisma.callTag.deleteMany({
+      where: { topic: key, call: { organizationId } },
+    }),
+  ]);
+  return chunkTags.count + callTags.count;
+}
+
+// ─── Keys & Labels ───────────────────────────────────────────────────────────
+
+/**
+ * Derives a topic key from its label, e.g. "Data Residency (EU)" becomes
+ * "custom_data_residency_eu". Returns null when nothing usable remains.
+ */
+export function customTopicKeyFromLabel(label: string): CustomTopicKey | null {
+  const slug = label
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .slice(0, 64 - CUSTOM_TOPIC_PREFIX.length)
+    .replace(/^_+|_+$/g, "");
+  return slug ? `${CUSTOM_TOPIC_PREFIX}${slug}` : null;
+}
+
+/** Built-in topic labels merged with the org's custom topic labels. */
+export function buildTopicLabels(topics: CustomTopicDefinition[]): Record<string, string> {
+  return {
+    ...TOPIC_LABELS,
+    ...Object.fromEntries(topics.map((topic) => [topic.key, topic.label])),
+  };
+}
+
+// ─── Tagging ─────────────────────────────────────────────────────────────────
+
+/** Renders the org's topics as an extra section of the tagging prompt. */
+export function formatCustomTopicsForPrompt(topics: CustomTopicDefinition[]): string {
+  if (topics.length === 0) return "";
+  const lines = topics.map((topic) => {
+    const examples =
+      topic.examplePhrases.length > 0
+        ? ` Example phrases: ${topic.examplePhrases.map((phrase) => `"${phrase}"`).join(", ")}.`
+        : "";
+    return `- ${topic.key} (${topic.funnelStage}): ${topic.label} — ${topic.description}${examples}`;
+  });
+
+  return `
+
+ORGANIZATION-SPECIFIC TOPICS:
+This organization also tracks the topics below. Tag them like the built-in topics, using the exact key and the funnel stage given in parentheses.
+${lines.join("\n")}`;
+}
+
+/**
+ * Stable hash of the topics the tagger was prompted with, so cached tags
+ * are not reused after an org changes its taxonomy.
+ */
+export function customTaxonomyFingerprint(topics: CustomTopicDefinition[]): string {
+  if (topics.length === 0) return "";
+  return TagCache.hashText(
+    JSON.stringify(
+      [...topics]
+        .sort((a, b) => a.key.localeCompare(b.key))
+        .map((topic) => [topic.key, topic.funnelStage, topic.description, topic.examplePhrases])
+    )
+  );
+}
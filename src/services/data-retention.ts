@@ -3,6 +3,7 @@ import type { PrismaClient } from "@prisma/client";
 import logger from "../lib/logger.js";
 import { AuditLogService } from "./audit-log.js";
 import { getDataGovernancePolicy } from "./data-governance.js";
+import { PageAnalyticsService, resolvePageAnalyticsPolicy } from "./page-analytics.js";
 import type { RAGEngine } from "./rag-engine.js";
 
 const DEFAULT_RETENTION_DAYS = 365;
@@ -24,7 +25,9 @@ export interface DataRetentionSweepResult {
   deletedStories: number;
   deletedLandingPages: number;
   deletedIntegrationRuns: number;
+  deletedChatConversations: number;
   deletedAuditLogs: number;
+  deletedPageViews: number;
   prunedVectors: number;
 }
 
@@ -37,6 +40,7 @@ export async function runDataRetentionSweep(
   });
 
   const auditLogs = new AuditLogService(prisma);
+  const pageAnalytics = new PageAnalyticsService(prisma);
   const result: DataRetentionSweepResult = {
     organizationsProcessed: 0,
     organizationsSkippedByLegalHold: 0,
@@ -44,7 +48,9 @@ export async function runDataRetentionSweep(
     deletedStories: 0,
     deletedLandingPages: 0,
     deletedIntegrationRuns: 0,
+    deletedChatConversations: 0,
     deletedAuditLogs: 0,
+    deletedPageViews: 0,
     prunedVectors: 0,
   };
 
@@ -67,7 +73,7 @@ export async function runDataRetentionSweep(
       result.prunedVectors += pruned;
     }
 
-    const [landingPagesDeleted, storiesDeleted, callsDeleted, runsDeleted] =
+    const [landingPagesDeleted, storiesDeleted, callsDeleted, runsDeleted, conversationsDeleted] =
       await prisma.$transaction([
         prisma.landingPage.deleteMany({
           where: {
@@ -95,14 +101,26 @@ export async function runDataRetentionSweep(
             startedAt: { lt: cutoff },
           },
         }),
+        // Idle chatbot conversations; messages and feedback cascade.
+        prisma.chatConversation.deleteMany({
+          where: {
+            organizationId,
+            lastMessageAt: { lt: cutoff },
+          },
+        }),
       ]);
 
     result.deletedLandingPages += landingPagesDeleted.count;
     result.deletedStories += storiesDeleted.count;
     result.deletedCalls += callsDeleted.count;
     result.deletedIntegrationRuns += runsDeleted.count;
+    result.deletedChatConversations += conversationsDeleted.count;
 
     result.deletedAuditLogs += await auditLogs.purgeExpired({ organizationId });
+    result.deletedPageViews += await pageAnalytics.purgeExpired(
+      organizationId,
+      resolvePageAnalyticsPolicy(policy).retentionDays
+    );
   }
 
   logger.info("Data retention sweep completed", result);
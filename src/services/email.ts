@@ -31,6 +31,13 @@ export interface DigestEmailOptions {
   runDate: Date;
 }
 
+export interface AutomationAlertEmailOptions {
+  to: string[];
+  ruleName: string;
+  title: string;
+  text: string;
+}
+
 // ─── Email Service ───────────────────────────────────────────────────────────
 
 export class EmailService {
@@ -71,6 +78,38 @@ export class EmailService {
     });
   }
 
+  /**
+   * Sends an automation rule alert. The body is plain text rendered from the
+   * rule's payload template, so it is escaped rather than trusted as HTML.
+   */
+  async sendAutomationAlert(options: AutomationAlertEmailOptions): Promise<void> {
+    const { to, ruleName, title, text } = options;
+
+    if (to.length === 0) return;
+
+    const paragraphs = text
+      .split(/\n{2,}/)
+      .map((p) => `<p>${this.escapeHtml(p).replace(/\n/g, "<br>")}</p>`)
+      .join("");
+
+    const html = `<!DOCTYPE html>
+<html>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #333;">
+  <h2 style="color: #1a1a2e;">${this.escapeHtml(title)}</h2>
+  ${paragraphs}
+  <p style="font-size: 12px; color: #999;">Sent by the "${this.escapeHtml(ruleName)}" automation in <a href="${this.appUrl}">StoryEngine</a>.</p>
+</body>
+</html>`;
+
+    await this.resend.emails.send({
+      from: this.fromAddress,
+      to,
+      subject: title,
+      html,
+      text,
+    });
+  }
+
   // ─── HTML Template ───────────────────────────────────────────────
 
   private buildDigestHtml(
@@ -12,6 +12,7 @@
 import Fuse from "fuse.js";
 import type { PrismaClient } from "@prisma/client";
 import { normalizeCompanyName, extractEmailDomain } from "./entity-resolution.js";
+import { tryDispatchOutboundWebhookEvent } from "./outbound-webhooks.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -268,6 +269,18 @@ export class EntityResolutionQueueService {
         },
       });
     }
+
+    await tryDispatchOutboundWebhookEvent(this.prisma, {
+      organizationId,
+      eventType: "entity_resolution_completed",
+      payload: {
+        call_id: callId,
+        account_id: accountId,
+        match_method: "manual",
+        confidence: 1,
+        needs_review: false,
+      },
+    });
   }
 
   /**
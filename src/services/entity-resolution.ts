@@ -18,6 +18,7 @@ import Fuse, { type FuseResult } from "fuse.js";
 import type { PrismaClient } from "@prisma/client";
 import logger from "../lib/logger.js";
 import { metrics } from "../lib/metrics.js";
+import { tryDispatchOutboundWebhookEvent } from "./outbound-webhooks.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -196,6 +197,7 @@ export class EntityResolver {
         callId,
         automationHook: "entity_resolution_manual_review_v1",
       });
+      await this.emitResolutionCompleted(organizationId, callId, resolution);
       return resolution;
     }
 
@@ -230,11 +232,30 @@ export class EntityResolver {
       data: { accountId: resolution.accountId },
     });
 
+    await this.emitResolutionCompleted(organizationId, callId, resolution);
     return resolution;
   }
 
   // ─── Private Methods ────────────────────────────────────────────────
 
+  private async emitResolutionCompleted(
+    organizationId: string,
+    callId: string,
+    resolution: ResolvedEntity
+  ): Promise<void> {
+    await tryDispatchOutboundWebhookEvent(this.prisma, {
+      organizationId,
+      eventType: "entity_resolution_completed",
+      payload: {
+        call_id: callId,
+        account_id: resolution.accountId || null,
+        match_method: resolution.matchMethod,
+        confidence: resolution.confidence,
+        needs_review: resolution.matchMethod === "none",
+      },
+    });
+  }
+
   private extractParticipantDomains(participants: CallParticipantInput[]): string[] {
     const domains = new Set<string>();
     for (const p of participants) {
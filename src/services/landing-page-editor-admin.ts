@@ -2,11 +2,21 @@ import { Prisma, type PrismaClient } from "@prisma/client";
 import { decodeProvenance } from "../types/json-boundaries.js";
 import { LifecycleStageService } from "./lifecycle-stage-service.js";
 import { syncStoryPublishedAtFromLandingPages } from "./landing-page-editor-helpers.js";
+import { dispatchApprovalRequestEvent } from "./outbound-webhooks.js";
+import { PageAnalyticsService } from "./page-analytics.js";
 import type {
   ArtifactVersionSummary,
+  LandingPageRollbackResult,
   LandingPageSummary,
 } from "./landing-page-editor-types.js";
 
+/** Engagement columns and cards cover the trailing window, not all time. */
+export const DASHBOARD_ENGAGEMENT_WINDOW_DAYS = 30;
+
+export function engagementWindowStart(): Date {
+  return new Date(Date.now() - DASHBOARD_ENGAGEMENT_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+}
+
 interface ListForOrgFilters {
   status?: "DRAFT" | "IN_REVIEW" | "APPROVED" | "PUBLISHED";
   includeArchived?: boolean;
@@ -36,10 +46,13 @@ export async function listLandingPagesForOrg(
     orderBy: { updatedAt: "desc" },
   });
 
-  const lifecycle = await new LifecycleStageService(prisma).resolveLandingPageLifecycle(
-    organizationId,
-    pages.map((page) => ({ id: page.id, publishedAt: page.publishedAt }))
-  );
+  const [lifecycle, engagement] = await Promise.all([
+    new LifecycleStageService(prisma).resolveLandingPageLifecycle(
+      organizationId,
+      pages.map((page) => ({ id: page.id, publishedAt: page.publishedAt }))
+    ),
+    new PageAnalyticsService(prisma).getPageSummaries(organizationId, engagementWindowStart()),
+  ]);
 
   return pages
     .map((page) => ({
@@ -51,6 +64,7 @@ export async function listLandingPagesForOrg(
       lifecycleStage: lifecycle.get(page.id)?.stage ?? "DRAFT",
       visibility: page.visibility,
       viewCount: page.viewCount,
+      engagement: engagement.get(page.id) ?? null,
       createdByName: page.createdBy.name,
       createdByEmail: page.createdBy.email,
       accountName: page.story.account.name,
@@ -152,8 +166,8 @@ export async function rollbackLandingPageToVersion(
   pageId: string,
   versionId: string,
   actorUserId: string
-): Promise<void> {
-  await prisma.$transaction(async (tx) => {
+): Promise<LandingPageRollbackResult> {
+  return prisma.$transaction(async (tx) => {
     const page = await tx.landingPage.findUniqueOrThrow({
       where: { id: pageId },
     });
@@ -200,7 +214,7 @@ export async function rollbackLandingPageToVersion(
       _max: { versionNumber: true },
     });
 
-    await tx.publishedArtifactVersion.create({
+    const created = await tx.publishedArtifactVersion.create({
       data: {
         organizationId: page.organizationId,
         landingPageId: pageId,
@@ -227,6 +241,13 @@ export async function rollbackLandingPageToVersion(
         },
       },
     });
+
+    return {
+      sourceVersionId: version.id,
+      sourceVersionNumber: version.versionNumber,
+      newVersionId: created.id,
+      newVersionNumber: created.versionNumber,
+    };
   });
 }
 
@@ -282,7 +303,7 @@ export function findPendingPublishApproval(
   });
 }
 
-export function createPublishApprovalRequest(
+export async function createPublishApprovalRequest(
   prisma: PrismaClient,
   data: {
     organizationId: string;
@@ -293,7 +314,7 @@ export function createPublishApprovalRequest(
     requestPayload: Record<string, unknown>;
   }
 ): Promise<{ id: string }> {
-  return prisma.approvalRequest.create({
+  const request = await prisma.approvalRequest.create({
     data: {
       organizationId: data.organizationId,
       requestType: data.requestType ?? "LANDING_PAGE_PUBLISH",
@@ -304,6 +325,8 @@ export function createPublishApprovalRequest(
       requestPayload: data.requestPayload as object,
     },
   });
+  await dispatchApprovalRequestEvent(prisma, request);
+  return request;
 }
 
 export function listPublishApprovalRequests(
@@ -357,7 +380,7 @@ export function findPublishApprovalRequest(
   });
 }
 
-export function updatePublishApprovalRequest(
+export async function updatePublishApprovalRequest(
   prisma: PrismaClient,
   requestId: string,
   data: {
@@ -368,7 +391,7 @@ export function updatePublishApprovalRequest(
     requestPayload?: Record<string, unknown>;
   }
 ) {
-  return prisma.approvalRequest.update({
+  const request = await prisma.approvalRequest.update({
     where: { id: requestId },
     data: {
       status: data.status,
@@ -378,4 +401,9 @@ export function updatePublishApprovalRequest(
       requestPayload: data.requestPayload as object | undefined,
     },
   });
+  // Intermediate approval-chain steps stay PENDING; only final decisions emit.
+  if (data.status && data.status !== "PENDING") {
+    await dispatchApprovalRequestEvent(prisma, request);
+  }
+  return request;
 }
@@ -4,6 +4,7 @@ import { normalizeCompanyName } from "./entity-resolution.js";
 import { collectLinkCandidates, validateLinkSyntax } from "./publish-link-utils.js";
 import type { CalloutBox } from "./landing-page-editor-types.js";
 import type { PublishedBrandingSettings, StoryContextSettings } from "../types/story-generation.js";
+import type { StoryLintFinding } from "./story-lint.js";
 
 export interface PublishValidationIssue {
   field: string;
@@ -204,6 +205,8 @@ export function validatePublishSnapshot(input: {
   subtitle?: string | null;
   calloutBoxes: Array<{ title?: string | null; body?: string | null }>;
   fieldPrefix: "editable" | "scrubbed";
+  /** Story lint findings that block publish under the org's governance mode. */
+  blockingLintFindings?: StoryLintFinding[];
 }): PublishValidationIssue[] {
   const issues: PublishValidationIssue[] = [];
   const title = (input.title ?? "").trim();
@@ -277,6 +280,14 @@ export function validatePublishSnapshot(input: {
     });
   }
 
+  for (const finding of input.blockingLintFindings ?? []) {
+    issues.push({
+      field: finding.field,
+      code: `story_lint_${finding.rule}`,
+      message: `${finding.message} ${finding.suggestion}`,
+    });
+  }
+
   return issues;
 }
 
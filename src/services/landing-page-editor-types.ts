@@ -1,4 +1,6 @@
 import type { PageStatus, PageVisibility } from "@prisma/client";
+import type { PublishedBrandingSettings } from "../types/story-generation.js";
+import type { PageEngagementSummary } from "./page-analytics.js";
 
 export interface CalloutBox {
   title: string;
@@ -19,6 +21,28 @@ export interface ArtifactVersionSummary {
   provenance: Record<string, unknown> | null;
 }
 
+/** Published page content as served at /s/{slug}, after org anonymization. */
+export interface PublicLandingPage {
+  id: string;
+  organizationId: string;
+  title: string;
+  subtitle: string | null;
+  body: string;
+  calloutBoxes: CalloutBox[];
+  totalCallHours: number;
+  heroImageUrl: string | null;
+  customCss: string | null;
+  branding: PublishedBrandingSettings | null;
+  publishedAt: Date | null;
+}
+
+export interface LandingPageRollbackResult {
+  sourceVersionId: string;
+  sourceVersionNumber: number;
+  newVersionId: string;
+  newVersionNumber: number;
+}
+
 export interface LandingPageSummary {
   id: string;
   slug: string;
@@ -28,6 +52,8 @@ export interface LandingPageSummary {
   lifecycleStage: "DRAFT" | "IN_REVIEW" | "APPROVED" | "PUBLISHED";
   visibility: PageVisibility;
   viewCount: number;
+  /** Engagement over the dashboard window; null when no tracked views landed in it. */
+  engagement: PageEngagementSummary | null;
   createdByName: string | null;
   createdByEmail: string;
   accountName: string;
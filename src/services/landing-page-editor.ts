@@ -10,15 +10,19 @@
  *   6. ARCHIVE — soft-delete, remove from public
  */
 
-import type { PrismaClient, PageVisibility } from "@prisma/client";
-import { CompanyScrubber } from "./company-scrubber.js";
+import type { LandingPage, PrismaClient, PageVisibility } from "@prisma/client";
+import { CompanyScrubber, type ScrubConfig, type ScrubResult } from "./company-scrubber.js";
+import { storyAccountIds } from "./story-query.js";
+import { comparativeAccountLabel } from "./story-account-segments.js";
 import { hashPagePassword, verifyPagePassword } from "../lib/page-password.js";
 import { decodeCalloutBoxes, encodeJsonValue } from "../types/json-boundaries.js";
 import type { PublishedBrandingSettings } from "../types/story-generation.js";
 import type {
   ArtifactVersionSummary,
   CalloutBox,
+  LandingPageRollbackResult,
   LandingPageSummary,
+  PublicLandingPage,
 } from "./landing-page-editor-types.js";
 import {
   buildDefaultCalloutBoxes,
@@ -44,10 +48,21 @@ import {
   rollbackLandingPageToVersion,
   updatePublishApprovalRequest as updatePublishApprovalRequestCore,
 } from "./landing-page-editor-admin.js";
+import {
+  blockingLintFindings,
+  landingPageLintFields,
+  lintLandingPageDraft,
+  lintStoryFields,
+  loadStoryLintPolicy,
+  type StoryLintFinding,
+  type StoryLintPublishMode,
+} from "./story-lint.js";
 export type {
   ArtifactVersionSummary,
   CalloutBox,
+  LandingPageRollbackResult,
   LandingPageSummary,
+  PublicLandingPage,
 } from "./landing-page-editor-types.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
@@ -129,6 +144,14 @@ export class ConcurrencyConflictError extends Error {
 
 // ─── Service ─────────────────────────────────────────────────────────────────
 
+/** Contributing accounts of a comparative story, for scrubbing. */
+const STORY_ACCOUNTS_SELECT = { select: { accountId: true, position: true } } as const;
+
+interface PageStoryAccounts {
+  accountId: string;
+  contributingAccounts: Array<{ accountId: string; position: number }>;
+}
+
 export class LandingPageEditor {
   private prisma: PrismaClient;
   private scrubber: CompanyScrubber;
@@ -138,6 +161,28 @@ export class LandingPageEditor {
     this.scrubber = new CompanyScrubber(prisma);
   }
 
+  /**
+   * Scrubs text for every account the page's story draws on. Accounts of a
+   * comparative story each keep their own label ("Customer A").
+   */
+  private scrubStoryText(
+    story: PageStoryAccounts,
+    text: string,
+    configOverrides?: Partial<ScrubConfig>
+  ): Promise<ScrubResult> {
+    if (story.contributingAccounts.length === 0) {
+      return this.scrubber.scrubForAccount(story.accountId, text, configOverrides);
+    }
+    return this.scrubber.scrubForAccounts(
+      storyAccountIds(story),
+      text,
+      configOverrides,
+      Object.fromEntries(
+        story.contributingAccounts.map((row) => [row.accountId, comparativeAccountLabel(row.position)])
+      )
+    );
+  }
+
   /**
    * Creates a new landing page from an existing Story.
    * Pre-populates the editable body with the story's Markdown.
@@ -162,10 +207,18 @@ export class LandingPageEditor {
     const slug = await generateUniqueSlug(this.prisma, input.title);
     const defaultCallouts = buildDefaultCalloutBoxes(story.quotes, input.calloutBoxes);
 
+    // The body revision this draft starts from, for merging later story changes
+    const storyRevision = await this.prisma.storyRevision.findFirst({
+      where: { storyId: story.id, status: "APPLIED", source: { in: ["GENERATED", "MERGED"] } },
+      orderBy: { revisionNumber: "desc" },
+      select: { id: true },
+    });
+
     const page = await this.prisma.landingPage.create({
       data: {
         organizationId: input.organizationId,
         storyId: input.storyId,
+        storyRevisionId: storyRevision?.id ?? null,
         createdById: input.createdById,
         slug,
         title: input.title,
@@ -294,7 +347,7 @@ export class LandingPageEditor {
   async publish(pageId: string, options: PublishOptions): Promise<{ slug: string; url: string }> {
     const page = await this.prisma.landingPage.findUniqueOrThrow({
       where: { id: pageId },
-      include: { story: { select: { id: true, accountId: true } } },
+      include: { story: { select: { id: true, accountId: true, language: true, contributingAccounts: STORY_ACCOUNTS_SELECT } } },
     });
 
     let scrubbedBody: string;
@@ -302,15 +355,29 @@ export class LandingPageEditor {
     let scrubbedSubtitle: string | null;
     let scrubbedCallouts: CalloutBox[] | null = null;
 
+    const editableCallouts = decodeCalloutBoxes(page.calloutBoxes).map((box) => ({
+      title: box.title,
+      body: box.body,
+    }));
+    // Company names are left out here: publish scrubs them on anonymous pages.
+    const lintPolicy = await loadStoryLintPolicy(this.prisma, page.organizationId);
+    const lintFindings = lintStoryFields(
+      landingPageLintFields({
+        title: page.title,
+        subtitle: page.subtitle,
+        body: page.editableBody,
+        calloutBoxes: editableCallouts,
+      }),
+      lintPolicy.rules
+    );
+
     const prePublishIssues = validatePublishSnapshot({
       title: page.title,
       subtitle: page.subtitle,
       body: page.editableBody,
-      calloutBoxes: decodeCalloutBoxes(page.calloutBoxes).map((box) => ({
-        title: box.title,
-        body: box.body,
-      })),
+      calloutBoxes: editableCallouts,
       fieldPrefix: "editable",
+      blockingLintFindings: blockingLintFindings(lintFindings, lintPolicy.mode),
     });
     if (prePublishIssues.length > 0) {
       throw new PublishValidationError(prePublishIssues);
@@ -321,17 +388,24 @@ export class LandingPageEditor {
       scrubbedTitle = page.title;
       scrubbedSubtitle = page.subtitle;
     } else {
-      const scrubResult = await this.scrubber.scrubForAccount(
-        page.story.accountId,
-        page.editableBody
+      // Descriptors like "a VP at the client" are written in the story's language
+      const scrubOpts = { language: page.story.language };
+      const scrubResult = await this.scrubStoryText(
+        page.story,
+        page.editableBody,
+        scrubOpts
       );
       scrubbedBody = scrubResult.scrubbedText;
 
-      const titleScrub = await this.scrubber.scrubForAccount(page.story.accountId, page.title);
+      const titleScrub = await this.scrubStoryText(
+        page.story,
+        page.title,
+        scrubOpts
+      );
       scrubbedTitle = titleScrub.scrubbedText;
 
       const subtitleScrub = page.subtitle
-        ? await this.scrubber.scrubForAccount(page.story.accountId, page.subtitle)
+        ? await this.scrubStoryText(page.story, page.subtitle, scrubOpts)
         : null;
       scrubbedSubtitle = subtitleScrub?.scrubbedText ?? null;
 
@@ -339,10 +413,15 @@ export class LandingPageEditor {
         const callouts = decodeCalloutBoxes(page.calloutBoxes);
         scrubbedCallouts = [];
         for (const box of callouts) {
-          const bodyScrub = await this.scrubber.scrubForAccount(page.story.accountId, box.body);
-          const boxTitleScrub = await this.scrubber.scrubForAccount(
-            page.story.accountId,
-            box.title
+          const bodyScrub = await this.scrubStoryText(
+            page.story,
+            box.body,
+            scrubOpts
+          );
+          const boxTitleScrub = await this.scrubStoryText(
+            page.story,
+            box.title,
+            scrubOpts
           );
           scrubbedCallouts.push({
             ...box,
@@ -354,12 +433,19 @@ export class LandingPageEditor {
     }
 
     if (!page.includeCompanyName) {
-      const leakageTerms = await detectScrubLeakage(this.prisma, page.story.accountId, [
+      const scrubbedFragments = [
         scrubbedBody,
         scrubbedTitle,
         scrubbedSubtitle ?? "",
         ...(scrubbedCallouts ?? []).flatMap((box) => [box.title, box.body]),
-      ]);
+      ];
+      const leakageTerms = (
+        await Promise.all(
+          storyAccountIds(page.story).map((accountId) =>
+            detectScrubLeakage(this.prisma, accountId, scrubbedFragments)
+          )
+        )
+      ).flat();
       if (leakageTerms.length > 0) {
         throw new ScrubValidationError(leakageTerms);
       }
@@ -441,6 +527,37 @@ export class LandingPageEditor {
     await syncStoryPublishedAtFromLandingPages(this.prisma, page.storyId);
   }
 
+  /**
+   * Lints the draft against the org's story context. Pass the editor's
+   * unsaved fields to lint what the rep is looking at instead of the
+   * last saved version.
+   */
+  async lintDraft(
+    pageId: string,
+    draft: { title?: string; subtitle?: string; editableBody?: string; calloutBoxes?: CalloutBox[] } = {}
+  ): Promise<{ mode: StoryLintPublishMode; findings: StoryLintFinding[] }> {
+    const page = await this.prisma.landingPage.findUniqueOrThrow({
+      where: { id: pageId },
+      include: { story: { select: { accountId: true, language: true, contributingAccounts: STORY_ACCOUNTS_SELECT } } },
+    });
+    const policy = await loadStoryLintPolicy(this.prisma, page.organizationId);
+    const findings = await lintLandingPageDraft(
+      this.scrubber,
+      {
+        accountId: page.story.accountId,
+        accountIds: storyAccountIds(page.story),
+        language: page.story.language,
+        includeCompanyName: page.includeCompanyName,
+        title: draft.title ?? page.title,
+        subtitle: draft.subtitle ?? page.subtitle,
+        body: draft.editableBody ?? page.editableBody,
+        calloutBoxes: draft.calloutBoxes ?? decodeCalloutBoxes(page.calloutBoxes),
+      },
+      policy.rules
+    );
+    return { mode: policy.mode, findings };
+  }
+
   /**
    * Fetches the full landing page for editing (internal, unscrubbed).
    */
@@ -472,20 +589,7 @@ export class LandingPageEditor {
    * original (identifiable) or scrubbed (anonymized) content.
    * Returns null if not published, expired, or private.
    */
-  async getPublicBySlug(
-    slug: string,
-    password?: string
-  ): Promise<{
-    title: string;
-    subtitle: string | null;
-    body: string;
-    calloutBoxes: CalloutBox[];
-    totalCallHours: number;
-    heroImageUrl: string | null;
-    customCss: string | null;
-    branding: PublishedBrandingSettings | null;
-    publishedAt: Date | null;
-  } | null> {
+  async getPublicBySlug(slug: string, password?: string): Promise<PublicLandingPage | null> {
     const page = await this.prisma.landingPage.findUnique({
       where: { slug },
     });
@@ -503,12 +607,57 @@ export class LandingPageEditor {
       if (!password || !verifyPagePassword(password, page.password)) return null;
     }
 
+    return this.servePublicPage(page);
+  }
+
+  /**
+   * Fetches a published page for a per-recipient share link. The link has
+   * already been checked (token, revoke flag, expiry, password), so page
+   * visibility and the page-level password do not apply here.
+   */
+  async getPublicForShareLink(landingPageId: string): Promise<PublicLandingPage | null> {
+    const page = await this.prisma.landingPage.findUnique({
+      where: { id: landingPageId },
+    });
+
+    if (!page || page.status !== "PUBLISHED") return null;
+    if (page.expiresAt && new Date() > page.expiresAt) return null;
+
+    return this.servePublicPage(page);
+  }
+
+  /**
+   * Fetches a page for an embed on a third-party site. Only pages anyone
+   * could open at /s/{slug} are embeddable: published, unexpired, not
+   * private and without a password. Embeds do not count as page views.
+   */
+  async getPublicForEmbed(slug: string): Promise<PublicLandingPage | null> {
+    const page = await this.prisma.landingPage.findUnique({
+      where: { slug },
+    });
+
+    if (!page || page.status !== "PUBLISHED") return null;
+    if (page.expiresAt && new Date() > page.expiresAt) return null;
+    if (page.visibility === "PRIVATE" || page.password) return null;
+
+    return this.buildPublicPage(page);
+  }
+
+  private async servePublicPage(page: LandingPage): Promise<PublicLandingPage> {
     // Increment view count
     await this.prisma.landingPage.update({
       where: { id: page.id },
       data: { viewCount: { increment: 1 } },
     });
 
+    return this.buildPublicPage(page);
+  }
+
+  /**
+   * Shapes a page the way public readers see it, without counting a view.
+   * Callers are responsible for the published/expiry/visibility checks.
+   */
+  async buildPublicPage(page: LandingPage): Promise<PublicLandingPage> {
     // Check org-level anonymization + branding settings
     const pagePresentation = await getPagePresentationSettings(this.prisma, page.organizationId);
     const shouldAnonymize = pagePresentation.anonymizationEnabled;
@@ -518,6 +667,8 @@ export class LandingPageEditor {
     const useOriginal = !shouldAnonymize || page.includeCompanyName;
 
     return {
+      id: page.id,
+      organizationId: page.organizationId,
       title: useOriginal ? page.title : (page.scrubbedTitle ?? page.title),
       subtitle: useOriginal ? page.subtitle : (page.scrubbedSubtitle ?? page.subtitle),
       body: useOriginal ? page.editableBody : page.scrubbedBody || page.editableBody,
@@ -551,31 +702,31 @@ export class LandingPageEditor {
   }> {
     const page = await this.prisma.landingPage.findUniqueOrThrow({
       where: { id: pageId },
-      include: { story: { select: { accountId: true } } },
+      include: { story: { select: { accountId: true, language: true, contributingAccounts: STORY_ACCOUNTS_SELECT } } },
     });
 
     const pagePresentation = await getPagePresentationSettings(this.prisma, page.organizationId);
     const shouldAnonymize = pagePresentation.anonymizationEnabled;
     const skipScrub = !shouldAnonymize || page.includeCompanyName;
-    const scrubOpts = { skipScrub };
+    const scrubOpts = { skipScrub, language: page.story.language };
 
     // Scrub body
-    const bodyScrub = await this.scrubber.scrubForAccount(
-      page.story.accountId,
+    const bodyScrub = await this.scrubStoryText(
+      page.story,
       page.editableBody,
       scrubOpts
     );
 
     // Scrub title
-    const titleScrub = await this.scrubber.scrubForAccount(
-      page.story.accountId,
+    const titleScrub = await this.scrubStoryText(
+      page.story,
       page.title,
       scrubOpts
     );
 
     // Scrub subtitle
     const subtitleScrub = page.subtitle
-      ? await this.scrubber.scrubForAccount(page.story.accountId, page.subtitle, scrubOpts)
+      ? await this.scrubStoryText(page.story, page.subtitle, scrubOpts)
       : null;
 
     // Scrub callout boxes
@@ -583,13 +734,13 @@ export class LandingPageEditor {
     if (page.calloutBoxes && Array.isArray(page.calloutBoxes)) {
       const callouts = decodeCalloutBoxes(page.calloutBoxes);
       for (const box of callouts) {
-        const boxBody = await this.scrubber.scrubForAccount(
-          page.story.accountId,
+        const boxBody = await this.scrubStoryText(
+          page.story,
           box.body,
           scrubOpts
         );
-        const boxTitle = await this.scrubber.scrubForAccount(
-          page.story.accountId,
+        const boxTitle = await this.scrubStoryText(
+          page.story,
           box.title,
           scrubOpts
         );
@@ -648,7 +799,11 @@ export class LandingPageEditor {
     return listLandingPageArtifactVersions(this.prisma, pageId, organizationId);
   }
 
-  async rollbackToVersion(pageId: string, versionId: string, actorUserId: string): Promise<void> {
+  async rollbackToVersion(
+    pageId: string,
+    versionId: string,
+    actorUserId: string
+  ): Promise<LandingPageRollbackResult> {
     return rollbackLandingPageToVersion(this.prisma, pageId, versionId, actorUserId);
   }
 
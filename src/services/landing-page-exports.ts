@@ -1,25 +1,43 @@
 /**
  * Landing Page Export Service
  *
- * Three export methods for landing pages:
+ * Four export methods for landing pages:
  *   1. PDF — Renders the public page HTML via Puppeteer and returns a PDF buffer
  *   2. Google Doc — Creates a Google Doc via the Google Docs API
  *   3. Slack — Posts the story summary + top 3 callout boxes to a Slack channel
+ *   4. Static site — Zips published pages, hero images, an index and a sitemap
+ *      for hosting on the customer's own CDN or CMS
  */
 
 import { join } from "node:path";
 import { Worker } from "node:worker_threads";
-import type { PrismaClient } from "@prisma/client";
+import type { LandingPage, PrismaClient } from "@prisma/client";
 import { google } from "googleapis";
 import { renderLandingPageHtml } from "../api/public-page/renderer.js";
-import type { CalloutBox } from "./landing-page-editor.js";
+import { sanitizeHeroImageUrl } from "../api/public-page/sanitizers.js";
+import {
+  renderRobotsTxt,
+  renderSitemapXml,
+  renderStaticSiteIndexHtml,
+  type StaticSitePageEntry,
+} from "../api/public-page/static-site-templates.js";
+import { fetchWithTimeout } from "../lib/fetch-with-timeout.js";
+import logger from "../lib/logger.js";
+import {
+  markdownToTextBlocks,
+  renderMarkdownSlack,
+  type TextBlock,
+  type TextRun,
+} from "../lib/markdown-render.js";
+import { LandingPageEditor, type CalloutBox } from "./landing-page-editor.js";
 import { decodeCalloutBoxes } from "../types/json-boundaries.js";
-import type { StoryContextSettings } from "../types/story-generation.js";
+import type { PublishedBrandingSettings, StoryContextSettings } from "../types/story-generation.js";
 import type { PdfWorkerRequest } from "../workers/pdf-export-worker.js";
 import {
   assertSafeOutboundUrl,
   parseHostAllowlist,
 } from "../lib/url-security.js";
+import { createZipArchive, type ZipEntry } from "../lib/zip-archive.js";
 
 /**
  * Resolve the worker script path.  In the compiled build the layout is
@@ -39,6 +57,18 @@ const PDF_WORKER_TIMEOUT_MS = resolvePositiveInt(
 const SLACK_WEBHOOK_HOST_ALLOWLIST = parseHostAllowlist(
   process.env.SLACK_WEBHOOK_HOST_ALLOWLIST
 );
+const SLACK_SUMMARY_MAX_LENGTH = 500;
+const GOOGLE_DOC_HEADING_SIZES: Record<number, number> = { 1: 18, 2: 15, 3: 13 };
+const HERO_IMAGE_FETCH_TIMEOUT_MS = 10_000;
+const HERO_IMAGE_MAX_BYTES = 5 * 1024 * 1024;
+/** Raster formats only: SVG can carry script into the customer's origin. */
+const HERO_IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/avif": "avif",
+};
 
 class Semaphore {
   private queue: (() => void)[] = [];
@@ -75,6 +105,26 @@ interface ExportablePage {
   } | null;
 }
 
+export type StaticSiteExportIssueCode =
+  | "not_found"
+  | "not_published"
+  | "expired"
+  | "private"
+  | "password_protected";
+
+export interface StaticSiteExportIssue {
+  pageId: string;
+  code: StaticSiteExportIssueCode;
+}
+
+/** Thrown when a requested page may not leave the platform as a static site. */
+export class StaticSiteExportError extends Error {
+  constructor(public readonly issues: StaticSiteExportIssue[]) {
+    super("Only published pages that anyone with the link can open can be exported as a static site.");
+    this.name = "StaticSiteExportError";
+  }
+}
+
 // ─── Service ─────────────────────────────────────────────────────────────────
 
 export class LandingPageExporter {
@@ -157,12 +207,18 @@ export class LandingPageExporter {
     let insertIndex = 1; // docs start at index 1
 
     // Helper: insert text and advance index
-    const insertText = (text: string, bold = false, fontSize?: number, color?: string) => {
+    const insertText = (
+      text: string,
+      bold = false,
+      fontSize?: number,
+      color?: string,
+      extraStyle: Record<string, unknown> = {}
+    ) => {
       const endIndex = insertIndex + text.length;
       requests.push({
         insertText: { location: { index: insertIndex }, text },
       });
-      const style: Record<string, unknown> = {};
+      const style: Record<string, unknown> = { ...extraStyle };
       if (bold) style.bold = true;
       if (fontSize) style.fontSize = { magnitude: fontSize, unit: "PT" };
       if (color) {
@@ -203,6 +259,84 @@ export class LandingPageExporter {
     insertNewline();
     insertNewline();
 
+    // Markdown runs; "\n" inside a run is a line break, not a new paragraph
+    const insertRuns = (runs: TextRun[], bold = false, fontSize?: number, color?: string) => {
+      for (const run of runs) {
+        if (!run.text) continue;
+        const extraStyle: Record<string, unknown> = {};
+        if (run.italic) extraStyle.italic = true;
+        if (run.superscript) extraStyle.baselineOffset = "SUPERSCRIPT";
+        if (run.code) extraStyle.weightedFontFamily = { fontFamily: "Courier New" };
+        if (run.href) extraStyle.link = { url: run.href };
+        insertText(run.text.replace(/\n/g, "\u000b"), bold || run.bold === true, fontSize, color, extraStyle);
+      }
+    };
+
+    const insertBlocks = (blocks: TextBlock[]) => {
+      for (const block of blocks) {
+        switch (block.kind) {
+          case "heading":
+            insertRuns(block.runs, true, GOOGLE_DOC_HEADING_SIZES[block.level] ?? 12, block.level === 2 ? "#4f46e5" : undefined);
+            insertNewline();
+            break;
+          case "paragraph":
+            insertRuns(block.runs);
+            insertNewline();
+            insertNewline();
+            break;
+          case "listItem":
+            insertText(`${"  ".repeat(block.indent + 1)}${block.marker} `);
+            insertRuns(block.runs);
+            insertNewline();
+            break;
+          case "quote":
+            insertRuns(block.runs, false, 11, "#4f46e5");
+            insertNewline();
+            break;
+          case "calloutTitle":
+            insertText(`[${block.variant.toUpperCase()}] `, true, 10, calloutColor(block.variant));
+            insertRuns(block.runs, true, 11);
+            insertNewline();
+            break;
+          case "callout":
+            insertRuns(block.runs);
+            insertNewline();
+            break;
+          case "code":
+            insertText(block.text.replace(/\n/g, "\u000b"), false, 10, undefined, {
+              weightedFontFamily: { fontFamily: "Courier New" },
+            });
+            insertNewline();
+            insertNewline();
+            break;
+          case "table":
+            block.header.forEach((cell, index) => {
+              if (index > 0) insertText("\t");
+              insertRuns(cell, true);
+            });
+            insertNewline();
+            for (const row of block.rows) {
+              row.forEach((cell, index) => {
+                if (index > 0) insertText("\t");
+                insertRuns(cell);
+              });
+              insertNewline();
+            }
+            insertNewline();
+            break;
+          case "rule":
+            insertText("─".repeat(50), false, 8, "#CCCCCC");
+            insertNewline();
+            break;
+          case "footnote":
+            insertText(`${block.marker} `, false, 9);
+            insertRuns(block.runs, false, 9);
+            insertNewline();
+            break;
+        }
+      }
+    };
+
     // Callout boxes
     if (page.calloutBoxes.length > 0) {
       for (const box of page.calloutBoxes) {
@@ -210,9 +344,7 @@ export class LandingPageExporter {
         insertText(`[${iconLabel}] `, true, 10, calloutColor(box.icon));
         insertText(box.title, true, 11);
         insertNewline();
-        insertText(box.body);
-        insertNewline();
-        insertNewline();
+        insertBlocks(markdownToTextBlocks(box.body));
       }
 
       // Horizontal rule (simulated)
@@ -221,46 +353,8 @@ export class LandingPageExporter {
       insertNewline();
     }
 
-    // Body — convert markdown to plain text sections
-    const bodyLines = page.body.split("\n");
-    for (const line of bodyLines) {
-      const h1Match = line.match(/^# (.+)$/);
-      const h2Match = line.match(/^## (.+)$/);
-      const h3Match = line.match(/^### (.+)$/);
-      const h4Match = line.match(/^#### (.+)$/);
-      const blockquoteMatch = line.match(/^> (.+)$/);
-      const listMatch = line.match(/^- (.+)$/);
-
-      if (h1Match) {
-        insertText(h1Match[1], true, 18);
-        insertNewline();
-      } else if (h2Match) {
-        insertText(h2Match[1], true, 15, "#4f46e5");
-        insertNewline();
-      } else if (h3Match) {
-        insertText(h3Match[1], true, 13);
-        insertNewline();
-      } else if (h4Match) {
-        insertText(h4Match[1], true, 12);
-        insertNewline();
-      } else if (blockquoteMatch) {
-        insertText(`"${blockquoteMatch[1]}"`, false, 11, "#4f46e5");
-        insertNewline();
-      } else if (listMatch) {
-        insertText(`  \u2022 ${listMatch[1]}`);
-        insertNewline();
-      } else if (line.trim() === "---") {
-        insertText("─".repeat(50), false, 8, "#CCCCCC");
-        insertNewline();
-      } else if (line.trim() === "") {
-        insertNewline();
-      } else {
-        // Strip inline markdown formatting for plain text
-        const cleaned = line.replace(/\*\*(.+?)\*\*/g, "$1").replace(/\*(.+?)\*/g, "$1");
-        insertText(cleaned);
-        insertNewline();
-      }
-    }
+    // Body
+    insertBlocks(markdownToTextBlocks(page.body));
 
     // 3. Apply the batchUpdate
     if (requests.length > 0) {
@@ -367,9 +461,7 @@ export class LandingPageExporter {
     const topCallouts = page.calloutBoxes.slice(0, 3);
     for (const box of topCallouts) {
       const emoji = calloutEmoji(box.icon);
-      // Strip markdown bold markers for Slack display
-      const bodyText = box.body
-        .replace(/\*\*(.+?)\*\*/g, "*$1*"); // convert markdown bold to Slack bold
+      const bodyText = renderMarkdownSlack(box.body);
       blocks.push({
         type: "section",
         text: {
@@ -381,23 +473,12 @@ export class LandingPageExporter {
 
     blocks.push({ type: "divider" });
 
-    // Story summary (first ~500 chars of body, stripped of markdown)
-    const summaryText = page.body
-      .replace(/^#{1,4} .+$/gm, "") // remove headers
-      .replace(/\*\*(.+?)\*\*/g, "$1") // remove bold
-      .replace(/\*(.+?)\*/g, "$1") // remove italic
-      .replace(/^- /gm, "\u2022 ") // bullet points
-      .replace(/^> /gm, "") // remove blockquotes
-      .replace(/---/g, "") // remove hrs
-      .replace(/\n{3,}/g, "\n\n") // collapse extra newlines
-      .trim()
-      .slice(0, 500);
-
+    // Story summary (first ~500 chars of the rendered body)
     blocks.push({
       type: "section",
       text: {
         type: "mrkdwn",
-        text: summaryText + (page.body.length > 500 ? "..." : ""),
+        text: renderMarkdownSlack(page.body, { maxLength: SLACK_SUMMARY_MAX_LENGTH }),
       },
     });
 
@@ -431,6 +512,98 @@ export class LandingPageExporter {
     return { ok: true };
   }
 
+  // ─── Static Site Export ──────────────────────────────────────────────
+
+  /**
+   * Builds a self-contained zip of one or more published pages:
+   *   index.html, <slug>/index.html, assets/<slug>-hero.<ext>,
+   *   sitemap.xml and robots.txt
+   *
+   * Pages are rendered exactly as public readers see them (anonymization,
+   * published branding, sanitized custom CSS) with the styles inlined. Only
+   * pages anyone with the link could open are exportable; password-protected
+   * and private pages would lose their protection once hosted elsewhere.
+   *
+   * `baseUrl` is where the customer will host the bundle and is used for
+   * canonical links and the sitemap.
+   */
+  async exportStaticSite(
+    organizationId: string,
+    pageIds: string[],
+    options: { baseUrl: string }
+  ): Promise<{ buffer: Buffer; filename: string }> {
+    const baseUrl = options.baseUrl.replace(/\/+$/, "");
+    const uniquePageIds = [...new Set(pageIds)];
+    const found = await this.prisma.landingPage.findMany({
+      where: { id: { in: uniquePageIds }, organizationId },
+    });
+    const byId = new Map(found.map((page) => [page.id, page]));
+
+    const issues: StaticSiteExportIssue[] = [];
+    const pages: LandingPage[] = [];
+    for (const pageId of uniquePageIds) {
+      const page = byId.get(pageId);
+      const code = staticSiteIssueFor(page);
+      if (code) {
+        issues.push({ pageId, code });
+      } else if (page) {
+        pages.push(page);
+      }
+    }
+    if (issues.length > 0) {
+      throw new StaticSiteExportError(issues);
+    }
+
+    const editor = new LandingPageEditor(this.prisma);
+    const entries: ZipEntry[] = [];
+    const listed: StaticSitePageEntry[] = [];
+    let branding: PublishedBrandingSettings | null = null;
+
+    for (const page of pages) {
+      const publicPage = await editor.buildPublicPage(page);
+      branding = publicPage.branding;
+
+      let heroImagePath: string | null = null;
+      const hero = await this.fetchHeroImage(publicPage.heroImageUrl, page.id);
+      if (hero) {
+        const assetPath = `assets/${page.slug}-hero.${hero.extension}`;
+        entries.push({ path: assetPath, data: hero.data });
+        heroImagePath = `../${assetPath}`;
+      }
+
+      entries.push({
+        path: `${page.slug}/index.html`,
+        data: renderLandingPageHtml({
+          ...publicPage,
+          staticExport: {
+            heroImagePath,
+            noIndex: page.noIndex,
+            canonicalUrl: `${baseUrl}/${encodeURIComponent(page.slug)}/`,
+          },
+        }),
+      });
+      listed.push({
+        slug: page.slug,
+        title: publicPage.title,
+        subtitle: publicPage.subtitle,
+        publishedAt: publicPage.publishedAt,
+        noIndex: page.noIndex,
+      });
+    }
+
+    entries.unshift(
+      { path: "index.html", data: renderStaticSiteIndexHtml({ pages: listed, branding, baseUrl }) },
+      { path: "sitemap.xml", data: renderSitemapXml({ pages: listed, baseUrl }) },
+      { path: "robots.txt", data: renderRobotsTxt(baseUrl) }
+    );
+
+    const filename =
+      pages.length === 1
+        ? `${pages[0]!.slug}-site.zip`
+        : `stories-site-${new Date().toISOString().slice(0, 10)}.zip`;
+    return { buffer: createZipArchive(entries), filename };
+  }
+
   // ─── Private Helpers ─────────────────────────────────────────────────
 
   /**
@@ -490,6 +663,50 @@ export class LandingPageExporter {
     return `${baseUrl}/s/${page.slug}`;
   }
 
+  /**
+   * Downloads a hero image for bundling. A missing or unusable image never
+   * fails the export; the page is rendered without a hero instead.
+   */
+  private async fetchHeroImage(
+    heroImageUrl: string | null,
+    pageId: string
+  ): Promise<{ data: Buffer; extension: string } | null> {
+    const url = sanitizeHeroImageUrl(heroImageUrl);
+    if (!url) return null;
+
+    try {
+      await assertSafeOutboundUrl(url, {
+        allowHttp: process.env.NODE_ENV !== "production",
+        allowHttps: true,
+        denyPrivateNetworks: true,
+      });
+      const response = await fetchWithTimeout(url, {
+        redirect: "error",
+        timeoutMs: HERO_IMAGE_FETCH_TIMEOUT_MS,
+      });
+      if (!response.ok) {
+        throw new Error(`Hero image request failed (${response.status})`);
+      }
+      const contentType = (response.headers.get("content-type") ?? "").split(";")[0]!.trim().toLowerCase();
+      const extension = HERO_IMAGE_EXTENSIONS[contentType];
+      if (!extension) {
+        throw new Error(`Unsupported hero image type: ${contentType || "unknown"}`);
+      }
+      const declaredLength = Number(response.headers.get("content-length") ?? 0);
+      if (declaredLength > HERO_IMAGE_MAX_BYTES) {
+        throw new Error("Hero image is too large");
+      }
+      const data = Buffer.from(await response.arrayBuffer());
+      if (data.length > HERO_IMAGE_MAX_BYTES) {
+        throw new Error("Hero image is too large");
+      }
+      return { data, extension };
+    } catch (err) {
+      logger.warn("Static site export skipped hero image", { pageId, error: err });
+      return null;
+    }
+  }
+
   private async validateSlackWebhookUrl(url: string): Promise<void> {
     const allowlistHosts = SLACK_WEBHOOK_HOST_ALLOWLIST.length > 0
       ? SLACK_WEBHOOK_HOST_ALLOWLIST
@@ -559,6 +776,15 @@ function runPdfWorker(request: PdfWorkerRequest): Promise<Buffer> {
 
 // ─── Utilities ──────────────────────────────────────────────────────────────
 
+function staticSiteIssueFor(page: LandingPage | undefined): StaticSiteExportIssueCode | null {
+  if (!page) return "not_found";
+  if (page.status !== "PUBLISHED") return "not_published";
+  if (page.expiresAt && new Date() > page.expiresAt) return "expired";
+  if (page.visibility === "PRIVATE") return "private";
+  if (page.password) return "password_protected";
+  return null;
+}
+
 function hexToRgb(hex: string): { r: number; g: number; b: number } {
   const h = hex.replace("#", "");
   return {
@@ -35,6 +35,7 @@ import {
   type MergeCRMAccount,
   type MergeCRMOpportunity,
 } from "./merge-api-types.js";
+import { detectLanguage } from "../lib/language-detection.js";
 
 // ─── Core Service ───────────────────────────────────────────────────────────
 
@@ -249,10 +250,12 @@ export class MergeApiClient {
           callId: call.id,
           fullText: recording.transcript,
           wordCount: recording.transcript.split(/\s+/).length,
+          language: detectLanguage(recording.transcript),
         },
         update: {
           fullText: recording.transcript,
           wordCount: recording.transcript.split(/\s+/).length,
+          language: detectLanguage(recording.transcript),
         },
       });
     }
@@ -2,8 +2,8 @@
  * Notification Service
  *
  * Manages in-app notifications for users. Notifications are created by
- * various system events (story completion, call processing, trial expiry)
- * and retrieved by users via the API.
+ * various system events (story completion, call processing, trial expiry,
+ * share link opens) and retrieved by users via the API.
  *
  * Notifications can target:
  *   - A specific user (userId set)
@@ -275,4 +275,25 @@ export class NotificationService {
       metadata: { pageId, submittedByUserId },
     });
   }
+
+  /**
+   * Notify the rep who created a share link when its recipient first opens it.
+   */
+  async notifyShareLinkOpened(
+    organizationId: string,
+    userId: string,
+    pageId: string,
+    pageTitle: string,
+    shareLinkId: string,
+    recipient: string
+  ): Promise<void> {
+    await this.create({
+      organizationId,
+      userId,
+      type: "PAGE_SHARE_OPENED",
+      title: "Shared page opened",
+      body: `${recipient} opened "${pageTitle}" for the first time.`,
+      metadata: { pageId, shareLinkId },
+    });
+  }
 }
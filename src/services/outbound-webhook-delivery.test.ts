@@ -0,0 +1,164 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+
+const { deliverMock, listMock, saveMock } = vi.hoisted(() => ({
+  deliverMock: vi.fn(),
+  listMock: vi.fn(),
+  saveMock: vi.fn(),
+}));
+
+vi.mock("./outbound-webhooks.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./outbound-webhooks.js")>();
+  return {
+    ...actual,
+    deliverWebhookToSubscription: deliverMock,
+    listOutboundWebhookSubscriptions: listMock,
+    saveOutboundWebhookSubscriptions: saveMock,
+  };
+});
+
+import {
+  OutboundWebhookDeliveryError,
+  OutboundWebhookDeliveryService,
+} from "./outbound-webhook-delivery.js";
+
+function makeSubscription(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "sub-1",
+    url: "https://hooks.example.com/storyengine",
+    secret: "whsec_test_secret_value",
+    event_types: ["story_generated"],
+    enabled: true,
+    consecutive_failures: 0,
+    disabled_reason: null,
+    created_at: "2026-10-01T00:00:00.000Z",
+    updated_at: "2026-10-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+const job = {
+  organizationId: "org-1",
+  subscriptionId: "sub-1",
+  trigger: "EVENT" as const,
+  envelope: {
+    event_id: "evt-1",
+    event_type: "story_generated" as const,
+    event_version: 1,
+    occurred_at: "2026-10-19T12:00:00.000Z",
+    payload: { story_id: "story-1" },
+  },
+};
+
+describe("OutboundWebhookDeliveryService", () => {
+  const prisma = {
+    outboundWebhookDelivery: {
+      create: vi.fn(),
+    },
+    orgSettings: {
+      findUnique: vi.fn().mockResolvedValue(null),
+    },
+    auditLog: {
+      create: vi.fn(),
+    },
+    $queryRaw: vi.fn(),
+    $transaction: vi.fn(),
+  } as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+    prisma.outboundWebhookDelivery.create.mockResolvedValue({ id: "delivery-1" });
+    saveMock.mockResolvedValue(undefined);
+  });
+
+  it("records a successful attempt and clears the failure streak", async () => {
+    listMock.mockResolvedValue([makeSubscription({ consecutive_failures: 2 })]);
+    deliverMock.mockResolvedValue({ status: 200, ok: true, retryable: false });
+    const service = new OutboundWebhookDeliveryService(prisma);
+
+    const result = await service.attempt(job, { attempt: 1, maxAttempts: 6 });
+
+    expect(result).toMatchObject({ deliveryId: "delivery-1", status: "SUCCEEDED" });
+    expect(prisma.outboundWebhookDelivery.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        eventId: "evt-1",
+        status: "SUCCEEDED",
+        responseStatus: 200,
+        requestBody: job.envelope,
+        willRetry: false,
+      }),
+    });
+    expect(saveMock).toHaveBeenCalledWith(prisma, "org-1", [
+      expect.objectContaining({ id: "sub-1", consecutive_failures: 0 }),
+    ]);
+  });
+
+  it("locks the org settings row before updating the failure streak", async () => {
+    listMock.mockResolvedValue([makeSubscription({ consecutive_failures: 1 })]);
+    deliverMock.mockResolvedValue({ status: 500, ok: false, retryable: true });
+    const service = new OutboundWebhookDeliveryService(prisma);
+
+    await expect(service.attempt(job, { attempt: 6, maxAttempts: 6 })).rejects.toMatchObject({
+      retryable: false,
+    });
+
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    const [sql, organizationId] = prisma.$queryRaw.mock.calls[0];
+    expect(sql.join("?")).toContain("FOR UPDATE");
+    expect(organizationId).toBe("org-1");
+    expect(prisma.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      saveMock.mock.invocationCallOrder[0]
+    );
+    expect(saveMock).toHaveBeenCalledWith(prisma, "org-1", [
+      expect.objectContaining({ id: "sub-1", consecutive_failures: 2, enabled: true }),
+    ]);
+  });
+
+  it("throws a retryable error and leaves health untouched while retries remain", async () => {
+    listMock.mockResolvedValue([makeSubscription()]);
+    deliverMock.mockResolvedValue({ status: 503, ok: false, retryable: true });
+    const service = new OutboundWebhookDeliveryService(prisma);
+
+    const attempt = service.attempt(job, { attempt: 2, maxAttempts: 6 });
+
+    await expect(attempt).rejects.toBeInstanceOf(OutboundWebhookDeliveryError);
+    await expect(attempt).rejects.toMatchObject({ message: "http_503", retryable: true });
+    expect(prisma.outboundWebhookDelivery.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ attempt: 2, status: "FAILED", willRetry: true }),
+    });
+    expect(saveMock).not.toHaveBeenCalled();
+  });
+
+  it("auto-disables a subscription once exhausted deliveries reach the threshold", async () => {
+    listMock.mockResolvedValue([makeSubscription({ consecutive_failures: 4 })]);
+    deliverMock.mockResolvedValue({ status: 500, ok: false, retryable: true });
+    const service = new OutboundWebhookDeliveryService(prisma);
+
+    await expect(service.attempt(job, { attempt: 6, maxAttempts: 6 })).rejects.toMatchObject({
+      retryable: false,
+    });
+
+    expect(saveMock).toHaveBeenCalledWith(prisma, "org-1", [
+      expect.objectContaining({
+        id: "sub-1",
+        enabled: false,
+        consecutive_failures: 5,
+        disabled_reason: "auto_disabled_after_repeated_failures",
+      }),
+    ]);
+    expect(prisma.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: "OUTBOUND_WEBHOOK_AUTO_DISABLED" }),
+    });
+  });
+
+  it("does not count test pings towards subscription health", async () => {
+    listMock.mockResolvedValue([makeSubscription()]);
+    deliverMock.mockResolvedValue({ status: 404, ok: false, retryable: false });
+    const service = new OutboundWebhookDeliveryService(prisma);
+
+    const result = await service.attemptOnce({ ...job, trigger: "TEST" });
+
+    expect(result).toMatchObject({ status: "FAILED", responseStatus: 404, error: "http_404" });
+    expect(saveMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Outbound Webhook Delivery
+ *
+ * Performs a single delivery attempt for a queued outbound webhook job,
+ * stores the attempt (request body, response status, latency, error) and
+ * tracks subscription health. A subscription whose deliveries exhaust every
+ * retry too many times in a row is disabled automatically until an admin
+ * re-enables it.
+ */
+
+import type { PrismaClient } from "@prisma/client";
+import logger from "../lib/logger.js";
+import { encodeJsonValue } from "../types/json-boundaries.js";
+import { AuditLogService } from "./audit-log.js";
+import { isOutboundWebhookDeliverableEvent } from "../contracts/outbound-webhook-events.js";
+import {
+  deliverWebhookToSubscription,
+  enqueueOutboundWebhookDelivery,
+  listOutboundWebhookSubscriptions,
+  lockOutboundWebhookSubscriptions,
+  saveOutboundWebhookSubscriptions,
+  type OutboundEventEnvelope,
+  type OutboundWebhookDeliveryJobData,
+  type OutboundWebhookSubscription,
+} from "./outbound-webhooks.js";
+
+export type OutboundWebhookDeliveryStatus = "SUCCEEDED" | "FAILED";
+
+export interface OutboundWebhookAttemptResult {
+  deliveryId: string;
+  status: OutboundWebhookDeliveryStatus;
+  responseStatus: number | null;
+  error: string | null;
+  willRetry: boolean;
+}
+
+/**
+ * Thrown by attempt() when a delivery fails. `retryable` tells the worker
+ * whether BullMQ should schedule another attempt.
+ */
+export class OutboundWebhookDeliveryError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = "OutboundWebhookDeliveryError";
+  }
+}
+
+const DEFAULT_AUTO_DISABLE_AFTER = 5;
+const AUTO_DISABLED_REASON = "auto_disabled_after_repeated_failures";
+
+function parseAutoDisableAfter(raw: string | undefined): number {
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed) || parsed < 1) {
+    return DEFAULT_AUTO_DISABLE_AFTER;
+  }
+  return Math.floor(parsed);
+}
+
+function decodeEnvelope(value: unknown): OutboundEventEnvelope | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  if (
+    typeof record.event_id !== "string" ||
+    typeof record.occurred_at !== "string" ||
+    !isOutboundWebhookDeliverableEvent(record.event_type)
+  ) {
+    return null;
+  }
+  const payload =
+    record.payload && typeof record.payload === "object" && !Array.isArray(record.payload)
+      ? (record.payload as Record<string, unknown>)
+      : {};
+  return {
+    event_id: record.event_id,
+    event_type: record.event_type,
+    // Deliveries recorded before events were versioned carry no version.
+    event_version: typeof record.event_version === "number" ? record.event_version : 1,
+    occurred_at: record.occurred_at,
+    payload,
+  };
+}
+
+export class OutboundWebhookDeliveryService {
+  private auditLogs: AuditLogService;
+  private autoDisableAfter: number;
+
+  constructor(private prisma: PrismaClient) {
+    this.auditLogs = new AuditLogService(prisma);
+    this.autoDisableAfter = parseAutoDisableAfter(
+      process.env.OUTBOUND_WEBHOOK_AUTO_DISABLE_AFTER
+    );
+  }
+
+  /**
+   * Runs one delivery attempt for a queue job. Resolves on success; throws
+   * OutboundWebhookDeliveryError on failure so BullMQ can retry.
+   */
+  async attempt(
+    data: OutboundWebhookDeliveryJobData,
+    options: { attempt: number; maxAttempts: number }
+  ): Promise<OutboundWebhookAttemptResult> {
+    const result = await this.deliverAndRecord(data, options);
+    if (result.status === "FAILED") {
+      throw new OutboundWebhookDeliveryError(result.error ?? "delivery_failed", result.willRetry);
+    }
+    return result;
+  }
+
+  /**
+   * Single inline attempt that reports failure in the result instead of
+   * throwing. Used for test pings and queue-less redelivery.
+   */
+  async attemptOnce(data: OutboundWebhookDeliveryJobData): Promise<OutboundWebhookAttemptResult> {
+    return this.deliverAndRecord(data, { attempt: 1, maxAttempts: 1 });
+  }
+
+  private async deliverAndRecord(
+    data: OutboundWebhookDeliveryJobData,
+    options: { attempt: number; maxAttempts: number }
+  ): Promise<OutboundWebhookAttemptResult> {
+    const subscriptions = await listOutboundWebhookSubscriptions(
+      this.prisma,
+      data.organizationId
+    );
+    const subscription = subscriptions.find((item) => item.id === data.subscriptionId);
+    if (!subscription) {
+      throw new OutboundWebhookDeliveryError("webhook_subscription_not_found", false);
+    }
+    if (!subscription.enabled && data.trigger === "EVENT") {
+      throw new OutboundWebhookDeliveryError("webhook_subscription_disabled", false);
+    }
+
+    const startedAt = Date.now();
+    const delivery = await deliverWebhookToSubscription(subscription, data.envelope);
+    const latencyMs = Date.now() - startedAt;
+
+    const error = delivery.ok ? null : delivery.error ?? `http_${delivery.status}`;
+    const willRetry = delivery.retryable && options.attempt < options.maxAttempts;
+
+    const row = await this.prisma.outboundWebhookDelivery.create({
+      data: {
+        organizationId: data.organizationId,
+        subscriptionId: subscription.id,
+        eventId: data.envelope.event_id,
+        eventType: data.envelope.event_type,
+        url: subscription.url,
+        requestBody: encodeJsonValue(data.envelope),
+        trigger: data.trigger,
+        attempt: options.attempt,
+        status: delivery.ok ? "SUCCEEDED" : "FAILED",
+        responseStatus: delivery.status || null,
+        latencyMs,
+        error,
+        willRetry,
+      },
+    });
+
+    // Test pings never count towards subscription health.
+    if (data.trigger !== "TEST" && !willRetry) {
+      await this.recordOutcome(data.organizationId, subscription, delivery.ok);
+    }
+
+    if (!delivery.ok) {
+      logger.warn("Outbound webhook delivery failed", {
+        organizationId: data.organizationId,
+        subscriptionId: subscription.id,
+        eventType: data.envelope.event_type,
+        attempt: options.attempt,
+        status: delivery.status,
+        error,
+        willRetry,
+      });
+    }
+
+    return {
+      deliveryId: row.id,
+      status: delivery.ok ? "SUCCEEDED" : "FAILED",
+      responseStatus: delivery.status || null,
+      error,
+      willRetry,
+    };
+  }
+
+  /**
+   * Re-sends the envelope stored on a past delivery attempt, even to a
+   * disabled subscription. Queued when a delivery queue is registered,
+   * otherwise attempted inline once.
+   */
+  async redeliver(
+    organizationId: string,
+    deliveryId: string
+  ): Promise<{ queued: boolean; result: OutboundWebhookAttemptResult | null } | null> {
+    const original = await this.prisma.outboundWebhookDelivery.findFirst({
+      where: { id: deliveryId, organizationId },
+    });
+    if (!original) {
+      return null;
+    }
+    const envelope = decodeEnvelope(original.requestBody);
+    if (!envelope) {
+      throw new OutboundWebhookDeliveryError("stored_request_body_invalid", false);
+    }
+    const subscriptions = await listOutboundWebhookSubscriptions(this.prisma, organizationId);
+    if (!subscriptions.some((item) => item.id === original.subscriptionId)) {
+      throw new OutboundWebhookDeliveryError("webhook_subscription_not_found", false);
+    }
+
+    const job: OutboundWebhookDeliveryJobData = {
+      organizationId,
+      subscriptionId: original.subscriptionId,
+      envelope,
+      trigger: "REDELIVERY",
+    };
+    if (await enqueueOutboundWebhookDelivery(job)) {
+      return { queued: true, result: null };
+    }
+    const result = await this.attemptOnce(job);
+    return { queued: false, result };
+  }
+
+  async listDeliveries(
+    organizationId: string,
+    subscriptionId: string,
+    options: { limit?: number; status?: OutboundWebhookDeliveryStatus } = {}
+  ) {
+    return this.prisma.outboundWebhookDelivery.findMany({
+      where: {
+        organizationId,
+        subscriptionId,
+        ...(options.status ? { status: options.status } : {}),
+      },
+      orderBy: { createdAt: "desc" },
+      take: Math.max(1, Math.min(200, options.limit ?? 50)),
+    });
+  }
+
+  /**
+   * Updates consecutive-failure tracking once a delivery has finished
+   * (succeeded, or failed with no retries left). The counters live in the
+   * org settings JSON, so the update holds a row lock on that row.
+   */
+  private async recordOutcome(
+    organizationId: string,
+    subscription: OutboundWebhookSubscription,
+    succeeded: boolean
+  ): Promise<void> {
+    if (succeeded && subscription.consecutive_failures === 0) {
+      return;
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await lockOutboundWebhookSubscriptions(tx, organizationId);
+      const subscriptions = await listOutboundWebhookSubscriptions(tx, organizationId);
+      const current = subscriptions.find((item) => item.id === subscription.id);
+      if (!current) {
+        return null;
+      }
+
+      const failures = succeeded ? 0 : current.consecutive_failures + 1;
+      const autoDisable = !succeeded && current.enabled && failures >= this.autoDisableAfter;
+      const next: OutboundWebhookSubscription = {
+        ...current,
+        consecutive_failures: failures,
+        enabled: autoDisable ? false : current.enabled,
+        disabled_reason: autoDisable ? AUTO_DISABLED_REASON : current.disabled_reason,
+        updated_at: new Date().toISOString(),
+      };
+      await saveOutboundWebhookSubscriptions(
+        tx,
+        organizationId,
+        subscriptions.map((item) => (item.id === next.id ? next : item))
+      );
+      return { subscription: next, autoDisable };
+    });
+
+    if (updated?.autoDisable) {
+      const { subscription: disabled } = updated;
+      logger.warn("Outbound webhook subscription auto-disabled", {
+        organizationId,
+        subscriptionId: disabled.id,
+        consecutiveFailures: disabled.consecutive_failures,
+      });
+      await this.auditLogs.record({
+        organizationId,
+        category: "WEBHOOK",
+        action: "OUTBOUND_WEBHOOK_AUTO_DISABLED",
+        targetType: "outbound_webhook",
+        targetId: disabled.id,
+        severity: "WARN",
+        metadata: { consecutive_failures: disabled.consecutive_failures, url: disabled.url },
+      });
+    }
+  }
+}
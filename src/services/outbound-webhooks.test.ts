@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { PrismaClient } from "@prisma/client";
+import {
+  dispatchOutboundWebhookEvent,
+  setOutboundWebhookDeliveryQueue,
+} from "./outbound-webhooks.js";
+
+function buildPrisma() {
+  const prisma = {
+    orgSettings: {
+      findUnique: vi.fn().mockResolvedValue({
+        securityPolicy: {
+          outbound_webhooks: [
+            {
+              id: "sub-1",
+              url: "https://93.184.216.34/hooks/storyengine",
+              secret: "whsec_test_secret_value",
+              event_types: ["story_generated"],
+              enabled: true,
+              consecutive_failures: 0,
+            },
+          ],
+        },
+      }),
+      upsert: vi.fn(),
+    },
+    outboundWebhookDelivery: {
+      create: vi.fn().mockResolvedValue({ id: "delivery-1" }),
+    },
+    auditLog: { create: vi.fn() },
+    $queryRaw: vi.fn(),
+    $transaction: vi.fn(),
+  };
+  prisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+  return prisma;
+}
+
+describe("dispatchOutboundWebhookEvent", () => {
+  afterEach(() => {
+    setOutboundWebhookDeliveryQueue(null);
+    vi.unstubAllGlobals();
+  });
+
+  it("stores inline attempts and their outcome when no queue is registered", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("", { status: 500 })));
+    const prisma = buildPrisma();
+
+    await dispatchOutboundWebhookEvent(prisma as unknown as PrismaClient, {
+      organizationId: "org-1",
+      eventType: "story_generated",
+      payload: {
+        story_id: "story-1",
+        story_title: "Acme",
+        account_id: "account-1",
+        mode: "build",
+      },
+    });
+
+    expect(prisma.outboundWebhookDelivery.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        subscriptionId: "sub-1",
+        trigger: "EVENT",
+        status: "FAILED",
+        responseStatus: 500,
+        willRetry: false,
+      }),
+    });
+    expect(prisma.orgSettings.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: {
+          securityPolicy: expect.objectContaining({
+            outbound_webhooks: [expect.objectContaining({ id: "sub-1", consecutive_failures: 1 })],
+          }),
+        },
+      })
+    );
+  });
+
+  it("falls back to a stored inline attempt when enqueueing fails", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("", { status: 200 })));
+    setOutboundWebhookDeliveryQueue({ add: vi.fn().mockRejectedValue(new Error("redis down")) });
+    const prisma = buildPrisma();
+
+    await dispatchOutboundWebhookEvent(prisma as unknown as PrismaClient, {
+      organizationId: "org-1",
+      eventType: "story_generated",
+      payload: {
+        story_id: "story-1",
+        story_title: "Acme",
+        account_id: "account-1",
+        mode: "build",
+      },
+    });
+
+    expect(prisma.outboundWebhookDelivery.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ trigger: "EVENT", status: "SUCCEEDED", responseStatus: 200 }),
+    });
+  });
+});
@@ -1,19 +1,26 @@
 import crypto from "crypto";
-import type { PrismaClient } from "@prisma/client";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import type { JobsOptions } from "bullmq";
 import logger from "../lib/logger.js";
+import { emitDomainEvent } from "../lib/domain-events.js";
 import { decodeSecurityPolicy, encodeJsonValue } from "../types/json-boundaries.js";
 import { assertSafeOutboundUrl, parseHostAllowlist, UrlPolicyError } from "../lib/url-security.js";
+import {
+  OUTBOUND_WEBHOOK_DELIVERABLE_EVENTS,
+  getOutboundWebhookEventVersion,
+  validateOutboundWebhookEventPayload,
+  type OutboundWebhookDeliverableEventType,
+  type OutboundWebhookEventPayload,
+} from "../contracts/outbound-webhook-events.js";
+import { OutboundWebhookDeliveryService } from "./outbound-webhook-delivery.js";
 
-export const OUTBOUND_WEBHOOK_EVENTS = [
-  "landing_page_published",
-  "story_generated",
-  "story_generation_failed",
-  "scheduled_report_generated",
-  "webhook.test",
-  "ALL_EVENTS",
-] as const;
+/** Deliverable events plus the ALL_EVENTS subscription wildcard. */
+export type OutboundWebhookEventType = OutboundWebhookDeliverableEventType | "ALL_EVENTS";
 
-export type OutboundWebhookEventType = (typeof OUTBOUND_WEBHOOK_EVENTS)[number];
+export const OUTBOUND_WEBHOOK_EVENTS: readonly OutboundWebhookEventType[] = [
+  ...OUTBOUND_WEBHOOK_DELIVERABLE_EVENTS,
+  "ALL_EVENTS",
+];
 
 export interface OutboundWebhookSubscription {
   id: string;
@@ -21,6 +28,10 @@ export interface OutboundWebhookSubscription {
   secret: string;
   event_types: OutboundWebhookEventType[];
   enabled: boolean;
+  /** Deliveries in a row that exhausted every retry. Reset on success. */
+  consecutive_failures: number;
+  /** Set when the subscription was switched off automatically. */
+  disabled_reason: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -29,13 +40,75 @@ const OUTBOUND_WEBHOOK_HOST_ALLOWLIST = parseHostAllowlist(
   process.env.OUTBOUND_WEBHOOK_HOST_ALLOWLIST
 );
 
-interface OutboundEventEnvelope {
+export interface OutboundEventEnvelope {
   event_id: string;
-  event_type: OutboundWebhookEventType;
+  event_type: OutboundWebhookDeliverableEventType;
+  /** Payload schema version, see src/contracts/outbound-webhook-events.ts. */
+  event_version: number;
   occurred_at: string;
   payload: Record<string, unknown>;
 }
 
+/** A dispatchable event whose payload type is tied to its event type. */
+export type OutboundWebhookEventInput = {
+  [T in OutboundWebhookDeliverableEventType]: {
+    organizationId: string;
+    eventType: T;
+    payload: OutboundWebhookEventPayload<T>;
+  };
+}[OutboundWebhookDeliverableEventType];
+
+export type OutboundWebhookDeliveryTrigger = "EVENT" | "REDELIVERY" | "TEST";
+
+export interface OutboundWebhookDeliveryJobData {
+  organizationId: string;
+  subscriptionId: string;
+  envelope: OutboundEventEnvelope;
+  trigger: OutboundWebhookDeliveryTrigger;
+}
+
+/** 6 attempts spread over roughly 15 minutes (30s, 1m, 2m, 4m, 8m). */
+export const OUTBOUND_WEBHOOK_DELIVERY_JOB_OPTIONS: Readonly<JobsOptions> = Object.freeze({
+  attempts: 6,
+  backoff: { type: "exponential", delay: 30_000 },
+  removeOnComplete: 1000,
+  removeOnFail: 5000,
+});
+
+interface OutboundWebhookDeliveryQueue {
+  add(
+    name: string,
+    data: OutboundWebhookDeliveryJobData,
+    opts?: JobsOptions
+  ): Promise<unknown>;
+}
+
+let deliveryQueue: OutboundWebhookDeliveryQueue | null = null;
+
+/**
+ * Registers the BullMQ queue that performs (and retries) deliveries. Until a
+ * queue is registered, events are delivered inline with a single attempt.
+ */
+export function setOutboundWebhookDeliveryQueue(
+  queue: OutboundWebhookDeliveryQueue | null
+): void {
+  deliveryQueue = queue;
+}
+
+/**
+ * Enqueues a delivery job. Returns false when no queue is registered so the
+ * caller can fall back to an inline attempt.
+ */
+export async function enqueueOutboundWebhookDelivery(
+  data: OutboundWebhookDeliveryJobData
+): Promise<boolean> {
+  if (!deliveryQueue) {
+    return false;
+  }
+  await deliveryQueue.add("deliver", data, OUTBOUND_WEBHOOK_DELIVERY_JOB_OPTIONS);
+  return true;
+}
+
 function decodeSubscriptions(value: unknown): OutboundWebhookSubscription[] {
   if (!Array.isArray(value)) {
     return [];
@@ -63,12 +136,20 @@ function decodeSubscriptions(value: unknown): OutboundWebhookSubscription[] {
         typeof item.updated_at === "string"
           ? item.updated_at
           : new Date().toISOString();
+      const consecutiveFailures =
+        typeof item.consecutive_failures === "number" && item.consecutive_failures > 0
+          ? Math.floor(item.consecutive_failures)
+          : 0;
+      const disabledReason =
+        typeof item.disabled_reason === "string" ? item.disabled_reason : null;
       return {
         id,
         url,
         secret,
         event_types: eventTypes,
         enabled,
+        consecutive_failures: consecutiveFailures,
+        disabled_reason: disabledReason,
         created_at: createdAt,
         updated_at: updatedAt,
       };
@@ -76,8 +157,11 @@ function decodeSubscriptions(value: unknown): OutboundWebhookSubscription[] {
     .filter((item) => item.url.length > 0 && item.secret.length > 0 && item.event_types.length > 0);
 }
 
+/** Subscriptions can be read and saved inside or outside a transaction. */
+type OutboundWebhookStore = PrismaClient | Prisma.TransactionClient;
+
 export async function listOutboundWebhookSubscriptions(
-  prisma: PrismaClient,
+  prisma: OutboundWebhookStore,
   organizationId: string
 ): Promise<OutboundWebhookSubscription[]> {
   if (
@@ -97,7 +181,7 @@ export async function listOutboundWebhookSubscriptions(
 }
 
 export async function saveOutboundWebhookSubscriptions(
-  prisma: PrismaClient,
+  prisma: OutboundWebhookStore,
   organizationId: string,
   subscriptions: OutboundWebhookSubscription[]
 ): Promise<void> {
@@ -122,22 +206,49 @@ export async function saveOutboundWebhookSubscriptions(
   });
 }
 
+/**
+ * Locks the org's settings row until the surrounding transaction ends, so a
+ * read-modify-write of the subscription list cannot interleave with another
+ * one (delivery workers run several jobs at once while admins edit the list).
+ */
+export async function lockOutboundWebhookSubscriptions(
+  tx: Prisma.TransactionClient,
+  organizationId: string
+): Promise<void> {
+  await tx.$queryRaw`SELECT 1 FROM "org_settings" WHERE "organizationId" = ${organizationId} FOR UPDATE`;
+}
+
+/**
+ * Throws UrlPolicyError when the URL may not receive webhook deliveries.
+ */
+export async function assertOutboundWebhookUrl(url: string): Promise<void> {
+  await assertSafeOutboundUrl(url, {
+    allowHttp: process.env.NODE_ENV !== "production",
+    allowHttps: true,
+    denyPrivateNetworks: true,
+    allowlistHosts: OUTBOUND_WEBHOOK_HOST_ALLOWLIST,
+  });
+}
+
+/**
+ * 408, 429 and 5xx responses are worth retrying; other 4xx responses mean
+ * the receiver rejected the payload and will keep doing so.
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
 export async function deliverWebhookToSubscription(
   subscription: OutboundWebhookSubscription,
   envelope: OutboundEventEnvelope
-): Promise<{ status: number; ok: boolean; error?: string }> {
+): Promise<{ status: number; ok: boolean; retryable: boolean; error?: string }> {
   try {
-    await assertSafeOutboundUrl(subscription.url, {
-      allowHttp: process.env.NODE_ENV !== "production",
-      allowHttps: true,
-      denyPrivateNetworks: true,
-      allowlistHosts: OUTBOUND_WEBHOOK_HOST_ALLOWLIST,
-    });
+    await assertOutboundWebhookUrl(subscription.url);
   } catch (error) {
     if (error instanceof UrlPolicyError) {
-      return { status: 0, ok: false, error: error.code };
+      return { status: 0, ok: false, retryable: false, error: error.code };
     }
-    return { status: 0, ok: false, error: "invalid_webhook_url" };
+    return { status: 0, ok: false, retryable: false, error: "invalid_webhook_url" };
   }
 
   const payload = JSON.stringify(envelope);
@@ -154,15 +265,20 @@ export async function deliverWebhookToSubscription(
       headers: {
         "Content-Type": "application/json",
         "X-StoryEngine-Event": envelope.event_type,
+        "X-StoryEngine-Event-Version": String(envelope.event_version),
         "X-StoryEngine-Signature": `sha256=${signature}`,
       },
       body: payload,
       signal: controller.signal,
     });
-    return { status: response.status, ok: response.ok };
+    return {
+      status: response.status,
+      ok: response.ok,
+      retryable: !response.ok && isRetryableStatus(response.status),
+    };
   } catch (err) {
     const error = err instanceof Error ? err.message : "request_failed";
-    return { status: 0, ok: false, error };
+    return { status: 0, ok: false, retryable: true, error };
   } finally {
     clearTimeout(timeout);
   }
@@ -170,12 +286,27 @@ export async function deliverWebhookToSubscription(
 
 export async function dispatchOutboundWebhookEvent(
   prisma: PrismaClient,
-  input: {
-    organizationId: string;
-    eventType: OutboundWebhookEventType;
-    payload: Record<string, unknown>;
-  }
+  input: OutboundWebhookEventInput
 ): Promise<void> {
+  // A payload that drifts from its schema is a bug on our side; log it loudly
+  // but still deliver so subscribers are not starved of events.
+  const issues = validateOutboundWebhookEventPayload(input.eventType, input.payload);
+  if (issues.length > 0) {
+    logger.error("Outbound webhook payload does not match its schema", {
+      organizationId: input.organizationId,
+      eventType: input.eventType,
+      issues,
+    });
+  }
+
+  // Internal consumers (automation rules) see every event, even when the org
+  // has no webhook subscriptions configured.
+  emitDomainEvent({
+    organizationId: input.organizationId,
+    eventType: input.eventType,
+    payload: input.payload,
+  });
+
   const subscriptions = await listOutboundWebhookSubscriptions(
     prisma,
     input.organizationId
@@ -192,22 +323,109 @@ export async function dispatchOutboundWebhookEvent(
   const envelope: OutboundEventEnvelope = {
     event_id: crypto.randomUUID(),
     event_type: input.eventType,
+    event_version: getOutboundWebhookEventVersion(input.eventType),
     occurred_at: new Date().toISOString(),
     payload: input.payload,
   };
 
+  const deliveryService = new OutboundWebhookDeliveryService(prisma);
   await Promise.all(
     targets.map(async (target) => {
-      const delivery = await deliverWebhookToSubscription(target, envelope);
-      if (!delivery.ok) {
-        logger.warn("Outbound webhook delivery failed", {
+      const queued = await enqueueOutboundWebhookDelivery({
+        organizationId: input.organizationId,
+        subscriptionId: target.id,
+        envelope,
+        trigger: "EVENT",
+      }).catch((err: unknown) => {
+        logger.warn("Outbound webhook enqueue failed, delivering inline", {
           organizationId: input.organizationId,
           subscriptionId: target.id,
-          eventType: input.eventType,
-          status: delivery.status,
-          error: delivery.error ?? null,
+          error: err instanceof Error ? err.message : String(err),
         });
+        return false;
+      });
+      if (queued) {
+        return;
       }
+      // The inline attempt goes through the delivery service so it is stored
+      // in the delivery log and counts towards auto-disable like queued ones.
+      await deliveryService
+        .attemptOnce({
+          organizationId: input.organizationId,
+          subscriptionId: target.id,
+          envelope,
+          trigger: "EVENT",
+        })
+        .catch((err: unknown) => {
+          logger.warn("Outbound webhook inline delivery failed", {
+            organizationId: input.organizationId,
+            subscriptionId: target.id,
+            eventType: input.eventType,
+            error: err instanceof Error ? err.message : String(err),
+          });
+        });
     })
   );
 }
+
+/**
+ * Dispatch for emitters whose own work must not fail because of webhook
+ * delivery: errors are logged and swallowed.
+ */
+export async function tryDispatchOutboundWebhookEvent(
+  prisma: PrismaClient,
+  input: OutboundWebhookEventInput
+): Promise<void> {
+  await dispatchOutboundWebhookEvent(prisma, input).catch((err: unknown) => {
+    logger.error("Outbound webhook dispatch failed", {
+      organizationId: input.organizationId,
+      eventType: input.eventType,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  });
+}
+
+/**
+ * Emits approval_requested / approval_approved / approval_rejected for an
+ * ApprovalRequest row. COMPLETED counts as approved (e.g. data deletion).
+ */
+export async function dispatchApprovalRequestEvent(
+  prisma: PrismaClient,
+  request: {
+    id: string;
+    organizationId: string;
+    requestType: string;
+    targetType: string;
+    targetId: string;
+    status: string;
+    requestedByUserId: string;
+    reviewerUserId: string | null;
+    reviewNotes: string | null;
+  }
+): Promise<void> {
+  const eventType =
+    request.status === "PENDING"
+      ? "approval_requested"
+      : request.status === "APPROVED" || request.status === "COMPLETED"
+        ? "approval_approved"
+        : request.status === "REJECTED"
+          ? "approval_rejected"
+          : null;
+  if (!eventType) {
+    return;
+  }
+  await tryDispatchOutboundWebhookEvent(prisma, {
+    organizationId: request.organizationId,
+    eventType,
+    payload: {
+      approval_request_id: request.id,
+      request_type: request.requestType,
+      target_type: request.targetType,
+      target_id: request.targetId,
+      status: request.status,
+      requested_by_user_id: request.requestedByUserId,
+      reviewer_user_id: request.reviewerUserId,
+      review_notes: request.reviewNotes,
+    },
+  });
+}
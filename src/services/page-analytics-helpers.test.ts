@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  hashVisitor,
+  isLikelyBot,
+  parseAttribution,
+  summarizePageViews,
+  trackingOptedOut,
+  type PageViewSample,
+} from "./page-analytics-helpers.js";
+
+const visitor = {
+  secret: "test-secret",
+  organizationId: "org-1",
+  ip: "203.0.113.7",
+  userAgent: "Mozilla/5.0",
+};
+
+describe("hashVisitor", () => {
+  it("rotates the cookieless hash daily", () => {
+    const monday = hashVisitor({ ...visitor, day: new Date("2026-10-19T08:00:00Z") });
+    const mondayLater = hashVisitor({ ...visitor, day: new Date("2026-10-19T22:00:00Z") });
+    const tuesday = hashVisitor({ ...visitor, day: new Date("2026-10-20T08:00:00Z") });
+
+    expect(monday).toBe(mondayLater);
+    expect(monday).not.toBe(tuesday);
+    expect(monday).not.toContain(visitor.ip);
+  });
+
+  it("keeps a cookie visitor stable across days and networks", () => {
+    const first = hashVisitor({ ...visitor, day: new Date("2026-10-19"), visitorId: "vid-1" });
+    const second = hashVisitor({
+      ...visitor,
+      ip: "198.51.100.2",
+      day: new Date("2026-10-25"),
+      visitorId: "vid-1",
+    });
+    expect(first).toBe(second);
+  });
+});
+
+describe("parseAttribution", () => {
+  it("keeps only the referring host and normalized UTM values", () => {
+    expect(
+      parseAttribution(
+        "https://www.LinkedIn.com/feed/update/123?secret=1",
+        { utm_source: " LinkedIn ", utm_campaign: "Q4-Launch", utm_medium: ["a", "b"] },
+        "stories.example.com"
+      )
+    ).toEqual({
+      referrerHost: "linkedin.com",
+      utmSource: "linkedin",
+      utmMedium: null,
+      utmCampaign: "q4-launch",
+    });
+  });
+
+  it("treats self-referrals and malformed referrers as direct", () => {
+    expect(parseAttribution("https://stories.example.com/s/acme", {}, "stories.example.com:443").referrerHost).toBeNull();
+    expect(parseAttribution("not a url", {}).referrerHost).toBeNull();
+  });
+});
+
+describe("request classification", () => {
+  it("honors Do Not Track and Global Privacy Control", () => {
+    expect(trackingOptedOut({ dnt: "1" })).toBe(true);
+    expect(trackingOptedOut({ gpc: "1" })).toBe(true);
+    expect(trackingOptedOut({ dnt: "0" })).toBe(false);
+  });
+
+  it("flags crawlers and requests without a user agent", () => {
+    expect(isLikelyBot("Googlebot/2.1 (+http://www.google.com/bot.html)")).toBe(true);
+    expect(isLikelyBot(undefined)).toBe(true);
+    expect(isLikelyBot("Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)")).toBe(false);
+  });
+});
+
+describe("summarizePageViews", () => {
+  const view = (overrides: Partial<PageViewSample>): PageViewSample => ({
+    visitorHash: "a",
+    referrerHost: null,
+    utmSource: null,
+    utmCampaign: null,
+    maxScrollDepth: 0,
+    timeOnPageMs: 0,
+    ctaClicks: [],
+    ...overrides,
+  });
+
+  it("rolls views up into uniques, engagement and breakdowns", () => {
+    const rollup = summarizePageViews([
+      view({ visitorHash: "a", referrerHost: "linkedin.com", maxScrollDepth: 80, timeOnPageMs: 40_000 }),
+      view({ visitorHash: "a", ctaClicks: ["share_copy"], timeOnPageMs: 2_000 }),
+      view({
+        visitorHash: "b",
+        utmSource: "newsletter",
+        utmCampaign: "q4",
+        maxScrollDepth: 10,
+        timeOnPageMs: 4 * 60 * 60 * 1000,
+      }),
+    ]);
+
+    expect(rollup).toEqual({
+      views: 3,
+      uniqueVisitors: 2,
+      engagedViews: 3,
+      ctaClicks: 1,
+      // The four-hour tab is capped at thirty minutes.
+      totalTimeOnPageSeconds: 40 + 2 + 1800,
+      avgScrollDepth: 30,
+      referrers: { "(direct)": 2, "linkedin.com": 1 },
+      utmCampaigns: { "newsletter/q4": 1 },
+      ctaBreakdown: { share_copy: 1 },
+    });
+  });
+
+  it("returns zeros for a day without views", () => {
+    expect(summarizePageViews([])).toMatchObject({ views: 0, uniqueVisitors: 0, avgScrollDepth: 0 });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Page Analytics — pure helpers
+ *
+ * Visitor hashing, attribution parsing and daily rollup math for published
+ * landing page analytics. Nothing here touches the database; the service in
+ * page-analytics.ts persists what these functions produce.
+ */
+
+import crypto from "crypto";
+
+export const DEFAULT_PAGE_ANALYTICS_RETENTION_DAYS = 90;
+export const PAGE_ANALYTICS_VISITOR_COOKIE = "se_vid";
+
+/** A view counts as engaged after this long on the page or this far scrolled. */
+export const ENGAGED_TIME_MS = 10_000;
+export const ENGAGED_SCROLL_DEPTH = 50;
+
+/** Upper bound on reported time per view; longer tabs were left open, not read. */
+export const MAX_TIME_ON_PAGE_MS = 30 * 60 * 1000;
+export const MAX_CTA_CLICKS_PER_VIEW = 20;
+
+const TOP_ENTRIES = 10;
+const MAX_UTM_LENGTH = 100;
+const DIRECT_REFERRER = "(direct)";
+const BOT_USER_AGENT =
+  /bot|crawl|spider|slurp|preview|headless|lighthouse|facebookexternalhit|embedly|curl|wget|python-requests/i;
+const CTA_ID = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface PageAttribution {
+  referrerHost: string | null;
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+}
+
+export interface PageViewSample {
+  visitorHash: string;
+  referrerHost: string | null;
+  utmSource: string | null;
+  utmCampaign: string | null;
+  maxScrollDepth: number;
+  timeOnPageMs: number;
+  ctaClicks: string[];
+}
+
+export interface PageAnalyticsRollup {
+  views: number;
+  uniqueVisitors: number;
+  engagedViews: number;
+  ctaClicks: number;
+  totalTimeOnPageSeconds: number;
+  avgScrollDepth: number;
+  referrers: Record<string, number>;
+  utmCampaigns: Record<string, number>;
+  ctaBreakdown: Record<string, number>;
+}
+
+// ─── Request Classification ──────────────────────────────────────────────────
+
+/** Honors Do Not Track and Global Privacy Control regardless of org policy. */
+export function trackingOptedOut(headers: { dnt?: string; gpc?: string }): boolean {
+  return headers.dnt === "1" || headers.gpc === "1";
+}
+
+export function isLikelyBot(userAgent: string | undefined): boolean {
+  return !userAgent || BOT_USER_AGENT.test(userAgent);
+}
+
+export function utcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Visitor identity for unique counts. Without a visitor cookie the hash mixes
+ * in the UTC day, so the same reader cannot be linked across days and the IP
+ * and user agent are never stored.
+ */
+export function hashVisitor(input: {
+  secret: string;
+  organizationId: string;
+  day: Date;
+  ip: string;
+  userAgent: string;
+  visitorId?: string | null;
+}): string {
+  const material = input.visitorId
+    ? `${input.organizationId}|cookie|${input.visitorId}`
+    : `${input.organizationId}|${utcDay(input.day).toISOString().slice(0, 10)}|${input.ip}|${input.userAgent}`;
+  return crypto.createHmac("sha256", input.secret).update(material).digest("hex").slice(0, 32);
+}
+
+function cleanUtm(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim().toLowerCase().slice(0, MAX_UTM_LENGTH);
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Keeps only the referring host (never the path) and the standard UTM
+ * parameters. Self-referrals, such as a reader reloading the page, count as direct.
+ */
+export function parseAttribution(
+  referer: string | undefined,
+  query: Record<string, unknown>,
+  ownHost?: string
+): PageAttribution {
+  let referrerHost: string | null = null;
+  if (referer) {
+    try {
+      const host = new URL(referer).hostname.toLowerCase().replace(/^www\./, "");
+      const self = ownHost?.toLowerCase().replace(/:\d+$/, "").replace(/^www\./, "");
+      referrerHost = host && host !== self ? host : null;
+    } catch {
+      referrerHost = null;
+    }
+  }
+  return {
+    referrerHost,
+    utmSource: cleanUtm(query.utm_source),
+    utmMedium: cleanUtm(query.utm_medium),
+    utmCampaign: cleanUtm(query.utm_campaign),
+  };
+}
+
+export function normalizeCtaId(raw: string): string | null {
+  const id = raw.trim().toLowerCase();
+  return CTA_ID.test(id) ? id : null;
+}
+
+// ─── Rollup ──────────────────────────────────────────────────────────────────
+
+function topEntries(counts: Map<string, number>): Record<string, number> {
+  return Object.fromEntries(
+    [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, TOP_ENTRIES)
+  );
+}
+
+function increment(counts: Map<string, number>, key: string, by = 1): void {
+  counts.set(key, (counts.get(key) ?? 0) + by);
+}
+
+export function isEngagedView(view: Pick<PageViewSample, "maxScrollDepth" | "timeOnPageMs" | "ctaClicks">): boolean {
+  return (
+    view.timeOnPageMs >= ENGAGED_TIME_MS ||
+    view.maxScrollDepth >= ENGAGED_SCROLL_DEPTH ||
+    view.ctaClicks.length > 0
+  );
+}
+
+/** Rolls one page-day of views up into the stored daily aggregate. */
+export function summarizePageViews(views: PageViewSample[]): PageAnalyticsRollup {
+  const visitors = new Set<string>();
+  const referrers = new Map<string, number>();
+  const campaigns = new Map<string, number>();
+  const ctas = new Map<string, number>();
+  let engagedViews = 0;
+  let ctaClicks = 0;
+  let totalTimeMs = 0;
+  let totalScroll = 0;
+
+  for (const view of views) {
+    visitors.add(view.visitorHash);
+    increment(referrers, view.referrerHost ?? DIRECT_REFERRER);
+    if (view.utmSource || view.utmCampaign) {
+      increment(campaigns, `${view.utmSource ?? "-"}/${view.utmCampaign ?? "-"}`);
+    }
+    for (const cta of view.ctaClicks) {
+      increment(ctas, cta);
+    }
+    ctaClicks += view.ctaClicks.length;
+    totalTimeMs += Math.min(view.timeOnPageMs, MAX_TIME_ON_PAGE_MS);
+    totalScroll += view.maxScrollDepth;
+    if (isEngagedView(view)) engagedViews += 1;
+  }
+
+  return {
+    views: views.length,
+    uniqueVisitors: visitors.size,
+    engagedViews,
+    ctaClicks,
+    totalTimeOnPageSeconds: Math.round(totalTimeMs / 1000),
+    avgScrollDepth: views.length > 0 ? Math.round(totalScroll / views.length) : 0,
+    referrers: topEntries(referrers),
+    utmCampaigns: topEntries(campaigns),
+    ctaBreakdown: topEntries(ctas),
+  };
+}
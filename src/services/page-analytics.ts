@@ -0,0 +1,351 @@
+/**
+ * Page Analytics
+ *
+ * Records views and engagement beacons (scroll depth, time on page, CTA
+ * clicks) for published landing pages and rolls them up per page per day.
+ * Collection follows the org's data governance policy: it can be switched
+ * off, the visitor cookie is opt-in, and raw views are purged after
+ * `page_analytics_retention_days` while the daily rollups are kept.
+ */
+
+import crypto from "crypto";
+import cron from "node-cron";
+import type { PrismaClient } from "@prisma/client";
+import logger from "../lib/logger.js";
+import { decodeJsonObject, encodeJsonValue } from "../types/json-boundaries.js";
+import { getDataGovernancePolicy, type DataGovernancePolicy } from "./data-governance.js";
+import {
+  DEFAULT_PAGE_ANALYTICS_RETENTION_DAYS,
+  MAX_CTA_CLICKS_PER_VIEW,
+  MAX_TIME_ON_PAGE_MS,
+  hashVisitor,
+  normalizeCtaId,
+  summarizePageViews,
+  utcDay,
+  type PageAnalyticsRollup,
+  type PageAttribution,
+} from "./page-analytics-helpers.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Beacons for a view are accepted for this long after it was recorded. */
+const ENGAGEMENT_WINDOW_MS = DAY_MS;
+const FALLBACK_SECRET = crypto.randomBytes(32).toString("hex");
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface PageAnalyticsPolicy {
+  enabled: boolean;
+  cookiesEnabled: boolean;
+  retentionDays: number;
+}
+
+export interface RecordPageViewInput {
+  organizationId: string;
+  landingPageId: string;
+  ip: string;
+  userAgent: string;
+  attribution: PageAttribution;
+  /** First-party cookie value; only set when the org enabled visitor cookies. */
+  visitorId: string | null;
+  /** Per-recipient share link the page was opened through, if any. */
+  shareLinkId?: string | null;
+}
+
+export interface PageEngagementInput {
+  scrollDepth?: number;
+  timeOnPageMs?: number;
+  cta?: string;
+}
+
+export interface PageEngagementSummary {
+  views: number;
+  /** Sum of daily uniques; a reader returning on another day counts again. */
+  uniqueVisitors: number;
+  engagedViews: number;
+  ctaClicks: number;
+  avgTimeOnPageSeconds: number;
+  avgScrollDepth: number;
+}
+
+export interface PageAnalyticsDay extends PageAnalyticsRollup {
+  day: Date;
+}
+
+export interface PageAnalyticsReport {
+  summary: PageEngagementSummary;
+  days: PageAnalyticsDay[];
+  referrers: Record<string, number>;
+  utmCampaigns: Record<string, number>;
+  ctaBreakdown: Record<string, number>;
+}
+
+export function resolvePageAnalyticsPolicy(policy: DataGovernancePolicy): PageAnalyticsPolicy {
+  return {
+    enabled: policy.page_analytics_enabled ?? true,
+    cookiesEnabled: policy.page_analytics_cookies_enabled ?? false,
+    retentionDays: policy.page_analytics_retention_days ?? DEFAULT_PAGE_ANALYTICS_RETENTION_DAYS,
+  };
+}
+
+type DailyRow = Pick<
+  PageAnalyticsDay,
+  "views" | "uniqueVisitors" | "engagedViews" | "ctaClicks" | "totalTimeOnPageSeconds" | "avgScrollDepth"
+>;
+
+function summarizeDays(rows: DailyRow[]): PageEngagementSummary {
+  const totals = rows.reduce(
+    (acc, row) => ({
+      views: acc.views + row.views,
+      uniqueVisitors: acc.uniqueVisitors + row.uniqueVisitors,
+      engagedViews: acc.engagedViews + row.engagedViews,
+      ctaClicks: acc.ctaClicks + row.ctaClicks,
+      seconds: acc.seconds + row.totalTimeOnPageSeconds,
+      scroll: acc.scroll + row.avgScrollDepth * row.views,
+    }),
+    { views: 0, uniqueVisitors: 0, engagedViews: 0, ctaClicks: 0, seconds: 0, scroll: 0 }
+  );
+  return {
+    views: totals.views,
+    uniqueVisitors: totals.uniqueVisitors,
+    engagedViews: totals.engagedViews,
+    ctaClicks: totals.ctaClicks,
+    avgTimeOnPageSeconds: totals.views > 0 ? Math.round(totals.seconds / totals.views) : 0,
+    avgScrollDepth: totals.views > 0 ? Math.round(totals.scroll / totals.views) : 0,
+  };
+}
+
+function mergeCounts(maps: Record<string, number>[]): Record<string, number> {
+  const merged: Record<string, number> = {};
+  for (const counts of maps) {
+    for (const [key, count] of Object.entries(counts)) {
+      merged[key] = (merged[key] ?? 0) + count;
+    }
+  }
+  return Object.fromEntries(Object.entries(merged).sort((a, b) => b[1] - a[1]));
+}
+
+function decodeCounts(value: unknown): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(decodeJsonObject(value)).filter(
+      (entry): entry is [string, number] => typeof entry[1] === "number"
+    )
+  );
+}
+
+// ─── Service ─────────────────────────────────────────────────────────────────
+
+export class PageAnalyticsService {
+  private prisma: PrismaClient;
+  private secret: string;
+
+  constructor(
+    prisma: PrismaClient,
+    secret = process.env.PAGE_ANALYTICS_SALT || process.env.CSRF_SECRET || FALLBACK_SECRET
+  ) {
+    this.prisma = prisma;
+    this.secret = secret;
+  }
+
+  async getPolicy(organizationId: string): Promise<PageAnalyticsPolicy> {
+    return resolvePageAnalyticsPolicy(await getDataGovernancePolicy(this.prisma, organizationId));
+  }
+
+  /** Stores a view and returns its id, which the page's beacon script reports against. */
+  async recordView(input: RecordPageViewInput): Promise<string> {
+    const viewedAt = new Date();
+    const view = await this.prisma.pageView.create({
+      data: {
+        organizationId: input.organizationId,
+        landingPageId: input.landingPageId,
+        visitorHash: hashVisitor({
+          secret: this.secret,
+          organizationId: input.organizationId,
+          day: viewedAt,
+          ip: input.ip,
+          userAgent: input.userAgent,
+          visitorId: input.visitorId,
+        }),
+        viewedAt,
+        ...input.attribution,
+        shareLinkId: input.shareLinkId ?? null,
+      },
+      select: { id: true },
+    });
+    return view.id;
+  }
+
+  /**
+   * Applies an engagement beacon. Beacons carry running totals, so scroll
+   * depth and time only ever ratchet up. Returns false for unknown or stale views.
+   */
+  async recordEngagement(viewId: string, input: PageEngagementInput): Promise<boolean> {
+    const view = await this.prisma.pageView.findUnique({
+      where: { id: viewId },
+      select: { viewedAt: true, maxScrollDepth: true, timeOnPageMs: true, ctaClicks: true },
+    });
+    if (!view || Date.now() - view.viewedAt.getTime() > ENGAGEMENT_WINDOW_MS) {
+      return false;
+    }
+
+    const cta = input.cta ? normalizeCtaId(input.cta) : null;
+    const scrollDepth = Math.max(0, Math.min(100, Math.round(input.scrollDepth ?? 0)));
+    const timeOnPageMs = Math.max(0, Math.min(MAX_TIME_ON_PAGE_MS, Math.round(input.timeOnPageMs ?? 0)));
+
+    await this.prisma.pageView.update({
+      where: { id: viewId },
+      data: {
+        maxScrollDepth: Math.max(view.maxScrollDepth, scrollDepth),
+        timeOnPageMs: Math.max(view.timeOnPageMs, timeOnPageMs),
+        ctaClicks:
+          cta && view.ctaClicks.length < MAX_CTA_CLICKS_PER_VIEW
+            ? [...view.ctaClicks, cta]
+            : view.ctaClicks,
+      },
+    });
+    return true;
+  }
+
+  /**
+   * Recomputes the daily rollup of every page viewed on the given UTC day.
+   * Idempotent, so the cron can re-run today and yesterday as beacons arrive.
+   */
+  async rollupDay(day: Date, organizationId?: string): Promise<number> {
+    const start = utcDay(day);
+    const views = await this.prisma.pageView.findMany({
+      where: {
+        viewedAt: { gte: start, lt: new Date(start.getTime() + DAY_MS) },
+        ...(organizationId ? { organizationId } : {}),
+      },
+      select: {
+        organizationId: true,
+        landingPageId: true,
+        visitorHash: true,
+        referrerHost: true,
+        utmSource: true,
+        utmCampaign: true,
+        maxScrollDepth: true,
+        timeOnPageMs: true,
+        ctaClicks: true,
+      },
+    });
+
+    const byPage = new Map<string, typeof views>();
+    for (const view of views) {
+      let pageViews = byPage.get(view.landingPageId);
+      if (!pageViews) byPage.set(view.landingPageId, (pageViews = []));
+      pageViews.push(view);
+    }
+
+    for (const [landingPageId, pageViews] of byPage) {
+      const { referrers, utmCampaigns, ctaBreakdown, ...counts } = summarizePageViews(pageViews);
+      const data = {
+        ...counts,
+        referrers: encodeJsonValue(referrers),
+        utmCampaigns: encodeJsonValue(utmCampaigns),
+        ctaBreakdown: encodeJsonValue(ctaBreakdown),
+      };
+      await this.prisma.pageAnalyticsDaily.upsert({
+        where: { landingPageId_day: { landingPageId, day: start } },
+        create: { organizationId: pageViews[0].organizationId, landingPageId, day: start, ...data },
+        update: data,
+      });
+    }
+    return byPage.size;
+  }
+
+  /** Deletes raw views older than the retention window; rollups are kept. */
+  async purgeExpired(organizationId: string, retentionDays: number): Promise<number> {
+    const result = await this.prisma.pageView.deleteMany({
+      where: {
+        organizationId,
+        viewedAt: { lt: new Date(Date.now() - retentionDays * DAY_MS) },
+      },
+    });
+    return result.count;
+  }
+
+  async getOrgSummary(organizationId: string, since: Date): Promise<PageEngagementSummary> {
+    const rows = await this.prisma.pageAnalyticsDaily.findMany({
+      where: { organizationId, day: { gte: utcDay(since) } },
+    });
+    return summarizeDays(rows);
+  }
+
+  async getPageSummaries(
+    organizationId: string,
+    since: Date
+  ): Promise<Map<string, PageEngagementSummary>> {
+    const rows = await this.prisma.pageAnalyticsDaily.findMany({
+      where: { organizationId, day: { gte: utcDay(since) } },
+    });
+    const byPage = new Map<string, DailyRow[]>();
+    for (const row of rows) {
+      let pageRows = byPage.get(row.landingPageId);
+      if (!pageRows) byPage.set(row.landingPageId, (pageRows = []));
+      pageRows.push(row);
+    }
+    return new Map([...byPage].map(([pageId, pageRows]) => [pageId, summarizeDays(pageRows)]));
+  }
+
+  /** Daily series plus merged referrer, campaign and CTA counts for one page. */
+  async getPageReport(
+    organizationId: string,
+    landingPageId: string,
+    since: Date
+  ): Promise<PageAnalyticsReport> {
+    const rows = await this.prisma.pageAnalyticsDaily.findMany({
+      where: { organizationId, landingPageId, day: { gte: utcDay(since) } },
+      orderBy: { day: "asc" },
+    });
+    const days: PageAnalyticsDay[] = rows.map((row) => ({
+      day: row.day,
+      views: row.views,
+      uniqueVisitors: row.uniqueVisitors,
+      engagedViews: row.engagedViews,
+      ctaClicks: row.ctaClicks,
+      totalTimeOnPageSeconds: row.totalTimeOnPageSeconds,
+      avgScrollDepth: row.avgScrollDepth,
+      referrers: decodeCounts(row.referrers),
+      utmCampaigns: decodeCounts(row.utmCampaigns),
+      ctaBreakdown: decodeCounts(row.ctaBreakdown),
+    }));
+    return {
+      summary: summarizeDays(days),
+      days,
+      referrers: mergeCounts(days.map((day) => day.referrers)),
+      utmCampaigns: mergeCounts(days.map((day) => day.utmCampaigns)),
+      ctaBreakdown: mergeCounts(days.map((day) => day.ctaBreakdown)),
+    };
+  }
+}
+
+// ─── Rollup Cron ─────────────────────────────────────────────────────────────
+
+/** Rolls up today and yesterday so late beacons from before midnight land. */
+export async function runPageAnalyticsRollup(
+  prisma: PrismaClient,
+  now = new Date()
+): Promise<{ pagesRolledUp: number }> {
+  const service = new PageAnalyticsService(prisma);
+  const yesterday = await service.rollupDay(new Date(now.getTime() - DAY_MS));
+  const today = await service.rollupDay(now);
+  return { pagesRolledUp: yesterday + today };
+}
+
+export function startPageAnalyticsRollupCron(prisma: PrismaClient): cron.ScheduledTask {
+  const task = cron.schedule(
+    "5 * * * *",
+    async () => {
+      try {
+        const result = await runPageAnalyticsRollup(prisma);
+        logger.info("Page analytics rollup complete", result);
+      } catch (error) {
+        logger.error("Page analytics rollup cron failed", { error });
+      }
+    },
+    { timezone: "UTC" }
+  );
+
+  logger.info("Page analytics rollup cron scheduled hourly at :05 UTC");
+  return task;
+}
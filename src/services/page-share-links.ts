@@ -0,0 +1,372 @@
+/**
+ * Page Share Links
+ *
+ * Per-recipient access tokens for landing pages, served at
+ * /s/{slug}/r/{token}. Reps send one link per prospect so opens can be
+ * attributed to the recipient (and their CRM contact when the email
+ * matches one) and access can be revoked for one person without touching
+ * the page slug or anyone else's link.
+ *
+ * A link's own password, when set, replaces the page password; otherwise
+ * the page password still applies. Links work for PRIVATE pages too, since
+ * the token itself is the credential.
+ */
+
+import crypto from "crypto";
+import type { PageShareLink, PrismaClient } from "@prisma/client";
+import { hashPagePassword } from "../lib/page-password.js";
+import { NotificationService } from "./notification-service.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type ShareLinkStatus = "ACTIVE" | "EXPIRED" | "REVOKED";
+
+export interface ShareLinkContact {
+  id: string;
+  name: string | null;
+  email: string;
+  salesforceId: string | null;
+  hubspotId: string | null;
+}
+
+export interface PageShareLinkSummary {
+  id: string;
+  landingPageId: string;
+  token: string;
+  path: string;
+  recipientEmail: string;
+  recipientName: string | null;
+  contact: ShareLinkContact | null;
+  hasPassword: boolean;
+  status: ShareLinkStatus;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  openCount: number;
+  firstOpenedAt: Date | null;
+  lastOpenedAt: Date | null;
+  /** Summed over the tracked views opened through this link. */
+  totalTimeOnPageSeconds: number;
+  maxScrollDepth: number;
+  createdByUserId: string;
+  createdAt: Date;
+}
+
+export interface CreatePageShareLinkInput {
+  organizationId: string;
+  landingPageId: string;
+  userId: string;
+  recipientEmail: string;
+  recipientName?: string | null;
+  /** Explicit CRM contact; when omitted the recipient email is matched against org contacts. */
+  contactId?: string | null;
+  expiresAt?: Date | null;
+  password?: string | null;
+}
+
+export interface UpdatePageShareLinkInput {
+  organizationId: string;
+  landingPageId: string;
+  linkId: string;
+  expiresAt?: Date | null;
+  /** A string sets a new password; null clears it. */
+  password?: string | null;
+  revoked?: boolean;
+}
+
+/** A link that currently grants access, with the password that guards it. */
+export interface ResolvedShareLink {
+  id: string;
+  organizationId: string;
+  landingPageId: string;
+  createdByUserId: string;
+  recipientEmail: string;
+  recipientName: string | null;
+  pageTitle: string;
+  /** Link password, falling back to the page password. */
+  password: string | null;
+}
+
+export class ShareLinkContactError extends Error {
+  constructor(contactId: string) {
+    super(`Contact ${contactId} was not found in this organization`);
+    this.name = "ShareLinkContactError";
+  }
+}
+
+export class ShareLinkLimitError extends Error {
+  constructor() {
+    super(`A page can have at most ${MAX_SHARE_LINKS_PER_PAGE} share links`);
+    this.name = "ShareLinkLimitError";
+  }
+}
+
+export const MAX_SHARE_LINKS_PER_PAGE = 200;
+
+const CONTACT_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  salesforceId: true,
+  hubspotId: true,
+} as const;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+export function generateShareToken(): string {
+  return crypto.randomBytes(18).toString("base64url");
+}
+
+export function shareLinkPath(slug: string, token: string): string {
+  return `/s/${slug}/r/${token}`;
+}
+
+export function shareLinkStatus(
+  link: Pick<PageShareLink, "revokedAt" | "expiresAt">,
+  now = new Date()
+): ShareLinkStatus {
+  if (link.revokedAt) return "REVOKED";
+  if (link.expiresAt && link.expiresAt <= now) return "EXPIRED";
+  return "ACTIVE";
+}
+
+// ─── Service ─────────────────────────────────────────────────────────────────
+
+export class PageShareLinkService {
+  private prisma: PrismaClient;
+  private notifications: NotificationService;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.notifications = new NotificationService(prisma);
+  }
+
+  /** Returns null when the page does not belong to the org. */
+  async list(organizationId: string, landingPageId: string): Promise<PageShareLinkSummary[] | null> {
+    const page = await this.prisma.landingPage.findFirst({
+      where: { id: landingPageId, organizationId },
+      select: { slug: true },
+    });
+    if (!page) {
+      return null;
+    }
+
+    const links = await this.prisma.pageShareLink.findMany({
+      where: { landingPageId, organizationId },
+      include: { contact: { select: CONTACT_SELECT } },
+      orderBy: { createdAt: "desc" },
+    });
+    const engagement = await this.engagementByLink(links.map((link) => link.id));
+    return links.map((link) => this.toSummary(page.slug, link, engagement.get(link.id)));
+  }
+
+  /** Returns null when the page does not belong to the org. */
+  async create(input: CreatePageShareLinkInput): Promise<PageShareLinkSummary | null> {
+    const page = await this.prisma.landingPage.findFirst({
+      where: { id: input.landingPageId, organizationId: input.organizationId },
+      select: { slug: true },
+    });
+    if (!page) {
+      return null;
+    }
+
+    const existing = await this.prisma.pageShareLink.count({
+      where: { landingPageId: input.landingPageId },
+    });
+    if (existing >= MAX_SHARE_LINKS_PER_PAGE) {
+      throw new ShareLinkLimitError();
+    }
+
+    const recipientEmail = input.recipientEmail.trim().toLowerCase();
+    const contactId = input.contactId
+      ? await this.requireContact(input.organizationId, input.contactId)
+      : await this.matchContact(input.organizationId, recipientEmail);
+
+    const link = await this.prisma.pageShareLink.create({
+      data: {
+        organizationId: input.organizationId,
+        landingPageId: input.landingPageId,
+        createdByUserId: input.userId,
+        token: generateShareToken(),
+        recipientEmail,
+        recipientName: input.recipientName?.trim() || null,
+        contactId,
+        password: input.password ? hashPagePassword(input.password) : null,
+        expiresAt: input.expiresAt ?? null,
+      },
+      include: { contact: { select: CONTACT_SELECT } },
+    });
+    return this.toSummary(page.slug, link);
+  }
+
+  /** Returns null when the link does not exist on this page in the org. */
+  async update(input: UpdatePageShareLinkInput): Promise<PageShareLinkSummary | null> {
+    const existing = await this.prisma.pageShareLink.findFirst({
+      where: {
+        id: input.linkId,
+        landingPageId: input.landingPageId,
+        organizationId: input.organizationId,
+      },
+      include: { landingPage: { select: { slug: true } } },
+    });
+    if (!existing) {
+      return null;
+    }
+
+    const link = await this.prisma.pageShareLink.update({
+      where: { id: existing.id },
+      data: {
+        ...(input.expiresAt !== undefined ? { expiresAt: input.expiresAt } : {}),
+        ...(input.password !== undefined
+          ? { password: input.password ? hashPagePassword(input.password) : null }
+          : {}),
+        ...(input.revoked !== undefined
+          ? { revokedAt: input.revoked ? (existing.revokedAt ?? new Date()) : null }
+          : {}),
+      },
+      include: { contact: { select: CONTACT_SELECT } },
+    });
+    const engagement = await this.engagementByLink([link.id]);
+    return this.toSummary(existing.landingPage.slug, link, engagement.get(link.id));
+  }
+
+  /**
+   * Resolves a token from /s/{slug}/r/{token}. Returns null unless the link
+   * belongs to that slug, is neither revoked nor expired, and the page is
+   * published and not expired.
+   */
+  async resolve(slug: string, token: string): Promise<ResolvedShareLink | null> {
+    const link = await this.prisma.pageShareLink.findUnique({
+      where: { token },
+      include: {
+        landingPage: {
+          select: { slug: true, title: true, status: true, expiresAt: true, password: true },
+        },
+      },
+    });
+    const now = new Date();
+    if (!link || link.landingPage.slug !== slug || shareLinkStatus(link, now) !== "ACTIVE") {
+      return null;
+    }
+    const page = link.landingPage;
+    if (page.status !== "PUBLISHED" || (page.expiresAt && now > page.expiresAt)) {
+      return null;
+    }
+
+    return {
+      id: link.id,
+      organizationId: link.organizationId,
+      landingPageId: link.landingPageId,
+      createdByUserId: link.createdByUserId,
+      recipientEmail: link.recipientEmail,
+      recipientName: link.recipientName,
+      pageTitle: page.title,
+      password: link.password ?? page.password,
+    };
+  }
+
+  /**
+   * Counts an open and notifies the link's creator the first time the
+   * recipient opens it. The first-open claim is a conditional update, so
+   * concurrent opens notify once.
+   */
+  async recordOpen(link: ResolvedShareLink): Promise<void> {
+    const now = new Date();
+    await this.prisma.pageShareLink.update({
+      where: { id: link.id },
+      data: { openCount: { increment: 1 }, lastOpenedAt: now },
+    });
+
+    const firstOpen = await this.prisma.pageShareLink.updateMany({
+      where: { id: link.id, firstOpenedAt: null },
+      data: { firstOpenedAt: now },
+    });
+    if (firstOpen.count === 0) {
+      return;
+    }
+
+    await this.notifications.notifyShareLinkOpened(
+      link.organizationId,
+      link.createdByUserId,
+      link.landingPageId,
+      link.pageTitle,
+      link.id,
+      link.recipientName ? `${link.recipientName} (${link.recipientEmail})` : link.recipientEmail
+    );
+  }
+
+  private async requireContact(organizationId: string, contactId: string): Promise<string> {
+    const contact = await this.prisma.contact.findFirst({
+      where: { id: contactId, account: { organizationId } },
+      select: { id: true },
+    });
+    if (!contact) {
+      throw new ShareLinkContactError(contactId);
+    }
+    return contact.id;
+  }
+
+  private async matchContact(organizationId: string, email: string): Promise<string | null> {
+    const contact = await this.prisma.contact.findFirst({
+      where: { email: { equals: email, mode: "insensitive" }, account: { organizationId } },
+      orderBy: { updatedAt: "desc" },
+      select: { id: true },
+    });
+    return contact?.id ?? null;
+  }
+
+  private async engagementByLink(
+    linkIds: string[]
+  ): Promise<Map<string, { totalTimeOnPageSeconds: number; maxScrollDepth: number }>> {
+    if (linkIds.length === 0) {
+      return new Map();
+    }
+    const rows = await this.prisma.pageView.groupBy({
+      by: ["shareLinkId"],
+      where: { shareLinkId: { in: linkIds } },
+      _sum: { timeOnPageMs: true },
+      _max: { maxScrollDepth: true },
+    });
+    return new Map(
+      rows.flatMap((row) =>
+        row.shareLinkId
+          ? [
+              [
+                row.shareLinkId,
+                {
+                  totalTimeOnPageSeconds: Math.round((row._sum.timeOnPageMs ?? 0) / 1000),
+                  maxScrollDepth: row._max.maxScrollDepth ?? 0,
+                },
+              ] as const,
+            ]
+          : []
+      )
+    );
+  }
+
+  private toSummary(
+    slug: string,
+    link: PageShareLink & { contact: ShareLinkContact | null },
+    engagement?: { totalTimeOnPageSeconds: number; maxScrollDepth: number }
+  ): PageShareLinkSummary {
+    return {
+      id: link.id,
+      landingPageId: link.landingPageId,
+      token: link.token,
+      path: shareLinkPath(slug, link.token),
+      recipientEmail: link.recipientEmail,
+      recipientName: link.recipientName,
+      contact: link.contact,
+      hasPassword: link.password !== null,
+      status: shareLinkStatus(link),
+      expiresAt: link.expiresAt,
+      revokedAt: link.revokedAt,
+      openCount: link.openCount,
+      firstOpenedAt: link.firstOpenedAt,
+      lastOpenedAt: link.lastOpenedAt,
+      totalTimeOnPageSeconds: engagement?.totalTimeOnPageSeconds ?? 0,
+      maxScrollDepth: engagement?.maxScrollDepth ?? 0,
+      createdByUserId: link.createdByUserId,
+      createdAt: link.createdAt,
+    };
+  }
+}
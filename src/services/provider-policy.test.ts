@@ -81,10 +81,11 @@ describe("provider-policy parsers", () => {
   it("parses direct integration providers case-insensitively", () => {
     expect(parseDirectIntegrationProvider(" gong ")).toBe("GONG");
     expect(parseDirectIntegrationProvider("merge_dev")).toBe("MERGE_DEV");
+    expect(parseDirectIntegrationProvider("hubspot")).toBe("HUBSPOT");
   });
 
   it("rejects invalid direct integration providers", () => {
-    expect(parseDirectIntegrationProvider("hubspot")).toBeNull();
+    expect(parseDirectIntegrationProvider("pipedrive")).toBeNull();
     expect(parseDirectIntegrationProvider(null)).toBeNull();
   });
 
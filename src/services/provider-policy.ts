@@ -9,7 +9,11 @@ import type { AIProviderName } from "./ai-client.js";
 export const DIRECT_INTEGRATION_PROVIDERS = [
   "GRAIN",
   "GONG",
+  "ZOOM",
+  "TEAMS",
+  "FIREFLIES",
   "SALESFORCE",
+  "HUBSPOT",
   "MERGE_DEV",
 ] as const;
 
@@ -6,6 +6,7 @@ import type {
   QuoteTier,
 } from "@prisma/client";
 import { decodeDataGovernancePolicy, encodeJsonValue } from "../types/json-boundaries.js";
+import { tryDispatchOutboundWebhookEvent } from "./outbound-webhooks.js";
 
 interface QuoteListFilters {
   organizationId: string;
@@ -39,6 +40,14 @@ export interface QuoteListRow {
   curatedBy: { id: string; name: string | null; email: string | null } | null;
 }
 
+export interface EmbeddableQuote {
+  id: string;
+  quoteText: string;
+  accountId: string;
+  accountName: string | null;
+  curatedAt: Date | null;
+}
+
 export class QuoteLibraryService {
   constructor(private prisma: PrismaClient) {}
 
@@ -121,6 +130,34 @@ export class QuoteLibraryService {
     return mapped.filter((row) => row.isStarred);
   }
 
+  /**
+   * Curated quotes for the public quote widget, most recently curated
+   * first. Auto-extracted quotes are never embedded. Text is returned as
+   * stored; callers scrub it before it leaves the org.
+   */
+  async listCuratedForEmbed(organizationId: string, limit: number): Promise<EmbeddableQuote[]> {
+    const rows = await this.prisma.quote.findMany({
+      where: { organizationId, tier: "CURATED" },
+      select: {
+        id: true,
+        quoteText: true,
+        accountId: true,
+        curatedAt: true,
+        account: { select: { name: true } },
+      },
+      orderBy: [{ curatedAt: "desc" }, { createdAt: "desc" }],
+      take: limit,
+    });
+
+    return rows.map((row) => ({
+      id: row.id,
+      quoteText: row.quoteText,
+      accountId: row.accountId,
+      accountName: row.account.name,
+      curatedAt: row.curatedAt,
+    }));
+  }
+
   async getAttributionDisplay(
     organizationId: string,
     userId: string
@@ -218,6 +255,18 @@ export class QuoteLibraryService {
       },
     });
 
+    await tryDispatchOutboundWebhookEvent(this.prisma, {
+      organizationId: input.organizationId,
+      eventType: "quote_curated",
+      payload: {
+        quote_id: quote.id,
+        account_id: quote.accountId,
+        call_id: quote.callId,
+        curated_by_user_id: input.userId,
+        source: "transcript",
+      },
+    });
+
     return quote;
   }
 
@@ -272,6 +321,20 @@ export class QuoteLibraryService {
       newTier: input.nextTier,
     });
 
+    if (input.nextTier === "CURATED") {
+      await tryDispatchOutboundWebhookEvent(this.prisma, {
+        organizationId: input.organizationId,
+        eventType: "quote_curated",
+        payload: {
+          quote_id: updated.id,
+          account_id: updated.accountId,
+          call_id: updated.callId,
+          curated_by_user_id: input.userId,
+          source: "promotion",
+        },
+      });
+    }
+
     return updated;
   }
 
@@ -1,5 +1,11 @@
 import crypto from "crypto";
-import type { ChatMessage, RAGChatQuery, RAGQuery } from "./rag-types.js";
+import type {
+  ChatMessage,
+  RAGChatQuery,
+  RAGPortfolioQuery,
+  RAGQuery,
+  RAGRetrievalOptions,
+} from "./rag-types.js";
 
 export function buildRagQueryCacheKey(input: RAGQuery, topK: number): string {
   return hashCacheKey(
@@ -8,7 +14,8 @@ export function buildRagQueryCacheKey(input: RAGQuery, topK: number): string {
     input.accountId,
     String(topK),
     normalizeQueryKey(input.query),
-    normalizeArrayKey(input.funnelStages)
+    normalizeArrayKey(input.funnelStages),
+    normalizeRetrievalKey(input)
   );
 }
 
@@ -20,10 +27,38 @@ export function buildRagChatCacheKey(input: RAGChatQuery, topK: number): string
     String(topK),
     normalizeQueryKey(input.query),
     normalizeArrayKey(input.funnelStages),
+    normalizeRetrievalKey(input),
     normalizeHistoryKey(input.history)
   );
 }
 
+export function buildRagPortfolioCacheKey(
+  input: RAGPortfolioQuery,
+  topK: number,
+  maxAccounts: number
+): string {
+  return hashCacheKey(
+    "portfolio",
+    input.organizationId,
+    String(topK),
+    String(maxAccounts),
+    normalizeQueryKey(input.query),
+    normalizeArrayKey(input.funnelStages),
+    normalizeRetrievalKey(input)
+  );
+}
+
+function normalizeRetrievalKey(input: RAGRetrievalOptions): string {
+  return [
+    normalizeArrayKey(input.topics),
+    input.retrievalMode ?? "",
+    input.rerank === undefined ? "" : String(input.rerank),
+    input.accountIds ? `accounts:${normalizeArrayKey(input.accountIds)}` : "",
+    input.occurredAfter?.toISOString() ?? "",
+    input.occurredBefore?.toISOString() ?? "",
+  ].join("/");
+}
+
 function normalizeQueryKey(query: string): string {
   return query.trim().toLowerCase().replace(/\s+/g, " ");
 }
@@ -0,0 +1,64 @@
+/**
+ * RAG Embedding Providers
+ *
+ * OpenAI `text-embedding-3-small` is the production provider. The hashing
+ * provider is a deterministic, network-free bag-of-words embedding with the
+ * same dimensionality, for air-gapped environments and tests. Vectors from
+ * different providers are not comparable, so an org must be reindexed after
+ * switching providers.
+ */
+
+import { createHash } from "node:crypto";
+import type OpenAI from "openai";
+
+export const RAG_EMBEDDING_DIMENSIONS = 1536;
+
+export type EmbeddingProviderName = "openai" | "hashing";
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  embed(text: string): Promise<number[]>;
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai" as const;
+
+  constructor(
+    private openai: OpenAI,
+    private model = "text-embedding-3-small"
+  ) {}
+
+  async embed(text: string): Promise<number[]> {
+    const response = await this.openai.embeddings.create({
+      model: this.model,
+      input: text,
+    });
+    return response.data[0].embedding;
+  }
+}
+
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "hashing" as const;
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(RAG_EMBEDDING_DIMENSIONS).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features = [
+      ...tokens,
+      ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`),
+    ];
+    for (const feature of features) {
+      const digest = createHash("sha1").update(feature).digest();
+      const slot = digest.readUInt32BE(0) % RAG_EMBEDDING_DIMENSIONS;
+      vector[slot] += digest[4] & 1 ? 1 : -1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+}
+
+export function resolveEmbeddingProviderName(
+  value: string | undefined
+): EmbeddingProviderName {
+  return value?.trim().toLowerCase() === "hashing" ? "hashing" : "openai";
+}
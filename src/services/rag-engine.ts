@@ -3,15 +3,19 @@
  *
  * Powers the "Chatbot Connector" — a third-party chatbot can query this
  * endpoint with natural language questions about an account, and receive
- * grounded answers backed by real transcript segments from Pinecone.
+ * grounded answers backed by real transcript segments from the org's vector
+ * store (Pinecone or pgvector, see rag-vector-store.ts).
  *
  * Flow:
  *   1. Receive query + account context
  *   2. Generate embedding for the query
- *   3. Search Pinecone for relevant transcript chunks (filtered by account)
- *   4. Build a context window from top-K results
- *   5. Send query + context to LLM for grounded answer
- *   6. Return answer with source citations
+ *   3. Search the vector store for relevant transcript chunks (filtered by
+ *      account, funnel stage and topic) and, in hybrid mode, Postgres
+ *      full-text search; merge both rankings with reciprocal rank fusion
+ *   4. Optionally rerank the fused candidates (LLM or cross-encoder)
+ *   5. Build a context window from top-K results
+ *   6. Send query + context to LLM for grounded answer
+ *   7. Return answer with source citations and per-source scores
  */
 
 import OpenAI from "openai";
@@ -19,11 +23,13 @@ import { Pinecone } from "@pinecone-database/pinecone";
 import type { PrismaClient } from "@prisma/client";
 import { resolveOperationRuntimePolicy } from "./ai-operation-policy.js";
 import {
+  ensureCitedSources,
   ensureGroundedCitations,
   filterGroundedSources,
 } from "./rag-quality-guardrails.js";
 import {
   buildRagChatCacheKey,
+  buildRagPortfolioCacheKey,
   buildRagQueryCacheKey,
 } from "./rag-cache-keys.js";
 import { getRagRedisCache, setRagRedisCache } from "./rag-redis-cache.js";
@@ -32,13 +38,54 @@ import {
   pruneRagVectorsForCall,
   pruneRagVectorsForStory,
 } from "./rag-vector-retention.js";
+import {
+  PineconeVectorStore,
+  loadOrgVectorBackends,
+  resolveDefaultVectorBackend,
+  type OrgVectorBackends,
+  type VectorFilter,
+  type VectorRecord,
+  type VectorStore,
+  type VectorStoreBackend,
+} from "./rag-vector-store.js";
+import { PgVectorStore } from "./rag-pgvector-store.js";
+import {
+  HashingEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  resolveEmbeddingProviderName,
+  type EmbeddingProvider,
+} from "./rag-embeddings.js";
+import { searchTranscriptChunksByKeyword, type KeywordMatch } from "./rag-keyword-search.js";
+import { DEFAULT_RRF_K, fuseByReciprocalRank } from "./rag-hybrid-retrieval.js";
+import {
+  CrossEncoderReranker,
+  LLMReranker,
+  resolveRerankProviderName,
+  type RAGReranker,
+} from "./rag-reranker.js";
+import {
+  markRagVectorMigrationTarget,
+  reindexRagVectors,
+  type RagVectorReindexResult,
+} from "./rag-vector-reindex.js";
 import { resolvePositiveFloat, resolvePositiveInt } from "./rag-config.js";
+import {
+  ChatCompletionAbortedError,
+  estimatePartialResult,
+  type ChatMessage,
+} from "./ai-client.js";
 import type {
   RAGChatQuery,
   RAGChatResponse,
+  RAGChatStreamOptions,
+  RAGPortfolioAccountAnswer,
+  RAGPortfolioQuery,
+  RAGPortfolioResponse,
   RAGQuery,
   RAGResponse,
+  RAGRetrievalMode,
   RAGSource,
+  RAGSourceScores,
 } from "./rag-types.js";
 import logger from "../lib/logger.js";
 
@@ -49,17 +96,48 @@ const RAG_MIN_RELEVANCE_SCORE = resolvePositiveFloat(
   process.env.RAG_MIN_RELEVANCE_SCORE,
   0.55
 );
+const RAG_MIN_KEYWORD_SCORE = resolvePositiveFloat(
+  process.env.RAG_MIN_KEYWORD_SCORE,
+  0.1
+);
+const ORG_VECTOR_BACKEND_CACHE_TTL_MS = 30_000;
+const PORTFOLIO_SOURCES_PER_ACCOUNT = 3;
+const PORTFOLIO_CANDIDATE_MULTIPLIER = 4;
+
+type RetrievalInput = Omit<RAGQuery, "accountId" | "topK"> & { accountId?: string | null };
+
+export class VectorBackendUnavailableError extends Error {
+  constructor(public readonly backend: VectorStoreBackend) {
+    super(`Vector backend "${backend}" is not configured on this deployment`);
+    this.name = "VectorBackendUnavailableError";
+  }
+}
+
+export interface RAGVectorBackendStatus {
+  active: VectorStoreBackend;
+  migratingTo: VectorStoreBackend | null;
+  defaultBackend: VectorStoreBackend;
+  availableBackends: VectorStoreBackend[];
+}
 
 // ─── RAG Engine ──────────────────────────────────────────────────────────────
 
 export class RAGEngine {
   private openai: OpenAI;
-  private pinecone: Pinecone;
+  private embeddings: EmbeddingProvider;
+  private vectorStores = new Map<VectorStoreBackend, VectorStore>();
+  private defaultVectorBackend: VectorStoreBackend;
+  private orgVectorBackendCache = new Map<string, { value: OrgVectorBackends; expiresAt: number }>();
+  private reranker: RAGReranker | null;
+  private retrievalMode: RAGRetrievalMode;
+  private hybridCandidateMultiplier: number;
+  private rerankCandidates: number;
+  private rrfK: number;
   private prisma: PrismaClient;
-  private indexName: string;
   private model: string;
   private queryCache = new Map<string, { value: RAGResponse; expiresAt: number }>();
   private chatCache = new Map<string, { value: RAGChatResponse; expiresAt: number }>();
+  private portfolioCache = new Map<string, { value: RAGPortfolioResponse; expiresAt: number }>();
   private cacheTtlMs: number;
   private maxCacheEntries: number;
   private vectorRetentionDeleteLimit: number;
@@ -70,14 +148,55 @@ export class RAGEngine {
       openaiApiKey: string;
       pineconeApiKey: string;
       pineconeIndex: string;
+      pineconeNamespace?: string;
+      /** Default backend for orgs without a selection ("pinecone" | "pgvector"). */
+      vectorBackend?: string;
+      /** Make pgvector available even when it is not the default backend. */
+      pgvectorEnabled?: boolean;
+      /** "openai" (default) or "hashing" for network-free embeddings. */
+      embeddingProvider?: string;
       model?: string;
     }
   ) {
     this.openai = new OpenAI({ apiKey: config.openaiApiKey });
-    this.pinecone = new Pinecone({ apiKey: config.pineconeApiKey });
+    this.embeddings =
+      resolveEmbeddingProviderName(config.embeddingProvider) === "hashing"
+        ? new HashingEmbeddingProvider()
+        : new OpenAIEmbeddingProvider(this.openai);
     this.prisma = prisma;
-    this.indexName = config.pineconeIndex;
+    this.defaultVectorBackend = resolveDefaultVectorBackend(
+      config.vectorBackend,
+      !!config.pineconeApiKey
+    );
+    if (config.pineconeApiKey) {
+      this.vectorStores.set(
+        "pinecone",
+        new PineconeVectorStore(
+          new Pinecone({ apiKey: config.pineconeApiKey }),
+          config.pineconeIndex,
+          config.pineconeNamespace || undefined
+        )
+      );
+    }
+    if (this.defaultVectorBackend === "pgvector" || config.pgvectorEnabled) {
+      this.vectorStores.set("pgvector", new PgVectorStore(prisma));
+    }
     this.model = config.model ?? "gpt-4o";
+    this.retrievalMode =
+      process.env.RAG_RETRIEVAL_MODE?.trim().toLowerCase() === "semantic" ? "semantic" : "hybrid";
+    this.hybridCandidateMultiplier = resolvePositiveInt(
+      process.env.RAG_HYBRID_CANDIDATE_MULTIPLIER,
+      3
+    );
+    this.rerankCandidates = resolvePositiveInt(process.env.RAG_RERANK_CANDIDATES, 20);
+    this.rrfK = resolvePositiveInt(process.env.RAG_RRF_K, DEFAULT_RRF_K);
+    const rerankProvider = resolveRerankProviderName(process.env.RAG_RERANK_PROVIDER);
+    this.reranker =
+      rerankProvider === "llm"
+        ? new LLMReranker(this.openai, process.env.RAG_RERANK_MODEL || undefined)
+        : rerankProvider === "cross_encoder" && process.env.RAG_RERANK_URL
+          ? new CrossEncoderReranker(process.env.RAG_RERANK_URL, process.env.RAG_RERANK_API_KEY)
+          : null;
     this.cacheTtlMs = resolvePositiveInt(process.env.RAG_QUERY_CACHE_TTL_SECONDS, 90) * 1000;
     this.maxCacheEntries = resolvePositiveInt(process.env.RAG_QUERY_CACHE_MAX_ENTRIES, 500);
     this.vectorRetentionDeleteLimit = resolvePositiveInt(
@@ -104,32 +223,12 @@ export class RAGEngine {
       return cached;
     }
 
-    // ── Step 1: Generate query embedding ─────────────────────────────
-    const queryEmbedding = await this.embed(input.query);
-
-    // ── Step 2: Search Pinecone ──────────────────────────────────────
-    const index = this.pinecone.Index(this.indexName);
-
-    const filter: Record<string, unknown> = {
-      account_id: input.accountId,
-      organization_id: input.organizationId,
-    };
-    if (input.funnelStages && input.funnelStages.length > 0) {
-      filter.funnel_stages = { $in: input.funnelStages };
-    }
-
-    const searchResults = await this.withRetry(() => index.query({
-      vector: queryEmbedding,
-      topK,
-      filter,
-      includeMetadata: true,
-    }));
-
-    // ── Step 3: Hydrate sources from PostgreSQL ──────────────────────
-    const hydratedSources = await this.hydrateSources(searchResults.matches ?? []);
+    // ── Steps 1–3: Retrieve, fuse, rerank and hydrate ────────────────
+    const retrievedSources = await this.retrieveSources(input, topK);
     const sources = filterGroundedSources(
-      hydratedSources,
-      RAG_MIN_RELEVANCE_SCORE
+      retrievedSources,
+      RAG_MIN_RELEVANCE_SCORE,
+      { minKeywordScore: RAG_MIN_KEYWORD_SCORE }
     );
 
     if (sources.length === 0) {
@@ -209,84 +308,212 @@ ${contextBlock}`,
       return cached;
     }
 
-    // ── Step 1: Generate query embedding ─────────────────────────────
-    const queryEmbedding = await this.embed(input.query);
+    // ── Steps 1–4: Retrieve, fuse, rerank, hydrate and build prompt ──
+    const prepared = await this.prepareChat(input, topK);
+    if (!prepared.messages) {
+      await setRagRedisCache(redisKey, prepared.empty, this.cacheTtlMs);
+      this.setCacheEntry(this.chatCache, cacheKey, prepared.empty);
+      return prepared.empty;
+    }
 
-    // ── Step 2: Search Pinecone ──────────────────────────────────────
-    const index = this.pinecone.Index(this.indexName);
+    this.logRuntimePolicy();
 
-    const filter: Record<string, unknown> = {
-      organization_id: input.organizationId,
-    };
-    if (input.accountId) {
-      filter.account_id = input.accountId;
+    const response = await this.openai.chat.completions.create({
+      model: this.model,
+      temperature: RAG_RUNTIME_POLICY.temperature,
+      max_tokens: RAG_RUNTIME_POLICY.maxTokens,
+      messages: prepared.messages,
+    });
+
+    const rawAnswer =
+      response.choices[0]?.message?.content ?? "Unable to generate an answer.";
+    const answer = ensureGroundedCitations(rawAnswer, prepared.sources.length);
+    const tokensUsed = response.usage?.total_tokens ?? 0;
+
+    const result: RAGChatResponse = { answer, sources: prepared.sources, tokensUsed };
+    await setRagRedisCache(redisKey, result, this.cacheTtlMs);
+    this.setCacheEntry(this.chatCache, cacheKey, result);
+    return result;
+  }
+
+  /**
+   * Streaming variant of `chat`. Answer tokens are passed to `onToken` as
+   * the LLM produces them; the resolved response carries the final answer
+   * (after citation enforcement, which may append citations) and sources.
+   * Cached and no-evidence answers are emitted as a single token.
+   *
+   * With `aiClient` (a TrackedAIClient) generation is billed to the caller;
+   * otherwise the engine's own OpenAI client is used, as in `chat`.
+   * Aborting `signal` stops generation and nothing is cached; generation in
+   * progress rejects with `ChatCompletionAbortedError` carrying the usage.
+   */
+  async chatStream(input: RAGChatQuery, options: RAGChatStreamOptions): Promise<RAGChatResponse> {
+    const topK = input.topK ?? 8;
+    const cacheKey = buildRagChatCacheKey(input, topK);
+    const redisKey = `rag:chat:${cacheKey}`;
+
+    const cached =
+      (await getRagRedisCache<RAGChatResponse>(redisKey)) ??
+      this.getCacheEntry(this.chatCache, cacheKey);
+    if (cached) {
+      options.onToken(cached.answer);
+      return cached;
     }
-    if (input.funnelStages && input.funnelStages.length > 0) {
-      filter.funnel_stages = { $in: input.funnelStages };
+
+    const prepared = await this.prepareChat(input, topK);
+    if (!prepared.messages) {
+      options.onToken(prepared.empty.answer);
+      await setRagRedisCache(redisKey, prepared.empty, this.cacheTtlMs);
+      this.setCacheEntry(this.chatCache, cacheKey, prepared.empty);
+      return prepared.empty;
     }
 
-    const searchResults = await this.withRetry(() => index.query({
-      vector: queryEmbedding,
-      topK,
-      filter,
-      includeMetadata: true,
-    }));
+    this.logRuntimePolicy();
 
-    // ── Step 3: Hydrate sources from PostgreSQL ──────────────────────
-    const hydratedSources = await this.hydrateSources(searchResults.matches ?? []);
-    const sources = filterGroundedSources(
-      hydratedSources,
-      RAG_MIN_RELEVANCE_SCORE
+    let rawAnswer: string;
+    let tokensUsed: number;
+    if (options.aiClient) {
+      const completion = await options.aiClient.chatCompletion({
+        messages: prepared.messages,
+        temperature: RAG_RUNTIME_POLICY.temperature,
+        maxTokens: RAG_RUNTIME_POLICY.maxTokens,
+        onToken: options.onToken,
+        signal: options.signal,
+      });
+      rawAnswer = completion.content;
+      tokensUsed = completion.totalTokens;
+    } else {
+      const stream = await this.openai.chat.completions.create(
+        {
+          model: this.model,
+          temperature: RAG_RUNTIME_POLICY.temperature,
+          max_tokens: RAG_RUNTIME_POLICY.maxTokens,
+          messages: prepared.messages,
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: options.signal }
+      );
+      rawAnswer = "";
+      tokensUsed = 0;
+      try {
+        for await (const chunk of stream) {
+          if (chunk.usage) tokensUsed = chunk.usage.total_tokens;
+          const token = chunk.choices[0]?.delta?.content ?? "";
+          if (token.length === 0) continue;
+          rawAnswer += token;
+          options.onToken(token);
+        }
+      } catch (error) {
+        // Same contract as AIClient: callers metering usage get an estimate
+        if (options.signal?.aborted) {
+          throw new ChatCompletionAbortedError(estimatePartialResult(prepared.messages, rawAnswer));
+        }
+        throw error;
+      }
+    }
+
+    const answer = ensureGroundedCitations(
+      rawAnswer || "Unable to generate an answer.",
+      prepared.sources.length
+    );
+    const result: RAGChatResponse = { answer, sources: prepared.sources, tokensUsed };
+    await setRagRedisCache(redisKey, result, this.cacheTtlMs);
+    this.setCacheEntry(this.chatCache, cacheKey, result);
+    return result;
+  }
+
+  /**
+   * Portfolio query: answers one question across every account the caller
+   * may read (`accountIds`), grouping the answer and citations by account.
+   * Retrieval oversamples `topK` by PORTFOLIO_CANDIDATE_MULTIPLIER, then
+   * keeps at most PORTFOLIO_SOURCES_PER_ACCOUNT chunks per account and
+   * `topK` chunks overall. A chatty account therefore has to outrank other
+   * accounts' evidence several times over before it crowds them out.
+   */
+  async portfolioQuery(input: RAGPortfolioQuery): Promise<RAGPortfolioResponse> {
+    const topK = input.topK ?? 24;
+    const maxAccounts = input.maxAccounts ?? 10;
+    const cacheKey = buildRagPortfolioCacheKey(input, topK, maxAccounts);
+    const redisKey = `rag:portfolio:${cacheKey}`;
+
+    const redisCached = await getRagRedisCache<RAGPortfolioResponse>(redisKey);
+    if (redisCached) return redisCached;
+
+    const cached = this.getCacheEntry(this.portfolioCache, cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    // ── Step 1: Retrieve across permitted accounts ───────────────────
+    const retrievedSources = await this.retrieveSources(
+      { ...input, accountId: null },
+      topK * PORTFOLIO_CANDIDATE_MULTIPLIER
+    );
+    const grounded = filterGroundedSources(
+      retrievedSources,
+      RAG_MIN_RELEVANCE_SCORE,
+      { minKeywordScore: RAG_MIN_KEYWORD_SCORE }
     );
 
-    if (sources.length === 0) {
-      const empty: RAGChatResponse = {
+    // ── Step 2: Group by account, best-matching accounts first ───────
+    const byAccount = new Map<string, RAGSource[]>();
+    let kept = 0;
+    for (const source of grounded) {
+      if (kept >= topK) break;
+      if (!source.accountId) continue;
+      const group = byAccount.get(source.accountId);
+      if (group) {
+        if (group.length < PORTFOLIO_SOURCES_PER_ACCOUNT) {
+          group.push(source);
+          kept++;
+        }
+      } else if (byAccount.size < maxAccounts) {
+        byAccount.set(source.accountId, [source]);
+        kept++;
+      }
+    }
+
+    if (byAccount.size === 0) {
+      const empty: RAGPortfolioResponse = {
         answer:
-          "I couldn't find sufficiently relevant transcript evidence matching your query.",
-        sources: [],
+          "I couldn't find sufficiently relevant transcript evidence in any of your accounts matching your query.",
+        accounts: [],
         tokensUsed: 0,
       };
       await setRagRedisCache(redisKey, empty, this.cacheTtlMs);
-      this.setCacheEntry(this.chatCache, cacheKey, empty);
+      this.setCacheEntry(this.portfolioCache, cacheKey, empty);
       return empty;
     }
 
-    // ── Step 4: Build context and generate answer with history ───────
-    const contextBlock = sources
-      .map(
-        (s, i) =>
-          `[Source ${i + 1}] Call: "${s.callTitle ?? "Untitled"}" (${s.callDate})${s.speaker ? ` — ${s.speaker}` : ""}\n${s.text}`
-      )
-      .join("\n\n---\n\n");
-
-    const messages: Array<{ role: "system" | "user" | "assistant"; content: string }> = [
-      {
-        role: "system",
-        content: `You are a helpful assistant that answers questions about customer accounts based on call transcript data.
-
-RULES:
-1. ONLY use information from the provided transcript sources.
-2. Cite sources using [Source N] notation.
-3. If the sources don't contain enough information to answer, say so honestly.
-4. Be specific and include any quantified metrics you find.
-5. Keep answers concise but complete.
-6. When the user asks follow-up questions, use the conversation history for context.`,
-      },
-    ];
-
-    // Inject prior conversation turns
-    for (const msg of input.history) {
-      messages.push({ role: msg.role, content: msg.content });
-    }
+    const accountRows = await this.prisma.account.findMany({
+      where: { organizationId: input.organizationId, id: { in: Array.from(byAccount.keys()) } },
+      select: { id: true, name: true },
+    });
+    const accountNames = new Map(accountRows.map((row) => [row.id, row.name]));
 
-    // Current query with fresh context
-    messages.push({
-      role: "user",
-      content: `QUESTION: ${input.query}
+    let citation = 0;
+    const accounts: RAGPortfolioAccountAnswer[] = Array.from(byAccount.entries()).map(
+      ([accountId, sources]) => ({
+        accountId,
+        accountName: accountNames.get(accountId) ?? "Unknown account",
+        answer: "",
+        sources: sources.map((source) => ({ ...source, citation: ++citation })),
+      })
+    );
 
-TRANSCRIPT SOURCES:
-${contextBlock}`,
-    });
+    // ── Step 3: Generate per-account answers ─────────────────────────
+    const contextBlock = accounts
+      .map((account) => {
+        const sourceBlocks = account.sources
+          .map(
+            (s) =>
+              `[Source ${s.citation}] Call: "${s.callTitle ?? "Untitled"}" (${s.callDate})${s.speaker ? ` — ${s.speaker}` : ""}\n${s.text}`
+          )
+          .join("\n\n");
+        return `ACCOUNT ${account.accountId}: ${account.accountName}\n${sourceBlocks}`;
+      })
+      .join("\n\n===\n\n");
 
     this.logRuntimePolicy();
 
@@ -294,22 +521,55 @@ ${contextBlock}`,
       model: this.model,
       temperature: RAG_RUNTIME_POLICY.temperature,
       max_tokens: RAG_RUNTIME_POLICY.maxTokens,
-      messages,
+      response_format: { type: "json_object" },
+      messages: [
+        {
+          role: "system",
+          content: `You answer questions across a portfolio of customer accounts based on call transcript data.
+
+RULES:
+1. ONLY use information from the provided transcript sources.
+2. Cite sources using [Source N] notation.
+3. Answer separately for each account that has relevant evidence; omit accounts whose sources do not answer the question.
+4. Be specific and include any quantified metrics you find.
+5. Respond with JSON: {"summary": string, "accounts": [{"account_id": string, "answer": string}]}. The summary compares accounts in 1-3 sentences.`,
+        },
+        {
+          role: "user",
+          content: `QUESTION: ${input.query}
+
+TRANSCRIPT SOURCES BY ACCOUNT:
+${contextBlock}`,
+        },
+      ],
     });
 
-    const rawAnswer =
-      response.choices[0]?.message?.content ?? "Unable to generate an answer.";
-    const answer = ensureGroundedCitations(rawAnswer, sources.length);
-    const tokensUsed = response.usage?.total_tokens ?? 0;
+    const parsed = parsePortfolioAnswer(response.choices[0]?.message?.content);
+    const answeredAccounts = accounts.flatMap((account) => {
+      const answer = parsed.accounts.get(account.accountId);
+      if (answer === undefined && parsed.accounts.size > 0) return [];
+      return [{
+        ...account,
+        answer: ensureCitedSources(
+          answer ?? "",
+          account.sources.map((source) => source.citation)
+        ),
+      }];
+    });
 
-    const result: RAGChatResponse = { answer, sources, tokensUsed };
+    const result: RAGPortfolioResponse = {
+      answer: parsed.summary || "Unable to generate an answer.",
+      accounts: answeredAccounts,
+      tokensUsed: response.usage?.total_tokens ?? 0,
+    };
     await setRagRedisCache(redisKey, result, this.cacheTtlMs);
-    this.setCacheEntry(this.chatCache, cacheKey, result);
+    this.setCacheEntry(this.portfolioCache, cacheKey, result);
     return result;
   }
 
   /**
-   * Generates an embedding for a transcript chunk and upserts it to Pinecone.
+   * Generates an embedding for a transcript chunk and upserts it to the org's
+   * vector store (and to the migration target while a reindex is running).
    * Called during the ingestion pipeline after chunking + tagging.
    */
   async indexChunk(chunk: {
@@ -322,27 +582,29 @@ ${contextBlock}`,
     topics: string[];
   }): Promise<string> {
     const embedding = await this.embed(chunk.text);
-    const index = this.pinecone.Index(this.indexName);
 
     const vectorId = `chunk_${chunk.chunkId}`;
-
-    await this.withRetry(() => index.upsert([
-      {
-        id: vectorId,
-        values: embedding,
-        metadata: {
-          chunk_id: chunk.chunkId,
-          account_id: chunk.accountId,
-          organization_id: chunk.organizationId,
-          call_id: chunk.callId,
-          funnel_stages: chunk.funnelStages,
-          topics: chunk.topics,
-          text_preview: chunk.text.slice(0, 200),
-        },
+    const record: VectorRecord = {
+      id: vectorId,
+      values: embedding,
+      metadata: {
+        chunkId: chunk.chunkId,
+        organizationId: chunk.organizationId,
+        accountId: chunk.accountId,
+        callId: chunk.callId,
+        funnelStages: chunk.funnelStages,
+        topics: chunk.topics,
+        textPreview: chunk.text.slice(0, 200),
       },
-    ]));
+    };
+
+    const { active, target } = await this.resolveVectorStores(chunk.organizationId);
+    await active.upsert([record]);
+    if (target) {
+      await target.upsert([record]);
+    }
 
-    // Update the chunk record with the Pinecone vector ID
+    // Update the chunk record with the vector ID
     await this.prisma.transcriptChunk.update({
       where: { id: chunk.chunkId },
       data: { embeddingId: vectorId },
@@ -356,46 +618,291 @@ ${contextBlock}`,
     olderThan: Date;
     limit?: number;
   }): Promise<number> {
-    return pruneRagVectors(this.vectorRetentionDeps(), input);
+    return pruneRagVectors(await this.vectorRetentionDeps(input.organizationId), input);
   }
 
   async pruneVectorsForCall(input: {
     organizationId: string;
     callId: string;
   }): Promise<number> {
-    return pruneRagVectorsForCall(this.vectorRetentionDeps(), input);
+    return pruneRagVectorsForCall(await this.vectorRetentionDeps(input.organizationId), input);
   }
 
   async pruneVectorsForStory(input: {
     organizationId: string;
     storyId: string;
   }): Promise<number> {
-    return pruneRagVectorsForStory(this.vectorRetentionDeps(), input);
+    return pruneRagVectorsForStory(await this.vectorRetentionDeps(input.organizationId), input);
+  }
+
+  async getVectorBackendStatus(organizationId: string): Promise<RAGVectorBackendStatus> {
+    const backends = await loadOrgVectorBackends(
+      this.prisma,
+      organizationId,
+      this.defaultVectorBackend
+    );
+    return {
+      active: backends.active,
+      migratingTo: backends.target,
+      defaultBackend: this.defaultVectorBackend,
+      availableBackends: Array.from(this.vectorStores.keys()),
+    };
+  }
+
+  /**
+   * Starts dual-writing an org's new chunks to `targetBackend`. The reindex
+   * job (`migrateVectorBackend`) then copies existing vectors and flips the
+   * active backend.
+   */
+  async beginVectorBackendMigration(
+    organizationId: string,
+    targetBackend: VectorStoreBackend
+  ): Promise<void> {
+    this.getVectorStore(targetBackend);
+    await markRagVectorMigrationTarget(this.prisma, organizationId, targetBackend);
+    this.orgVectorBackendCache.delete(organizationId);
+  }
+
+  async migrateVectorBackend(input: {
+    organizationId: string;
+    targetBackend: VectorStoreBackend;
+    purgeSource?: boolean;
+  }): Promise<RagVectorReindexResult> {
+    const target = this.getVectorStore(input.targetBackend);
+    const { active } = await loadOrgVectorBackends(
+      this.prisma,
+      input.organizationId,
+      this.defaultVectorBackend
+    );
+    try {
+      return await reindexRagVectors(
+        {
+          prisma: this.prisma,
+          source: this.getVectorStore(active),
+          target,
+          embed: (text) => this.embed(text),
+          batchSize: resolvePositiveInt(process.env.RAG_VECTOR_REINDEX_BATCH_SIZE, 100),
+        },
+        input
+      );
+    } finally {
+      this.orgVectorBackendCache.delete(input.organizationId);
+    }
   }
 
   // ─── Private ──────────────────────────────────────────────────────
 
-  private async withRetry<T>(fn: () => Promise<T>, attempts = 3, baseDelayMs = 500): Promise<T> {
-    for (let i = 0; i < attempts; i++) {
-      try {
-        return await fn();
-      } catch (err: unknown) {
-        const isRetryable = err instanceof Error &&
-          (err.message.includes("429") || err.message.includes("503") || err.message.includes("ECONNRESET"));
-        if (!isRetryable || i === attempts - 1) throw err;
-        const delay = baseDelayMs * Math.pow(2, i) + Math.random() * baseDelayMs;
-        await new Promise(r => setTimeout(r, delay));
-      }
+  /**
+   * Retrieves grounded sources for a chat turn and builds the LLM messages
+   * (system rules, prior turns, question + numbered sources). `messages` is
+   * null when no source clears the relevance floor.
+   */
+  private async prepareChat(
+    input: RAGChatQuery,
+    topK: number
+  ): Promise<
+    | { sources: RAGSource[]; messages: ChatMessage[] }
+    | { sources: RAGSource[]; messages: null; empty: RAGChatResponse }
+  > {
+    const retrievedSources = await this.retrieveSources(input, topK);
+    const sources = filterGroundedSources(
+      retrievedSources,
+      RAG_MIN_RELEVANCE_SCORE,
+      { minKeywordScore: RAG_MIN_KEYWORD_SCORE }
+    );
+
+    if (sources.length === 0) {
+      return {
+        sources,
+        messages: null,
+        empty: {
+          answer:
+            "I couldn't find sufficiently relevant transcript evidence matching your query.",
+          sources: [],
+          tokensUsed: 0,
+        },
+      };
     }
-    throw new Error("Retry exhausted");
+
+    const contextBlock = sources
+      .map(
+        (s, i) =>
+          `[Source ${i + 1}] Call: "${s.callTitle ?? "Untitled"}" (${s.callDate})${s.speaker ? ` — ${s.speaker}` : ""}\n${s.text}`
+      )
+      .join("\n\n---\n\n");
+
+    const messages: ChatMessage[] = [
+      {
+        role: "system",
+        content: `You are a helpful assistant that answers questions about customer accounts based on call transcript data.
+
+RULES:
+1. ONLY use information from the provided transcript sources.
+2. Cite sources using [Source N] notation.
+3. If the sources don't contain enough information to answer, say so honestly.
+4. Be specific and include any quantified metrics you find.
+5. Keep answers concise but complete.
+6. When the user asks follow-up questions, use the conversation history for context.`,
+      },
+    ];
+
+    // Inject prior conversation turns
+    for (const msg of input.history) {
+      messages.push({ role: msg.role, content: msg.content });
+    }
+
+    // Current query with fresh context
+    messages.push({
+      role: "user",
+      content: `QUESTION: ${input.query}
+
+TRANSCRIPT SOURCES:
+${contextBlock}`,
+    });
+
+    return { sources, messages };
   }
 
-  private async embed(text: string): Promise<number[]> {
-    const response = await this.openai.embeddings.create({
-      model: "text-embedding-3-small",
-      input: text,
+  /**
+   * Vector search (plus keyword search in hybrid mode) over the org's chunks,
+   * fused by reciprocal rank, optionally reranked, hydrated from PostgreSQL
+   * and cut to `topK`.
+   */
+  private async retrieveSources(
+    input: RetrievalInput,
+    topK: number
+  ): Promise<RAGSource[]> {
+    if (input.accountIds && input.accountIds.length === 0) {
+      return [];
+    }
+    const mode = input.retrievalMode ?? this.retrievalMode;
+    const reranker = input.rerank === false ? null : this.reranker;
+    const poolSize = mode === "hybrid" ? topK * this.hybridCandidateMultiplier : topK;
+    const filter = {
+      organizationId: input.organizationId,
+      accountId: input.accountId,
+      funnelStages: input.funnelStages,
+      topics: input.topics,
+      accountIds: input.accountIds ?? undefined,
+      occurredAfter: input.occurredAfter,
+      occurredBefore: input.occurredBefore,
+    };
+
+    const queryEmbedding = await this.embed(input.query);
+    const { active: store } = await this.resolveVectorStores(input.organizationId);
+    const [vectorMatches, keywordMatches] = await Promise.all([
+      store.query({ vector: queryEmbedding, topK: poolSize, filter }),
+      mode === "hybrid"
+        ? this.searchKeywords({ query: input.query, limit: poolSize, filter })
+        : Promise.resolve([] as KeywordMatch[]),
+    ]);
+
+    const vectorHits = vectorMatches.flatMap((match) => {
+      const chunkId = match.metadata?.chunk_id as string | undefined;
+      return chunkId ? [{ chunkId, score: match.score ?? 0 }] : [];
     });
-    return response.data[0].embedding;
+    const fused = fuseByReciprocalRank(vectorHits, keywordMatches, this.rrfK);
+    const candidates = fused.slice(0, reranker ? Math.max(topK, this.rerankCandidates) : topK);
+
+    const sources = await this.hydrateSources(
+      candidates.map((candidate) => ({
+        id: candidate.chunkId,
+        score: candidate.vectorScore ?? candidate.keywordScore ?? 0,
+        metadata: { chunk_id: candidate.chunkId },
+        scores: {
+          vector: candidate.vectorScore,
+          keyword: candidate.keywordScore,
+          fused: candidate.fusedScore,
+          rerank: null,
+        },
+      })),
+      filter
+    );
+
+    if (!reranker || sources.length === 0) {
+      return sources.slice(0, topK);
+    }
+    return (await this.rerankSources(reranker, input.query, sources)).slice(0, topK);
+  }
+
+  private async searchKeywords(input: {
+    query: string;
+    limit: number;
+    filter: VectorFilter;
+  }): Promise<KeywordMatch[]> {
+    try {
+      return await searchTranscriptChunksByKeyword(this.prisma, input);
+    } catch (err) {
+      logger.warn("RAG keyword search failed; using vector results only", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return [];
+    }
+  }
+
+  private async rerankSources(
+    reranker: RAGReranker,
+    query: string,
+    sources: RAGSource[]
+  ): Promise<RAGSource[]> {
+    try {
+      const scores = await reranker.rerank(query, sources.map((source) => source.text));
+      return sources
+        .map((source, i) => ({
+          ...source,
+          relevanceScore: scores[i],
+          scores: source.scores ? { ...source.scores, rerank: scores[i] } : undefined,
+        }))
+        .sort((a, b) => b.relevanceScore - a.relevanceScore);
+    } catch (err) {
+      logger.warn("RAG rerank failed; keeping fused order", {
+        reranker: reranker.name,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return sources;
+    }
+  }
+
+  private getVectorStore(backend: VectorStoreBackend): VectorStore {
+    const store = this.vectorStores.get(backend);
+    if (!store) {
+      throw new VectorBackendUnavailableError(backend);
+    }
+    return store;
+  }
+
+  /**
+   * Resolves the org's active store and, while a reindex is running, its
+   * migration target. With a single configured backend there is nothing to
+   * choose, so OrgSettings is not read.
+   */
+  private async resolveVectorStores(
+    organizationId: string
+  ): Promise<{ active: VectorStore; target: VectorStore | null }> {
+    if (this.vectorStores.size <= 1) {
+      return { active: this.getVectorStore(this.defaultVectorBackend), target: null };
+    }
+
+    let backends = this.getCacheEntry(this.orgVectorBackendCache, organizationId);
+    if (!backends) {
+      backends = await loadOrgVectorBackends(
+        this.prisma,
+        organizationId,
+        this.defaultVectorBackend
+      );
+      this.orgVectorBackendCache.set(organizationId, {
+        value: backends,
+        expiresAt: Date.now() + ORG_VECTOR_BACKEND_CACHE_TTL_MS,
+      });
+    }
+    return {
+      active: this.getVectorStore(backends.active),
+      target: backends.target ? this.vectorStores.get(backends.target) ?? null : null,
+    };
+  }
+
+  private async embed(text: string): Promise<number[]> {
+    return this.embeddings.embed(text);
   }
 
   private async hydrateSources(
@@ -403,7 +910,9 @@ ${contextBlock}`,
       id: string;
       score?: number;
       metadata?: Record<string, unknown>;
-    }>
+      scores?: RAGSourceScores;
+    }>,
+    constraints?: VectorFilter
   ): Promise<RAGSource[]> {
     const chunkIds = Array.from(
       new Set(
@@ -416,12 +925,39 @@ ${contextBlock}`,
       return [];
     }
 
+    // Re-checks org, account and date constraints against the live call row:
+    // vector metadata can be stale (e.g. a call moved to another account)
+    // and Pinecone cannot filter by call date.
     const chunks = await this.prisma.transcriptChunk.findMany({
-      where: { id: { in: chunkIds } },
+      where: {
+        id: { in: chunkIds },
+        ...(constraints
+          ? {
+              transcript: {
+                call: {
+                  organizationId: constraints.organizationId,
+                  ...(constraints.accountId
+                    ? { accountId: constraints.accountId }
+                    : constraints.accountIds
+                      ? { accountId: { in: constraints.accountIds } }
+                      : {}),
+                  ...(constraints.occurredAfter || constraints.occurredBefore
+                    ? {
+                        occurredAt: {
+                          ...(constraints.occurredAfter ? { gte: constraints.occurredAfter } : {}),
+                          ...(constraints.occurredBefore ? { lte: constraints.occurredBefore } : {}),
+                        },
+                      }
+                    : {}),
+                },
+              },
+            }
+          : {}),
+      },
       include: {
         transcript: {
           include: {
-            call: { select: { id: true, title: true, occurredAt: true } },
+            call: { select: { id: true, title: true, occurredAt: true, accountId: true } },
           },
         },
       },
@@ -441,7 +977,9 @@ ${contextBlock}`,
         callDate: chunk.transcript.call.occurredAt.toISOString().split("T")[0],
         text: chunk.text,
         speaker: chunk.speaker,
+        accountId: chunk.transcript.call.accountId,
         relevanceScore: match.score ?? 0,
+        ...(match.scores ? { scores: match.scores } : {}),
       });
     }
     return sources;
@@ -459,13 +997,12 @@ ${contextBlock}`,
     });
   }
 
-  private vectorRetentionDeps() {
+  private async vectorRetentionDeps(organizationId: string) {
+    const { active, target } = await this.resolveVectorStores(organizationId);
     return {
       prisma: this.prisma,
-      pinecone: this.pinecone,
-      indexName: this.indexName,
+      vectorStores: target ? [active, target] : [active],
       vectorRetentionDeleteLimit: this.vectorRetentionDeleteLimit,
-      withRetry: <T>(fn: () => Promise<T>) => this.withRetry(fn),
     };
   }
 
@@ -494,3 +1031,24 @@ ${contextBlock}`,
     cache.set(key, { value, expiresAt: Date.now() + this.cacheTtlMs });
   }
 }
+
+function parsePortfolioAnswer(raw: string | null | undefined): {
+  summary: string;
+  accounts: Map<string, string>;
+} {
+  const accounts = new Map<string, string>();
+  try {
+    const parsed = JSON.parse(raw ?? "{}") as {
+      summary?: unknown;
+      accounts?: Array<{ account_id?: unknown; answer?: unknown }>;
+    };
+    for (const entry of Array.isArray(parsed.accounts) ? parsed.accounts : []) {
+      if (typeof entry?.account_id === "string" && typeof entry.answer === "string") {
+        accounts.set(entry.account_id, entry.answer);
+      }
+    }
+    return { summary: typeof parsed.summary === "string" ? parsed.summary : "", accounts };
+  } catch {
+    return { summary: raw ?? "", accounts };
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { fuseByReciprocalRank } from "./rag-hybrid-retrieval.js";
+
+describe("fuseByReciprocalRank", () => {
+  it("ranks chunks found by both retrievers above single-list hits", () => {
+    const fused = fuseByReciprocalRank(
+      [
+        { chunkId: "a", score: 0.91 },
+        { chunkId: "b", score: 0.88 },
+      ],
+      [
+        { chunkId: "c", score: 0.6 },
+        { chunkId: "b", score: 0.4 },
+      ],
+      60
+    );
+
+    expect(fused.map((candidate) => candidate.chunkId)).toEqual(["b", "a", "c"]);
+    expect(fused[0]).toEqual({
+      chunkId: "b",
+      vectorScore: 0.88,
+      keywordScore: 0.4,
+      fusedScore: 1 / 62 + 1 / 62,
+    });
+    expect(fused[2]).toMatchObject({ vectorScore: null, keywordScore: 0.6 });
+  });
+
+  it("keeps vector order when there are no keyword hits", () => {
+    const fused = fuseByReciprocalRank(
+      [
+        { chunkId: "a", score: 0.7 },
+        { chunkId: "b", score: 0.9 },
+      ],
+      []
+    );
+
+    expect(fused.map((candidate) => candidate.chunkId)).toEqual(["a", "b"]);
+    expect(fused.every((candidate) => candidate.keywordScore === null)).toBe(true);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Hybrid Retrieval Fusion
+ *
+ * Merges vector and keyword rankings with reciprocal rank fusion (RRF):
+ * each list contributes 1 / (k + rank) for every chunk it returns, so a
+ * chunk ranked well by both signals beats one ranked first by only one.
+ * RRF ignores raw score scales, which differ between cosine similarity
+ * and full-text rank.
+ */
+
+export const DEFAULT_RRF_K = 60;
+
+export interface RankedChunk {
+  chunkId: string;
+  score: number;
+}
+
+export interface FusedCandidate {
+  chunkId: string;
+  vectorScore: number | null;
+  keywordScore: number | null;
+  fusedScore: number;
+}
+
+export function fuseByReciprocalRank(
+  vectorHits: RankedChunk[],
+  keywordHits: RankedChunk[],
+  k = DEFAULT_RRF_K
+): FusedCandidate[] {
+  const candidates = new Map<string, FusedCandidate>();
+  const candidate = (chunkId: string) => {
+    let entry = candidates.get(chunkId);
+    if (!entry) {
+      entry = { chunkId, vectorScore: null, keywordScore: null, fusedScore: 0 };
+      candidates.set(chunkId, entry);
+    }
+    return entry;
+  };
+
+  vectorHits.forEach((hit, rank) => {
+    const entry = candidate(hit.chunkId);
+    if (entry.vectorScore !== null) return;
+    entry.vectorScore = hit.score;
+    entry.fusedScore += 1 / (k + rank + 1);
+  });
+  keywordHits.forEach((hit, rank) => {
+    const entry = candidate(hit.chunkId);
+    if (entry.keywordScore !== null) return;
+    entry.keywordScore = hit.score;
+    entry.fusedScore += 1 / (k + rank + 1);
+  });
+
+  // Stable sort keeps vector order for ties.
+  return Array.from(candidates.values()).sort((a, b) => b.fusedScore - a.fusedScore);
+}
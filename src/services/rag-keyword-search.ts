@@ -0,0 +1,124 @@
+/**
+ * RAG Keyword Search
+ *
+ * Postgres full-text search over `TranscriptChunk.text`, the lexical half of
+ * hybrid retrieval. Catches exact product names, SKUs and numbers that
+ * embeddings blur together. Query terms are OR-ed so long natural-language
+ * questions still match chunks that contain only some of the terms; chunks
+ * matching more terms in closer proximity rank higher.
+ *
+ * Only chunks indexed for RAG (`embeddingId` set) are searched, so retention
+ * pruning removes a chunk from both halves of retrieval.
+ *
+ * Stemming and stopwords follow the transcript language: each supported
+ * language is matched with its own text-search config, anything else with
+ * `simple`. The configs are inlined as literals so the per-config GIN
+ * indexes on `transcript_chunks` apply.
+ */
+
+import { Prisma, type PrismaClient } from "@prisma/client";
+import type { VectorFilter } from "./rag-vector-store.js";
+import { SUPPORTED_LANGUAGES, type SupportedLanguage } from "../lib/language-detection.js";
+
+const TEXT_SEARCH_CONFIGS: Record<SupportedLanguage, string> = {
+  en: "english",
+  de: "german",
+  fr: "french",
+  es: "spanish",
+};
+
+interface TextSearchBranch {
+  /** Quoted config literal, e.g. `'german'`. */
+  config: Prisma.Sql;
+  /** Column of the `q` subselect holding this config's tsquery. */
+  column: Prisma.Sql;
+  /** Transcripts searched with this config. */
+  when: Prisma.Sql;
+}
+
+function textSearchBranch(config: string, when: Prisma.Sql): TextSearchBranch {
+  return { config: Prisma.raw(`'${config}'`), column: Prisma.raw(`"${config}"`), when };
+}
+
+const LANGUAGE_BRANCHES = SUPPORTED_LANGUAGES.map((language) =>
+  textSearchBranch(TEXT_SEARCH_CONFIGS[language], Prisma.sql`t."language" = ${language}`)
+);
+const FALLBACK_BRANCH = textSearchBranch(
+  "simple",
+  Prisma.sql`t."language" NOT IN (${Prisma.join([...SUPPORTED_LANGUAGES])})`
+);
+const TEXT_SEARCH_BRANCHES = [...LANGUAGE_BRANCHES, FALLBACK_BRANCH];
+
+export interface KeywordMatch {
+  chunkId: string;
+  /** `ts_rank_cd` normalized to 0..1 (rank / (rank + 1)). */
+  score: number;
+}
+
+export async function searchTranscriptChunksByKeyword(
+  prisma: PrismaClient,
+  input: { query: string; limit: number; filter: VectorFilter }
+): Promise<KeywordMatch[]> {
+  if (!/[\p{L}\p{N}]/u.test(input.query)) {
+    return [];
+  }
+
+  // plainto_tsquery AND-s its lexemes; swapping the operator gives OR semantics.
+  const tsQueries = TEXT_SEARCH_BRANCHES.map(
+    (branch) =>
+      Prisma.sql`NULLIF(replace(plainto_tsquery(${branch.config}, ${input.query})::text, '&', '|'), '')::tsquery AS ${branch.column}`
+  );
+  const matches = TEXT_SEARCH_BRANCHES.map(
+    (branch) => Prisma.sql`(${branch.when} AND to_tsvector(${branch.config}, tc."text") @@ q.${branch.column})`
+  );
+  const ranks = LANGUAGE_BRANCHES.map(
+    (branch) =>
+      Prisma.sql`WHEN ${branch.when} THEN ts_rank_cd(to_tsvector(${branch.config}, tc."text"), q.${branch.column}, 32)`
+  );
+  const rank = Prisma.sql`CASE ${Prisma.join(ranks, " ")} ELSE ts_rank_cd(to_tsvector(${FALLBACK_BRANCH.config}, tc."text"), q.${FALLBACK_BRANCH.column}, 32) END`;
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`tc."embeddingId" IS NOT NULL`,
+    Prisma.sql`c."organizationId" = ${input.filter.organizationId}`,
+    Prisma.sql`(${Prisma.join(matches, " OR ")})`,
+  ];
+  if (input.filter.accountId) {
+    conditions.push(Prisma.sql`c."accountId" = ${input.filter.accountId}`);
+  }
+  if (input.filter.accountIds) {
+    conditions.push(Prisma.sql`c."accountId" IN (${Prisma.join(input.filter.accountIds)})`);
+  }
+  if (input.filter.occurredAfter) {
+    conditions.push(Prisma.sql`c."occurredAt" >= ${input.filter.occurredAfter}`);
+  }
+  if (input.filter.occurredBefore) {
+    conditions.push(Prisma.sql`c."occurredAt" <= ${input.filter.occurredBefore}`);
+  }
+  if (input.filter.funnelStages && input.filter.funnelStages.length > 0) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "chunk_tags" ct
+      WHERE ct."chunkId" = tc."id"
+        AND ct."funnelStage"::text IN (${Prisma.join(input.filter.funnelStages)})
+    )`);
+  }
+  if (input.filter.topics && input.filter.topics.length > 0) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "chunk_tags" ct
+      WHERE ct."chunkId" = tc."id"
+        AND ct."topic" IN (${Prisma.join(input.filter.topics)})
+    )`);
+  }
+
+  const rows = await prisma.$queryRaw<Array<{ chunk_id: string; score: number }>>`
+    SELECT tc."id" AS chunk_id,
+           ${rank} AS score
+    FROM (SELECT ${Prisma.join(tsQueries)}) q,
+         "transcript_chunks" tc
+    JOIN "transcripts" t ON t."id" = tc."transcriptId"
+    JOIN "calls" c ON c."id" = t."callId"
+    WHERE ${Prisma.join(conditions, " AND ")}
+    ORDER BY score DESC
+    LIMIT ${input.limit}
+  `;
+
+  return rows.map((row) => ({ chunkId: row.chunk_id, score: Number(row.score) }));
+}
@@ -0,0 +1,118 @@
+/**
+ * pgvector Vector Store
+ *
+ * Stores embeddings in `transcript_chunks.embedding` beside the chunk's
+ * `embeddingId`, so no external vector service is needed. Organization,
+ * account and funnel-stage filters are resolved by joining the chunk's
+ * transcript, call and tags at query time rather than from copied metadata.
+ * Scores are cosine similarity (1 - cosine distance), matching the Pinecone
+ * index metric.
+ */
+
+import { Prisma, type PrismaClient } from "@prisma/client";
+import type {
+  VectorFilter,
+  VectorMatch,
+  VectorRecord,
+  VectorStore,
+} from "./rag-vector-store.js";
+
+function toVectorLiteral(values: number[]): string {
+  return `[${values.join(",")}]`;
+}
+
+export class PgVectorStore implements VectorStore {
+  readonly backend = "pgvector" as const;
+
+  constructor(private prisma: PrismaClient) {}
+
+  async query(input: { vector: number[]; topK: number; filter: VectorFilter }): Promise<VectorMatch[]> {
+    const vector = toVectorLiteral(input.vector);
+    const conditions: Prisma.Sql[] = [
+      Prisma.sql`tc."embedding" IS NOT NULL`,
+      Prisma.sql`c."organizationId" = ${input.filter.organizationId}`,
+    ];
+    if (input.filter.accountId) {
+      conditions.push(Prisma.sql`c."accountId" = ${input.filter.accountId}`);
+    }
+    if (input.filter.accountIds) {
+      conditions.push(Prisma.sql`c."accountId" IN (${Prisma.join(input.filter.accountIds)})`);
+    }
+    if (input.filter.occurredAfter) {
+      conditions.push(Prisma.sql`c."occurredAt" >= ${input.filter.occurredAfter}`);
+    }
+    if (input.filter.occurredBefore) {
+      conditions.push(Prisma.sql`c."occurredAt" <= ${input.filter.occurredBefore}`);
+    }
+    if (input.filter.funnelStages && input.filter.funnelStages.length > 0) {
+      conditions.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM "chunk_tags" ct
+        WHERE ct."chunkId" = tc."id"
+          AND ct."funnelStage"::text IN (${Prisma.join(input.filter.funnelStages)})
+      )`);
+    }
+    if (input.filter.topics && input.filter.topics.length > 0) {
+      conditions.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM "chunk_tags" ct
+        WHERE ct."chunkId" = tc."id"
+          AND ct."topic" IN (${Prisma.join(input.filter.topics)})
+      )`);
+    }
+
+    const rows = await this.prisma.$queryRaw<
+      Array<{ chunk_id: string; embedding_id: string | null; distance: number }>
+    >`
+      SELECT tc."id" AS chunk_id,
+             tc."embeddingId" AS embedding_id,
+             (tc."embedding" <=> ${vector}::vector) AS distance
+      FROM "transcript_chunks" tc
+      JOIN "transcripts" t ON t."id" = tc."transcriptId"
+      JOIN "calls" c ON c."id" = t."callId"
+      WHERE ${Prisma.join(conditions, " AND ")}
+      ORDER BY tc."embedding" <=> ${vector}::vector
+      LIMIT ${input.topK}
+    `;
+
+    return rows.map((row) => ({
+      id: row.embedding_id ?? `chunk_${row.chunk_id}`,
+      score: 1 - Number(row.distance),
+      metadata: { chunk_id: row.chunk_id },
+    }));
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    for (const record of records) {
+      await this.prisma.$executeRaw`
+        UPDATE "transcript_chunks"
+        SET "embedding" = ${toVectorLiteral(record.values)}::vector,
+            "embeddingId" = ${record.id}
+        WHERE "id" = ${record.metadata.chunkId}
+      `;
+    }
+  }
+
+  async fetch(ids: string[]): Promise<Map<string, number[]>> {
+    const vectors = new Map<string, number[]>();
+    if (ids.length === 0) return vectors;
+    const rows = await this.prisma.$queryRaw<Array<{ embedding_id: string; embedding: string }>>`
+      SELECT "embeddingId" AS embedding_id, "embedding"::text AS embedding
+      FROM "transcript_chunks"
+      WHERE "embeddingId" IN (${Prisma.join(ids)})
+        AND "embedding" IS NOT NULL
+    `;
+    for (const row of rows) {
+      // pgvector's text form ("[0.1,0.2,...]") is valid JSON
+      vectors.set(row.embedding_id, JSON.parse(row.embedding) as number[]);
+    }
+    return vectors;
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.prisma.$executeRaw`
+      UPDATE "transcript_chunks"
+      SET "embedding" = NULL
+      WHERE "embeddingId" IN (${Prisma.join(ids)})
+    `;
+  }
+}
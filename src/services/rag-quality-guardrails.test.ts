@@ -35,6 +35,31 @@ describe("rag-quality-guardrails", () => {
     expect(filtered[0]?.chunkId).toBe("c1");
   });
 
+  it("keeps keyword hits the embedding under-scored unless a reranker judged them", () => {
+    const source = (chunkId: string, scores: { vector: number | null; keyword: number | null; rerank: number | null }) => ({
+      chunkId,
+      callId: "call-1",
+      callTitle: "Call 1",
+      callDate: "2026-03-01",
+      text: "SKU-4471 pricing",
+      speaker: "Rep",
+      relevanceScore: scores.rerank ?? scores.vector ?? scores.keyword ?? 0,
+      scores: { ...scores, fused: 0.03 },
+    });
+
+    const filtered = filterGroundedSources(
+      [
+        source("keyword-only", { vector: null, keyword: 0.4, rerank: null }),
+        source("weak-both", { vector: 0.3, keyword: 0.05, rerank: null }),
+        source("reranked-low", { vector: 0.3, keyword: 0.4, rerank: 0.2 }),
+      ],
+      0.55,
+      { minKeywordScore: 0.1 }
+    );
+
+    expect(filtered.map((item) => item.chunkId)).toEqual(["keyword-only"]);
+  });
+
   it("detects existing source citations", () => {
     expect(hasSourceCitation("The result improved by 20% [Source 1].")).toBe(true);
     expect(hasSourceCitation("No citation here.")).toBe(false);
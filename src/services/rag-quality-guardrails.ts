@@ -2,15 +2,33 @@ import type { RAGSource } from "./rag-types.js";
 
 const SOURCE_CITATION_PATTERN = /\[Source\s+\d+\]/i;
 
+/**
+ * Keeps sources at or above the relevance threshold. When `minKeywordScore`
+ * is given, hybrid keyword hits that the embedding under-scores (exact
+ * product names, SKUs, figures) are kept on keyword strength instead, unless
+ * a reranker has already judged them.
+ */
 export function filterGroundedSources(
   sources: RAGSource[],
-  minRelevanceScore: number
+  minRelevanceScore: number,
+  options: { minKeywordScore?: number } = {}
 ): RAGSource[] {
   if (sources.length === 0) return [];
   const threshold = Number.isFinite(minRelevanceScore)
     ? Math.min(1, Math.max(0, minRelevanceScore))
     : 0.55;
-  return sources.filter((source) => source.relevanceScore >= threshold);
+  const keywordThreshold = options.minKeywordScore;
+  return sources.filter((source) => {
+    if (source.relevanceScore >= threshold) return true;
+    const scores = source.scores;
+    return (
+      keywordThreshold !== undefined &&
+      scores !== undefined &&
+      scores.rerank === null &&
+      scores.keyword !== null &&
+      scores.keyword >= keywordThreshold
+    );
+  });
 }
 
 export function hasSourceCitation(answer: string): boolean {
@@ -21,8 +39,16 @@ export function ensureGroundedCitations(
   answer: string,
   sourceCount: number
 ): string {
-  if (sourceCount <= 0) return answer;
+  return ensureCitedSources(
+    answer,
+    Array.from({ length: Math.max(0, sourceCount) }, (_, index) => index + 1)
+  );
+}
+
+/** Like `ensureGroundedCitations` for an arbitrary set of source numbers. */
+export function ensureCitedSources(answer: string, sourceNumbers: number[]): string {
+  if (sourceNumbers.length === 0) return answer;
   if (hasSourceCitation(answer)) return answer;
-  const refs = Array.from({ length: sourceCount }, (_, index) => `[Source ${index + 1}]`);
+  const refs = sourceNumbers.map((n) => `[Source ${n}]`);
   return `${answer}\n\nSources: ${refs.join(", ")}`;
 }
@@ -0,0 +1,104 @@
+/**
+ * RAG Rerankers
+ *
+ * Optional second pass over hybrid retrieval candidates. Each reranker scores
+ * every passage against the query on a 0..1 scale:
+ *   - llm: asks an OpenAI chat model to grade the passages in one call
+ *   - cross_encoder: a self-hosted cross-encoder behind a text-embeddings-
+ *     inference compatible `/rerank` endpoint (`RAG_RERANK_URL`)
+ *
+ * Rerank failures are not fatal; RAGEngine logs them and keeps fused order.
+ */
+
+import type OpenAI from "openai";
+
+export type RerankProviderName = "none" | "llm" | "cross_encoder";
+
+export interface RAGReranker {
+  readonly name: Exclude<RerankProviderName, "none">;
+  /** One score per passage, in passage order. */
+  rerank(query: string, passages: string[]): Promise<number[]>;
+}
+
+function clampScore(value: unknown): number {
+  const score = typeof value === "number" && Number.isFinite(value) ? value : 0;
+  return Math.min(1, Math.max(0, score));
+}
+
+export class LLMReranker implements RAGReranker {
+  readonly name = "llm" as const;
+
+  constructor(
+    private openai: OpenAI,
+    private model = "gpt-4o-mini"
+  ) {}
+
+  async rerank(query: string, passages: string[]): Promise<number[]> {
+    const numbered = passages
+      .map((passage, i) => `[${i + 1}] ${passage.slice(0, 1200)}`)
+      .join("\n\n");
+
+    const response = await this.openai.chat.completions.create({
+      model: this.model,
+      temperature: 0,
+      response_format: { type: "json_object" },
+      messages: [
+        {
+          role: "system",
+          content: `You grade how well transcript passages answer a question.
+Return JSON {"scores": [...]} with one number between 0 and 1 per passage, in passage order.
+1 = directly answers the question, 0 = unrelated. Exact matches on product names, SKUs and figures in the question count as strong evidence.`,
+        },
+        {
+          role: "user",
+          content: `QUESTION: ${query}\n\nPASSAGES:\n${numbered}`,
+        },
+      ],
+    });
+
+    const raw = response.choices[0]?.message?.content ?? "{}";
+    const parsed = JSON.parse(raw) as { scores?: unknown };
+    if (!Array.isArray(parsed.scores) || parsed.scores.length !== passages.length) {
+      throw new Error(`LLM reranker returned ${Array.isArray(parsed.scores) ? parsed.scores.length : 0} scores for ${passages.length} passages`);
+    }
+    return parsed.scores.map(clampScore);
+  }
+}
+
+export class CrossEncoderReranker implements RAGReranker {
+  readonly name = "cross_encoder" as const;
+
+  constructor(
+    private url: string,
+    private apiKey?: string
+  ) {}
+
+  async rerank(query: string, passages: string[]): Promise<number[]> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ query, texts: passages, raw_scores: false }),
+      signal: AbortSignal.timeout(10_000),
+    });
+    if (!response.ok) {
+      throw new Error(`Cross-encoder rerank failed with HTTP ${response.status}`);
+    }
+
+    const results = (await response.json()) as Array<{ index: number; score: number }>;
+    const scores = new Array<number>(passages.length).fill(0);
+    for (const result of results) {
+      if (result.index >= 0 && result.index < passages.length) {
+        scores[result.index] = clampScore(result.score);
+      }
+    }
+    return scores;
+  }
+}
+
+export function resolveRerankProviderName(value: string | undefined): RerankProviderName {
+  const normalized = value?.trim().toLowerCase();
+  return normalized === "llm" || normalized === "cross_encoder" ? normalized : "none";
+}
@@ -1,4 +1,29 @@
-export interface RAGQuery {
+import type { AIClient } from "./ai-client.js";
+
+/**
+ * semantic: vector search only.
+ * hybrid: vector + Postgres full-text search merged by reciprocal rank fusion.
+ */
+export type RAGRetrievalMode = "semantic" | "hybrid";
+
+export interface RAGRetrievalOptions {
+  /** Filter to chunks tagged with any of these `ChunkTag` topics. */
+  topics?: string[];
+  /** Defaults to `RAG_RETRIEVAL_MODE` (hybrid). */
+  retrievalMode?: RAGRetrievalMode;
+  /** Run the configured reranker. Defaults to true when one is configured. */
+  rerank?: boolean;
+  /**
+   * Accounts the caller may read (account-access enforcement). Undefined or
+   * null means every account in the organization.
+   */
+  accountIds?: string[] | null;
+  /** Only chunks from calls that occurred within this range (inclusive). */
+  occurredAfter?: Date;
+  occurredBefore?: Date;
+}
+
+export interface RAGQuery extends RAGRetrievalOptions {
   query: string;
   accountId: string;
   organizationId: string;
@@ -13,7 +38,7 @@ export interface ChatMessage {
   content: string;
 }
 
-export interface RAGChatQuery {
+export interface RAGChatQuery extends RAGRetrievalOptions {
   query: string;
   accountId: string | null;
   organizationId: string;
@@ -30,7 +55,24 @@ export interface RAGSource {
   callDate: string;
   text: string;
   speaker: string | null;
+  accountId?: string | null;
+  /**
+   * Score the grounding threshold applies to: the rerank score when reranked,
+   * else vector similarity, else the keyword score for keyword-only hits.
+   */
   relevanceScore: number;
+  scores?: RAGSourceScores;
+}
+
+export interface RAGSourceScores {
+  /** Cosine similarity from the vector store; null for keyword-only hits. */
+  vector: number | null;
+  /** Full-text rank normalized to 0..1; null for vector-only hits. */
+  keyword: number | null;
+  /** Reciprocal rank fusion score across both rankings. */
+  fused: number;
+  /** 0..1 reranker score; null when reranking did not run. */
+  rerank: number | null;
 }
 
 export interface RAGChatResponse {
@@ -39,6 +81,44 @@ export interface RAGChatResponse {
   tokensUsed: number;
 }
 
+export interface RAGChatStreamOptions {
+  onToken: (token: string) => void;
+  /** Usage-tracked client for the caller; defaults to the engine's OpenAI client. */
+  aiClient?: AIClient;
+  /** Aborts generation, e.g. when the SSE client disconnects. */
+  signal?: AbortSignal;
+}
+
+/** Cross-account question answered per account, e.g. "who mentioned SOC 2 delays?". */
+export interface RAGPortfolioQuery extends RAGRetrievalOptions {
+  query: string;
+  organizationId: string;
+  /** Max chunks cited across all accounts. Defaults to 24. */
+  topK?: number;
+  /** Max accounts in the answer. Defaults to 10. */
+  maxAccounts?: number;
+  funnelStages?: string[];
+}
+
+export interface RAGPortfolioSource extends RAGSource {
+  /** N in the `[Source N]` markers used by the account and summary answers. */
+  citation: number;
+}
+
+export interface RAGPortfolioAccountAnswer {
+  accountId: string;
+  accountName: string;
+  answer: string;
+  sources: RAGPortfolioSource[];
+}
+
+export interface RAGPortfolioResponse {
+  /** Cross-account summary. */
+  answer: string;
+  accounts: RAGPortfolioAccountAnswer[];
+  tokensUsed: number;
+}
+
 export interface RAGResponse {
   answer: string;
   sources: RAGSource[];
@@ -0,0 +1,148 @@
+import { describe, expect, it, vi } from "vitest";
+import { reindexRagVectors } from "./rag-vector-reindex.js";
+import { HashingEmbeddingProvider } from "./rag-embeddings.js";
+import type { VectorRecord, VectorStore, VectorStoreBackend } from "./rag-vector-store.js";
+
+function memoryStore(backend: VectorStoreBackend, seed: Record<string, number[]> = {}) {
+  const vectors = new Map<string, number[]>(Object.entries(seed));
+  const upserted: VectorRecord[] = [];
+  const store: VectorStore = {
+    backend,
+    query: vi.fn().mockResolvedValue([]),
+    upsert: vi.fn(async (records: VectorRecord[]) => {
+      for (const record of records) {
+        vectors.set(record.id, record.values);
+        upserted.push(record);
+      }
+    }),
+    fetch: vi.fn(async (ids: string[]) => {
+      const found = new Map<string, number[]>();
+      for (const id of ids) {
+        const values = vectors.get(id);
+        if (values) found.set(id, values);
+      }
+      return found;
+    }),
+    delete: vi.fn(async (ids: string[]) => {
+      for (const id of ids) vectors.delete(id);
+    }),
+  };
+  return { store, vectors, upserted };
+}
+
+function chunk(id: string, accountId: string | null) {
+  return {
+    id,
+    text: `text for ${id}`,
+    embeddingId: `chunk_${id}`,
+    transcript: { call: { id: `call_${id}`, accountId } },
+    tags: [
+      { funnelStage: "BOFU", topic: "roi" },
+      { funnelStage: "BOFU", topic: "pricing" },
+    ],
+  };
+}
+
+function makePrisma(batches: unknown[][]) {
+  const findMany = vi.fn();
+  for (const batch of batches) findMany.mockResolvedValueOnce(batch);
+  findMany.mockResolvedValue([]);
+  return {
+    transcriptChunk: { findMany },
+    orgSettings: {
+      upsert: vi.fn().mockResolvedValue({}),
+      update: vi.fn().mockResolvedValue({}),
+    },
+  } as any;
+}
+
+describe("reindexRagVectors", () => {
+  it("copies stored vectors, re-embeds missing ones and flips the org backend", async () => {
+    const prisma = makePrisma([[chunk("a", "acct_1"), chunk("b", null)], [chunk("c", "acct_1")]]);
+    const source = memoryStore("pinecone", { chunk_a: [0.1, 0.2], chunk_c: [0.3, 0.4] });
+    const target = memoryStore("pgvector");
+    const embed = vi.fn().mockResolvedValue([0.9, 0.9]);
+
+    const result = await reindexRagVectors(
+      { prisma, source: source.store, target: target.store, embed, batchSize: 2 },
+      { organizationId: "org_1" }
+    );
+
+    expect(result).toEqual({
+      fromBackend: "pinecone",
+      toBackend: "pgvector",
+      copied: 3,
+      reembedded: 1,
+      purged: 0,
+    });
+    expect(embed).toHaveBeenCalledWith("text for b");
+    expect(target.vectors.get("chunk_a")).toEqual([0.1, 0.2]);
+    expect(target.vectors.get("chunk_b")).toEqual([0.9, 0.9]);
+    expect(target.upserted[0].metadata).toEqual({
+      chunkId: "a",
+      organizationId: "org_1",
+      accountId: "acct_1",
+      callId: "call_a",
+      funnelStages: ["BOFU"],
+      topics: ["roi", "pricing"],
+      textPreview: "text for a",
+    });
+    expect(prisma.transcriptChunk.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({ cursor: { id: "c" }, skip: 1 })
+    );
+    expect(prisma.orgSettings.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ update: { ragVectorBackendTarget: "pgvector" } })
+    );
+    expect(prisma.orgSettings.update).toHaveBeenCalledWith({
+      where: { organizationId: "org_1" },
+      data: { ragVectorBackend: "pgvector", ragVectorBackendTarget: null },
+    });
+    expect(source.vectors.size).toBe(2);
+  });
+
+  it("purges copied vectors from the source when requested", async () => {
+    const prisma = makePrisma([[chunk("a", "acct_1")]]);
+    const source = memoryStore("pgvector", { chunk_a: [0.1, 0.2] });
+    const target = memoryStore("pinecone");
+
+    const result = await reindexRagVectors(
+      { prisma, source: source.store, target: target.store, embed: vi.fn(), batchSize: 100 },
+      { organizationId: "org_1", purgeSource: true }
+    );
+
+    expect(result.purged).toBe(1);
+    expect(source.store.delete).toHaveBeenCalledWith(["chunk_a"]);
+    expect(source.vectors.size).toBe(0);
+  });
+
+  it("clears a stale target when the org already uses the requested backend", async () => {
+    const prisma = makePrisma([]);
+    const store = memoryStore("pgvector");
+
+    const result = await reindexRagVectors(
+      { prisma, source: store.store, target: store.store, embed: vi.fn(), batchSize: 100 },
+      { organizationId: "org_1" }
+    );
+
+    expect(result.copied).toBe(0);
+    expect(prisma.transcriptChunk.findMany).not.toHaveBeenCalled();
+    expect(prisma.orgSettings.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ update: { ragVectorBackendTarget: null } })
+    );
+  });
+});
+
+describe("HashingEmbeddingProvider", () => {
+  it("produces deterministic unit vectors that rank related text higher", async () => {
+    const provider = new HashingEmbeddingProvider();
+    const query = await provider.embed("renewal pricing concerns");
+    const related = await provider.embed("The customer raised pricing concerns before renewal");
+    const unrelated = await provider.embed("Onboarding kickoff agenda");
+    const dot = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+    expect(query).toHaveLength(1536);
+    expect(await provider.embed("renewal pricing concerns")).toEqual(query);
+    expect(dot(query, query)).toBeCloseTo(1);
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated));
+  });
+});
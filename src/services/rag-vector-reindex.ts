@@ -0,0 +1,144 @@
+/**
+ * RAG Vector Reindex
+ *
+ * Migrates one organization's chunk vectors from its active backend to
+ * another (e.g. Pinecone → pgvector for an air-gapped deployment):
+ *   1. Mark the target on OrgSettings so newly indexed chunks are written
+ *      to both backends while the copy runs
+ *   2. Copy every indexed chunk in batches, reusing the stored embedding
+ *      when the source still has it and re-embedding the chunk text otherwise
+ *   3. Flip the org's active backend to the target
+ *   4. Optionally delete the copied vectors from the source
+ *
+ * Runs on the `rag-vector-reindex` BullMQ queue; re-running a job after a
+ * failure is safe because upserts are keyed by the chunk's vector ID.
+ */
+
+import type { PrismaClient } from "@prisma/client";
+import type {
+  VectorRecord,
+  VectorStore,
+  VectorStoreBackend,
+} from "./rag-vector-store.js";
+
+export interface RagVectorReindexJobData {
+  organizationId: string;
+  targetBackend: VectorStoreBackend;
+  purgeSource?: boolean;
+  requestedByUserId?: string | null;
+}
+
+export interface RagVectorReindexResult {
+  fromBackend: VectorStoreBackend;
+  toBackend: VectorStoreBackend;
+  copied: number;
+  reembedded: number;
+  purged: number;
+}
+
+interface RagVectorReindexDeps {
+  prisma: PrismaClient;
+  source: VectorStore;
+  target: VectorStore;
+  embed: (text: string) => Promise<number[]>;
+  batchSize: number;
+}
+
+export async function markRagVectorMigrationTarget(
+  prisma: PrismaClient,
+  organizationId: string,
+  targetBackend: VectorStoreBackend | null
+): Promise<void> {
+  await prisma.orgSettings.upsert({
+    where: { organizationId },
+    create: { organizationId, ragVectorBackendTarget: targetBackend },
+    update: { ragVectorBackendTarget: targetBackend },
+  });
+}
+
+export async function reindexRagVectors(
+  deps: RagVectorReindexDeps,
+  input: { organizationId: string; purgeSource?: boolean }
+): Promise<RagVectorReindexResult> {
+  const result: RagVectorReindexResult = {
+    fromBackend: deps.source.backend,
+    toBackend: deps.target.backend,
+    copied: 0,
+    reembedded: 0,
+    purged: 0,
+  };
+  if (deps.source.backend === deps.target.backend) {
+    await markRagVectorMigrationTarget(deps.prisma, input.organizationId, null);
+    return result;
+  }
+
+  await markRagVectorMigrationTarget(deps.prisma, input.organizationId, deps.target.backend);
+
+  const copiedVectorIds: string[] = [];
+  let cursor: string | undefined;
+  for (;;) {
+    const chunks = await deps.prisma.transcriptChunk.findMany({
+      where: {
+        embeddingId: { not: null },
+        transcript: { call: { organizationId: input.organizationId } },
+      },
+      select: {
+        id: true,
+        text: true,
+        embeddingId: true,
+        transcript: { select: { call: { select: { id: true, accountId: true } } } },
+        tags: { select: { funnelStage: true, topic: true } },
+      },
+      orderBy: { id: "asc" },
+      take: deps.batchSize,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (chunks.length === 0) break;
+    cursor = chunks[chunks.length - 1].id;
+
+    const vectorIds = chunks.map((chunk) => chunk.embeddingId as string);
+    const stored = await deps.source.fetch(vectorIds);
+
+    const records: VectorRecord[] = [];
+    for (const chunk of chunks) {
+      const vectorId = chunk.embeddingId as string;
+      let values = stored.get(vectorId);
+      if (!values) {
+        values = await deps.embed(chunk.text);
+        result.reembedded++;
+      }
+      records.push({
+        id: vectorId,
+        values,
+        metadata: {
+          chunkId: chunk.id,
+          organizationId: input.organizationId,
+          accountId: chunk.transcript.call.accountId,
+          callId: chunk.transcript.call.id,
+          funnelStages: Array.from(new Set(chunk.tags.map((tag) => tag.funnelStage))),
+          topics: Array.from(new Set(chunk.tags.map((tag) => tag.topic))),
+          textPreview: chunk.text.slice(0, 200),
+        },
+      });
+    }
+
+    await deps.target.upsert(records);
+    result.copied += records.length;
+    copiedVectorIds.push(...vectorIds);
+  }
+
+  await deps.prisma.orgSettings.update({
+    where: { organizationId: input.organizationId },
+    data: { ragVectorBackend: deps.target.backend, ragVectorBackendTarget: null },
+  });
+
+  if (input.purgeSource) {
+    for (let i = 0; i < copiedVectorIds.length; i += 100) {
+      const batch = copiedVectorIds.slice(i, i + 100);
+      await deps.source.delete(batch);
+      result.purged += batch.length;
+    }
+  }
+
+  return result;
+}
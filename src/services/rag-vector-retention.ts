@@ -1,12 +1,11 @@
 import type { PrismaClient } from "@prisma/client";
-import type { Pinecone } from "@pinecone-database/pinecone";
+import type { VectorStore } from "./rag-vector-store.js";
 
 interface RAGVectorRetentionDeps {
   prisma: PrismaClient;
-  pinecone: Pinecone;
-  indexName: string;
+  /** The org's active store plus its migration target, if a reindex is running. */
+  vectorStores: VectorStore[];
   vectorRetentionDeleteLimit: number;
-  withRetry: <T>(fn: () => Promise<T>) => Promise<T>;
 }
 
 export async function pruneRagVectors(
@@ -130,11 +129,12 @@ async function deleteVectorsForCandidates(
     return 0;
   }
 
-  const index = deps.pinecone.Index(deps.indexName);
   for (let i = 0; i < vectorIds.length; i += 100) {
     const batch = vectorIds.slice(i, i + 100);
     if (batch.length === 0) continue;
-    await deps.withRetry(() => index.deleteMany(batch));
+    for (const store of deps.vectorStores) {
+      await store.delete(batch);
+    }
   }
 
   await deps.prisma.transcriptChunk.updateMany({
@@ -0,0 +1,217 @@
+/**
+ * RAG Vector Stores
+ *
+ * `VectorStore` is the seam between RAGEngine and the vector database. Two
+ * backends exist:
+ *   - pinecone: the hosted index (optionally scoped to a namespace)
+ *   - pgvector: embeddings stored on `transcript_chunks.embedding`
+ *     (see rag-pgvector-store.ts)
+ *
+ * Each org reads from one backend (`OrgSettings.ragVectorBackend`, falling
+ * back to the deployment default). While a reindex job migrates the org,
+ * `ragVectorBackendTarget` is set and new chunks are written to both.
+ */
+
+import type { Pinecone } from "@pinecone-database/pinecone";
+import type { PrismaClient } from "@prisma/client";
+
+export const VECTOR_STORE_BACKENDS = ["pinecone", "pgvector"] as const;
+export type VectorStoreBackend = (typeof VECTOR_STORE_BACKENDS)[number];
+
+export function isVectorStoreBackend(value: unknown): value is VectorStoreBackend {
+  return typeof value === "string" && (VECTOR_STORE_BACKENDS as readonly string[]).includes(value);
+}
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: {
+    chunkId: string;
+    organizationId: string;
+    accountId: string | null;
+    callId: string;
+    funnelStages: string[];
+    topics: string[];
+    textPreview: string;
+  };
+}
+
+export interface VectorFilter {
+  organizationId: string;
+  accountId?: string | null;
+  funnelStages?: string[];
+  /** Chunk must carry at least one of these `ChunkTag` topics. */
+  topics?: string[];
+  /** Restrict to these accounts (account-access enforcement). */
+  accountIds?: string[];
+  /**
+   * Call date range. Pinecone metadata has no call date, so the Pinecone
+   * store ignores these and RAGEngine enforces them when hydrating sources.
+   */
+  occurredAfter?: Date;
+  occurredBefore?: Date;
+}
+
+/** A search hit. `metadata.chunk_id` is always set so sources can be hydrated. */
+export interface VectorMatch {
+  id: string;
+  score?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface VectorStore {
+  readonly backend: VectorStoreBackend;
+  query(input: { vector: number[]; topK: number; filter: VectorFilter }): Promise<VectorMatch[]>;
+  upsert(records: VectorRecord[]): Promise<void>;
+  /** Stored embeddings by vector ID; IDs the backend does not hold are omitted. */
+  fetch(ids: string[]): Promise<Map<string, number[]>>;
+  delete(ids: string[]): Promise<void>;
+}
+
+export async function withVectorStoreRetry<T>(
+  fn: () => Promise<T>,
+  attempts = 3,
+  baseDelayMs = 500
+): Promise<T> {
+  for (let i = 0; i < attempts; i++) {
+    try {
+      return await fn();
+    } catch (err: unknown) {
+      const isRetryable = err instanceof Error &&
+        (err.message.includes("429") || err.message.includes("503") || err.message.includes("ECONNRESET"));
+      if (!isRetryable || i === attempts - 1) throw err;
+      const delay = baseDelayMs * Math.pow(2, i) + Math.random() * baseDelayMs;
+      await new Promise(r => setTimeout(r, delay));
+    }
+  }
+  throw new Error("Retry exhausted");
+}
+
+// ─── Pinecone ────────────────────────────────────────────────────────────────
+
+export class PineconeVectorStore implements VectorStore {
+  readonly backend = "pinecone" as const;
+
+  constructor(
+    private client: Pinecone,
+    private indexName: string,
+    private namespace?: string
+  ) {}
+
+  async query(input: { vector: number[]; topK: number; filter: VectorFilter }): Promise<VectorMatch[]> {
+    const filter: Record<string, unknown> = {
+      organization_id: input.filter.organizationId,
+    };
+    if (input.filter.accountId) {
+      filter.account_id = input.filter.accountId;
+    } else if (input.filter.accountIds) {
+      filter.account_id = { $in: input.filter.accountIds };
+    }
+    if (input.filter.funnelStages && input.filter.funnelStages.length > 0) {
+      filter.funnel_stages = { $in: input.filter.funnelStages };
+    }
+    if (input.filter.topics && input.filter.topics.length > 0) {
+      filter.topics = { $in: input.filter.topics };
+    }
+
+    const index = this.index();
+    const results = await withVectorStoreRetry(() => index.query({
+      vector: input.vector,
+      topK: input.topK,
+      filter,
+      includeMetadata: true,
+    }));
+    return (results.matches ?? []).map((match) => ({
+      id: match.id,
+      score: match.score,
+      metadata: match.metadata,
+    }));
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    const index = this.index();
+    await withVectorStoreRetry(() => index.upsert(
+      records.map((record) => ({
+        id: record.id,
+        values: record.values,
+        metadata: {
+          chunk_id: record.metadata.chunkId,
+          organization_id: record.metadata.organizationId,
+          // Pinecone metadata cannot hold null
+          ...(record.metadata.accountId ? { account_id: record.metadata.accountId } : {}),
+          call_id: record.metadata.callId,
+          funnel_stages: record.metadata.funnelStages,
+          topics: record.metadata.topics,
+          text_preview: record.metadata.textPreview,
+        },
+      }))
+    ));
+  }
+
+  async fetch(ids: string[]): Promise<Map<string, number[]>> {
+    const vectors = new Map<string, number[]>();
+    if (ids.length === 0) return vectors;
+    const index = this.index();
+    const response = await withVectorStoreRetry(() => index.fetch(ids));
+    for (const [id, record] of Object.entries(response.records ?? {})) {
+      if (record?.values?.length) {
+        vectors.set(id, record.values);
+      }
+    }
+    return vectors;
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const index = this.index();
+    await withVectorStoreRetry(() => index.deleteMany(ids));
+  }
+
+  private index() {
+    const index = this.client.Index(this.indexName);
+    return this.namespace ? index.namespace(this.namespace) : index;
+  }
+}
+
+// ─── Per-org backend selection ───────────────────────────────────────────────
+
+export interface OrgVectorBackends {
+  /** Backend queries read from. */
+  active: VectorStoreBackend;
+  /** Backend a reindex job is migrating to, if any. */
+  target: VectorStoreBackend | null;
+}
+
+export async function loadOrgVectorBackends(
+  prisma: PrismaClient,
+  organizationId: string,
+  defaultBackend: VectorStoreBackend
+): Promise<OrgVectorBackends> {
+  const settings = await prisma.orgSettings.findUnique({
+    where: { organizationId },
+    select: { ragVectorBackend: true, ragVectorBackendTarget: true },
+  });
+  const active = isVectorStoreBackend(settings?.ragVectorBackend)
+    ? settings.ragVectorBackend
+    : defaultBackend;
+  const target = isVectorStoreBackend(settings?.ragVectorBackendTarget)
+    ? settings.ragVectorBackendTarget
+    : null;
+  return { active, target: target === active ? null : target };
+}
+
+/**
+ * Default backend for orgs without an explicit selection: `RAG_VECTOR_BACKEND`
+ * when valid, otherwise Pinecone if an API key is configured, else pgvector.
+ */
+export function resolveDefaultVectorBackend(
+  value: string | undefined,
+  pineconeConfigured: boolean
+): VectorStoreBackend {
+  const normalized = value?.trim().toLowerCase();
+  if (isVectorStoreBackend(normalized)) {
+    return normalized;
+  }
+  return pineconeConfigured ? "pinecone" : "pgvector";
+}
@@ -4,7 +4,9 @@
  * Orchestrates the Connections Setup Wizard — a first-run experience that walks
  * new organizations through five steps:
  *
- *   1. Connect Recording Provider — Merge.dev Link session for call recording integrations
+ *   1. Connect Recording Provider — Merge.dev Link session for call recording integrations,
+ *      or direct credentials for natively supported providers (Gong, Grain, Zoom,
+ *      Microsoft Teams, Fireflies)
  *   2. Connect CRM — Merge.dev Link session for Salesforce or HubSpot
  *   3. Review Account Sync — Preview the initial entity-resolution results and fix mismatches
  *   4. Choose Plan — Select a billing plan or start free trial
@@ -20,6 +22,8 @@ import type {
   PrismaClient,
   CallProvider,
   CRMProvider,
+  IntegrationProvider,
+  Prisma,
   Plan,
   SetupWizardStep,
   UserRole,
@@ -306,6 +310,54 @@ export class SetupWizardService {
     });
   }
 
+  /**
+   * Completes Step 1 with a direct integration instead of Merge Link. The
+   * caller has already validated the credentials against the provider, so
+   * the integration is stored as ACTIVE and picked up by the next sync.
+   */
+  async completeDirectRecordingProvider(
+    organizationId: string,
+    provider: { name: IntegrationProvider; callProvider: CallProvider },
+    input: {
+      credentials: Prisma.InputJsonObject;
+      settings?: Prisma.InputJsonObject;
+      webhookSecret?: string;
+    }
+  ): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.integrationConfig.upsert({
+        where: {
+          organizationId_provider: { organizationId, provider: provider.name },
+        },
+        create: {
+          organizationId,
+          provider: provider.name,
+          enabled: true,
+          status: "ACTIVE",
+          credentials: input.credentials,
+          settings: input.settings,
+          webhookSecret: input.webhookSecret,
+        },
+        update: {
+          enabled: true,
+          status: "ACTIVE",
+          credentials: input.credentials,
+          lastError: null,
+          ...(input.settings ? { settings: input.settings } : {}),
+          ...(input.webhookSecret ? { webhookSecret: input.webhookSecret } : {}),
+        },
+      }),
+      this.prisma.setupWizard.update({
+        where: { organizationId },
+        data: {
+          recordingProvider: provider.callProvider,
+          mergeLinkedAccountId: null,
+          currentStep: "CRM",
+        },
+      }),
+    ]);
+  }
+
   // ── Step 2: Connect CRM ─────────────────────────────────────────────
 
   /**
@@ -7,6 +7,35 @@ export interface ApprovalSlackSettings {
   creatorWebhookUrl: string | null;
 }
 
+const SLACK_WEBHOOK_HOSTS = ["hooks.slack.com", "hooks.slack-gov.com"];
+
+/**
+ * Throws when the URL is not an https Slack incoming-webhook endpoint.
+ */
+export function assertSlackWebhookUrl(url: string): void {
+  const parsed = new URL(url);
+  if (parsed.protocol !== "https:") {
+    throw new Error("Slack webhook must use https://");
+  }
+  if (!SLACK_WEBHOOK_HOSTS.includes(parsed.hostname.toLowerCase())) {
+    throw new Error("Slack webhook host is not allowed");
+  }
+}
+
+export async function postSlackWebhook(url: string, payload: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(payload),
+  });
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`Slack webhook failed (${response.status}): ${body}`);
+  }
+}
+
 export class SlackApprovalNotifier {
   constructor(private prisma: PrismaClient) {}
 
@@ -165,27 +194,10 @@ export class SlackApprovalNotifier {
   }
 
   private validateWebhookUrl(url: string): void {
-    const parsed = new URL(url);
-    if (parsed.protocol !== "https:") {
-      throw new Error("Slack webhook must use https://");
-    }
-    const allowed = ["hooks.slack.com", "hooks.slack-gov.com"];
-    if (!allowed.includes(parsed.hostname.toLowerCase())) {
-      throw new Error("Slack webhook host is not allowed");
-    }
+    assertSlackWebhookUrl(url);
   }
 
   private async postWebhook(url: string, payload: unknown): Promise<void> {
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(payload),
-    });
-    if (!response.ok) {
-      const body = await response.text();
-      throw new Error(`Slack webhook failed (${response.status}): ${body}`);
-    }
+    await postSlackWebhook(url, payload);
   }
 }
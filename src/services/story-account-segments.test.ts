@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  comparativeAccountLabel,
+  describeSegment,
+  employeeBand,
+  selectSegmentAccounts,
+} from "./story-account-segments.js";
+
+describe("comparativeAccountLabel", () => {
+  it("letters accounts in order and continues past Z", () => {
+    expect([0, 1, 25, 26].map(comparativeAccountLabel)).toEqual([
+      "Customer A",
+      "Customer B",
+      "Customer Z",
+      "Customer AA",
+    ]);
+  });
+});
+
+describe("employeeBand", () => {
+  it("buckets headcounts and ignores unknown sizes", () => {
+    expect(employeeBand(180)).toBe("51-200 employees");
+    expect(employeeBand(12_000)).toBe("5,000+ employees");
+    expect(employeeBand(null)).toBeNull();
+  });
+});
+
+describe("describeSegment", () => {
+  it("combines industries and size bounds", () => {
+    expect(describeSegment({ industries: ["Healthcare"], minEmployees: 200, maxEmployees: 1000 })).toBe(
+      "Healthcare, 200-1,000 employees"
+    );
+    expect(describeSegment({ topics: ["roi_financial_outcomes"] })).toBeNull();
+  });
+});
+
+describe("selectSegmentAccounts", () => {
+  it("limits to accessible accounts and ranks by matching calls", async () => {
+    const findMany = vi.fn().mockResolvedValue([
+      { id: "acct-1", _count: { calls: 2 } },
+      { id: "acct-2", _count: { calls: 5 } },
+      { id: "acct-3", _count: { calls: 1 } },
+    ]);
+
+    const ids = await selectSegmentAccounts({ account: { findMany } } as never, {
+      organizationId: "org-1",
+      filter: { industries: ["Healthcare"], topics: ["roi_financial_outcomes"] },
+      accessibleAccountIds: ["acct-1", "acct-2", "acct-3"],
+      limit: 2,
+    });
+
+    expect(ids).toEqual(["acct-2", "acct-1"]);
+    expect(findMany.mock.calls[0][0].where).toMatchObject({
+      organizationId: "org-1",
+      id: { in: ["acct-1", "acct-2", "acct-3"] },
+      industry: { in: ["Healthcare"], mode: "insensitive" },
+      calls: { some: { tags: { some: { topic: { in: ["roi_financial_outcomes"] } } } } },
+    });
+  });
+});
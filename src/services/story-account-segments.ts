@@ -0,0 +1,129 @@
+/**
+ * Story Account Segments
+ *
+ * Resolves the accounts a comparative story is built from: either an explicit
+ * list, or the accounts in a segment (industry and company size) that have
+ * transcribed calls tagged with the story's topics. Segment accounts are
+ * ranked by how many matching calls they have, so the best-evidenced
+ * customers are compared first.
+ */
+
+import type { Prisma, PrismaClient } from "@prisma/client";
+import type { TopicKey } from "../types/taxonomy.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface AccountSegmentFilter {
+  /** Account industries to include, matched case-insensitively. */
+  industries?: string[];
+  minEmployees?: number;
+  maxEmployees?: number;
+  /** Only accounts with calls tagged with one of these topics. */
+  topics?: TopicKey[];
+}
+
+export interface SelectSegmentAccountsInput {
+  organizationId: string;
+  filter: AccountSegmentFilter;
+  /** Accounts the caller may read; null means every account. */
+  accessibleAccountIds: string[] | null;
+  limit?: number;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+export const MIN_COMPARATIVE_ACCOUNTS = 2;
+export const MAX_COMPARATIVE_ACCOUNTS = 8;
+
+const EMPLOYEE_BANDS: Array<{ max: number; label: string }> = [
+  { max: 50, label: "1-50 employees" },
+  { max: 200, label: "51-200 employees" },
+  { max: 1000, label: "201-1,000 employees" },
+  { max: 5000, label: "1,001-5,000 employees" },
+];
+
+// ─── Selection ───────────────────────────────────────────────────────────────
+
+/**
+ * Returns the IDs of accounts in the segment, best-evidenced first. Only
+ * accounts with at least one transcribed call matching the topic filter
+ * are returned.
+ */
+export async function selectSegmentAccounts(
+  prisma: PrismaClient,
+  input: SelectSegmentAccountsInput
+): Promise<string[]> {
+  const { filter } = input;
+  const callFilter: Prisma.CallWhereInput = {
+    transcript: { isNot: null },
+    ...(filter.topics && filter.topics.length > 0
+      ? { tags: { some: { topic: { in: filter.topics } } } }
+      : {}),
+  };
+
+  const accounts = await prisma.account.findMany({
+    where: {
+      organizationId: input.organizationId,
+      ...(input.accessibleAccountIds ? { id: { in: input.accessibleAccountIds } } : {}),
+      ...(filter.industries && filter.industries.length > 0
+        ? { industry: { in: filter.industries, mode: "insensitive" } }
+        : {}),
+      ...(filter.minEmployees !== undefined || filter.maxEmployees !== undefined
+        ? {
+            employeeCount: {
+              ...(filter.minEmployees !== undefined ? { gte: filter.minEmployees } : {}),
+              ...(filter.maxEmployees !== undefined ? { lte: filter.maxEmployees } : {}),
+            },
+          }
+        : {}),
+      calls: { some: callFilter },
+    },
+    select: {
+      id: true,
+      _count: { select: { calls: { where: callFilter } } },
+    },
+  });
+
+  return accounts
+    .sort((a, b) => b._count.calls - a._count.calls || a.id.localeCompare(b.id))
+    .slice(0, input.limit ?? MAX_COMPARATIVE_ACCOUNTS)
+    .map((account) => account.id);
+}
+
+// ─── Labels ──────────────────────────────────────────────────────────────────
+
+/** Neutral name for the account at `index` in an anonymous comparison. */
+export function comparativeAccountLabel(index: number): string {
+  let suffix = "";
+  let n = index;
+  do {
+    suffix = String.fromCharCode(65 + (n % 26)) + suffix;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return `Customer ${suffix}`;
+}
+
+/** Coarse company-size band; exact headcounts can identify an account. */
+export function employeeBand(employeeCount: number | null | undefined): string | null {
+  if (employeeCount === null || employeeCount === undefined || employeeCount <= 0) {
+    return null;
+  }
+  return EMPLOYEE_BANDS.find((band) => employeeCount <= band.max)?.label ?? "5,000+ employees";
+}
+
+/** Short description of a segment filter, e.g. "Healthcare, 200-1,000 employees". */
+export function describeSegment(filter: AccountSegmentFilter): string | null {
+  const parts: string[] = [];
+  if (filter.industries && filter.industries.length > 0) {
+    parts.push(filter.industries.join(" / "));
+  }
+  const { minEmployees, maxEmployees } = filter;
+  if (minEmployees !== undefined && maxEmployees !== undefined) {
+    parts.push(`${minEmployees.toLocaleString("en-US")}-${maxEmployees.toLocaleString("en-US")} employees`);
+  } else if (minEmployees !== undefined) {
+    parts.push(`${minEmployees.toLocaleString("en-US")}+ employees`);
+  } else if (maxEmployees !== undefined) {
+    parts.push(`up to ${maxEmployees.toLocaleString("en-US")} employees`);
+  }
+  return parts.length > 0 ? parts.join(", ") : null;
+}
@@ -4,10 +4,21 @@ import { StoryBuilder } from "./story-builder.js";
 // ─── Mocks ──────────────────────────────────────────────────────────────────
 
 const mockMergeTranscripts = vi.fn();
+const mockMeasureAccounts = vi.fn();
 
-vi.mock("./transcript-merger.js", () => ({
+vi.mock("./transcript-merger.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./transcript-merger.js")>()),
   TranscriptMerger: class MockTranscriptMerger {
     mergeTranscripts = mockMergeTranscripts;
+    measureAccounts = mockMeasureAccounts;
+  },
+}));
+
+const mockScrubTextsForAccount = vi.fn();
+
+vi.mock("./company-scrubber.js", () => ({
+  CompanyScrubber: class MockCompanyScrubber {
+    scrubTextsForAccount = mockScrubTextsForAccount;
   },
 }));
 
@@ -27,6 +38,7 @@ function createMockPrisma() {
   return {
     account: {
       findUniqueOrThrow: vi.fn(),
+      findMany: vi.fn(),
     },
     call: {
       findMany: vi.fn(),
@@ -37,6 +49,10 @@ function createMockPrisma() {
     highValueQuote: {
       create: vi.fn(),
     },
+    storyClaimLineage: {
+      create: vi.fn(),
+      createMany: vi.fn(),
+    },
     orgSettings: {
       findUnique: vi.fn(),
     },
@@ -206,6 +222,82 @@ describe("StoryBuilder", () => {
     });
   });
 
+  describe("templates", () => {
+    const template = {
+      templateId: "tpl-1",
+      versionId: "tplv-3",
+      name: "CFO Brief",
+      version: 3,
+      definition: {
+        storyLength: "SHORT" as const,
+        audience: "CFOs",
+        promptBlock: "Lead with payback period.",
+        sections: [
+          { heading: "Challenge", instructions: "The cost problem.", minQuotes: 0, requiredMetrics: [] },
+          { heading: "Payback", instructions: "Quantified return.", minQuotes: 1, requiredMetrics: ["roi" as const] },
+        ],
+      },
+    };
+
+    beforeEach(() => {
+      prisma.account.findUniqueOrThrow.mockResolvedValue({ id: "acct-1", name: "TestCorp" });
+      prisma.orgSettings.findUnique.mockResolvedValue(null);
+      mockMergeTranscripts.mockResolvedValue({
+        markdown: "# Merged\n\nTranscript content here.",
+        wordCount: 4,
+        totalCalls: 1,
+        includedCalls: 1,
+        truncated: false,
+        truncationBoundary: null,
+        truncationMode: "OLDEST_FIRST",
+      });
+      prisma.call.findMany.mockResolvedValue([]);
+      mockChatCreate
+        .mockResolvedValueOnce({
+          choices: [{ message: { content: "## Challenge\n\nCosts rose.\n\n## Payback\n\nNo figures were shared." } }],
+        })
+        .mockResolvedValueOnce({
+          choices: [{ message: { content: '{ "quotes": [] }' } }],
+        });
+    });
+
+    it("prompts with the template and reports unfilled slots without saving a dry run", async () => {
+      const result = await builder.buildStory({
+        accountId: "acct-1",
+        organizationId: "org-1",
+        template,
+        dryRun: true,
+      });
+
+      const messages = mockChatCreate.mock.calls[0][0].messages;
+      expect(messages[0].content).toContain("Outline Template: CFO Brief.");
+      expect(messages[0].content).toContain("2. Payback: Quantified return.");
+      expect(messages[0].content).toContain("Target Length: SHORT");
+      expect(messages[0].content).toContain("Audience: CFOs");
+      expect(messages[0].content).toContain("Lead with payback period.");
+      expect(result.storyId).toBeNull();
+      expect(prisma.story.create).not.toHaveBeenCalled();
+      expect(result.templateCoverage?.complete).toBe(false);
+      expect(result.templateCoverage?.sections[1]).toMatchObject({
+        heading: "Payback",
+        found: true,
+        quotes: 0,
+        missingMetrics: ["roi"],
+      });
+    });
+
+    it("records the template version on saved stories", async () => {
+      prisma.story.create.mockResolvedValue({ id: "story-1" });
+
+      await builder.buildStory({ accountId: "acct-1", organizationId: "org-1", template });
+
+      const data = prisma.story.create.mock.calls[0][0].data;
+      expect(data.storyTemplateVersionId).toBe("tplv-3");
+      expect(data.filterTags).toContain("story_template:tpl-1");
+      expect(data.filterTags).not.toContain("story_outline:CHRONOLOGICAL_JOURNEY");
+    });
+  });
+
   describe("title generation", () => {
     it("should use custom title when provided", async () => {
       prisma.account.findUniqueOrThrow.mockResolvedValue({
@@ -234,4 +326,66 @@ describe("StoryBuilder", () => {
       expect(result.title).toBe("My Custom Title");
     });
   });
+
+  describe("buildComparativeStory", () => {
+    it("scrubs each account under its own label and records every contributor", async () => {
+      prisma.account.findMany.mockResolvedValue([
+        { id: "acct-1", name: "Acme", industry: "Healthcare", employeeCount: 150 },
+        { id: "acct-2", name: "Globex", industry: "Healthcare", employeeCount: null },
+      ]);
+      prisma.orgSettings.findUnique.mockResolvedValue(null);
+      prisma.call.findMany.mockResolvedValue([]);
+      mockMeasureAccounts.mockResolvedValue(new Map([["acct-1", 400], ["acct-2", 300]]));
+      mockMergeTranscripts.mockImplementation(async ({ accountId }: { accountId: string }) => ({
+        markdown: accountId === "acct-1" ? "Acme cut costs." : "Globex grew fast.",
+        wordCount: 3,
+        totalCalls: 2,
+        includedCalls: 2,
+        truncated: false,
+        truncationBoundary: null,
+        truncationMode: "OLDEST_FIRST",
+      }));
+      mockScrubTextsForAccount.mockImplementation(
+        async (accountId: string, texts: string[], config: { placeholder: string }) =>
+          texts.map((text) => ({
+            scrubbedText: text.replace(accountId === "acct-1" ? "Acme" : "Globex", config.placeholder),
+            replacementsMade: 1,
+            termsReplaced: [],
+          }))
+      );
+      mockChatCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: "# Two Customers\n\nBoth saw results." } }],
+      });
+      prisma.story.create.mockResolvedValue({ id: "story-1" });
+
+      const result = await builder.buildComparativeStory({
+        accountIds: ["acct-1", "acct-2"],
+        organizationId: "org-1",
+        segmentLabel: "Healthcare",
+      });
+
+      const prompt = mockChatCreate.mock.calls[0][0].messages[1].content as string;
+      expect(prompt).toContain("Accounts Compared: Customer A (Healthcare, 51-200 employees); Customer B (Healthcare)");
+      expect(prompt).toContain("Customer A cut costs.");
+      expect(prompt).not.toMatch(/Acme|Globex/);
+      expect(result.title).toBe("Healthcare: Customer Journeys Compared Across 2 Customers");
+
+      const data = prisma.story.create.mock.calls[0][0].data;
+      expect(data).toMatchObject({ accountId: "acct-1", scope: "MULTI_ACCOUNT" });
+      expect(data.contributingAccounts.create).toEqual([
+        expect.objectContaining({ accountId: "acct-1", label: "Customer A", position: 0, callsIncluded: 2 }),
+        expect.objectContaining({ accountId: "acct-2", label: "Customer B", position: 1, callsIncluded: 2 }),
+      ]);
+    });
+
+    it("rejects accounts outside the organization", async () => {
+      prisma.account.findMany.mockResolvedValue([{ id: "acct-1", name: "Acme", industry: null, employeeCount: null }]);
+      prisma.orgSettings.findUnique.mockResolvedValue(null);
+      mockMeasureAccounts.mockResolvedValue(new Map());
+
+      await expect(
+        builder.buildComparativeStory({ accountIds: ["acct-1", "acct-9"], organizationId: "org-1" })
+      ).rejects.toThrow("Accounts not found: acct-9");
+    });
+  });
 });
@@ -6,12 +6,46 @@
  *  2. Filters by specific taxonomy tags (e.g., "Onboarding," "ROI")
  *  3. Summarizes the journey into a structured Markdown document
  *  4. Extracts "High-Value Quotes" (specifically looking for quantified value)
+ *  5. Verifies the narrative's claims and the quotes against their source
+ *     transcript chunks (see story-claim-verifier.ts)
+ *
+ * Comparative stories run the same chain over several accounts at once. Each
+ * account's transcripts get a share of the model's context budget and, when
+ * the story is anonymous, are scrubbed separately under a neutral label
+ * ("Customer A") before anything reaches the model.
+ *
+ * A story follows either a built-in outline or one of the org's story
+ * templates (see story-templates.ts); template stories report how well they
+ * filled the template's sections and quote/metric slots.
+ *
+ * Stories are written in a chosen target language. Transcripts in other
+ * languages are quoted in their original wording alongside a translation.
  */
 
 import OpenAI from "openai";
-import type { PrismaClient, FunnelStage } from "@prisma/client";
-import { TOPIC_LABELS, type TaxonomyTopic } from "../types/taxonomy.js";
-import { TranscriptMerger } from "./transcript-merger.js";
+import type { PrismaClient, FunnelStage, ClaimVerificationStatus } from "@prisma/client";
+import {
+  TOPIC_LABELS,
+  isCustomTopicKey,
+  type TaxonomyTopic,
+  type TopicKey,
+} from "../types/taxonomy.js";
+import { buildTopicLabels, loadCustomTopics } from "./custom-taxonomy.js";
+import {
+  DEFAULT_TRANSCRIPT_MERGE_MAX_WORDS,
+  TranscriptMerger,
+  allocateWordBudget,
+  type MergedTranscriptResult,
+} from "./transcript-merger.js";
+import { CompanyScrubber } from "./company-scrubber.js";
+import { comparativeAccountLabel, employeeBand } from "./story-account-segments.js";
+import { getRecommendedWordsForModel } from "../types/model-context-limits.js";
+import type { ResolvedStoryTemplate } from "./story-templates.js";
+import {
+  checkTemplateCoverage,
+  storyTemplateGuide,
+  type StoryTemplateCoverage,
+} from "./story-template-outline.js";
 import type { AIClient } from "./ai-client.js";
 import {
   storyLengthWordTarget,
@@ -24,6 +58,29 @@ import {
   type StoryTypeInput,
 } from "../types/story-generation.js";
 import { resolveOperationRuntimePolicy } from "./ai-operation-policy.js";
+import {
+  applyClaimSupportToConfidence,
+  buildEntailmentMessages,
+  parseEntailmentResponse,
+  summarizeClaimVerification,
+  verifyNarrativeClaims,
+  verifyQuoteAgainstSource,
+  type EntailmentRequest,
+  type EntailmentResult,
+  type StoryClaimVerification,
+} from "./story-claim-verifier.js";
+import {
+  buildStoryLintRules,
+  lintStoryFields,
+  parseTerminologyEntry,
+  type StoryLintFinding,
+} from "./story-lint.js";
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGE_NAMES,
+  normalizeLanguageCode,
+  type SupportedLanguage,
+} from "../lib/language-detection.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -32,8 +89,8 @@ export interface StoryBuilderOptions {
   organizationId: string;
   /** Filter to specific funnel stages. If empty, includes all. */
   funnelStages?: FunnelStage[];
-  /** Filter to specific taxonomy topics. If empty, includes all. */
-  filterTopics?: TaxonomyTopic[];
+  /** Filter to specific taxonomy topics, built-in or custom. If empty, includes all. */
+  filterTopics?: TopicKey[];
   /** Custom title override. Auto-generated if omitted. */
   title?: string;
   /** Narrative format variation. */
@@ -49,14 +106,19 @@ export interface StoryBuilderOptions {
   storyLength?: StoryLength;
   /** Target outline template. */
   storyOutline?: StoryOutline;
+  /** Org story template to follow instead of a built-in outline. */
+  template?: ResolvedStoryTemplate;
   /** Explicit story type selector (full journey or topic-driven type). */
   storyType?: StoryTypeInput;
+  /** Output language (ISO 639-1). Defaults to English. */
+  targetLanguage?: SupportedLanguage;
   /** Optional callback fired with step-level progress updates. */
   onProgress?: (step:
     | "MERGING_TRANSCRIPTS"
     | "GATHERING_SEGMENTS"
     | "GENERATING_NARRATIVE"
     | "EXTRACTING_QUOTES"
+    | "VERIFYING_CLAIMS"
     | "SAVING_STORY"
     | "DONE") => void;
   /** Optional callback fired as narrative tokens stream from the LLM. */
@@ -65,6 +127,17 @@ export interface StoryBuilderOptions {
   aiClient?: AIClient;
   /** Optional idempotency base key for usage/cost dedupe. */
   aiIdempotencyKey?: string;
+  /** Generate without saving the story, e.g. to preview a template. */
+  dryRun?: boolean;
+}
+
+export interface ComparativeStoryOptions extends Omit<StoryBuilderOptions, "accountId"> {
+  /** Accounts to compare, in display order. */
+  accountIds: string[];
+  /** Refer to each account by a neutral label and scrub its identifiers. Defaults to true. */
+  anonymize?: boolean;
+  /** Segment the accounts were selected from, e.g. "Healthcare, 200-1,000 employees". */
+  segmentLabel?: string | null;
 }
 
 interface TranscriptSegment {
@@ -76,12 +149,18 @@ interface TranscriptSegment {
   startMs: number | null;
   chunkText: string;
   speaker: string | null;
+  /** ISO 639-1 language of the call transcript */
+  language: string;
   tags: Array<{ funnelStage: FunnelStage; topic: string; confidence: number }>;
 }
 
 interface ExtractedQuote {
   speaker: string | null;
   quoteText: string;
+  /** Language of quoteText, which is never translated */
+  language: string | null;
+  /** quoteText in the story language, when the quote is in another language */
+  translation: string | null;
   context: string | null;
   metricType: string | null;
   metricValue: string | null;
@@ -91,13 +170,22 @@ interface ExtractedQuote {
   sourceCallTitle: string | null;
   sourceRecordingUrl: string | null;
   confidenceScore?: number;
+  /** Whether the quote's wording was found in its source chunk. */
+  verificationStatus?: ClaimVerificationStatus;
 }
 
 interface StoryResult {
   storyId: string | null;
   title: string;
   markdownBody: string;
+  language: SupportedLanguage;
   quotes: ExtractedQuote[];
+  /** Narrative claims checked against their sources; null when no story was generated. */
+  claimVerification: StoryClaimVerification | null;
+  /** Story context lint of the generated markdown (banned claims, terminology, competitors). */
+  lintFindings: StoryLintFinding[];
+  /** Section and slot coverage, for stories generated from a template. */
+  templateCoverage: StoryTemplateCoverage | null;
 }
 
 interface EffectiveStoryGenerationSettings {
@@ -105,6 +193,38 @@ interface EffectiveStoryGenerationSettings {
   storyOutline: StoryOutline;
   storyType: StoryTypeInput;
   storyFormat?: StoryBuilderOptions["format"];
+  template?: ResolvedStoryTemplate;
+  targetLanguage: SupportedLanguage;
+  /** Labels for every topic key in play, including the org's custom topics. */
+  topicLabels: Record<string, string>;
+  /** Label and profile of each account in a comparative story. */
+  comparedAccounts?: string[];
+}
+
+/** One account's share of a comparative story. */
+interface StoryContribution {
+  accountId: string;
+  label: string;
+  callsIncluded: number;
+  callsAvailable: number;
+  segmentsIncluded: number;
+  wordsIncluded: number;
+  truncated: boolean;
+}
+
+interface ComposeStoryInput {
+  options: Omit<StoryBuilderOptions, "accountId">;
+  /** Account the story is filed under; the first contributor of a comparative story. */
+  accountId: string;
+  accountName: string;
+  title: string;
+  merged: Pick<MergedTranscriptResult, "markdown" | "includedCalls" | "truncated">;
+  segments: TranscriptSegment[];
+  savedContext: StoryContextSettings;
+  settings: EffectiveStoryGenerationSettings;
+  /** Names that must not appear in the story, for anonymous comparisons. */
+  lintCompanyTerms?: string[];
+  contributions?: StoryContribution[];
 }
 
 // ─── Prompts ─────────────────────────────────────────────────────────────────
@@ -123,7 +243,9 @@ const QUOTE_EXTRACTION_PROMPT = `You are a precision extraction engine. Given tr
 
 For each quote found, return JSON with:
 - "speaker": who said it (or null if unknown)
-- "quote_text": the exact quote
+- "quote_text": the exact quote, in the language it was spoken
+- "language": ISO 639-1 code of the language the quote was spoken in
+- "translation": the quote translated into the story language, or null if it is already in that language
 - "context": 1-sentence description of when/why this was said
 - "metric_type": one of "cost_savings", "revenue", "time_saved", "efficiency", "error_reduction", "adoption", "scale", "roi", "other"
 - "metric_value": the specific number/percentage/amount mentioned
@@ -132,7 +254,9 @@ RULES:
 1. Only extract REAL quotes from the text — never fabricate.
 2. The quote MUST contain a quantified value. Skip purely qualitative statements.
 3. Include enough of the quote for context but trim filler words.
-4. Respond with JSON: { "quotes": [...] }`;
+4. Never translate "quote_text" itself; put translations only in "translation".
+5. Write "context" in the story language.
+6. Respond with JSON: { "quotes": [...] }`;
 
 const STORY_RUNTIME_POLICY = resolveOperationRuntimePolicy({
   operation: "STORY_GENERATION",
@@ -142,6 +266,15 @@ const QUOTE_RUNTIME_POLICY = resolveOperationRuntimePolicy({
   operation: "QUOTE_EXTRACTION",
 });
 
+const CLAIM_STATUS_CONFIDENCE: Record<ClaimVerificationStatus, number> = {
+  SUPPORTED: 0.9,
+  WEAK: 0.5,
+  UNSUPPORTED: 0.1,
+};
+
+// Claim verification is a JSON extraction-style call, like quote extraction.
+const CLAIM_VERIFICATION_RUNTIME_POLICY = QUOTE_RUNTIME_POLICY;
+
 // ─── Story Builder ───────────────────────────────────────────────────────────
 
 export class StoryBuilder {
@@ -149,20 +282,23 @@ export class StoryBuilder {
   private prisma: PrismaClient;
   private model: string;
   private merger: TranscriptMerger;
+  private scrubber: CompanyScrubber;
 
   constructor(prisma: PrismaClient, openaiApiKey: string, model = "gpt-4o") {
     this.openai = new OpenAI({ apiKey: openaiApiKey });
     this.prisma = prisma;
     this.model = model;
     this.merger = new TranscriptMerger(prisma);
+    this.scrubber = new CompanyScrubber(prisma);
   }
 
   /**
    * Main entry point: builds a complete Markdown story for an account.
-   * Uses a 3-step prompt chain:
+   * Uses a 4-step prompt chain:
    *   1. Gather & filter transcript segments
    *   2. Generate the journey narrative (Markdown)
    *   3. Extract high-value quotes
+   *   4. Verify narrative claims and quotes against their source chunks
    */
   async buildStory(options: StoryBuilderOptions): Promise<StoryResult> {
     options.onProgress?.("MERGING_TRANSCRIPTS");
@@ -177,13 +313,10 @@ export class StoryBuilder {
     ]);
 
     const savedContext = (orgSettings?.storyContext ?? {}) as StoryContextSettings;
-    const savedDefaults = (orgSettings?.storyPromptDefaults ?? {}) as StoryPromptDefaults;
-    const effectiveSettings: EffectiveStoryGenerationSettings = {
-      storyLength: options.storyLength ?? savedDefaults.storyLength ?? "MEDIUM",
-      storyOutline: options.storyOutline ?? savedDefaults.storyOutline ?? "CHRONOLOGICAL_JOURNEY",
-      storyType: options.storyType ?? savedDefaults.storyType ?? "FULL_ACCOUNT_JOURNEY",
-      storyFormat: options.format ?? savedDefaults.storyFormat,
-    };
+    const effectiveSettings = this.resolveEffectiveSettings(
+      options,
+      (orgSettings?.storyPromptDefaults ?? {}) as StoryPromptDefaults
+    );
 
     // ── Step 1: Merge all transcripts into a single markdown ─────────
     const mergeResult = await this.merger.mergeTranscripts({
@@ -197,21 +330,205 @@ export class StoryBuilder {
         title: options.title ?? "No Data Available",
         markdownBody:
           "No transcripts found for this account.",
+        language: effectiveSettings.targetLanguage,
         quotes: [],
+        claimVerification: null,
+        lintFindings: [],
+        templateCoverage: null,
       };
     }
 
     // ── Step 2: Also gather tagged segments for filtering & quotes ───
     options.onProgress?.("GATHERING_SEGMENTS");
     const segments = await this.gatherSegments(options);
+    effectiveSettings.topicLabels = await this.resolveTopicLabels(options.organizationId, [
+      effectiveSettings.storyType,
+      ...(options.filterTopics ?? []),
+      ...segments.flatMap((s) => s.tags.map((t) => t.topic)),
+    ]);
+
+    return this.composeStory({
+      options,
+      accountId: options.accountId,
+      accountName: account.name,
+      title:
+        options.title ??
+        this.generateTitle(account.name, options.filterTopics, effectiveSettings.topicLabels),
+      merged: mergeResult,
+      segments,
+      savedContext,
+      settings: effectiveSettings,
+    });
+  }
+
+  /**
+   * Builds one story comparing several accounts. The context budget of the
+   * model is split across the accounts, each account's transcripts are
+   * merged and (for anonymous stories) scrubbed on their own, and the story
+   * records every account that contributed. Accounts without transcripts
+   * are left out.
+   */
+  async buildComparativeStory(options: ComparativeStoryOptions): Promise<StoryResult> {
+    options.onProgress?.("MERGING_TRANSCRIPTS");
+    const accountIds = [...new Set(options.accountIds)];
+    const anonymize = options.anonymize ?? true;
+    const [accounts, orgSettings, available] = await Promise.all([
+      this.prisma.account.findMany({
+        where: { id: { in: accountIds }, organizationId: options.organizationId },
+        select: { id: true, name: true, industry: true, employeeCount: true },
+      }),
+      this.prisma.orgSettings.findUnique({
+        where: { organizationId: options.organizationId },
+        select: { storyContext: true, storyPromptDefaults: true, transcriptMergeMaxWords: true },
+      }),
+      this.merger.measureAccounts(accountIds, options.organizationId),
+    ]);
+    const accountsById = new Map(accounts.map((account) => [account.id, account]));
+    const missing = accountIds.filter((id) => !accountsById.has(id));
+    if (missing.length > 0) {
+      throw new Error(`Accounts not found: ${missing.join(", ")}`);
+    }
+
+    const savedContext = (orgSettings?.storyContext ?? {}) as StoryContextSettings;
+    const effectiveSettings = this.resolveEffectiveSettings(
+      options,
+      (orgSettings?.storyPromptDefaults ?? {}) as StoryPromptDefaults
+    );
+
+    // ── Step 1: Merge each account within its share of the budget ────
+    const contributing = accountIds.filter((id) => (available.get(id) ?? 0) > 0);
+    const maxWords = Math.min(
+      orgSettings?.transcriptMergeMaxWords ?? DEFAULT_TRANSCRIPT_MERGE_MAX_WORDS,
+      getRecommendedWordsForModel(options.aiClient?.modelName ?? this.model)
+    );
+    const budgets = allocateWordBudget(
+      contributing.map((id) => available.get(id) ?? 0),
+      maxWords
+    );
+    const merges: MergedTranscriptResult[] = [];
+    for (const [index, accountId] of contributing.entries()) {
+      merges.push(
+        await this.merger.mergeTranscripts({
+          accountId,
+          organizationId: options.organizationId,
+          maxWords: budgets[index],
+        })
+      );
+    }
+
+    if (merges.every((merge) => merge.includedCalls === 0)) {
+      return {
+        storyId: null,
+        title: options.title ?? "No Data Available",
+        markdownBody: "No transcripts found for these accounts.",
+        language: effectiveSettings.targetLanguage,
+        quotes: [],
+        claimVerification: null,
+        lintFindings: [],
+        templateCoverage: null,
+      };
+    }
+
+    // ── Step 2: Gather segments and anonymize each account separately ─
+    options.onProgress?.("GATHERING_SEGMENTS");
+    const sections: string[] = [];
+    const segments: TranscriptSegment[] = [];
+    const comparedAccounts: string[] = [];
+    const contributions: StoryContribution[] = [];
+    for (const [index, accountId] of contributing.entries()) {
+      const account = accountsById.get(accountId)!;
+      const merge = merges[index];
+      const label = anonymize ? comparativeAccountLabel(index) : account.name;
+      const profile = [account.industry, employeeBand(account.employeeCount)].filter(Boolean).join(", ");
+      let accountSegments = await this.gatherSegments({ ...options, accountId });
+      let markdown = merge.markdown;
+
+      if (anonymize) {
+        const scrubbed = await this.scrubber.scrubTextsForAccount(
+          accountId,
+          [
+            markdown,
+            ...accountSegments.flatMap((segment) => [
+              segment.chunkText,
+              segment.callTitle ?? "",
+              segment.speaker ?? "",
+            ]),
+          ],
+          { placeholder: label, language: effectiveSettings.targetLanguage }
+        );
+        markdown = scrubbed[0].scrubbedText;
+        accountSegments = accountSegments.map((segment, segmentIndex) => ({
+          ...segment,
+          chunkText: scrubbed[1 + segmentIndex * 3].scrubbedText,
+          callTitle: scrubbed[2 + segmentIndex * 3].scrubbedText || null,
+          speaker: scrubbed[3 + segmentIndex * 3].scrubbedText || null,
+        }));
+      }
+
+      const heading = profile ? `${label} (${profile})` : label;
+      sections.push(`# ${heading}\n\n${markdown}`);
+      segments.push(...accountSegments);
+      comparedAccounts.push(heading);
+      contributions.push({
+        accountId,
+        label,
+        callsIncluded: merge.includedCalls,
+        callsAvailable: merge.totalCalls,
+        segmentsIncluded: accountSegments.length,
+        wordsIncluded: merge.wordCount,
+        truncated: merge.truncated,
+      });
+    }
+
+    effectiveSettings.comparedAccounts = comparedAccounts;
+    effectiveSettings.topicLabels = await this.resolveTopicLabels(options.organizationId, [
+      effectiveSettings.storyType,
+      ...(options.filterTopics ?? []),
+      ...segments.flatMap((s) => s.tags.map((t) => t.topic)),
+    ]);
+
+    return this.composeStory({
+      options,
+      accountId: contributions[0].accountId,
+      accountName: contributions.map((contribution) => contribution.label).join(", "),
+      title:
+        options.title ??
+        this.generateComparativeTitle(
+          contributions.length,
+          options.segmentLabel ?? null,
+          options.filterTopics,
+          effectiveSettings.topicLabels
+        ),
+      merged: {
+        markdown: sections.join("\n\n"),
+        includedCalls: merges.reduce((sum, merge) => sum + merge.includedCalls, 0),
+        truncated: merges.some((merge) => merge.truncated),
+      },
+      segments,
+      savedContext,
+      settings: effectiveSettings,
+      lintCompanyTerms: anonymize
+        ? contributing.map((id) => accountsById.get(id)!.name)
+        : [],
+      contributions,
+    });
+  }
+
+  /**
+   * Steps 3-5 and persistence, shared by single-account and comparative
+   * stories: narrative, quotes, claim verification, lint and lineage.
+   */
+  private async composeStory(input: ComposeStoryInput): Promise<StoryResult> {
+    const { options, segments, savedContext, title, contributions } = input;
+    const effectiveSettings = input.settings;
 
     // ── Step 3: Generate journey narrative from merged transcript ─────
     options.onProgress?.("GENERATING_NARRATIVE");
     const markdown = await this.generateNarrativeFromMerged(
-      account.name,
-      mergeResult.markdown,
-      mergeResult.includedCalls,
-      mergeResult.truncated,
+      input.accountName,
+      input.merged.markdown,
+      input.merged.includedCalls,
+      input.merged.truncated,
       segments,
       savedContext,
       effectiveSettings,
@@ -224,48 +541,121 @@ export class StoryBuilder {
     options.onProgress?.("EXTRACTING_QUOTES");
     const quotes = await this.extractQuotes(
       segments,
+      effectiveSettings.targetLanguage,
       options.aiClient,
       options.aiIdempotencyKey
     );
 
+    // ── Step 5: Verify claims against their source chunks ─────────────
+    options.onProgress?.("VERIFYING_CLAIMS");
+    const claimVerification = await verifyNarrativeClaims(markdown, segments, (requests) =>
+      this.judgeClaimEntailment(requests, options.aiClient, options.aiIdempotencyKey)
+    );
+    const quoteSources = quotes.map((q) => this.findQuoteSource(q, segments));
+    quotes.forEach((q, index) => {
+      q.verificationStatus = verifyQuoteAgainstSource(q.quoteText, quoteSources[index]?.chunkText);
+    });
+    const verificationSummary = summarizeClaimVerification(
+      [
+        ...claimVerification.claims.map((claim) => claim.status),
+        ...quotes.map((q) => q.verificationStatus ?? "UNSUPPORTED"),
+      ],
+      claimVerification.summary.method
+    );
+    claimVerification.summary = verificationSummary;
+    const verifiedAt = new Date(verificationSummary.verified_at);
+    // Stories are internal and keep the account name; anonymous pages are linted for it at edit time.
+    // Anonymous comparisons are the exception: their accounts are named only by label.
+    const lintFindings = lintStoryFields(
+      [{ field: "markdown", text: markdown }],
+      buildStoryLintRules(savedContext, input.lintCompanyTerms)
+    );
+    const templateCoverage = effectiveSettings.template
+      ? checkTemplateCoverage(markdown, effectiveSettings.template.definition, quotes)
+      : null;
+
+    if (options.dryRun) {
+      options.onProgress?.("DONE");
+      return {
+        storyId: null,
+        title,
+        markdownBody: markdown,
+        language: effectiveSettings.targetLanguage,
+        quotes,
+        claimVerification,
+        lintFindings,
+        templateCoverage,
+      };
+    }
+
     // ── Persist the story ────────────────────────────────────────────
     options.onProgress?.("SAVING_STORY");
-    const title =
-      options.title ?? this.generateTitle(account.name, options.filterTopics);
-
     const story = await this.prisma.story.create({
       data: {
         organizationId: options.organizationId,
-        accountId: options.accountId,
+        accountId: input.accountId,
+        scope: contributions ? "MULTI_ACCOUNT" : "SINGLE_ACCOUNT",
+        storyTemplateVersionId: effectiveSettings.template?.versionId ?? null,
         title,
         markdownBody: markdown,
         storyType: this.inferStoryType(options),
-        confidenceScore: this.computeStoryConfidence(segments, quotes),
+        language: effectiveSettings.targetLanguage,
+        confidenceScore: applyClaimSupportToConfidence(
+          this.computeStoryConfidence(segments, quotes),
+          verificationSummary.support_rate
+        ),
         lineageSummary: {
           calls_considered: new Set(segments.map((s) => s.callId)).size,
           segments_considered: segments.length,
           quote_count: quotes.length,
           model: this.model,
           generated_at: new Date().toISOString(),
+          verification: { ...verificationSummary },
+          ...(contributions
+            ? {
+                accounts: contributions.map((contribution) => ({
+                  account_id: contribution.accountId,
+                  label: contribution.label,
+                  calls_included: contribution.callsIncluded,
+                  calls_available: contribution.callsAvailable,
+                  segments_included: contribution.segmentsIncluded,
+                  words_included: contribution.wordsIncluded,
+                  truncated: contribution.truncated,
+                })),
+              }
+            : {}),
         },
         funnelStages: options.funnelStages ?? [],
         filterTags: [
           ...(options.filterTopics ?? []),
           `story_type:${effectiveSettings.storyType}`,
           `story_length:${effectiveSettings.storyLength}`,
-          `story_outline:${effectiveSettings.storyOutline}`,
+          effectiveSettings.template
+            ? `story_template:${effectiveSettings.template.templateId}`
+            : `story_outline:${effectiveSettings.storyOutline}`,
           ...(effectiveSettings.storyFormat ? [`story_format:${effectiveSettings.storyFormat}`] : []),
         ],
+        contributingAccounts: contributions
+          ? {
+              create: contributions.map((contribution, position) => ({
+                organizationId: options.organizationId,
+                accountId: contribution.accountId,
+                label: contribution.label,
+                position,
+                callsIncluded: contribution.callsIncluded,
+                callsAvailable: contribution.callsAvailable,
+                segmentsIncluded: contribution.segmentsIncluded,
+                wordsIncluded: contribution.wordsIncluded,
+                truncated: contribution.truncated,
+              })),
+            }
+          : undefined,
       },
     });
 
     // Persist quotes
-    for (const q of quotes) {
-      const sourceSegment =
-        segments.find((s) => s.chunkId === q.sourceChunkId) ??
-        segments.find((s) =>
-          s.chunkText.toLowerCase().includes(q.quoteText.slice(0, 24).toLowerCase())
-        );
+    for (const [index, q] of quotes.entries()) {
+      const sourceSegment = quoteSources[index];
       const quoteConfidence = this.computeQuoteConfidence(sourceSegment);
       const sourceCallId = sourceSegment?.callId ?? q.callId;
       const sourceChunkId = q.sourceChunkId ?? sourceSegment?.chunkId ?? null;
@@ -279,6 +669,8 @@ export class StoryBuilder {
           storyId: story.id,
           speaker: q.speaker,
           quoteText: q.quoteText,
+          language: q.language,
+          translation: q.translation,
           context: q.context,
           metricType: q.metricType,
           metricValue: q.metricValue,
@@ -307,8 +699,12 @@ export class StoryBuilder {
           sourceChunkId,
           sourceTimestampMs,
           confidenceScore: quoteConfidence,
+          verificationStatus: q.verificationStatus,
+          verifiedAt,
           metadata: {
             speaker: q.speaker,
+            language: q.language,
+            translation: q.translation,
             context: q.context,
             metric_type: q.metricType,
             metric_value: q.metricValue,
@@ -319,8 +715,40 @@ export class StoryBuilder {
       });
     }
 
+    if (claimVerification.claims.length > 0) {
+      await this.prisma.storyClaimLineage.createMany({
+        data: claimVerification.claims.map((claim) => ({
+          organizationId: options.organizationId,
+          storyId: story.id,
+          claimType: claim.claimType,
+          claimText: claim.text,
+          sourceCallId: claim.source?.callId ?? null,
+          sourceChunkId: claim.source?.chunkId ?? null,
+          sourceTimestampMs: claim.source?.startMs ?? null,
+          confidenceScore: CLAIM_STATUS_CONFIDENCE[claim.status],
+          verificationStatus: claim.status,
+          verifiedAt,
+          metadata: {
+            sentence_index: claim.sentenceIndex,
+            number_match: claim.numberMatch,
+            entailment: claim.entailment,
+            reason: claim.reason,
+          },
+        })),
+      });
+    }
+
     options.onProgress?.("DONE");
-    return { storyId: story.id, title, markdownBody: markdown, quotes };
+    return {
+      storyId: story.id,
+      title,
+      markdownBody: markdown,
+      language: effectiveSettings.targetLanguage,
+      quotes,
+      claimVerification,
+      lintFindings,
+      templateCoverage,
+    };
   }
 
   // ─── Step 1: Gather Segments ──────────────────────────────────────
@@ -377,6 +805,7 @@ export class StoryBuilder {
           startMs: chunk.startMs,
           chunkText: chunk.text,
           speaker: chunk.speaker,
+          language: call.transcript.language,
           tags: chunk.tags.map((t) => ({
             funnelStage: t.funnelStage,
             topic: t.topic,
@@ -409,7 +838,7 @@ export class StoryBuilder {
     aiIdempotencyKey?: string
   ): Promise<string> {
     // Build topic summary from tagged segments for additional context
-    const topicSummary = this.buildTopicSummary(segments);
+    const topicSummary = this.buildTopicSummary(segments, settings.topicLabels);
 
     const truncationNote = wasTruncated
       ? "\n\nNOTE: Some calls were excluded to fit within context limits. The included calls represent the most relevant portion of the account journey."
@@ -429,6 +858,7 @@ export class StoryBuilder {
           truncationNote,
           mergedMarkdown,
           settings,
+          sourceLanguages: this.collectSourceLanguages(segments),
         }),
       },
     ];
@@ -522,11 +952,14 @@ ${transcriptContext}`,
    * Builds a comma-separated summary of the most common topics found
    * across all tagged segments.
    */
-  private buildTopicSummary(segments: TranscriptSegment[]): string {
+  private buildTopicSummary(
+    segments: TranscriptSegment[],
+    topicLabels: Record<string, string>
+  ): string {
     const topicCounts = new Map<string, number>();
     for (const s of segments) {
       for (const t of s.tags) {
-        const label = TOPIC_LABELS[t.topic as TaxonomyTopic] ?? t.topic;
+        const label = topicLabels[t.topic] ?? t.topic;
         topicCounts.set(label, (topicCounts.get(label) ?? 0) + 1);
       }
     }
@@ -564,7 +997,19 @@ ${transcriptContext}`,
         ? `Never claim these unless explicit in transcript: ${context.bannedClaims.join(" | ")}`
         : null,
       context.approvedTerminology?.length
-        ? `Preferred Terminology: ${context.approvedTerminology.join(", ")}`
+        ? `Preferred Terminology: ${context.approvedTerminology
+            .map((entry) => {
+              const rule = parseTerminologyEntry(entry);
+              if (!rule) return null;
+              return rule.avoid.length > 0
+                ? `${rule.approved} (not ${rule.avoid.join(" / ")})`
+                : rule.approved;
+            })
+            .filter(Boolean)
+            .join(", ")}`
+        : null,
+      context.competitors?.length
+        ? `Do not name these competitors: ${context.competitors.join(", ")}`
         : null,
       context.writingStyleGuide
         ? `Writing Style Guide: ${context.writingStyleGuide}`
@@ -573,14 +1018,23 @@ ${transcriptContext}`,
       .filter(Boolean)
       .join("\n");
 
+    const template = settings.template?.definition;
+    const outlineLine = template
+      ? `- Outline Template: ${settings.template!.name}. ${storyTemplateGuide(template)}`
+      : `- Outline Template: ${settings.storyOutline} (${storyOutlineGuide(settings.storyOutline)})`;
+    const templateInstructions = template?.promptBlock
+      ? `\nTemplate Instructions:\n${template.promptBlock}\n`
+      : "";
+
     return `${JOURNEY_SUMMARY_PROMPT}
 
 Output controls:
-- Story Type Focus: ${storyTypeLabel(settings.storyType)}
+- Story Type Focus: ${storyTypeLabel(settings.storyType, settings.topicLabels)}
 - Target Length: ${settings.storyLength} (${storyLengthWordTarget(settings.storyLength)})
-- Outline Template: ${settings.storyOutline} (${storyOutlineGuide(settings.storyOutline)})
-- Format Angle: ${settings.storyFormat ?? "auto"}
-
+${outlineLine}
+- Format Angle: ${settings.storyFormat ?? "auto"}${template?.audience ? `\n- Audience: ${template.audience}` : ""}
+- Output Language: ${LANGUAGE_NAMES[settings.targetLanguage]}
+${templateInstructions}
 ${contextLines ? `Organization Instructions:\n${contextLines}` : "No additional organization instructions provided."}
 `;
   }
@@ -592,20 +1046,49 @@ ${contextLines ? `Organization Instructions:\n${contextLines}` : "No additional
     truncationNote: string;
     mergedMarkdown: string;
     settings: EffectiveStoryGenerationSettings;
+    sourceLanguages: SupportedLanguage[];
   }): string {
-    return `Account Name: ${input.accountName}
+    const targetName = LANGUAGE_NAMES[input.settings.targetLanguage];
+    const foreignSources = input.sourceLanguages.filter(
+      (language) => language !== input.settings.targetLanguage
+    );
+    const languageInstructions = [
+      `- Write the entire story in ${targetName}, including headings.`,
+      foreignSources.length > 0
+        ? `- Some transcripts are in ${foreignSources.map((language) => LANGUAGE_NAMES[language]).join(", ")}. When quoting them, keep the speaker's original words in quotation marks followed by a ${targetName} translation in parentheses.`
+        : null,
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    const comparedAccounts = input.settings.comparedAccounts ?? [];
+    const subject =
+      comparedAccounts.length > 0
+        ? `Accounts Compared: ${comparedAccounts.join("; ")}`
+        : `Account Name: ${input.accountName}`;
+    const comparisonInstructions =
+      comparedAccounts.length > 0
+        ? "\n- The transcript has one top-level section per account. Compare them: what they had in common and where their challenges and results differed.\n- Attribute every fact and quote to its account, referring to accounts only by the names given above."
+        : "";
+
+    return `${subject}
 Number of calls: ${input.callCount}
-Requested Story Type: ${storyTypeLabel(input.settings.storyType)}
+Requested Story Type: ${storyTypeLabel(input.settings.storyType, input.settings.topicLabels)}
 Requested Length: ${input.settings.storyLength}
-Requested Outline: ${input.settings.storyOutline}
+Requested Outline: ${input.settings.template?.name ?? input.settings.storyOutline}
 Requested Format: ${input.settings.storyFormat ?? "auto"}
 ${input.topicSummary ? `\nKey Topics Identified: ${input.topicSummary}\n` : ""}${input.truncationNote}
 
 Instructions:
 - Center the narrative around the requested story type.
 - Use only transcript evidence for claims.
-- Surface explicit metrics in a dedicated outcomes section.
-- Include practical implications for RevOps, Marketing, and Sales.
+${
+  input.settings.template
+    ? "- Write the template's sections in order. Fill each section's quote and metric slots from transcript evidence only; when the evidence is missing, say so instead of inventing it."
+    : "- Surface explicit metrics in a dedicated outcomes section."
+}
+- Include practical implications for RevOps, Marketing, and Sales.${comparisonInstructions}
+${languageInstructions}
 
 FULL MERGED TRANSCRIPT:
 ${input.mergedMarkdown}`;
@@ -615,6 +1098,7 @@ ${input.mergedMarkdown}`;
 
   private async extractQuotes(
     segments: TranscriptSegment[],
+    targetLanguage: SupportedLanguage,
     aiClient?: AIClient,
     aiIdempotencyKey?: string
   ): Promise<ExtractedQuote[]> {
@@ -648,7 +1132,7 @@ ${input.mergedMarkdown}`;
       { role: "system" as const, content: QUOTE_EXTRACTION_PROMPT },
       {
         role: "user" as const,
-        content: `Extract high-value quotes with quantified metrics from these transcript segments:\n\n${transcriptText}`,
+        content: `Story language: ${LANGUAGE_NAMES[targetLanguage]} (${targetLanguage})\n\nExtract high-value quotes with quantified metrics from these transcript segments:\n\n${transcriptText}`,
       },
     ];
 
@@ -680,6 +1164,8 @@ ${input.mergedMarkdown}`;
       const rawQuotes: Array<{
         speaker?: string;
         quote_text: string;
+        language?: string;
+        translation?: string | null;
         context?: string;
         metric_type?: string;
         metric_value?: string;
@@ -691,9 +1177,16 @@ ${input.mergedMarkdown}`;
           s.chunkText.includes(q.quote_text.slice(0, 50))
         );
         const selectedSegment = matchingSegment ?? targetSegments[0];
+        const language =
+          normalizeLanguageCode(q.language) ?? normalizeLanguageCode(selectedSegment.language);
         return {
           speaker: q.speaker ?? null,
           quoteText: q.quote_text,
+          language,
+          translation:
+            language !== targetLanguage && typeof q.translation === "string" && q.translation.trim()
+              ? q.translation.trim()
+              : null,
           context: q.context ?? null,
           metricType: q.metric_type ?? null,
           metricValue: q.metric_value ?? null,
@@ -709,21 +1202,124 @@ ${input.mergedMarkdown}`;
     }
   }
 
+  // ─── Step 4: Verify Claims ────────────────────────────────────────
+
+  /**
+   * Runs the entailment prompt for a batch of claims. Callers treat a
+   * thrown error or an empty answer as "no verdict".
+   */
+  private async judgeClaimEntailment(
+    requests: EntailmentRequest[],
+    aiClient?: AIClient,
+    aiIdempotencyKey?: string
+  ): Promise<EntailmentResult[]> {
+    const messages = buildEntailmentMessages(requests);
+    const content = aiClient
+      ? (
+          await aiClient.chatCompletion({
+            messages,
+            temperature: CLAIM_VERIFICATION_RUNTIME_POLICY.temperature,
+            maxTokens: CLAIM_VERIFICATION_RUNTIME_POLICY.maxTokens,
+            jsonMode: true,
+            idempotencyKey: aiIdempotencyKey
+              ? `${aiIdempotencyKey}:claims`
+              : undefined,
+          })
+        ).content
+      : (
+          await this.openai.chat.completions.create({
+            model: this.model,
+            temperature: CLAIM_VERIFICATION_RUNTIME_POLICY.temperature,
+            max_tokens: CLAIM_VERIFICATION_RUNTIME_POLICY.maxTokens,
+            response_format: { type: "json_object" },
+            messages,
+          })
+        ).choices[0]?.message?.content;
+    return parseEntailmentResponse(content);
+  }
+
+  private findQuoteSource(
+    quote: ExtractedQuote,
+    segments: TranscriptSegment[]
+  ): TranscriptSegment | undefined {
+    return (
+      segments.find((s) => s.chunkId === quote.sourceChunkId) ??
+      segments.find((s) =>
+        s.chunkText.toLowerCase().includes(quote.quoteText.slice(0, 24).toLowerCase())
+      )
+    );
+  }
+
   // ─── Helpers ──────────────────────────────────────────────────────
 
+  private collectSourceLanguages(segments: TranscriptSegment[]): SupportedLanguage[] {
+    const languages = new Set<SupportedLanguage>();
+    for (const segment of segments) {
+      languages.add(normalizeLanguageCode(segment.language) ?? DEFAULT_LANGUAGE);
+    }
+    return Array.from(languages);
+  }
+
+  /**
+   * Built-in labels, plus the org's custom topic labels when any of `keys`
+   * is a custom topic.
+   */
+  private async resolveTopicLabels(
+    organizationId: string,
+    keys: string[]
+  ): Promise<Record<string, string>> {
+    if (!keys.some((key) => isCustomTopicKey(key))) {
+      return TOPIC_LABELS;
+    }
+    return buildTopicLabels(await loadCustomTopics(this.prisma, organizationId));
+  }
+
   private generateTitle(
     accountName: string,
-    topics?: TaxonomyTopic[]
+    topics: TopicKey[] | undefined,
+    topicLabels: Record<string, string>
   ): string {
     if (!topics || topics.length === 0) {
       return `${accountName}: Account Journey`;
     }
-    const topicLabel = TOPIC_LABELS[topics[0]] ?? topics[0];
+    const topicLabel = topicLabels[topics[0]] ?? topics[0];
     return `${accountName}: ${topicLabel} Story`;
   }
 
+  private generateComparativeTitle(
+    accountCount: number,
+    segmentLabel: string | null,
+    topics: TopicKey[] | undefined,
+    topicLabels: Record<string, string>
+  ): string {
+    const subject =
+      topics && topics.length > 0
+        ? `${topicLabels[topics[0]] ?? topics[0]} Across ${accountCount} Customers`
+        : `Customer Journeys Compared Across ${accountCount} Customers`;
+    return segmentLabel ? `${segmentLabel}: ${subject}` : subject;
+  }
+
+  private resolveEffectiveSettings(
+    options: Omit<StoryBuilderOptions, "accountId">,
+    savedDefaults: StoryPromptDefaults
+  ): EffectiveStoryGenerationSettings {
+    return {
+      storyLength:
+        options.storyLength ??
+        options.template?.definition.storyLength ??
+        savedDefaults.storyLength ??
+        "MEDIUM",
+      storyOutline: options.storyOutline ?? savedDefaults.storyOutline ?? "CHRONOLOGICAL_JOURNEY",
+      storyType: options.storyType ?? savedDefaults.storyType ?? "FULL_ACCOUNT_JOURNEY",
+      storyFormat: options.format ?? savedDefaults.storyFormat,
+      template: options.template,
+      targetLanguage: options.targetLanguage ?? DEFAULT_LANGUAGE,
+      topicLabels: TOPIC_LABELS,
+    };
+  }
+
   private inferStoryType(
-    options: StoryBuilderOptions
+    options: Pick<StoryBuilderOptions, "storyType" | "filterTopics">
   ): "FULL_JOURNEY" | "ONBOARDING" | "ROI_ANALYSIS" | "COMPETITIVE_WIN" | "EXPANSION" | "CUSTOM" {
     const explicitType = options.storyType;
     if (explicitType === "FULL_ACCOUNT_JOURNEY") return "FULL_JOURNEY";
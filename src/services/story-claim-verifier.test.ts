@@ -0,0 +1,154 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  extractNarrativeClaims,
+  matchClaimNumbers,
+  parseEntailmentResponse,
+  resolveClaimStatus,
+  verifyNarrativeClaims,
+  verifyQuoteAgainstSource,
+  type ClaimSourceSegment,
+} from "./story-claim-verifier.js";
+
+const segments: ClaimSourceSegment[] = [
+  {
+    callId: "call-1",
+    chunkId: "chunk-ramp",
+    startMs: 12_000,
+    chunkText: "We cut onboarding for new reps from 90 days to 45, and they now close 20% more pipeline.",
+  },
+  {
+    callId: "call-2",
+    chunkId: "chunk-live",
+    startMs: null,
+    chunkText: "Honestly we were live in eleven days, when the plan said a quarter.",
+  },
+];
+
+const story = [
+  "# Acme: Account Journey",
+  "",
+  "## Outcomes",
+  "",
+  "Acme cut rep onboarding from **90 days to 45**. Ramped reps now close 35% more pipeline.",
+  "",
+  "- The team went live in 11 days.",
+  "- Acme plans to expand the rollout to every European office next year.",
+  "",
+  "> \"We cut onboarding for new reps from 90 days to 45\"",
+  "",
+  "| Metric | Before | After |",
+  "| --- | --- | --- |",
+  "| Onboarding | 90 days | 45 days |",
+].join("\n");
+
+describe("extractNarrativeClaims", () => {
+  it("pulls numeric and factual sentences from paragraphs, lists and tables", () => {
+    // Headings, the block quote and the table header are not claims.
+    const claims = extractNarrativeClaims(story);
+
+    expect(claims.map((claim) => [claim.claimType, claim.text])).toEqual([
+      ["METRIC", "Acme cut rep onboarding from 90 days to 45."],
+      ["METRIC", "Ramped reps now close 35% more pipeline."],
+      ["METRIC", "The team went live in 11 days."],
+      ["FACT", "Acme plans to expand the rollout to every European office next year."],
+      ["METRIC", "Onboarding | 90 days | 45 days"],
+    ]);
+  });
+});
+
+describe("matchClaimNumbers", () => {
+  it("reads spelled-out numbers in the source only", () => {
+    expect(matchClaimNumbers("Live in 11 days.", segments[1].chunkText)).toBe("ALL");
+    expect(matchClaimNumbers("From 90 days to 30.", segments[0].chunkText)).toBe("SOME");
+    expect(matchClaimNumbers("A 2.5 million dollar saving.", "It saved $2,500,000.")).toBe("ALL");
+    expect(matchClaimNumbers("Teams adopted it quickly.", segments[0].chunkText)).toBe("NO_NUMBERS");
+  });
+});
+
+describe("resolveClaimStatus", () => {
+  it("never supports a claim the model rejects or whose numbers are missing", () => {
+    expect(resolveClaimStatus("ALL", "NOT_ENTAILED")).toBe("UNSUPPORTED");
+    expect(resolveClaimStatus("NONE", null)).toBe("UNSUPPORTED");
+    expect(resolveClaimStatus("NONE", "ENTAILED")).toBe("WEAK");
+    expect(resolveClaimStatus("ALL", "PARTIAL")).toBe("WEAK");
+    expect(resolveClaimStatus("NO_NUMBERS", "ENTAILED")).toBe("SUPPORTED");
+    expect(resolveClaimStatus("NO_NUMBERS", null)).toBe("WEAK");
+    expect(resolveClaimStatus("ALL", null)).toBe("SUPPORTED");
+  });
+});
+
+describe("verifyNarrativeClaims", () => {
+  it("pairs claims with their best source chunk and applies the model's verdicts", async () => {
+    const judge = vi.fn(async (requests: Array<{ id: number; claim: string; excerpt: string }>) =>
+      requests.map((request) => ({
+        id: request.id,
+        verdict: request.claim.includes("35%") ? ("NOT_ENTAILED" as const) : ("ENTAILED" as const),
+        reason: null,
+      }))
+    );
+
+    const result = await verifyNarrativeClaims(story, segments, judge);
+    const byText = new Map(result.claims.map((claim) => [claim.text, claim]));
+
+    expect(byText.get("Acme cut rep onboarding from 90 days to 45.")).toMatchObject({
+      status: "SUPPORTED",
+      source: { chunkId: "chunk-ramp" },
+    });
+    expect(byText.get("Ramped reps now close 35% more pipeline.")).toMatchObject({
+      status: "UNSUPPORTED",
+      numberMatch: "NONE",
+      entailment: "NOT_ENTAILED",
+    });
+    expect(byText.get("The team went live in 11 days.")).toMatchObject({
+      status: "SUPPORTED",
+      source: { chunkId: "chunk-live" },
+    });
+    expect(byText.get("Acme plans to expand the rollout to every European office next year.")).toMatchObject({
+      status: "UNSUPPORTED",
+      source: null,
+    });
+    // Claims without a source are never sent to the model.
+    expect(judge.mock.calls[0][0]).toHaveLength(result.claims.length - 1);
+    expect(result.summary).toMatchObject({
+      method: "model",
+      unsupported: 2,
+      claims_checked: result.claims.length,
+    });
+  });
+
+  it("falls back to number matching when the entailment call fails", async () => {
+    const result = await verifyNarrativeClaims(story, segments, async () => {
+      throw new Error("provider down");
+    });
+
+    expect(result.summary.method).toBe("numbers_only");
+    expect(result.claims.find((claim) => claim.text.includes("35%"))?.status).toBe("UNSUPPORTED");
+    expect(result.claims.find((claim) => claim.text.includes("11 days"))?.status).toBe("SUPPORTED");
+  });
+});
+
+describe("parseEntailmentResponse", () => {
+  it("drops malformed verdicts", () => {
+    expect(
+      parseEntailmentResponse(
+        '{"verdicts":[{"id":0,"verdict":"entailed","reason":"Stated."},{"id":"1","verdict":"PARTIAL"},{"id":2,"verdict":"MAYBE"}]}'
+      )
+    ).toEqual([{ id: 0, verdict: "ENTAILED", reason: "Stated." }]);
+    expect(parseEntailmentResponse("not json")).toEqual([]);
+  });
+});
+
+describe("verifyQuoteAgainstSource", () => {
+  it("supports verbatim quotes and flags quotes missing from their chunk", () => {
+    expect(
+      verifyQuoteAgainstSource("we cut onboarding for new reps from 90 days to 45", segments[0].chunkText)
+    ).toBe("SUPPORTED");
+    expect(
+      verifyQuoteAgainstSource("We cut onboarding for new reps from 90 days to 60", segments[0].chunkText)
+    ).toBe("WEAK");
+    expect(verifyQuoteAgainstSource("Revenue doubled in a year", segments[0].chunkText)).toBe(
+      "UNSUPPORTED"
+    );
+    expect(verifyQuoteAgainstSource("Anything", null)).toBe("UNSUPPORTED");
+  });
+});
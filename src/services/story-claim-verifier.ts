@@ -0,0 +1,477 @@
+/**
+ * Story Claim Verifier
+ *
+ * Checks a generated story against the transcript chunks it was written
+ * from. Numeric and factual sentences are pulled out of the narrative,
+ * paired with the chunk that best matches them, and judged two ways: the
+ * numbers in the sentence must appear in the chunk, and an entailment
+ * prompt decides whether the chunk actually says what the sentence claims.
+ *
+ * Quotes are checked without a model call: a quote is supported when its
+ * wording appears in the chunk it was attributed to.
+ */
+
+import type { ClaimVerificationStatus } from "@prisma/client";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type NarrativeClaimType = "METRIC" | "FACT";
+
+export type NumberMatch = "ALL" | "SOME" | "NONE" | "NO_NUMBERS";
+
+export type EntailmentVerdict = "ENTAILED" | "PARTIAL" | "NOT_ENTAILED";
+
+export interface ClaimSourceSegment {
+  callId: string;
+  chunkId: string;
+  startMs: number | null;
+  chunkText: string;
+}
+
+export interface NarrativeClaim {
+  claimType: NarrativeClaimType;
+  /** The sentence as it reads in the story, with inline markdown stripped. */
+  text: string;
+  /** Position of the sentence among the story's sentences. */
+  sentenceIndex: number;
+}
+
+export interface VerifiedClaim extends NarrativeClaim {
+  status: ClaimVerificationStatus;
+  numberMatch: NumberMatch;
+  entailment: EntailmentVerdict | null;
+  reason: string | null;
+  source: ClaimSourceSegment | null;
+}
+
+export interface EntailmentRequest {
+  id: number;
+  claim: string;
+  excerpt: string;
+}
+
+export interface EntailmentResult {
+  id: number;
+  verdict: EntailmentVerdict;
+  reason: string | null;
+}
+
+/** Asks a model to judge claims against excerpts; see buildEntailmentMessages. */
+export type EntailmentJudge = (requests: EntailmentRequest[]) => Promise<EntailmentResult[]>;
+
+export interface ClaimVerificationSummary {
+  claims_checked: number;
+  supported: number;
+  weak: number;
+  unsupported: number;
+  support_rate: number;
+  /** "model" when the entailment prompt answered, otherwise number matching alone decided. */
+  method: "model" | "numbers_only";
+  verified_at: string;
+}
+
+export interface StoryClaimVerification {
+  claims: VerifiedClaim[];
+  summary: ClaimVerificationSummary;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Upper bound on sentences sent to the entailment prompt per story. */
+export const MAX_VERIFIED_CLAIMS = 40;
+
+const MIN_FACT_WORDS = 6;
+const MIN_METRIC_WORDS = 3;
+const MAX_EXCERPT_CHARS = 1500;
+const WEAK_CLAIM_WEIGHT = 0.5;
+const QUOTE_OVERLAP_WEAK = 0.6;
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+  eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, thirteen: 13,
+  fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18,
+  nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60,
+  seventy: 70, eighty: 80, ninety: 90, hundred: 100, dozen: 12,
+};
+
+const SCALE_SUFFIXES: Record<string, number> = {
+  k: 1_000,
+  thousand: 1_000,
+  m: 1_000_000,
+  mm: 1_000_000,
+  million: 1_000_000,
+  b: 1_000_000_000,
+  bn: 1_000_000_000,
+  billion: 1_000_000_000,
+};
+
+const NUMBER_PATTERN =
+  /(\d[\d,]*(?:\.\d+)?)(?:\s*(k|mm|m|bn|b|thousand|million|billion)\b)?/gi;
+
+export const ENTAILMENT_SYSTEM_PROMPT = `You check customer story claims against the transcript excerpt each claim was written from.
+
+For every claim, answer:
+- "ENTAILED" when the excerpt states the claim, including every number in it.
+- "PARTIAL" when the excerpt supports only part of the claim, or the claim needs an inference the excerpt does not make explicit.
+- "NOT_ENTAILED" when the excerpt does not support the claim or contradicts it.
+
+Judge only against the excerpt, never against outside knowledge. Excerpts may be in a different language from the claim.
+Respond with JSON: { "verdicts": [{ "id": <claim id>, "verdict": "ENTAILED" | "PARTIAL" | "NOT_ENTAILED", "reason": "<one short sentence>" }] }`;
+
+// ─── Claim Extraction ────────────────────────────────────────────────────────
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(\*|_)(.+?)\1/g, "$2")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Splits a narrative block into sentences. Decimal points and
+ * abbreviations without a following capital are left alone.
+ */
+export function splitSentences(block: string): string[] {
+  return block
+    .split(/(?<=[.!?。！？])\s+(?=["“'(\p{Lu}\p{N}])/u)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+/**
+ * Narrative blocks of a markdown story: paragraphs, list items and table
+ * rows. Headings, block quotes (verified as quotes) and table rules are
+ * skipped.
+ */
+function narrativeBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push(paragraph.join(" "));
+      paragraph = [];
+    }
+  };
+
+  for (const rawLine of markdown.split("\n")) {
+    const line = rawLine.trim();
+    if (line.length === 0 || line.startsWith("#") || line.startsWith(">") || /^[-*_]{3,}$/.test(line)) {
+      flush();
+      continue;
+    }
+    if (line.startsWith("|")) {
+      flush();
+      if (!/^\|[\s:|-]+\|?$/.test(line)) {
+        blocks.push(
+          line
+            .split("|")
+            .map((cell) => cell.trim())
+            .filter(Boolean)
+            .join(" | ")
+        );
+      }
+      continue;
+    }
+    const listItem = line.match(/^(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (listItem) {
+      flush();
+      blocks.push(listItem[1]);
+      continue;
+    }
+    paragraph.push(line);
+  }
+  flush();
+  return blocks;
+}
+
+/**
+ * Sentences of the story worth verifying. Sentences with a number are
+ * METRIC claims; other sentences long enough to state a fact are FACT
+ * claims. METRIC claims are kept first when the story has more than
+ * MAX_VERIFIED_CLAIMS candidates.
+ */
+export function extractNarrativeClaims(markdown: string): NarrativeClaim[] {
+  const claims: NarrativeClaim[] = [];
+  let sentenceIndex = 0;
+
+  for (const block of narrativeBlocks(markdown)) {
+    for (const text of splitSentences(stripInlineMarkdown(block))) {
+      const words = wordCount(text);
+      const hasNumber = extractNumbers(text).length > 0;
+      if (hasNumber && words >= MIN_METRIC_WORDS) {
+        claims.push({ claimType: "METRIC", text, sentenceIndex });
+      } else if (!hasNumber && words >= MIN_FACT_WORDS) {
+        claims.push({ claimType: "FACT", text, sentenceIndex });
+      }
+      sentenceIndex += 1;
+    }
+  }
+
+  if (claims.length <= MAX_VERIFIED_CLAIMS) {
+    return claims;
+  }
+  const metrics = claims.filter((claim) => claim.claimType === "METRIC");
+  const facts = claims.filter((claim) => claim.claimType === "FACT");
+  return [...metrics, ...facts]
+    .slice(0, MAX_VERIFIED_CLAIMS)
+    .sort((a, b) => a.sentenceIndex - b.sentenceIndex);
+}
+
+// ─── Number Matching ─────────────────────────────────────────────────────────
+
+/**
+ * Numeric values mentioned in a text, with thousands separators removed and
+ * scale words applied ("2.5 million", "$40k"). With `includeWords`, small
+ * number words count too ("eleven days"); transcripts spell numbers out far
+ * more often than generated stories do.
+ */
+export function extractNumbers(text: string, includeWords = false): number[] {
+  const values: number[] = [];
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    const base = Number(match[1].replace(/,/g, ""));
+    if (!Number.isFinite(base)) continue;
+    const scale = match[2] ? SCALE_SUFFIXES[match[2].toLowerCase()] ?? 1 : 1;
+    values.push(base * scale);
+  }
+  if (!includeWords) {
+    return values;
+  }
+  for (const word of text.toLowerCase().match(/\p{L}+/gu) ?? []) {
+    const value = NUMBER_WORDS[word];
+    if (value !== undefined) {
+      values.push(value);
+    }
+  }
+  return values;
+}
+
+function sameNumber(a: number, b: number): boolean {
+  if (a === b) return true;
+  return Math.abs(a - b) <= Math.max(Math.abs(a), Math.abs(b)) * 0.005;
+}
+
+export function matchClaimNumbers(claim: string, source: string): NumberMatch {
+  const claimNumbers = extractNumbers(claim);
+  if (claimNumbers.length === 0) {
+    return "NO_NUMBERS";
+  }
+  const sourceNumbers = extractNumbers(source, true);
+  const found = claimNumbers.filter((value) =>
+    sourceNumbers.some((candidate) => sameNumber(value, candidate))
+  ).length;
+  if (found === claimNumbers.length) return "ALL";
+  return found > 0 ? "SOME" : "NONE";
+}
+
+// ─── Source Matching ─────────────────────────────────────────────────────────
+
+function contentTokens(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((token) => token.length > 3)
+  );
+}
+
+function tokenOverlap(claimTokens: Set<string>, source: string): number {
+  if (claimTokens.size === 0) return 0;
+  const sourceTokens = contentTokens(source);
+  let shared = 0;
+  for (const token of claimTokens) {
+    if (sourceTokens.has(token)) shared += 1;
+  }
+  return shared / claimTokens.size;
+}
+
+/**
+ * The segment a claim was most likely written from: shared numbers weigh
+ * most, then shared content words. Null when nothing overlaps at all.
+ */
+export function findClaimSource(
+  claim: string,
+  segments: ClaimSourceSegment[]
+): ClaimSourceSegment | null {
+  const claimTokens = contentTokens(claim);
+  const claimNumbers = extractNumbers(claim);
+  let best: ClaimSourceSegment | null = null;
+  let bestScore = 0;
+
+  for (const segment of segments) {
+    const sourceNumbers = extractNumbers(segment.chunkText, true);
+    const numberHits = claimNumbers.filter((value) =>
+      sourceNumbers.some((candidate) => sameNumber(value, candidate))
+    ).length;
+    const score = numberHits + tokenOverlap(claimTokens, segment.chunkText) * 2;
+    if (score > bestScore) {
+      best = segment;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// ─── Entailment ──────────────────────────────────────────────────────────────
+
+export function buildEntailmentMessages(requests: EntailmentRequest[]) {
+  const body = requests
+    .map(
+      (request) =>
+        `Claim ${request.id}: ${request.claim}\nExcerpt ${request.id}: """${request.excerpt.slice(0, MAX_EXCERPT_CHARS)}"""`
+    )
+    .join("\n\n");
+  return [
+    { role: "system" as const, content: ENTAILMENT_SYSTEM_PROMPT },
+    { role: "user" as const, content: `Judge each claim against its excerpt.\n\n${body}` },
+  ];
+}
+
+const VERDICTS = new Set<EntailmentVerdict>(["ENTAILED", "PARTIAL", "NOT_ENTAILED"]);
+
+/** Reads the entailment prompt's JSON answer, dropping malformed verdicts. */
+export function parseEntailmentResponse(content: string | null | undefined): EntailmentResult[] {
+  if (!content) return [];
+  try {
+    const parsed = JSON.parse(content) as { verdicts?: unknown };
+    if (!Array.isArray(parsed.verdicts)) return [];
+    const results: EntailmentResult[] = [];
+    for (const raw of parsed.verdicts as Array<Record<string, unknown>>) {
+      const verdict = typeof raw?.verdict === "string" ? raw.verdict.toUpperCase() : "";
+      if (typeof raw?.id !== "number" || !VERDICTS.has(verdict as EntailmentVerdict)) continue;
+      results.push({
+        id: raw.id,
+        verdict: verdict as EntailmentVerdict,
+        reason: typeof raw.reason === "string" ? raw.reason : null,
+      });
+    }
+    return results;
+  } catch {
+    return [];
+  }
+}
+
+// ─── Verification ────────────────────────────────────────────────────────────
+
+/**
+ * Combines number matching and the entailment verdict. A contradicting
+ * verdict or a number missing from the source is never SUPPORTED; when the
+ * model gave no verdict, only a claim whose numbers all appear in the
+ * source is.
+ */
+export function resolveClaimStatus(
+  numberMatch: NumberMatch,
+  entailment: EntailmentVerdict | null
+): ClaimVerificationStatus {
+  if (entailment === "NOT_ENTAILED") return "UNSUPPORTED";
+  if (numberMatch === "NONE") return entailment === "ENTAILED" ? "WEAK" : "UNSUPPORTED";
+  if (entailment === "PARTIAL" || numberMatch === "SOME") return "WEAK";
+  if (entailment === "ENTAILED") return "SUPPORTED";
+  return numberMatch === "ALL" ? "SUPPORTED" : "WEAK";
+}
+
+/**
+ * Verifies a story's narrative sentences against the transcript segments
+ * it was generated from. A failing or malformed entailment answer falls
+ * back to number matching so story generation never fails on this step.
+ */
+export async function verifyNarrativeClaims(
+  markdown: string,
+  segments: ClaimSourceSegment[],
+  judge?: EntailmentJudge
+): Promise<StoryClaimVerification> {
+  const candidates = extractNarrativeClaims(markdown).map((claim) => {
+    const source = findClaimSource(claim.text, segments);
+    return {
+      claim,
+      source,
+      numberMatch: source ? matchClaimNumbers(claim.text, source.chunkText) : ("NONE" as const),
+    };
+  });
+
+  const verdicts = new Map<number, EntailmentResult>();
+  const requests = candidates.flatMap((candidate, id) =>
+    candidate.source ? [{ id, claim: candidate.claim.text, excerpt: candidate.source.chunkText }] : []
+  );
+  if (judge && requests.length > 0) {
+    try {
+      for (const result of await judge(requests)) {
+        verdicts.set(result.id, result);
+      }
+    } catch {
+      verdicts.clear();
+    }
+  }
+
+  const claims: VerifiedClaim[] = candidates.map(({ claim, source, numberMatch }, id) => {
+    const verdict = verdicts.get(id) ?? null;
+    return {
+      ...claim,
+      source,
+      numberMatch,
+      entailment: verdict?.verdict ?? null,
+      reason: verdict?.reason ?? null,
+      status: source ? resolveClaimStatus(numberMatch, verdict?.verdict ?? null) : "UNSUPPORTED",
+    };
+  });
+
+  return {
+    claims,
+    summary: summarizeClaimVerification(
+      claims.map((claim) => claim.status),
+      verdicts.size > 0 ? "model" : "numbers_only"
+    ),
+  };
+}
+
+/**
+ * A quote is SUPPORTED when its wording appears in its source chunk and
+ * WEAK when most of its words do (trimmed filler, light paraphrase).
+ */
+export function verifyQuoteAgainstSource(
+  quoteText: string,
+  sourceText: string | null | undefined
+): ClaimVerificationStatus {
+  if (!sourceText) return "UNSUPPORTED";
+  const normalize = (text: string) =>
+    (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).join(" ");
+  if (normalize(sourceText).includes(normalize(quoteText))) {
+    return "SUPPORTED";
+  }
+  return tokenOverlap(contentTokens(quoteText), sourceText) >= QUOTE_OVERLAP_WEAK &&
+    matchClaimNumbers(quoteText, sourceText) !== "NONE"
+    ? "WEAK"
+    : "UNSUPPORTED";
+}
+
+export function summarizeClaimVerification(
+  statuses: ClaimVerificationStatus[],
+  method: ClaimVerificationSummary["method"]
+): ClaimVerificationSummary {
+  const supported = statuses.filter((status) => status === "SUPPORTED").length;
+  const weak = statuses.filter((status) => status === "WEAK").length;
+  const unsupported = statuses.length - supported - weak;
+  const supportRate =
+    statuses.length > 0 ? (supported + weak * WEAK_CLAIM_WEIGHT) / statuses.length : 1;
+  return {
+    claims_checked: statuses.length,
+    supported,
+    weak,
+    unsupported,
+    support_rate: Math.round(supportRate * 1000) / 1000,
+    method,
+    verified_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Scales a story's evidence-based confidence by how well its claims held
+ * up: a story with no supported claims keeps 40% of its confidence.
+ */
+export function applyClaimSupportToConfidence(confidence: number, supportRate: number): number {
+  return Math.max(0, Math.min(1, confidence * (0.4 + 0.6 * supportRate)));
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildEmbedContentSecurityPolicy,
+  generateEmbedKey,
+  isEmbedOriginAllowed,
+  isValidEmbedKey,
+  normalizeEmbedOrigin,
+  parseEmbedTargetUrl,
+  resolveEmbedSize,
+} from "./story-embed-helpers.js";
+
+const BASE_URL = "https://app.storyengine.test";
+
+describe("normalizeEmbedOrigin", () => {
+  it("reduces admin input to a bare origin", () => {
+    expect(normalizeEmbedOrigin(" https://www.Example.com/ ")).toBe("https://www.example.com");
+    expect(normalizeEmbedOrigin("http://localhost:8080")).toBe("http://localhost:8080");
+  });
+
+  it("rejects paths, credentials, wildcards and other schemes", () => {
+    for (const value of [
+      "https://example.com/blog",
+      "https://example.com?a=1",
+      "https://user:pw@example.com",
+      "https://*.example.com",
+      "javascript:alert(1)",
+      "example.com",
+      "",
+    ]) {
+      expect(normalizeEmbedOrigin(value), value).toBeNull();
+    }
+  });
+
+  it("matches request origins against the allowed list", () => {
+    const allowed = ["https://www.example.com"];
+    expect(isEmbedOriginAllowed("https://www.example.com", allowed)).toBe(true);
+    expect(isEmbedOriginAllowed("https://evil.example.net", allowed)).toBe(false);
+    expect(isEmbedOriginAllowed(undefined, allowed)).toBe(false);
+  });
+});
+
+describe("buildEmbedContentSecurityPolicy", () => {
+  it("limits framing to the allowed origins", () => {
+    expect(buildEmbedContentSecurityPolicy(["https://a.example.com", "https://b.example.com"])).toContain(
+      "frame-ancestors https://a.example.com https://b.example.com"
+    );
+    expect(buildEmbedContentSecurityPolicy([])).toContain("frame-ancestors 'none'");
+    expect(buildEmbedContentSecurityPolicy(null)).toContain("frame-ancestors *");
+  });
+});
+
+describe("parseEmbedTargetUrl", () => {
+  it("resolves public pages, page embeds and quote widgets on this host", () => {
+    const key = generateEmbedKey();
+    expect(isValidEmbedKey(key)).toBe(true);
+
+    expect(parseEmbedTargetUrl(`${BASE_URL}/s/onboarding-win-1a2b3c4d`, BASE_URL)).toEqual({
+      kind: "page",
+      slug: "onboarding-win-1a2b3c4d",
+    });
+    expect(parseEmbedTargetUrl(`${BASE_URL}/embed/pages/onboarding-win-1a2b3c4d?x=1`, BASE_URL)).toEqual({
+      kind: "page",
+      slug: "onboarding-win-1a2b3c4d",
+    });
+    expect(parseEmbedTargetUrl(`${BASE_URL}/embed/quotes/${key}`, BASE_URL)).toEqual({
+      kind: "quotes",
+      embedKey: key,
+    });
+  });
+
+  it("rejects other hosts and unknown paths", () => {
+    expect(parseEmbedTargetUrl("https://other.test/s/onboarding-win", BASE_URL)).toBeNull();
+    expect(parseEmbedTargetUrl(`${BASE_URL}/s/onboarding-win/r/token`, BASE_URL)).toBeNull();
+    expect(parseEmbedTargetUrl(`${BASE_URL}/embed/quotes/short`, BASE_URL)).toBeNull();
+    expect(parseEmbedTargetUrl("not a url", BASE_URL)).toBeNull();
+  });
+});
+
+describe("resolveEmbedSize", () => {
+  it("honours maxwidth and maxheight within usable bounds", () => {
+    expect(resolveEmbedSize("page", undefined, undefined)).toEqual({ width: 600, height: 420 });
+    expect(resolveEmbedSize("quotes", 400, 200)).toEqual({ width: 400, height: 200 });
+    expect(resolveEmbedSize("page", 50, 20)).toEqual({ width: 280, height: 160 });
+  });
+});
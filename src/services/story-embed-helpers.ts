@@ -0,0 +1,148 @@
+/**
+ * Story Embeds — pure helpers
+ *
+ * Origin normalization, framing policy and embed URL parsing for the
+ * story widgets served under /embed. Nothing here touches the database;
+ * the service in story-embeds.ts applies these to an org's settings.
+ */
+
+import crypto from "crypto";
+
+export const MAX_EMBED_ALLOWED_ORIGINS = 50;
+export const DEFAULT_QUOTE_EMBED_LIMIT = 5;
+export const MAX_QUOTE_EMBED_LIMIT = 20;
+
+/** Size oEmbed consumers get when they do not ask for one. */
+export const DEFAULT_EMBED_WIDTH = 600;
+export const DEFAULT_PAGE_EMBED_HEIGHT = 420;
+export const DEFAULT_QUOTE_EMBED_HEIGHT = 260;
+const MIN_EMBED_WIDTH = 280;
+const MIN_EMBED_HEIGHT = 160;
+
+const EMBED_KEY = /^[A-Za-z0-9_-]{16,64}$/;
+const PAGE_SLUG = /^[a-z0-9-]{1,80}$/;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type EmbedTarget =
+  | { kind: "page"; slug: string }
+  | { kind: "quotes"; embedKey: string };
+
+// ─── Origins ─────────────────────────────────────────────────────────────────
+
+/**
+ * Reduces an admin-entered origin to scheme://host[:port]. Paths, query
+ * strings and credentials are not allowed, and wildcards are rejected:
+ * every site that may frame an embed is listed explicitly.
+ */
+export function normalizeEmbedOrigin(raw: string): string | null {
+  const trimmed = raw.trim();
+  if (!trimmed || trimmed.includes("*")) return null;
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") return null;
+  if (parsed.username || parsed.password) return null;
+  if ((parsed.pathname !== "/" && parsed.pathname !== "") || parsed.search || parsed.hash) {
+    return null;
+  }
+  return parsed.origin;
+}
+
+export function isEmbedOriginAllowed(origin: string | undefined, allowedOrigins: string[]): boolean {
+  if (!origin) return false;
+  const normalized = normalizeEmbedOrigin(origin);
+  return normalized !== null && allowedOrigins.includes(normalized);
+}
+
+/**
+ * Content-Security-Policy for embed documents. Framing is limited to the
+ * org's allowed origins; an org with none configured cannot be embedded.
+ * `null` lets any site frame the document, for pages that carry no org
+ * content.
+ */
+export function buildEmbedContentSecurityPolicy(allowedOrigins: string[] | null): string {
+  const frameAncestors =
+    allowedOrigins === null ? "*" : allowedOrigins.length > 0 ? allowedOrigins.join(" ") : "'none'";
+  return [
+    "default-src 'none'",
+    "script-src 'unsafe-inline'",
+    "style-src 'unsafe-inline'",
+    "img-src https: data:",
+    "base-uri 'none'",
+    "form-action 'none'",
+    `frame-ancestors ${frameAncestors}`,
+  ].join("; ");
+}
+
+export function generateEmbedKey(): string {
+  return crypto.randomBytes(18).toString("base64url");
+}
+
+// ─── Embed URLs ──────────────────────────────────────────────────────────────
+
+export function getEmbedBaseUrl(): string {
+  const configured = process.env.APP_URL ?? "http://localhost:3000";
+  return configured.endsWith("/") ? configured.slice(0, -1) : configured;
+}
+
+export function buildPageEmbedUrl(baseUrl: string, slug: string): string {
+  return `${baseUrl}/embed/pages/${encodeURIComponent(slug)}`;
+}
+
+export function buildQuoteEmbedUrl(baseUrl: string, embedKey: string): string {
+  return `${baseUrl}/embed/quotes/${encodeURIComponent(embedKey)}`;
+}
+
+/**
+ * Resolves a URL handed to the oEmbed endpoint. Accepts the public page
+ * (/s/{slug}), the page embed (/embed/pages/{slug}) and the quote widget
+ * (/embed/quotes/{key}) on this deployment's host only.
+ */
+export function parseEmbedTargetUrl(rawUrl: string, baseUrl: string): EmbedTarget | null {
+  let parsed: URL;
+  let base: URL;
+  try {
+    parsed = new URL(rawUrl);
+    base = new URL(baseUrl);
+  } catch {
+    return null;
+  }
+  if (parsed.origin !== base.origin) return null;
+
+  const segments = parsed.pathname.split("/").filter(Boolean);
+  if (segments.length === 2 && segments[0] === "s" && PAGE_SLUG.test(segments[1])) {
+    return { kind: "page", slug: segments[1] };
+  }
+  if (segments.length === 3 && segments[0] === "embed") {
+    if (segments[1] === "pages" && PAGE_SLUG.test(segments[2])) {
+      return { kind: "page", slug: segments[2] };
+    }
+    if (segments[1] === "quotes" && EMBED_KEY.test(segments[2])) {
+      return { kind: "quotes", embedKey: segments[2] };
+    }
+  }
+  return null;
+}
+
+export function isValidEmbedKey(value: string): boolean {
+  return EMBED_KEY.test(value);
+}
+
+/**
+ * Picks the iframe size for an oEmbed response, honouring the consumer's
+ * maxwidth/maxheight without going below a usable minimum.
+ */
+export function resolveEmbedSize(
+  kind: EmbedTarget["kind"],
+  maxWidth: number | undefined,
+  maxHeight: number | undefined
+): { width: number; height: number } {
+  const defaultHeight = kind === "page" ? DEFAULT_PAGE_EMBED_HEIGHT : DEFAULT_QUOTE_EMBED_HEIGHT;
+  const width = maxWidth ? Math.max(MIN_EMBED_WIDTH, Math.min(DEFAULT_EMBED_WIDTH, maxWidth)) : DEFAULT_EMBED_WIDTH;
+  const height = maxHeight ? Math.max(MIN_EMBED_HEIGHT, Math.min(defaultHeight, maxHeight)) : defaultHeight;
+  return { width, height };
+}
@@ -0,0 +1,147 @@
+/**
+ * Story Embeds
+ *
+ * Backs the iframe widgets and oEmbed endpoint served under /embed. Two
+ * kinds of embed exist: a summary card for a published landing page, and a
+ * carousel of the org's curated quotes addressed by the org's embed key.
+ *
+ * Embeds only ever show what a public reader could already see: pages go
+ * through the same published/expiry/visibility checks as /s/{slug} and
+ * serve the scrubbed copy, and quotes are scrubbed per account whenever
+ * the org has anonymization on. Framing is limited to the org's allowed
+ * origins, so an org without any cannot be embedded at all.
+ */
+
+import type { PrismaClient } from "@prisma/client";
+import { CompanyScrubber } from "./company-scrubber.js";
+import { LandingPageEditor } from "./landing-page-editor.js";
+import { getPagePresentationSettings } from "./landing-page-editor-helpers.js";
+import type { PublicLandingPage } from "./landing-page-editor-types.js";
+import { QuoteLibraryService } from "./quote-library.js";
+import { generateEmbedKey } from "./story-embed-helpers.js";
+import type { PublishedBrandingSettings } from "../types/story-generation.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface EmbedSettings {
+  allowedOrigins: string[];
+  embedKey: string | null;
+}
+
+export interface EmbedQuote {
+  id: string;
+  text: string;
+  /** Account name, or null when the org anonymizes published content. */
+  attribution: string | null;
+  curatedAt: Date | null;
+}
+
+export interface QuoteEmbed {
+  organizationId: string;
+  allowedOrigins: string[];
+  branding: PublishedBrandingSettings | null;
+  quotes: EmbedQuote[];
+}
+
+export interface PageEmbed {
+  page: PublicLandingPage;
+  allowedOrigins: string[];
+}
+
+// ─── Service ─────────────────────────────────────────────────────────────────
+
+export class StoryEmbedService {
+  private editor: LandingPageEditor;
+  private quotes: QuoteLibraryService;
+  private scrubber: CompanyScrubber;
+
+  constructor(private prisma: PrismaClient) {
+    this.editor = new LandingPageEditor(prisma);
+    this.quotes = new QuoteLibraryService(prisma);
+    this.scrubber = new CompanyScrubber(prisma);
+  }
+
+  async getSettings(organizationId: string): Promise<EmbedSettings> {
+    const settings = await this.prisma.orgSettings.findUnique({
+      where: { organizationId },
+      select: { embedAllowedOrigins: true, embedKey: true },
+    });
+    return {
+      allowedOrigins: settings?.embedAllowedOrigins ?? [],
+      embedKey: settings?.embedKey ?? null,
+    };
+  }
+
+  /**
+   * Saves the allowed origins (already normalized by the caller). The embed
+   * key is created on first save and replaced when `rotateKey` is set, which
+   * retires every quote widget snippet handed out before.
+   */
+  async updateSettings(
+    organizationId: string,
+    input: { allowedOrigins?: string[]; rotateKey?: boolean }
+  ): Promise<EmbedSettings> {
+    const current = await this.getSettings(organizationId);
+    const embedKey = input.rotateKey || !current.embedKey ? generateEmbedKey() : current.embedKey;
+    const data = {
+      embedKey,
+      ...(input.allowedOrigins ? { embedAllowedOrigins: [...new Set(input.allowedOrigins)] } : {}),
+    };
+
+    const saved = await this.prisma.orgSettings.upsert({
+      where: { organizationId },
+      create: { organizationId, ...data },
+      update: data,
+      select: { embedAllowedOrigins: true, embedKey: true },
+    });
+    return { allowedOrigins: saved.embedAllowedOrigins, embedKey: saved.embedKey };
+  }
+
+  async getPageEmbed(slug: string): Promise<PageEmbed | null> {
+    const page = await this.editor.getPublicForEmbed(slug);
+    if (!page) return null;
+    const { allowedOrigins } = await this.getSettings(page.organizationId);
+    return { page, allowedOrigins };
+  }
+
+  async getQuoteEmbed(embedKey: string, limit: number): Promise<QuoteEmbed | null> {
+    const settings = await this.prisma.orgSettings.findUnique({
+      where: { embedKey },
+      select: { organizationId: true, embedAllowedOrigins: true },
+    });
+    if (!settings) return null;
+
+    const { organizationId } = settings;
+    const presentation = await getPagePresentationSettings(this.prisma, organizationId);
+    const rows = await this.quotes.listCuratedForEmbed(organizationId, limit);
+
+    const texts = new Map<string, string>();
+    if (presentation.anonymizationEnabled) {
+      const byAccount = new Map<string, typeof rows>();
+      for (const row of rows) {
+        let accountRows = byAccount.get(row.accountId);
+        if (!accountRows) byAccount.set(row.accountId, (accountRows = []));
+        accountRows.push(row);
+      }
+      for (const [accountId, accountRows] of byAccount) {
+        const scrubbed = await this.scrubber.scrubTextsForAccount(
+          accountId,
+          accountRows.map((row) => row.quoteText)
+        );
+        accountRows.forEach((row, index) => texts.set(row.id, scrubbed[index].scrubbedText));
+      }
+    }
+
+    return {
+      organizationId,
+      allowedOrigins: settings.embedAllowedOrigins,
+      branding: presentation.publishedBranding,
+      quotes: rows.map((row) => ({
+        id: row.id,
+        text: texts.get(row.id) ?? row.quoteText,
+        attribution: presentation.anonymizationEnabled ? null : row.accountName,
+        curatedAt: row.curatedAt,
+      })),
+    };
+  }
+}
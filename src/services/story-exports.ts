@@ -1,11 +1,26 @@
-import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+import { PDFDocument, StandardFonts, rgb, type PDFFont } from "pdf-lib";
 import {
   Document,
+  ExternalHyperlink,
   HeadingLevel,
   Packer,
   Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
   TextRun,
+  WidthType,
 } from "docx";
+import {
+  markdownToTextBlocks,
+  runsToPlainText,
+  type TextBlock,
+  type TextRun as MarkdownRun,
+} from "../lib/markdown-render.js";
+
+// Story exports are internal documents, so citations keep their call ids.
+const EXPORT_RENDER_OPTIONS = { showCallIds: true } as const;
 
 export function sanitizeFileName(input: string): string {
   return input
@@ -15,36 +30,7 @@ export function sanitizeFileName(input: string): string {
     .slice(0, 80);
 }
 
-function markdownToPlainLines(markdown: string): Array<{ text: string; level: 0 | 1 | 2 | 3 }> {
-  return markdown
-    .split(/\r?\n/)
-    .map((raw) => {
-      if (raw.trim().length === 0) {
-        return { text: "", level: 0 as const };
-      }
-      if (raw.startsWith("### ")) {
-        return { text: raw.slice(4).trim(), level: 3 as const };
-      }
-      if (raw.startsWith("## ")) {
-        return { text: raw.slice(3).trim(), level: 2 as const };
-      }
-      if (raw.startsWith("# ")) {
-        return { text: raw.slice(2).trim(), level: 1 as const };
-      }
-      return {
-        text: raw
-          .replace(/\*\*(.*?)\*\*/g, "$1")
-          .replace(/\*(.*?)\*/g, "$1")
-          .replace(/`(.*?)`/g, "$1")
-          .replace(/^[-*+]\s+/, "- ")
-          .replace(/^>\s+/, "")
-          .replace(/\[(.*?)\]\((.*?)\)/g, "$1"),
-        level: 0 as const,
-      };
-    });
-}
-
-function wrapText(text: string, maxWidth: number, font: any, size: number): string[] {
+function wrapText(text: string, maxWidth: number, font: PDFFont, size: number): string[] {
   const words = text.split(/\s+/).filter(Boolean);
   if (words.length === 0) return [""];
   const lines: string[] = [];
@@ -68,6 +54,9 @@ function wrapText(text: string, maxWidth: number, font: any, size: number): stri
 const yieldToEventLoop = (): Promise<void> =>
   new Promise((resolve) => setImmediate(resolve));
 
+
+const HEADING_SIZES: Record<number, number> = { 1: 20, 2: 16, 3: 13 };
+
 /**
  * TODO: For large documents, consider offloading to a worker_threads Worker
  * to fully avoid blocking the event loop. The current implementation yields
@@ -78,6 +67,8 @@ export async function markdownToPdfBuffer(title: string, markdown: string): Prom
   const pdfDoc = await PDFDocument.create();
   const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
   const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const italicFont = await pdfDoc.embedFont(StandardFonts.HelveticaOblique);
+  const monoFont = await pdfDoc.embedFont(StandardFonts.Courier);
 
   const margin = 50;
   const width = 612;
@@ -85,21 +76,31 @@ export async function markdownToPdfBuffer(title: string, markdown: string): Prom
   let page = pdfDoc.addPage([width, height]);
   let y = height - margin;
 
-  const drawLine = (text: string, opts?: { level?: 0 | 1 | 2 | 3 }) => {
-    const level = opts?.level ?? 0;
-    const size = level === 1 ? 20 : level === 2 ? 16 : level === 3 ? 13 : 11;
-    const activeFont = level > 0 ? boldFont : font;
+  const drawLine = (
+    text: string,
+    opts?: { font?: PDFFont; size?: number; indent?: number; spaceAfter?: number; preformatted?: boolean }
+  ) => {
+    const size = opts?.size ?? 11;
+    const activeFont = opts?.font ?? font;
     const lineHeight = size * 1.35;
-    const maxWidth = width - margin * 2;
+    const x = margin + (opts?.indent ?? 0) * 18;
+    const maxWidth = width - margin - x;
 
-    const wrapped = wrapText(text, maxWidth, activeFont, size);
+    const wrapped = opts?.preformatted
+      ? text.split("\n").flatMap((line) => {
+          const maxChars = Math.max(1, Math.floor(maxWidth / activeFont.widthOfTextAtSize("M", size)));
+          const chunks: string[] = [];
+          for (let i = 0; i < Math.max(line.length, 1); i += maxChars) chunks.push(line.slice(i, i + maxChars));
+          return chunks;
+        })
+      : text.split("\n").flatMap((line) => wrapText(line, maxWidth, activeFont, size));
     for (const line of wrapped) {
       if (y < margin + lineHeight) {
         page = pdfDoc.addPage([width, height]);
         y = height - margin;
       }
       page.drawText(line, {
-        x: margin,
+        x,
         y,
         size,
         font: activeFont,
@@ -108,82 +109,164 @@ export async function markdownToPdfBuffer(title: string, markdown: string): Prom
       y -= lineHeight;
     }
 
-    y -= level > 0 ? 6 : 2;
+    y -= opts?.spaceAfter ?? 2;
   };
 
-  const lines = markdownToPlainLines(markdown);
-  drawLine(title, { level: 1 });
+  const drawBlock = (block: TextBlock) => {
+    switch (block.kind) {
+      case "heading":
+        drawLine(runsToPlainText(block.runs), {
+          font: boldFont,
+          size: HEADING_SIZES[block.level] ?? 12,
+          spaceAfter: 6,
+        });
+        break;
+      case "paragraph":
+        drawLine(runsToPlainText(block.runs), { indent: block.indent, spaceAfter: 8 });
+        break;
+      case "listItem":
+        drawLine(`${block.marker} ${runsToPlainText(block.runs)}`, { indent: block.indent + 1 });
+        break;
+      case "quote":
+        drawLine(runsToPlainText(block.runs), { font: italicFont, indent: block.indent + 1, spaceAfter: 6 });
+        break;
+      case "calloutTitle":
+        drawLine(runsToPlainText(block.runs), { font: boldFont, indent: 1 });
+        break;
+      case "callout":
+        drawLine(runsToPlainText(block.runs), { indent: 1, spaceAfter: 6 });
+        break;
+      case "code":
+        drawLine(block.text.replace(/\t/g, "  "), { font: monoFont, size: 9, preformatted: true, spaceAfter: 8 });
+        break;
+      case "table":
+        drawLine(block.header.map(runsToPlainText).join(" | "), { font: boldFont, size: 10 });
+        for (const row of block.rows) {
+          drawLine(row.map(runsToPlainText).join(" | "), { size: 10 });
+        }
+        y -= 6;
+        break;
+      case "rule":
+        y -= 8;
+        break;
+      case "footnote":
+        drawLine(`${block.marker} ${runsToPlainText(block.runs)}`, { size: 9 });
+        break;
+    }
+  };
+
+  const blocks = markdownToTextBlocks(markdown, EXPORT_RENDER_OPTIONS);
+  drawLine(title, { font: boldFont, size: HEADING_SIZES[1], spaceAfter: 6 });
 
   const YIELD_EVERY = 50;
-  for (let i = 0; i < lines.length; i++) {
+  for (let i = 0; i < blocks.length; i++) {
     if (i > 0 && i % YIELD_EVERY === 0) await yieldToEventLoop();
-
-    const line = lines[i];
-    if (line.text.length === 0) {
-      y -= 8;
-      continue;
-    }
-    drawLine(line.text, { level: line.level });
+    drawBlock(blocks[i]);
   }
 
   return pdfDoc.save();
 }
 
+const DOCX_HEADINGS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+] as const;
+
+function docxRuns(runs: MarkdownRun[], base: { italics?: boolean; size?: number } = {}) {
+  return runs.flatMap((run) =>
+    run.text.split("\n").map((text, index) => {
+      const textRun = new TextRun({
+        text,
+        break: index > 0 ? 1 : undefined,
+        bold: run.bold,
+        italics: run.italic ?? base.italics,
+        superScript: run.superscript,
+        size: base.size,
+        font: run.code ? "Courier New" : undefined,
+        style: run.href ? "Hyperlink" : undefined,
+      });
+      return run.href ? new ExternalHyperlink({ link: run.href, children: [textRun] }) : textRun;
+    })
+  );
+}
+
+function docxTable(block: Extract<TextBlock, { kind: "table" }>): Table {
+  const cell = (runs: MarkdownRun[], header: boolean) =>
+    new TableCell({
+      children: [new Paragraph({ children: docxRuns(header ? runs.map((run) => ({ ...run, bold: true })) : runs) })],
+      shading: header ? { type: ShadingType.CLEAR, fill: "EEF2FF", color: "auto" } : undefined,
+    });
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({ tableHeader: true, children: block.header.map((runs) => cell(runs, true)) }),
+      ...block.rows.map((row) => new TableRow({ children: row.map((runs) => cell(runs, false)) })),
+    ],
+  });
+}
+
+function docxBlock(block: TextBlock): Paragraph | Table {
+  switch (block.kind) {
+    case "heading":
+      return new Paragraph({
+        heading: DOCX_HEADINGS[Math.min(block.level, 6) - 1],
+        children: docxRuns(block.runs),
+      });
+    case "paragraph":
+      return new Paragraph({ indent: { left: block.indent * 360 }, children: docxRuns(block.runs) });
+    case "listItem":
+      return new Paragraph({
+        indent: { left: (block.indent + 1) * 360, hanging: 360 },
+        children: [new TextRun(`${block.marker}\t`), ...docxRuns(block.runs)],
+      });
+    case "quote":
+      return new Paragraph({
+        indent: { left: (block.indent + 1) * 360 },
+        children: docxRuns(block.runs, { italics: true }),
+      });
+    case "calloutTitle":
+    case "callout":
+      return new Paragraph({
+        indent: { left: 360 },
+        shading: { type: ShadingType.CLEAR, fill: "F5F7FF", color: "auto" },
+        children: docxRuns(block.runs),
+      });
+    case "code":
+      return new Paragraph({
+        children: docxRuns([{ text: block.text, code: true }], { size: 18 }),
+      });
+    case "table":
+      return docxTable(block);
+    case "rule":
+      return new Paragraph({
+        border: { bottom: { style: "single", size: 6, color: "CCCCCC", space: 1 } },
+        children: [],
+      });
+    case "footnote":
+      return new Paragraph({
+        children: [new TextRun({ text: `${block.marker} `, size: 18 }), ...docxRuns(block.runs, { size: 18 })],
+      });
+  }
+}
+
 export async function markdownToDocxBuffer(title: string, markdown: string): Promise<Buffer> {
-  const children: Paragraph[] = [
+  const children: Array<Paragraph | Table> = [
     new Paragraph({
       heading: HeadingLevel.HEADING_1,
       children: [new TextRun(title)],
     }),
   ];
 
-  const lines = markdownToPlainLines(markdown);
+  const blocks = markdownToTextBlocks(markdown, EXPORT_RENDER_OPTIONS);
   const YIELD_EVERY = 50;
 
-  for (let i = 0; i < lines.length; i++) {
+  for (let i = 0; i < blocks.length; i++) {
     if (i > 0 && i % YIELD_EVERY === 0) await yieldToEventLoop();
-
-    const line = lines[i];
-    if (line.text.length === 0) {
-      children.push(new Paragraph({ children: [new TextRun("")] }));
-      continue;
-    }
-
-    if (line.level === 1) {
-      children.push(
-        new Paragraph({
-          heading: HeadingLevel.HEADING_1,
-          children: [new TextRun(line.text)],
-        })
-      );
-      continue;
-    }
-
-    if (line.level === 2) {
-      children.push(
-        new Paragraph({
-          heading: HeadingLevel.HEADING_2,
-          children: [new TextRun(line.text)],
-        })
-      );
-      continue;
-    }
-
-    if (line.level === 3) {
-      children.push(
-        new Paragraph({
-          heading: HeadingLevel.HEADING_3,
-          children: [new TextRun(line.text)],
-        })
-      );
-      continue;
-    }
-
-    children.push(
-      new Paragraph({
-        children: [new TextRun(line.text)],
-      })
-    );
+    children.push(docxBlock(blocks[i]));
   }
 
   const doc = new Document({
@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from "vitest";
+import type { CompanyScrubber } from "./company-scrubber.js";
+import {
+  blockingLintFindings,
+  buildStoryLintRules,
+  lintLandingPageDraft,
+  lintStoryText,
+  parseTerminologyEntry,
+} from "./story-lint.js";
+
+const rules = buildStoryLintRules({
+  bannedClaims: ["guaranteed ROI", "#1 in market"],
+  approvedTerminology: ["Customer story = case study | testimonial", "HubSpot"],
+  competitors: ["Gong"],
+});
+
+describe("parseTerminologyEntry", () => {
+  it("splits the approved term from its synonyms", () => {
+    expect(parseTerminologyEntry("Customer story = case study | testimonial ")).toEqual({
+      approved: "Customer story",
+      avoid: ["case study", "testimonial"],
+    });
+    expect(parseTerminologyEntry("HubSpot")).toEqual({ approved: "HubSpot", avoid: [] });
+    expect(parseTerminologyEntry(" = anything")).toBeNull();
+  });
+});
+
+describe("lintStoryText", () => {
+  it("flags banned claims, synonyms, spelling variants and competitors with offsets", () => {
+    const text =
+      "This case study shows Guaranteed  ROI. They left Gong, synced Hubspot and became #1 in market.";
+
+    const findings = lintStoryText(text, rules, "markdown");
+
+    expect(findings.map((f) => [f.rule, f.severity, f.match, f.replacement])).toEqual([
+      ["unapproved_term", "warning", "case study", "Customer story"],
+      ["banned_claim", "error", "Guaranteed  ROI", null],
+      ["competitor_mention", "warning", "Gong", null],
+      ["unapproved_term", "warning", "Hubspot", "HubSpot"],
+      ["banned_claim", "error", "#1 in market", null],
+    ]);
+    expect(text.slice(findings[1].offset!, findings[1].offset! + findings[1].match.length)).toBe(
+      "Guaranteed  ROI"
+    );
+  });
+
+  it("leaves approved wording and partial words alone", () => {
+    const rulesWithStory = buildStoryLintRules({
+      approvedTerminology: ["Customer story = story", "HubSpot"],
+      competitors: ["Gong"],
+    });
+
+    const text = "Customer story: HubSpot data flowed in. The Gongfu team read the customer story.";
+
+    expect(lintStoryText(text, rulesWithStory, "markdown")).toEqual([]);
+  });
+});
+
+describe("blockingLintFindings", () => {
+  it("blocks by severity according to the governance mode", () => {
+    const findings = lintStoryText("Guaranteed ROI, unlike Gong.", rules, "editable_body");
+
+    expect(blockingLintFindings(findings, "WARN")).toEqual([]);
+    expect(blockingLintFindings(findings, "BLOCK_ERRORS").map((f) => f.rule)).toEqual([
+      "banned_claim",
+    ]);
+    expect(blockingLintFindings(findings, "BLOCK_WARNINGS")).toHaveLength(2);
+  });
+});
+
+describe("lintLandingPageDraft", () => {
+  const page = {
+    accountId: "acct-1",
+    language: "en",
+    title: "Acme cut onboarding in half",
+    subtitle: null,
+    body: "Acme Corp rolled out to every team.",
+    calloutBoxes: [{ title: "Result", body: "Guaranteed ROI for acme.com" }],
+  };
+
+  it("uses the scrubber's terms to find company names on anonymous pages", async () => {
+    const scrubber = {
+      scrubForAccount: vi.fn().mockResolvedValue({
+        scrubbedText: "",
+        replacementsMade: 3,
+        termsReplaced: ["acme.com", "Acme Corp", "Acme"],
+      }),
+    } as unknown as CompanyScrubber;
+
+    const findings = await lintLandingPageDraft(
+      scrubber,
+      { ...page, includeCompanyName: false },
+      rules
+    );
+
+    expect(findings.map((f) => [f.field, f.rule, f.match])).toEqual([
+      ["title", "unscrubbed_company_name", "Acme"],
+      ["editable_body", "unscrubbed_company_name", "Acme Corp"],
+      ["callout_boxes.0.body", "banned_claim", "Guaranteed ROI"],
+      ["callout_boxes.0.body", "unscrubbed_company_name", "acme.com"],
+    ]);
+    // Company names are replaced at publish, so they never block it.
+    expect(blockingLintFindings(findings, "BLOCK_WARNINGS").map((f) => f.rule)).toEqual([
+      "banned_claim",
+    ]);
+  });
+
+  it("skips the company check on named pages", async () => {
+    const scrubber = { scrubForAccount: vi.fn() } as unknown as CompanyScrubber;
+
+    const findings = await lintLandingPageDraft(
+      scrubber,
+      { ...page, includeCompanyName: true },
+      rules
+    );
+
+    expect(scrubber.scrubForAccount).not.toHaveBeenCalled();
+    expect(findings.map((f) => f.rule)).toEqual(["banned_claim"]);
+  });
+});
@@ -0,0 +1,373 @@
+/**
+ * Story Lint
+ *
+ * Checks generated story markdown and landing-page drafts against the
+ * org's story context. Banned claims, terminology and competitors reach
+ * the generation prompt only as guidance; this is the check that the
+ * output actually follows it. Anonymous landing pages are also checked for
+ * company identifiers the rep typed into the draft.
+ *
+ * Findings never change the text. Whether they block publish is decided by
+ * the org's `story_lint_publish_mode` governance setting.
+ */
+
+import type { PrismaClient } from "@prisma/client";
+import type { CompanyScrubber } from "./company-scrubber.js";
+import type { StoryContextSettings } from "../types/story-generation.js";
+import { decodeDataGovernancePolicy } from "../types/json-boundaries.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type StoryLintRule =
+  | "banned_claim"
+  | "unapproved_term"
+  | "competitor_mention"
+  | "unscrubbed_company_name";
+
+export type StoryLintSeverity = "error" | "warning" | "info";
+
+export type StoryLintPublishMode = "WARN" | "BLOCK_ERRORS" | "BLOCK_WARNINGS";
+
+export interface StoryLintFinding {
+  rule: StoryLintRule;
+  severity: StoryLintSeverity;
+  /** Field the match was found in, named like publish validation issues. */
+  field: string;
+  message: string;
+  /** The text as it appears in the field. */
+  match: string;
+  /** Character offset of the match in the field, null when it could not be located. */
+  offset: number | null;
+  suggestion: string;
+  /** Drop-in replacement for the match, when there is an unambiguous one. */
+  replacement: string | null;
+}
+
+export interface TerminologyRule {
+  approved: string;
+  /** Synonyms to replace with the approved term. Empty means only spelling variants are flagged. */
+  avoid: string[];
+}
+
+export interface StoryLintRules {
+  bannedClaims: string[];
+  terminology: TerminologyRule[];
+  competitors: string[];
+  /** Company identifiers that must not appear in anonymous content. */
+  companyTerms: string[];
+}
+
+export interface StoryLintPolicy {
+  rules: StoryLintRules;
+  mode: StoryLintPublishMode;
+}
+
+export interface StoryLintField {
+  field: string;
+  text: string | null | undefined;
+}
+
+export interface StoryLintCounts {
+  error: number;
+  warning: number;
+  info: number;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const RULE_SEVERITY: Record<StoryLintRule, StoryLintSeverity> = {
+  banned_claim: "error",
+  unapproved_term: "warning",
+  competitor_mention: "warning",
+  // Publish scrubs these on anonymous pages anyway, so they only inform.
+  unscrubbed_company_name: "info",
+};
+
+const BLOCKING_SEVERITIES: Record<StoryLintPublishMode, StoryLintSeverity[]> = {
+  WARN: [],
+  BLOCK_ERRORS: ["error"],
+  BLOCK_WARNINGS: ["error", "warning"],
+};
+
+/** Keeps a pathological draft from producing an unusable wall of findings. */
+export const MAX_LINT_FINDINGS = 100;
+
+const WORD_START = "(?<![\\p{L}\\p{N}_])";
+const WORD_END = "(?![\\p{L}\\p{N}_])";
+
+// ─── Rules ───────────────────────────────────────────────────────────────────
+
+/**
+ * Parses an approved terminology entry. "Customer story = case study |
+ * testimonial" approves the left side and flags the listed synonyms; a
+ * plain entry flags spelling variants of itself ("Hubspot", "hub-spot").
+ */
+export function parseTerminologyEntry(entry: string): TerminologyRule | null {
+  const [approvedPart, ...rest] = entry.split("=");
+  const approved = approvedPart.trim();
+  if (!approved) return null;
+  const avoid = rest
+    .join("=")
+    .split("|")
+    .map((term) => term.trim())
+    .filter((term) => term.length > 0 && term.toLowerCase() !== approved.toLowerCase());
+  return { approved, avoid };
+}
+
+export function buildStoryLintRules(
+  context: StoryContextSettings,
+  companyTerms: string[] = []
+): StoryLintRules {
+  const clean = (values: string[] | undefined) =>
+    (values ?? []).map((value) => value.trim()).filter((value) => value.length > 1);
+
+  return {
+    bannedClaims: clean(context.bannedClaims),
+    terminology: (context.approvedTerminology ?? [])
+      .map(parseTerminologyEntry)
+      .filter((rule): rule is TerminologyRule => rule !== null),
+    competitors: clean(context.competitors),
+    companyTerms: clean(companyTerms),
+  };
+}
+
+export async function loadStoryLintPolicy(
+  prisma: PrismaClient,
+  organizationId: string
+): Promise<StoryLintPolicy> {
+  const settings = await prisma.orgSettings.findUnique({
+    where: { organizationId },
+    select: { storyContext: true, dataGovernancePolicy: true },
+  });
+  const context = (settings?.storyContext ?? {}) as StoryContextSettings;
+  const governance = decodeDataGovernancePolicy(settings?.dataGovernancePolicy);
+  return {
+    rules: buildStoryLintRules(context),
+    mode: governance.story_lint_publish_mode ?? "WARN",
+  };
+}
+
+// ─── Matching ────────────────────────────────────────────────────────────────
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Case-insensitive phrase match that tolerates extra whitespace and hyphenation. */
+function phraseRegex(phrase: string): RegExp {
+  const body = phrase.trim().split(/[\s-]+/).map(escapeRegex).join("[\\s-]+");
+  return new RegExp(`${WORD_START}${body}${WORD_END}`, "giu");
+}
+
+/** Like phraseRegex, but "customer success", "customer-success" and "customersuccess" all match. */
+function variantRegex(term: string): RegExp {
+  const body = term.trim().split(/[\s-]+/).map(escapeRegex).join("[\\s-]*");
+  return new RegExp(`${WORD_START}${body}${WORD_END}`, "giu");
+}
+
+function findAll(text: string, regex: RegExp): Array<{ match: string; offset: number }> {
+  return [...text.matchAll(regex)].map((m) => ({ match: m[0], offset: m.index ?? 0 }));
+}
+
+/** A sentence-initial capital is not a different spelling. */
+function isSameSpelling(found: string, approved: string): boolean {
+  if (found === approved) return true;
+  return found.slice(1) === approved.slice(1) && found[0].toLowerCase() === approved[0].toLowerCase();
+}
+
+function finding(
+  rule: StoryLintRule,
+  field: string,
+  hit: { match: string; offset: number | null },
+  message: string,
+  suggestion: string,
+  replacement: string | null = null
+): StoryLintFinding {
+  return {
+    rule,
+    severity: RULE_SEVERITY[rule],
+    field,
+    message,
+    match: hit.match,
+    offset: hit.offset,
+    suggestion,
+    replacement,
+  };
+}
+
+// ─── Lint ────────────────────────────────────────────────────────────────────
+
+export function lintStoryText(
+  text: string,
+  rules: StoryLintRules,
+  field: string
+): StoryLintFinding[] {
+  const findings: StoryLintFinding[] = [];
+  if (!text.trim()) return findings;
+
+  for (const claim of rules.bannedClaims) {
+    for (const hit of findAll(text, phraseRegex(claim))) {
+      findings.push(
+        finding(
+          "banned_claim",
+          field,
+          hit,
+          `"${hit.match}" is a banned claim.`,
+          "Remove the claim, or restate only what the customer said on the call."
+        )
+      );
+    }
+  }
+
+  for (const term of rules.terminology) {
+    const approvedRanges = findAll(text, variantRegex(term.approved));
+    if (term.avoid.length === 0) {
+      for (const hit of approvedRanges) {
+        if (isSameSpelling(hit.match, term.approved)) continue;
+        findings.push(
+          finding(
+            "unapproved_term",
+            field,
+            hit,
+            `"${hit.match}" should be written "${term.approved}".`,
+            `Use the approved spelling "${term.approved}".`,
+            term.approved
+          )
+        );
+      }
+      continue;
+    }
+    // "story" must not fire inside an approved "customer story".
+    const insideApproved = (offset: number) =>
+      approvedRanges.some((range) => offset >= range.offset && offset < range.offset + range.match.length);
+    for (const synonym of term.avoid) {
+      for (const hit of findAll(text, phraseRegex(synonym))) {
+        if (insideApproved(hit.offset)) continue;
+        findings.push(
+          finding(
+            "unapproved_term",
+            field,
+            hit,
+            `"${hit.match}" is not approved terminology.`,
+            `Use "${term.approved}" instead.`,
+            term.approved
+          )
+        );
+      }
+    }
+  }
+
+  for (const competitor of rules.competitors) {
+    for (const hit of findAll(text, phraseRegex(competitor))) {
+      findings.push(
+        finding(
+          "competitor_mention",
+          field,
+          hit,
+          `Mentions competitor "${hit.match}".`,
+          'Remove the name or refer to it generically, e.g. "their previous vendor".'
+        )
+      );
+    }
+  }
+
+  // Longest first, so "Acme Corp" is reported once rather than again as "Acme".
+  const companyRanges: Array<{ offset: number; end: number }> = [];
+  const companyTerms = [...rules.companyTerms].sort((a, b) => b.length - a.length);
+  for (const term of companyTerms) {
+    for (const hit of findAll(text, phraseRegex(term))) {
+      const end = hit.offset + hit.match.length;
+      if (companyRanges.some((range) => hit.offset < range.end && end > range.offset)) continue;
+      companyRanges.push({ offset: hit.offset, end });
+      findings.push(
+        finding(
+          "unscrubbed_company_name",
+          field,
+          hit,
+          `"${hit.match}" identifies the customer and will be replaced when this anonymous page is published.`,
+          'Reword it yourself, e.g. "the client", to control how the sentence reads.'
+        )
+      );
+    }
+  }
+
+  return findings.sort((a, b) => (a.offset ?? 0) - (b.offset ?? 0));
+}
+
+/** Lints several fields, keeping field order, capped at MAX_LINT_FINDINGS. */
+export function lintStoryFields(
+  fields: StoryLintField[],
+  rules: StoryLintRules
+): StoryLintFinding[] {
+  return fields
+    .flatMap(({ field, text }) => lintStoryText(text ?? "", rules, field))
+    .slice(0, MAX_LINT_FINDINGS);
+}
+
+export interface LandingPageLintInput {
+  accountId: string;
+  /** Every account of a comparative story; defaults to accountId alone. */
+  accountIds?: string[];
+  language: string | null;
+  includeCompanyName: boolean;
+  title: string | null;
+  subtitle: string | null;
+  body: string | null;
+  calloutBoxes: Array<{ title: string; body: string }>;
+}
+
+/** Landing-page fields under the names publish validation reports them with. */
+export function landingPageLintFields(
+  page: Pick<LandingPageLintInput, "title" | "subtitle" | "body" | "calloutBoxes">
+): StoryLintField[] {
+  return [
+    { field: "title", text: page.title },
+    { field: "subtitle", text: page.subtitle },
+    { field: "editable_body", text: page.body },
+    ...page.calloutBoxes.flatMap((box, index) => [
+      { field: `callout_boxes.${index}.title`, text: box.title },
+      { field: `callout_boxes.${index}.body`, text: box.body },
+    ]),
+  ];
+}
+
+/**
+ * Lints a landing-page draft for the editor. For anonymous pages the
+ * company scrubber decides which identifiers count as the customer's name,
+ * so the lint agrees with what publish would replace.
+ */
+export async function lintLandingPageDraft(
+  scrubber: CompanyScrubber,
+  page: LandingPageLintInput,
+  rules: StoryLintRules
+): Promise<StoryLintFinding[]> {
+  const fields = landingPageLintFields(page);
+
+  let companyTerms: string[] = [];
+  if (!page.includeCompanyName) {
+    const combined = fields.map((f) => f.text ?? "").join("\n\n");
+    const accountIds = page.accountIds ?? [page.accountId];
+    const scrub =
+      accountIds.length > 1
+        ? await scrubber.scrubForAccounts(accountIds, combined, { language: page.language })
+        : await scrubber.scrubForAccount(page.accountId, combined, { language: page.language });
+    companyTerms = scrub.termsReplaced;
+  }
+
+  return lintStoryFields(fields, { ...rules, companyTerms: [...rules.companyTerms, ...companyTerms] });
+}
+
+export function countLintFindings(findings: StoryLintFinding[]): StoryLintCounts {
+  const counts: StoryLintCounts = { error: 0, warning: 0, info: 0 };
+  for (const item of findings) counts[item.severity] += 1;
+  return counts;
+}
+
+/** Findings that stop publish under the given governance mode. */
+export function blockingLintFindings(
+  findings: StoryLintFinding[],
+  mode: StoryLintPublishMode
+): StoryLintFinding[] {
+  const blocking = BLOCKING_SEVERITIES[mode];
+  return findings.filter((item) => blocking.includes(item.severity));
+}
@@ -6,6 +6,8 @@
  */
 
 import type { HighValueQuote } from "@prisma/client";
+import type { StoryClaimVerification } from "./story-claim-verifier.js";
+import type { StoryTemplateCoverage } from "./story-template-outline.js";
 
 export function mapStorySummary(s: {
   id: string;
@@ -16,6 +18,7 @@ export function mapStorySummary(s: {
   filterTags: string[];
   generatedAt: Date;
   markdownBody: string;
+  language?: string;
   quotes: HighValueQuote[];
   landingPages: Array<{
     id: string;
@@ -41,6 +44,7 @@ export function mapStorySummary(s: {
     filter_tags: s.filterTags,
     generated_at: s.generatedAt.toISOString(),
     markdown: s.markdownBody,
+    language: s.language ?? "en",
     landing_page:
       s.landingPages[0] == null
         ? null
@@ -57,6 +61,8 @@ export function mapStorySummary(s: {
 export function mapGeneratedQuote(q: {
   speaker: string | null;
   quoteText: string;
+  language?: string | null;
+  translation?: string | null;
   context: string | null;
   metricType: string | null;
   metricValue: string | null;
@@ -66,14 +72,18 @@ export function mapGeneratedQuote(q: {
   sourceCallTitle: string | null;
   sourceRecordingUrl: string | null;
   confidenceScore?: number;
+  verificationStatus?: string;
 }) {
   return {
     speaker: q.speaker,
     quote_text: q.quoteText,
+    language: q.language ?? null,
+    translation: q.translation ?? null,
     context: q.context,
     metric_type: q.metricType,
     metric_value: q.metricValue,
     confidence_score: q.confidenceScore ?? undefined,
+    verification_status: q.verificationStatus ?? undefined,
     call_id: q.callId,
     source_chunk_id: q.sourceChunkId ?? undefined,
     source_timestamp_ms: q.sourceTimestampMs ?? undefined,
@@ -87,6 +97,42 @@ export function mapGeneratedQuote(q: {
   };
 }
 
+export function mapClaimVerification(verification: StoryClaimVerification) {
+  return {
+    ...verification.summary,
+    claims: verification.claims.map((claim) => ({
+      claim_type: claim.claimType,
+      text: claim.text,
+      status: claim.status,
+      number_match: claim.numberMatch,
+      entailment: claim.entailment,
+      reason: claim.reason,
+      source_call_id: claim.source?.callId ?? null,
+      source_chunk_id: claim.source?.chunkId ?? null,
+      transcript_deep_link: claim.source
+        ? buildTranscriptDeepLink(
+            claim.source.callId,
+            claim.source.startMs ?? undefined,
+            claim.source.chunkId
+          )
+        : null,
+    })),
+  };
+}
+
+export function mapTemplateCoverage(coverage: StoryTemplateCoverage) {
+  return {
+    complete: coverage.complete,
+    sections: coverage.sections.map((section) => ({
+      heading: section.heading,
+      found: section.found,
+      quotes: section.quotes,
+      min_quotes: section.minQuotes,
+      missing_metrics: section.missingMetrics,
+    })),
+  };
+}
+
 export function mapStoredQuote(q: HighValueQuote) {
   const metadata = parseLineageMetadata(q.lineageMetadata);
   const sourceCallId = q.callId ?? metadata.source_call_id;
@@ -94,6 +140,8 @@ export function mapStoredQuote(q: HighValueQuote) {
   return {
     speaker: q.speaker,
     quote_text: q.quoteText,
+    language: q.language,
+    translation: q.translation,
     context: q.context,
     metric_type: q.metricType,
     metric_value: q.metricValue,
@@ -11,6 +11,7 @@ import type { PrismaClient, Prisma } from "@prisma/client";
 import { LifecycleStageService } from "./lifecycle-stage-service.js";
 import type { LifecycleStage } from "./lifecycle-stage.js";
 import type { RAGEngine } from "./rag-engine.js";
+import { loadCustomTopics, type CustomTopicDefinition } from "./custom-taxonomy.js";
 
 // ─── Library types ───────────────────────────────────────────────────────────
 
@@ -57,6 +58,29 @@ export interface CreateCommentInput {
   parentId?: string | null;
 }
 
+// ─── Access helpers ──────────────────────────────────────────────────────────
+
+/**
+ * Every account a story draws on: its own account plus, for comparative
+ * stories, each contributing account.
+ */
+export function storyAccountIds(story: {
+  accountId: string;
+  contributingAccounts?: Array<{ accountId: string }>;
+}): string[] {
+  return [
+    ...new Set([story.accountId, ...(story.contributingAccounts ?? []).map((row) => row.accountId)]),
+  ];
+}
+
+/** Stories whose accounts, including every contributing account, are all accessible. */
+function accessibleStoryWhere(accountIds: string[]): Prisma.StoryWhereInput {
+  return {
+    accountId: { in: accountIds },
+    contributingAccounts: { every: { accountId: { in: accountIds } } },
+  };
+}
+
 // ─── Service ─────────────────────────────────────────────────────────────────
 
 export class StoryQueryService {
@@ -80,7 +104,7 @@ export class StoryQueryService {
     };
 
     if (filters.accessibleAccountIds !== undefined && filters.accessibleAccountIds !== null) {
-      where.accountId = { in: filters.accessibleAccountIds };
+      Object.assign(where, accessibleStoryWhere(filters.accessibleAccountIds));
     }
     if (filters.semanticAccountIds && filters.semanticAccountIds.length > 0) {
       const scopedIds =
@@ -160,6 +184,9 @@ export class StoryQueryService {
           },
           orderBy: { createdAt: "desc" },
         },
+        _count: {
+          select: { revisions: { where: { status: "PENDING" } } },
+        },
       },
       orderBy: { generatedAt: "desc" },
     });
@@ -295,7 +322,7 @@ export class StoryQueryService {
       input.accessibleAccountIds !== undefined &&
       input.accessibleAccountIds !== null
     ) {
-      where.accountId = { in: input.accessibleAccountIds };
+      Object.assign(where, accessibleStoryWhere(input.accessibleAccountIds));
     }
 
     const stories = await this.prisma.story.findMany({
@@ -322,6 +349,13 @@ export class StoryQueryService {
     return { funnelStageCounts, topicCounts };
   }
 
+  /**
+   * The org's custom taxonomy topics, for browsing and story filters.
+   */
+  async getCustomTopics(organizationId: string): Promise<CustomTopicDefinition[]> {
+    return loadCustomTopics(this.prisma, organizationId);
+  }
+
   /**
    * List stories for a single account (no pagination, newest first).
    */
@@ -373,6 +407,7 @@ export class StoryQueryService {
         accountId: true,
         title: true,
         markdownBody: true,
+        contributingAccounts: { select: { accountId: true } },
       },
     });
   }
@@ -386,6 +421,7 @@ export class StoryQueryService {
       select: {
         id: true,
         accountId: true,
+        contributingAccounts: { select: { accountId: true } },
         _count: { select: { landingPages: true } },
       },
     });
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeStoryDiff,
+  diffStoryQuotes,
+  diffStorySections,
+  mergeStorySections,
+  splitStorySections,
+  threeWayMerge,
+  type RevisionQuote,
+} from "./story-revision-diff.js";
+
+const current = [
+  "# Acme: Account Journey",
+  "",
+  "## Challenge",
+  "Manual reporting took days.",
+  "",
+  "## Outcomes",
+  "Reporting time dropped by half.",
+  "",
+  "## Timeline",
+  "Live in Q1.",
+].join("\n");
+
+const proposed = [
+  "# Acme: Account Journey",
+  "",
+  "## Challenge",
+  "Manual reporting took days.",
+  "",
+  "## Outcomes",
+  "Reporting time dropped by 70%.",
+  "",
+  "## Expansion",
+  "Rolled out to the EMEA team.",
+].join("\n");
+
+function quote(quoteText: string): RevisionQuote {
+  return {
+    quoteText,
+    speaker: null,
+    context: null,
+    metricType: null,
+    metricValue: null,
+    callId: "call-1",
+    language: null,
+    translation: null,
+  };
+}
+
+describe("splitStorySections", () => {
+  it("keys sections by heading and round-trips the markdown", () => {
+    const markdown = "Intro line\n## Results\nA\n## Results\nB";
+    const sections = splitStorySections(markdown);
+
+    expect(sections.map((section) => section.key)).toEqual(["_preamble", "results", "results#2"]);
+    expect(sections.map((section) => section.markdown).join("\n")).toBe(markdown);
+  });
+});
+
+describe("diffStorySections", () => {
+  it("classifies sections and keeps removed ones in place", () => {
+    const diffs = diffStorySections(current, proposed);
+
+    expect(diffs.map((diff) => [diff.key, diff.change])).toEqual([
+      ["acme: account journey", "unchanged"],
+      ["challenge", "unchanged"],
+      ["outcomes", "modified"],
+      ["timeline", "removed"],
+      ["expansion", "added"],
+    ]);
+    expect(diffs[2].lines.filter((line) => line.type !== "context")).toEqual([
+      { type: "removed", text: "Reporting time dropped by half." },
+      { type: "added", text: "Reporting time dropped by 70%." },
+    ]);
+  });
+});
+
+describe("mergeStorySections", () => {
+  it("applies only accepted sections", () => {
+    const merged = mergeStorySections(current, proposed, {
+      outcomes: "accept",
+      expansion: "accept",
+      timeline: "reject",
+    });
+
+    expect(merged).toContain("Reporting time dropped by 70%.");
+    expect(merged).toContain("## Timeline\nLive in Q1.");
+    expect(merged).toContain("## Expansion\nRolled out to the EMEA team.");
+    expect(mergeStorySections(current, proposed, {})).toBe(current);
+  });
+});
+
+describe("computeStoryDiff", () => {
+  it("summarizes named sections for the digest", () => {
+    const diff = computeStoryDiff(current, proposed);
+
+    expect(diff).toMatchObject({
+      sectionsAdded: ["Expansion"],
+      sectionsRemoved: ["Timeline"],
+      sectionsModified: ["Outcomes"],
+    });
+    expect(diff.summary).toContain("1 section added, 1 section updated, 1 section removed");
+  });
+});
+
+describe("diffStoryQuotes", () => {
+  it("matches quotes regardless of case and punctuation", () => {
+    const diff = diffStoryQuotes(
+      [{ quoteText: "We saved 10 hours a week." }, { quoteText: "Support tickets fell 30%" }],
+      [quote("we saved 10 hours a week"), quote("Renewal was a no-brainer."), quote("Renewal was a no-brainer")]
+    );
+
+    expect(diff.added.map((q) => q.quoteText)).toEqual(["Renewal was a no-brainer."]);
+    expect(diff.removed.map((q) => q.quoteText)).toEqual(["Support tickets fell 30%"]);
+    expect(diff.unchanged).toBe(1);
+  });
+});
+
+describe("threeWayMerge", () => {
+  const base = "Title\nIntro.\n\nResult: half.\nClosing.";
+
+  it("combines non-overlapping edits from both sides", () => {
+    const ours = "Title\nIntro, rewritten by the editor.\n\nResult: half.\nClosing.";
+    const theirs = "Title\nIntro.\n\nResult: 70%.\nClosing.\nNew paragraph.";
+
+    expect(threeWayMerge(base, ours, theirs)).toEqual({
+      merged: "Title\nIntro, rewritten by the editor.\n\nResult: 70%.\nClosing.\nNew paragraph.",
+      conflicts: [],
+    });
+  });
+
+  it("reports overlapping edits and keeps the editor's text unless told otherwise", () => {
+    const ours = "Title\nIntro.\n\nResult: about half.\nClosing.";
+    const theirs = "Title\nIntro.\n\nResult: 70%.\nClosing.";
+
+    const result = threeWayMerge(base, ours, theirs);
+    expect(result.conflicts).toEqual([
+      { index: 0, base: "Result: half.", ours: "Result: about half.", theirs: "Result: 70%." },
+    ]);
+    expect(result.merged).toBe(ours);
+    expect(threeWayMerge(base, ours, theirs, ["theirs"]).merged).toBe(theirs);
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * Story Revision Diff
+ *
+ * Section-aware comparison of two versions of a story's markdown. Stories
+ * are split on their headings so an editor can accept or reject each
+ * regenerated section on its own, and a line-level three-way merge carries
+ * the accepted story into landing-page drafts without losing the editor's
+ * own changes.
+ *
+ * Everything here is pure; persistence lives in story-revisions.ts.
+ */
+
+import { diffArrays, diffLines } from "diff";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface StorySection {
+  /** Stable key: the normalized heading, suffixed when a heading repeats. */
+  key: string;
+  /** Heading text, or null for content before the first heading. */
+  heading: string | null;
+  /** The section as written, heading line included. */
+  markdown: string;
+}
+
+export type SectionChange = "unchanged" | "modified" | "added" | "removed";
+
+export interface DiffLine {
+  type: "context" | "added" | "removed";
+  text: string;
+}
+
+export interface StorySectionDiff {
+  key: string;
+  heading: string | null;
+  change: SectionChange;
+  current: string | null;
+  proposed: string | null;
+  lines: DiffLine[];
+}
+
+export type RevisionDecision = "accept" | "reject";
+
+export interface RevisionQuote {
+  quoteText: string;
+  speaker: string | null;
+  context: string | null;
+  metricType: string | null;
+  metricValue: string | null;
+  callId: string | null;
+  language: string | null;
+  translation: string | null;
+}
+
+export interface StoryQuoteDiff {
+  added: Array<RevisionQuote & { key: string }>;
+  removed: Array<{ key: string; quoteText: string }>;
+  unchanged: number;
+}
+
+export interface MergeConflict {
+  index: number;
+  base: string;
+  ours: string;
+  theirs: string;
+}
+
+export interface ThreeWayMergeResult {
+  merged: string;
+  conflicts: MergeConflict[];
+}
+
+export type ConflictResolution = "ours" | "theirs";
+
+export interface StoryDiff {
+  /** Human-readable summary sentence */
+  summary: string;
+  sectionsAdded: string[];
+  sectionsRemoved: string[];
+  sectionsModified: string[];
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+// ─── Sections ────────────────────────────────────────────────────────────────
+
+const HEADING_PATTERN = /^#{1,3}\s+(.+)$/;
+const PREAMBLE_KEY = "_preamble";
+
+function headingKey(heading: string): string {
+  return heading.toLowerCase().replace(/[*_`]/g, "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Splits markdown on level 1-3 headings. Joining the sections' markdown
+ * with "\n" gives back the original text exactly.
+ */
+export function splitStorySections(markdown: string): StorySection[] {
+  const groups: Array<{ heading: string | null; lines: string[] }> = [];
+  for (const line of markdown.split("\n")) {
+    const match = line.match(HEADING_PATTERN);
+    if (match) {
+      groups.push({ heading: match[1].trim(), lines: [line] });
+    } else if (groups.length === 0) {
+      groups.push({ heading: null, lines: [line] });
+    } else {
+      groups[groups.length - 1].lines.push(line);
+    }
+  }
+
+  const seen = new Map<string, number>();
+  return groups.map((group) => {
+    const base = group.heading === null ? PREAMBLE_KEY : headingKey(group.heading);
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return {
+      key: count === 1 ? base : `${base}#${count}`,
+      heading: group.heading,
+      markdown: group.lines.join("\n"),
+    };
+  });
+}
+
+function lineDiff(current: string | null, proposed: string | null): DiffLine[] {
+  const lines: DiffLine[] = [];
+  for (const part of diffArrays((current ?? "").split("\n"), (proposed ?? "").split("\n"))) {
+    const type = part.added ? "added" : part.removed ? "removed" : "context";
+    for (const text of part.value) lines.push({ type, text });
+  }
+  return lines;
+}
+
+/**
+ * Pairs the sections of the current and proposed story by heading. The
+ * result follows the proposed order, with sections only the current story
+ * has placed right after the section they used to follow.
+ */
+export function diffStorySections(currentMarkdown: string, proposedMarkdown: string): StorySectionDiff[] {
+  const current = splitStorySections(currentMarkdown);
+  const proposed = splitStorySections(proposedMarkdown);
+  const currentIndex = new Map(current.map((section, index) => [section.key, index]));
+  const proposedKeys = new Set(proposed.map((section) => section.key));
+
+  const diffs: StorySectionDiff[] = [];
+  const pushRemoved = (section: StorySection) =>
+    diffs.push({
+      key: section.key,
+      heading: section.heading,
+      change: "removed",
+      current: section.markdown,
+      proposed: null,
+      lines: lineDiff(section.markdown, null).filter((line) => line.type !== "added"),
+    });
+
+  let cursor = 0;
+  for (const section of proposed) {
+    const index = currentIndex.get(section.key);
+    if (index === undefined) {
+      diffs.push({
+        key: section.key,
+        heading: section.heading,
+        change: "added",
+        current: null,
+        proposed: section.markdown,
+        lines: lineDiff(null, section.markdown).filter((line) => line.type !== "removed"),
+      });
+      continue;
+    }
+    for (; cursor < index; cursor += 1) {
+      if (!proposedKeys.has(current[cursor].key)) pushRemoved(current[cursor]);
+    }
+    cursor = Math.max(cursor, index + 1);
+
+    const previous = current[index].markdown;
+    const unchanged = previous.trim() === section.markdown.trim();
+    diffs.push({
+      key: section.key,
+      heading: section.heading,
+      change: unchanged ? "unchanged" : "modified",
+      current: previous,
+      proposed: section.markdown,
+      lines: unchanged ? [] : lineDiff(previous, section.markdown),
+    });
+    for (; cursor < current.length && !proposedKeys.has(current[cursor].key); cursor += 1) {
+      pushRemoved(current[cursor]);
+    }
+  }
+  for (; cursor < current.length; cursor += 1) {
+    if (!proposedKeys.has(current[cursor].key)) pushRemoved(current[cursor]);
+  }
+
+  return diffs;
+}
+
+/**
+ * Builds the story body from per-section decisions. Sections without a
+ * decision keep their current text, so nothing changes unless accepted.
+ */
+export function mergeStorySections(
+  currentMarkdown: string,
+  proposedMarkdown: string,
+  decisions: Record<string, RevisionDecision>
+): string {
+  const kept: string[] = [];
+  for (const diff of diffStorySections(currentMarkdown, proposedMarkdown)) {
+    const accepted = decisions[diff.key] === "accept";
+    if (diff.change === "added") {
+      if (accepted) kept.push(diff.proposed!);
+    } else if (diff.change === "removed") {
+      if (!accepted) kept.push(diff.current!);
+    } else {
+      kept.push(accepted ? diff.proposed! : diff.current!);
+    }
+  }
+  return kept.join("\n");
+}
+
+/**
+ * Section-level summary used by the weekly regeneration digest. Content
+ * before the first heading is not a named section and is left out.
+ */
+export function computeStoryDiff(oldMarkdown: string, newMarkdown: string): StoryDiff {
+  const named = diffStorySections(oldMarkdown, newMarkdown).filter((diff) => diff.heading !== null);
+  const headingsWith = (change: SectionChange) =>
+    named.filter((diff) => diff.change === change).map((diff) => diff.heading!);
+  const sectionsAdded = headingsWith("added");
+  const sectionsRemoved = headingsWith("removed");
+  const sectionsModified = headingsWith("modified");
+
+  let linesAdded = 0;
+  let linesRemoved = 0;
+  for (const part of diffLines(oldMarkdown, newMarkdown)) {
+    if (part.added) linesAdded += part.count ?? 0;
+    if (part.removed) linesRemoved += part.count ?? 0;
+  }
+
+  const parts: string[] = [];
+  const describe = (count: number, verb: string) => {
+    if (count > 0) parts.push(`${count} section${count > 1 ? "s" : ""} ${verb}`);
+  };
+  describe(sectionsAdded.length, "added");
+  describe(sectionsModified.length, "updated");
+  describe(sectionsRemoved.length, "removed");
+  if (parts.length === 0) {
+    parts.push("minor wording changes");
+  }
+
+  const summary =
+    `Story regenerated with ${linesAdded} line${linesAdded === 1 ? "" : "s"} added and ${linesRemoved} removed — ${parts.join(", ")}.`;
+
+  return { summary, sectionsAdded, sectionsRemoved, sectionsModified, linesAdded, linesRemoved };
+}
+
+// ─── Quotes ──────────────────────────────────────────────────────────────────
+
+export function quoteKey(quoteText: string): string {
+  return quoteText
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+    .slice(0, 200);
+}
+
+export function diffStoryQuotes(
+  current: Array<{ quoteText: string }>,
+  proposed: RevisionQuote[]
+): StoryQuoteDiff {
+  const currentKeys = new Set(current.map((quote) => quoteKey(quote.quoteText)));
+  const proposedKeys = new Set(proposed.map((quote) => quoteKey(quote.quoteText)));
+
+  const added: StoryQuoteDiff["added"] = [];
+  const addedKeys = new Set<string>();
+  for (const quote of proposed) {
+    const key = quoteKey(quote.quoteText);
+    if (currentKeys.has(key) || addedKeys.has(key)) continue;
+    addedKeys.add(key);
+    added.push({ ...quote, key });
+  }
+
+  const removed = current
+    .map((quote) => ({ key: quoteKey(quote.quoteText), quoteText: quote.quoteText }))
+    .filter((quote) => !proposedKeys.has(quote.key));
+
+  return { added, removed, unchanged: currentKeys.size - removed.length };
+}
+
+// ─── Three-Way Merge ─────────────────────────────────────────────────────────
+
+/** For each base line, the index of the matching line in `other`, or -1. */
+function matchLines(base: string[], other: string[]): number[] {
+  const matches = new Array<number>(base.length).fill(-1);
+  let baseIndex = 0;
+  let otherIndex = 0;
+  for (const part of diffArrays(base, other)) {
+    const count = part.value.length;
+    if (part.added) {
+      otherIndex += count;
+    } else if (part.removed) {
+      baseIndex += count;
+    } else {
+      for (let offset = 0; offset < count; offset += 1) {
+        matches[baseIndex + offset] = otherIndex + offset;
+      }
+      baseIndex += count;
+      otherIndex += count;
+    }
+  }
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Line-based diff3. `ours` is the editor's draft, `theirs` the updated
+ * story, `base` the story text the draft started from. Where both sides
+ * changed the same lines differently, the conflict is reported and
+ * resolved from `resolutions` (by conflict index), keeping the editor's
+ * text by default.
+ */
+export function threeWayMerge(
+  base: string,
+  ours: string,
+  theirs: string,
+  resolutions: ConflictResolution[] = []
+): ThreeWayMergeResult {
+  const baseLines = base.split("\n");
+  const ourLines = ours.split("\n");
+  const theirLines = theirs.split("\n");
+  const ourMatch = matchLines(baseLines, ourLines);
+  const theirMatch = matchLines(baseLines, theirLines);
+
+  const merged: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  let b = 0;
+  let o = 0;
+  let t = 0;
+
+  while (b <= baseLines.length) {
+    // Next base line that both sides kept is the end of the current hunk.
+    let anchor = b;
+    while (anchor < baseLines.length && (ourMatch[anchor] < 0 || theirMatch[anchor] < 0)) {
+      anchor += 1;
+    }
+    const ourEnd = anchor < baseLines.length ? ourMatch[anchor] : ourLines.length;
+    const theirEnd = anchor < baseLines.length ? theirMatch[anchor] : theirLines.length;
+
+    const baseChunk = baseLines.slice(b, anchor);
+    const ourChunk = ourLines.slice(o, ourEnd);
+    const theirChunk = theirLines.slice(t, theirEnd);
+
+    if (sameLines(ourChunk, baseChunk)) {
+      merged.push(...theirChunk);
+    } else if (sameLines(theirChunk, baseChunk) || sameLines(ourChunk, theirChunk)) {
+      merged.push(...ourChunk);
+    } else {
+      const index = conflicts.length;
+      conflicts.push({
+        index,
+        base: baseChunk.join("\n"),
+        ours: ourChunk.join("\n"),
+        theirs: theirChunk.join("\n"),
+      });
+      merged.push(...(resolutions[index] === "theirs" ? theirChunk : ourChunk));
+    }
+
+    if (anchor >= baseLines.length) break;
+    merged.push(baseLines[anchor]);
+    b = anchor + 1;
+    o = ourEnd + 1;
+    t = theirEnd + 1;
+  }
+
+  return { merged: merged.join("\n"), conflicts };
+}
@@ -0,0 +1,446 @@
+/**
+ * Story Revisions
+ *
+ * Keeps the history of a story's markdown so a regenerated version can be
+ * reviewed section by section instead of silently replacing the old one.
+ *
+ *   GENERATED    snapshot of the body the story was first built with
+ *   REGENERATED  a proposal from weekly regeneration, PENDING until reviewed
+ *   MERGED       the body that came out of reviewing a proposal
+ *
+ * The story's current body is its latest APPLIED GENERATED or MERGED
+ * revision. Landing pages remember the body revision their draft started
+ * from, which is the base for carrying later changes into the draft.
+ */
+
+import type { PrismaClient, StoryRevision } from "@prisma/client";
+import {
+  diffStoryQuotes,
+  diffStorySections,
+  mergeStorySections,
+  threeWayMerge,
+  type ConflictResolution,
+  type MergeConflict,
+  type RevisionDecision,
+  type RevisionQuote,
+  type StoryQuoteDiff,
+  type StorySectionDiff,
+} from "./story-revision-diff.js";
+import { ConcurrencyConflictError } from "./landing-page-editor.js";
+import { decodeRevisionQuotes } from "../types/json-boundaries.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface StoryRevisionReview {
+  revision: StoryRevision;
+  sections: StorySectionDiff[];
+  quotes: StoryQuoteDiff;
+}
+
+export interface ApplyRevisionInput {
+  storyId: string;
+  revisionId: string;
+  organizationId: string;
+  userId: string;
+  /** Decisions by section key; sections left out keep their current text. */
+  sections: Record<string, RevisionDecision>;
+  /** Decisions by quote key for quotes the proposal adds. */
+  quotes: Record<string, RevisionDecision>;
+}
+
+export interface ApplyRevisionResult {
+  proposal: StoryRevision;
+  /** The new body revision, or null when nothing was accepted. */
+  merged: StoryRevision | null;
+  quotesAdded: number;
+}
+
+export interface PageMergePreview {
+  pageId: string;
+  title: string;
+  status: string;
+  updatedAt: Date;
+  /** Revision number the draft was built from, null for pages older than revisions. */
+  baseRevisionNumber: number | null;
+  targetRevisionNumber: number;
+  /** Whether the editor changed the draft since it was built from the story. */
+  draftEdited: boolean;
+  merged: string;
+  conflicts: MergeConflict[];
+}
+
+export class StoryRevisionStateError extends Error {
+  status: string;
+
+  constructor(status: string) {
+    super(`Story revision is ${status.toLowerCase()} and can no longer be reviewed.`);
+    this.name = "StoryRevisionStateError";
+    this.status = status;
+  }
+}
+
+const BODY_SOURCES = ["GENERATED", "MERGED"] as const;
+
+// ─── Service ─────────────────────────────────────────────────────────────────
+
+export class StoryRevisionService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async getCurrentBodyRevision(storyId: string): Promise<StoryRevision | null> {
+    return this.prisma.storyRevision.findFirst({
+      where: { storyId, status: "APPLIED", source: { in: [...BODY_SOURCES] } },
+      orderBy: { revisionNumber: "desc" },
+    });
+  }
+
+  /**
+   * Stories built before revisions existed have none; their body at the
+   * time of the first proposal becomes revision 1.
+   */
+  async ensureBaseRevision(story: {
+    id: string;
+    organizationId: string;
+    markdownBody: string;
+  }): Promise<StoryRevision> {
+    const current = await this.getCurrentBodyRevision(story.id);
+    if (current) return current;
+    return this.prisma.storyRevision.create({
+      data: {
+        organizationId: story.organizationId,
+        storyId: story.id,
+        revisionNumber: await this.nextRevisionNumber(story.id),
+        source: "GENERATED",
+        status: "APPLIED",
+        markdownBody: story.markdownBody,
+      },
+    });
+  }
+
+  /**
+   * Records a regenerated story as a pending proposal on the story it
+   * would replace. Any older pending proposal is superseded.
+   */
+  async proposeRegeneration(input: {
+    storyId: string;
+    sourceStoryId: string;
+    markdownBody: string;
+    quotes: RevisionQuote[];
+  }): Promise<StoryRevision> {
+    const story = await this.prisma.story.findUniqueOrThrow({
+      where: { id: input.storyId },
+      select: { id: true, organizationId: true, markdownBody: true },
+    });
+    const base = await this.ensureBaseRevision(story);
+
+    await this.prisma.storyRevision.updateMany({
+      where: { storyId: story.id, source: "REGENERATED", status: "PENDING" },
+      data: { status: "SUPERSEDED" },
+    });
+
+    return this.prisma.storyRevision.create({
+      data: {
+        organizationId: story.organizationId,
+        storyId: story.id,
+        revisionNumber: await this.nextRevisionNumber(story.id),
+        source: "REGENERATED",
+        status: "PENDING",
+        markdownBody: input.markdownBody,
+        quotes: input.quotes.map((quote) => ({ ...quote })),
+        sourceStoryId: input.sourceStoryId,
+        parentRevisionId: base.id,
+      },
+    });
+  }
+
+  async listRevisions(storyId: string, organizationId: string) {
+    return this.prisma.storyRevision.findMany({
+      where: { storyId, organizationId },
+      orderBy: { revisionNumber: "desc" },
+      select: {
+        id: true,
+        revisionNumber: true,
+        source: true,
+        status: true,
+        sourceStoryId: true,
+        parentRevisionId: true,
+        createdByUserId: true,
+        reviewedByUserId: true,
+        reviewedAt: true,
+        createdAt: true,
+      },
+    });
+  }
+
+  /**
+   * Diffs a proposal against the story as it is now, so earlier merges are
+   * not shown again as changes.
+   */
+  async getReview(
+    storyId: string,
+    revisionId: string,
+    organizationId: string
+  ): Promise<StoryRevisionReview | null> {
+    const revision = await this.prisma.storyRevision.findFirst({
+      where: { id: revisionId, storyId, organizationId },
+    });
+    if (!revision) return null;
+
+    const story = await this.prisma.story.findUniqueOrThrow({
+      where: { id: storyId },
+      select: { markdownBody: true, quotes: { select: { quoteText: true } } },
+    });
+
+    return {
+      revision,
+      sections: diffStorySections(story.markdownBody, revision.markdownBody),
+      quotes: diffStoryQuotes(story.quotes, decodeRevisionQuotes(revision.quotes)),
+    };
+  }
+
+  /**
+   * Applies the accepted sections and quotes of a pending proposal. The
+   * proposal is marked APPLIED, or REJECTED when nothing was accepted.
+   * Quotes the proposal drops are only reported; existing quotes are never
+   * deleted here.
+   */
+  async applyRevision(input: ApplyRevisionInput): Promise<ApplyRevisionResult | null> {
+    const review = await this.getReview(input.storyId, input.revisionId, input.organizationId);
+    if (!review) return null;
+    const proposal = review.revision;
+    if (proposal.status !== "PENDING") {
+      throw new StoryRevisionStateError(proposal.status);
+    }
+
+    const story = await this.prisma.story.findUniqueOrThrow({
+      where: { id: input.storyId },
+      select: { id: true, organizationId: true, markdownBody: true },
+    });
+    await this.ensureBaseRevision(story);
+
+    const mergedBody = mergeStorySections(story.markdownBody, proposal.markdownBody, input.sections);
+    const acceptedQuotes = review.quotes.added.filter((quote) => input.quotes[quote.key] === "accept");
+    const bodyChanged = mergedBody !== story.markdownBody;
+    const anyAccepted = bodyChanged || acceptedQuotes.length > 0;
+    const revisionNumber = await this.nextRevisionNumber(story.id);
+
+    const [updatedProposal, merged] = await this.prisma.$transaction(async (tx) => {
+      let mergedRevision: StoryRevision | null = null;
+      if (bodyChanged) {
+        mergedRevision = await tx.storyRevision.create({
+          data: {
+            organizationId: story.organizationId,
+            storyId: story.id,
+            revisionNumber,
+            source: "MERGED",
+            status: "APPLIED",
+            markdownBody: mergedBody,
+            parentRevisionId: proposal.id,
+            createdByUserId: input.userId,
+          },
+        });
+        await tx.story.update({
+          where: { id: story.id },
+          data: { markdownBody: mergedBody },
+        });
+      }
+
+      for (const quote of acceptedQuotes) {
+        await tx.highValueQuote.create({
+          data: {
+            storyId: story.id,
+            speaker: quote.speaker,
+            quoteText: quote.quoteText,
+            language: quote.language,
+            translation: quote.translation,
+            context: quote.context,
+            metricType: quote.metricType,
+            metricValue: quote.metricValue,
+            callId: quote.callId,
+          },
+        });
+      }
+
+      const reviewed = await tx.storyRevision.update({
+        where: { id: proposal.id },
+        data: {
+          status: anyAccepted ? "APPLIED" : "REJECTED",
+          reviewDecisions: { sections: input.sections, quotes: input.quotes },
+          reviewedByUserId: input.userId,
+          reviewedAt: new Date(),
+        },
+      });
+      return [reviewed, mergedRevision] as const;
+    });
+
+    return { proposal: updatedProposal, merged, quotesAdded: acceptedQuotes.length };
+  }
+
+  async rejectRevision(
+    storyId: string,
+    revisionId: string,
+    organizationId: string,
+    userId: string
+  ): Promise<StoryRevision | null> {
+    const revision = await this.prisma.storyRevision.findFirst({
+      where: { id: revisionId, storyId, organizationId },
+    });
+    if (!revision) return null;
+    if (revision.status !== "PENDING") {
+      throw new StoryRevisionStateError(revision.status);
+    }
+    return this.prisma.storyRevision.update({
+      where: { id: revision.id },
+      data: { status: "REJECTED", reviewedByUserId: userId, reviewedAt: new Date() },
+    });
+  }
+
+  // ─── Landing Pages ───────────────────────────────────────────────
+
+  /**
+   * Three-way merges the story's current body into every draft that was
+   * built from an older body: base is the body the draft started from,
+   * ours the editor's draft, theirs the story as it is now.
+   */
+  async previewPageMerges(storyId: string, organizationId: string): Promise<PageMergePreview[]> {
+    const current = await this.getCurrentBodyRevision(storyId);
+    if (!current) return [];
+
+    const pages = await this.prisma.landingPage.findMany({
+      where: {
+        storyId,
+        organizationId,
+        status: { not: "ARCHIVED" },
+        OR: [{ storyRevisionId: null }, { storyRevisionId: { not: current.id } }],
+      },
+      orderBy: { updatedAt: "desc" },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        updatedAt: true,
+        editableBody: true,
+        storyRevisionId: true,
+      },
+    });
+
+    const previews: PageMergePreview[] = [];
+    for (const page of pages) {
+      const base = await this.getPageBaseRevision(storyId, page.storyRevisionId);
+      if (!base || base.id === current.id) continue;
+      const result = threeWayMerge(base.markdownBody, page.editableBody, current.markdownBody);
+      previews.push({
+        pageId: page.id,
+        title: page.title,
+        status: page.status,
+        updatedAt: page.updatedAt,
+        baseRevisionNumber: page.storyRevisionId ? base.revisionNumber : null,
+        targetRevisionNumber: current.revisionNumber,
+        draftEdited: page.editableBody !== base.markdownBody,
+        merged: result.merged,
+        conflicts: result.conflicts,
+      });
+    }
+    return previews;
+  }
+
+  /**
+   * Writes the merged draft to the page and moves its base to the story's
+   * current body. `expectedUpdatedAt` is the page version the preview was
+   * computed from; a page edited since then is not overwritten.
+   */
+  async applyPageMerge(input: {
+    storyId: string;
+    pageId: string;
+    organizationId: string;
+    userId: string;
+    expectedUpdatedAt: Date;
+    resolutions: ConflictResolution[];
+  }): Promise<{ updatedAt: Date; conflicts: MergeConflict[] } | null> {
+    const page = await this.prisma.landingPage.findFirst({
+      where: { id: input.pageId, storyId: input.storyId, organizationId: input.organizationId },
+      select: { id: true, editableBody: true, updatedAt: true, storyRevisionId: true },
+    });
+    const current = await this.getCurrentBodyRevision(input.storyId);
+    if (!page || !current) return null;
+
+    if (page.updatedAt.getTime() !== input.expectedUpdatedAt.getTime()) {
+      throw new ConcurrencyConflictError({
+        expectedUpdatedAt: input.expectedUpdatedAt,
+        currentUpdatedAt: page.updatedAt,
+        currentEditableBody: page.editableBody,
+      });
+    }
+
+    const base = await this.getPageBaseRevision(input.storyId, page.storyRevisionId);
+    if (!base) return null;
+    const result = threeWayMerge(
+      base.markdownBody,
+      page.editableBody,
+      current.markdownBody,
+      input.resolutions
+    );
+
+    const updateResult = await this.prisma.landingPage.updateMany({
+      where: { id: page.id, updatedAt: page.updatedAt },
+      data: { editableBody: result.merged, storyRevisionId: current.id },
+    });
+    if (updateResult.count === 0) {
+      const latest = await this.prisma.landingPage.findUniqueOrThrow({
+        where: { id: page.id },
+        select: { updatedAt: true, editableBody: true },
+      });
+      throw new ConcurrencyConflictError({
+        expectedUpdatedAt: input.expectedUpdatedAt,
+        currentUpdatedAt: latest.updatedAt,
+        currentEditableBody: latest.editableBody,
+      });
+    }
+
+    if (result.merged !== page.editableBody) {
+      await this.prisma.landingPageEdit.create({
+        data: {
+          landingPageId: page.id,
+          editedById: input.userId,
+          previousBody: page.editableBody,
+          newBody: result.merged,
+          editSummary: `Merged story revision ${current.revisionNumber}`,
+        },
+      });
+    }
+
+    const updated = await this.prisma.landingPage.findUniqueOrThrow({
+      where: { id: page.id },
+      select: { updatedAt: true },
+    });
+    return { updatedAt: updated.updatedAt, conflicts: result.conflicts };
+  }
+
+  // ─── Helpers ─────────────────────────────────────────────────────
+
+  /** Pages created before revisions existed started from revision 1. */
+  private async getPageBaseRevision(
+    storyId: string,
+    storyRevisionId: string | null
+  ): Promise<StoryRevision | null> {
+    if (storyRevisionId) {
+      return this.prisma.storyRevision.findUnique({ where: { id: storyRevisionId } });
+    }
+    return this.prisma.storyRevision.findFirst({
+      where: { storyId, source: "GENERATED" },
+      orderBy: { revisionNumber: "asc" },
+    });
+  }
+
+  private async nextRevisionNumber(storyId: string): Promise<number> {
+    const latest = await this.prisma.storyRevision.findFirst({
+      where: { storyId },
+      orderBy: { revisionNumber: "desc" },
+      select: { revisionNumber: true },
+    });
+    return (latest?.revisionNumber ?? 0) + 1;
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { checkTemplateCoverage, storyTemplateGuide } from "./story-template-outline.js";
+import type { StoryTemplateDefinition } from "../types/story-generation.js";
+
+const definition: StoryTemplateDefinition = {
+  storyLength: "SHORT",
+  audience: "Finance leaders",
+  promptBlock: null,
+  sections: [
+    { heading: "The Challenge", instructions: "What was broken.", minQuotes: 1, requiredMetrics: [] },
+    {
+      heading: "Results",
+      instructions: "Quantified outcomes.",
+      minQuotes: 2,
+      requiredMetrics: ["cost_savings", "roi"],
+    },
+  ],
+};
+
+describe("storyTemplateGuide", () => {
+  it("lists sections in order with their slots", () => {
+    const guide = storyTemplateGuide(definition);
+    expect(guide).toContain("1. The Challenge: What was broken. (include at least 1 direct customer quote)");
+    expect(guide).toContain(
+      "2. Results: Quantified outcomes. (include at least 2 direct customer quotes; quantify cost savings, ROI)"
+    );
+  });
+});
+
+describe("checkTemplateCoverage", () => {
+  const quotes = [
+    { quoteText: "We cut spend by $40k", metricType: "cost_savings", metricValue: "$40k" },
+    { quoteText: "It paid back in a quarter", metricType: "roi", metricValue: "3x" },
+  ];
+
+  it("reports filled and missing slots per section", () => {
+    const markdown = [
+      "# Acme Story",
+      "## The **Challenge**",
+      '> "Nothing talked to anything."',
+      "## Results",
+      'Acme saved $40k. As the CFO put it, "we cut spend fast".',
+    ].join("\n");
+
+    const coverage = checkTemplateCoverage(markdown, definition, quotes);
+
+    expect(coverage.sections).toEqual([
+      { heading: "The Challenge", found: true, quotes: 1, minQuotes: 1, missingMetrics: [] },
+      { heading: "Results", found: true, quotes: 1, minQuotes: 2, missingMetrics: ["roi"] },
+    ]);
+    expect(coverage.complete).toBe(false);
+  });
+
+  it("marks absent sections as missing every slot", () => {
+    const coverage = checkTemplateCoverage("## Overview\nText.", definition, quotes);
+    expect(coverage.sections[1]).toEqual({
+      heading: "Results",
+      found: false,
+      quotes: 0,
+      minQuotes: 2,
+      missingMetrics: ["cost_savings", "roi"],
+    });
+  });
+
+  it("is complete when every slot is filled", () => {
+    const markdown = [
+      "## The Challenge",
+      '"Nothing talked to anything at all."',
+      "## Key Results",
+      '> "We cut spend by $40k."',
+      '> "It returned 3x in a year."',
+    ].join("\n");
+
+    expect(checkTemplateCoverage(markdown, definition, quotes).complete).toBe(true);
+  });
+});
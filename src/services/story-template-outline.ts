@@ -0,0 +1,126 @@
+/**
+ * Story Template Outline
+ *
+ * Turns an org story template into prompt instructions, and checks a
+ * generated story against the template: every section present, each with
+ * its required quotes and metrics. Coverage is reported alongside the story
+ * rather than enforced, so a template that asks for evidence the calls do
+ * not contain still produces a draft.
+ *
+ * Everything here is pure; persistence lives in story-templates.ts.
+ */
+
+import type { QuoteMetricType, StoryTemplateDefinition } from "../types/story-generation.js";
+import { splitStorySections } from "./story-revision-diff.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface TemplateSectionCoverage {
+  heading: string;
+  /** Whether the story has a section with this heading. */
+  found: boolean;
+  quotes: number;
+  minQuotes: number;
+  missingMetrics: QuoteMetricType[];
+}
+
+export interface StoryTemplateCoverage {
+  sections: TemplateSectionCoverage[];
+  /** True when every section is present and has all of its slots filled. */
+  complete: boolean;
+}
+
+/** The fields of an extracted quote coverage needs. */
+export interface CoverageQuote {
+  quoteText: string;
+  metricType: string | null;
+  metricValue: string | null;
+}
+
+// ─── Prompt ──────────────────────────────────────────────────────────────────
+
+function metricLabel(metric: QuoteMetricType): string {
+  return metric === "roi" ? "ROI" : metric.replace(/_/g, " ");
+}
+
+/** Section-by-section outline for the system prompt. */
+export function storyTemplateGuide(definition: StoryTemplateDefinition): string {
+  const sections = definition.sections.map((section, index) => {
+    const slots = [
+      section.minQuotes > 0
+        ? `include at least ${section.minQuotes} direct customer quote${section.minQuotes === 1 ? "" : "s"}`
+        : null,
+      section.requiredMetrics.length > 0
+        ? `quantify ${section.requiredMetrics.map(metricLabel).join(", ")}`
+        : null,
+    ].filter(Boolean);
+    return `  ${index + 1}. ${section.heading}: ${section.instructions}${slots.length > 0 ? ` (${slots.join("; ")})` : ""}`;
+  });
+  return `Use exactly these sections, in this order, each as a "##" heading:\n${sections.join("\n")}`;
+}
+
+// ─── Coverage ────────────────────────────────────────────────────────────────
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[*_`"“”]/g, "").replace(/\s+/g, " ").trim();
+}
+
+// Blockquote lines, and quoted passages of three or more words.
+const QUOTE_PATTERN = /^>\s*\S.*$|["“][^"“”\n]*\S\s+\S+\s+\S[^"“”\n]*["”]/gm;
+
+function countQuotes(markdown: string): number {
+  return markdown.match(QUOTE_PATTERN)?.length ?? 0;
+}
+
+/**
+ * A metric is covered when the section states the value of a quote of that
+ * type, or, for quotes without a value, when the section has any number.
+ */
+function coversMetric(sectionText: string, metric: QuoteMetricType, quotes: CoverageQuote[]): boolean {
+  return quotes.some((quote) => {
+    if (quote.metricType !== metric) return false;
+    if (!quote.metricValue) return /\d/.test(sectionText);
+    return sectionText.includes(normalize(quote.metricValue));
+  });
+}
+
+/**
+ * Matches each template section to the story section whose heading
+ * contains it (ignoring case and emphasis), and counts its filled slots.
+ */
+export function checkTemplateCoverage(
+  markdown: string,
+  definition: StoryTemplateDefinition,
+  quotes: CoverageQuote[]
+): StoryTemplateCoverage {
+  const storySections = splitStorySections(markdown).filter((section) => section.heading !== null);
+
+  const sections = definition.sections.map((section): TemplateSectionCoverage => {
+    const wanted = normalize(section.heading);
+    const match = storySections.find((candidate) => normalize(candidate.heading!).includes(wanted));
+    if (!match) {
+      return {
+        heading: section.heading,
+        found: false,
+        quotes: 0,
+        minQuotes: section.minQuotes,
+        missingMetrics: [...section.requiredMetrics],
+      };
+    }
+    const text = normalize(match.markdown);
+    return {
+      heading: section.heading,
+      found: true,
+      quotes: countQuotes(match.markdown),
+      minQuotes: section.minQuotes,
+      missingMetrics: section.requiredMetrics.filter((metric) => !coversMetric(text, metric, quotes)),
+    };
+  });
+
+  return {
+    sections,
+    complete: sections.every(
+      (section) => section.found && section.quotes >= section.minQuotes && section.missingMetrics.length === 0
+    ),
+  };
+}
@@ -0,0 +1,233 @@
+/**
+ * Story Templates
+ *
+ * Org-defined story outlines: named sections with per-section instructions,
+ * required quote and metric slots, a target length and a default audience.
+ * A template's definition is never edited in place; each change adds a
+ * version, and stories record the version they were generated from so a
+ * later edit does not change what an existing story was asked to follow.
+ *
+ * Archived templates are hidden from the generator but still resolve for
+ * scheduled regeneration of stories that were built from them.
+ */
+
+import type { PrismaClient, StoryTemplate, StoryTemplateVersion } from "@prisma/client";
+import type { StoryTemplateDefinition } from "../types/story-generation.js";
+import { decodeStoryTemplateDefinition, encodeJsonValue } from "../types/json-boundaries.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** A template version ready to hand to the story builder. */
+export interface ResolvedStoryTemplate {
+  templateId: string;
+  versionId: string;
+  name: string;
+  version: number;
+  definition: StoryTemplateDefinition;
+}
+
+export interface StoryTemplateWithVersion extends StoryTemplate {
+  definition: StoryTemplateDefinition;
+}
+
+export interface StoryTemplateDetail extends StoryTemplateWithVersion {
+  versions: Array<Pick<StoryTemplateVersion, "id" | "version" | "createdByUserId" | "createdAt">>;
+}
+
+export interface CreateStoryTemplateInput {
+  organizationId: string;
+  userId: string;
+  name: string;
+  description?: string | null;
+  definition: StoryTemplateDefinition;
+}
+
+export interface UpdateStoryTemplateInput {
+  organizationId: string;
+  templateId: string;
+  userId: string;
+  name?: string;
+  description?: string | null;
+  /** A new definition adds a version; an identical one is ignored. */
+  definition?: StoryTemplateDefinition;
+}
+
+export class StoryTemplateNameConflictError extends Error {
+  constructor(name: string) {
+    super(`A story template named "${name}" already exists`);
+    this.name = "StoryTemplateNameConflictError";
+  }
+}
+
+export const MAX_STORY_TEMPLATES = 50;
+
+// ─── Service ─────────────────────────────────────────────────────────────────
+
+export class StoryTemplateService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async listTemplates(
+    organizationId: string,
+    options: { includeArchived?: boolean } = {}
+  ): Promise<StoryTemplateWithVersion[]> {
+    const templates = await this.prisma.storyTemplate.findMany({
+      where: {
+        organizationId,
+        ...(options.includeArchived ? {} : { archivedAt: null }),
+      },
+      include: { versions: { orderBy: { version: "desc" }, take: 1 } },
+      orderBy: { name: "asc" },
+    });
+    return templates.flatMap(({ versions, ...template }) => {
+      const definition = decodeStoryTemplateDefinition(versions[0]?.definition);
+      return definition ? [{ ...template, definition }] : [];
+    });
+  }
+
+  async getTemplate(organizationId: string, templateId: string): Promise<StoryTemplateDetail | null> {
+    const template = await this.prisma.storyTemplate.findFirst({
+      where: { id: templateId, organizationId },
+      include: { versions: { orderBy: { version: "desc" } } },
+    });
+    const definition = decodeStoryTemplateDefinition(template?.versions[0]?.definition);
+    if (!template || !definition) {
+      return null;
+    }
+    const { versions, ...rest } = template;
+    return {
+      ...rest,
+      definition,
+      versions: versions.map(({ id, version, createdByUserId, createdAt }) => ({
+        id,
+        version,
+        createdByUserId,
+        createdAt,
+      })),
+    };
+  }
+
+  async countTemplates(organizationId: string): Promise<number> {
+    return this.prisma.storyTemplate.count({ where: { organizationId, archivedAt: null } });
+  }
+
+  async createTemplate(input: CreateStoryTemplateInput): Promise<StoryTemplateWithVersion> {
+    await this.assertNameAvailable(input.organizationId, input.name);
+    const template = await this.prisma.storyTemplate.create({
+      data: {
+        organizationId: input.organizationId,
+        name: input.name,
+        description: input.description ?? null,
+        createdByUserId: input.userId,
+        currentVersion: 1,
+        versions: {
+          create: {
+            version: 1,
+            definition: encodeJsonValue(input.definition),
+            createdByUserId: input.userId,
+          },
+        },
+      },
+    });
+    return { ...template, definition: input.definition };
+  }
+
+  /** Returns null when the template does not exist or is archived. */
+  async updateTemplate(input: UpdateStoryTemplateInput): Promise<StoryTemplateWithVersion | null> {
+    const existing = await this.getTemplate(input.organizationId, input.templateId);
+    if (!existing || existing.archivedAt) {
+      return null;
+    }
+    if (input.name !== undefined && input.name !== existing.name) {
+      await this.assertNameAvailable(input.organizationId, input.name);
+    }
+
+    const definitionChanged =
+      input.definition !== undefined &&
+      JSON.stringify(input.definition) !== JSON.stringify(existing.definition);
+    const nextVersion = existing.currentVersion + 1;
+
+    const template = await this.prisma.storyTemplate.update({
+      where: { id: existing.id },
+      data: {
+        name: input.name,
+        description: input.description,
+        ...(definitionChanged
+          ? {
+              currentVersion: nextVersion,
+              versions: {
+                create: {
+                  version: nextVersion,
+                  definition: encodeJsonValue(input.definition),
+                  createdByUserId: input.userId,
+                },
+              },
+            }
+          : {}),
+      },
+    });
+    return {
+      ...template,
+      definition: definitionChanged ? input.definition! : existing.definition,
+    };
+  }
+
+  /** Returns false when there is no such active template. */
+  async archiveTemplate(organizationId: string, templateId: string): Promise<boolean> {
+    const result = await this.prisma.storyTemplate.updateMany({
+      where: { id: templateId, organizationId, archivedAt: null },
+      data: { archivedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Loads a template version for generation: the given version, or the
+   * latest. Archived templates resolve only when `includeArchived` is set.
+   */
+  async resolveTemplate(
+    organizationId: string,
+    templateId: string,
+    options: { version?: number; includeArchived?: boolean } = {}
+  ): Promise<ResolvedStoryTemplate | null> {
+    const template = await this.prisma.storyTemplate.findFirst({
+      where: {
+        id: templateId,
+        organizationId,
+        ...(options.includeArchived ? {} : { archivedAt: null }),
+      },
+      include: {
+        versions: {
+          where: options.version !== undefined ? { version: options.version } : undefined,
+          orderBy: { version: "desc" },
+          take: 1,
+        },
+      },
+    });
+    const version = template?.versions[0];
+    const definition = decodeStoryTemplateDefinition(version?.definition);
+    if (!template || !version || !definition) {
+      return null;
+    }
+    return {
+      templateId: template.id,
+      versionId: version.id,
+      name: template.name,
+      version: version.version,
+      definition,
+    };
+  }
+
+  private async assertNameAvailable(organizationId: string, name: string): Promise<void> {
+    const existing = await this.prisma.storyTemplate.findUnique({
+      where: { organizationId_name: { organizationId, name } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new StoryTemplateNameConflictError(name);
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import type { PrismaClient } from "@prisma/client";
+import {
+  GoldenSetStubAIClient,
+  compareTaggingEvaluations,
+  runTaggingEvaluation,
+} from "./tagging-evaluation.js";
+import type { GoldenTaggingDataset } from "./tagging-golden-set.js";
+import { TAGGING_GOLDEN_SETS } from "./tagging-golden-set.js";
+
+// Tagging a golden set never touches the database.
+const prisma = {} as PrismaClient;
+
+const dataset: GoldenTaggingDataset = {
+  version: "test",
+  description: "Three segments",
+  items: [
+    {
+      id: "roi",
+      text: "Payback came in under six months.",
+      funnelStage: "BOFU",
+      topics: ["roi_financial_outcomes"],
+      stubTags: [
+        { funnel_stage: "BOFU", topic: "roi_financial_outcomes", confidence: 0.9 },
+        { funnel_stage: "MOFU", topic: "total_cost_of_ownership", confidence: 0.4 },
+      ],
+    },
+    {
+      id: "migration",
+      text: "We moved off the old vendor in a month.",
+      funnelStage: "MOFU",
+      topics: ["competitive_displacement", "deployment_speed"],
+      stubTags: [{ funnel_stage: "BOFU", topic: "deployment_speed", confidence: 0.8 }],
+    },
+    {
+      id: "silence",
+      text: "Let me share my screen.",
+      funnelStage: "INTERNAL",
+      topics: ["deal_anatomy"],
+      stubTags: [],
+    },
+  ],
+};
+
+describe("runTaggingEvaluation", () => {
+  it("scores topics, stage confusion and calibration from the stub client", async () => {
+    const report = await runTaggingEvaluation(prisma, dataset, new GoldenSetStubAIClient(dataset));
+
+    expect(report).toMatchObject({
+      datasetVersion: "test",
+      provider: "stub",
+      model: "golden-replay-test",
+      itemCount: 3,
+      failedItems: [],
+      microPrecision: 0.6667,
+      microRecall: 0.5,
+      microF1: 0.5714,
+      stageAccuracy: 0.3333,
+    });
+    expect(report.promptFingerprint).toMatch(/^[0-9a-f]{12}$/);
+    expect(report.topics.find((t) => t.topic === "total_cost_of_ownership")).toMatchObject({
+      support: 0,
+      predicted: 1,
+      precision: 0,
+    });
+    // Macro F1 averages only topics the golden set labels: (1 + 0 + 1 + 0) / 4.
+    expect(report.macroF1).toBe(0.5);
+    expect(report.stageConfusion.BOFU.BOFU).toBe(1);
+    expect(report.stageConfusion.MOFU.BOFU).toBe(1);
+    expect(report.stageConfusion.INTERNAL.NONE).toBe(1);
+    expect(report.calibration.sampleCount).toBe(3);
+    expect(report.calibration.brierScore).toBeCloseTo((0.01 + 0.16 + 0.04) / 3, 4);
+  });
+
+  it("scores segments whose call fails as untagged", async () => {
+    const failing = new GoldenSetStubAIClient(dataset);
+    failing.chatCompletion = async () => {
+      throw new Error("provider down");
+    };
+
+    const report = await runTaggingEvaluation(prisma, dataset, failing);
+
+    expect(report.failedItems).toEqual(["migration", "roi", "silence"]);
+    expect(report.microF1).toBe(0);
+    expect(report.stageConfusion.BOFU.NONE).toBe(1);
+  });
+
+  it("reproduces the committed golden set baseline", async () => {
+    const golden = TAGGING_GOLDEN_SETS.v1;
+    const report = await runTaggingEvaluation(prisma, golden, new GoldenSetStubAIClient(golden));
+
+    expect(report.failedItems).toEqual([]);
+    expect(report.microF1).toBeGreaterThan(0.8);
+    expect(compareTaggingEvaluations(report, report).passed).toBe(true);
+  });
+});
+
+describe("compareTaggingEvaluations", () => {
+  it("flags metrics that moved the wrong way beyond tolerance", async () => {
+    const baseline = await runTaggingEvaluation(prisma, dataset, new GoldenSetStubAIClient(dataset));
+    const current = {
+      ...baseline,
+      microF1: baseline.microF1 - 0.1,
+      macroF1: baseline.macroF1 + 0.2,
+      calibration: {
+        ...baseline.calibration,
+        expectedCalibrationError: baseline.calibration.expectedCalibrationError + 0.01,
+      },
+    };
+
+    const diff = compareTaggingEvaluations(current, baseline);
+
+    expect(diff.passed).toBe(false);
+    expect(diff.regressions.map((change) => change.metric)).toEqual(["micro_f1"]);
+    expect(diff.improvements.map((change) => change.metric)).toEqual(["macro_f1"]);
+  });
+
+  it("refuses to compare runs on different golden set versions", async () => {
+    const baseline = await runTaggingEvaluation(prisma, dataset, new GoldenSetStubAIClient(dataset));
+
+    const diff = compareTaggingEvaluations({ ...baseline, datasetVersion: "other" }, baseline);
+
+    expect(diff).toMatchObject({ comparable: false, passed: false });
+  });
+});
@@ -0,0 +1,400 @@
+/**
+ * Tagging Evaluation Harness
+ *
+ * Runs the AITagger over a versioned golden set (services/tagging-golden-set.ts)
+ * and scores it, so a model change in ai-config or a prompt edit in ai-tagger
+ * can be gated on tagging quality:
+ *   - per-topic precision / recall / F1, plus micro and macro F1
+ *   - a confusion matrix between the expected and predicted funnel stage
+ *     (the stage of the most confident tag, or NONE)
+ *   - calibration error of the raw confidences (Brier score and ECE)
+ *
+ * Reports are diffed against a baseline report from the same dataset version.
+ * `npm run eval:tagging` gates CI against a committed baseline using the
+ * deterministic GoldenSetStubAIClient; orgs can run the same evaluation with
+ * their configured provider from the AI settings admin API, where each run
+ * is stored and compared against the org's chosen baseline run.
+ */
+
+import type { PrismaClient } from "@prisma/client";
+import type { AIClient, ChatCompletionOptions, ChatCompletionResult } from "./ai-client.js";
+import { AITagger, taggerPromptFingerprint, type TagResult } from "./ai-tagger.js";
+import { ConfidenceCalibrator } from "./confidence-calibrator.js";
+import { RateLimiter } from "./rate-limiter.js";
+import { TagCache } from "./tag-cache.js";
+import type { GoldenTaggingDataset } from "./tagging-golden-set.js";
+import { VALID_FUNNEL_STAGES } from "../types/taxonomy.js";
+import {
+  decodeTaggingEvaluationReport,
+  encodeJsonValue,
+  type TaggingEvaluationReportBoundary,
+} from "../types/json-boundaries.js";
+
+// ─── Tuning ──────────────────────────────────────────────────────────────────
+
+/** How far each metric may move the wrong way before a run fails. */
+export const DEFAULT_REGRESSION_TOLERANCES = {
+  microF1: 0.02,
+  macroF1: 0.03,
+  /** Per-topic F1, only for topics with at least two golden examples. */
+  topicF1: 0.15,
+  stageAccuracy: 0.05,
+  expectedCalibrationError: 0.03,
+};
+
+const DEFAULT_CONCURRENCY = 4;
+
+const EVALUATION_MAX_TPM = 120_000;
+
+/** Predicted stage for segments the tagger returned nothing for. */
+const NO_STAGE = "NONE";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type TaggingEvaluationReport = TaggingEvaluationReportBoundary;
+
+export type RegressionTolerances = typeof DEFAULT_REGRESSION_TOLERANCES;
+
+export interface MetricChange {
+  metric: string;
+  baseline: number;
+  current: number;
+  delta: number;
+}
+
+export interface TaggingEvaluationDiff {
+  /** False when the baseline was run on a different dataset version. */
+  comparable: boolean;
+  passed: boolean;
+  regressions: MetricChange[];
+  improvements: MetricChange[];
+  baseline: { datasetVersion: string; provider: string; model: string; promptFingerprint: string };
+}
+
+// ─── Stub Client ─────────────────────────────────────────────────────────────
+
+/**
+ * Deterministic AIClient that answers each golden segment with its recorded
+ * `stubTags`, and unknown segments with no tags.
+ */
+export class GoldenSetStubAIClient implements AIClient {
+  readonly providerName = "stub";
+  readonly modelName: string;
+  private answers: Map<string, string>;
+
+  constructor(dataset: GoldenTaggingDataset) {
+    this.modelName = `golden-replay-${dataset.version}`;
+    this.answers = new Map(
+      dataset.items.map((item) => [item.text, JSON.stringify({ tags: item.stubTags })])
+    );
+  }
+
+  async chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResult> {
+    const prompt = options.messages[options.messages.length - 1]?.content ?? "";
+    // The tagger fences the segment in triple quotes at the end of the prompt.
+    const segment = /"""\n([\s\S]*)\n"""/.exec(prompt)?.[1] ?? "";
+    const content = this.answers.get(segment) ?? JSON.stringify({ tags: [] });
+    const inputTokens = RateLimiter.estimateTokens(options.messages.map((m) => m.content).join("\n"));
+    const outputTokens = RateLimiter.estimateTokens(content);
+    return { content, inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+  }
+}
+
+// ─── Evaluation ──────────────────────────────────────────────────────────────
+
+/**
+ * Tags every golden segment with `aiClient` and scores the result. Segments
+ * whose call fails are scored as untagged and listed in `failedItems`.
+ */
+export async function runTaggingEvaluation(
+  prisma: PrismaClient,
+  dataset: GoldenTaggingDataset,
+  aiClient: AIClient,
+  options: { concurrency?: number } = {}
+): Promise<TaggingEvaluationReport> {
+  // A private cache, so answers from production traffic or an earlier run
+  // never stand in for the model under test, and a limiter sized so one pass
+  // over a golden set does not queue behind the production tagging budget.
+  const tagger = new AITagger(prisma, "", {
+    cache: new TagCache({ maxSize: dataset.items.length + 1, ttlMs: 60 * 60 * 1000 }),
+    rateLimiter: new RateLimiter({ maxRPM: 500, maxTPM: EVALUATION_MAX_TPM }),
+  });
+
+  const predictions: TagResult[][] = new Array(dataset.items.length);
+  const failedItems: string[] = [];
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < dataset.items.length) {
+      const index = next++;
+      const item = dataset.items[index];
+      try {
+        const { tags } = await tagger.tagChunk(item.text, {
+          aiClient,
+          language: item.language,
+          customTopics: [],
+        });
+        predictions[index] = tags;
+      } catch {
+        predictions[index] = [];
+        failedItems.push(item.id);
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(options.concurrency ?? DEFAULT_CONCURRENCY, dataset.items.length) }, worker)
+  );
+
+  return scoreTaggingPredictions(dataset, predictions, {
+    provider: aiClient.providerName,
+    model: aiClient.modelName,
+    failedItems: failedItems.sort(),
+    calibrator: new ConfidenceCalibrator(prisma),
+  });
+}
+
+/**
+ * Scores tagger output against the golden labels. `predictions[i]` holds the
+ * tags for `dataset.items[i]`.
+ */
+export function scoreTaggingPredictions(
+  dataset: GoldenTaggingDataset,
+  predictions: TagResult[][],
+  context: { provider: string; model: string; failedItems: string[]; calibrator: ConfidenceCalibrator }
+): TaggingEvaluationReport {
+  const counts = new Map<string, { support: number; predicted: number; truePositives: number }>();
+  const countsFor = (topic: string) => {
+    let entry = counts.get(topic);
+    if (!entry) {
+      entry = { support: 0, predicted: 0, truePositives: 0 };
+      counts.set(topic, entry);
+    }
+    return entry;
+  };
+
+  const stageConfusion: Record<string, Record<string, number>> = {};
+  for (const stage of VALID_FUNNEL_STAGES) {
+    stageConfusion[stage] = Object.fromEntries(
+      [...VALID_FUNNEL_STAGES, NO_STAGE].map((predicted) => [predicted, 0])
+    );
+  }
+
+  const observations: Array<{ rawConfidence: number; isCorrect: boolean }> = [];
+  let stageHits = 0;
+
+  dataset.items.forEach((item, index) => {
+    const expected = new Set<string>(item.topics);
+    const tags = dedupeTopics(predictions[index] ?? []);
+
+    for (const topic of expected) countsFor(topic).support += 1;
+    for (const tag of tags) {
+      const entry = countsFor(tag.topic);
+      entry.predicted += 1;
+      if (expected.has(tag.topic)) entry.truePositives += 1;
+      observations.push({ rawConfidence: tag.confidence, isCorrect: expected.has(tag.topic) });
+    }
+
+    const predictedStage = tags.length > 0
+      ? tags.reduce((best, tag) => (tag.confidence > best.confidence ? tag : best)).funnelStage
+      : NO_STAGE;
+    stageConfusion[item.funnelStage][predictedStage] += 1;
+    if (predictedStage === item.funnelStage) stageHits += 1;
+  });
+
+  const topics = [...counts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([topic, entry]) => {
+      const precision = ratio(entry.truePositives, entry.predicted);
+      const recall = ratio(entry.truePositives, entry.support);
+      return {
+        topic,
+        ...entry,
+        precision: round(precision),
+        recall: round(recall),
+        f1: round(f1(precision, recall)),
+      };
+    });
+
+  const totals = [...counts.values()].reduce(
+    (sum, entry) => ({
+      support: sum.support + entry.support,
+      predicted: sum.predicted + entry.predicted,
+      truePositives: sum.truePositives + entry.truePositives,
+    }),
+    { support: 0, predicted: 0, truePositives: 0 }
+  );
+  const microPrecision = ratio(totals.truePositives, totals.predicted);
+  const microRecall = ratio(totals.truePositives, totals.support);
+  // Macro F1 averages only the topics the golden set actually covers.
+  const labeledTopics = topics.filter((topic) => topic.support > 0);
+
+  const calibration = context.calibrator.buildCalibration(observations);
+  const expectedCalibrationError = calibration.buckets.reduce(
+    (sum, bucket) =>
+      sum + (bucket.count / calibration.sampleCount) *
+        Math.abs(bucket.meanRawConfidence - bucket.empiricalAccuracy),
+    0
+  );
+
+  return {
+    datasetVersion: dataset.version,
+    provider: context.provider,
+    model: context.model,
+    promptFingerprint: taggerPromptFingerprint(),
+    itemCount: dataset.items.length,
+    failedItems: context.failedItems,
+    microPrecision: round(microPrecision),
+    microRecall: round(microRecall),
+    microF1: round(f1(microPrecision, microRecall)),
+    macroF1: round(ratio(labeledTopics.reduce((sum, topic) => sum + topic.f1, 0), labeledTopics.length)),
+    topics,
+    stageAccuracy: round(ratio(stageHits, dataset.items.length)),
+    stageConfusion,
+    calibration: {
+      sampleCount: calibration.sampleCount,
+      brierScore: round(calibration.brierScore),
+      expectedCalibrationError: round(expectedCalibrationError),
+    },
+  };
+}
+
+/**
+ * Diffs a report against a baseline. A run passes when no metric moved the
+ * wrong way by more than its tolerance; reports from different dataset
+ * versions are not comparable and never pass.
+ */
+export function compareTaggingEvaluations(
+  current: TaggingEvaluationReport,
+  baseline: TaggingEvaluationReport,
+  tolerances: RegressionTolerances = DEFAULT_REGRESSION_TOLERANCES
+): TaggingEvaluationDiff {
+  const summary = {
+    datasetVersion: baseline.datasetVersion,
+    provider: baseline.provider,
+    model: baseline.model,
+    promptFingerprint: baseline.promptFingerprint,
+  };
+  if (current.datasetVersion !== baseline.datasetVersion) {
+    return { comparable: false, passed: false, regressions: [], improvements: [], baseline: summary };
+  }
+
+  const regressions: MetricChange[] = [];
+  const improvements: MetricChange[] = [];
+  const check = (metric: string, baseValue: number, currentValue: number, tolerance: number, lowerIsBetter = false) => {
+    const delta = round(currentValue - baseValue);
+    const change = { metric, baseline: baseValue, current: currentValue, delta };
+    const worsened = lowerIsBetter ? delta : -delta;
+    if (worsened > tolerance) regressions.push(change);
+    else if (worsened < -tolerance) improvements.push(change);
+  };
+
+  check("micro_f1", baseline.microF1, current.microF1, tolerances.microF1);
+  check("macro_f1", baseline.macroF1, current.macroF1, tolerances.macroF1);
+  check("stage_accuracy", baseline.stageAccuracy, current.stageAccuracy, tolerances.stageAccuracy);
+  check(
+    "expected_calibration_error",
+    baseline.calibration.expectedCalibrationError,
+    current.calibration.expectedCalibrationError,
+    tolerances.expectedCalibrationError,
+    true
+  );
+
+  const currentTopics = new Map(current.topics.map((topic) => [topic.topic, topic]));
+  for (const topic of baseline.topics) {
+    if (topic.support < 2) continue;
+    check(`topic:${topic.topic}:f1`, topic.f1, currentTopics.get(topic.topic)?.f1 ?? 0, tolerances.topicF1);
+  }
+
+  return { comparable: true, passed: regressions.length === 0, regressions, improvements, baseline: summary };
+}
+
+// ─── Stored Runs ─────────────────────────────────────────────────────────────
+
+/**
+ * Stores an org's evaluation run, diffed against its baseline for the same
+ * dataset version when there is one.
+ */
+export async function recordTaggingEvaluationRun(
+  prisma: PrismaClient,
+  input: { organizationId: string; userId: string; report: TaggingEvaluationReport }
+) {
+  const baselineRun = await prisma.taggingEvaluationRun.findFirst({
+    where: {
+      organizationId: input.organizationId,
+      datasetVersion: input.report.datasetVersion,
+      isBaseline: true,
+    },
+  });
+  const baselineReport = baselineRun ? decodeTaggingEvaluationReport(baselineRun.report) : null;
+  const diff = baselineReport ? compareTaggingEvaluations(input.report, baselineReport) : null;
+
+  const run = await prisma.taggingEvaluationRun.create({
+    data: {
+      organizationId: input.organizationId,
+      datasetVersion: input.report.datasetVersion,
+      provider: input.report.provider,
+      model: input.report.model,
+      promptFingerprint: input.report.promptFingerprint,
+      microF1: input.report.microF1,
+      stageAccuracy: input.report.stageAccuracy,
+      calibrationError: input.report.calibration.expectedCalibrationError,
+      report: encodeJsonValue(input.report),
+      passed: diff ? diff.passed : null,
+      createdByUserId: input.userId,
+    },
+  });
+
+  return { run, diff, baselineRunId: baselineReport ? baselineRun!.id : null };
+}
+
+/**
+ * Makes a run the org's baseline for its dataset version, replacing the
+ * previous one. Returns null when the run is not in the org.
+ */
+export async function setTaggingEvaluationBaseline(
+  prisma: PrismaClient,
+  organizationId: string,
+  runId: string
+) {
+  const run = await prisma.taggingEvaluationRun.findFirst({
+    where: { id: runId, organizationId },
+  });
+  if (!run) return null;
+
+  const [, baseline] = await prisma.$transaction([
+    prisma.taggingEvaluationRun.updateMany({
+      where: { organizationId, datasetVersion: run.datasetVersion, isBaseline: true },
+      data: { isBaseline: false },
+    }),
+    prisma.taggingEvaluationRun.update({
+      where: { id: run.id },
+      data: { isBaseline: true },
+    }),
+  ]);
+  return baseline;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Keeps the most confident tag per topic; models sometimes repeat a topic. */
+function dedupeTopics(tags: TagResult[]): TagResult[] {
+  const byTopic = new Map<string, TagResult>();
+  for (const tag of tags) {
+    const existing = byTopic.get(tag.topic);
+    if (!existing || tag.confidence > existing.confidence) byTopic.set(tag.topic, tag);
+  }
+  return [...byTopic.values()];
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+function f1(precision: number, recall: number): number {
+  return precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
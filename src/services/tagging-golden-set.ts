@@ -0,0 +1,265 @@
+/**
+ * Tagging Golden Sets
+ *
+ * Hand-labeled transcript segments used to evaluate the AI tagger
+ * (services/tagging-evaluation.ts). Each set is versioned: never edit a
+ * published version's labels, add a new version instead, because stored
+ * baselines are only comparable against the version they were run on.
+ *
+ * `stubTags` is a recorded model answer for the segment. The deterministic
+ * stub client replays it so CI exercises the full tagging and scoring path
+ * without calling a provider; it is deliberately imperfect.
+ */
+
+import type { TaxonomyTopic, VALID_FUNNEL_STAGES } from "../types/taxonomy.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type GoldenFunnelStage = (typeof VALID_FUNNEL_STAGES)[number];
+
+export interface GoldenTaggingItem {
+  id: string;
+  text: string;
+  /** ISO 639-1 language of the segment; English when omitted. */
+  language?: string;
+  /** The stage a reviewer would file the segment under. */
+  funnelStage: GoldenFunnelStage;
+  /** Every topic the segment evidences. */
+  topics: TaxonomyTopic[];
+  stubTags: Array<{ funnel_stage: GoldenFunnelStage; topic: TaxonomyTopic; confidence: number }>;
+}
+
+export interface GoldenTaggingDataset {
+  version: string;
+  description: string;
+  items: GoldenTaggingItem[];
+}
+
+// ─── Datasets ────────────────────────────────────────────────────────────────
+
+const TAGGING_GOLDEN_SET_V1: GoldenTaggingDataset = {
+  version: "v1",
+  description: "24 segments covering every funnel stage, including one non-English segment.",
+  items: [
+    {
+      id: "tofu-industry-shift",
+      text: "Honestly the whole industry is moving to usage-based pricing and our board keeps asking how we keep up. Every competitor we talk to is rebuilding their billing stack.",
+      funnelStage: "TOFU",
+      topics: ["industry_trend_validation"],
+      stubTags: [{ funnel_stage: "TOFU", topic: "industry_trend_validation", confidence: 0.82 }],
+    },
+    {
+      id: "tofu-manual-notes",
+      text: "Before any of this, our reps spent Friday afternoons copying call notes into spreadsheets. Nobody trusted the pipeline numbers.",
+      funnelStage: "TOFU",
+      topics: ["problem_challenge_identification"],
+      stubTags: [
+        { funnel_stage: "TOFU", topic: "problem_challenge_identification", confidence: 0.88 },
+        { funnel_stage: "BOFU", topic: "quantified_operational_metrics", confidence: 0.35 },
+      ],
+    },
+    {
+      id: "tofu-data-residency",
+      text: "We had to get ready for the new EU data residency rules by January, and our old vendor couldn't keep data in Frankfurt.",
+      funnelStage: "TOFU",
+      topics: ["regulatory_compliance_challenges", "geographic_regional_variation"],
+      stubTags: [
+        { funnel_stage: "TOFU", topic: "regulatory_compliance_challenges", confidence: 0.9 },
+        { funnel_stage: "VERTICAL", topic: "geographic_regional_variation", confidence: 0.55 },
+      ],
+    },
+    {
+      id: "tofu-new-office",
+      text: "Opening the São Paulo office meant we suddenly had a Portuguese-speaking sales team and no playbook for them.",
+      funnelStage: "TOFU",
+      topics: ["market_expansion"],
+      stubTags: [],
+    },
+    {
+      id: "mofu-competitor-migration",
+      text: "We moved off our previous call recorder in about six weeks; the migration tool brought over two years of recordings.",
+      funnelStage: "MOFU",
+      topics: ["competitive_displacement"],
+      stubTags: [
+        { funnel_stage: "MOFU", topic: "competitive_displacement", confidence: 0.93 },
+        { funnel_stage: "BOFU", topic: "deployment_speed", confidence: 0.5 },
+      ],
+    },
+    {
+      id: "mofu-crm-sync",
+      text: "The Salesforce sync was the deciding test for us. Opportunities, contacts and activity all flow both ways without our admins touching it.",
+      funnelStage: "MOFU",
+      topics: ["integration_interoperability"],
+      stubTags: [{ funnel_stage: "MOFU", topic: "integration_interoperability", confidence: 0.86 }],
+    },
+    {
+      id: "mofu-security-review",
+      text: "Security review took a while. Their team walked our CISO through the SOC 2 report, SSO and how data is encrypted at rest.",
+      funnelStage: "MOFU",
+      topics: ["security_compliance_governance"],
+      stubTags: [
+        { funnel_stage: "TOFU", topic: "regulatory_compliance_challenges", confidence: 0.74 },
+        { funnel_stage: "MOFU", topic: "security_compliance_governance", confidence: 0.6 },
+      ],
+    },
+    {
+      id: "mofu-pilot-rollout",
+      text: "We started with a 30-day pilot in one region, and after it hit the targets we rolled it out to all four regions.",
+      funnelStage: "MOFU",
+      topics: ["pilot_to_production", "scaling_across_org"],
+      stubTags: [{ funnel_stage: "MOFU", topic: "pilot_to_production", confidence: 0.84 }],
+    },
+    {
+      id: "mofu-three-year-cost",
+      text: "When we modelled the three-year cost including admin time, it came out cheaper than keeping the two tools we had.",
+      funnelStage: "MOFU",
+      topics: ["total_cost_of_ownership"],
+      stubTags: [
+        { funnel_stage: "BOFU", topic: "roi_financial_outcomes", confidence: 0.8 },
+        { funnel_stage: "MOFU", topic: "total_cost_of_ownership", confidence: 0.65 },
+      ],
+    },
+    {
+      id: "bofu-ramp-time",
+      text: "We cut onboarding time for new reps from 90 days to 45, and ramped reps are closing 20% more pipeline.",
+      funnelStage: "BOFU",
+      topics: ["quantified_operational_metrics", "roi_financial_outcomes"],
+      stubTags: [
+        { funnel_stage: "BOFU", topic: "quantified_operational_metrics", confidence: 0.91 },
+        { funnel_stage: "BOFU", topic: "roi_financial_outcomes", confidence: 0.7 },
+      ],
+    },
+    {
+      id: "bofu-payback",
+      text: "The payback period was under seven months, which is what got the CFO to sign.",
+      funnelStage: "BOFU",
+      topics: ["roi_financial_outcomes", "executive_strategic_impact"],
+      stubTags: [
+        { funnel_stage: "BOFU", topic: "roi_financial_outcomes", confidence: 0.95 },
+        { funnel_stage: "BOFU", topic: "executive_strategic_impact", confidence: 0.62 },
+      ],
+    },
+    {
+      id: "bofu-shortlist",
+      text: "We shortlisted three vendors. What tipped it was that they let us talk to two customers in our exact industry.",
+      funnelStage: "BOFU",
+      topics: ["vendor_selection_criteria"],
+      stubTags: [{ funnel_stage: "BOFU", topic: "vendor_selection_criteria", confidence: 0.88 }],
+    },
+    {
+      id: "bofu-procurement",
+      text: "Legal and procurement were painless. Redlines came back in two days and the MSA matched our standard terms.",
+      funnelStage: "BOFU",
+      topics: ["procurement_experience"],
+      stubTags: [{ funnel_stage: "BOFU", topic: "procurement_experience", confidence: 0.79 }],
+    },
+    {
+      id: "bofu-go-live",
+      text: "We were live in eleven days, when the plan said a quarter.",
+      funnelStage: "BOFU",
+      topics: ["deployment_speed"],
+      stubTags: [
+        { funnel_stage: "BOFU", topic: "deployment_speed", confidence: 0.9 },
+        { funnel_stage: "MOFU", topic: "implementation_onboarding", confidence: 0.55 },
+      ],
+    },
+    {
+      id: "bofu-admin-hours-de",
+      text: "Seit der Einführung sparen unsere Vertriebsteams pro Woche rund fünf Stunden an manueller Dateneingabe.",
+      language: "de",
+      funnelStage: "BOFU",
+      topics: ["quantified_operational_metrics"],
+      stubTags: [{ funnel_stage: "BOFU", topic: "quantified_operational_metrics", confidence: 0.85 }],
+    },
+    {
+      id: "post-renewal",
+      text: "We just renewed for three more years and added the analytics module for the marketing team.",
+      funnelStage: "POST_SALE",
+      topics: ["renewal_partnership_evolution", "upsell_cross_sell_expansion"],
+      stubTags: [
+        { funnel_stage: "POST_SALE", topic: "renewal_partnership_evolution", confidence: 0.9 },
+        { funnel_stage: "POST_SALE", topic: "upsell_cross_sell_expansion", confidence: 0.85 },
+      ],
+    },
+    {
+      id: "post-support",
+      text: "Our CSM runs a monthly session with our managers, and the support team answers tickets within the hour.",
+      funnelStage: "POST_SALE",
+      topics: ["customer_success_support"],
+      stubTags: [
+        { funnel_stage: "POST_SALE", topic: "customer_success_support", confidence: 0.83 },
+        { funnel_stage: "POST_SALE", topic: "training_enablement_adoption", confidence: 0.45 },
+      ],
+    },
+    {
+      id: "post-advisory-board",
+      text: "Two of the features on their roadmap this year came straight out of our advisory board sessions.",
+      funnelStage: "POST_SALE",
+      topics: ["co_innovation_product_feedback", "community_advisory_participation"],
+      stubTags: [
+        { funnel_stage: "POST_SALE", topic: "co_innovation_product_feedback", confidence: 0.87 },
+        { funnel_stage: "POST_SALE", topic: "community_advisory_participation", confidence: 0.58 },
+      ],
+    },
+    {
+      id: "post-org-wide",
+      text: "It started with one sales pod; now finance, support and the EMEA team all use it daily.",
+      funnelStage: "POST_SALE",
+      topics: ["scaling_across_org"],
+      stubTags: [{ funnel_stage: "POST_SALE", topic: "scaling_across_org", confidence: 0.89 }],
+    },
+    {
+      id: "internal-price-objection",
+      text: "Whenever a prospect says it's too expensive, point them to the admin-hours savings in the Acme story. That objection dies fast.",
+      funnelStage: "INTERNAL",
+      topics: ["sales_enablement"],
+      stubTags: [{ funnel_stage: "INTERNAL", topic: "sales_enablement", confidence: 0.8 }],
+    },
+    {
+      id: "internal-churn-save",
+      text: "They were about to churn after the outage last spring. The exec sponsor call and a service credit turned it around.",
+      funnelStage: "INTERNAL",
+      topics: ["churn_save_winback"],
+      stubTags: [
+        { funnel_stage: "INTERNAL", topic: "churn_save_winback", confidence: 0.78 },
+        { funnel_stage: "BOFU", topic: "risk_mitigation_continuity", confidence: 0.66 },
+      ],
+    },
+    {
+      id: "internal-deal-structure",
+      text: "The deal came in through a partner referral; we structured it as a two-year ramp and closed at quarter end.",
+      funnelStage: "INTERNAL",
+      topics: ["deal_anatomy"],
+      stubTags: [
+        { funnel_stage: "MOFU", topic: "partner_ecosystem_solution", confidence: 0.76 },
+        { funnel_stage: "INTERNAL", topic: "deal_anatomy", confidence: 0.72 },
+      ],
+    },
+    {
+      id: "vertical-hospital-redaction",
+      text: "In a hospital setting, every recording touching patient details has to be redacted before anyone outside clinical staff sees it.",
+      funnelStage: "VERTICAL",
+      topics: ["industry_specific_usecase", "regulated_vs_unregulated"],
+      stubTags: [
+        { funnel_stage: "VERTICAL", topic: "industry_specific_usecase", confidence: 0.84 },
+        { funnel_stage: "TOFU", topic: "regulatory_compliance_challenges", confidence: 0.7 },
+      ],
+    },
+    {
+      id: "vertical-public-tender",
+      text: "For a county government the buying process is a public tender, so we needed pricing published on the state contract.",
+      funnelStage: "VERTICAL",
+      topics: ["public_sector_government", "procurement_experience"],
+      stubTags: [
+        { funnel_stage: "VERTICAL", topic: "public_sector_government", confidence: 0.9 },
+        { funnel_stage: "BOFU", topic: "procurement_experience", confidence: 0.6 },
+      ],
+    },
+  ],
+};
+
+export const TAGGING_GOLDEN_SETS: Record<string, GoldenTaggingDataset> = {
+  [TAGGING_GOLDEN_SET_V1.version]: TAGGING_GOLDEN_SET_V1,
+};
+
+export const LATEST_TAGGING_GOLDEN_SET_VERSION = TAGGING_GOLDEN_SET_V1.version;
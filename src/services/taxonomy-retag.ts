@@ -0,0 +1,83 @@
+/**
+ * Taxonomy Retag Backfill
+ *
+ * Re-tags one organization's processed calls after its custom taxonomy
+ * changes, so new or edited topics apply to calls ingested before they
+ * existed:
+ *   1. Walk the org's calls that have a transcript, in batches
+ *   2. Replace each call's chunk and call tags with fresh tags from the
+ *      built-in taxonomy plus the org's current custom topics
+ *   3. Re-index the chunk vectors with the new topic metadata
+ *
+ * Calls that fail to re-tag keep no tags until the next run and are counted
+ * as failed. Runs on the `taxonomy-retag` BullMQ queue.
+ */
+
+import type { PrismaClient } from "@prisma/client";
+import type { ProcessCallJob } from "./transcript-processor.js";
+import logger from "../lib/logger.js";
+
+export interface TaxonomyRetagJobData {
+  organizationId: string;
+  requestedByUserId?: string | null;
+}
+
+export interface TaxonomyRetagResult {
+  scanned: number;
+  retagged: number;
+  tags: number;
+  failed: number;
+}
+
+interface TaxonomyRetagDeps {
+  prisma: PrismaClient;
+  retagCall: (job: ProcessCallJob, runId: string) => Promise<number>;
+  batchSize: number;
+}
+
+export async function retagOrganizationCalls(
+  deps: TaxonomyRetagDeps,
+  input: TaxonomyRetagJobData & { runId: string }
+): Promise<TaxonomyRetagResult> {
+  const { organizationId } = input;
+  const result: TaxonomyRetagResult = { scanned: 0, retagged: 0, tags: 0, failed: 0 };
+
+  let cursor: string | undefined;
+  for (;;) {
+    const calls = await deps.prisma.call.findMany({
+      where: { organizationId, transcript: { isNot: null } },
+      select: { id: true, accountId: true },
+      orderBy: { id: "asc" },
+      take: deps.batchSize,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (calls.length === 0) break;
+    cursor = calls[calls.length - 1].id;
+
+    for (const call of calls) {
+      result.scanned++;
+      try {
+        result.tags += await deps.retagCall(
+          {
+            callId: call.id,
+            organizationId,
+            accountId: call.accountId,
+            hasTranscript: true,
+            userId: input.requestedByUserId ?? undefined,
+          },
+          input.runId
+        );
+        result.retagged++;
+      } catch (err) {
+        result.failed++;
+        logger.warn("Failed to retag call", {
+          organizationId,
+          callId: call.id,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  }
+
+  return result;
+}
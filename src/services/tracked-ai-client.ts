@@ -1,9 +1,10 @@
 import type { AIOperation } from "@prisma/client";
-import type {
-  AIClient,
-  AIProviderName,
-  ChatCompletionOptions,
-  ChatCompletionResult,
+import {
+  ChatCompletionAbortedError,
+  type AIClient,
+  type AIProviderName,
+  type ChatCompletionOptions,
+  type ChatCompletionResult,
 } from "./ai-client.js";
 import type {
   UsageContext,
@@ -44,7 +45,8 @@ interface AIUsageTrackingPort {
 
 /**
  * Wraps an AIClient to automatically track usage, enforce limits,
- * and deduct balance (for platform-billed calls).
+ * and deduct balance (for platform-billed calls). Streamed completions
+ * cancelled mid-answer are still charged for the tokens they consumed.
  */
 export class TrackedAIClient implements AIClient {
   private inner: AIClient;
@@ -89,8 +91,24 @@ export class TrackedAIClient implements AIClient {
     }
 
     // Make the actual AI call
-    const result = await this.inner.chatCompletion(options);
+    let result: ChatCompletionResult;
+    try {
+      result = await this.inner.chatCompletion(options);
+    } catch (error) {
+      if (error instanceof ChatCompletionAbortedError) {
+        await this.recordCharge(options, error.partial);
+      }
+      throw error;
+    }
 
+    await this.recordCharge(options, result);
+    return result;
+  }
+
+  private async recordCharge(
+    options: ChatCompletionOptions,
+    result: ChatCompletionResult
+  ): Promise<void> {
     const chargeIdempotencyKey = options.idempotencyKey?.trim()
       ? `${this.context.organizationId}:${this.context.userId}:${this.context.operation}:${options.idempotencyKey.trim()}`
       : null;
@@ -99,7 +117,7 @@ export class TrackedAIClient implements AIClient {
       : false;
 
     if (alreadyCharged) {
-      return result;
+      return;
     }
 
     // Compute cost (only for platform-billed calls)
@@ -151,7 +169,5 @@ export class TrackedAIClient implements AIClient {
       .catch((err) =>
         logger.error("Spend anomaly check failed", { error: err })
       );
-
-    return result;
   }
 }
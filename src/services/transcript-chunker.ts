@@ -0,0 +1,236 @@
+/**
+ * Transcript Chunker
+ *
+ * Splits a transcript into the segments that are tagged, embedded and
+ * quoted downstream.
+ *
+ * When the provider supplied speaker turns (`Transcript.utterances`), chunks
+ * are assembled from whole turns so every chunk carries its speaker and
+ * start/end timestamps. A turn is only split when it alone exceeds the token
+ * budget, first on sentence boundaries and then on words; timestamps for
+ * the pieces are interpolated across the turn.
+ *
+ * Transcripts without utterances fall back to the original sentence-window
+ * chunker over `fullText`, which cannot attribute speakers or times.
+ */
+
+import type { NormalizedUtterance } from "../integrations/types.js";
+import { decodeTranscriptUtterances } from "../types/json-boundaries.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface TranscriptChunkDraft {
+  text: string;
+  index: number;
+  /** Speaker with the most tokens in the chunk */
+  speaker: string | null;
+  startMs: number | null;
+  endMs: number | null;
+}
+
+interface TurnPiece {
+  speaker: string | null;
+  text: string;
+  tokens: number;
+  startMs: number | null;
+  endMs: number | null;
+}
+
+// ─── Sentence-Window Fallback ────────────────────────────────────────────────
+
+const TARGET_CHUNK_SIZE = 1500; // characters per chunk
+const CHUNK_OVERLAP = 200;      // overlap to preserve context across boundaries
+
+/**
+ * Splits transcript text into overlapping chunks, preserving sentence boundaries.
+ */
+export function chunkTranscript(
+  text: string
+): Array<{ text: string; index: number }> {
+  const sentences = text.match(/[^.!?]+[.!?]+\s*/g) ?? [text];
+  const chunks: Array<{ text: string; index: number }> = [];
+
+  let current = "";
+  let chunkIndex = 0;
+
+  for (const sentence of sentences) {
+    if (current.length + sentence.length > TARGET_CHUNK_SIZE && current.length > 0) {
+      chunks.push({ text: current.trim(), index: chunkIndex++ });
+      // Keep overlap from the end of the previous chunk
+      const overlap = current.slice(-CHUNK_OVERLAP);
+      current = overlap + sentence;
+    } else {
+      current += sentence;
+    }
+  }
+
+  if (current.trim().length > 0) {
+    chunks.push({ text: current.trim(), index: chunkIndex });
+  }
+
+  return chunks;
+}
+
+// ─── Speaker-Turn Chunking ───────────────────────────────────────────────────
+
+/** Roughly the size of the character windows, in model tokens. */
+export const TARGET_CHUNK_TOKENS = 400;
+
+/**
+ * Approximates a BPE token count: ASCII word runs cost about one token per
+ * four characters, every other non-space character (punctuation, CJK)
+ * costs one.
+ */
+export function estimateChunkTokens(text: string): number {
+  let tokens = 0;
+  for (const match of text.matchAll(/[A-Za-z0-9]+|\S/g)) {
+    tokens += /^[A-Za-z0-9]/.test(match[0]) ? Math.ceil(match[0].length / 4) : 1;
+  }
+  return tokens;
+}
+
+/** Splits text into segments of at most `budget` tokens, sentences first. */
+function splitByTokens(text: string, budget: number): string[] {
+  const sentences = text.match(/[^.!?]+(?:[.!?]+|$)\s*/g) ?? [text];
+  const segments: string[] = [];
+  let current = "";
+
+  const flush = () => {
+    if (current.trim()) segments.push(current.trim());
+    current = "";
+  };
+
+  for (const sentence of sentences) {
+    if (estimateChunkTokens(sentence) > budget) {
+      flush();
+      for (const word of sentence.split(/\s+/).filter(Boolean)) {
+        if (current && estimateChunkTokens(`${current} ${word}`) > budget) flush();
+        current = current ? `${current} ${word}` : word;
+      }
+      flush();
+      continue;
+    }
+    if (current && estimateChunkTokens(current + sentence) > budget) flush();
+    current += sentence;
+  }
+  flush();
+  return segments;
+}
+
+/** Breaks a turn into pieces that fit the budget, interpolating timestamps. */
+function splitTurn(utterance: NormalizedUtterance, budget: number): TurnPiece[] {
+  const text = utterance.text.trim();
+  if (!text) return [];
+  const tokens = estimateChunkTokens(text);
+  if (tokens <= budget) {
+    return [
+      {
+        speaker: utterance.speaker,
+        text,
+        tokens,
+        startMs: utterance.startMs,
+        endMs: utterance.endMs,
+      },
+    ];
+  }
+
+  const { startMs, endMs } = utterance;
+  const span = startMs !== null && endMs !== null && endMs >= startMs ? { startMs, endMs } : null;
+  const at = (offset: number): number | null =>
+    span ? Math.round(span.startMs + ((span.endMs - span.startMs) * offset) / text.length) : null;
+
+  const pieces: TurnPiece[] = [];
+  let searchFrom = 0;
+  for (const segment of splitByTokens(text, budget)) {
+    const offset = Math.max(searchFrom, text.indexOf(segment, searchFrom));
+    searchFrom = offset + segment.length;
+    pieces.push({
+      speaker: utterance.speaker,
+      text: segment,
+      tokens: estimateChunkTokens(segment),
+      startMs: pieces.length === 0 ? startMs : at(offset),
+      endMs: searchFrom >= text.length ? endMs : at(searchFrom),
+    });
+  }
+  return pieces;
+}
+
+function buildChunk(pieces: TurnPiece[], index: number): TranscriptChunkDraft {
+  const lines: Array<{ speaker: string | null; text: string }> = [];
+  const tokensBySpeaker = new Map<string, number>();
+  for (const piece of pieces) {
+    const previous = lines[lines.length - 1];
+    if (previous && previous.speaker === piece.speaker) {
+      previous.text = `${previous.text} ${piece.text}`;
+    } else {
+      lines.push({ speaker: piece.speaker, text: piece.text });
+    }
+    if (piece.speaker) {
+      tokensBySpeaker.set(piece.speaker, (tokensBySpeaker.get(piece.speaker) ?? 0) + piece.tokens);
+    }
+  }
+
+  let speaker: string | null = null;
+  for (const [name, tokens] of tokensBySpeaker) {
+    if (speaker === null || tokens > (tokensBySpeaker.get(speaker) ?? 0)) speaker = name;
+  }
+
+  const starts = pieces.map((piece) => piece.startMs).filter((ms): ms is number => ms !== null);
+  const ends = pieces.map((piece) => piece.endMs).filter((ms): ms is number => ms !== null);
+
+  return {
+    text: lines.map((line) => (line.speaker ? `${line.speaker}: ${line.text}` : line.text)).join("\n"),
+    index,
+    speaker,
+    startMs: starts.length > 0 ? Math.min(...starts) : null,
+    endMs: ends.length > 0 ? Math.max(...ends) : null,
+  };
+}
+
+/**
+ * Packs whole speaker turns into chunks of up to `budget` tokens. Chunk
+ * boundaries fall between turns, so no overlap is carried across chunks.
+ */
+export function chunkUtterances(
+  utterances: NormalizedUtterance[],
+  budget = TARGET_CHUNK_TOKENS
+): TranscriptChunkDraft[] {
+  const chunks: TranscriptChunkDraft[] = [];
+  let current: TurnPiece[] = [];
+  let currentTokens = 0;
+
+  for (const piece of utterances.flatMap((utterance) => splitTurn(utterance, budget))) {
+    if (current.length > 0 && currentTokens + piece.tokens > budget) {
+      chunks.push(buildChunk(current, chunks.length));
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(piece);
+    currentTokens += piece.tokens;
+  }
+  if (current.length > 0) {
+    chunks.push(buildChunk(current, chunks.length));
+  }
+
+  return chunks;
+}
+
+/**
+ * Chunks a stored transcript, by speaker turn when utterances were captured
+ * and by sentence window otherwise.
+ */
+export function chunkStoredTranscript(transcript: {
+  fullText: string;
+  utterances?: unknown;
+}): TranscriptChunkDraft[] {
+  const utterances = decodeTranscriptUtterances(transcript.utterances);
+  if (utterances.some((utterance) => utterance.text.trim())) {
+    return chunkUtterances(utterances);
+  }
+  return chunkTranscript(transcript.fullText).map((chunk) => ({
+    ...chunk,
+    speaker: null,
+    startMs: null,
+    endMs: null,
+  }));
+}
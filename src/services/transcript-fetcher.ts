@@ -18,6 +18,7 @@ import type { Queue } from "bullmq";
 import type { ProcessCallJob } from "./transcript-processor.js";
 import { enqueueProcessCallJob } from "../lib/queue-policy.js";
 import logger from "../lib/logger.js";
+import { detectLanguage } from "../lib/language-detection.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -174,6 +175,7 @@ export class TranscriptFetcher {
         callId,
         fullText: recording.transcript,
         wordCount: recording.transcript.split(/\s+/).length,
+        language: detectLanguage(recording.transcript),
       },
     });
 
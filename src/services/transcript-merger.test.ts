@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { TranscriptMerger, DEFAULT_TRANSCRIPT_MERGE_MAX_WORDS, DEFAULT_TRUNCATION_MODE } from "./transcript-merger.js";
+import {
+  TranscriptMerger,
+  DEFAULT_TRANSCRIPT_MERGE_MAX_WORDS,
+  DEFAULT_TRUNCATION_MODE,
+  allocateWordBudget,
+} from "./transcript-merger.js";
 
 // ─── Mock Prisma ─────────────────────────────────────────────────────────────
 
@@ -577,4 +582,28 @@ describe("TranscriptMerger", () => {
       expect(calledWith.where.occurredAt).toBeUndefined();
     });
   });
+
+  describe("measureAccounts", () => {
+    it("sums transcript words plus header overhead per account", async () => {
+      prisma.call.findMany.mockResolvedValue([
+        { accountId: "acct-1", transcript: { wordCount: 100 } },
+        { accountId: "acct-1", transcript: { wordCount: 50 } },
+        { accountId: "acct-2", transcript: { wordCount: 10 } },
+      ]);
+
+      const totals = await merger.measureAccounts(["acct-1", "acct-2", "acct-3"], "org-1");
+
+      expect(Object.fromEntries(totals)).toEqual({ "acct-1": 210, "acct-2": 40, "acct-3": 0 });
+    });
+  });
+});
+
+describe("allocateWordBudget", () => {
+  it("gives every account what it needs when the budget allows", () => {
+    expect(allocateWordBudget([100, 200], 1000)).toEqual([100, 200]);
+  });
+
+  it("merges small accounts in full and shares the rest evenly", () => {
+    expect(allocateWordBudget([5000, 100, 8000], 3100)).toEqual([1500, 100, 1500]);
+  });
 });
@@ -61,6 +61,9 @@ export const DEFAULT_TRANSCRIPT_MERGE_MAX_WORDS = 600_000;
 
 export const DEFAULT_TRUNCATION_MODE: TranscriptTruncationMode = "OLDEST_FIRST";
 
+/** Approximate markdown overhead of each call header, in words. */
+const HEADER_OVERHEAD = 30;
+
 // ─── Transcript Merger ──────────────────────────────────────────────────────
 
 export class TranscriptMerger {
@@ -172,6 +175,34 @@ export class TranscriptMerger {
     };
   }
 
+  /**
+   * Returns the merged size, in words, of each account's transcripts
+   * before any truncation. Accounts without transcripts map to 0.
+   */
+  async measureAccounts(
+    accountIds: string[],
+    organizationId: string
+  ): Promise<Map<string, number>> {
+    const calls = await this.prisma.call.findMany({
+      where: {
+        accountId: { in: accountIds },
+        organizationId,
+        transcript: { isNot: null },
+      },
+      select: { accountId: true, transcript: { select: { wordCount: true } } },
+    });
+
+    const totals = new Map<string, number>(accountIds.map((id) => [id, 0]));
+    for (const call of calls) {
+      if (!call.accountId || !call.transcript) continue;
+      totals.set(
+        call.accountId,
+        (totals.get(call.accountId) ?? 0) + call.transcript.wordCount + HEADER_OVERHEAD
+      );
+    }
+    return totals;
+  }
+
   /**
    * Drops entire calls from the specified end until the total word count
    * fits within maxWords. Returns the included entries and truncation info.
@@ -186,7 +217,6 @@ export class TranscriptMerger {
     truncationBoundary: Date | null;
   } {
     // Calculate total words including markdown overhead (~30 words per call header)
-    const HEADER_OVERHEAD = 30;
     let totalWords = entries.reduce(
       (sum, e) => sum + e.wordCount + HEADER_OVERHEAD,
       0
@@ -273,6 +303,34 @@ export class TranscriptMerger {
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
+/**
+ * Splits a word budget across several transcripts so that none gets more
+ * than it needs and the rest is shared evenly: small accounts are merged
+ * in full and large ones are truncated to an equal share of what is left.
+ * Allocations are in the order of `demands`.
+ */
+export function allocateWordBudget(demands: number[], maxWords: number): number[] {
+  const allocations = demands.map(() => 0);
+  let remaining = Math.max(0, Math.floor(maxWords));
+  let open = demands
+    .map((demand, index) => ({ demand: Math.max(0, demand), index }))
+    .sort((a, b) => a.demand - b.demand);
+
+  while (open.length > 0) {
+    const share = Math.floor(remaining / open.length);
+    const smallest = open[0];
+    if (smallest.demand > share) {
+      for (const entry of open) allocations[entry.index] = share;
+      break;
+    }
+    allocations[smallest.index] = smallest.demand;
+    remaining -= smallest.demand;
+    open = open.slice(1);
+  }
+
+  return allocations;
+}
+
 function countWords(text: string): number {
   return text.split(/\s+/).filter((w) => w.length > 0).length;
 }
@@ -2,7 +2,8 @@
  * Transcript Processor
  *
  * BullMQ worker that processes calls through the full pipeline:
- *   1. Chunk the transcript into manageable segments
+ *   1. Chunk the transcript by speaker turn (or sentence window when the
+ *      provider sent no utterances) — see transcript-chunker.ts
  *   2. Mask PII from each chunk
  *   3. Tag each chunk with taxonomy topics via the AI Tagger
  *   4. Generate embeddings and index in Pinecone via the RAG Engine
@@ -20,10 +21,13 @@ import { AIConfigService } from "./ai-config.js";
 import { AIUsageTracker } from "./ai-usage-tracker.js";
 import { FailoverAIClient } from "./ai-resilience.js";
 import { QuoteLibraryService } from "./quote-library.js";
+import { chunkStoredTranscript } from "./transcript-chunker.js";
 import { maskPII } from "../middleware/pii-masker.js";
 import logger from "../lib/logger.js";
 import { metrics } from "../lib/metrics.js";
 
+export { chunkTranscript } from "./transcript-chunker.js";
+
 // ─── Types ───────────────────────────────────────────────────────────────────
 
 export interface ProcessCallJob {
@@ -35,41 +39,6 @@ export interface ProcessCallJob {
   userId?: string;
 }
 
-// ─── Chunking Logic ──────────────────────────────────────────────────────────
-
-const TARGET_CHUNK_SIZE = 1500; // characters per chunk
-const CHUNK_OVERLAP = 200;      // overlap to preserve context across boundaries
-
-/**
- * Splits transcript text into overlapping chunks, preserving sentence boundaries.
- */
-export function chunkTranscript(
-  text: string
-): Array<{ text: string; index: number }> {
-  const sentences = text.match(/[^.!?]+[.!?]+\s*/g) ?? [text];
-  const chunks: Array<{ text: string; index: number }> = [];
-
-  let current = "";
-  let chunkIndex = 0;
-
-  for (const sentence of sentences) {
-    if (current.length + sentence.length > TARGET_CHUNK_SIZE && current.length > 0) {
-      chunks.push({ text: current.trim(), index: chunkIndex++ });
-      // Keep overlap from the end of the previous chunk
-      const overlap = current.slice(-CHUNK_OVERLAP);
-      current = overlap + sentence;
-    } else {
-      current += sentence;
-    }
-  }
-
-  if (current.trim().length > 0) {
-    chunks.push({ text: current.trim(), index: chunkIndex });
-  }
-
-  return chunks;
-}
-
 // ─── Processor ───────────────────────────────────────────────────────────────
 
 export class TranscriptProcessor {
@@ -112,11 +81,11 @@ export class TranscriptProcessor {
     }
 
     // ── Step 2: Chunk the transcript ─────────────────────────────────
-    const rawChunks = chunkTranscript(transcript.fullText);
+    const rawChunks = chunkStoredTranscript(transcript);
 
     // ── Step 3: Mask PII and store chunks ────────────────────────────
     for (const rawChunk of rawChunks) {
-      const { maskedText } = maskPII(rawChunk.text);
+      const { maskedText } = maskPII(rawChunk.text, { language: transcript.language });
 
       await this.prisma.transcriptChunk.upsert({
         where: {
@@ -129,16 +98,84 @@ export class TranscriptProcessor {
           transcriptId: transcript.id,
           chunkIndex: rawChunk.index,
           text: maskedText, // store the PII-masked version
+          speaker: rawChunk.speaker,
+          startMs: rawChunk.startMs,
+          endMs: rawChunk.endMs,
         },
         update: {
           text: maskedText,
+          speaker: rawChunk.speaker,
+          startMs: rawChunk.startMs,
+          endMs: rawChunk.endMs,
         },
       });
     }
 
-    // ── Step 4: Resolve AI client for this org ───────────────────────
-    // Use OWNER role to bypass user-level access checks for background jobs.
-    // If a specific user triggered this, we could use their context instead.
+    // Drop chunks left over from an earlier, longer chunking of this transcript
+    await this.prisma.transcriptChunk.deleteMany({
+      where: { transcriptId: transcript.id, chunkIndex: { gte: rawChunks.length } },
+    });
+
+    // ── Steps 4–6: Tag with AI, then embed and index ─────────────────
+    const taggingResults = await this.tagAndIndex(job, transcript.id);
+
+    try {
+      await this.quoteLibrary.autoExtractForCall({
+        organizationId,
+        callId,
+        accountId,
+      });
+    } catch (error) {
+      logger.warn("Auto quote extraction failed", {
+        organizationId,
+        callId,
+        error,
+      });
+    }
+
+    metrics.incrementTranscriptsProcessed();
+    logger.info("Processed call", {
+      callId,
+      chunksCount: rawChunks.length,
+      tagsCount: taggingResults.length,
+    });
+  }
+
+  /**
+   * Re-tags an already processed call against the current taxonomy,
+   * including the org's custom topics. Existing tags are replaced and the
+   * chunk vectors re-indexed with the new topic metadata; chunks and quotes
+   * are left as they are. `runId` scopes usage-charge idempotency so a
+   * retried job is charged once but a later backfill is charged again.
+   */
+  async retagCall(job: ProcessCallJob, runId: string): Promise<number> {
+    const transcript = await this.prisma.transcript.findUnique({
+      where: { callId: job.callId },
+      select: { id: true },
+    });
+    if (!transcript) {
+      return 0;
+    }
+
+    await this.prisma.chunkTag.deleteMany({
+      where: { chunk: { transcriptId: transcript.id } },
+    });
+    await this.prisma.callTag.deleteMany({ where: { callId: job.callId } });
+
+    const results = await this.tagAndIndex(job, transcript.id, `retag:${runId}`);
+    return results.reduce((sum, result) => sum + result.tags.length, 0);
+  }
+
+  private async tagAndIndex(
+    job: ProcessCallJob,
+    transcriptId: string,
+    idempotencyScope = "tag"
+  ) {
+    const { callId, organizationId, accountId } = job;
+
+    // Resolve AI client for this org. Use OWNER role to bypass user-level
+    // access checks for background jobs. If a specific user triggered this,
+    // we could use their context instead.
     const aiConfig = await this.resolveOrgAIClient(
       organizationId,
       job.userId
@@ -154,19 +191,19 @@ export class TranscriptProcessor {
       }
     );
 
-    // ── Step 5: Tag with AI ──────────────────────────────────────────
+    // Tag with AI
     const taggingResults = await this.tagger.tagCallTranscript(
       callId,
       {
         aiClient,
-        idempotencyKeyPrefix: `tag:${organizationId}:${callId}`,
+        idempotencyKeyPrefix: `${idempotencyScope}:${organizationId}:${callId}`,
       }
     );
 
-    // ── Step 6: Generate embeddings and index ────────────────────────
+    // Generate embeddings and index
     if (accountId) {
       const chunks = await this.prisma.transcriptChunk.findMany({
-        where: { transcriptId: transcript.id },
+        where: { transcriptId },
         include: { tags: true },
       });
 
@@ -183,26 +220,7 @@ export class TranscriptProcessor {
       }
     }
 
-    try {
-      await this.quoteLibrary.autoExtractForCall({
-        organizationId,
-        callId,
-        accountId,
-      });
-    } catch (error) {
-      logger.warn("Auto quote extraction failed", {
-        organizationId,
-        callId,
-        error,
-      });
-    }
-
-    metrics.incrementTranscriptsProcessed();
-    logger.info("Processed call", {
-      callId,
-      chunksCount: rawChunks.length,
-      tagsCount: taggingResults.length,
-    });
+    return taggingResults;
   }
 
   /**
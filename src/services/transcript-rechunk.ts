@@ -0,0 +1,328 @@
+/**
+ * Transcript Rechunk Backfill
+ *
+ * Re-chunks one organization's existing calls by speaker turn:
+ *   1. Walk the org's transcripts in batches
+ *   2. For transcripts stored without utterances, optionally fetch the
+ *      speaker turns from the call's recording provider and store them
+ *   3. For every transcript that now has utterances, drop its vectors,
+ *      replace its chunks in place (see `replaceTranscriptChunks`) and
+ *      re-queue the call for processing, which tags and embeds it again
+ *
+ * Transcripts the provider cannot supply utterances for keep their
+ * sentence-window chunks. Runs on the `transcript-rechunk` BullMQ queue.
+ */
+
+import type { Prisma, PrismaClient } from "@prisma/client";
+import type { ProcessCallJob } from "./transcript-processor.js";
+import { chunkStoredTranscript } from "./transcript-chunker.js";
+import { maskPII } from "../middleware/pii-masker.js";
+import type { ProviderRegistry } from "../integrations/types.js";
+import { coerceProviderCredentials } from "../integrations/types.js";
+import { enqueueProcessCallJob } from "../lib/queue-policy.js";
+import {
+  decodeCredentials,
+  decodeTranscriptUtterances,
+  encodeJsonValue,
+} from "../types/json-boundaries.js";
+import logger from "../lib/logger.js";
+
+/** Long calls move hundreds of tags row by row; Prisma's 5s default is too short. */
+const REPLACE_CHUNKS_TX_TIMEOUT_MS = 60_000;
+
+export interface TranscriptRechunkJobData {
+  organizationId: string;
+  /** Fetch speaker turns from the provider for transcripts stored without them. */
+  refetchUtterances?: boolean;
+  requestedByUserId?: string | null;
+}
+
+export interface TranscriptRechunkResult {
+  scanned: number;
+  utterancesFetched: number;
+  requeued: number;
+  skipped: number;
+}
+
+/** Position of a chunk for remapping: time range and share of the transcript text. */
+export interface RechunkSpan {
+  id: string;
+  text: string;
+  startMs: number | null;
+  endMs: number | null;
+}
+
+interface TranscriptRechunkDeps {
+  prisma: PrismaClient;
+  registry: ProviderRegistry;
+  processingQueue: {
+    add(name: string, data: ProcessCallJob, opts?: object): Promise<unknown>;
+  };
+  pruneVectorsForCall: (input: { organizationId: string; callId: string }) => Promise<number>;
+  batchSize: number;
+}
+
+export async function rechunkTranscripts(
+  deps: TranscriptRechunkDeps,
+  input: TranscriptRechunkJobData & { runId: string }
+): Promise<TranscriptRechunkResult> {
+  const { organizationId } = input;
+  const result: TranscriptRechunkResult = {
+    scanned: 0,
+    utterancesFetched: 0,
+    requeued: 0,
+    skipped: 0,
+  };
+
+  const configs = input.refetchUtterances
+    ? await deps.prisma.integrationConfig.findMany({
+        where: { organizationId, enabled: true },
+      })
+    : [];
+  const configByProvider = new Map<string, (typeof configs)[number]>(
+    configs.map((config) => [config.provider, config])
+  );
+
+  let cursor: string | undefined;
+  for (;;) {
+    const transcripts = await deps.prisma.transcript.findMany({
+      where: { call: { organizationId } },
+      select: {
+        id: true,
+        utterances: true,
+        call: {
+          select: { id: true, accountId: true, provider: true, externalId: true },
+        },
+      },
+      orderBy: { id: "asc" },
+      take: deps.batchSize,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (transcripts.length === 0) break;
+    cursor = transcripts[transcripts.length - 1].id;
+
+    for (const transcript of transcripts) {
+      result.scanned++;
+      const { call } = transcript;
+      let hasUtterances = decodeTranscriptUtterances(transcript.utterances).length > 0;
+
+      const config = configByProvider.get(call.provider);
+      const provider = config ? deps.registry.callRecording.get(config.provider) : undefined;
+      if (!hasUtterances && config && provider?.fetchUtterances && call.externalId) {
+        try {
+          const utterances = await provider.fetchUtterances(
+            coerceProviderCredentials(decodeCredentials(config.credentials)),
+            call.externalId
+          );
+          if (utterances && utterances.length > 0) {
+            await deps.prisma.transcript.update({
+              where: { id: transcript.id },
+              data: { utterances: encodeJsonValue(utterances) },
+            });
+            result.utterancesFetched++;
+            hasUtterances = true;
+          }
+        } catch (err) {
+          logger.warn("Failed to fetch utterances for rechunk", {
+            organizationId,
+            callId: call.id,
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
+
+      if (!hasUtterances) {
+        result.skipped++;
+        continue;
+      }
+
+      await deps.pruneVectorsForCall({ organizationId, callId: call.id });
+      await replaceTranscriptChunks(deps.prisma, transcript.id);
+      await enqueueProcessCallJob({
+        queue: deps.processingQueue,
+        source: "transcript-rechunk",
+        payload: {
+          callId: call.id,
+          organizationId,
+          accountId: call.accountId,
+          hasTranscript: true,
+        },
+        options: { jobId: `process-call:${call.id}:rechunk:${input.runId}` },
+      });
+      result.requeued++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Maps every old chunk to the new chunk covering the same part of the call:
+ * the largest time overlap when both sides have timestamps, otherwise the
+ * new chunk containing the old chunk's midpoint as a share of the text.
+ */
+export function mapRechunkedChunks(
+  oldChunks: RechunkSpan[],
+  newChunks: RechunkSpan[]
+): Map<string, string> {
+  const mapping = new Map<string, string>();
+  if (newChunks.length === 0) return mapping;
+
+  const textShares = (chunks: RechunkSpan[]) => {
+    const total = chunks.reduce((sum, chunk) => sum + chunk.text.length, 0) || 1;
+    let offset = 0;
+    return chunks.map((chunk) => {
+      const start = offset / total;
+      offset += chunk.text.length;
+      return { start, end: offset / total };
+    });
+  };
+  const oldShares = textShares(oldChunks);
+  const newShares = textShares(newChunks);
+  const newTimed = newChunks.every((chunk) => chunk.startMs !== null && chunk.endMs !== null);
+
+  oldChunks.forEach((oldChunk, index) => {
+    let target: RechunkSpan | undefined;
+    if (newTimed && oldChunk.startMs !== null && oldChunk.endMs !== null) {
+      let bestOverlap = 0;
+      for (const candidate of newChunks) {
+        const overlap =
+          Math.min(oldChunk.endMs, candidate.endMs!) - Math.max(oldChunk.startMs, candidate.startMs!);
+        if (overlap > bestOverlap) {
+          bestOverlap = overlap;
+          target = candidate;
+        }
+      }
+    }
+    if (!target) {
+      const midpoint = (oldShares[index]!.start + oldShares[index]!.end) / 2;
+      const position = newShares.findIndex((share) => midpoint < share.end);
+      target = newChunks[position === -1 ? newChunks.length - 1 : position];
+    }
+    mapping.set(oldChunk.id, target!.id);
+  });
+  return mapping;
+}
+
+/**
+ * Re-chunks one transcript inside a transaction without losing anything
+ * that points at its chunks. The old rows are parked past the new index
+ * range, the new chunks are created, and quote provenance
+ * (`Quote`/`HighValueQuote.sourceChunkId`), claim lineage, validation
+ * samples, tags and labeling queue items are moved to the new chunk that
+ * covers the same part of the call before the old rows are deleted.
+ */
+export async function replaceTranscriptChunks(
+  prisma: PrismaClient,
+  transcriptId: string
+): Promise<{ created: number; remapped: number }> {
+  return prisma.$transaction(async (tx) => {
+    const transcript = await tx.transcript.findUniqueOrThrow({
+      where: { id: transcriptId },
+      select: { fullText: true, utterances: true, language: true },
+    });
+    const oldChunks = await tx.transcriptChunk.findMany({
+      where: { transcriptId },
+      select: { id: true, chunkIndex: true, text: true, startMs: true, endMs: true },
+      orderBy: { chunkIndex: "asc" },
+    });
+    const drafts = chunkStoredTranscript(transcript);
+
+    // Free indexes 0..n-1 for the new chunks while the old rows still exist
+    const parkedOffset = Math.max(drafts.length, (oldChunks[oldChunks.length - 1]?.chunkIndex ?? -1) + 1);
+    if (oldChunks.length > 0) {
+      await tx.transcriptChunk.updateMany({
+        where: { transcriptId },
+        data: { chunkIndex: { increment: parkedOffset } },
+      });
+    }
+
+    const newChunks: RechunkSpan[] = [];
+    for (const draft of drafts) {
+      const { maskedText } = maskPII(draft.text, { language: transcript.language });
+      newChunks.push(
+        await tx.transcriptChunk.create({
+          data: {
+            transcriptId,
+            chunkIndex: draft.index,
+            text: maskedText,
+            speaker: draft.speaker,
+            startMs: draft.startMs,
+            endMs: draft.endMs,
+          },
+          select: { id: true, text: true, startMs: true, endMs: true },
+        })
+      );
+    }
+
+    const mapping = mapRechunkedChunks(oldChunks, newChunks);
+    await moveChunkReferences(tx, mapping);
+
+    if (oldChunks.length > 0) {
+      await tx.transcriptChunk.deleteMany({
+        where: { id: { in: oldChunks.map((chunk) => chunk.id) } },
+      });
+    }
+    return { created: newChunks.length, remapped: mapping.size };
+  }, { timeout: REPLACE_CHUNKS_TX_TIMEOUT_MS });
+}
+
+async function moveChunkReferences(
+  tx: Prisma.TransactionClient,
+  mapping: Map<string, string>
+): Promise<void> {
+  const oldIdsByTarget = new Map<string, string[]>();
+  for (const [oldId, newId] of mapping) {
+    let oldIds = oldIdsByTarget.get(newId);
+    if (!oldIds) oldIdsByTarget.set(newId, (oldIds = []));
+    oldIds.push(oldId);
+  }
+
+  for (const [newId, oldIds] of oldIdsByTarget) {
+    const sourceChunk = { sourceChunkId: { in: oldIds } };
+    await tx.quote.updateMany({ where: sourceChunk, data: { sourceChunkId: newId } });
+    await tx.highValueQuote.updateMany({ where: sourceChunk, data: { sourceChunkId: newId } });
+    await tx.storyClaimLineage.updateMany({ where: sourceChunk, data: { sourceChunkId: newId } });
+    await tx.validationSample.updateMany({
+      where: { chunkId: { in: oldIds } },
+      data: { chunkId: newId },
+    });
+  }
+
+  const oldIds = [...mapping.keys()];
+  if (oldIds.length === 0) return;
+
+  // One tag per (chunk, stage, topic): keep the most confident; the rest go
+  // with their old chunk
+  const tags = await tx.chunkTag.findMany({
+    where: { chunkId: { in: oldIds } },
+    select: { id: true, chunkId: true, funnelStage: true, topic: true },
+    orderBy: { confidence: "desc" },
+  });
+  const movedTags = new Set<string>();
+  for (const tag of tags) {
+    const newId = mapping.get(tag.chunkId)!;
+    const key = `${newId}:${tag.funnelStage}:${tag.topic}`;
+    if (movedTags.has(key)) continue;
+    movedTags.add(key);
+    await tx.chunkTag.update({ where: { id: tag.id }, data: { chunkId: newId } });
+  }
+
+  // One queue item per chunk: reviewer decisions win over pending items
+  const queueItems = await tx.labelingQueueItem.findMany({
+    where: { chunkId: { in: oldIds } },
+    select: { id: true, chunkId: true, status: true },
+    orderBy: { priority: "desc" },
+  });
+  const resolvedFirst = [
+    ...queueItems.filter((item) => item.status !== "PENDING"),
+    ...queueItems.filter((item) => item.status === "PENDING"),
+  ];
+  const queuedChunks = new Set<string>();
+  for (const item of resolvedFirst) {
+    const newId = mapping.get(item.chunkId)!;
+    if (queuedChunks.has(newId)) continue;
+    queuedChunks.add(newId);
+    await tx.labelingQueueItem.update({ where: { id: item.id }, data: { chunkId: newId } });
+  }
+}
@@ -5,13 +5,19 @@
  * accounts that received new calls since the last FULL_JOURNEY story
  * was generated, rebuilds the story, diffs against the previous version,
  * and compiles results so an email digest can be sent to org admins.
+ * The new version is also stored as a pending revision of the previous
+ * story so editors can review it section by section. A story built from an
+ * org template is regenerated from the latest version of that template.
  */
 
 import type { PrismaClient } from "@prisma/client";
-import { diffLines } from "diff";
 import { StoryBuilder } from "./story-builder.js";
+import { computeStoryDiff, splitStorySections } from "./story-revision-diff.js";
+import { StoryRevisionService } from "./story-revisions.js";
+import { StoryTemplateService } from "./story-templates.js";
 import { EmailService, type AccountChange } from "./email.js";
 import logger from "../lib/logger.js";
+import { normalizeLanguageCode } from "../lib/language-detection.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -23,6 +29,10 @@ interface EligibleAccount {
   lastStoryId: string | null;
   lastStoryMarkdown: string | null;
   lastStoryGeneratedAt: Date | null;
+  /** Output language of the last story, kept for the regenerated one */
+  lastStoryLanguage: string | null;
+  /** Org template the last story followed, reused for the regenerated one */
+  lastStoryTemplateId: string | null;
   /** Number of new calls since lastStoryGeneratedAt */
   newCallCount: number;
 }
@@ -42,129 +52,14 @@ export interface WeeklyRegenJobData {
   organizationId?: string;
 }
 
-// ─── Section Parsing ─────────────────────────────────────────────────────────
-
-interface MarkdownSection {
-  heading: string;
-  content: string;
-}
-
-/**
- * Parses a markdown document into sections by ## headings.
- */
-function parseSections(markdown: string): MarkdownSection[] {
-  const lines = markdown.split("\n");
-  const sections: MarkdownSection[] = [];
-  let current: MarkdownSection | null = null;
-
-  for (const line of lines) {
-    const headingMatch = line.match(/^#{1,3}\s+(.+)$/);
-    if (headingMatch) {
-      if (current) sections.push(current);
-      current = { heading: headingMatch[1].trim(), content: "" };
-    } else if (current) {
-      current.content += line + "\n";
-    }
-  }
-  if (current) sections.push(current);
-
-  return sections;
-}
-
-// ─── Diff Logic ──────────────────────────────────────────────────────────────
-
-interface StoryDiff {
-  /** Human-readable summary sentence */
-  summary: string;
-  sectionsAdded: string[];
-  sectionsRemoved: string[];
-  sectionsModified: string[];
-  linesAdded: number;
-  linesRemoved: number;
-}
-
-/**
- * Computes a structured diff between two markdown story versions.
- */
-function computeStoryDiff(
-  oldMarkdown: string,
-  newMarkdown: string
-): StoryDiff {
-  const oldSections = parseSections(oldMarkdown);
-  const newSections = parseSections(newMarkdown);
-
-  const oldHeadings = new Map(oldSections.map((s) => [s.heading, s.content]));
-  const newHeadings = new Map(newSections.map((s) => [s.heading, s.content]));
-
-  const sectionsAdded: string[] = [];
-  const sectionsRemoved: string[] = [];
-  const sectionsModified: string[] = [];
-
-  // Check for added and modified sections
-  for (const [heading, content] of newHeadings) {
-    if (!oldHeadings.has(heading)) {
-      sectionsAdded.push(heading);
-    } else if (oldHeadings.get(heading)!.trim() !== content.trim()) {
-      sectionsModified.push(heading);
-    }
-  }
-
-  // Check for removed sections
-  for (const heading of oldHeadings.keys()) {
-    if (!newHeadings.has(heading)) {
-      sectionsRemoved.push(heading);
-    }
-  }
-
-  // Line-level diff for counts
-  const lineDiff = diffLines(oldMarkdown, newMarkdown);
-  let linesAdded = 0;
-  let linesRemoved = 0;
-  for (const part of lineDiff) {
-    if (part.added) linesAdded += part.count ?? 0;
-    if (part.removed) linesRemoved += part.count ?? 0;
-  }
-
-  // Build summary sentence
-  const parts: string[] = [];
-  if (sectionsAdded.length > 0) {
-    parts.push(
-      `${sectionsAdded.length} section${sectionsAdded.length > 1 ? "s" : ""} added`
-    );
-  }
-  if (sectionsModified.length > 0) {
-    parts.push(
-      `${sectionsModified.length} section${sectionsModified.length > 1 ? "s" : ""} updated`
-    );
-  }
-  if (sectionsRemoved.length > 0) {
-    parts.push(
-      `${sectionsRemoved.length} section${sectionsRemoved.length > 1 ? "s" : ""} removed`
-    );
-  }
-  if (parts.length === 0) {
-    parts.push("minor wording changes");
-  }
-
-  const summary =
-    `Story regenerated with ${linesAdded} line${linesAdded === 1 ? "" : "s"} added and ${linesRemoved} removed — ${parts.join(", ")}.`;
-
-  return {
-    summary,
-    sectionsAdded,
-    sectionsRemoved,
-    sectionsModified,
-    linesAdded,
-    linesRemoved,
-  };
-}
-
 // ─── Service ─────────────────────────────────────────────────────────────────
 
 export class WeeklyStoryRegeneration {
   private prisma: PrismaClient;
   private storyBuilder: StoryBuilder;
   private emailService: EmailService;
+  private revisions: StoryRevisionService;
+  private templates: StoryTemplateService;
 
   constructor(
     prisma: PrismaClient,
@@ -174,6 +69,8 @@ export class WeeklyStoryRegeneration {
     this.prisma = prisma;
     this.storyBuilder = storyBuilder;
     this.emailService = emailService;
+    this.revisions = new StoryRevisionService(prisma);
+    this.templates = new StoryTemplateService(prisma);
   }
 
   /**
@@ -181,7 +78,7 @@ export class WeeklyStoryRegeneration {
    *
    * 1. Find all accounts across orgs with new calls since their last FULL_JOURNEY story
    * 2. Regenerate the story for each account
-   * 3. Diff against the previous version
+   * 3. Diff against the previous version and queue it for review
    * 4. Group results by org and email the digest to admins
    */
   async run(data: WeeklyRegenJobData = {}): Promise<{
@@ -301,6 +198,8 @@ export class WeeklyStoryRegeneration {
             id: true,
             markdownBody: true,
             generatedAt: true,
+            language: true,
+            templateVersion: { select: { templateId: true } },
           },
         });
 
@@ -324,6 +223,8 @@ export class WeeklyStoryRegeneration {
             lastStoryId: latestStory?.id ?? null,
             lastStoryMarkdown: latestStory?.markdownBody ?? null,
             lastStoryGeneratedAt: latestStory?.generatedAt ?? null,
+            lastStoryLanguage: latestStory?.language ?? null,
+            lastStoryTemplateId: latestStory?.templateVersion?.templateId ?? null,
             newCallCount,
           });
         }
@@ -342,10 +243,19 @@ export class WeeklyStoryRegeneration {
       `[story-regen] Regenerating FULL_JOURNEY for ${account.accountName} (${account.newCallCount} new calls)`
     );
 
+    // Archived templates still apply to the stories that were built from them
+    const template = account.lastStoryTemplateId
+      ? await this.templates.resolveTemplate(account.organizationId, account.lastStoryTemplateId, {
+          includeArchived: true,
+        })
+      : null;
+
     // Build a new FULL_JOURNEY story (no funnel stage or topic filters = full journey)
     const result = await this.storyBuilder.buildStory({
       accountId: account.accountId,
       organizationId: account.organizationId,
+      targetLanguage: normalizeLanguageCode(account.lastStoryLanguage) ?? undefined,
+      template: template ?? undefined,
     });
 
     // Find the newly created story record (most recent for this account)
@@ -368,13 +278,15 @@ export class WeeklyStoryRegeneration {
     let change: AccountChange;
 
     if (isFirstStory) {
-      const sections = parseSections(result.markdownBody);
+      const sections = splitStorySections(result.markdownBody).filter(
+        (section) => section.heading !== null
+      );
       change = {
         accountName: account.accountName,
         accountId: account.accountId,
         newCallCount: account.newCallCount,
         diffSummary: `First Full Journey story generated from ${account.newCallCount} call${account.newCallCount === 1 ? "" : "s"}.`,
-        sectionsAdded: sections.map((s) => s.heading),
+        sectionsAdded: sections.map((s) => s.heading!),
         sectionsRemoved: [],
         sectionsModified: [],
         isFirstStory: true,
@@ -394,6 +306,23 @@ export class WeeklyStoryRegeneration {
         sectionsModified: diff.sectionsModified,
         isFirstStory: false,
       };
+
+      // Queue the new version for section-by-section review on the old story
+      await this.revisions.proposeRegeneration({
+        storyId: account.lastStoryId!,
+        sourceStoryId: newStory.id,
+        markdownBody: result.markdownBody,
+        quotes: result.quotes.map((q) => ({
+          quoteText: q.quoteText,
+          speaker: q.speaker,
+          context: q.context,
+          metricType: q.metricType,
+          metricValue: q.metricValue,
+          callId: q.callId,
+          language: q.language,
+          translation: q.translation,
+        })),
+      });
     }
 
     // Log the regeneration
@@ -1,5 +1,10 @@
 import { z } from "zod";
 import type { Prisma } from "@prisma/client";
+import {
+  QUOTE_METRIC_TYPES,
+  STORY_LENGTHS,
+  type StoryTemplateDefinition,
+} from "./story-generation.js";
 
 const JsonObjectSchema = z.record(z.unknown());
 
@@ -34,6 +39,13 @@ const DataGovernancePolicySchema = z
     ai_budget_monthly_cents: optionalInt(100, Number.MAX_SAFE_INTEGER),
     ai_budget_thresholds: optionalIntArray(1, 100),
     ai_budget_block_at_100: optionalBool(),
+    story_lint_publish_mode: z
+      .enum(["WARN", "BLOCK_ERRORS", "BLOCK_WARNINGS"])
+      .optional()
+      .catch(undefined),
+    page_analytics_enabled: optionalBool(),
+    page_analytics_cookies_enabled: optionalBool(),
+    page_analytics_retention_days: optionalInt(7, 730),
   })
   .passthrough();
 
@@ -60,9 +72,83 @@ const CalloutBoxSchema = z.object({
   icon: CalloutIconSchema,
 });
 
+const TranscriptUtteranceSchema = z.object({
+  speaker: z.string().nullable().catch(null),
+  text: z.string(),
+  startMs: z.number().int().nonnegative().nullable().catch(null),
+  endMs: z.number().int().nonnegative().nullable().catch(null),
+});
+
+const CalibrationPointSchema = z.object({
+  rawConfidence: z.number().min(0).max(1),
+  empiricalAccuracy: z.number().min(0).max(1),
+});
+
+const TaggingTopicMetricsSchema = z.object({
+  topic: z.string(),
+  support: z.number().int().nonnegative(),
+  predicted: z.number().int().nonnegative(),
+  truePositives: z.number().int().nonnegative(),
+  precision: z.number(),
+  recall: z.number(),
+  f1: z.number(),
+});
+
+const TaggingEvaluationReportSchema = z.object({
+  datasetVersion: z.string(),
+  provider: z.string(),
+  model: z.string(),
+  promptFingerprint: z.string(),
+  itemCount: z.number().int().nonnegative(),
+  failedItems: z.array(z.string()),
+  microPrecision: z.number(),
+  microRecall: z.number(),
+  microF1: z.number(),
+  macroF1: z.number(),
+  topics: z.array(TaggingTopicMetricsSchema),
+  stageAccuracy: z.number(),
+  stageConfusion: z.record(z.record(z.number().int().nonnegative())),
+  calibration: z.object({
+    sampleCount: z.number().int().nonnegative(),
+    brierScore: z.number(),
+    expectedCalibrationError: z.number(),
+  }),
+});
+
+const RevisionQuoteSchema = z.object({
+  quoteText: z.string().min(1),
+  speaker: z.string().nullable().catch(null),
+  context: z.string().nullable().catch(null),
+  metricType: z.string().nullable().catch(null),
+  metricValue: z.string().nullable().catch(null),
+  callId: z.string().nullable().catch(null),
+  language: z.string().nullable().catch(null),
+  translation: z.string().nullable().catch(null),
+});
+
+const StoryTemplateDefinitionSchema = z.object({
+  sections: z
+    .array(
+      z.object({
+        heading: z.string().min(1),
+        instructions: z.string(),
+        minQuotes: z.number().int().nonnegative().catch(0),
+        requiredMetrics: z.array(z.enum(QUOTE_METRIC_TYPES)).catch([]),
+      })
+    )
+    .min(1),
+  storyLength: z.enum(STORY_LENGTHS).catch("MEDIUM"),
+  audience: z.string().nullable().catch(null),
+  promptBlock: z.string().nullable().catch(null),
+});
+
 export type DataGovernancePolicyBoundary = z.infer<typeof DataGovernancePolicySchema>;
 export type SecurityPolicyBoundary = z.infer<typeof SecurityPolicySchema>;
 export type CalloutBoxBoundary = z.infer<typeof CalloutBoxSchema>;
+export type TranscriptUtteranceBoundary = z.infer<typeof TranscriptUtteranceSchema>;
+export type CalibrationPointBoundary = z.infer<typeof CalibrationPointSchema>;
+export type TaggingEvaluationReportBoundary = z.infer<typeof TaggingEvaluationReportSchema>;
+export type RevisionQuoteBoundary = z.infer<typeof RevisionQuoteSchema>;
 
 export function decodeJsonObject(value: unknown): Record<string, unknown> {
   const parsed = JsonObjectSchema.safeParse(value);
@@ -99,3 +185,30 @@ export function decodeCalloutBoxes(value: unknown): CalloutBoxBoundary[] {
 export function encodeJsonValue(value: unknown): Prisma.InputJsonValue {
   return JSON.parse(JSON.stringify(value));
 }
+
+export function decodeTranscriptUtterances(value: unknown): TranscriptUtteranceBoundary[] {
+  const parsed = z.array(TranscriptUtteranceSchema).safeParse(value);
+  return parsed.success ? parsed.data : [];
+}
+
+export function decodeCalibrationCurve(value: unknown): CalibrationPointBoundary[] {
+  const parsed = z.array(CalibrationPointSchema).safeParse(value);
+  return parsed.success ? parsed.data : [];
+}
+
+export function decodeTaggingEvaluationReport(
+  value: unknown
+): TaggingEvaluationReportBoundary | null {
+  const parsed = TaggingEvaluationReportSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+export function decodeRevisionQuotes(value: unknown): RevisionQuoteBoundary[] {
+  const parsed = z.array(RevisionQuoteSchema).safeParse(value);
+  return parsed.success ? parsed.data : [];
+}
+
+export function decodeStoryTemplateDefinition(value: unknown): StoryTemplateDefinition | null {
+  const parsed = StoryTemplateDefinitionSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
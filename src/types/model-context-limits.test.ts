@@ -2,6 +2,7 @@ import { describe, it, expect } from "vitest";
 import {
   MODEL_CONTEXT_LIMITS,
   getMaxRecommendedWords,
+  getRecommendedWordsForModel,
   type ModelContextLimit,
 } from "./model-context-limits.js";
 
@@ -96,3 +97,17 @@ describe("getMaxRecommendedWords", () => {
     expect(getMaxRecommendedWords()).toBe(max);
   });
 });
+
+describe("getRecommendedWordsForModel", () => {
+  it("matches provider model ids to the most specific tracked model", () => {
+    expect(getRecommendedWordsForModel("gpt-4o-2024-08-06")).toBe(76_800);
+    expect(getRecommendedWordsForModel("gpt-4.1")).toBe(600_000);
+    expect(getRecommendedWordsForModel("claude-sonnet-4-5-20250929")).toBe(120_000);
+    expect(getRecommendedWordsForModel("gemini-2.5-pro")).toBe(600_000);
+  });
+
+  it("falls back to the smallest tracked limit for unknown models", () => {
+    expect(getRecommendedWordsForModel("some-new-model")).toBe(76_800);
+    expect(getRecommendedWordsForModel(undefined)).toBe(76_800);
+  });
+});
@@ -103,3 +103,25 @@ export const MODEL_CONTEXT_LIMITS: ModelContextLimit[] = [
 export function getMaxRecommendedWords(): number {
   return Math.max(...MODEL_CONTEXT_LIMITS.map((m) => m.recommendedWords));
 }
+
+function normalizeModelName(model: string): string {
+  return model.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Recommended word count for a provider model id such as
+ * "claude-sonnet-4-5-20250929" or "gpt-4o-2024-08-06". Ids are matched to
+ * the longest tracked model name they start with; unknown models get the
+ * smallest tracked limit, so a merged transcript never overflows them.
+ */
+export function getRecommendedWordsForModel(model: string | null | undefined): number {
+  const normalized = normalizeModelName(model ?? "");
+  let best: ModelContextLimit | null = null;
+  for (const limit of MODEL_CONTEXT_LIMITS) {
+    const name = normalizeModelName(limit.model);
+    if (normalized.startsWith(name) && (!best || name.length > normalizeModelName(best.model).length)) {
+      best = limit;
+    }
+  }
+  return best?.recommendedWords ?? Math.min(...MODEL_CONTEXT_LIMITS.map((m) => m.recommendedWords));
+}
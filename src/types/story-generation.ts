@@ -1,4 +1,10 @@
-import { ALL_TOPICS, STORY_FORMATS, TOPIC_LABELS, type TaxonomyTopic, type StoryFormat } from "./taxonomy.js";
+import {
+  ALL_TOPICS,
+  STORY_FORMATS,
+  TOPIC_LABELS,
+  type CustomTopicKey,
+  type StoryFormat,
+} from "./taxonomy.js";
 
 export const STORY_LENGTHS = ["SHORT", "MEDIUM", "LONG", "EXECUTIVE"] as const;
 export type StoryLength = (typeof STORY_LENGTHS)[number];
@@ -13,11 +19,25 @@ export const STORY_OUTLINES = [
 ] as const;
 export type StoryOutline = (typeof STORY_OUTLINES)[number];
 
+/** Quote metric types a template can require (extraction also uses "other"). */
+export const QUOTE_METRIC_TYPES = [
+  "cost_savings",
+  "revenue",
+  "time_saved",
+  "efficiency",
+  "error_reduction",
+  "adoption",
+  "scale",
+  "roi",
+] as const;
+export type QuoteMetricType = (typeof QUOTE_METRIC_TYPES)[number];
+
 export const STORY_TYPES = [
   "FULL_ACCOUNT_JOURNEY",
   ...ALL_TOPICS,
 ] as const;
-export type StoryTypeInput = (typeof STORY_TYPES)[number];
+/** A built-in story type, or the key of one of the org's custom topics. */
+export type StoryTypeInput = (typeof STORY_TYPES)[number] | CustomTopicKey;
 
 export interface StoryContextSettings {
   companyOverview?: string;
@@ -28,7 +48,9 @@ export interface StoryContextSettings {
   proofPoints?: string[];
   bannedClaims?: string[];
   writingStyleGuide?: string;
+  /** "Approved" or "Approved = synonym | synonym"; see story-lint. */
   approvedTerminology?: string[];
+  competitors?: string[];
   publishedBranding?: PublishedBrandingSettings;
 }
 
@@ -47,11 +69,37 @@ export interface StoryPromptDefaults {
   storyType?: StoryTypeInput;
 }
 
-export function storyTypeLabel(storyType: StoryTypeInput): string {
+export const MAX_TEMPLATE_SECTIONS = 12;
+
+/** One section of an org story template. */
+export interface StoryTemplateSection {
+  heading: string;
+  /** What the section should cover, passed to the model verbatim. */
+  instructions: string;
+  /** Direct customer quotes the section must include. */
+  minQuotes: number;
+  /** Metric types the section must quantify. */
+  requiredMetrics: QuoteMetricType[];
+}
+
+/** The versioned body of a story template; stored as JSON on each version. */
+export interface StoryTemplateDefinition {
+  sections: StoryTemplateSection[];
+  storyLength: StoryLength;
+  /** Default reader, e.g. "CFOs at mid-market manufacturers". */
+  audience: string | null;
+  /** Extra instructions added to the system prompt. */
+  promptBlock: string | null;
+}
+
+export function storyTypeLabel(
+  storyType: StoryTypeInput,
+  topicLabels: Record<string, string> = TOPIC_LABELS
+): string {
   if (storyType === "FULL_ACCOUNT_JOURNEY") {
     return "Full Account Journey";
   }
-  return TOPIC_LABELS[storyType as TaxonomyTopic] ?? storyType;
+  return topicLabels[storyType] ?? storyType;
 }
 
 export function storyLengthWordTarget(length: StoryLength): string {
@@ -199,6 +199,26 @@ export const TOPIC_LABELS: Record<TaxonomyTopic, string> = {
   public_sector_government: "Public Sector & Government",
 };
 
+// ─── Org-Defined Topics ──────────────────────────────────────────────────────
+
+/**
+ * Organizations can add their own topics on top of the built-in taxonomy
+ * (see services/custom-taxonomy.ts). Their keys carry this prefix so they
+ * never collide with built-in keys.
+ */
+export const CUSTOM_TOPIC_PREFIX = "custom_";
+
+export type CustomTopicKey = `${typeof CUSTOM_TOPIC_PREFIX}${string}`;
+
+/** A built-in topic or the key of an org-defined topic. */
+export type TopicKey = TaxonomyTopic | CustomTopicKey;
+
+export const CUSTOM_TOPIC_KEY_PATTERN = /^custom_[a-z0-9]+(?:_[a-z0-9]+)*$/;
+
+export function isCustomTopicKey(value: string): value is CustomTopicKey {
+  return CUSTOM_TOPIC_KEY_PATTERN.test(value) && value.length <= 64;
+}
+
 /**
  * Format & Angle variations — these are not taxonomy tags but inform
  * how the Story Builder should shape the output.
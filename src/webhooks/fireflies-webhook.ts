@@ -0,0 +1,183 @@
+/**
+ * Fireflies Webhook Handler
+ *
+ * Receives real-time notifications from Fireflies when a meeting has been
+ * transcribed. This supplements the polling-based sync with immediate
+ * processing of new transcripts.
+ *
+ * Fireflies webhooks deliver one event:
+ *   - "Transcription completed"
+ *
+ * Requests are signed with the webhook secret configured in Fireflies'
+ * developer settings, stored as the integration's webhookSecret:
+ *   x-hub-signature: HMAC-SHA256(secret, body) as hex, optionally "sha256="-prefixed
+ */
+
+import type { Request, Response } from "express";
+import crypto from "crypto";
+import type { PrismaClient } from "@prisma/client";
+import type { Queue } from "bullmq";
+import { FirefliesProvider } from "../integrations/fireflies-provider.js";
+import type { FirefliesCredentials } from "../integrations/types.js";
+import logger from "../lib/logger.js";
+import { markWebhookEventIfNew, releaseWebhookEvent } from "../lib/webhook-idempotency.js";
+import {
+  pickFirstHeaderValue,
+  readHeaderValue,
+  validateWebhookTimestamp,
+} from "../lib/webhook-security.js";
+import { ingestRecordingWebhookCall } from "./recording-webhook-ingest.js";
+
+// ─── Fireflies Webhook Payload Types ────────────────────────────────────────
+
+interface FirefliesWebhookPayload {
+  /** The Fireflies transcript ID */
+  meetingId?: string;
+  /** Event type, e.g., "Transcription completed" */
+  eventType?: string;
+  /** Custom reference passed when the meeting was uploaded */
+  clientReferenceId?: string;
+}
+
+// ─── Webhook Signature Verification ─────────────────────────────────────────
+
+function verifyFirefliesSignature(payload: string, signature: string, secret: string): boolean {
+  const expected = crypto.createHmac("sha256", secret).update(payload).digest("hex");
+  const provided = signature.replace(/^sha256=/i, "");
+  const sigBuffer = Buffer.from(provided, "utf8");
+  const expectedBuffer = Buffer.from(expected, "utf8");
+  if (sigBuffer.length !== expectedBuffer.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(sigBuffer, expectedBuffer);
+}
+
+// ─── Handler Factory ────────────────────────────────────────────────────────
+
+export function createFirefliesWebhookHandler(deps: {
+  prisma: PrismaClient;
+  processingQueue: Queue;
+}) {
+  const { prisma, processingQueue } = deps;
+  const firefliesProvider = new FirefliesProvider();
+
+  return async (req: Request, res: Response) => {
+    // ── Find the integration config for this webhook ──────────────────
+    const signature = readHeaderValue(req.headers, "x-hub-signature") ?? "";
+    const rawBody = Buffer.isBuffer(req.body)
+      ? req.body.toString("utf8")
+      : typeof req.body === "string"
+        ? req.body
+        : JSON.stringify(req.body ?? {});
+
+    const firefliesConfigs = await prisma.integrationConfig.findMany({
+      where: { provider: "FIREFLIES", enabled: true, status: "ACTIVE" },
+    });
+
+    if (firefliesConfigs.length === 0) {
+      res.status(404).json({ error: "No active Fireflies integration" });
+      return;
+    }
+
+    const validConfigs = firefliesConfigs.filter(
+      (c: { webhookSecret: string | null }) => c.webhookSecret
+    );
+    if (validConfigs.length !== firefliesConfigs.length) {
+      res.status(500).json({
+        error: "All active Fireflies integrations must configure webhookSecret",
+      });
+      return;
+    }
+    if (!signature) {
+      res.status(401).json({ error: "Missing webhook signature" });
+      return;
+    }
+
+    // Try to match signature to a specific org's webhook secret
+    type FirefliesConfig = (typeof validConfigs)[number];
+    const matchedConfig =
+      validConfigs.find(
+        (c: FirefliesConfig) =>
+          c.webhookSecret && verifyFirefliesSignature(rawBody, signature, c.webhookSecret)
+      ) ?? null;
+    if (!matchedConfig) {
+      res.status(401).json({ error: "Invalid webhook signature" });
+      return;
+    }
+
+    let payload: FirefliesWebhookPayload;
+    try {
+      payload = JSON.parse(rawBody) as FirefliesWebhookPayload;
+    } catch {
+      res.status(400).json({ error: "Invalid JSON payload" });
+      return;
+    }
+
+    const rawCredentials: unknown = matchedConfig.credentials;
+    const credentials = rawCredentials as FirefliesCredentials;
+    const organizationId = matchedConfig.organizationId;
+
+    // Fireflies payloads carry no timestamp; honor one if a proxy adds it.
+    const timestampValidation = validateWebhookTimestamp({
+      provider: "fireflies",
+      timestamp: pickFirstHeaderValue(req.headers, [
+        "x-fireflies-timestamp",
+        "x-webhook-timestamp",
+        "x-request-timestamp",
+      ]),
+      required: false,
+    });
+    if (!timestampValidation.ok) {
+      res.status(401).json({ error: "stale_webhook" });
+      return;
+    }
+
+    // Claimed up front so concurrent deliveries are ignored; released again
+    // when the event could not be ingested so a provider retry gets through
+    let claimedEventKey: string | null = null;
+    try {
+      if (payload.eventType === "Transcription completed") {
+        if (!payload.meetingId) {
+          res.json({ received: true, processed: false, reason: "No meetingId" });
+          return;
+        }
+
+        const eventKey = `fireflies:${organizationId}:transcription_completed:${payload.meetingId}`;
+        if (!(await markWebhookEventIfNew(eventKey))) {
+          res.json({
+            received: true,
+            processed: true,
+            duplicate_ignored: true,
+          });
+          return;
+        }
+        claimedEventKey = eventKey;
+
+        const call = await firefliesProvider.fetchCall(credentials, payload.meetingId);
+        if (!call) {
+          await releaseWebhookEvent(eventKey);
+          res.json({ received: true, processed: false, reason: "Transcript not found" });
+          return;
+        }
+
+        await ingestRecordingWebhookCall({
+          prisma,
+          processingQueue,
+          callProvider: "FIREFLIES",
+          organizationId,
+          call,
+          source: "fireflies-webhook",
+        });
+      }
+
+      res.json({ received: true, processed: true });
+    } catch (err) {
+      logger.error("Fireflies webhook processing error", { error: err });
+      if (claimedEventKey) {
+        await releaseWebhookEvent(claimedEventKey);
+      }
+      // Non-2xx so the provider redelivers the event
+      res.status(500).json({ received: true, processed: false, error: "Processing failed" });
+    }
+  };
+}
@@ -23,6 +23,7 @@ import logger from "../lib/logger.js";
 import { enqueueProcessCallJob } from "../lib/queue-policy.js";
 import { markWebhookEventIfNew } from "../lib/webhook-idempotency.js";
 import { pickFirstHeaderValue, validateWebhookTimestamp } from "../lib/webhook-security.js";
+import { detectLanguage } from "../lib/language-detection.js";
 
 // ─── Gong Webhook Payload Types ─────────────────────────────────────────────
 
@@ -221,10 +222,12 @@ async function handleCallReady(
         callId: call.id,
         fullText: transcript,
         wordCount: transcript.split(/\s+/).length,
+        language: detectLanguage(transcript),
       },
       update: {
         fullText: transcript,
         wordCount: transcript.split(/\s+/).length,
+        language: detectLanguage(transcript),
       },
     });
   }
@@ -24,6 +24,7 @@ import logger from "../lib/logger.js";
 import { enqueueProcessCallJob } from "../lib/queue-policy.js";
 import { markWebhookEventIfNew } from "../lib/webhook-idempotency.js";
 import { pickFirstHeaderValue, validateWebhookTimestamp } from "../lib/webhook-security.js";
+import { detectLanguage } from "../lib/language-detection.js";
 
 // ─── Grain Webhook Payload Types ────────────────────────────────────────────
 
@@ -231,10 +232,12 @@ async function handleRecordingReady(
         callId: call.id,
         fullText: transcript,
         wordCount: transcript.split(/\s+/).length,
+        language: detectLanguage(transcript),
       },
       update: {
         fullText: transcript,
         wordCount: transcript.split(/\s+/).length,
+        language: detectLanguage(transcript),
       },
     });
   }
@@ -27,6 +27,7 @@ import { Sentry } from "../lib/sentry.js";
 import { enqueueProcessCallJob } from "../lib/queue-policy.js";
 import { markWebhookEventIfNew } from "../lib/webhook-idempotency.js";
 import { pickFirstHeaderValue, validateWebhookTimestamp } from "../lib/webhook-security.js";
+import { detectLanguage } from "../lib/language-detection.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -342,10 +343,12 @@ async function handleRecordingEvent(
         callId: call.id,
         fullText: recording.transcript,
         wordCount: recording.transcript.split(/\s+/).length,
+        language: detectLanguage(recording.transcript),
       },
       update: {
         fullText: recording.transcript,
         wordCount: recording.transcript.split(/\s+/).length,
+        language: detectLanguage(recording.transcript),
       },
     });
   }
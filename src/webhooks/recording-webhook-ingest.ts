@@ -0,0 +1,96 @@
+/**
+ * Recording Webhook Ingest
+ *
+ * Shared persistence for the Zoom, Teams and Fireflies webhook handlers.
+ * Each handler verifies its provider's signature scheme, fetches the call
+ * through its provider, then hands the normalized call to
+ * `ingestRecordingWebhookCall`. That function stores the call, its
+ * participants and its transcript, then queues it for processing.
+ */
+
+import { Prisma, type CallProvider, type PrismaClient } from "@prisma/client";
+import type { Queue } from "bullmq";
+import type { NormalizedCall } from "../integrations/types.js";
+import { enqueueProcessCallJob } from "../lib/queue-policy.js";
+import { encodeJsonValue } from "../types/json-boundaries.js";
+import { detectLanguage } from "../lib/language-detection.js";
+
+export async function ingestRecordingWebhookCall(input: {
+  prisma: PrismaClient;
+  processingQueue: Queue;
+  callProvider: CallProvider;
+  organizationId: string;
+  call: NormalizedCall;
+  source: string;
+}): Promise<void> {
+  const { prisma, callProvider, organizationId, call: normalized } = input;
+  const where = { organizationId, provider: callProvider, externalId: normalized.externalId };
+
+  // Upsert to avoid race conditions between concurrent webhook deliveries
+  let call = await prisma.call.findFirst({ where });
+  if (call) {
+    call = await prisma.call.update({
+      where: { id: call.id },
+      data: {
+        title: normalized.title ?? undefined,
+        recordingUrl: normalized.recordingUrl ?? undefined,
+        duration: normalized.duration ?? undefined,
+      },
+    });
+  } else {
+    try {
+      const created = await prisma.call.create({
+        data: {
+          ...where,
+          title: normalized.title,
+          recordingUrl: normalized.recordingUrl,
+          duration: normalized.duration,
+          occurredAt: normalized.occurredAt,
+        },
+      });
+      call = created;
+      if (normalized.participants.length > 0) {
+        await prisma.callParticipant.createMany({
+          data: normalized.participants.map((p) => ({
+            callId: created.id,
+            email: p.email,
+            name: p.name,
+            isHost: p.isHost,
+          })),
+        });
+      }
+    } catch (err: unknown) {
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+        call = await prisma.call.findFirstOrThrow({ where });
+      } else {
+        throw err;
+      }
+    }
+  }
+
+  if (normalized.transcript) {
+    const wordCount = normalized.transcript.split(/\s+/).length;
+    const language = detectLanguage(normalized.transcript);
+    const utterances = normalized.utterances?.length
+      ? { utterances: encodeJsonValue(normalized.utterances) }
+      : {};
+    await prisma.transcript.upsert({
+      where: { callId: call.id },
+      create: { callId: call.id, fullText: normalized.transcript, wordCount, language, ...utterances },
+      update: { fullText: normalized.transcript, wordCount, language, ...utterances },
+    });
+  }
+
+  // Queue for async processing
+  await enqueueProcessCallJob({
+    queue: input.processingQueue,
+    source: input.source,
+    payload: {
+      callId: call.id,
+      organizationId,
+      accountId: call.accountId ?? null,
+      hasTranscript: !!normalized.transcript,
+    },
+    options: { jobId: `process-call:${call.id}` },
+  });
+}
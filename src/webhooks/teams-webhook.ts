@@ -0,0 +1,182 @@
+/**
+ * Microsoft Teams Webhook Handler
+ *
+ * Receives Microsoft Graph change notifications when a Teams meeting
+ * transcript becomes available (subscriptions on
+ * `communications/onlineMeetings/getAllTranscripts`). This supplements the
+ * polling-based sync, which only covers configured organizers.
+ *
+ * Graph does not sign basic notifications. Instead each subscription is
+ * created with a `clientState` secret — the integration's webhookSecret —
+ * that Graph echoes on every notification. A notification is accepted only
+ * if its clientState matches and, when present, its tenantId matches the
+ * integration's credentials.
+ *
+ * When a subscription is created Graph first POSTs `?validationToken=...`,
+ * which must be echoed back as text/plain.
+ *
+ * @see https://learn.microsoft.com/graph/change-notifications-delivery-webhooks
+ */
+
+import type { Request, Response } from "express";
+import crypto from "crypto";
+import type { PrismaClient } from "@prisma/client";
+import type { Queue } from "bullmq";
+import { TeamsProvider, type TeamsTranscriptRef } from "../integrations/teams-provider.js";
+import type { TeamsCredentials } from "../integrations/types.js";
+import logger from "../lib/logger.js";
+import { markWebhookEventIfNew } from "../lib/webhook-idempotency.js";
+import { ingestRecordingWebhookCall } from "./recording-webhook-ingest.js";
+
+// ─── Graph Notification Payload Types ───────────────────────────────────────
+
+interface GraphChangeNotification {
+  subscriptionId?: string;
+  clientState?: string;
+  changeType?: string;
+  resource?: string;
+  tenantId?: string;
+  resourceData?: { id?: string };
+}
+
+interface GraphNotificationCollection {
+  value?: GraphChangeNotification[];
+}
+
+// Graph uses both `users('id')/...` and `users/id/...` resource paths.
+const TRANSCRIPT_RESOURCE =
+  /users(?:\('([^']+)'\)|\/([^/]+))\/onlineMeetings(?:\('([^']+)'\)|\/([^/]+))\/transcripts(?:\('([^']+)'\)|\/([^/]+))/;
+
+export function parseTranscriptResource(resource: string): TeamsTranscriptRef | null {
+  const match = resource.match(TRANSCRIPT_RESOURCE);
+  if (!match) return null;
+  const organizerId = match[1] ?? match[2];
+  const meetingId = match[3] ?? match[4];
+  const transcriptId = match[5] ?? match[6];
+  if (!organizerId || !meetingId || !transcriptId) return null;
+  return { organizerId, meetingId, transcriptId };
+}
+
+// ─── Client State Verification ──────────────────────────────────────────────
+
+function verifyClientState(clientState: string, secret: string): boolean {
+  const stateBuffer = Buffer.from(clientState, "utf8");
+  const secretBuffer = Buffer.from(secret, "utf8");
+  if (stateBuffer.length !== secretBuffer.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(stateBuffer, secretBuffer);
+}
+
+// ─── Handler Factory ────────────────────────────────────────────────────────
+
+export function createTeamsWebhookHandler(deps: { prisma: PrismaClient; processingQueue: Queue }) {
+  const { prisma, processingQueue } = deps;
+  const teamsProvider = new TeamsProvider();
+
+  return async (req: Request, res: Response) => {
+    // ── Subscription validation handshake ─────────────────────────────
+    const validationToken = req.query.validationToken;
+    if (typeof validationToken === "string" && validationToken.length > 0) {
+      res.status(200).type("text/plain").send(validationToken);
+      return;
+    }
+
+    const rawBody = Buffer.isBuffer(req.body)
+      ? req.body.toString("utf8")
+      : typeof req.body === "string"
+        ? req.body
+        : JSON.stringify(req.body ?? {});
+
+    const teamsConfigs = await prisma.integrationConfig.findMany({
+      where: { provider: "TEAMS", enabled: true, status: "ACTIVE" },
+    });
+
+    if (teamsConfigs.length === 0) {
+      res.status(404).json({ error: "No active Teams integration" });
+      return;
+    }
+
+    const validConfigs = teamsConfigs.filter(
+      (c: { webhookSecret: string | null }) => c.webhookSecret
+    );
+    if (validConfigs.length !== teamsConfigs.length) {
+      res.status(500).json({
+        error: "All active Teams integrations must configure webhookSecret",
+      });
+      return;
+    }
+
+    let payload: GraphNotificationCollection;
+    try {
+      payload = JSON.parse(rawBody) as GraphNotificationCollection;
+    } catch {
+      res.status(400).json({ error: "Invalid JSON payload" });
+      return;
+    }
+
+    const notifications = Array.isArray(payload.value) ? payload.value : [];
+    if (notifications.length === 0 || notifications.some((n) => !n.clientState)) {
+      res.status(401).json({ error: "Missing clientState" });
+      return;
+    }
+
+    // Match every notification to an org before doing any work.
+    type TeamsConfig = (typeof validConfigs)[number];
+    const matched: Array<{ config: TeamsConfig; notification: GraphChangeNotification }> = [];
+    for (const notification of notifications) {
+      const clientState = notification.clientState ?? "";
+      const config =
+        validConfigs.find((c: TeamsConfig) => {
+          if (!c.webhookSecret || !verifyClientState(clientState, c.webhookSecret)) {
+            return false;
+          }
+          const rawCredentials: unknown = c.credentials;
+          const credentials = rawCredentials as Partial<TeamsCredentials>;
+          return !notification.tenantId || credentials.tenantId === notification.tenantId;
+        }) ?? null;
+      if (!config) {
+        res.status(401).json({ error: "Invalid clientState" });
+        return;
+      }
+      matched.push({ config, notification });
+    }
+
+    // Graph expects an answer within a few seconds and retries otherwise,
+    // so acknowledge first; event keys make any retry a no-op.
+    res.status(202).json({ received: true, notifications: matched.length });
+
+    for (const { config, notification } of matched) {
+      const organizationId = config.organizationId;
+      const ref =
+        notification.changeType === "created" && notification.resource
+          ? parseTranscriptResource(notification.resource)
+          : null;
+      if (!ref) continue;
+
+      const eventKey = `teams:${organizationId}:transcript:${ref.meetingId}:${ref.transcriptId}`;
+      if (!(await markWebhookEventIfNew(eventKey))) {
+        continue;
+      }
+
+      try {
+        const rawCredentials: unknown = config.credentials;
+        const call = await teamsProvider.fetchCall(rawCredentials as TeamsCredentials, ref);
+        if (!call) continue;
+
+        await ingestRecordingWebhookCall({
+          prisma,
+          processingQueue,
+          callProvider: "TEAMS",
+          organizationId,
+          call,
+          source: "teams-webhook",
+        });
+      } catch (err) {
+        // The notification was already acknowledged and Graph does not
+        // redeliver it, so the failure can only be logged.
+        logger.error("Teams webhook processing error", { error: err, organizationId });
+      }
+    }
+  };
+}
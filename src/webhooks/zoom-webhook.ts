@@ -0,0 +1,220 @@
+/**
+ * Zoom Webhook Handler
+ *
+ * Receives real-time notifications from Zoom when cloud recordings finish.
+ * This supplements the polling-based sync with immediate processing of
+ * new recordings.
+ *
+ * Zoom webhooks deliver events when:
+ *   - A cloud recording is completed
+ *   - The audio transcript for a recording is completed
+ *
+ * Zoom signs each request with the app's Secret Token, stored as the
+ * integration's webhookSecret:
+ *   x-zm-signature: v0=HMAC-SHA256(secret, "v0:{x-zm-request-timestamp}:{body}")
+ * Before enabling an endpoint, Zoom sends an `endpoint.url_validation`
+ * event whose plainToken must be echoed back with its HMAC.
+ */
+
+import type { Request, Response } from "express";
+import crypto from "crypto";
+import type { PrismaClient } from "@prisma/client";
+import type { Queue } from "bullmq";
+import { ZoomProvider } from "../integrations/zoom-provider.js";
+import type { ZoomCredentials } from "../integrations/types.js";
+import logger from "../lib/logger.js";
+import { markWebhookEventIfNew, releaseWebhookEvent } from "../lib/webhook-idempotency.js";
+import { readHeaderValue, validateWebhookTimestamp } from "../lib/webhook-security.js";
+import { ingestRecordingWebhookCall } from "./recording-webhook-ingest.js";
+
+// ─── Zoom Webhook Payload Types ─────────────────────────────────────────────
+
+interface ZoomWebhookPayload {
+  /** Event type, e.g., "recording.completed", "recording.transcript_completed" */
+  event: string;
+  /** Epoch milliseconds */
+  event_ts?: number;
+  payload?: {
+    account_id?: string;
+    /** Present on endpoint.url_validation */
+    plainToken?: string;
+    object?: {
+      uuid?: string;
+      id?: number;
+      topic?: string;
+    };
+  };
+}
+
+const RECORDING_EVENTS = new Set(["recording.completed", "recording.transcript_completed"]);
+
+// ─── Webhook Signature Verification ─────────────────────────────────────────
+
+export function computeZoomSignature(payload: string, timestamp: string, secret: string): string {
+  const digest = crypto
+    .createHmac("sha256", secret)
+    .update(`v0:${timestamp}:${payload}`)
+    .digest("hex");
+  return `v0=${digest}`;
+}
+
+function verifyZoomSignature(
+  payload: string,
+  timestamp: string,
+  signature: string,
+  secret: string
+): boolean {
+  const expected = computeZoomSignature(payload, timestamp, secret);
+  const sigBuffer = Buffer.from(signature, "utf8");
+  const expectedBuffer = Buffer.from(expected, "utf8");
+  if (sigBuffer.length !== expectedBuffer.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(sigBuffer, expectedBuffer);
+}
+
+// ─── Handler Factory ────────────────────────────────────────────────────────
+
+export function createZoomWebhookHandler(deps: { prisma: PrismaClient; processingQueue: Queue }) {
+  const { prisma, processingQueue } = deps;
+  const zoomProvider = new ZoomProvider();
+
+  return async (req: Request, res: Response) => {
+    // ── Find the integration config for this webhook ──────────────────
+    const signature = readHeaderValue(req.headers, "x-zm-signature") ?? "";
+    const timestamp = readHeaderValue(req.headers, "x-zm-request-timestamp");
+    const rawBody = Buffer.isBuffer(req.body)
+      ? req.body.toString("utf8")
+      : typeof req.body === "string"
+        ? req.body
+        : JSON.stringify(req.body ?? {});
+
+    const zoomConfigs = await prisma.integrationConfig.findMany({
+      where: { provider: "ZOOM", enabled: true, status: "ACTIVE" },
+    });
+
+    if (zoomConfigs.length === 0) {
+      res.status(404).json({ error: "No active Zoom integration" });
+      return;
+    }
+
+    const validConfigs = zoomConfigs.filter(
+      (c: { webhookSecret: string | null }) => c.webhookSecret
+    );
+    if (validConfigs.length !== zoomConfigs.length) {
+      res.status(500).json({
+        error: "All active Zoom integrations must configure webhookSecret",
+      });
+      return;
+    }
+    if (!signature) {
+      res.status(401).json({ error: "Missing webhook signature" });
+      return;
+    }
+
+    const timestampValidation = validateWebhookTimestamp({
+      provider: "zoom",
+      timestamp,
+      required: true,
+    });
+    if (!timestampValidation.ok || !timestamp) {
+      res.status(401).json({
+        error:
+          timestampValidation.reason === "timestamp_missing"
+            ? "missing_webhook_timestamp"
+            : "stale_webhook",
+      });
+      return;
+    }
+
+    // Try to match signature to a specific org's webhook secret
+    type ZoomConfig = (typeof validConfigs)[number];
+    const matchedConfig =
+      validConfigs.find(
+        (c: ZoomConfig) =>
+          c.webhookSecret && verifyZoomSignature(rawBody, timestamp, signature, c.webhookSecret)
+      ) ?? null;
+    if (!matchedConfig?.webhookSecret) {
+      res.status(401).json({ error: "Invalid webhook signature" });
+      return;
+    }
+
+    let payload: ZoomWebhookPayload;
+    try {
+      payload = JSON.parse(rawBody) as ZoomWebhookPayload;
+    } catch {
+      res.status(400).json({ error: "Invalid JSON payload" });
+      return;
+    }
+
+    // ── Endpoint validation challenge ─────────────────────────────────
+    if (payload.event === "endpoint.url_validation") {
+      const plainToken = payload.payload?.plainToken;
+      if (!plainToken) {
+        res.status(400).json({ error: "Missing plainToken" });
+        return;
+      }
+      res.json({
+        plainToken,
+        encryptedToken: crypto
+          .createHmac("sha256", matchedConfig.webhookSecret)
+          .update(plainToken)
+          .digest("hex"),
+      });
+      return;
+    }
+
+    const rawCredentials: unknown = matchedConfig.credentials;
+    const credentials = rawCredentials as ZoomCredentials;
+    const organizationId = matchedConfig.organizationId;
+
+    // Claimed up front so concurrent deliveries are ignored; released again
+    // when the event could not be ingested so a provider retry gets through
+    let claimedEventKey: string | null = null;
+    try {
+      if (RECORDING_EVENTS.has(payload.event)) {
+        const meetingUuid = payload.payload?.object?.uuid;
+        if (!meetingUuid) {
+          res.json({ received: true, processed: false, reason: "No meeting uuid" });
+          return;
+        }
+
+        const eventKey = `zoom:${organizationId}:${payload.event}:${meetingUuid}`;
+        if (!(await markWebhookEventIfNew(eventKey))) {
+          res.json({
+            received: true,
+            processed: true,
+            duplicate_ignored: true,
+          });
+          return;
+        }
+        claimedEventKey = eventKey;
+
+        const call = await zoomProvider.fetchCall(credentials, meetingUuid);
+        if (!call) {
+          await releaseWebhookEvent(eventKey);
+          res.json({ received: true, processed: false, reason: "Recording not found" });
+          return;
+        }
+
+        await ingestRecordingWebhookCall({
+          prisma,
+          processingQueue,
+          callProvider: "ZOOM",
+          organizationId,
+          call,
+          source: "zoom-webhook",
+        });
+      }
+
+      res.json({ received: true, processed: true });
+    } catch (err) {
+      logger.error("Zoom webhook processing error", { error: err });
+      if (claimedEventKey) {
+        await releaseWebhookEvent(claimedEventKey);
+      }
+      // Non-2xx so the provider redelivers the event
+      res.status(500).json({ received: true, processed: false, error: "Processing failed" });
+    }
+  };
+}
@@ -1,6 +1,6 @@
 import { describe, expect, it, vi } from "vitest";
 import { TrackedAIClient } from "../src/services/ai-usage-tracker.js";
-import type { AIClient } from "../src/services/ai-client.js";
+import { ChatCompletionAbortedError, type AIClient } from "../src/services/ai-client.js";
 
 describe("TrackedAIClient idempotency", () => {
   it("does not double record usage/cost for duplicate idempotency keys", async () => {
@@ -56,3 +56,55 @@ describe("TrackedAIClient idempotency", () => {
     expect(tracker.markUsageChargeRecorded).toHaveBeenCalledTimes(1);
   });
 });
+
+describe("TrackedAIClient cancellation", () => {
+  it("records usage for tokens consumed before a stream is aborted", async () => {
+    const inner: AIClient = {
+      providerName: "openai",
+      modelName: "gpt-4o",
+      chatCompletion: vi.fn().mockRejectedValue(
+        new ChatCompletionAbortedError({
+          content: "Partial answer",
+          inputTokens: 800,
+          outputTokens: 4,
+          totalTokens: 804,
+        })
+      ),
+    };
+
+    const tracker = {
+      enforceLimit: vi.fn().mockResolvedValue(undefined),
+      enforceBalance: vi.fn().mockResolvedValue(undefined),
+      computeCost: vi.fn().mockResolvedValue(3),
+      recordUsage: vi.fn().mockResolvedValue(undefined),
+      deductBalance: vi.fn().mockResolvedValue(undefined),
+      checkAndNotify: vi.fn().mockResolvedValue(undefined),
+      checkSpendAnomalies: vi.fn().mockResolvedValue(undefined),
+      hasRecordedUsageCharge: vi.fn().mockReturnValue(false),
+      markUsageChargeRecorded: vi.fn(),
+    } as any;
+
+    const tracked = new TrackedAIClient(
+      inner,
+      tracker,
+      {
+        organizationId: "org_1",
+        userId: "user_1",
+        operation: "RAG_QUERY",
+      },
+      true
+    );
+
+    await expect(
+      tracked.chatCompletion({
+        messages: [{ role: "user", content: "question" }],
+        onToken: vi.fn(),
+      })
+    ).rejects.toBeInstanceOf(ChatCompletionAbortedError);
+
+    expect(tracker.recordUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ operation: "RAG_QUERY", totalTokens: 804 })
+    );
+    expect(tracker.deductBalance).toHaveBeenCalledTimes(1);
+  });
+});
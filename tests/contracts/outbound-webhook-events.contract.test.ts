@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  OUTBOUND_WEBHOOK_DELIVERABLE_EVENTS,
+  getOutboundWebhookEventJsonSchema,
+  getOutboundWebhookEventVersion,
+  isOutboundWebhookDeliverableEvent,
+  validateOutboundWebhookEventPayload,
+} from "../../src/contracts/outbound-webhook-events.js";
+
+describe("outbound webhook event contract", () => {
+  it("publishes a versioned schema for every deliverable event", () => {
+    expect(OUTBOUND_WEBHOOK_DELIVERABLE_EVENTS).toEqual(
+      expect.arrayContaining([
+        "call_ingested",
+        "call_processed",
+        "call_processing_failed",
+        "account_merged",
+        "entity_resolution_completed",
+        "approval_requested",
+        "approval_approved",
+        "approval_rejected",
+        "landing_page_archived",
+        "landing_page_rolled_back",
+        "quote_curated",
+        "integration_sync_failed",
+      ])
+    );
+    for (const eventType of OUTBOUND_WEBHOOK_DELIVERABLE_EVENTS) {
+      expect(getOutboundWebhookEventVersion(eventType)).toBeGreaterThanOrEqual(1);
+    }
+    expect(isOutboundWebhookDeliverableEvent("ALL_EVENTS")).toBe(false);
+  });
+
+  it("exports the full delivery body as JSON Schema", () => {
+    const schema = getOutboundWebhookEventJsonSchema("account_merged") as {
+      $schema: string;
+      required: string[];
+      properties: Record<string, { const?: unknown; required?: string[] }>;
+    };
+
+    expect(schema.$schema).toBe("https://json-schema.org/draft/2020-12/schema");
+    expect(schema.required).toEqual(
+      expect.arrayContaining(["event_id", "event_type", "event_version", "occurred_at", "payload"])
+    );
+    expect(schema.properties.event_type.const).toBe("account_merged");
+    expect(schema.properties.event_version.const).toBe(1);
+    expect(schema.properties.payload.required).toEqual(
+      expect.arrayContaining(["merge_run_id", "primary_account_id", "merged_account_id"])
+    );
+  });
+
+  it("accepts canonical payloads and tolerates additive fields", () => {
+    expect(
+      validateOutboundWebhookEventPayload("call_processing_failed", {
+        call_id: "call_1",
+        account_id: null,
+        attempts: 3,
+        error: "timeout",
+        worker: "call-processing",
+      })
+    ).toEqual([]);
+  });
+
+  it("reports payloads that drift from the schema", () => {
+    expect(
+      validateOutboundWebhookEventPayload("entity_resolution_completed", {
+        call_id: "call_1",
+        account_id: "acct_1",
+        match_method: "guess",
+        confidence: 2,
+      })
+    ).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining("match_method"),
+        expect.stringContaining("confidence"),
+        expect.stringContaining("needs_review"),
+      ])
+    );
+  });
+});
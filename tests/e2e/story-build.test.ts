@@ -446,3 +446,34 @@ describe("POST /api/stories/build — successful builds", () => {
     expect(res.body.error).toBeDefined();
   });
 });
+
+// ─── Comparative Builds ─────────────────────────────────────────────────────
+
+describe("POST /api/stories/build/comparative — account validation", () => {
+  it("returns 404 without building when an account is unknown or belongs to another org", async () => {
+    const prisma = {
+      ...mockPrisma(),
+      account: { count: vi.fn().mockResolvedValue(1) },
+    };
+    const storyBuilder = { ...mockStoryBuilder(), buildComparativeStory: vi.fn() };
+    const { request: req, close } = await createTestAppWithServer({
+      prisma,
+      ragEngine: mockRAGEngine(),
+      storyBuilder,
+    });
+
+    try {
+      const res = await req
+        .post("/api/stories/build/comparative")
+        .send({ account_ids: ["acct-test-001", "acct-other-org"] });
+
+      expect(res.status).toBe(404);
+      expect(prisma.account.count).toHaveBeenCalledWith({
+        where: { id: { in: ["acct-test-001", "acct-other-org"] }, organizationId: ACTIVE_ORG.id },
+      });
+      expect(storyBuilder.buildComparativeStory).not.toHaveBeenCalled();
+    } finally {
+      close();
+    }
+  });
+});
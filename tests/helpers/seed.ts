@@ -335,5 +335,6 @@ The business review revealed transformative results:
         callId: "call-004",
       },
     ],
+    lintFindings: [],
   };
 }
@@ -45,6 +45,9 @@ function createMockPrisma() {
       findUnique: vi.fn(),
       findUniqueOrThrow: vi.fn(),
     },
+    storyRevision: {
+      findFirst: vi.fn().mockResolvedValue(null),
+    },
     call: {
       findMany: vi.fn().mockResolvedValue([]),
     },
@@ -483,6 +486,26 @@ describe("Permissions Integration Tests", () => {
       ).toBe(false);
     });
 
+    it("canAccessAccounts requires every account of a comparative story", async () => {
+      prisma.userAccountAccess.findMany.mockResolvedValue([
+        {
+          id: "grant-1",
+          userId: "user-1",
+          organizationId: "org-1",
+          scopeType: "ACCOUNT_LIST",
+          accountId: null,
+          cachedAccountIds: ["account-1", "account-2"],
+        },
+      ]);
+
+      expect(
+        await service.canAccessAccounts("user-1", "org-1", ["account-1", "account-2"], "MEMBER")
+      ).toBe(true);
+      expect(
+        await service.canAccessAccounts("user-1", "org-1", ["account-1", "account-999"], "MEMBER")
+      ).toBe(false);
+    });
+
     it("getAccessibleAccountIds returns only granted account for SINGLE_ACCOUNT", async () => {
       prisma.userAccountAccess.findMany.mockResolvedValue([
         {
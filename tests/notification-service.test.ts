@@ -283,4 +283,25 @@ describe("NotificationService", () => {
       });
     });
   });
+
+  describe("notifyShareLinkOpened", () => {
+    it("creates a PAGE_SHARE_OPENED notification for the link creator", async () => {
+      await service.notifyShareLinkOpened(
+        "org-1",
+        "user-1",
+        "page-1",
+        "Shared Page",
+        "link-1",
+        "dana@prospect.com"
+      );
+
+      expect(prisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: "user-1",
+          type: "PAGE_SHARE_OPENED",
+          metadata: { pageId: "page-1", shareLinkId: "link-1" },
+        }),
+      });
+    });
+  });
 });
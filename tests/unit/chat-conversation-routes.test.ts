@@ -0,0 +1,111 @@
+import express, { type NextFunction, type Request, type Response } from "express";
+import { describe, expect, it, vi } from "vitest";
+import { requestServer } from "../helpers/request-server.js";
+import { createChatConversationRoutes } from "../../src/api/chat-conversation-routes.js";
+import { createRAGRoutes } from "../../src/api/rag-routes.js";
+
+function createMockPrisma(options: { legalHold?: boolean } = {}) {
+  return {
+    orgSettings: {
+      findUnique: vi.fn().mockResolvedValue({
+        dataGovernancePolicy: { legal_hold_enabled: options.legalHold ?? false },
+      }),
+    },
+    auditLog: { create: vi.fn().mockResolvedValue({}) },
+    chatConversation: {
+      findFirst: vi.fn().mockResolvedValue({
+        id: "conv-1",
+        organizationId: "org-1",
+        userId: "user-1",
+        accountId: "acct-1",
+        title: "Pricing",
+      }),
+      deleteMany: vi.fn().mockResolvedValue({ count: 1 }),
+      update: vi.fn().mockResolvedValue({}),
+    },
+    chatConversationMessage: {
+      findMany: vi.fn().mockResolvedValue([
+        { role: "ASSISTANT", content: "Earlier answer" },
+        { role: "USER", content: "Earlier question" },
+      ]),
+      create: vi.fn((args: { data: { role: string } }) => ({ id: `msg-${args.data.role.toLowerCase()}` })),
+    },
+    $transaction: vi.fn(async (ops: unknown[]) => Promise.all(ops)),
+  };
+}
+
+function createApp(prisma: ReturnType<typeof createMockPrisma>, engine: Record<string, unknown> = {}) {
+  const app = express();
+  app.use(express.json());
+  app.use((req: Request, _res: Response, next: NextFunction) => {
+    Object.assign(req, { organizationId: "org-1", userId: "user-1", userRole: "ADMIN" });
+    next();
+  });
+  app.use("/api/rag", createRAGRoutes(engine as any, prisma as any));
+  app.use("/api/rag", createChatConversationRoutes(prisma as any));
+  return app;
+}
+
+describe("chat conversations", () => {
+  it("answers from stored history and persists the turn", async () => {
+    const prisma = createMockPrisma();
+    const engine = {
+      chat: vi.fn().mockResolvedValue({ answer: "New answer [Source 1]", sources: [], tokensUsed: 42 }),
+    };
+
+    const { request, close } = await requestServer(createApp(prisma, engine));
+    try {
+      const res = await request
+        .post("/api/rag/chat")
+        .send({
+          query: "What about renewal?",
+          account_id: "acct-1",
+          conversation_id: "conv-1",
+          history: [{ role: "user", content: "client-supplied history is ignored" }],
+        })
+        .expect(200);
+
+      expect(res.body).toMatchObject({ conversation_id: "conv-1", message_id: "msg-assistant" });
+      expect(engine.chat).toHaveBeenCalledWith(
+        expect.objectContaining({
+          history: [
+            { role: "user", content: "Earlier question" },
+            { role: "assistant", content: "Earlier answer" },
+          ],
+        })
+      );
+      expect(prisma.chatConversationMessage.create).toHaveBeenCalledTimes(2);
+    } finally {
+      close();
+    }
+  });
+
+  it("rejects a chat whose account differs from the conversation", async () => {
+    const prisma = createMockPrisma();
+    const engine = { chat: vi.fn() };
+
+    const { request, close } = await requestServer(createApp(prisma, engine));
+    try {
+      await request
+        .post("/api/rag/chat")
+        .send({ query: "What about renewal?", account_id: "acct-2", conversation_id: "conv-1" })
+        .expect(400);
+      expect(engine.chat).not.toHaveBeenCalled();
+    } finally {
+      close();
+    }
+  });
+
+  it("blocks deletion while legal hold is enabled", async () => {
+    const prisma = createMockPrisma({ legalHold: true });
+
+    const { request, close } = await requestServer(createApp(prisma));
+    try {
+      const res = await request.delete("/api/rag/conversations/conv-1").expect(423);
+      expect(res.body.error).toBe("legal_hold_active");
+      expect(prisma.chatConversation.deleteMany).not.toHaveBeenCalled();
+    } finally {
+      close();
+    }
+  });
+});
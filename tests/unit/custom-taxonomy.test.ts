@@ -0,0 +1,207 @@
+import express, { Router, type NextFunction, type Request, type Response } from "express";
+import { describe, expect, it, vi } from "vitest";
+import { requestServer } from "../helpers/request-server.js";
+import { registerCustomTaxonomyRoutes } from "../../src/api/dashboard/custom-taxonomy-routes.js";
+import { AITagger } from "../../src/services/ai-tagger.js";
+import {
+  customTaxonomyFingerprint,
+  customTopicKeyFromLabel,
+  type CustomTopicDefinition,
+} from "../../src/services/custom-taxonomy.js";
+import { retagOrganizationCalls } from "../../src/services/taxonomy-retag.js";
+import { isCustomTopicKey } from "../../src/types/taxonomy.js";
+
+const residencyTopic: CustomTopicDefinition = {
+  key: "custom_data_residency",
+  label: "Data Residency",
+  description: "Customer requirements to keep data in a specific region.",
+  funnelStage: "BOFU",
+  examplePhrases: ["our data has to stay in the EU"],
+};
+
+describe("custom topic keys", () => {
+  it("derives keys from labels", () => {
+    expect(customTopicKeyFromLabel("Data Residency (EU)")).toBe("custom_data_residency_eu");
+    expect(customTopicKeyFromLabel("  Überprüfung & Café  ")).toBe("custom_uberprufung_cafe");
+    expect(customTopicKeyFromLabel("!!!")).toBeNull();
+  });
+
+  it("recognizes custom keys only", () => {
+    expect(isCustomTopicKey("custom_data_residency")).toBe(true);
+    expect(isCustomTopicKey("roi_financial_outcomes")).toBe(false);
+    expect(isCustomTopicKey("custom_")).toBe(false);
+    expect(isCustomTopicKey(`custom_${"a".repeat(64)}`)).toBe(false);
+  });
+
+  it("fingerprints only non-empty taxonomies", () => {
+    expect(customTaxonomyFingerprint([])).toBe("");
+    expect(customTaxonomyFingerprint([residencyTopic])).not.toBe(
+      customTaxonomyFingerprint([{ ...residencyTopic, description: "Changed description text." }])
+    );
+  });
+});
+
+describe("AITagger with custom topics", () => {
+  it("prompts with the org topics and keeps their configured funnel stage", async () => {
+    const tagger = new AITagger({} as any, "test-key");
+    const aiClient = {
+      chatCompletion: vi.fn().mockResolvedValue({
+        content: JSON.stringify({
+          tags: [
+            { funnel_stage: "TOFU", topic: "custom_data_residency", confidence: 0.9 },
+            { funnel_stage: "BOFU", topic: "custom_unknown_topic", confidence: 0.9 },
+            { funnel_stage: "BOFU", topic: "roi_financial_outcomes", confidence: 0.8 },
+          ],
+        }),
+        totalTokens: 100,
+      }),
+    };
+
+    const { tags } = await tagger.tagChunk("Our data has to stay in Frankfurt.", {
+      aiClient: aiClient as any,
+      customTopics: [residencyTopic],
+    });
+
+    const systemPrompt = aiClient.chatCompletion.mock.calls[0][0].messages[0].content as string;
+    expect(systemPrompt).toContain("ORGANIZATION-SPECIFIC TOPICS");
+    expect(systemPrompt).toContain("custom_data_residency (BOFU)");
+    expect(tags).toEqual([
+      { funnelStage: "BOFU", topic: "custom_data_residency", confidence: 0.9 },
+      { funnelStage: "BOFU", topic: "roi_financial_outcomes", confidence: 0.8 },
+    ]);
+  });
+});
+
+describe("retagOrganizationCalls", () => {
+  it("retags every processed call and counts failures", async () => {
+    const findMany = vi
+      .fn()
+      .mockResolvedValueOnce([
+        { id: "call-1", accountId: "acct-1" },
+        { id: "call-2", accountId: null },
+      ])
+      .mockResolvedValueOnce([{ id: "call-3", accountId: "acct-1" }])
+      .mockResolvedValueOnce([]);
+    const retagCall = vi
+      .fn()
+      .mockResolvedValueOnce(4)
+      .mockRejectedValueOnce(new Error("tagging failed"))
+      .mockResolvedValueOnce(2);
+
+    const result = await retagOrganizationCalls(
+      { prisma: { call: { findMany } } as any, retagCall, batchSize: 2 },
+      { organizationId: "org-1", requestedByUserId: "user-1", runId: "run-1" }
+    );
+
+    expect(result).toEqual({ scanned: 3, retagged: 2, tags: 6, failed: 1 });
+    expect(findMany.mock.calls[1][0]).toMatchObject({ cursor: { id: "call-2" }, skip: 1 });
+    expect(retagCall).toHaveBeenCalledWith(
+      expect.objectContaining({ callId: "call-1", organizationId: "org-1", hasTranscript: true }),
+      "run-1"
+    );
+  });
+});
+
+describe("custom taxonomy routes", () => {
+  function createApp(prisma: Record<string, unknown>, queue?: { add: ReturnType<typeof vi.fn> }) {
+    const router = Router();
+    const auditLogs = { record: vi.fn().mockResolvedValue(undefined) };
+    registerCustomTaxonomyRoutes({
+      router,
+      prisma: prisma as any,
+      auditLogs: auditLogs as any,
+      taxonomyRetagQueue: queue as any,
+    });
+    const app = express();
+    app.use(express.json());
+    app.use((req: Request, _res: Response, next: NextFunction) => {
+      Object.assign(req, { organizationId: "org-1", userId: "user-1", userRole: "ADMIN" });
+      next();
+    });
+    app.use("/api/dashboard", router);
+    return { app, auditLogs };
+  }
+
+  it("creates a topic keyed from its label", async () => {
+    const now = new Date("2026-10-01T00:00:00Z");
+    const prisma = {
+      customTaxonomyTopic: {
+        count: vi.fn().mockResolvedValue(0),
+        findUnique: vi.fn().mockResolvedValue(null),
+        create: vi.fn(async (args: { data: Record<string, unknown> }) => ({
+          id: "topic-1",
+          ...args.data,
+          createdAt: now,
+          updatedAt: now,
+        })),
+      },
+    };
+    const { app, auditLogs } = createApp(prisma);
+
+    const { request, close } = await requestServer(app);
+    try {
+      const res = await request
+        .post("/api/dashboard/taxonomy/topics")
+        .send({
+          label: "Data Residency",
+          description: "Customer requirements to keep data in a specific region.",
+          funnel_stage: "BOFU",
+        })
+        .expect(201);
+
+      expect(res.body.topic).toMatchObject({
+        key: "custom_data_residency",
+        funnel_stage: "BOFU",
+        example_phrases: [],
+      });
+      expect(auditLogs.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "CUSTOM_TOPIC_CREATED" })
+      );
+    } finally {
+      close();
+    }
+  });
+
+  it("rejects a topic whose key already exists", async () => {
+    const prisma = {
+      customTaxonomyTopic: {
+        count: vi.fn().mockResolvedValue(1),
+        findUnique: vi.fn().mockResolvedValue({ id: "topic-1", key: "custom_data_residency" }),
+        create: vi.fn(),
+      },
+    };
+    const { app } = createApp(prisma);
+
+    const { request, close } = await requestServer(app);
+    try {
+      await request
+        .post("/api/dashboard/taxonomy/topics")
+        .send({
+          label: "Data residency!",
+          description: "Customer requirements to keep data in a specific region.",
+          funnel_stage: "BOFU",
+        })
+        .expect(409);
+      expect(prisma.customTaxonomyTopic.create).not.toHaveBeenCalled();
+    } finally {
+      close();
+    }
+  });
+
+  it("queues a retag backfill", async () => {
+    const queue = { add: vi.fn().mockResolvedValue({ id: "job-1" }) };
+    const { app } = createApp({}, queue);
+
+    const { request, close } = await requestServer(app);
+    try {
+      const res = await request.post("/api/dashboard/taxonomy/retag").send({}).expect(202);
+      expect(res.body).toMatchObject({ queued: true, job_id: "job-1" });
+      expect(queue.add).toHaveBeenCalledWith("retag-organization", {
+        organizationId: "org-1",
+        requestedByUserId: "user-1",
+      });
+    } finally {
+      close();
+    }
+  });
+});
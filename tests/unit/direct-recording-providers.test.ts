@@ -0,0 +1,196 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { toProviderCredentials } from "../../src/integrations/types.js";
+import { vttToTranscriptText } from "../../src/integrations/vtt-transcript.js";
+import { FirefliesProvider } from "../../src/integrations/fireflies-provider.js";
+import { ZoomProvider } from "../../src/integrations/zoom-provider.js";
+import {
+  parseTeamsTranscriptExternalId,
+  teamsTranscriptExternalId,
+} from "../../src/integrations/teams-provider.js";
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+describe("toProviderCredentials", () => {
+  it("recognizes Zoom, Teams and Fireflies credential shapes", () => {
+    expect(
+      toProviderCredentials({ accountId: "acc", clientId: "id", clientSecret: "secret" })
+    ).toEqual({ accountId: "acc", clientId: "id", clientSecret: "secret" });
+    expect(
+      toProviderCredentials({ tenantId: "tenant", clientId: "id", clientSecret: "secret" })
+    ).toEqual({ tenantId: "tenant", clientId: "id", clientSecret: "secret" });
+    expect(toProviderCredentials({ apiKey: "ff-key" })).toEqual({ apiKey: "ff-key" });
+  });
+
+  it("still prefers the Merge.dev shape when apiKey comes with an account token", () => {
+    expect(
+      toProviderCredentials({ apiKey: "k", accountToken: "t", webhookSecret: "s" })
+    ).toEqual({ apiKey: "k", accountToken: "t", webhookSecret: "s" });
+  });
+});
+
+describe("vttToTranscriptText", () => {
+  it("reads Zoom speaker prefixes and merges consecutive cues", () => {
+    const vtt = [
+      "WEBVTT",
+      "",
+      "1",
+      "00:00:01.000 --> 00:00:04.000",
+      "Dana Buyer: We looked at three vendors.",
+      "",
+      "2",
+      "00:00:04.500 --> 00:00:06.000",
+      "Dana Buyer: Yours onboarded fastest.",
+      "",
+      "3",
+      "00:00:06.500 --> 00:00:08.000",
+      "Sam Rep: Great to hear.",
+    ].join("\n");
+
+    expect(vttToTranscriptText(vtt)).toBe(
+      "Dana Buyer: We looked at three vendors. Yours onboarded fastest.\nSam Rep: Great to hear."
+    );
+  });
+
+  it("reads Teams voice tags", () => {
+    const vtt = [
+      "WEBVTT",
+      "",
+      "0b7c/12-0",
+      "00:00:00.000 --> 00:00:02.500",
+      "<v Dana Buyer>Security review is done.</v>",
+    ].join("\n");
+
+    expect(vttToTranscriptText(vtt)).toBe("Dana Buyer: Security review is done.");
+    expect(vttToTranscriptText("WEBVTT\n\n")).toBeNull();
+  });
+});
+
+describe("Teams transcript external IDs", () => {
+  it("round-trips organizer, meeting and transcript IDs", () => {
+    const ref = { organizerId: "u-1", meetingId: "MSoxKjA=", transcriptId: "tr-1" };
+    expect(parseTeamsTranscriptExternalId(teamsTranscriptExternalId(ref))).toEqual(ref);
+    expect(parseTeamsTranscriptExternalId("only:two")).toBeNull();
+  });
+});
+
+describe("FirefliesProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("normalizes transcripts and pages by offset", async () => {
+    const transcripts = Array.from({ length: 50 }, (_, i) => ({
+      id: `ff-${i}`,
+      title: `Call ${i}`,
+      date: Date.parse("2026-10-01T15:00:00.000Z"),
+      duration: 30,
+      organizer_email: "Rep@Vendor.com",
+      participants: ["rep@vendor.com", "buyer@acme.com"],
+      meeting_attendees: [{ displayName: "Buyer", email: "buyer@acme.com" }],
+      sentences: [
+        { speaker_name: "Buyer", text: "Pricing works." },
+        { speaker_name: "Buyer", text: "Send the order form." },
+      ],
+      summary: { overview: "Buyer agreed on pricing.", action_items: "- Send order form" },
+    }));
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ data: { transcripts } }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await new FirefliesProvider().fetchCalls({ apiKey: "ff-key" }, "50", null);
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).variables).toMatchObject({
+      limit: 50,
+      skip: 50,
+    });
+    expect(result.hasMore).toBe(true);
+    expect(result.nextCursor).toBe("100");
+    expect(result.data[0]).toMatchObject({
+      externalId: "ff-0",
+      duration: 1800,
+      transcript: "Buyer: Pricing works. Send the order form.",
+      summary: "Buyer agreed on pricing.",
+      outline: ["Send order form"],
+      participants: [
+        { email: "buyer@acme.com", name: "Buyer", isHost: false },
+        { email: "rep@vendor.com", name: null, isHost: true },
+      ],
+    });
+  });
+});
+
+describe("ZoomProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("walks recordings in month-sized windows and downloads transcripts", async () => {
+    const fetchMock = vi.fn(async (url: string | URL) => {
+      const href = String(url);
+      if (href.startsWith("https://zoom.us/oauth/token")) {
+        return jsonResponse({ access_token: "tok", expires_in: 3600 });
+      }
+      if (href.includes("/accounts/me/recordings")) {
+        return jsonResponse({
+          meetings: [
+            {
+              uuid: "/abc//def==",
+              topic: "Acme QBR",
+              start_time: "2026-06-10T16:00:00Z",
+              duration: 45,
+              share_url: "https://zoom.us/rec/share/xyz",
+              host_email: "Rep@Vendor.com",
+              recording_files: [
+                {
+                  file_type: "TRANSCRIPT",
+                  download_url: "https://zoom.us/rec/download/transcript.vtt",
+                  status: "completed",
+                },
+              ],
+            },
+          ],
+          next_page_token: "",
+        });
+      }
+      if (href.includes("/past_meetings/")) {
+        return jsonResponse({}, 403);
+      }
+      if (href.endsWith("transcript.vtt")) {
+        return new Response("WEBVTT\n\n1\n00:00:01.000 --> 00:00:02.000\nDana Buyer: Renewal is approved.");
+      }
+      return jsonResponse({}, 404);
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const since = new Date("2026-06-01T00:00:00.000Z");
+    const result = await new ZoomProvider().fetchCalls(
+      { accountId: "acc", clientId: "id", clientSecret: "secret" },
+      null,
+      since
+    );
+
+    const listUrl = String(fetchMock.mock.calls.find(([u]) => String(u).includes("/accounts/me/recordings"))?.[0]);
+    expect(listUrl).toContain("from=2026-06-01");
+    expect(listUrl).toContain("to=2026-07-01");
+    expect(
+      fetchMock.mock.calls.some(([u]) => String(u).includes("/past_meetings/%252Fabc%252F%252Fdef%253D%253D/"))
+    ).toBe(true);
+    expect(result.hasMore).toBe(true);
+    expect(JSON.parse(result.nextCursor!)).toEqual({ from: "2026-07-01T00:00:00.000Z" });
+    expect(result.data[0]).toMatchObject({
+      externalId: "/abc//def==",
+      title: "Acme QBR",
+      duration: 2700,
+      recordingUrl: "https://zoom.us/rec/share/xyz",
+      transcript: "Dana Buyer: Renewal is approved.",
+      participants: [
+        { email: "rep@vendor.com", name: null, isHost: true },
+        { email: null, name: "Dana Buyer", isHost: false },
+      ],
+    });
+  });
+});
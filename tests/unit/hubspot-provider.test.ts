@@ -0,0 +1,322 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { HubSpotProvider } from "../../src/integrations/hubspot-provider.js";
+import { syncCRMProvider } from "../../src/integrations/sync-engine-crm.js";
+import type {
+  CRMDataProvider,
+  HubSpotCredentials,
+  NormalizedOpportunity,
+} from "../../src/integrations/types.js";
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+function hubspotCredentials(): HubSpotCredentials {
+  return {
+    accessToken: "expired-token",
+    refreshToken: "refresh-token",
+    clientId: "client-id",
+    clientSecret: "client-secret",
+  };
+}
+
+describe("HubSpotProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("maps deals with pipeline labels, stage history and company association", async () => {
+    const fetchMock = vi.fn(async (url: string | URL, init?: RequestInit) => {
+      const href = String(url);
+      if (href.endsWith("/crm/v3/objects/deals/search")) {
+        const body = JSON.parse(String(init?.body));
+        expect(body.filterGroups[0].filters[0]).toEqual({
+          propertyName: "hs_lastmodifieddate",
+          operator: "GTE",
+          value: String(Date.parse("2026-09-01T00:00:00.000Z")),
+        });
+        return jsonResponse({
+          results: [
+            {
+              id: "d-1",
+              properties: {
+                dealname: "Acme expansion",
+                amount: "48000",
+                dealstage: "contractsent",
+                closedate: "2026-10-15T00:00:00.000Z",
+              },
+            },
+          ],
+        });
+      }
+      if (href.endsWith("/crm/v3/objects/deals/batch/read")) {
+        return jsonResponse({
+          results: [
+            {
+              id: "d-1",
+              properties: {},
+              propertiesWithHistory: {
+                dealstage: [
+                  { value: "contractsent", timestamp: "2026-09-20T10:00:00.000Z" },
+                  { value: "qualifiedtobuy", timestamp: "2026-09-05T10:00:00.000Z" },
+                  { value: "appointmentscheduled", timestamp: "2026-09-01T10:00:00.000Z" },
+                ],
+              },
+            },
+          ],
+        });
+      }
+      if (href.endsWith("/crm/v4/associations/deals/companies/batch/read")) {
+        return jsonResponse({
+          results: [{ from: { id: "d-1" }, to: [{ toObjectId: 9001 }] }],
+        });
+      }
+      if (href.endsWith("/crm/v3/pipelines/deals")) {
+        return jsonResponse({
+          results: [
+            {
+              id: "default",
+              label: "Sales Pipeline",
+              stages: [
+                { id: "appointmentscheduled", label: "Appointment Scheduled" },
+                { id: "qualifiedtobuy", label: "Qualified To Buy" },
+                { id: "contractsent", label: "Contract Sent" },
+                {
+                  id: "closedwon",
+                  label: "Closed Won",
+                  metadata: { isClosed: "true", probability: "1.0" },
+                },
+              ],
+            },
+          ],
+        });
+      }
+      return jsonResponse({}, 404);
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await new HubSpotProvider().fetchOpportunities(
+      hubspotCredentials(),
+      null,
+      new Date("2026-09-01T00:00:00.000Z")
+    );
+
+    expect(result.hasMore).toBe(false);
+    expect(result.data).toEqual([
+      {
+        externalId: "d-1",
+        name: "Acme expansion",
+        amount: 48000,
+        stage: "Contract Sent",
+        status: "OPEN",
+        closeDate: new Date("2026-10-15T00:00:00.000Z"),
+        accountExternalId: "9001",
+        stageHistory: [
+          {
+            stage: "Appointment Scheduled",
+            status: "OPEN",
+            changedAt: new Date("2026-09-01T10:00:00.000Z"),
+          },
+          {
+            stage: "Qualified To Buy",
+            status: "OPEN",
+            changedAt: new Date("2026-09-05T10:00:00.000Z"),
+          },
+          {
+            stage: "Contract Sent",
+            status: "OPEN",
+            changedAt: new Date("2026-09-20T10:00:00.000Z"),
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("restarts the search from the last modified date at the result cap", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      jsonResponse({
+        results: [
+          {
+            id: "c-1",
+            properties: {
+              name: "Acme",
+              website: "https://www.acme.com/about",
+              hs_lastmodifieddate: "2026-09-10T08:00:00.000Z",
+            },
+          },
+        ],
+        paging: { next: { after: "10000" } },
+      })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await new HubSpotProvider().fetchAccounts(
+      hubspotCredentials(),
+      JSON.stringify({ after: "9900", modifiedSince: "2026-09-01T00:00:00.000Z" }),
+      null
+    );
+
+    expect(result.data[0]).toMatchObject({ externalId: "c-1", name: "Acme", domain: "acme.com" });
+    expect(result.hasMore).toBe(true);
+    expect(JSON.parse(result.nextCursor ?? "")).toEqual({
+      modifiedSince: "2026-09-10T08:00:00.000Z",
+    });
+  });
+
+  it("walks records sharing one modified date by object ID instead of skipping them", async () => {
+    const tied = "2026-09-10T08:00:00.000Z";
+    const company = (id: string) => ({
+      id,
+      properties: { name: `Company ${id}`, hs_lastmodifieddate: tied },
+    });
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        jsonResponse({ results: [company("101")], paging: { next: { after: "10000" } } })
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({ results: [company("250")], paging: { next: { after: "10000" } } })
+      )
+      .mockResolvedValueOnce(jsonResponse({ results: [company("251")] }));
+    vi.stubGlobal("fetch", fetchMock);
+    const provider = new HubSpotProvider();
+
+    const capped = await provider.fetchAccounts(
+      hubspotCredentials(),
+      JSON.stringify({ after: "9900", modifiedSince: tied }),
+      null
+    );
+    expect(capped.hasMore).toBe(true);
+    expect(JSON.parse(capped.nextCursor ?? "")).toEqual({ modifiedSince: tied, idAfter: "0" });
+
+    const tiedCapped = await provider.fetchAccounts(hubspotCredentials(), capped.nextCursor, null);
+    const tiedBody = JSON.parse(fetchMock.mock.calls[1][1].body as string);
+    expect(tiedBody.filterGroups[0].filters).toEqual([
+      { propertyName: "hs_lastmodifieddate", operator: "EQ", value: String(Date.parse(tied)) },
+      { propertyName: "hs_object_id", operator: "GT", value: "0" },
+    ]);
+    expect(tiedBody.sorts).toEqual([{ propertyName: "hs_object_id", direction: "ASCENDING" }]);
+    expect(JSON.parse(tiedCapped.nextCursor ?? "")).toEqual({ modifiedSince: tied, idAfter: "250" });
+
+    const done = await provider.fetchAccounts(hubspotCredentials(), tiedCapped.nextCursor, null);
+    expect(done.hasMore).toBe(true);
+    expect(JSON.parse(done.nextCursor ?? "")).toEqual({ modifiedSince: "2026-09-10T08:00:00.001Z" });
+  });
+
+  it("refreshes an expired access token and reports it", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ message: "expired" }, 401))
+      .mockResolvedValueOnce(jsonResponse({ access_token: "fresh-token", expires_in: 1800 }))
+      .mockResolvedValueOnce(jsonResponse({ results: [] }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = new HubSpotProvider();
+    const onRefresh = vi.fn().mockResolvedValue(undefined);
+    provider.setTokenRefreshCallback(onRefresh);
+
+    await expect(provider.validateCredentials(hubspotCredentials())).resolves.toBe(true);
+    expect(String(fetchMock.mock.calls[1][0])).toBe("https://api.hubapi.com/oauth/v1/token");
+    expect(fetchMock.mock.calls[2][1].headers.Authorization).toBe("Bearer fresh-token");
+    expect(onRefresh).toHaveBeenCalledWith("fresh-token");
+  });
+});
+
+describe("syncCRMProvider with HubSpot", () => {
+  it("keys records by hubspotId and dates each deal stage event", async () => {
+    const opportunity: NormalizedOpportunity = {
+      externalId: "d-1",
+      name: "Acme expansion",
+      amount: 48000,
+      stage: "Closed Won",
+      status: "WON",
+      closeDate: new Date("2026-10-15T00:00:00.000Z"),
+      accountExternalId: "9001",
+      stageHistory: [
+        { stage: "Discovery", status: "OPEN", changedAt: new Date("2026-09-01T10:00:00.000Z") },
+        { stage: "Contract Sent", status: "OPEN", changedAt: new Date("2026-09-20T10:00:00.000Z") },
+        { stage: "Closed Won", status: "WON", changedAt: new Date("2026-10-14T10:00:00.000Z") },
+      ],
+    };
+    const provider: CRMDataProvider = {
+      name: "HUBSPOT",
+      validateCredentials: vi.fn(),
+      fetchAccounts: vi.fn().mockResolvedValue({
+        data: [
+          {
+            externalId: "9001",
+            name: "Acme",
+            domain: "acme.com",
+            industry: null,
+            employeeCount: null,
+            annualRevenue: null,
+          },
+        ],
+        nextCursor: null,
+        hasMore: false,
+      }),
+      fetchContacts: vi.fn().mockResolvedValue({ data: [], nextCursor: null, hasMore: false }),
+      fetchOpportunities: vi
+        .fn()
+        .mockResolvedValue({ data: [opportunity], nextCursor: null, hasMore: false }),
+    };
+
+    const tx = {
+      account: { update: vi.fn(), createMany: vi.fn().mockResolvedValue({ count: 1 }) },
+    };
+    const prisma = {
+      account: {
+        findMany: vi.fn().mockResolvedValue([]),
+        findFirst: vi
+          .fn()
+          .mockResolvedValueOnce(null)
+          .mockResolvedValueOnce({ id: "acct-1", hubspotId: "9001" }),
+      },
+      salesforceEvent: {
+        findFirst: vi.fn().mockResolvedValue(null),
+        findMany: vi.fn().mockResolvedValue([{ stageName: "Discovery" }]),
+        create: vi.fn().mockResolvedValue({}),
+      },
+      integrationConfig: { update: vi.fn().mockResolvedValue({}) },
+      $transaction: vi.fn(async (fn: (client: typeof tx) => Promise<void>) => fn(tx)),
+    };
+
+    const total = await syncCRMProvider(
+      {
+        prisma: prisma as any,
+        withRetry: (fn) => fn(),
+        queueMergeConflictReview: vi.fn(),
+      },
+      { id: "cfg-1", organizationId: "org-1", lastSyncAt: null } as any,
+      provider,
+      hubspotCredentials()
+    );
+
+    expect(total).toBe(2);
+    expect(prisma.account.findMany).toHaveBeenCalledWith({
+      where: { organizationId: "org-1", hubspotId: { in: ["9001"] } },
+    });
+    expect(tx.account.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ hubspotId: "9001", name: "Acme" })],
+      skipDuplicates: true,
+    });
+    expect(prisma.account.findFirst).toHaveBeenLastCalledWith({
+      where: { organizationId: "org-1", hubspotId: "9001" },
+    });
+    expect(prisma.salesforceEvent.create.mock.calls.map(([args]) => args.data)).toEqual([
+      expect.objectContaining({
+        eventType: "OPPORTUNITY_STAGE_CHANGE",
+        stageName: "Contract Sent",
+        createdAt: new Date("2026-09-20T10:00:00.000Z"),
+      }),
+      expect.objectContaining({
+        eventType: "CLOSED_WON",
+        stageName: "Closed Won",
+        createdAt: new Date("2026-10-14T10:00:00.000Z"),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectLanguage,
+  normalizeLanguageCode,
+} from "../../src/lib/language-detection.js";
+
+describe("detectLanguage", () => {
+  it.each([
+    ["de", "Wir haben das Projekt im März gestartet und die Ergebnisse sind schon sehr gut, aber die Integration ist noch nicht fertig."],
+    ["fr", "Nous avons lancé le projet en mars et les résultats sont très bons, mais l'intégration n'est pas encore terminée pour notre équipe."],
+    ["es", "Hemos lanzado el proyecto en marzo y los resultados son muy buenos, pero la integración todavía no está terminada para nuestra empresa."],
+    ["en", "We launched the project in March and the results are great, but the integration is not finished for our team yet."],
+  ])("detects %s", (expected, text) => {
+    expect(detectLanguage(text)).toBe(expected);
+  });
+
+  it("falls back to English for short or ambiguous text", () => {
+    expect(detectLanguage("")).toBe("en");
+    expect(detectLanguage("OK, danke.")).toBe("en");
+  });
+});
+
+describe("normalizeLanguageCode", () => {
+  it("reduces regional tags to supported codes", () => {
+    expect(normalizeLanguageCode("de-DE")).toBe("de");
+    expect(normalizeLanguageCode("ES_419")).toBe("es");
+    expect(normalizeLanguageCode("ja")).toBeNull();
+    expect(normalizeLanguageCode(null)).toBeNull();
+  });
+});
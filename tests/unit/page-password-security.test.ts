@@ -32,6 +32,9 @@ describe("page password security", () => {
         }),
         update: vi.fn().mockResolvedValue({}),
       },
+      orgSettings: {
+        findUnique: vi.fn().mockResolvedValue(null),
+      },
     } as any;
 
     const editor = new LandingPageEditor(prisma);
@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import { createPublicPageRoutes } from "../../src/api/public-page/renderer.js";
+import { createPageAnalyticsBeaconRoutes } from "../../src/api/public-page/beacon-routes.js";
+import { LandingPageEditor } from "../../src/services/landing-page-editor.js";
+import { withRequestServer } from "../helpers/request-server.js";
+
+const BROWSER_UA = "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)";
+
+function buildPrisma(dataGovernancePolicy: Record<string, unknown> = {}) {
+  return {
+    landingPage: {
+      findUnique: vi.fn().mockResolvedValue({
+        status: "PUBLISHED",
+        visibility: "SHARED_WITH_LINK",
+        password: null,
+        expiresAt: null,
+      }),
+    },
+    orgSettings: {
+      findUnique: vi.fn().mockResolvedValue({ dataGovernancePolicy }),
+    },
+    pageView: {
+      create: vi.fn().mockResolvedValue({ id: "view-1" }),
+      findUnique: vi.fn(),
+      update: vi.fn().mockResolvedValue({}),
+    },
+  } as any;
+}
+
+function buildApp(prisma: any) {
+  vi.spyOn(LandingPageEditor.prototype, "getPublicBySlug").mockResolvedValue({
+    id: "page-1",
+    organizationId: "org-1",
+    title: "Public Story",
+    subtitle: null,
+    body: "Story content",
+    calloutBoxes: [],
+    totalCallHours: 2,
+    heroImageUrl: null,
+    customCss: null,
+    branding: null,
+    publishedAt: new Date(),
+  });
+  const app = express();
+  app.use(express.json());
+  app.use("/s", createPublicPageRoutes(prisma));
+  app.use("/api/page-events", createPageAnalyticsBeaconRoutes(prisma));
+  return app;
+}
+
+describe("public page analytics", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("records the view with attribution and embeds the beacon script", async () => {
+    const prisma = buildPrisma();
+    const res = await withRequestServer(buildApp(prisma), (req) =>
+      req
+        .get("/s/story-slug?utm_source=newsletter&utm_campaign=q4")
+        .set("User-Agent", BROWSER_UA)
+        .set("Referer", "https://www.linkedin.com/feed/")
+        .expect(200)
+    );
+
+    expect(prisma.pageView.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        organizationId: "org-1",
+        landingPageId: "page-1",
+        referrerHost: "linkedin.com",
+        utmSource: "newsletter",
+        utmCampaign: "q4",
+      }),
+      select: { id: true },
+    });
+    expect(res.text).toContain('"viewId":"view-1"');
+    expect(res.headers["set-cookie"]).toBeUndefined();
+  });
+
+  it("skips tracking for Do Not Track, bots and orgs that disabled analytics", async () => {
+    const prisma = buildPrisma();
+    const app = buildApp(prisma);
+    const dnt = await withRequestServer(app, (req) =>
+      req.get("/s/story-slug").set("User-Agent", BROWSER_UA).set("DNT", "1").expect(200)
+    );
+    await withRequestServer(app, (req) =>
+      req.get("/s/story-slug").set("User-Agent", "Googlebot/2.1").expect(200)
+    );
+    expect(dnt.text).not.toContain("sendBeacon");
+
+    const disabled = buildPrisma({ page_analytics_enabled: false });
+    await withRequestServer(buildApp(disabled), (req) =>
+      req.get("/s/story-slug").set("User-Agent", BROWSER_UA).expect(200)
+    );
+
+    expect(prisma.pageView.create).not.toHaveBeenCalled();
+    expect(disabled.pageView.create).not.toHaveBeenCalled();
+  });
+
+  it("sets a first-party visitor cookie only when the policy allows it", async () => {
+    const prisma = buildPrisma({ page_analytics_cookies_enabled: true });
+    const res = await withRequestServer(buildApp(prisma), (req) =>
+      req.get("/s/story-slug").set("User-Agent", BROWSER_UA).expect(200)
+    );
+
+    expect(String(res.headers["set-cookie"])).toMatch(/se_vid=[0-9a-f-]{36}; .*HttpOnly/);
+  });
+
+  it("applies engagement beacons as running maximums", async () => {
+    const prisma = buildPrisma();
+    prisma.pageView.findUnique.mockResolvedValue({
+      viewedAt: new Date(),
+      maxScrollDepth: 60,
+      timeOnPageMs: 5_000,
+      ctaClicks: [],
+    });
+
+    await withRequestServer(buildApp(prisma), (req) =>
+      req
+        .post("/api/page-events")
+        .send({ view_id: "view-1", scroll_depth: 40, time_on_page_ms: 12_000, cta: "Share_Copy" })
+        .expect(204)
+    );
+
+    expect(prisma.pageView.update).toHaveBeenCalledWith({
+      where: { id: "view-1" },
+      data: { maxScrollDepth: 60, timeOnPageMs: 12_000, ctaClicks: ["share_copy"] },
+    });
+  });
+
+  it("ignores beacons for unknown views", async () => {
+    const prisma = buildPrisma();
+    prisma.pageView.findUnique.mockResolvedValue(null);
+
+    await withRequestServer(buildApp(prisma), (req) =>
+      req.post("/api/page-events").send({ view_id: "missing" }).expect(404)
+    );
+    expect(prisma.pageView.update).not.toHaveBeenCalled();
+  });
+});
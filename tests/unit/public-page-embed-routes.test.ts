@@ -0,0 +1,187 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import helmet from "helmet";
+import { createEmbedRoutes } from "../../src/api/public-page/embed-routes.js";
+import { LandingPageEditor } from "../../src/services/landing-page-editor.js";
+import { CompanyScrubber } from "../../src/services/company-scrubber.js";
+import { withRequestServer } from "../helpers/request-server.js";
+
+const EMBED_KEY = "k3y_abcdefghijklmnopqrstuv";
+const ALLOWED_ORIGIN = "https://www.customer-site.test";
+const BASE_URL = "http://localhost:3000";
+
+function publicPage(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "page-1",
+    organizationId: "org-1",
+    title: "How a retailer cut onboarding time",
+    subtitle: "From six weeks to two",
+    body: "The client **replaced** three tools in a quarter.\n\nSecond paragraph.",
+    calloutBoxes: [{ title: "3x faster", body: "Onboarding in two weeks", icon: "metric" }],
+    totalCallHours: 4,
+    heroImageUrl: null,
+    customCss: null,
+    branding: { brandName: "Northwind", primaryColor: "#123456" },
+    publishedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function buildPrisma(options: { anonymize?: boolean } = {}) {
+  return {
+    orgSettings: {
+      findUnique: vi.fn().mockImplementation(({ where }: { where: Record<string, string> }) => {
+        if (where.embedKey) {
+          return Promise.resolve(
+            where.embedKey === EMBED_KEY
+              ? { organizationId: "org-1", embedAllowedOrigins: [ALLOWED_ORIGIN] }
+              : null
+          );
+        }
+        return Promise.resolve({
+          embedAllowedOrigins: [ALLOWED_ORIGIN],
+          embedKey: EMBED_KEY,
+          anonymizationEnabled: options.anonymize ?? true,
+          storyContext: { publishedBranding: { brandName: "Northwind" } },
+        });
+      }),
+    },
+    quote: {
+      findMany: vi.fn().mockResolvedValue([
+        {
+          id: "quote-1",
+          quoteText: "Acme closed the quarter early because of it.",
+          accountId: "acct-1",
+          curatedAt: new Date("2026-10-01T00:00:00Z"),
+          account: { name: "Acme" },
+        },
+        {
+          id: "quote-2",
+          quoteText: "Setup took an afternoon.",
+          accountId: "acct-2",
+          curatedAt: new Date("2026-09-01T00:00:00Z"),
+          account: { name: "Globex" },
+        },
+      ]),
+    },
+  } as any;
+}
+
+function buildApp(prisma: any) {
+  const app = express();
+  app.use(helmet());
+  app.use("/embed", createEmbedRoutes(prisma));
+  return app;
+}
+
+describe("story embed routes", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("serves a page card framed only by the org's allowed origins", async () => {
+    vi.spyOn(LandingPageEditor.prototype, "getPublicForEmbed").mockResolvedValue(publicPage());
+    const res = await withRequestServer(buildApp(buildPrisma()), (req) =>
+      req.get("/embed/pages/retail-onboarding-1a2b3c4d").expect(200)
+    );
+
+    expect(res.headers["content-security-policy"]).toContain(`frame-ancestors ${ALLOWED_ORIGIN}`);
+    expect(res.headers["x-frame-options"]).toBeUndefined();
+    expect(res.text).toContain("How a retailer cut onboarding time");
+    expect(res.text).toContain("The client replaced three tools in a quarter.");
+    expect(res.text).not.toContain("Second paragraph");
+    expect(res.text).toContain("--color-accent: #123456;");
+    expect(res.text).toContain(`href="${BASE_URL}/s/retail-onboarding-1a2b3c4d"`);
+  });
+
+  it("shows the unavailable card for archived, expired or protected pages", async () => {
+    vi.spyOn(LandingPageEditor.prototype, "getPublicForEmbed").mockResolvedValue(null);
+    const res = await withRequestServer(buildApp(buildPrisma()), (req) =>
+      req.get("/embed/pages/archived-page-1a2b3c4d").expect(404)
+    );
+
+    expect(res.text).toContain("This story is no longer available.");
+    expect(res.headers["cache-control"]).toBe("no-store");
+  });
+
+  it("scrubs curated quotes and hides accounts when the org anonymizes", async () => {
+    const scrub = vi
+      .spyOn(CompanyScrubber.prototype, "scrubTextsForAccount")
+      .mockImplementation(async (_accountId, texts) =>
+        texts.map((text) => ({
+          scrubbedText: text.replace("Acme", "The client"),
+          replacementsMade: 1,
+          termsReplaced: ["Acme"],
+        }))
+      );
+    const prisma = buildPrisma();
+    const res = await withRequestServer(buildApp(prisma), (req) =>
+      req.get(`/embed/quotes/${EMBED_KEY}?limit=2`).expect(200)
+    );
+
+    expect(prisma.quote.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { organizationId: "org-1", tier: "CURATED" }, take: 2 })
+    );
+    expect(scrub).toHaveBeenCalledTimes(2);
+    expect(res.text).toContain("The client closed the quarter early");
+    expect(res.text).not.toContain("Acme");
+    expect(res.text).not.toContain("Globex");
+    expect(res.text).toContain("Verified customer");
+  });
+
+  it("shows account names on quotes when anonymization is off", async () => {
+    const scrub = vi.spyOn(CompanyScrubber.prototype, "scrubTextsForAccount");
+    const res = await withRequestServer(buildApp(buildPrisma({ anonymize: false })), (req) =>
+      req.get(`/embed/quotes/${EMBED_KEY}`).expect(200)
+    );
+
+    expect(scrub).not.toHaveBeenCalled();
+    expect(res.text).toContain("Acme closed the quarter early");
+    expect(res.text).toContain("<figcaption>Globex</figcaption>");
+  });
+
+  it("returns an oEmbed rich response with CORS for allowed origins only", async () => {
+    vi.spyOn(LandingPageEditor.prototype, "getPublicForEmbed").mockResolvedValue(publicPage());
+    const app = buildApp(buildPrisma());
+    const pageUrl = encodeURIComponent(`${BASE_URL}/s/retail-onboarding-1a2b3c4d`);
+
+    const allowed = await withRequestServer(app, (req) =>
+      req.get(`/embed/oembed?url=${pageUrl}&maxwidth=400`).set("Origin", ALLOWED_ORIGIN).expect(200)
+    );
+    expect(allowed.headers["access-control-allow-origin"]).toBe(ALLOWED_ORIGIN);
+    expect(allowed.body).toMatchObject({
+      version: "1.0",
+      type: "rich",
+      title: "How a retailer cut onboarding time",
+      author_name: "Northwind",
+      width: 400,
+      height: 420,
+    });
+    expect(allowed.body.html).toContain(`src="${BASE_URL}/embed/pages/retail-onboarding-1a2b3c4d"`);
+
+    const other = await withRequestServer(app, (req) =>
+      req.get(`/embed/oembed?url=${pageUrl}`).set("Origin", "https://other.test").expect(200)
+    );
+    expect(other.headers["access-control-allow-origin"]).toBeUndefined();
+  });
+
+  it("rejects unsupported formats and URLs that are not embeddable", async () => {
+    vi.spyOn(LandingPageEditor.prototype, "getPublicForEmbed").mockResolvedValue(null);
+    const app = buildApp(buildPrisma());
+    const pageUrl = encodeURIComponent(`${BASE_URL}/s/retail-onboarding-1a2b3c4d`);
+
+    await withRequestServer(app, (req) => req.get(`/embed/oembed?url=${pageUrl}&format=xml`).expect(501));
+    await withRequestServer(app, (req) => req.get(`/embed/oembed?url=${pageUrl}`).expect(404));
+    await withRequestServer(app, (req) =>
+      req.get(`/embed/oembed?url=${encodeURIComponent("https://elsewhere.test/s/page")}`).expect(404)
+    );
+  });
+
+  it("serves the loader script for cross-origin use", async () => {
+    const res = await withRequestServer(buildApp(buildPrisma()), (req) => req.get("/embed/widget.js").expect(200));
+
+    expect(res.headers["content-type"]).toContain("application/javascript");
+    expect(res.headers["cross-origin-resource-policy"]).toBe("cross-origin");
+    expect(res.text).toContain('"origin":"http://localhost:3000"');
+  });
+});
@@ -48,6 +48,8 @@ describe("public page password route hardening", () => {
     const getPublicSpy = vi
       .spyOn(LandingPageEditor.prototype, "getPublicBySlug")
       .mockResolvedValue({
+        id: "page-1",
+        organizationId: "org-1",
         title: "Public Story",
         subtitle: null,
         body: "Story content",
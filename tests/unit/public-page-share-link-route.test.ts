@@ -0,0 +1,171 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import { createPublicPageRoutes } from "../../src/api/public-page/renderer.js";
+import { LandingPageEditor } from "../../src/services/landing-page-editor.js";
+import { hashPagePassword } from "../../src/lib/page-password.js";
+import { withRequestServer } from "../helpers/request-server.js";
+
+const BROWSER_UA = "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)";
+
+function shareLink(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "link-1",
+    organizationId: "org-1",
+    landingPageId: "page-1",
+    createdByUserId: "rep-1",
+    token: "tok-1",
+    recipientEmail: "dana@prospect.com",
+    recipientName: "Dana",
+    password: null,
+    expiresAt: null,
+    revokedAt: null,
+    landingPage: {
+      slug: "story-slug",
+      title: "Public Story",
+      status: "PUBLISHED",
+      expiresAt: null,
+      password: null,
+    },
+    ...overrides,
+  };
+}
+
+function buildPrisma(link: Record<string, unknown> | null, firstOpen = true) {
+  return {
+    pageShareLink: {
+      findUnique: vi.fn().mockResolvedValue(link),
+      update: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: firstOpen ? 1 : 0 }),
+    },
+    notification: {
+      create: vi.fn().mockResolvedValue({ id: "notification-1" }),
+    },
+    orgSettings: {
+      findUnique: vi.fn().mockResolvedValue({ dataGovernancePolicy: {} }),
+    },
+    pageView: {
+      create: vi.fn().mockResolvedValue({ id: "view-1" }),
+    },
+  } as any;
+}
+
+function buildApp(prisma: any) {
+  vi.spyOn(LandingPageEditor.prototype, "getPublicForShareLink").mockResolvedValue({
+    id: "page-1",
+    organizationId: "org-1",
+    title: "Public Story",
+    subtitle: null,
+    body: "Story content",
+    calloutBoxes: [],
+    totalCallHours: 2,
+    heroImageUrl: null,
+    customCss: null,
+    branding: null,
+    publishedAt: new Date(),
+  });
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+  app.use("/s", createPublicPageRoutes(prisma));
+  return app;
+}
+
+describe("public page share links", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("serves the page, attributes the view and notifies the rep on first open", async () => {
+    const prisma = buildPrisma(shareLink());
+    const res = await withRequestServer(buildApp(prisma), (req) =>
+      req.get("/s/story-slug/r/tok-1").set("User-Agent", BROWSER_UA).expect(200)
+    );
+
+    expect(res.text).toContain("Public Story");
+    expect(prisma.pageShareLink.update).toHaveBeenCalledWith({
+      where: { id: "link-1" },
+      data: { openCount: { increment: 1 }, lastOpenedAt: expect.any(Date) },
+    });
+    expect(prisma.pageView.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ landingPageId: "page-1", shareLinkId: "link-1" }),
+      select: { id: true },
+    });
+    expect(prisma.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: "rep-1",
+        type: "PAGE_SHARE_OPENED",
+        body: 'Dana (dana@prospect.com) opened "Public Story" for the first time.',
+        metadata: { pageId: "page-1", shareLinkId: "link-1" },
+      }),
+    });
+  });
+
+  it("does not notify again after the first open", async () => {
+    const prisma = buildPrisma(shareLink(), false);
+    await withRequestServer(buildApp(prisma), (req) =>
+      req.get("/s/story-slug/r/tok-1").set("User-Agent", BROWSER_UA).expect(200)
+    );
+
+    expect(prisma.pageShareLink.update).toHaveBeenCalled();
+    expect(prisma.notification.create).not.toHaveBeenCalled();
+  });
+
+  it("rejects revoked, expired and mismatched links", async () => {
+    for (const link of [
+      shareLink({ revokedAt: new Date() }),
+      shareLink({ expiresAt: new Date(Date.now() - 1000) }),
+      shareLink({ landingPage: { ...shareLink().landingPage, slug: "other-page" } }),
+      null,
+    ]) {
+      const prisma = buildPrisma(link);
+      await withRequestServer(buildApp(prisma), (req) =>
+        req.get("/s/story-slug/r/tok-1").set("User-Agent", BROWSER_UA).expect(404)
+      );
+      expect(prisma.pageShareLink.update).not.toHaveBeenCalled();
+    }
+  });
+
+  it("asks for the link password before counting an open", async () => {
+    const prisma = buildPrisma(shareLink({ password: hashPagePassword("dana-only") }));
+    const app = buildApp(prisma);
+
+    const challenge = await withRequestServer(app, (req) =>
+      req.get("/s/story-slug/r/tok-1").set("User-Agent", BROWSER_UA).expect(200)
+    );
+    expect(challenge.text).toContain('action="/s/story-slug/r/tok-1"');
+    expect(prisma.pageShareLink.update).not.toHaveBeenCalled();
+
+    const unlocked = await withRequestServer(app, (req) =>
+      req
+        .post("/s/story-slug/r/tok-1")
+        .set("User-Agent", BROWSER_UA)
+        .type("form")
+        .send({ p: "dana-only" })
+        .expect(200)
+    );
+    expect(unlocked.text).toContain("Story content");
+    expect(prisma.pageShareLink.update).toHaveBeenCalledTimes(1);
+  });
+
+  it("serves link previews to bots without counting them as opens", async () => {
+    const prisma = buildPrisma(shareLink());
+    await withRequestServer(buildApp(prisma), (req) =>
+      req.get("/s/story-slug/r/tok-1").set("User-Agent", "Slackbot-LinkExpanding 1.0").expect(200)
+    );
+
+    expect(prisma.pageShareLink.update).not.toHaveBeenCalled();
+    expect(prisma.notification.create).not.toHaveBeenCalled();
+  });
+
+  it("passes database errors to the error handler instead of hanging", async () => {
+    const prisma = buildPrisma(shareLink());
+    prisma.pageShareLink.findUnique.mockRejectedValue(new Error("connection lost"));
+    const app = buildApp(prisma);
+    app.use((_err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      res.status(500).send("error");
+    });
+
+    await withRequestServer(app, (req) =>
+      req.get("/s/story-slug/r/tok-1").set("User-Agent", BROWSER_UA).expect(500)
+    );
+  });
+});
@@ -0,0 +1,155 @@
+import express, { type NextFunction, type Request, type Response } from "express";
+import { describe, expect, it, vi } from "vitest";
+import { requestServer } from "../helpers/request-server.js";
+import { createRAGRoutes } from "../../src/api/rag-routes.js";
+import { createApiUsageLogger } from "../../src/middleware/api-usage-logger.js";
+import type { RAGChatStreamOptions } from "../../src/services/rag-types.js";
+
+function createApp(engine: { chatStream: ReturnType<typeof vi.fn> }) {
+  const app = express();
+  app.use(express.json());
+  app.use((req: Request, _res: Response, next: NextFunction) => {
+    Object.assign(req, { organizationId: "org-1", userId: "user-1", userRole: "ADMIN" });
+    next();
+  });
+  app.use("/api/rag", createRAGRoutes(engine as any, {} as any));
+  return app;
+}
+
+function parseEvents(body: string) {
+  return body
+    .split("\n\n")
+    .filter((block) => block.trim().length > 0)
+    .map((block) => {
+      const [eventLine, dataLine] = block.split("\n");
+      return {
+        event: eventLine.replace("event: ", ""),
+        data: JSON.parse(dataLine.replace("data: ", "")) as Record<string, unknown>,
+      };
+    });
+}
+
+describe("POST /api/rag/chat/stream", () => {
+  it("streams tokens, then the grounded answer and sources", async () => {
+    const engine = {
+      chatStream: vi.fn(async (_input: unknown, options: RAGChatStreamOptions) => {
+        options.onToken("Pricing ");
+        options.onToken("came up.");
+        return {
+          answer: "Pricing came up.\n\nSources: [Source 1]",
+          sources: [
+            {
+              chunkId: "chunk-1",
+              callId: "call-1",
+              callTitle: "QBR",
+              callDate: "2026-09-01",
+              text: "We need a better price.",
+              speaker: null,
+              relevanceScore: 0.8,
+            },
+          ],
+          tokensUsed: 321,
+        };
+      }),
+    };
+
+    const { request, close } = await requestServer(createApp(engine));
+    try {
+      const res = await request
+        .post("/api/rag/chat/stream")
+        .send({ query: "pricing objections", account_id: "acct-1", history: [] })
+        .expect(200)
+        .expect("Content-Type", /text\/event-stream/);
+
+      const events = parseEvents(res.text);
+      expect(events.map((e) => e.event)).toEqual(["token", "token", "complete"]);
+      expect(events[1].data).toEqual({ token: "came up." });
+      expect(events[2].data).toMatchObject({
+        answer: "Pricing came up.\n\nSources: [Source 1]",
+        tokens_used: 321,
+        sources: [expect.objectContaining({ chunk_id: "chunk-1" })],
+      });
+      expect(engine.chatStream).toHaveBeenCalledWith(
+        expect.objectContaining({ accountId: "acct-1", organizationId: "org-1" }),
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
+    } finally {
+      close();
+    }
+  });
+
+  it("meters API-key streams in the API usage log like /chat", async () => {
+    const engine = {
+      chatStream: vi.fn(async (_input: unknown, options: RAGChatStreamOptions) => {
+        options.onToken("Pricing came up.");
+        return { answer: "Pricing came up.", sources: [], tokensUsed: 321 };
+      }),
+    };
+    const usagePrisma = { apiUsageLog: { create: vi.fn().mockResolvedValue({}) } };
+    const app = express();
+    app.use(express.json());
+    app.use((req: Request, _res: Response, next: NextFunction) => {
+      Object.assign(req, { organizationId: "org-1", apiKeyId: "key-1", apiKeyScopes: ["rag:query"] });
+      next();
+    });
+    app.use("/api/v1/rag", createApiUsageLogger(usagePrisma as any), createRAGRoutes(engine as any, {} as any));
+
+    const { request, close } = await requestServer(app);
+    try {
+      await request
+        .post("/api/v1/rag/chat/stream")
+        .send({ query: "pricing objections", account_id: "acct-1" })
+        .expect(200);
+      await vi.waitFor(() => expect(usagePrisma.apiUsageLog.create).toHaveBeenCalled());
+
+      expect(engine.chatStream).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ aiClient: undefined })
+      );
+      expect(usagePrisma.apiUsageLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          apiKeyId: "key-1",
+          endpoint: "/api/v1/rag/chat/stream",
+          tokensUsed: 321,
+        }),
+      });
+    } finally {
+      close();
+    }
+  });
+
+  it("reports generation failures as an error event", async () => {
+    const engine = {
+      chatStream: vi.fn().mockRejectedValue(new Error("provider exploded")),
+    };
+
+    const { request, close } = await requestServer(createApp(engine));
+    try {
+      const res = await request
+        .post("/api/rag/chat/stream")
+        .send({ query: "pricing objections", account_id: null })
+        .expect(200);
+
+      expect(parseEvents(res.text)).toEqual([
+        {
+          event: "error",
+          data: { error: "internal_error", message: "Failed to generate an answer." },
+        },
+      ]);
+    } finally {
+      close();
+    }
+  });
+
+  it("validates the request before opening the stream", async () => {
+    const engine = { chatStream: vi.fn() };
+
+    const { request, close } = await requestServer(createApp(engine));
+    try {
+      await request.post("/api/rag/chat/stream").send({ query: "hi" }).expect(400);
+      expect(engine.chatStream).not.toHaveBeenCalled();
+    } finally {
+      close();
+    }
+  });
+});
@@ -1,5 +1,6 @@
 import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
 import { RAGEngine } from "../../src/services/rag-engine.js";
+import { PineconeVectorStore } from "../../src/services/rag-vector-store.js";
 
 const origRedisUrl = process.env.REDIS_URL;
 
@@ -12,6 +13,11 @@ afterEach(() => {
   else delete process.env.REDIS_URL;
 });
 
+function usePinecone(engine: RAGEngine, index: Record<string, unknown>) {
+  const client = { Index: vi.fn().mockReturnValue(index) } as any;
+  (engine as any).vectorStores.set("pinecone", new PineconeVectorStore(client, "test-index"));
+}
+
 function makeEngine() {
   const prisma = {} as any;
   const engine = new RAGEngine(prisma, {
@@ -21,13 +27,9 @@ function makeEngine() {
   });
 
   const querySpy = vi.fn().mockResolvedValue({ matches: [] });
-  (engine as any).pinecone = {
-    Index: vi.fn().mockReturnValue({
-      query: querySpy,
-      upsert: vi.fn(),
-    }),
-  };
+  usePinecone(engine, { query: querySpy, upsert: vi.fn() });
   (engine as any).embed = vi.fn().mockResolvedValue([0.1, 0.2, 0.3]);
+  (engine as any).searchKeywords = vi.fn().mockResolvedValue([]);
   (engine as any).hydrateSources = vi.fn().mockResolvedValue([]);
 
   return { engine, querySpy };
@@ -161,11 +163,7 @@ describe("RAGEngine funnel stage filters", () => {
       pineconeIndex: "test-index",
     });
 
-    (engine as any).pinecone = {
-      Index: vi.fn().mockReturnValue({
-        deleteMany,
-      }),
-    };
+    usePinecone(engine, { deleteMany });
 
     const count = await engine.pruneVectors({
       organizationId: "org-1",
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RAGEngine } from "../../src/services/rag-engine.js";
+import { PineconeVectorStore } from "../../src/services/rag-vector-store.js";
+
+const origRedisUrl = process.env.REDIS_URL;
+
+beforeEach(() => {
+  delete process.env.REDIS_URL;
+});
+
+afterEach(() => {
+  if (origRedisUrl !== undefined) process.env.REDIS_URL = origRedisUrl;
+  else delete process.env.REDIS_URL;
+});
+
+function chunkRow(id: string, text: string) {
+  return {
+    id,
+    text,
+    speaker: "Buyer",
+    transcript: {
+      call: { id: `call_${id}`, title: `Call ${id}`, occurredAt: new Date("2026-03-01T10:00:00.000Z") },
+    },
+  };
+}
+
+function makeEngine(options: {
+  vectorMatches: Array<{ id: string; score: number; metadata: { chunk_id: string } }>;
+  keywordMatches: Array<{ chunkId: string; score: number }>;
+}) {
+  const findMany = vi.fn().mockResolvedValue([
+    chunkRow("vec", "We talked about onboarding timelines."),
+    chunkRow("sku", "SKU-4471 renewals were priced per seat."),
+  ]);
+  const prisma = { transcriptChunk: { findMany } } as any;
+  const engine = new RAGEngine(prisma, {
+    openaiApiKey: "test-openai-key",
+    pineconeApiKey: "test-pinecone-key",
+    pineconeIndex: "test-index",
+  });
+
+  const querySpy = vi.fn().mockResolvedValue({ matches: options.vectorMatches });
+  const client = { Index: vi.fn().mockReturnValue({ query: querySpy }) } as any;
+  (engine as any).vectorStores.set("pinecone", new PineconeVectorStore(client, "test-index"));
+  (engine as any).embed = vi.fn().mockResolvedValue([0.1, 0.2, 0.3]);
+  const keywordSpy = vi.fn().mockResolvedValue(options.keywordMatches);
+  (engine as any).searchKeywords = keywordSpy;
+  const create = vi.fn().mockResolvedValue({
+    choices: [{ message: { content: "Seats are priced per SKU [Source 1]." } }],
+    usage: { total_tokens: 42 },
+  });
+  (engine as any).openai = { chat: { completions: { create } } };
+
+  return { engine, querySpy, keywordSpy };
+}
+
+describe("RAGEngine hybrid retrieval", () => {
+  it("keeps exact keyword hits the vector search scored below the relevance floor", async () => {
+    const { engine, querySpy, keywordSpy } = makeEngine({
+      vectorMatches: [{ id: "chunk_vec", score: 0.4, metadata: { chunk_id: "vec" } }],
+      keywordMatches: [{ chunkId: "sku", score: 0.35 }],
+    });
+
+    const result = await engine.query({
+      query: "How is SKU-4471 priced?",
+      accountId: "acct-1",
+      organizationId: "org-1",
+      topics: ["pricing"],
+    });
+
+    expect(querySpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        topK: 24,
+        filter: expect.objectContaining({ topics: { $in: ["pricing"] } }),
+      })
+    );
+    expect(keywordSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query: "How is SKU-4471 priced?",
+        limit: 24,
+        filter: expect.objectContaining({ topics: ["pricing"], accountId: "acct-1" }),
+      })
+    );
+    expect(result.sources).toHaveLength(1);
+    expect(result.sources[0]).toMatchObject({
+      chunkId: "sku",
+      relevanceScore: 0.35,
+      scores: { vector: null, keyword: 0.35, rerank: null },
+    });
+  });
+
+  it("skips keyword search in semantic mode", async () => {
+    const { engine, keywordSpy } = makeEngine({
+      vectorMatches: [{ id: "chunk_vec", score: 0.9, metadata: { chunk_id: "vec" } }],
+      keywordMatches: [],
+    });
+
+    const result = await engine.query({
+      query: "What about onboarding?",
+      accountId: "acct-1",
+      organizationId: "org-1",
+      retrievalMode: "semantic",
+    });
+
+    expect(keywordSpy).not.toHaveBeenCalled();
+    expect(result.sources[0]).toMatchObject({
+      chunkId: "vec",
+      relevanceScore: 0.9,
+      scores: { vector: 0.9, keyword: null },
+    });
+  });
+
+  it("reorders candidates by reranker score", async () => {
+    const { engine } = makeEngine({
+      vectorMatches: [{ id: "chunk_vec", score: 0.9, metadata: { chunk_id: "vec" } }],
+      keywordMatches: [{ chunkId: "sku", score: 0.3 }],
+    });
+    const rerank = vi.fn().mockResolvedValue([0.2, 0.95]);
+    (engine as any).reranker = { name: "cross_encoder", rerank };
+
+    const result = await engine.query({
+      query: "How is SKU-4471 priced?",
+      accountId: "acct-1",
+      organizationId: "org-1",
+    });
+
+    expect(rerank).toHaveBeenCalledWith("How is SKU-4471 priced?", [
+      "We talked about onboarding timelines.",
+      "SKU-4471 renewals were priced per seat.",
+    ]);
+    expect(result.sources.map((source) => source.chunkId)).toEqual(["sku"]);
+    expect(result.sources[0].scores?.rerank).toBe(0.95);
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RAGEngine } from "../../src/services/rag-engine.js";
+import { PineconeVectorStore } from "../../src/services/rag-vector-store.js";
+
+const origRedisUrl = process.env.REDIS_URL;
+
+beforeEach(() => {
+  delete process.env.REDIS_URL;
+});
+
+afterEach(() => {
+  if (origRedisUrl !== undefined) process.env.REDIS_URL = origRedisUrl;
+  else delete process.env.REDIS_URL;
+});
+
+function chunkRow(id: string, accountId: string) {
+  return {
+    id,
+    text: `Evidence ${id} about onboarding.`,
+    speaker: "Buyer",
+    transcript: {
+      call: {
+        id: `call_${id}`,
+        title: `Call ${id}`,
+        occurredAt: new Date("2026-03-01T10:00:00.000Z"),
+        accountId,
+      },
+    },
+  };
+}
+
+describe("RAGEngine portfolio retrieval", () => {
+  it("keeps accounts that rank below one account dominating similarity", async () => {
+    const chatty = Array.from({ length: 30 }, (_, i) => ({
+      row: chunkRow(`a${i}`, "acct-a"),
+      score: 0.99 - i * 0.001,
+    }));
+    const others = [
+      { row: chunkRow("b0", "acct-b"), score: 0.8 },
+      { row: chunkRow("c0", "acct-c"), score: 0.75 },
+    ];
+    const all = [...chatty, ...others];
+
+    const prisma = {
+      transcriptChunk: { findMany: vi.fn().mockResolvedValue(all.map((entry) => entry.row)) },
+      account: {
+        findMany: vi.fn().mockResolvedValue([
+          { id: "acct-a", name: "Acme" },
+          { id: "acct-b", name: "Globex" },
+          { id: "acct-c", name: "Initech" },
+        ]),
+      },
+    } as any;
+    const engine = new RAGEngine(prisma, {
+      openaiApiKey: "test-openai-key",
+      pineconeApiKey: "test-pinecone-key",
+      pineconeIndex: "test-index",
+    });
+    const querySpy = vi.fn().mockImplementation(({ topK }: { topK: number }) => ({
+      matches: all.slice(0, topK).map((entry) => ({
+        id: `chunk_${entry.row.id}`,
+        score: entry.score,
+        metadata: { chunk_id: entry.row.id },
+      })),
+    }));
+    const client = { Index: vi.fn().mockReturnValue({ query: querySpy }) } as any;
+    (engine as any).vectorStores.set("pinecone", new PineconeVectorStore(client, "test-index"));
+    (engine as any).embed = vi.fn().mockResolvedValue([0.1, 0.2, 0.3]);
+    (engine as any).openai = {
+      chat: {
+        completions: {
+          create: vi.fn().mockResolvedValue({
+            choices: [{ message: { content: JSON.stringify({ summary: "All three onboarded.", accounts: [] }) } }],
+            usage: { total_tokens: 42 },
+          }),
+        },
+      },
+    };
+
+    const result = await engine.portfolioQuery({
+      query: "How did onboarding go?",
+      organizationId: "org-1",
+      retrievalMode: "semantic",
+      rerank: false,
+    });
+
+    expect(querySpy).toHaveBeenCalledWith(expect.objectContaining({ topK: 96 }));
+    expect(result.accounts.map((account) => account.accountId)).toEqual(["acct-a", "acct-b", "acct-c"]);
+    expect(result.accounts[0].sources).toHaveLength(3);
+    expect(result.accounts[1].sources.map((source) => source.chunkId)).toEqual(["b0"]);
+  });
+});
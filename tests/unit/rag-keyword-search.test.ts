@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from "vitest";
+import { Prisma } from "@prisma/client";
+import { searchTranscriptChunksByKeyword } from "../../src/services/rag-keyword-search.js";
+
+function capturePrisma(rows: Array<{ chunk_id: string; score: number }> = []) {
+  const queries: Prisma.Sql[] = [];
+  const prisma = {
+    $queryRaw: vi.fn((strings: TemplateStringsArray, ...values: unknown[]) => {
+      queries.push(Prisma.sql(strings, ...values));
+      return Promise.resolve(rows);
+    }),
+  } as any;
+  return { prisma, queries };
+}
+
+describe("searchTranscriptChunksByKeyword", () => {
+  it("matches each transcript language with its own text-search config", async () => {
+    const { prisma, queries } = capturePrisma([{ chunk_id: "chunk-1", score: 0.4 }]);
+
+    const matches = await searchTranscriptChunksByKeyword(prisma, {
+      query: "Preise pro Lizenz",
+      limit: 10,
+      filter: { organizationId: "org-1" },
+    });
+
+    expect(matches).toEqual([{ chunkId: "chunk-1", score: 0.4 }]);
+    const { sql, values } = queries[0];
+    for (const config of ["english", "german", "french", "spanish", "simple"]) {
+      expect(sql).toContain(`to_tsvector('${config}', tc."text") @@ q."${config}"`);
+      expect(sql).toContain(`plainto_tsquery('${config}', `);
+    }
+    expect(sql).toContain(`t."language" NOT IN (`);
+    expect(values).toEqual(expect.arrayContaining(["de", "Preise pro Lizenz", "org-1", 10]));
+  });
+
+  it("skips the database for queries without letters or digits", async () => {
+    const { prisma } = capturePrisma();
+
+    await expect(
+      searchTranscriptChunksByKeyword(prisma, { query: "?!", limit: 10, filter: { organizationId: "org-1" } })
+    ).resolves.toEqual([]);
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,206 @@
+import express, { type NextFunction, type Request, type Response } from "express";
+import { describe, expect, it, vi } from "vitest";
+import { requestServer } from "../helpers/request-server.js";
+import { createRAGRoutes } from "../../src/api/rag-routes.js";
+
+interface Caller {
+  userId?: string;
+  userRole?: string;
+  apiKeyId?: string;
+  apiKeyScopes?: string[];
+}
+
+function createMockPrisma(grants: Array<{ scopeType: string; accountId?: string | null; cachedAccountIds?: string[] }> = []) {
+  return {
+    userAccountAccess: {
+      findMany: vi.fn().mockResolvedValue(grants),
+    },
+  };
+}
+
+function createMockEngine() {
+  return {
+    portfolioQuery: vi.fn().mockResolvedValue({
+      answer: "Two accounts raised SOC 2 timing.",
+      accounts: [
+        {
+          accountId: "acct-1",
+          accountName: "Acme",
+          answer: "Acme's review slipped [Source 1].",
+          sources: [
+            {
+              citation: 1,
+              chunkId: "chunk-1",
+              callId: "call-1",
+              callTitle: "QBR",
+              callDate: "2026-09-01T00:00:00.000Z",
+              text: "Security review slipped two weeks.",
+              speaker: null,
+              relevanceScore: 0.82,
+              accountId: "acct-1",
+            },
+          ],
+        },
+      ],
+      tokensUsed: 420,
+    }),
+    chat: vi.fn().mockResolvedValue({ answer: "ok", sources: [], tokensUsed: 1 }),
+  };
+}
+
+function createApp(
+  engine: ReturnType<typeof createMockEngine>,
+  prisma: ReturnType<typeof createMockPrisma>,
+  caller: Caller
+) {
+  const app = express();
+  app.use(express.json());
+  app.use((req: Request, _res: Response, next: NextFunction) => {
+    Object.assign(req, { organizationId: "org-1", ...caller });
+    next();
+  });
+  app.use("/api/rag", createRAGRoutes(engine as any, prisma as any));
+  return app;
+}
+
+describe("POST /api/rag/portfolio", () => {
+  it("groups the answer and citations by account", async () => {
+    const engine = createMockEngine();
+    const app = createApp(engine, createMockPrisma(), { userId: "user-1", userRole: "ADMIN" });
+
+    const { request, close } = await requestServer(app);
+    try {
+      const res = await request
+        .post("/api/rag/portfolio")
+        .send({
+          query: "Which customers mentioned SOC 2 delays?",
+          occurred_after: "2026-07-01",
+          occurred_before: "2026-09-30",
+          topics: ["security_compliance"],
+        })
+        .expect(200);
+
+      expect(res.body.accounts).toHaveLength(1);
+      expect(res.body.accounts[0]).toMatchObject({
+        account_id: "acct-1",
+        account_name: "Acme",
+        sources: [expect.objectContaining({ citation: 1, chunk_id: "chunk-1" })],
+      });
+      expect(res.body.tokens_used).toBe(420);
+      expect(engine.portfolioQuery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          organizationId: "org-1",
+          accountIds: null,
+          topics: ["security_compliance"],
+          occurredAfter: new Date("2026-07-01"),
+          occurredBefore: new Date("2026-09-30"),
+        })
+      );
+    } finally {
+      close();
+    }
+  });
+
+  it("limits members to the accounts they were granted", async () => {
+    const engine = createMockEngine();
+    const prisma = createMockPrisma([{ scopeType: "SINGLE_ACCOUNT", accountId: "acct-1" }]);
+    const app = createApp(engine, prisma, { userId: "user-1", userRole: "MEMBER" });
+
+    const { request, close } = await requestServer(app);
+    try {
+      await request
+        .post("/api/rag/portfolio")
+        .send({ query: "pricing objections" })
+        .expect(200);
+      expect(engine.portfolioQuery).toHaveBeenCalledWith(
+        expect.objectContaining({ accountIds: ["acct-1"] })
+      );
+
+      const denied = await request
+        .post("/api/rag/portfolio")
+        .send({ query: "pricing objections", account_ids: ["acct-1", "acct-2"] })
+        .expect(403);
+      expect(denied.body.error).toBe("permission_denied");
+      expect(engine.portfolioQuery).toHaveBeenCalledTimes(1);
+    } finally {
+      close();
+    }
+  });
+
+  it("requires the rag:portfolio scope for API keys and honors account scopes", async () => {
+    const engine = createMockEngine();
+
+    const unscoped = createApp(engine, createMockPrisma(), {
+      apiKeyId: "key-1",
+      apiKeyScopes: ["rag:query"],
+    });
+    const first = await requestServer(unscoped);
+    try {
+      const res = await first.request
+        .post("/api/rag/portfolio")
+        .send({ query: "pricing objections" })
+        .expect(403);
+      expect(res.body.error).toBe("insufficient_scope");
+    } finally {
+      first.close();
+    }
+
+    const scoped = createApp(engine, createMockPrisma(), {
+      apiKeyId: "key-2",
+      apiKeyScopes: ["rag:query", "rag:portfolio", "account:acct-1", "account:acct-3"],
+    });
+    const second = await requestServer(scoped);
+    try {
+      await second.request
+        .post("/api/rag/portfolio")
+        .send({ query: "pricing objections" })
+        .expect(200);
+      expect(engine.portfolioQuery).toHaveBeenCalledWith(
+        expect.objectContaining({ accountIds: ["acct-1", "acct-3"] })
+      );
+    } finally {
+      second.close();
+    }
+  });
+
+  it("rejects an inverted date range", async () => {
+    const engine = createMockEngine();
+    const app = createApp(engine, createMockPrisma(), { userId: "user-1", userRole: "ADMIN" });
+
+    const { request, close } = await requestServer(app);
+    try {
+      await request
+        .post("/api/rag/portfolio")
+        .send({
+          query: "pricing objections",
+          occurred_after: "2026-09-30",
+          occurred_before: "2026-07-01",
+        })
+        .expect(400);
+      expect(engine.portfolioQuery).not.toHaveBeenCalled();
+    } finally {
+      close();
+    }
+  });
+});
+
+describe("POST /api/rag/chat without an account", () => {
+  it("searches only the accounts the member can read", async () => {
+    const engine = createMockEngine();
+    const prisma = createMockPrisma([{ scopeType: "SINGLE_ACCOUNT", accountId: "acct-9" }]);
+    const app = createApp(engine, prisma, { userId: "user-1", userRole: "MEMBER" });
+
+    const { request, close } = await requestServer(app);
+    try {
+      await request
+        .post("/api/rag/chat")
+        .send({ query: "pricing objections", account_id: null })
+        .expect(200);
+      expect(engine.chat).toHaveBeenCalledWith(
+        expect.objectContaining({ accountId: null, accountIds: ["acct-9"] })
+      );
+    } finally {
+      close();
+    }
+  });
+});
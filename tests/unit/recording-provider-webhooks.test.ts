@@ -0,0 +1,268 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import crypto from "crypto";
+import { createZoomWebhookHandler, computeZoomSignature } from "../../src/webhooks/zoom-webhook.js";
+import { createTeamsWebhookHandler, parseTranscriptResource } from "../../src/webhooks/teams-webhook.js";
+import { createFirefliesWebhookHandler } from "../../src/webhooks/fireflies-webhook.js";
+import { ZoomProvider } from "../../src/integrations/zoom-provider.js";
+import { FirefliesProvider } from "../../src/integrations/fireflies-provider.js";
+import { withRequestServer } from "../helpers/request-server.js";
+
+function buildRawWebhookApp(path: string, handler: express.RequestHandler) {
+  const app = express();
+  app.post(path, express.raw({ type: "application/json" }), handler);
+  return app;
+}
+
+function configPrisma(provider: string, overrides: Record<string, unknown> = {}) {
+  return {
+    integrationConfig: {
+      findMany: vi.fn().mockResolvedValue([
+        {
+          provider,
+          enabled: true,
+          status: "ACTIVE",
+          webhookSecret: "shared-secret-1",
+          credentials: {},
+          organizationId: "org-1",
+          ...overrides,
+        },
+      ]),
+    },
+  } as any;
+}
+
+describe("Zoom webhook", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("answers the endpoint.url_validation challenge for a signed request", async () => {
+    const payload = JSON.stringify({
+      event: "endpoint.url_validation",
+      payload: { plainToken: "plain-123" },
+    });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const app = buildRawWebhookApp(
+      "/api/webhooks/zoom",
+      createZoomWebhookHandler({
+        prisma: configPrisma("ZOOM"),
+        processingQueue: { add: vi.fn() } as any,
+      })
+    );
+
+    const res = await withRequestServer(app, (req) =>
+      req
+        .post("/api/webhooks/zoom")
+        .set("content-type", "application/json")
+        .set("x-zm-request-timestamp", timestamp)
+        .set("x-zm-signature", computeZoomSignature(payload, timestamp, "shared-secret-1"))
+        .send(payload)
+        .expect(200)
+    );
+
+    expect(res.body).toEqual({
+      plainToken: "plain-123",
+      encryptedToken: crypto.createHmac("sha256", "shared-secret-1").update("plain-123").digest("hex"),
+    });
+  });
+
+  it("lets a retry through when the recording was missing or ingest failed", async () => {
+    const fetchCall = vi
+      .spyOn(ZoomProvider.prototype, "fetchCall")
+      .mockResolvedValueOnce(null)
+      .mockRejectedValueOnce(new Error("Zoom API unavailable"))
+      .mockResolvedValueOnce({
+        externalId: "zoom-1",
+        title: "Acme renewal",
+        recordingUrl: null,
+        duration: 1800,
+        occurredAt: new Date("2026-10-01T15:00:00.000Z"),
+        participants: [],
+        transcript: "Buyer: We renewed for three years.",
+      });
+    const prisma = configPrisma("ZOOM");
+    prisma.call = {
+      findFirst: vi.fn().mockResolvedValue(null),
+      create: vi.fn().mockResolvedValue({ id: "call-1", accountId: null }),
+    };
+    prisma.callParticipant = { createMany: vi.fn().mockResolvedValue({ count: 0 }) };
+    prisma.transcript = { upsert: vi.fn().mockResolvedValue({}) };
+    const app = buildRawWebhookApp(
+      "/api/webhooks/zoom",
+      createZoomWebhookHandler({ prisma, processingQueue: { add: vi.fn().mockResolvedValue({}) } as any })
+    );
+    const payload = JSON.stringify({
+      event: "recording.completed",
+      payload: { object: { uuid: `meeting-${crypto.randomUUID()}` } },
+    });
+    const deliver = (status: number) => {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      return withRequestServer(app, (req) =>
+        req
+          .post("/api/webhooks/zoom")
+          .set("content-type", "application/json")
+          .set("x-zm-request-timestamp", timestamp)
+          .set("x-zm-signature", computeZoomSignature(payload, timestamp, "shared-secret-1"))
+          .send(payload)
+          .expect(status)
+      );
+    };
+
+    expect((await deliver(200)).body).toMatchObject({ processed: false, reason: "Recording not found" });
+    expect((await deliver(500)).body).toMatchObject({ processed: false, error: "Processing failed" });
+    expect((await deliver(200)).body).toEqual({ received: true, processed: true });
+    expect((await deliver(200)).body).toMatchObject({ duplicate_ignored: true });
+
+    expect(fetchCall).toHaveBeenCalledTimes(3);
+    expect(prisma.call.create).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects a signature made with another secret", async () => {
+    const payload = JSON.stringify({
+      event: "recording.completed",
+      payload: { object: { uuid: "abc==" } },
+    });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const app = buildRawWebhookApp(
+      "/api/webhooks/zoom",
+      createZoomWebhookHandler({
+        prisma: configPrisma("ZOOM"),
+        processingQueue: { add: vi.fn() } as any,
+      })
+    );
+
+    const res = await withRequestServer(app, (req) =>
+      req
+        .post("/api/webhooks/zoom")
+        .set("content-type", "application/json")
+        .set("x-zm-request-timestamp", timestamp)
+        .set("x-zm-signature", computeZoomSignature(payload, timestamp, "other-secret"))
+        .send(payload)
+        .expect(401)
+    );
+
+    expect(res.body.error).toBe("Invalid webhook signature");
+  });
+});
+
+describe("Teams webhook", () => {
+  it("echoes the Graph validation token", async () => {
+    const prisma = configPrisma("TEAMS");
+    const app = buildRawWebhookApp(
+      "/api/webhooks/teams",
+      createTeamsWebhookHandler({ prisma, processingQueue: { add: vi.fn() } as any })
+    );
+
+    const res = await withRequestServer(app, (req) =>
+      req.post("/api/webhooks/teams?validationToken=token%20abc").expect(200)
+    );
+
+    expect(res.text).toBe("token abc");
+    expect(res.headers["content-type"]).toContain("text/plain");
+    expect(prisma.integrationConfig.findMany).not.toHaveBeenCalled();
+  });
+
+  it("rejects notifications whose clientState or tenant does not match", async () => {
+    const app = buildRawWebhookApp(
+      "/api/webhooks/teams",
+      createTeamsWebhookHandler({
+        prisma: configPrisma("TEAMS", { credentials: { tenantId: "tenant-1" } }),
+        processingQueue: { add: vi.fn() } as any,
+      })
+    );
+    const notification = {
+      changeType: "created",
+      resource: "users('u1')/onlineMeetings('m1')/transcripts('t1')",
+    };
+
+    await withRequestServer(app, async (req) => {
+      const wrongState = await req
+        .post("/api/webhooks/teams")
+        .set("content-type", "application/json")
+        .send(JSON.stringify({ value: [{ ...notification, clientState: "nope", tenantId: "tenant-1" }] }))
+        .expect(401);
+      expect(wrongState.body.error).toBe("Invalid clientState");
+
+      await req
+        .post("/api/webhooks/teams")
+        .set("content-type", "application/json")
+        .send(
+          JSON.stringify({
+            value: [{ ...notification, clientState: "shared-secret-1", tenantId: "tenant-2" }],
+          })
+        )
+        .expect(401);
+    });
+  });
+
+  it("parses both Graph transcript resource forms", () => {
+    const expected = { organizerId: "u1", meetingId: "MSo1", transcriptId: "t1" };
+    expect(parseTranscriptResource("users('u1')/onlineMeetings('MSo1')/transcripts('t1')")).toEqual(
+      expected
+    );
+    expect(parseTranscriptResource("users/u1/onlineMeetings/MSo1/transcripts/t1")).toEqual(expected);
+    expect(parseTranscriptResource("communications/callRecords/abc")).toBeNull();
+  });
+});
+
+describe("Fireflies webhook", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("ingests the transcript for a signed Transcription completed event", async () => {
+    vi.spyOn(FirefliesProvider.prototype, "fetchCall").mockResolvedValue({
+      externalId: "ff-1",
+      title: "Acme renewal",
+      recordingUrl: null,
+      duration: 1800,
+      occurredAt: new Date("2026-10-01T15:00:00.000Z"),
+      participants: [{ email: "buyer@acme.com", name: "Buyer", isHost: false }],
+      transcript: "Buyer: We renewed for three years.",
+    });
+
+    const prisma = configPrisma("FIREFLIES");
+    prisma.call = {
+      findFirst: vi.fn().mockResolvedValue(null),
+      create: vi.fn().mockResolvedValue({ id: "call-1", accountId: null }),
+    };
+    prisma.callParticipant = { createMany: vi.fn().mockResolvedValue({ count: 1 }) };
+    prisma.transcript = { upsert: vi.fn().mockResolvedValue({}) };
+    const processingQueue = { add: vi.fn().mockResolvedValue({}) };
+
+    const payload = JSON.stringify({
+      meetingId: `ff-${crypto.randomUUID()}`,
+      eventType: "Transcription completed",
+    });
+    const signature = crypto.createHmac("sha256", "shared-secret-1").update(payload).digest("hex");
+    const app = buildRawWebhookApp(
+      "/api/webhooks/fireflies",
+      createFirefliesWebhookHandler({ prisma, processingQueue: processingQueue as any })
+    );
+
+    const res = await withRequestServer(app, (req) =>
+      req
+        .post("/api/webhooks/fireflies")
+        .set("content-type", "application/json")
+        .set("x-hub-signature", `sha256=${signature}`)
+        .send(payload)
+        .expect(200)
+    );
+
+    expect(res.body).toEqual({ received: true, processed: true });
+    expect(prisma.call.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        organizationId: "org-1",
+        provider: "FIREFLIES",
+        externalId: "ff-1",
+        title: "Acme renewal",
+      }),
+    });
+    expect(prisma.callParticipant.createMany).toHaveBeenCalled();
+    expect(prisma.transcript.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { callId: "call-1" } })
+    );
+    expect(processingQueue.add).toHaveBeenCalled();
+  });
+});
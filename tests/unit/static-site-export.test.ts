@@ -0,0 +1,243 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import zlib from "node:zlib";
+import { createExportRoutes } from "../../src/api/export-routes.js";
+import { withRequestServer } from "../helpers/request-server.js";
+
+const BASE_URL = "https://customers.example.com/stories";
+const HERO_URL = "https://93.184.216.34/hero.png";
+const PNG_BYTES = Buffer.from("89504e470d0a1a0a0000000d49484452", "hex");
+
+function landingPage(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "page-1",
+    organizationId: "org-1",
+    slug: "retail-onboarding-1a2b3c4d",
+    title: "How Acme cut onboarding time",
+    subtitle: "From six weeks to two",
+    editableBody: "Acme **replaced** three tools in a quarter.",
+    scrubbedTitle: "How a retailer cut onboarding time",
+    scrubbedSubtitle: null,
+    scrubbedBody: "The client **replaced** three tools in a quarter.",
+    calloutBoxes: [],
+    scrubbedCalloutBoxes: [],
+    totalCallHours: 4,
+    heroImageUrl: null,
+    customCss: null,
+    visibility: "SHARED_WITH_LINK",
+    status: "PUBLISHED",
+    password: null,
+    includeCompanyName: false,
+    noIndex: false,
+    expiresAt: null,
+    publishedAt: new Date("2026-10-01T12:00:00Z"),
+    ...overrides,
+  };
+}
+
+function buildPrisma(pages: Record<string, unknown>[], policy: Record<string, unknown> = {}) {
+  return {
+    landingPage: {
+      findMany: vi.fn().mockResolvedValue(pages),
+      findFirst: vi.fn().mockResolvedValue(null),
+    },
+    orgSettings: {
+      findUnique: vi.fn().mockResolvedValue({
+        dataGovernancePolicy: policy,
+        anonymizationEnabled: true,
+        storyContext: { publishedBranding: { brandName: "Northwind", primaryColor: "#123456" } },
+      }),
+    },
+  } as any;
+}
+
+function buildApp(prisma: any) {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    (req as any).organizationId = "org-1";
+    (req as any).userId = "user-1";
+    (req as any).userRole = "OWNER";
+    next();
+  });
+  app.use("/api/pages", createExportRoutes(prisma));
+  return app;
+}
+
+/** Reads entries back through the central directory of a zip buffer. */
+function readZip(buffer: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+  const endOffset = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+  for (let i = 0; i < count; i++) {
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.subarray(offset + 46, offset + 46 + nameLength).toString("utf8");
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26);
+    const body = buffer.subarray(dataStart, dataStart + compressedSize);
+    entries.set(name, method === 8 ? zlib.inflateRawSync(body) : Buffer.from(body));
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+function binaryParser(res: any, callback: (err: Error | null, body: Buffer) => void) {
+  const chunks: Buffer[] = [];
+  res.on("data", (chunk: Buffer) => chunks.push(chunk));
+  res.on("end", () => callback(null, Buffer.concat(chunks)));
+}
+
+describe("static site export routes", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("bundles a published page with its hero image, index, sitemap and robots.txt", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(PNG_BYTES, { status: 200, headers: { "content-type": "image/png" } })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const prisma = buildPrisma([landingPage({ heroImageUrl: HERO_URL })]);
+
+    const res = await withRequestServer(buildApp(prisma), (req) =>
+      req
+        .post("/api/pages/page-1/export/static-site")
+        .send({ base_url: `${BASE_URL}/` })
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200)
+    );
+
+    expect(res.headers["content-type"]).toBe("application/zip");
+    expect(res.headers["content-disposition"]).toBe('attachment; filename="retail-onboarding-1a2b3c4d-site.zip"');
+    expect(prisma.landingPage.findMany).toHaveBeenCalledWith({
+      where: { id: { in: ["page-1"] }, organizationId: "org-1" },
+    });
+
+    const files = readZip(res.body);
+    expect([...files.keys()].sort()).toEqual([
+      "assets/retail-onboarding-1a2b3c4d-hero.png",
+      "index.html",
+      "retail-onboarding-1a2b3c4d/index.html",
+      "robots.txt",
+      "sitemap.xml",
+    ]);
+    expect(files.get("assets/retail-onboarding-1a2b3c4d-hero.png")).toEqual(PNG_BYTES);
+
+    const pageHtml = files.get("retail-onboarding-1a2b3c4d/index.html")!.toString("utf8");
+    expect(pageHtml).toContain("url('../assets/retail-onboarding-1a2b3c4d-hero.png')");
+    expect(pageHtml).not.toContain(HERO_URL);
+    expect(pageHtml).not.toContain("fonts.googleapis.com");
+    expect(pageHtml).toContain('<meta name="robots" content="index, follow">');
+    expect(pageHtml).toContain(`<link rel="canonical" href="${BASE_URL}/retail-onboarding-1a2b3c4d/">`);
+    expect(pageHtml).toContain("--color-accent: #123456;");
+    expect(pageHtml).toContain("How a retailer cut onboarding time");
+    expect(pageHtml).not.toContain("Acme");
+
+    const indexHtml = files.get("index.html")!.toString("utf8");
+    expect(indexHtml).toContain('href="./retail-onboarding-1a2b3c4d/index.html"');
+    expect(indexHtml).toContain("Northwind customer stories");
+
+    expect(files.get("robots.txt")!.toString("utf8")).toContain(`Sitemap: ${BASE_URL}/sitemap.xml`);
+  });
+
+  it("leaves noIndex pages out of the sitemap and keeps their noindex tag", async () => {
+    vi.stubGlobal("fetch", vi.fn());
+    const prisma = buildPrisma([
+      landingPage(),
+      landingPage({ id: "page-2", slug: "hidden-win-5e6f7a8b", noIndex: true }),
+    ]);
+
+    const res = await withRequestServer(buildApp(prisma), (req) =>
+      req
+        .post("/api/pages/export/static-site")
+        .send({ page_ids: ["page-2", "page-1"], base_url: BASE_URL })
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200)
+    );
+
+    expect(res.headers["content-disposition"]).toMatch(/filename="stories-site-\d{4}-\d{2}-\d{2}\.zip"/);
+    const files = readZip(res.body);
+    const sitemap = files.get("sitemap.xml")!.toString("utf8");
+    expect(sitemap).toContain(`<loc>${BASE_URL}/retail-onboarding-1a2b3c4d/</loc>`);
+    expect(sitemap).toContain("<lastmod>2026-10-01</lastmod>");
+    expect(sitemap).not.toContain("hidden-win-5e6f7a8b");
+    expect(files.get("hidden-win-5e6f7a8b/index.html")!.toString("utf8")).toContain(
+      '<meta name="robots" content="noindex, nofollow">'
+    );
+
+    const indexHtml = files.get("index.html")!.toString("utf8");
+    expect(indexHtml.indexOf("hidden-win-5e6f7a8b")).toBeLessThan(indexHtml.indexOf("retail-onboarding-1a2b3c4d"));
+  });
+
+  it("exports the page without a hero when the image is not a safe raster type", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        new Response("<svg onload=\"alert(1)\"/>", { status: 200, headers: { "content-type": "image/svg+xml" } })
+      )
+    );
+    const prisma = buildPrisma([landingPage({ heroImageUrl: HERO_URL })]);
+
+    const res = await withRequestServer(buildApp(prisma), (req) =>
+      req
+        .post("/api/pages/page-1/export/static-site")
+        .send({ base_url: BASE_URL })
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200)
+    );
+
+    const files = readZip(res.body);
+    expect([...files.keys()].some((path) => path.startsWith("assets/"))).toBe(false);
+    expect(files.get("retail-onboarding-1a2b3c4d/index.html")!.toString("utf8")).not.toContain('class="hero"');
+  });
+
+  it("refuses drafts, private and password-protected pages", async () => {
+    const prisma = buildPrisma([
+      landingPage({ id: "page-1", status: "DRAFT" }),
+      landingPage({ id: "page-2", slug: "private-1", visibility: "PRIVATE" }),
+      landingPage({ id: "page-3", slug: "locked-1", password: "hashed" }),
+    ]);
+
+    const res = await withRequestServer(buildApp(prisma), (req) =>
+      req
+        .post("/api/pages/export/static-site")
+        .send({ page_ids: ["page-1", "page-2", "page-3", "page-4"], base_url: BASE_URL })
+        .expect(400)
+    );
+
+    expect(res.body.error).toBe("static_export_blocked");
+    expect(res.body.issues).toEqual([
+      { page_id: "page-1", code: "not_published" },
+      { page_id: "page-2", code: "private" },
+      { page_id: "page-3", code: "password_protected" },
+      { page_id: "page-4", code: "not_found" },
+    ]);
+  });
+
+  it("validates the base URL and honours the named-story export policy", async () => {
+    const prisma = buildPrisma([landingPage()], { allow_named_story_exports: false });
+    prisma.landingPage.findFirst.mockResolvedValue({ id: "page-1" });
+    const app = buildApp(prisma);
+
+    await withRequestServer(app, (req) =>
+      req.post("/api/pages/page-1/export/static-site").send({ base_url: "ftp://example.com" }).expect(400)
+    );
+    const denied = await withRequestServer(app, (req) =>
+      req.post("/api/pages/export/static-site").send({ page_ids: ["page-1"], base_url: BASE_URL }).expect(403)
+    );
+
+    expect(denied.body.error).toBe("policy_denied");
+    expect(prisma.landingPage.findFirst).toHaveBeenCalledWith({
+      where: { id: { in: ["page-1"] }, organizationId: "org-1", includeCompanyName: true },
+      select: { id: true },
+    });
+    expect(prisma.landingPage.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -17,7 +17,10 @@ describe("story delete vector pruning", () => {
       deleteStory: ReturnType<typeof vi.fn>;
       getStoryForExport: ReturnType<typeof vi.fn>;
     };
-    accessService: { canAccessAccount: ReturnType<typeof vi.fn> };
+    accessService: {
+      canAccessAccount: ReturnType<typeof vi.fn>;
+      canAccessAccounts: ReturnType<typeof vi.fn>;
+    };
     ragEngine?: { pruneVectorsForStory: ReturnType<typeof vi.fn> };
   }) => {
     const app = express();
@@ -46,7 +49,10 @@ describe("story delete vector pruning", () => {
     deleteStory: ReturnType<typeof vi.fn>;
     getStoryForExport: ReturnType<typeof vi.fn>;
   };
-  let accessService: { canAccessAccount: ReturnType<typeof vi.fn> };
+  let accessService: {
+    canAccessAccount: ReturnType<typeof vi.fn>;
+    canAccessAccounts: ReturnType<typeof vi.fn>;
+  };
 
   beforeEach(() => {
     roleProfiles = {
@@ -61,6 +67,7 @@ describe("story delete vector pruning", () => {
     };
     accessService = {
       canAccessAccount: vi.fn().mockResolvedValue(true),
+      canAccessAccounts: vi.fn().mockResolvedValue(true),
     };
   });
 
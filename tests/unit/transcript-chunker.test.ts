@@ -0,0 +1,321 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  chunkStoredTranscript,
+  chunkUtterances,
+  estimateChunkTokens,
+} from "../../src/services/transcript-chunker.js";
+import {
+  mapRechunkedChunks,
+  rechunkTranscripts,
+  replaceTranscriptChunks,
+} from "../../src/services/transcript-rechunk.js";
+import type { NormalizedUtterance } from "../../src/integrations/types.js";
+
+function turn(
+  speaker: string,
+  text: string,
+  startMs: number,
+  endMs: number
+): NormalizedUtterance {
+  return { speaker, text, startMs, endMs };
+}
+
+describe("chunkUtterances", () => {
+  it("packs whole speaker turns and records speaker and time range", () => {
+    const chunks = chunkUtterances(
+      [
+        turn("Dana Buyer", "We looked at three vendors.", 1_000, 4_000),
+        turn("Sam Rep", "What made you pick us?", 4_500, 6_000),
+        turn("Dana Buyer", "Onboarding took a week instead of a quarter.", 6_500, 11_000),
+        turn("Sam Rep", "Great to hear.", 11_500, 12_000),
+      ],
+      20
+    );
+
+    expect(chunks).toEqual([
+      {
+        index: 0,
+        text: "Dana Buyer: We looked at three vendors.\nSam Rep: What made you pick us?",
+        speaker: "Dana Buyer",
+        startMs: 1_000,
+        endMs: 6_000,
+      },
+      {
+        index: 1,
+        text: "Dana Buyer: Onboarding took a week instead of a quarter.\nSam Rep: Great to hear.",
+        speaker: "Dana Buyer",
+        startMs: 6_500,
+        endMs: 12_000,
+      },
+    ]);
+  });
+
+  it("splits a long monologue by tokens and interpolates timestamps", () => {
+    const sentence = "The rollout reached every regional team within two weeks. ";
+    const monologue = sentence.repeat(6).trim();
+    const chunks = chunkUtterances([turn("Dana Buyer", monologue, 0, 60_000)], 30);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.speaker).toBe("Dana Buyer");
+      expect(estimateChunkTokens(chunk.text.replace(/^Dana Buyer: /, ""))).toBeLessThanOrEqual(30);
+    }
+    expect(chunks[0].startMs).toBe(0);
+    expect(chunks[chunks.length - 1].endMs).toBe(60_000);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].startMs!).toBeGreaterThan(chunks[i - 1].startMs!);
+      expect(chunks[i].startMs!).toBeGreaterThanOrEqual(chunks[i - 1].endMs! - 1);
+    }
+  });
+
+  it("counts tokens rather than characters", () => {
+    expect(estimateChunkTokens("onboarding")).toBe(3);
+    expect(estimateChunkTokens("导入很快")).toBe(4);
+    expect(estimateChunkTokens("  ")).toBe(0);
+  });
+});
+
+describe("chunkStoredTranscript", () => {
+  it("uses speaker turns when utterances were stored", () => {
+    const chunks = chunkStoredTranscript({
+      fullText: "ignored",
+      utterances: [{ speaker: "Sam Rep", text: "Kickoff is Monday.", startMs: 500, endMs: 2_000 }],
+    });
+    expect(chunks).toEqual([
+      { index: 0, text: "Sam Rep: Kickoff is Monday.", speaker: "Sam Rep", startMs: 500, endMs: 2_000 },
+    ]);
+  });
+
+  it("falls back to sentence windows without speakers or times", () => {
+    const chunks = chunkStoredTranscript({
+      fullText: "Kickoff is Monday. Legal signed off.",
+      utterances: null,
+    });
+    expect(chunks).toEqual([
+      {
+        index: 0,
+        text: "Kickoff is Monday. Legal signed off.",
+        speaker: null,
+        startMs: null,
+        endMs: null,
+      },
+    ]);
+  });
+});
+
+function chunkStorePrisma(options: {
+  transcript: { fullText: string; utterances: unknown; language?: string };
+  oldChunks?: Array<{ id: string; chunkIndex: number; text: string; startMs: number | null; endMs: number | null }>;
+  tags?: Array<{ id: string; chunkId: string; funnelStage: string; topic: string }>;
+  queueItems?: Array<{ id: string; chunkId: string; status: string }>;
+}) {
+  let created = 0;
+  const prisma: any = {
+    transcript: {
+      findUniqueOrThrow: vi.fn().mockResolvedValue({ language: "en", ...options.transcript }),
+    },
+    transcriptChunk: {
+      findMany: vi.fn().mockResolvedValue(options.oldChunks ?? []),
+      updateMany: vi.fn().mockResolvedValue({ count: options.oldChunks?.length ?? 0 }),
+      create: vi.fn().mockImplementation(({ data }: { data: Record<string, unknown> }) =>
+        Promise.resolve({
+          id: `new-${created++}`,
+          text: data.text,
+          startMs: data.startMs,
+          endMs: data.endMs,
+        })
+      ),
+      deleteMany: vi.fn().mockResolvedValue({ count: options.oldChunks?.length ?? 0 }),
+    },
+    quote: { updateMany: vi.fn().mockResolvedValue({ count: 1 }) },
+    highValueQuote: { updateMany: vi.fn().mockResolvedValue({ count: 0 }) },
+    storyClaimLineage: { updateMany: vi.fn().mockResolvedValue({ count: 0 }) },
+    validationSample: { updateMany: vi.fn().mockResolvedValue({ count: 0 }) },
+    chunkTag: {
+      findMany: vi.fn().mockResolvedValue(options.tags ?? []),
+      update: vi.fn().mockResolvedValue({}),
+    },
+    labelingQueueItem: {
+      findMany: vi.fn().mockResolvedValue(options.queueItems ?? []),
+      update: vi.fn().mockResolvedValue({}),
+    },
+  };
+  prisma.$transaction = vi.fn().mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+  return prisma;
+}
+
+describe("mapRechunkedChunks", () => {
+  it("maps by time overlap when both chunkings have timestamps", () => {
+    const mapping = mapRechunkedChunks(
+      [
+        { id: "old-0", text: "a", startMs: 0, endMs: 4_000 },
+        { id: "old-1", text: "b", startMs: 4_000, endMs: 9_000 },
+      ],
+      [
+        { id: "new-0", text: "a", startMs: 0, endMs: 3_000 },
+        { id: "new-1", text: "b", startMs: 3_000, endMs: 10_000 },
+      ]
+    );
+
+    expect([...mapping]).toEqual([
+      ["old-0", "new-0"],
+      ["old-1", "new-1"],
+    ]);
+  });
+
+  it("falls back to the position in the text for untimed chunks", () => {
+    const mapping = mapRechunkedChunks(
+      [
+        { id: "old-0", text: "x".repeat(10), startMs: null, endMs: null },
+        { id: "old-1", text: "x".repeat(10), startMs: null, endMs: null },
+        { id: "old-2", text: "x".repeat(80), startMs: null, endMs: null },
+      ],
+      [
+        { id: "new-0", text: "x".repeat(50), startMs: 0, endMs: 5_000 },
+        { id: "new-1", text: "x".repeat(50), startMs: 5_000, endMs: 10_000 },
+      ]
+    );
+
+    expect(mapping.get("old-0")).toBe("new-0");
+    expect(mapping.get("old-1")).toBe("new-0");
+    expect(mapping.get("old-2")).toBe("new-1");
+  });
+});
+
+describe("replaceTranscriptChunks", () => {
+  it("moves quotes, lineage, tags and reviewer work onto the new chunks", async () => {
+    const prisma = chunkStorePrisma({
+      transcript: {
+        fullText: "We looked at three vendors. Onboarding took a week.",
+        utterances: [
+          turn("Dana Buyer", "We looked at three vendors.", 0, 4_000),
+          turn("Sam Rep", "Onboarding took a week.", 4_000, 8_000),
+        ],
+      },
+      oldChunks: [
+        { id: "old-0", chunkIndex: 0, text: "We looked at three vendors.", startMs: null, endMs: null },
+        { id: "old-1", chunkIndex: 1, text: "Onboarding took a week.", startMs: null, endMs: null },
+      ],
+      tags: [
+        { id: "tag-a", chunkId: "old-0", funnelStage: "BOFU", topic: "vendor_selection" },
+        { id: "tag-b", chunkId: "old-1", funnelStage: "POST_SALE", topic: "onboarding" },
+        { id: "tag-c", chunkId: "old-1", funnelStage: "BOFU", topic: "vendor_selection" },
+      ],
+      queueItems: [
+        { id: "queue-pending", chunkId: "old-0", status: "PENDING" },
+        { id: "queue-labeled", chunkId: "old-1", status: "LABELED" },
+      ],
+    });
+
+    const result = await replaceTranscriptChunks(prisma, "tr-1");
+
+    // Both turns fit one chunk, so every old chunk maps onto new-0
+    expect(result).toEqual({ created: 1, remapped: 2 });
+    expect(prisma.transcriptChunk.updateMany).toHaveBeenCalledWith({
+      where: { transcriptId: "tr-1" },
+      data: { chunkIndex: { increment: 2 } },
+    });
+    expect(prisma.transcriptChunk.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ transcriptId: "tr-1", chunkIndex: 0, speaker: "Dana Buyer", startMs: 0 }),
+      })
+    );
+    for (const model of ["quote", "highValueQuote", "storyClaimLineage"]) {
+      expect(prisma[model].updateMany).toHaveBeenCalledWith({
+        where: { sourceChunkId: { in: ["old-0", "old-1"] } },
+        data: { sourceChunkId: "new-0" },
+      });
+    }
+    expect(prisma.validationSample.updateMany).toHaveBeenCalledWith({
+      where: { chunkId: { in: ["old-0", "old-1"] } },
+      data: { chunkId: "new-0" },
+    });
+    expect(prisma.chunkTag.update.mock.calls.map(([args]: any[]) => args.where.id)).toEqual(["tag-a", "tag-b"]);
+    expect(prisma.labelingQueueItem.update).toHaveBeenCalledTimes(1);
+    expect(prisma.labelingQueueItem.update).toHaveBeenCalledWith({
+      where: { id: "queue-labeled" },
+      data: { chunkId: "new-0" },
+    });
+    expect(prisma.transcriptChunk.deleteMany).toHaveBeenCalledWith({
+      where: { id: { in: ["old-0", "old-1"] } },
+    });
+  });
+});
+
+describe("rechunkTranscripts", () => {
+  it("fetches missing utterances, clears chunks and re-queues calls", async () => {
+    const transcripts = [
+      {
+        id: "tr-1",
+        utterances: [{ speaker: "A", text: "Hi.", startMs: 0, endMs: 500 }],
+        call: { id: "call-1", accountId: "acct-1", provider: "GONG", externalId: "g-1" },
+      },
+      {
+        id: "tr-2",
+        utterances: null,
+        call: { id: "call-2", accountId: null, provider: "ZOOM", externalId: "z-2" },
+      },
+      {
+        id: "tr-3",
+        utterances: null,
+        call: { id: "call-3", accountId: null, provider: "OTHER", externalId: null },
+      },
+    ];
+    const prisma = chunkStorePrisma({
+      transcript: {
+        fullText: "Renewal is approved.",
+        utterances: [{ speaker: "Dana", text: "Renewal is approved.", startMs: 1_000, endMs: 2_000 }],
+      },
+    });
+    prisma.integrationConfig = {
+      findMany: vi.fn().mockResolvedValue([
+        {
+          provider: "ZOOM",
+          credentials: { accountId: "acc", clientId: "id", clientSecret: "secret" },
+        },
+      ]),
+    };
+    prisma.transcript.findMany = vi.fn().mockResolvedValueOnce(transcripts).mockResolvedValueOnce([]);
+    prisma.transcript.update = vi.fn().mockResolvedValue({});
+    const fetchUtterances = vi
+      .fn()
+      .mockResolvedValue([{ speaker: "Dana", text: "Renewal is approved.", startMs: 1_000, endMs: 2_000 }]);
+    const registry = {
+      callRecording: new Map([["ZOOM", { name: "ZOOM", fetchUtterances }]]),
+      crm: new Map(),
+    };
+    const processingQueue = { add: vi.fn().mockResolvedValue({}) };
+    const pruneVectorsForCall = vi.fn().mockResolvedValue(1);
+
+    const result = await rechunkTranscripts(
+      {
+        prisma,
+        registry: registry as any,
+        processingQueue,
+        pruneVectorsForCall,
+        batchSize: 50,
+      },
+      { organizationId: "org-1", refetchUtterances: true, runId: "run-1" }
+    );
+
+    expect(result).toEqual({ scanned: 3, utterancesFetched: 1, requeued: 2, skipped: 1 });
+    expect(fetchUtterances).toHaveBeenCalledWith(
+      { accountId: "acc", clientId: "id", clientSecret: "secret" },
+      "z-2"
+    );
+    expect(prisma.transcript.update).toHaveBeenCalledWith({
+      where: { id: "tr-2" },
+      data: { utterances: [{ speaker: "Dana", text: "Renewal is approved.", startMs: 1_000, endMs: 2_000 }] },
+    });
+    expect(pruneVectorsForCall.mock.calls.map(([input]) => input.callId)).toEqual(["call-1", "call-2"]);
+    expect(prisma.transcript.findUniqueOrThrow.mock.calls.map(([args]: any[]) => args.where.id)).toEqual([
+      "tr-1",
+      "tr-2",
+    ]);
+    expect(processingQueue.add).toHaveBeenCalledWith(
+      "process-call",
+      expect.objectContaining({ callId: "call-2", organizationId: "org-1", hasTranscript: true }),
+      expect.objectContaining({ jobId: "process-call:call-2:rechunk:run-1" })
+    );
+  });
+});
@@ -1,5 +1,5 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { markWebhookEventIfNew } from "../src/lib/webhook-idempotency.js";
+import { markWebhookEventIfNew, releaseWebhookEvent } from "../src/lib/webhook-idempotency.js";
 
 describe("webhook idempotency guard", () => {
   const origRedisUrl = process.env.REDIS_URL;
@@ -28,4 +28,12 @@ describe("webhook idempotency guard", () => {
     expect(await markWebhookEventIfNew(key, 1000)).toBe(true);
     vi.useRealTimers();
   });
+
+  it("accepts a delivery again once its key is released", async () => {
+    const key = `zoom:org_1:recording.completed:meeting_1:${Date.now()}`;
+    expect(await markWebhookEventIfNew(key, 10_000)).toBe(true);
+    await releaseWebhookEvent(key);
+    expect(await markWebhookEventIfNew(key, 10_000)).toBe(true);
+    expect(await markWebhookEventIfNew(key, 10_000)).toBe(false);
+  });
 });